@@ -0,0 +1,21 @@
+/**
+ * Canonical JSON for hashed exports (audit trails, wallet compliance reports)
+ *
+ * Shared by the frontend, which hashes and signs the payloads, and by
+ * scripts/compliance/verify-compliance-report.ts, which re-hashes them, so both
+ * sides always serialize a payload to the same bytes.
+ */
+
+/**
+ * JSON with object keys sorted at every level, so the hash doesn't depend on key order
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
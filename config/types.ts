@@ -3,6 +3,33 @@
  * Contains all coins regardless of Sharia compliance status
  */
 
+/**
+ * Screening categories, in the order of ShariaCompliance.CoinCategory
+ */
+export const COIN_CATEGORIES = [
+  "unspecified",
+  "currency",
+  "utility",
+  "stablecoin",
+  "governance",
+  "asset-backed",
+  "other",
+] as const;
+
+export type CoinCategory = typeof COIN_CATEGORIES[number];
+
+/**
+ * Structured screening behind a coin's verdict (ShariaCompliance.ComplianceMetadata)
+ */
+export interface ComplianceScreening {
+  category: CoinCategory;
+  methodology: string; // Screening standard applied
+  reviewer: string; // Reviewing scholar or Sharia board
+  documentHash: string; // bytes32 hash of the fatwa / screening report
+  reviewedAt: string | null; // ISO date of the review
+  reviewDueAt: string | null; // ISO date the coin must be re-reviewed by
+}
+
 export interface TayebCoin {
   symbol: string;
   name: string;
@@ -10,6 +37,7 @@ export interface TayebCoin {
   complianceReason: string;
   description: string;
   permissible: boolean; // Maps to contract's 'verified' field - indicates Sharia compliance
+  screening?: ComplianceScreening; // Synced from contract once a review is recorded
   addresses: {
     moonbase: string | null;
     moonbeam?: string | null;
@@ -54,6 +82,14 @@ export function getAllSymbols(config: TayebCoinsConfig): string[] {
   return config.coins.map(coin => coin.symbol);
 }
 
+/**
+ * Helper function to check if a coin is past its re-review due date
+ */
+export function isReviewOverdue(coin: TayebCoin, now: Date = new Date()): boolean {
+  const dueAt = coin.screening?.reviewDueAt;
+  return !!dueAt && new Date(dueAt).getTime() < now.getTime();
+}
+
 // Legacy type aliases for backwards compatibility during migration
 /** @deprecated Use TayebCoin instead */
 export type HalaCoin = TayebCoin;
@@ -80,9 +116,12 @@ export interface DeploymentMetadata {
   deployer: string | null;
 }
 
+/**
+ * Addresses deployed on a single chain
+ */
 export interface DeployedContracts {
-  network: string;
-  version: string;
+  network: string; // Hardhat network name used for the deployment (e.g., "moonbase")
+  chainId: number;
   lastDeployed: string | null;
   amm: DeployedAMM;
   main: DeployedMain;
@@ -91,3 +130,102 @@ export interface DeployedContracts {
   metadata: DeploymentMetadata;
 }
 
+/**
+ * Deployment registry stored in deployedContracts.json
+ * Each chain has its own section keyed by chain ID (e.g., "1287" for Moonbase Alpha)
+ */
+export interface DeploymentRegistry {
+  version: string;
+  deployments: { [chainId: string]: DeployedContracts };
+}
+
+/**
+ * Helper function to create an empty deployment section for a chain
+ */
+export function createEmptyDeployment(network: string, chainId: number): DeployedContracts {
+  return {
+    network,
+    chainId,
+    lastDeployed: null,
+    amm: { factory: null, router: null, weth: null },
+    main: { shariaCompliance: null, shariaSwap: null, shariaDCA: null },
+    tokens: {},
+    pairs: {},
+    metadata: { deployer: null },
+  };
+}
+
+/**
+ * Helper function to get the deployment for a chain (undefined if never deployed there)
+ */
+export function getDeployment(
+  registry: DeploymentRegistry,
+  chainId: number
+): DeployedContracts | undefined {
+  return registry.deployments[String(chainId)];
+}
+
+/**
+ * Helper function to resolve a coin's token address on a deployment
+ * Prefers the deployment's token list, falls back to the coin's per-network address
+ */
+export function getCoinAddress(coin: TayebCoin, deployment: DeployedContracts): string | null {
+  const fromDeployment = deployment.tokens[coin.symbol];
+  if (fromDeployment && fromDeployment !== "null") {
+    return fromDeployment;
+  }
+  const fromCoin = coin.addresses[deployment.network as keyof TayebCoin["addresses"]];
+  return fromCoin && fromCoin !== "null" ? fromCoin : null;
+}
+
+/**
+ * Symbol of the coin backed by the wrapped native token (WETH / Wrapped DEV)
+ */
+export const WRAPPED_NATIVE_SYMBOL = "DEV";
+
+/**
+ * Helper function to check whether a coin is the wrapped native token
+ * It is deployed as WETH9 on local networks and cannot be minted
+ */
+export function isWrappedNativeCoin(coin: TayebCoin): boolean {
+  return coin.symbol === WRAPPED_NATIVE_SYMBOL;
+}
+
+/**
+ * Helper function to check whether a network has an address slot in tayebCoins.json
+ * Local networks (hardhat, localhost) only record addresses in the deployment registry
+ */
+export function isCoinAddressNetwork(network: string): network is keyof TayebCoin["addresses"] {
+  return network === "moonbase" || network === "moonbeam";
+}
+
+// ============================================================================
+// Devnet Types
+// ============================================================================
+
+export type DevnetInterval = "hour" | "day" | "week";
+
+export interface DevnetSampleOrder {
+  account: number; // Index into the hardhat node's accounts (0 is the deployer)
+  source: string; // Coin symbol ("DEV" for native)
+  target: string;
+  amountPerInterval: string; // Human-readable amount of the source coin
+  interval: DevnetInterval;
+  totalIntervals: number;
+  maxSlippageBps?: number; // Keeper slippage tolerance in basis points (seed default 100)
+}
+
+export interface DevnetConfig {
+  liquidity: {
+    usdcPerPair: string; // USDC side of every token/USDC pair
+    stablePairAmount: string; // Each side of the USDC/USDT pair
+    prices: { [symbol: string]: number }; // USD price used to size the token side
+  };
+  testAccounts: {
+    count: number; // Accounts #1..#count receive tokens
+    nativeAmount: string; // Native DEV sent to extra addresses (DEVNET_FUND_ADDRESSES)
+    stablecoinAmount: string; // USDC and USDT per account
+    tokenValueUsd: string; // USD value of every other token per account
+  };
+  sampleOrders: DevnetSampleOrder[];
+}
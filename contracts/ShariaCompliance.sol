@@ -23,6 +23,71 @@ contract ShariaCompliance is Ownable {
         bool exists;
     }
 
+    /// @notice Kind of asset a coin was screened as
+    enum CoinCategory {
+        Unspecified,
+        Currency,
+        Utility,
+        Stablecoin,
+        Governance,
+        AssetBacked,
+        Other
+    }
+
+    /// @notice Structured screening record behind a coin's verdict
+    struct ComplianceMetadata {
+        CoinCategory category;
+        string methodology;     // Screening standard applied (e.g. "AAOIFI SS 62")
+        string reviewer;        // Reviewing scholar or Sharia board
+        bytes32 documentHash;   // Hash of the fatwa / screening report
+        uint64 reviewedAt;      // Review date (unix seconds, 0 = never reviewed)
+        uint64 reviewDueAt;     // Re-review due date (unix seconds, 0 = no due date)
+    }
+
+    /// @notice Compliance status change waiting for reviewer approvals and the timelock
+    struct StatusProposal {
+        uint256 id;
+        string coinId;
+        bool verified;           // Proposed verdict
+        string complianceReason; // Reason stored on execution
+        string evidence;         // Supporting evidence (URI or document hash)
+        address proposer;
+        uint64 createdAt;
+        uint64 executableAt;     // Set when approvals reach the threshold (0 = still collecting)
+        uint32 approvals;
+        bool executed;
+        bool cancelled;
+    }
+
+    /// @notice Approval-workflow setting a governance proposal changes
+    enum GovernanceAction {
+        SetReviewer,
+        SetApprovalThreshold,
+        SetTimelockDuration
+    }
+
+    /// @notice Change to the approval workflow itself, approved like a status change
+    struct GovernanceProposal {
+        uint256 id;
+        GovernanceAction action;
+        address account;         // SetReviewer: reviewer address
+        uint256 value;           // SetReviewer: 1 = add, 0 = remove; otherwise the new threshold / timelock
+        address proposer;
+        uint64 createdAt;
+        uint64 executableAt;     // Set when approvals reach the threshold (0 = still collecting)
+        uint32 approvals;
+        bool executed;
+        bool cancelled;
+    }
+
+    /// @notice Request from a holder to screen a token that isn't in the registry
+    struct ReviewRequest {
+        address token;
+        address requester;
+        uint64 requestedAt;
+        string note;            // Optional context from the requester
+    }
+
     // ============================================================================
     // STATE VARIABLES
     // ============================================================================
@@ -40,6 +105,69 @@ contract ShariaCompliance is Ownable {
     mapping(address => string) public addressToSymbol;  // Address → Symbol
     mapping(string => address) public symbolToAddress;  // Symbol → Address
 
+    /// @notice Screening metadata by coin ID
+    mapping(string => ComplianceMetadata) private complianceMetadata;
+
+    /// @notice Accounts allowed to propose compliance status changes
+    mapping(address => bool) public complianceOfficers;
+
+    /// @notice Accounts allowed to approve proposals
+    mapping(address => bool) public reviewers;
+
+    /// @notice Number of registered reviewers (M)
+    uint256 public reviewerCount;
+
+    /// @notice Approvals a proposal needs (N); 0 keeps direct owner updates until a threshold is first set
+    uint256 public approvalThreshold;
+
+    /// @notice Delay between the last required approval and execution
+    uint256 public timelockDuration;
+
+    /// @notice Proposals by ID (IDs start at 1)
+    mapping(uint256 => StatusProposal) private proposals;
+
+    /// @notice Total number of proposals created
+    uint256 public proposalCount;
+
+    /// @notice Reviewer approvals per proposal
+    mapping(uint256 => mapping(address => bool)) public hasApproved;
+
+    /// @notice Reviewers who approved each proposal (re-checked against the reviewer set on execution)
+    mapping(uint256 => address[]) private proposalApprovers;
+
+    /// @notice Times each coin ID has been registered; a proposal only applies to the registration it was made for
+    mapping(string => uint256) public coinRegistrations;
+
+    /// @notice Registration of the coin each proposal was made for
+    mapping(uint256 => uint256) private proposalRegistration;
+
+    /// @notice Governance proposals by ID (IDs start at 1)
+    mapping(uint256 => GovernanceProposal) private governanceProposals;
+
+    /// @notice Total number of governance proposals created
+    uint256 public governanceProposalCount;
+
+    /// @notice Reviewer approvals per governance proposal
+    mapping(uint256 => mapping(address => bool)) public hasApprovedGovernance;
+
+    /// @notice Reviewers who approved each governance proposal
+    mapping(uint256 => address[]) private governanceApprovers;
+
+    /// @notice Open review request per token (requester is zero when none)
+    mapping(address => ReviewRequest) private reviewRequests;
+
+    /// @notice Tokens with an open review request, for enumeration
+    address[] private pendingReviewTokens;
+
+    /// @notice Position of each token in pendingReviewTokens plus one (0 = not pending)
+    mapping(address => uint256) private pendingReviewIndex;
+
+    /// @notice When each account last requested a review
+    mapping(address => uint64) public lastReviewRequestAt;
+
+    /// @notice Minimum time between review requests from one account
+    uint256 public constant REVIEW_REQUEST_COOLDOWN = 1 hours;
+
     // ============================================================================
     // EVENTS
     // ============================================================================
@@ -59,6 +187,60 @@ contract ShariaCompliance is Ownable {
         string complianceReason
     );
 
+    event ComplianceMetadataUpdated(
+        string indexed coinId,
+        CoinCategory category,
+        string methodology,
+        string reviewer,
+        bytes32 documentHash,
+        uint64 reviewedAt,
+        uint64 reviewDueAt
+    );
+
+    event ComplianceOfficerUpdated(address indexed account, bool enabled);
+
+    event ReviewerUpdated(address indexed account, bool enabled);
+
+    event ApprovalThresholdUpdated(uint256 threshold);
+
+    event TimelockDurationUpdated(uint256 duration);
+
+    event StatusChangeProposed(
+        uint256 indexed proposalId,
+        string indexed coinId,
+        address indexed proposer,
+        bool verified,
+        string complianceReason,
+        string evidence
+    );
+
+    event ProposalApproved(uint256 indexed proposalId, address indexed reviewer, uint256 approvals);
+
+    event ProposalQueued(uint256 indexed proposalId, uint256 executableAt);
+
+    event ProposalExecuted(uint256 indexed proposalId);
+
+    event ProposalCancelled(uint256 indexed proposalId);
+
+    event GovernanceChangeProposed(
+        uint256 indexed proposalId,
+        GovernanceAction action,
+        address account,
+        uint256 value
+    );
+
+    event GovernanceChangeApproved(uint256 indexed proposalId, address indexed reviewer, uint256 approvals);
+
+    event GovernanceChangeQueued(uint256 indexed proposalId, uint256 executableAt);
+
+    event GovernanceChangeExecuted(uint256 indexed proposalId);
+
+    event GovernanceChangeCancelled(uint256 indexed proposalId);
+
+    event ReviewRequested(address indexed token, address indexed requester, string note);
+
+    event ReviewRequestClosed(address indexed token);
+
     // ============================================================================
     // ERRORS
     // ============================================================================
@@ -66,6 +248,43 @@ contract ShariaCompliance is Ownable {
     error CoinNotFound(string coinId);
     error CoinAlreadyExists(string coinId);
     error NotShariaCompliant(string coinId);
+    error InvalidReviewDates(string coinId);
+    error ApprovalRequired();
+    error NotComplianceOfficer(address account);
+    error NotReviewer(address account);
+    error InvalidApprovalThreshold(uint256 threshold, uint256 reviewerCount);
+    error ProposalNotFound(uint256 proposalId);
+    error ProposalClosed(uint256 proposalId);
+    error ProposalCoinReplaced(uint256 proposalId, string coinId);
+    error ProposerCannotApprove(uint256 proposalId);
+    error AlreadyApproved(uint256 proposalId, address reviewer);
+    error ProposalNotQueued(uint256 proposalId);
+    error InsufficientApprovals(uint256 proposalId, uint256 approvals, uint256 threshold);
+    error TimelockNotElapsed(uint256 proposalId, uint256 executableAt);
+    error NotAuthorizedToCancel(uint256 proposalId);
+    error InvalidTokenAddress(address token);
+    error TokenAlreadyRegistered(address token);
+    error ReviewAlreadyRequested(address token);
+    error ReviewRequestNotFound(address token);
+    error ReviewRequestCooldown(address requester, uint256 availableAt);
+
+    // ============================================================================
+    // MODIFIERS
+    // ============================================================================
+
+    modifier onlyComplianceOfficer() {
+        if (!complianceOfficers[msg.sender]) {
+            revert NotComplianceOfficer(msg.sender);
+        }
+        _;
+    }
+
+    modifier onlyReviewer() {
+        if (!reviewers[msg.sender]) {
+            revert NotReviewer(msg.sender);
+        }
+        _;
+    }
 
     // ============================================================================
     // CONSTRUCTOR
@@ -82,6 +301,9 @@ contract ShariaCompliance is Ownable {
 
     /**
      * @notice Register a new Sharia-compliant coin
+     * @dev Once an approval threshold is set the coin starts unverified, so removing
+     * and re-registering a coin can't restore its verdict without reviewer approval.
+     * Proposals made before the coin was re-registered no longer apply to it
      * @param coinId Unique identifier (typically token address)
      * @param name Token name
      * @param symbol Token symbol
@@ -118,27 +340,42 @@ contract ShariaCompliance is Ownable {
             name: name,
             symbol: symbol,
             tokenAddress: tokenAddress,  // ← Store address
-            verified: true,
+            verified: approvalThreshold == 0,
             complianceReason: complianceReason,
             exists: true
         });
 
+        coinRegistrations[coinId] += 1;
+
         if (!coinIdExists[coinId]) {
             coinIds.push(coinId);
             coinIdExists[coinId] = true;
         }
 
+        if (tokenAddress != address(0) && reviewRequests[tokenAddress].requester != address(0)) {
+            _closeReviewRequest(tokenAddress);
+        }
+
         emit CoinRegistered(coinId, name, symbol, complianceReason);
+        if (approvalThreshold > 0) {
+            // Only a proposal can mark the coin compliant
+            emit CoinUpdated(coinId, false, complianceReason);
+        }
     }
 
     /**
      * @notice Remove a coin from the Sharia compliance registry
+     * @dev Removal makes the coin non-compliant, so once an approval threshold is set only
+     * coins already marked non-compliant (through an executed proposal) can be removed
      * @param coinId Coin identifier to remove
      */
     function removeShariaCoin(string memory coinId) external onlyOwner {
         if (!shariaCoins[coinId].exists) {
             revert CoinNotFound(coinId);
         }
+        if (approvalThreshold > 0 && shariaCoins[coinId].verified) {
+            revert ApprovalRequired();
+        }
 
         // Clean up reverse mappings
         address tokenAddress = shariaCoins[coinId].tokenAddress;
@@ -148,6 +385,7 @@ contract ShariaCompliance is Ownable {
         }
 
         delete shariaCoins[coinId];
+        delete complianceMetadata[coinId];
         
         // Remove from coinIds array
         for (uint256 i = 0; i < coinIds.length; i++) {
@@ -165,6 +403,8 @@ contract ShariaCompliance is Ownable {
 
     /**
      * @notice Update compliance status of a coin
+     * @dev Only while no approval threshold is set; afterwards changes go through
+     * proposeStatusChange() / approveProposal() / executeProposal()
      * @param coinId Coin identifier
      * @param verified New verification status
      * @param complianceReason Updated reason
@@ -173,15 +413,347 @@ contract ShariaCompliance is Ownable {
         string memory coinId,
         bool verified,
         string memory complianceReason
+    ) external onlyOwner {
+        if (approvalThreshold > 0) {
+            revert ApprovalRequired();
+        }
+        _updateComplianceStatus(coinId, verified, complianceReason);
+    }
+
+    /**
+     * @notice Record the screening behind a coin's verdict
+     * @param coinId Coin identifier
+     * @param metadata Category, methodology, reviewer, document hash and review dates
+     */
+    function setComplianceMetadata(
+        string memory coinId,
+        ComplianceMetadata memory metadata
     ) external onlyOwner {
         if (!shariaCoins[coinId].exists) {
             revert CoinNotFound(coinId);
         }
+        if (metadata.reviewDueAt != 0 && metadata.reviewDueAt <= metadata.reviewedAt) {
+            revert InvalidReviewDates(coinId);
+        }
 
-        shariaCoins[coinId].verified = verified;
-        shariaCoins[coinId].complianceReason = complianceReason;
+        complianceMetadata[coinId] = metadata;
 
-        emit CoinUpdated(coinId, verified, complianceReason);
+        emit ComplianceMetadataUpdated(
+            coinId,
+            metadata.category,
+            metadata.methodology,
+            metadata.reviewer,
+            metadata.documentHash,
+            metadata.reviewedAt,
+            metadata.reviewDueAt
+        );
+    }
+
+    // ============================================================================
+    // APPROVAL WORKFLOW
+    // ============================================================================
+
+    /**
+     * @notice Allow or revoke an account to propose status changes
+     * @param account Compliance officer address
+     * @param enabled True to allow, false to revoke
+     */
+    function setComplianceOfficer(address account, bool enabled) external onlyOwner {
+        complianceOfficers[account] = enabled;
+        emit ComplianceOfficerUpdated(account, enabled);
+    }
+
+    /**
+     * @notice Register or remove a reviewer
+     * @dev Only while no approval threshold is set; afterwards use proposeGovernanceChange()
+     * @param account Reviewer address
+     * @param enabled True to register, false to remove
+     */
+    function setReviewer(address account, bool enabled) external onlyOwner {
+        if (approvalThreshold > 0) {
+            revert ApprovalRequired();
+        }
+        _setReviewer(account, enabled);
+    }
+
+    /**
+     * @notice Turn on the approval workflow
+     * @dev Only while no threshold is set; afterwards use proposeGovernanceChange()
+     * @param threshold N of the registered M reviewers
+     */
+    function setApprovalThreshold(uint256 threshold) external onlyOwner {
+        if (approvalThreshold > 0) {
+            revert ApprovalRequired();
+        }
+        _setApprovalThreshold(threshold);
+    }
+
+    /**
+     * @notice Set the delay between final approval and execution
+     * @dev Only while no approval threshold is set; afterwards use proposeGovernanceChange()
+     * @param duration Timelock in seconds
+     */
+    function setTimelockDuration(uint256 duration) external onlyOwner {
+        if (approvalThreshold > 0) {
+            revert ApprovalRequired();
+        }
+        _setTimelockDuration(duration);
+    }
+
+    /**
+     * @notice Propose a change to the reviewer set, threshold or timelock
+     * @dev Needs the same reviewer approvals and timelock as a status change; the
+     * threshold can be changed but never back to 0
+     * @param action Setting to change
+     * @param account Reviewer address (SetReviewer only)
+     * @param value 1 to add or 0 to remove a reviewer, or the new threshold / timelock
+     * @return proposalId ID of the new governance proposal
+     */
+    function proposeGovernanceChange(
+        GovernanceAction action,
+        address account,
+        uint256 value
+    ) external onlyOwner returns (uint256 proposalId) {
+        if (approvalThreshold == 0) {
+            revert InvalidApprovalThreshold(0, reviewerCount);
+        }
+        _validateGovernanceChange(action, account, value);
+
+        proposalId = ++governanceProposalCount;
+        governanceProposals[proposalId] = GovernanceProposal({
+            id: proposalId,
+            action: action,
+            account: account,
+            value: value,
+            proposer: msg.sender,
+            createdAt: uint64(block.timestamp),
+            executableAt: 0,
+            approvals: 0,
+            executed: false,
+            cancelled: false
+        });
+
+        emit GovernanceChangeProposed(proposalId, action, account, value);
+    }
+
+    /**
+     * @notice Approve a governance proposal; the timelock starts once approvals reach the threshold
+     * @param proposalId Governance proposal to approve
+     */
+    function approveGovernanceChange(uint256 proposalId) external onlyReviewer {
+        GovernanceProposal storage proposal = _openGovernanceProposal(proposalId);
+        if (proposal.proposer == msg.sender) {
+            revert ProposerCannotApprove(proposalId);
+        }
+        if (hasApprovedGovernance[proposalId][msg.sender]) {
+            revert AlreadyApproved(proposalId, msg.sender);
+        }
+
+        hasApprovedGovernance[proposalId][msg.sender] = true;
+        governanceApprovers[proposalId].push(msg.sender);
+        proposal.approvals += 1;
+        emit GovernanceChangeApproved(proposalId, msg.sender, proposal.approvals);
+
+        if (proposal.executableAt == 0 && _activeApprovals(governanceApprovers[proposalId]) >= approvalThreshold) {
+            proposal.executableAt = uint64(block.timestamp + timelockDuration);
+            emit GovernanceChangeQueued(proposalId, proposal.executableAt);
+        }
+    }
+
+    /**
+     * @notice Apply an approved governance proposal once its timelock has elapsed (callable by anyone)
+     * @dev Approvals are re-counted against the current reviewer set and threshold
+     * @param proposalId Governance proposal to execute
+     */
+    function executeGovernanceChange(uint256 proposalId) external {
+        GovernanceProposal storage proposal = _openGovernanceProposal(proposalId);
+        if (proposal.executableAt == 0) {
+            revert ProposalNotQueued(proposalId);
+        }
+        if (block.timestamp < proposal.executableAt) {
+            revert TimelockNotElapsed(proposalId, proposal.executableAt);
+        }
+        uint256 approvals = _activeApprovals(governanceApprovers[proposalId]);
+        if (approvals < approvalThreshold) {
+            revert InsufficientApprovals(proposalId, approvals, approvalThreshold);
+        }
+        // The reviewer set or threshold may have changed since the proposal was made
+        _validateGovernanceChange(proposal.action, proposal.account, proposal.value);
+
+        proposal.executed = true;
+        if (proposal.action == GovernanceAction.SetReviewer) {
+            _setReviewer(proposal.account, proposal.value == 1);
+        } else if (proposal.action == GovernanceAction.SetApprovalThreshold) {
+            _setApprovalThreshold(proposal.value);
+        } else {
+            _setTimelockDuration(proposal.value);
+        }
+        emit GovernanceChangeExecuted(proposalId);
+    }
+
+    /**
+     * @notice Withdraw a governance proposal (owner)
+     * @param proposalId Governance proposal to cancel
+     */
+    function cancelGovernanceChange(uint256 proposalId) external onlyOwner {
+        GovernanceProposal storage proposal = _openGovernanceProposal(proposalId);
+        proposal.cancelled = true;
+        emit GovernanceChangeCancelled(proposalId);
+    }
+
+    /**
+     * @notice Propose a compliance status change for review
+     * @param coinId Coin identifier
+     * @param verified Proposed verification status
+     * @param complianceReason Reason stored when the change executes
+     * @param evidence Supporting evidence (URI or document hash)
+     * @return proposalId ID of the new proposal
+     */
+    function proposeStatusChange(
+        string memory coinId,
+        bool verified,
+        string memory complianceReason,
+        string memory evidence
+    ) external onlyComplianceOfficer returns (uint256 proposalId) {
+        if (!shariaCoins[coinId].exists) {
+            revert CoinNotFound(coinId);
+        }
+
+        proposalId = ++proposalCount;
+        proposals[proposalId] = StatusProposal({
+            id: proposalId,
+            coinId: coinId,
+            verified: verified,
+            complianceReason: complianceReason,
+            evidence: evidence,
+            proposer: msg.sender,
+            createdAt: uint64(block.timestamp),
+            executableAt: 0,
+            approvals: 0,
+            executed: false,
+            cancelled: false
+        });
+        proposalRegistration[proposalId] = coinRegistrations[coinId];
+
+        emit StatusChangeProposed(proposalId, coinId, msg.sender, verified, complianceReason, evidence);
+    }
+
+    /**
+     * @notice Approve a proposal; the timelock starts once approvals reach the threshold
+     * @param proposalId Proposal to approve
+     */
+    function approveProposal(uint256 proposalId) external onlyReviewer {
+        StatusProposal storage proposal = _openProposal(proposalId);
+        _requireSameRegistration(proposalId, proposal.coinId);
+        if (proposal.proposer == msg.sender) {
+            revert ProposerCannotApprove(proposalId);
+        }
+        if (hasApproved[proposalId][msg.sender]) {
+            revert AlreadyApproved(proposalId, msg.sender);
+        }
+
+        hasApproved[proposalId][msg.sender] = true;
+        proposalApprovers[proposalId].push(msg.sender);
+        proposal.approvals += 1;
+        emit ProposalApproved(proposalId, msg.sender, proposal.approvals);
+
+        if (proposal.executableAt == 0 && _activeApprovals(proposalApprovers[proposalId]) >= approvalThreshold) {
+            proposal.executableAt = uint64(block.timestamp + timelockDuration);
+            emit ProposalQueued(proposalId, proposal.executableAt);
+        }
+    }
+
+    /**
+     * @notice Apply an approved proposal once its timelock has elapsed (callable by anyone)
+     * @dev Only approvals from current reviewers count, against the current threshold. A
+     * proposal for a coin that was removed (and possibly re-registered with another token)
+     * since it was made can only be cancelled
+     * @param proposalId Proposal to execute
+     */
+    function executeProposal(uint256 proposalId) external {
+        StatusProposal storage proposal = _openProposal(proposalId);
+        _requireSameRegistration(proposalId, proposal.coinId);
+        if (proposal.executableAt == 0) {
+            revert ProposalNotQueued(proposalId);
+        }
+        if (block.timestamp < proposal.executableAt) {
+            revert TimelockNotElapsed(proposalId, proposal.executableAt);
+        }
+        uint256 approvals = _activeApprovals(proposalApprovers[proposalId]);
+        if (approvals < approvalThreshold) {
+            revert InsufficientApprovals(proposalId, approvals, approvalThreshold);
+        }
+
+        proposal.executed = true;
+        _updateComplianceStatus(proposal.coinId, proposal.verified, proposal.complianceReason);
+        emit ProposalExecuted(proposalId);
+    }
+
+    /**
+     * @notice Withdraw a proposal (proposer or owner)
+     * @param proposalId Proposal to cancel
+     */
+    function cancelProposal(uint256 proposalId) external {
+        StatusProposal storage proposal = _openProposal(proposalId);
+        if (msg.sender != proposal.proposer && msg.sender != owner()) {
+            revert NotAuthorizedToCancel(proposalId);
+        }
+
+        proposal.cancelled = true;
+        emit ProposalCancelled(proposalId);
+    }
+
+    // ============================================================================
+    // REVIEW REQUESTS
+    // ============================================================================
+
+    /**
+     * @notice Ask compliance admins to screen a token that isn't registered yet
+     * @dev One open request per token; it closes when the token is registered or dismissed.
+     * Each account can request once per REVIEW_REQUEST_COOLDOWN to keep the queue reviewable
+     * @param token Token contract address
+     * @param note Optional context (e.g. where the token came from)
+     */
+    function requestReview(address token, string memory note) external {
+        if (token == address(0)) {
+            revert InvalidTokenAddress(token);
+        }
+        if (bytes(addressToSymbol[token]).length > 0) {
+            revert TokenAlreadyRegistered(token);
+        }
+        if (reviewRequests[token].requester != address(0)) {
+            revert ReviewAlreadyRequested(token);
+        }
+        uint256 lastRequestAt = lastReviewRequestAt[msg.sender];
+        if (lastRequestAt != 0 && block.timestamp < lastRequestAt + REVIEW_REQUEST_COOLDOWN) {
+            revert ReviewRequestCooldown(msg.sender, lastRequestAt + REVIEW_REQUEST_COOLDOWN);
+        }
+
+        reviewRequests[token] = ReviewRequest({
+            token: token,
+            requester: msg.sender,
+            requestedAt: uint64(block.timestamp),
+            note: note
+        });
+        lastReviewRequestAt[msg.sender] = uint64(block.timestamp);
+        pendingReviewTokens.push(token);
+        pendingReviewIndex[token] = pendingReviewTokens.length;
+
+        emit ReviewRequested(token, msg.sender, note);
+    }
+
+    /**
+     * @notice Close a review request without registering the token (owner or compliance officer)
+     * @param token Token contract address
+     */
+    function dismissReviewRequest(address token) external {
+        if (msg.sender != owner() && !complianceOfficers[msg.sender]) {
+            revert NotComplianceOfficer(msg.sender);
+        }
+        if (reviewRequests[token].requester == address(0)) {
+            revert ReviewRequestNotFound(token);
+        }
+        _closeReviewRequest(token);
     }
 
     // ============================================================================
@@ -223,6 +795,158 @@ contract ShariaCompliance is Ownable {
         return coins;
     }
 
+    /**
+     * @notice Get the screening metadata of a coin
+     * @param coinId Coin identifier
+     * @return ComplianceMetadata struct (zeroed if never set)
+     */
+    function getComplianceMetadata(string memory coinId) external view returns (ComplianceMetadata memory) {
+        if (!shariaCoins[coinId].exists) {
+            revert CoinNotFound(coinId);
+        }
+        return complianceMetadata[coinId];
+    }
+
+    /**
+     * @notice Get the screening metadata of all registered coins
+     * @return Array in the same order as getAllShariaCoins()
+     */
+    function getAllComplianceMetadata() external view returns (ComplianceMetadata[] memory) {
+        ComplianceMetadata[] memory metadata = new ComplianceMetadata[](coinIds.length);
+
+        for (uint256 i = 0; i < coinIds.length; i++) {
+            metadata[i] = complianceMetadata[coinIds[i]];
+        }
+
+        return metadata;
+    }
+
+    /**
+     * @notice Check if a coin is past its re-review due date
+     * @param coinId Coin identifier
+     * @return bool True if a due date is set and has passed
+     */
+    function isReviewOverdue(string memory coinId) external view returns (bool) {
+        uint64 dueAt = complianceMetadata[coinId].reviewDueAt;
+        return dueAt != 0 && block.timestamp > dueAt;
+    }
+
+    /**
+     * @notice Get a status change proposal
+     * @param proposalId Proposal ID
+     * @return StatusProposal struct
+     */
+    function getProposal(uint256 proposalId) external view returns (StatusProposal memory) {
+        if (proposalId == 0 || proposalId > proposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+        return proposals[proposalId];
+    }
+
+    /**
+     * @notice Get a range of proposals, oldest first
+     * @param fromId First proposal ID (IDs start at 1)
+     * @param count Maximum number of proposals to return
+     * @return Array of StatusProposal structs
+     */
+    function getProposals(uint256 fromId, uint256 count) external view returns (StatusProposal[] memory) {
+        if (fromId == 0) {
+            fromId = 1;
+        }
+        uint256 available = fromId > proposalCount ? 0 : proposalCount - fromId + 1;
+        uint256 length = count < available ? count : available;
+
+        StatusProposal[] memory result = new StatusProposal[](length);
+        for (uint256 i = 0; i < length; i++) {
+            result[i] = proposals[fromId + i];
+        }
+        return result;
+    }
+
+    /**
+     * @notice Approvals on a proposal from accounts that are still reviewers
+     * @param proposalId Proposal ID
+     * @return uint256 Approvals that count towards execution
+     */
+    function getActiveApprovals(uint256 proposalId) external view returns (uint256) {
+        return _activeApprovals(proposalApprovers[proposalId]);
+    }
+
+    /**
+     * @notice Get a governance proposal
+     * @param proposalId Governance proposal ID
+     * @return GovernanceProposal struct
+     */
+    function getGovernanceProposal(uint256 proposalId) external view returns (GovernanceProposal memory) {
+        if (proposalId == 0 || proposalId > governanceProposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+        return governanceProposals[proposalId];
+    }
+
+    /**
+     * @notice Get a range of governance proposals, oldest first
+     * @param fromId First governance proposal ID (IDs start at 1)
+     * @param count Maximum number of proposals to return
+     * @return Array of GovernanceProposal structs
+     */
+    function getGovernanceProposals(uint256 fromId, uint256 count) external view returns (GovernanceProposal[] memory) {
+        if (fromId == 0) {
+            fromId = 1;
+        }
+        uint256 available = fromId > governanceProposalCount ? 0 : governanceProposalCount - fromId + 1;
+        uint256 length = count < available ? count : available;
+
+        GovernanceProposal[] memory result = new GovernanceProposal[](length);
+        for (uint256 i = 0; i < length; i++) {
+            result[i] = governanceProposals[fromId + i];
+        }
+        return result;
+    }
+
+    /**
+     * @notice Approvals on a governance proposal from accounts that are still reviewers
+     * @param proposalId Governance proposal ID
+     * @return uint256 Approvals that count towards execution
+     */
+    function getActiveGovernanceApprovals(uint256 proposalId) external view returns (uint256) {
+        return _activeApprovals(governanceApprovers[proposalId]);
+    }
+
+    /**
+     * @notice Get the open review request for a token
+     * @param token Token contract address
+     * @return ReviewRequest struct (requester is zero when there is none)
+     */
+    function getReviewRequest(address token) external view returns (ReviewRequest memory) {
+        return reviewRequests[token];
+    }
+
+    /**
+     * @notice Number of open review requests
+     * @return uint256 Pending request count
+     */
+    function getPendingReviewRequestCount() external view returns (uint256) {
+        return pendingReviewTokens.length;
+    }
+
+    /**
+     * @notice Get a page of open review requests (order changes as requests close)
+     * @param offset Index of the first request to return
+     * @param count Maximum number of requests to return
+     * @return Array of ReviewRequest structs
+     */
+    function getPendingReviewRequests(uint256 offset, uint256 count) external view returns (ReviewRequest[] memory) {
+        uint256 available = offset >= pendingReviewTokens.length ? 0 : pendingReviewTokens.length - offset;
+        uint256 length = count < available ? count : available;
+
+        ReviewRequest[] memory result = new ReviewRequest[](length);
+        for (uint256 i = 0; i < length; i++) {
+            result[i] = reviewRequests[pendingReviewTokens[offset + i]];
+        }
+        return result;
+    }
+
     /**
      * @notice Get total number of registered coins
      * @return uint256 Total count
@@ -269,6 +993,134 @@ contract ShariaCompliance is Ownable {
     // INTERNAL FUNCTIONS
     // ============================================================================
 
+    /**
+     * @notice Apply a compliance status change (direct owner update or executed proposal)
+     */
+    function _updateComplianceStatus(
+        string memory coinId,
+        bool verified,
+        string memory complianceReason
+    ) private {
+        if (!shariaCoins[coinId].exists) {
+            revert CoinNotFound(coinId);
+        }
+
+        shariaCoins[coinId].verified = verified;
+        shariaCoins[coinId].complianceReason = complianceReason;
+
+        emit CoinUpdated(coinId, verified, complianceReason);
+    }
+
+    /**
+     * @notice Load a proposal that can still be approved, executed or cancelled
+     */
+    function _openProposal(uint256 proposalId) private view returns (StatusProposal storage proposal) {
+        if (proposalId == 0 || proposalId > proposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+        proposal = proposals[proposalId];
+        if (proposal.executed || proposal.cancelled) {
+            revert ProposalClosed(proposalId);
+        }
+    }
+
+    /**
+     * @notice Revert if the proposal's coin was removed or re-registered since it was proposed
+     */
+    function _requireSameRegistration(uint256 proposalId, string memory coinId) private view {
+        if (!shariaCoins[coinId].exists || proposalRegistration[proposalId] != coinRegistrations[coinId]) {
+            revert ProposalCoinReplaced(proposalId, coinId);
+        }
+    }
+
+    /**
+     * @notice Load a governance proposal that can still be approved, executed or cancelled
+     */
+    function _openGovernanceProposal(uint256 proposalId) private view returns (GovernanceProposal storage proposal) {
+        if (proposalId == 0 || proposalId > governanceProposalCount) {
+            revert ProposalNotFound(proposalId);
+        }
+        proposal = governanceProposals[proposalId];
+        if (proposal.executed || proposal.cancelled) {
+            revert ProposalClosed(proposalId);
+        }
+    }
+
+    /**
+     * @notice Count approvers that are still registered reviewers
+     */
+    function _activeApprovals(address[] storage approvers) private view returns (uint256 count) {
+        for (uint256 i = 0; i < approvers.length; i++) {
+            if (reviewers[approvers[i]]) {
+                count++;
+            }
+        }
+    }
+
+    /**
+     * @notice Check a governance change against the current reviewer set and threshold
+     */
+    function _validateGovernanceChange(GovernanceAction action, address account, uint256 value) private view {
+        if (action == GovernanceAction.SetReviewer) {
+            if (value > 1) {
+                revert InvalidApprovalThreshold(value, reviewerCount);
+            }
+            if (value == 0 && reviewers[account] && reviewerCount - 1 < approvalThreshold) {
+                revert InvalidApprovalThreshold(approvalThreshold, reviewerCount - 1);
+            }
+        } else if (action == GovernanceAction.SetApprovalThreshold) {
+            if (value == 0 || value > reviewerCount) {
+                revert InvalidApprovalThreshold(value, reviewerCount);
+            }
+        }
+    }
+
+    /**
+     * @notice Add or remove a reviewer, keeping at least approvalThreshold reviewers
+     */
+    function _setReviewer(address account, bool enabled) private {
+        if (reviewers[account] == enabled) {
+            return;
+        }
+        if (!enabled && reviewerCount - 1 < approvalThreshold) {
+            revert InvalidApprovalThreshold(approvalThreshold, reviewerCount - 1);
+        }
+
+        reviewers[account] = enabled;
+        reviewerCount = enabled ? reviewerCount + 1 : reviewerCount - 1;
+        emit ReviewerUpdated(account, enabled);
+    }
+
+    function _setApprovalThreshold(uint256 threshold) private {
+        if (threshold > reviewerCount) {
+            revert InvalidApprovalThreshold(threshold, reviewerCount);
+        }
+        approvalThreshold = threshold;
+        emit ApprovalThresholdUpdated(threshold);
+    }
+
+    function _setTimelockDuration(uint256 duration) private {
+        timelockDuration = duration;
+        emit TimelockDurationUpdated(duration);
+    }
+
+    /**
+     * @notice Drop a token's open review request
+     */
+    function _closeReviewRequest(address token) private {
+        delete reviewRequests[token];
+
+        // Swap and pop using the stored index
+        uint256 index = pendingReviewIndex[token] - 1;
+        address last = pendingReviewTokens[pendingReviewTokens.length - 1];
+        pendingReviewTokens[index] = last;
+        pendingReviewIndex[last] = index + 1;
+        pendingReviewTokens.pop();
+        delete pendingReviewIndex[token];
+
+        emit ReviewRequestClosed(token);
+    }
+
     /**
      * @notice Initialize default Sharia-compliant coins
      * @dev Coins are registered programmatically from config during deployment
@@ -313,6 +1165,7 @@ contract ShariaCompliance is Ownable {
             complianceReason: complianceReason,
             exists: true
         });
+        coinRegistrations[coinId] += 1;
 
         if (!coinIdExists[coinId]) {
             coinIds.push(coinId);
@@ -61,6 +61,25 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     /// @notice Hour in seconds (constant)
     uint256 private constant HOUR_IN_SECONDS = 3600;
 
+    /// @notice Basis points denominator (10000 = 100%)
+    uint256 public constant BPS_DENOMINATOR = 10000;
+
+    /// @notice Maximum slippage tolerance per order (50%)
+    uint256 public constant MAX_SLIPPAGE_BPS = 5000;
+
+    /// @notice Addresses allowed to run performUpkeep (the owner always is)
+    /// @dev Keepers supply the minimum outputs, so execution cannot be permissionless
+    mapping(address => bool) public keepers;
+
+    /// @notice Limit order counter (separate ID space from DCA orders)
+    uint256 public nextLimitOrderId = 1;
+
+    /// @notice All limit orders
+    mapping(uint256 => LimitOrder) public limitOrders;
+
+    /// @notice User's limit orders
+    mapping(address => uint256[]) public userLimitOrders;
+
     // ============================================================================
     // STRUCTS
     // ============================================================================
@@ -76,10 +95,36 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 totalIntervals;
         uint256 nextExecutionTime;
         uint256 startTime;
+        uint256 maxSlippageBps;   // Tolerance the keeper applies to its quote
+        uint256 minAmountOut;     // Minimum output per interval (price floor, 0 = none)
         bool isActive;
+        bool isPaused;            // Paused orders keep their deposit but are not executed
+        bool exists;
+    }
+
+    /// @dev Buys targetToken with the whole deposit once amountIn quotes at least
+    ///      minAmountOut, i.e. once the price falls to amountIn / minAmountOut or below
+    struct LimitOrder {
+        uint256 id;
+        address owner;
+        address sourceToken;      // address(0) for DEV, token address for ERC20
+        address targetToken;
+        uint256 amountIn;
+        uint256 minAmountOut;     // Limit: minimum target tokens for amountIn
+        uint256 expiry;           // Refunded instead of filled after this timestamp
+        uint256 createdAt;
+        uint256 amountOut;        // Filled amount (0 until filled)
+        LimitOrderStatus status;
         bool exists;
     }
 
+    enum LimitOrderStatus {
+        Open,
+        Filled,
+        Cancelled,
+        Expired
+    }
+
     // ============================================================================
     // EVENTS
     // ============================================================================
@@ -102,6 +147,37 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 timestamp
     );
 
+    event DCAOrderSkipped(
+        uint256 indexed orderId,
+        uint256 expectedAmountOut,
+        uint256 minAmountOut,
+        uint256 timestamp
+    );
+
+    event KeeperUpdated(
+        address indexed keeper,
+        bool authorized
+    );
+
+    event DCAOrderPaused(
+        uint256 indexed orderId,
+        address indexed owner
+    );
+
+    event DCAOrderResumed(
+        uint256 indexed orderId,
+        address indexed owner,
+        uint256 nextExecutionTime
+    );
+
+    event DCAOrderToppedUp(
+        uint256 indexed orderId,
+        address indexed owner,
+        uint256 additionalIntervals,
+        uint256 totalIntervals,
+        uint256 amountDeposited
+    );
+
     event DCAOrderCancelled(
         uint256 indexed orderId,
         address indexed owner
@@ -113,6 +189,35 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         uint256 totalIntervals
     );
 
+    event LimitOrderCreated(
+        uint256 indexed orderId,
+        address indexed owner,
+        address sourceToken,
+        address targetToken,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 expiry
+    );
+
+    event LimitOrderFilled(
+        uint256 indexed orderId,
+        address indexed owner,
+        uint256 amountIn,
+        uint256 amountOut,
+        uint256 timestamp
+    );
+
+    event LimitOrderCancelled(
+        uint256 indexed orderId,
+        address indexed owner
+    );
+
+    event LimitOrderExpired(
+        uint256 indexed orderId,
+        address indexed owner,
+        uint256 refundAmount
+    );
+
     // ============================================================================
     // ERRORS
     // ============================================================================
@@ -126,6 +231,12 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
     error OrderNotReady();
     error SwapFailed();
     error TokenNotRegistered();
+    error InvalidSlippage();
+    error InvalidPerformData();
+    error OrderPaused();
+    error OrderNotPaused();
+    error InvalidExpiry();
+    error LimitNotReached();
 
     // ============================================================================
     // CONSTRUCTOR
@@ -162,6 +273,16 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         dexRouter = IDEXRouter(_newRouter);
     }
 
+    /**
+     * @notice Authorize or revoke a keeper
+     * @param keeper Keeper address
+     * @param authorized Whether the keeper may run performUpkeep
+     */
+    function setKeeper(address keeper, bool authorized) external onlyOwner {
+        keepers[keeper] = authorized;
+        emit KeeperUpdated(keeper, authorized);
+    }
+
     /**
      * @notice Update block time (in seconds)
      * @param _blockTime New block time (must be between 1 and 60 seconds)
@@ -249,6 +370,103 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         }
     }
 
+    /**
+     * @notice Whether an address may execute orders with its own minimum outputs
+     */
+    function _isKeeper(address account) internal view returns (bool) {
+        return account == owner() || keepers[account];
+    }
+
+    /**
+     * @notice Build the swap path for an order (DEV orders swap from WETH)
+     * @param sourceToken Order source token (address(0) for DEV)
+     * @param targetToken Order target token
+     * @return path Array of token addresses for the swap
+     */
+    function _buildOrderPath(address sourceToken, address targetToken) internal view returns (address[] memory path) {
+        address tokenIn = sourceToken == address(0) ? WETH : sourceToken;
+
+        // Get USDC address for routing
+        address usdc = shariaCompliance.getTokenAddress("USDC");
+
+        // Build optimal swap path using library
+        return SwapPathBuilder.buildSwapPath(
+            address(factory),
+            tokenIn,
+            targetToken,
+            usdc
+        );
+    }
+
+    /**
+     * @notice Validate that a token is registered and Sharia compliant
+     */
+    function _requireCompliant(address token) internal view {
+        string memory symbol = shariaCompliance.getSymbolByAddress(token);
+        if (bytes(symbol).length == 0) {
+            revert TokenNotRegistered();
+        }
+        if (!shariaCompliance.isShariaCompliant(symbol)) {
+            revert ShariaCompliance.NotShariaCompliant(symbol);
+        }
+    }
+
+    /**
+     * @notice Whether a token is registered and currently Sharia compliant
+     */
+    function _isCompliant(address token) internal view returns (bool) {
+        string memory symbol = shariaCompliance.getSymbolByAddress(token);
+        return bytes(symbol).length > 0 && shariaCompliance.isShariaCompliant(symbol);
+    }
+
+    /**
+     * @notice Current output of a limit order's deposit (0 if the path cannot be quoted)
+     */
+    function _quoteLimitOrder(LimitOrder storage order) internal view returns (uint256) {
+        try dexRouter.getAmountsOut(order.amountIn, _buildOrderPath(order.sourceToken, order.targetToken)) returns (
+            uint256[] memory amounts
+        ) {
+            return amounts[amounts.length - 1];
+        } catch {
+            return 0;
+        }
+    }
+
+    /**
+     * @notice Whether a limit order can be filled now
+     */
+    function _isLimitOrderReady(LimitOrder storage order) internal view returns (bool) {
+        return order.status == LimitOrderStatus.Open && _quoteLimitOrder(order) >= order.minAmountOut;
+    }
+
+    /**
+     * @notice Send a DCA order's unspent deposit back to its owner
+     */
+    function _refundDCAOrder(DCAOrder storage order) internal {
+        uint256 refundAmount = (order.totalIntervals - order.intervalsCompleted) * order.amountPerInterval;
+        if (refundAmount == 0) {
+            return;
+        }
+        if (order.sourceToken == address(0)) {
+            (bool success, ) = order.owner.call{value: refundAmount}("");
+            require(success, "Refund failed");
+        } else {
+            IERC20(order.sourceToken).safeTransfer(order.owner, refundAmount);
+        }
+    }
+
+    /**
+     * @notice Send a limit order's deposit back to its owner
+     */
+    function _refundLimitOrder(LimitOrder storage order) internal {
+        if (order.sourceToken == address(0)) {
+            (bool success, ) = order.owner.call{value: order.amountIn}("");
+            require(success, "Refund failed");
+        } else {
+            IERC20(order.sourceToken).safeTransfer(order.owner, order.amountIn);
+        }
+    }
+
     // ============================================================================
     // DCA FUNCTIONS
     // ============================================================================
@@ -259,17 +477,24 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
      * @param amountPerInterval Amount to invest per interval (in wei)
      * @param intervalSeconds Time between executions (in seconds)
      * @param totalIntervals Total number of intervals
+     * @param maxSlippageBps Slippage tolerance in basis points (max MAX_SLIPPAGE_BPS)
+     * @param minAmountOut Minimum output per interval (0 for no price floor)
      * @return orderId Created order ID
      */
     function createDCAOrderWithDEV(
         address targetToken,
         uint256 amountPerInterval,
         uint256 intervalSeconds,
-        uint256 totalIntervals
+        uint256 totalIntervals,
+        uint256 maxSlippageBps,
+        uint256 minAmountOut
     ) external payable nonReentrant returns (uint256) {
         if (amountPerInterval == 0 || totalIntervals == 0) {
             revert InvalidAmount();
         }
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) {
+            revert InvalidSlippage();
+        }
 
         // Validate target token is Sharia compliant
         string memory targetSymbol = shariaCompliance.getSymbolByAddress(targetToken);
@@ -301,6 +526,8 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         // Calculate initial execution time (skips to next hour if within 5 minutes of boundary)
         order.nextExecutionTime = _calculateInitialExecutionTime(block.timestamp);
         order.startTime = block.timestamp;
+        order.maxSlippageBps = maxSlippageBps;
+        order.minAmountOut = minAmountOut;
         order.isActive = true;
         order.exists = true;
 
@@ -332,6 +559,8 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
      * @param amountPerInterval Amount to invest per interval (in wei)
      * @param intervalSeconds Time between executions (in seconds)
      * @param totalIntervals Total number of intervals
+     * @param maxSlippageBps Slippage tolerance in basis points (max MAX_SLIPPAGE_BPS)
+     * @param minAmountOut Minimum output per interval (0 for no price floor)
      * @return orderId Created order ID
      */
     function createDCAOrderWithToken(
@@ -339,11 +568,16 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         address targetToken,
         uint256 amountPerInterval,
         uint256 intervalSeconds,
-        uint256 totalIntervals
+        uint256 totalIntervals,
+        uint256 maxSlippageBps,
+        uint256 minAmountOut
     ) external nonReentrant returns (uint256) {
         if (amountPerInterval == 0 || totalIntervals == 0) {
             revert InvalidAmount();
         }
+        if (maxSlippageBps > MAX_SLIPPAGE_BPS) {
+            revert InvalidSlippage();
+        }
 
         // Validate source token is Sharia compliant
         string memory sourceSymbol = shariaCompliance.getSymbolByAddress(sourceToken);
@@ -382,6 +616,8 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         // Calculate initial execution time (skips to next hour if within 5 minutes of boundary)
         order.nextExecutionTime = _calculateInitialExecutionTime(block.timestamp);
         order.startTime = block.timestamp;
+        order.maxSlippageBps = maxSlippageBps;
+        order.minAmountOut = minAmountOut;
         order.isActive = true;
         order.exists = true;
 
@@ -402,48 +638,70 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
 
     /**
      * @notice Execute a DCA order (called by automation script or manually)
+     * @dev Only the order owner, a keeper or performUpkeep may execute, since the
+     *      caller chooses minAmountOut. If the current quote is below the effective
+     *      minimum (caller's or the order's price floor, whichever is higher) the
+     *      order is skipped: DCAOrderSkipped is emitted and it stays due. If the
+     *      target token is no longer Sharia compliant the order is cancelled and
+     *      the remaining deposit refunded (DCAOrderCancelled) instead of buying it.
      * @param orderId Order ID to execute
+     * @param minAmountOut Minimum output for this interval (from the keeper's quote)
+     * @return executed Whether the order was filled
      */
-    function executeDCAOrder(uint256 orderId) public nonReentrant {
+    function executeDCAOrder(uint256 orderId, uint256 minAmountOut) public nonReentrant returns (bool executed) {
         DCAOrder storage order = dcaOrders[orderId];
         
         if (!order.exists) revert OrderNotFound();
+        if (msg.sender != address(this) && msg.sender != order.owner && !_isKeeper(msg.sender)) {
+            revert Unauthorized();
+        }
         if (!order.isActive) revert OrderInactive();
+        if (order.isPaused) revert OrderPaused();
         if (block.timestamp < order.nextExecutionTime) revert OrderNotReady();
 
-        // Prepare swap
-        address tokenIn;
+        // The target may have been delisted since the order was created
+        if (!_isCompliant(order.targetToken)) {
+            order.isActive = false;
+            _refundDCAOrder(order);
+            emit DCAOrderCancelled(orderId, order.owner);
+            return false;
+        }
+
         uint256 amountIn = order.amountPerInterval;
-        
+        address[] memory path = _buildOrderPath(order.sourceToken, order.targetToken);
+        address tokenIn = path[0];
+
+        // Enforce the stricter of the caller's minimum and the order's price floor
+        if (order.minAmountOut > minAmountOut) {
+            minAmountOut = order.minAmountOut;
+        }
+
+        // Skip (without reverting) when the pool price breaches the minimum
+        uint256 expectedAmountOut;
+        try dexRouter.getAmountsOut(amountIn, path) returns (uint256[] memory quoted) {
+            expectedAmountOut = quoted[quoted.length - 1];
+        } catch {
+            revert SwapFailed();
+        }
+        if (expectedAmountOut < minAmountOut) {
+            emit DCAOrderSkipped(orderId, expectedAmountOut, minAmountOut, block.timestamp);
+            return false;
+        }
+
         // Handle source token (DEV or ERC20)
         if (order.sourceToken == address(0)) {
             // Wrap DEV to WETH
             IWETH(WETH).deposit{value: amountIn}();
-            tokenIn = WETH;
-        } else {
-            // Use ERC20 token directly
-            tokenIn = order.sourceToken;
         }
 
         // Approve router
         IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
 
-        // Get USDC address for routing
-        address usdc = shariaCompliance.getTokenAddress("USDC");
-        
-        // Build optimal swap path using library
-        address[] memory path = SwapPathBuilder.buildSwapPath(
-            address(factory),
-            tokenIn,
-            order.targetToken,
-            usdc
-        );
-
         // Execute swap
         uint256[] memory amounts;
         try dexRouter.swapExactTokensForTokens(
             amountIn,
-            0, // No slippage protection for DCA
+            minAmountOut,
             path,
             order.owner,
             block.timestamp + 15 minutes
@@ -473,6 +731,8 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
             order.isActive = false;
             emit DCAOrderCompleted(orderId, order.owner, order.totalIntervals);
         }
+
+        return true;
     }
 
     /**
@@ -486,26 +746,244 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         if (order.owner != msg.sender) revert Unauthorized();
         if (!order.isActive) revert OrderInactive();
 
-        // Calculate refund
-        uint256 remaining = order.totalIntervals - order.intervalsCompleted;
-        uint256 refundAmount = remaining * order.amountPerInterval;
-
-        // Deactivate order
+        // Deactivate order, then refund the remaining intervals
         order.isActive = false;
+        _refundDCAOrder(order);
 
-        // Refund
-        if (refundAmount > 0) {
-            if (order.sourceToken == address(0)) {
-                // Refund DEV
-                (bool success, ) = msg.sender.call{value: refundAmount}("");
-                require(success, "Refund failed");
-            } else {
-                // Refund ERC20
-                IERC20(order.sourceToken).safeTransfer(msg.sender, refundAmount);
-            }
+        emit DCAOrderCancelled(orderId, msg.sender);
+    }
+
+    /**
+     * @notice Pause a DCA order (deposit stays in the contract, executions stop)
+     * @param orderId Order ID to pause
+     */
+    function pauseDCAOrder(uint256 orderId) external {
+        DCAOrder storage order = dcaOrders[orderId];
+
+        if (!order.exists) revert OrderNotFound();
+        if (order.owner != msg.sender) revert Unauthorized();
+        if (!order.isActive) revert OrderInactive();
+        if (order.isPaused) revert OrderPaused();
+
+        order.isPaused = true;
+
+        emit DCAOrderPaused(orderId, msg.sender);
+    }
+
+    /**
+     * @notice Resume a paused DCA order
+     * @dev Intervals missed while paused are not caught up: an overdue order is
+     *      rescheduled like a new one instead of executing back-to-back
+     * @param orderId Order ID to resume
+     */
+    function resumeDCAOrder(uint256 orderId) external {
+        DCAOrder storage order = dcaOrders[orderId];
+
+        if (!order.exists) revert OrderNotFound();
+        if (order.owner != msg.sender) revert Unauthorized();
+        if (!order.isActive) revert OrderInactive();
+        if (!order.isPaused) revert OrderNotPaused();
+
+        order.isPaused = false;
+        if (order.nextExecutionTime < block.timestamp) {
+            order.nextExecutionTime = _calculateInitialExecutionTime(block.timestamp);
         }
 
-        emit DCAOrderCancelled(orderId, msg.sender);
+        emit DCAOrderResumed(orderId, msg.sender, order.nextExecutionTime);
+    }
+
+    /**
+     * @notice Top up a DCA order with more intervals
+     * @dev DEV orders send amountPerInterval * additionalIntervals as msg.value
+     *      (excess refunded); ERC20 orders need an approval for that amount.
+     *      Works on paused orders too.
+     * @param orderId Order ID to top up
+     * @param additionalIntervals Number of intervals to add
+     */
+    function topUpDCAOrder(uint256 orderId, uint256 additionalIntervals) external payable nonReentrant {
+        DCAOrder storage order = dcaOrders[orderId];
+
+        if (!order.exists) revert OrderNotFound();
+        if (order.owner != msg.sender) revert Unauthorized();
+        if (!order.isActive) revert OrderInactive();
+        if (additionalIntervals == 0) revert InvalidAmount();
+
+        uint256 amountRequired = order.amountPerInterval * additionalIntervals;
+
+        if (order.sourceToken == address(0)) {
+            if (msg.value < amountRequired) revert InsufficientDeposit();
+        } else {
+            // ERC20 orders must not send DEV (it would be stuck)
+            if (msg.value > 0) revert InvalidAmount();
+            IERC20(order.sourceToken).safeTransferFrom(msg.sender, address(this), amountRequired);
+        }
+
+        order.totalIntervals += additionalIntervals;
+
+        // Refund excess DEV
+        if (msg.value > amountRequired) {
+            (bool success, ) = msg.sender.call{value: msg.value - amountRequired}("");
+            require(success, "Refund failed");
+        }
+
+        emit DCAOrderToppedUp(orderId, msg.sender, additionalIntervals, order.totalIntervals, amountRequired);
+    }
+
+    // ============================================================================
+    // LIMIT ORDER FUNCTIONS
+    // ============================================================================
+
+    /**
+     * @notice Create a limit order paying native DEV (the whole msg.value is the deposit)
+     * @param targetToken Target token address
+     * @param minAmountOut Minimum target tokens for the deposit (sets the limit price)
+     * @param expiry Timestamp after which the order is refunded instead of filled
+     * @return orderId Created limit order ID
+     */
+    function createLimitOrderWithDEV(
+        address targetToken,
+        uint256 minAmountOut,
+        uint256 expiry
+    ) external payable nonReentrant returns (uint256) {
+        if (msg.value == 0 || minAmountOut == 0) revert InvalidAmount();
+        if (expiry <= block.timestamp) revert InvalidExpiry();
+
+        _requireCompliant(targetToken);
+
+        return _createLimitOrder(address(0), targetToken, msg.value, minAmountOut, expiry);
+    }
+
+    /**
+     * @notice Create a limit order paying ERC20 tokens (requires approval)
+     * @param sourceToken Source token address
+     * @param targetToken Target token address
+     * @param amountIn Amount of source token to sell
+     * @param minAmountOut Minimum target tokens for amountIn (sets the limit price)
+     * @param expiry Timestamp after which the order is refunded instead of filled
+     * @return orderId Created limit order ID
+     */
+    function createLimitOrderWithToken(
+        address sourceToken,
+        address targetToken,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 expiry
+    ) external nonReentrant returns (uint256) {
+        if (amountIn == 0 || minAmountOut == 0) revert InvalidAmount();
+        if (expiry <= block.timestamp) revert InvalidExpiry();
+
+        _requireCompliant(sourceToken);
+        _requireCompliant(targetToken);
+
+        IERC20(sourceToken).safeTransferFrom(msg.sender, address(this), amountIn);
+
+        return _createLimitOrder(sourceToken, targetToken, amountIn, minAmountOut, expiry);
+    }
+
+    function _createLimitOrder(
+        address sourceToken,
+        address targetToken,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 expiry
+    ) internal returns (uint256) {
+        uint256 orderId = nextLimitOrderId++;
+
+        LimitOrder storage order = limitOrders[orderId];
+        order.id = orderId;
+        order.owner = msg.sender;
+        order.sourceToken = sourceToken;
+        order.targetToken = targetToken;
+        order.amountIn = amountIn;
+        order.minAmountOut = minAmountOut;
+        order.expiry = expiry;
+        order.createdAt = block.timestamp;
+        order.status = LimitOrderStatus.Open;
+        order.exists = true;
+
+        userLimitOrders[msg.sender].push(orderId);
+
+        emit LimitOrderCreated(orderId, msg.sender, sourceToken, targetToken, amountIn, minAmountOut, expiry);
+
+        return orderId;
+    }
+
+    /**
+     * @notice Fill a limit order once the pool price reaches its limit, or refund it after expiry
+     * @dev Permissionless: the swap is bounded by the owner's minAmountOut.
+     *      Called by performUpkeep for the IDs returned from checkUpkeep. If the
+     *      target token is no longer Sharia compliant the order is cancelled and
+     *      refunded (LimitOrderCancelled) instead of filled.
+     * @param orderId Limit order ID
+     * @return filled Whether the order was filled (false when it expired or was cancelled and refunded)
+     */
+    function executeLimitOrder(uint256 orderId) public nonReentrant returns (bool filled) {
+        LimitOrder storage order = limitOrders[orderId];
+
+        if (!order.exists) revert OrderNotFound();
+        if (order.status != LimitOrderStatus.Open) revert OrderInactive();
+
+        if (block.timestamp > order.expiry) {
+            order.status = LimitOrderStatus.Expired;
+            _refundLimitOrder(order);
+            emit LimitOrderExpired(orderId, order.owner, order.amountIn);
+            return false;
+        }
+
+        // The target may have been delisted since the order was created
+        if (!_isCompliant(order.targetToken)) {
+            order.status = LimitOrderStatus.Cancelled;
+            _refundLimitOrder(order);
+            emit LimitOrderCancelled(orderId, order.owner);
+            return false;
+        }
+
+        address[] memory path = _buildOrderPath(order.sourceToken, order.targetToken);
+        if (_quoteLimitOrder(order) < order.minAmountOut) revert LimitNotReached();
+
+        if (order.sourceToken == address(0)) {
+            // Wrap DEV to WETH
+            IWETH(WETH).deposit{value: order.amountIn}();
+        }
+
+        IERC20(path[0]).forceApprove(address(dexRouter), order.amountIn);
+
+        uint256[] memory amounts;
+        try dexRouter.swapExactTokensForTokens(
+            order.amountIn,
+            order.minAmountOut,
+            path,
+            order.owner,
+            block.timestamp + 15 minutes
+        ) returns (uint256[] memory _amounts) {
+            amounts = _amounts;
+        } catch {
+            revert SwapFailed();
+        }
+
+        order.amountOut = amounts[amounts.length - 1];
+        order.status = LimitOrderStatus.Filled;
+
+        emit LimitOrderFilled(orderId, order.owner, order.amountIn, order.amountOut, block.timestamp);
+
+        return true;
+    }
+
+    /**
+     * @notice Cancel an open limit order and refund the deposit
+     * @param orderId Limit order ID
+     */
+    function cancelLimitOrder(uint256 orderId) external nonReentrant {
+        LimitOrder storage order = limitOrders[orderId];
+
+        if (!order.exists) revert OrderNotFound();
+        if (order.owner != msg.sender) revert Unauthorized();
+        if (order.status != LimitOrderStatus.Open) revert OrderInactive();
+
+        order.status = LimitOrderStatus.Cancelled;
+        _refundLimitOrder(order);
+
+        emit LimitOrderCancelled(orderId, msg.sender);
     }
 
     // ============================================================================
@@ -514,9 +992,11 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
 
     /**
      * @notice Check if upkeep is needed (for automation script)
-     * @dev Checks all active orders to see if any need execution
+     * @dev Checks all active DCA orders for due intervals, and all open limit
+     *      orders for a reached limit price (from pool reserves), expiry or a
+     *      delisted target (cancelled and refunded on execution)
      * @return upkeepNeeded Whether upkeep is needed
-     * @return performData Encoded order IDs to execute
+     * @return performData abi.encode(uint256[] dcaOrderIds, uint256[] limitOrderIds)
      */
     function checkUpkeep(
         bytes calldata /* checkData */
@@ -529,6 +1009,7 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
             if (
                 order.exists &&
                 order.isActive &&
+                !order.isPaused &&
                 block.timestamp >= order.nextExecutionTime &&
                 order.intervalsCompleted < order.totalIntervals
             ) {
@@ -537,15 +1018,35 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
             }
         }
 
-        if (count > 0) {
-            // Resize array
+        uint256[] memory limitOrdersToExecute = new uint256[](nextLimitOrderId);
+        uint256 limitCount = 0;
+
+        for (uint256 i = 1; i < nextLimitOrderId; i++) {
+            LimitOrder storage limitOrder = limitOrders[i];
+            if (
+                limitOrder.status == LimitOrderStatus.Open &&
+                (block.timestamp > limitOrder.expiry ||
+                    _isLimitOrderReady(limitOrder) ||
+                    !_isCompliant(limitOrder.targetToken))
+            ) {
+                limitOrdersToExecute[limitCount] = i;
+                limitCount++;
+            }
+        }
+
+        if (count > 0 || limitCount > 0) {
+            // Resize arrays
             uint256[] memory result = new uint256[](count);
             for (uint256 i = 0; i < count; i++) {
                 result[i] = ordersToExecute[i];
             }
+            uint256[] memory limitResult = new uint256[](limitCount);
+            for (uint256 i = 0; i < limitCount; i++) {
+                limitResult[i] = limitOrdersToExecute[i];
+            }
             
             upkeepNeeded = true;
-            performData = abi.encode(result);
+            performData = abi.encode(result, limitResult);
         }
 
         return (upkeepNeeded, performData);
@@ -553,22 +1054,36 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
 
     /**
      * @notice Perform upkeep (called by automation script)
-     * @param performData Encoded order IDs to execute
-     * @dev Catches errors per order to prevent one failure from blocking others
+     * @param performData abi.encode(uint256[] dcaOrderIds, uint256[] minAmountsOut, uint256[] limitOrderIds)
+     * @dev The keeper quotes each DCA order (quoteDCAOrder) and applies its slippage
+     *      tolerance off-chain; limit orders carry their own minimum. Catches errors
+     *      per order to prevent one failure from blocking others.
      */
     function performUpkeep(bytes calldata performData) external {
-        uint256[] memory orderIds = abi.decode(performData, (uint256[]));
+        if (!_isKeeper(msg.sender)) revert Unauthorized();
+
+        (uint256[] memory orderIds, uint256[] memory minAmountsOut, uint256[] memory limitOrderIds) =
+            abi.decode(performData, (uint256[], uint256[], uint256[]));
+        if (orderIds.length != minAmountsOut.length) revert InvalidPerformData();
         
         for (uint256 i = 0; i < orderIds.length; i++) {
             // Use external call (this.) to enable try-catch error handling
             // This allows one failed order to not block execution of other orders
-            try this.executeDCAOrder(orderIds[i]) {
+            try this.executeDCAOrder(orderIds[i], minAmountsOut[i]) {
                 // Order executed successfully - event emitted in executeDCAOrder
             } catch {
                 // Silently continue - failed order will be retried in next upkeep cycle
                 // This prevents one failed order from blocking batch execution
             }
         }
+
+        for (uint256 i = 0; i < limitOrderIds.length; i++) {
+            try this.executeLimitOrder(limitOrderIds[i]) {
+                // Filled or expired - event emitted in executeLimitOrder
+            } catch {
+                // Price moved back above the limit - retried in next upkeep cycle
+            }
+        }
     }
 
     // ============================================================================
@@ -584,6 +1099,62 @@ contract ShariaDCA is Ownable, ReentrancyGuard {
         return dcaOrders[orderId];
     }
 
+    /**
+     * @notice Quote the next interval of an order at current pool prices
+     * @dev Used by the keeper to compute minimum outputs for performUpkeep
+     * @param orderId Order ID
+     * @return expectedAmountOut Output for amountPerInterval along the order's path
+     * @return minAmountOut Minimum output after the order's slippage tolerance and price floor
+     */
+    function quoteDCAOrder(uint256 orderId) external view returns (uint256 expectedAmountOut, uint256 minAmountOut) {
+        DCAOrder storage order = dcaOrders[orderId];
+        if (!order.exists) revert OrderNotFound();
+
+        uint256[] memory amounts = dexRouter.getAmountsOut(
+            order.amountPerInterval,
+            _buildOrderPath(order.sourceToken, order.targetToken)
+        );
+        expectedAmountOut = amounts[amounts.length - 1];
+
+        minAmountOut = (expectedAmountOut * (BPS_DENOMINATOR - order.maxSlippageBps)) / BPS_DENOMINATOR;
+        if (order.minAmountOut > minAmountOut) {
+            minAmountOut = order.minAmountOut;
+        }
+    }
+
+    /**
+     * @notice Get limit order details
+     * @param orderId Limit order ID
+     */
+    function getLimitOrder(uint256 orderId) external view returns (LimitOrder memory) {
+        if (!limitOrders[orderId].exists) revert OrderNotFound();
+        return limitOrders[orderId];
+    }
+
+    /**
+     * @notice Quote a limit order at current pool prices
+     * @param orderId Limit order ID
+     * @return expectedAmountOut Output for the deposit now (0 if unquotable)
+     * @return ready Whether the limit price is reached (and the order is open)
+     */
+    function quoteLimitOrder(uint256 orderId) external view returns (uint256 expectedAmountOut, bool ready) {
+        LimitOrder storage order = limitOrders[orderId];
+        if (!order.exists) revert OrderNotFound();
+
+        expectedAmountOut = _quoteLimitOrder(order);
+        ready = order.status == LimitOrderStatus.Open &&
+            block.timestamp <= order.expiry &&
+            expectedAmountOut >= order.minAmountOut;
+    }
+
+    /**
+     * @notice Get user's limit orders
+     * @param user User address
+     */
+    function getUserLimitOrders(address user) external view returns (uint256[] memory) {
+        return userLimitOrders[user];
+    }
+
     /**
      * @notice Get user's DCA orders
      * @param user User address
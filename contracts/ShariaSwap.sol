@@ -7,6 +7,7 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "./ShariaCompliance.sol";
 import "./interfaces/IDEXRouter.sol";
+import "./interfaces/IWETH.sol";
 import "./testnet/SimpleFactory.sol";
 import "./libraries/SwapPathBuilder.sol";
 
@@ -37,6 +38,9 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
     /// @notice Swap history per user
     mapping(address => SwapRecord[]) public userSwapHistory;
 
+    /// @notice Maximum tokens in a caller-supplied path (3 hops)
+    uint256 public constant MAX_PATH_LENGTH = 4;
+
     // ============================================================================
     // STRUCTS
     // ============================================================================
@@ -84,6 +88,10 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
     error InvalidPath();
     error SwapFailed();
     error AssetNotRegistered();
+    error PairNotFound(address tokenA, address tokenB);
+    error QuoteUnavailable(address tokenIn, address tokenOut, uint256 amountOut);
+    error RefundFailed();
+    error NativeTransferFailed();
     error QuoteAmountTooSmall(address tokenIn, address tokenOut, uint256 amountIn);
 
     // ============================================================================
@@ -278,6 +286,417 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
         return amountOut;
     }
 
+    /**
+     * @notice Execute a Sharia-compliant swap along a caller-supplied path
+     * @dev Lets off-chain routers pick the best multi-hop route. Every token
+     *      after the input must be registered and Sharia-compliant, and every
+     *      hop must have a pair in the factory.
+     * @param path Token addresses from input to output (2 to MAX_PATH_LENGTH)
+     * @param amountIn Amount of input tokens
+     * @param minAmountOut Minimum output amount (slippage protection)
+     * @param deadline Transaction deadline
+     * @return amountOut Actual output amount received
+     */
+    function swapShariaCompliantWithPath(
+        address[] calldata path,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external nonReentrant returns (uint256 amountOut) {
+        if (amountIn == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        address tokenIn = path[0];
+        address tokenOut = path[path.length - 1];
+
+        // Pre-validate quote before transferring
+        uint256 expectedAmountOut = _previewQuote(tokenIn, tokenOut, amountIn, path);
+        if (expectedAmountOut < minAmountOut) {
+            revert SlippageExceeded();
+        }
+
+        // Transfer tokens from user and approve router
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
+
+        // Execute swap
+        uint256[] memory amounts;
+        try dexRouter.swapExactTokensForTokens(
+            amountIn,
+            minAmountOut,
+            path,
+            msg.sender,
+            deadline
+        ) returns (uint256[] memory _amounts) {
+            amounts = _amounts;
+        } catch {
+            revert SwapFailed();
+        }
+
+        amountOut = amounts[amounts.length - 1];
+
+        if (amountOut < minAmountOut) {
+            revert SlippageExceeded();
+        }
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            tokenIn,
+            tokenOut,
+            amountIn,
+            amountOut,
+            shariaCompliance.getSymbolByAddress(tokenIn),
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            tokenIn,
+            tokenOut,
+            amountIn,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountOut;
+    }
+
+    /**
+     * @notice Swap native DEV along a caller-supplied path
+     * @param path Token addresses starting with WETH (2 to MAX_PATH_LENGTH)
+     * @param minAmountOut Minimum output amount
+     * @param deadline Transaction deadline
+     * @return amountOut Actual output amount received
+     */
+    function swapGLMRForTokenWithPath(
+        address[] calldata path,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external payable nonReentrant returns (uint256 amountOut) {
+        if (msg.value == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        if (path[0] != WETH) revert InvalidPath();
+        address tokenOut = path[path.length - 1];
+
+        // Pre-validate quote to catch tiny inputs
+        uint256 expectedAmountOut = _previewQuote(WETH, tokenOut, msg.value, path);
+        if (expectedAmountOut < minAmountOut) {
+            revert SlippageExceeded();
+        }
+
+        // Router handles wrapping DEV to WETH internally
+        uint256[] memory amounts;
+        try dexRouter.swapExactETHForTokens{value: msg.value}(
+            minAmountOut,
+            path,
+            msg.sender,
+            deadline
+        ) returns (uint256[] memory _amounts) {
+            amounts = _amounts;
+        } catch {
+            revert SwapFailed();
+        }
+
+        amountOut = amounts[amounts.length - 1];
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            WETH,
+            tokenOut,
+            msg.value,
+            amountOut,
+            "DEV",
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            WETH,
+            tokenOut,
+            msg.value,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountOut;
+    }
+
+    /**
+     * @notice Swap as few input tokens as needed to receive an exact output amount
+     * @dev Only the required input is pulled from the caller (not amountInMax)
+     * @param path Token addresses from input to output (2 to MAX_PATH_LENGTH)
+     * @param amountOut Exact output amount to receive
+     * @param amountInMax Maximum input amount (slippage protection)
+     * @param deadline Transaction deadline
+     * @return amountIn Actual input amount spent
+     */
+    function swapShariaCompliantExactOutput(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 amountInMax,
+        uint256 deadline
+    ) external nonReentrant returns (uint256 amountIn) {
+        if (amountOut == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        address tokenIn = path[0];
+        address tokenOut = path[path.length - 1];
+
+        amountIn = _previewQuoteIn(tokenIn, tokenOut, amountOut, path);
+        if (amountIn > amountInMax) {
+            revert SlippageExceeded();
+        }
+
+        // Transfer the required input from user and approve router
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
+
+        // Execute swap
+        try dexRouter.swapTokensForExactTokens(
+            amountOut,
+            amountIn,
+            path,
+            msg.sender,
+            deadline
+        ) returns (uint256[] memory) {
+            // Amounts match the preview (same block)
+        } catch {
+            revert SwapFailed();
+        }
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            tokenIn,
+            tokenOut,
+            amountIn,
+            amountOut,
+            shariaCompliance.getSymbolByAddress(tokenIn),
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            tokenIn,
+            tokenOut,
+            amountIn,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountIn;
+    }
+
+    /**
+     * @notice Swap native DEV for an exact amount of tokens
+     * @dev msg.value is the maximum input; unspent DEV is refunded
+     * @param path Token addresses starting with WETH (2 to MAX_PATH_LENGTH)
+     * @param amountOut Exact output amount to receive
+     * @param deadline Transaction deadline
+     * @return amountIn Actual DEV spent
+     */
+    function swapGLMRForExactTokens(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 deadline
+    ) external payable nonReentrant returns (uint256 amountIn) {
+        if (amountOut == 0 || msg.value == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        if (path[0] != WETH) revert InvalidPath();
+        address tokenOut = path[path.length - 1];
+
+        amountIn = _previewQuoteIn(WETH, tokenOut, amountOut, path);
+        if (amountIn > msg.value) {
+            revert SlippageExceeded();
+        }
+
+        // Router has no ETH-for-exact-tokens entry point: wrap the required DEV first
+        IWETH(WETH).deposit{value: amountIn}();
+        IERC20(WETH).forceApprove(address(dexRouter), amountIn);
+
+        try dexRouter.swapTokensForExactTokens(
+            amountOut,
+            amountIn,
+            path,
+            msg.sender,
+            deadline
+        ) returns (uint256[] memory) {
+            // Amounts match the preview (same block)
+        } catch {
+            revert SwapFailed();
+        }
+
+        // Refund unspent DEV
+        if (msg.value > amountIn) {
+            (bool success, ) = msg.sender.call{value: msg.value - amountIn}("");
+            if (!success) revert RefundFailed();
+        }
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            WETH,
+            tokenOut,
+            amountIn,
+            amountOut,
+            "DEV",
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            WETH,
+            tokenOut,
+            amountIn,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountIn;
+    }
+
+    /**
+     * @notice Swap tokens for native DEV (output WETH is unwrapped)
+     * @param path Token addresses ending with WETH (2 to MAX_PATH_LENGTH)
+     * @param amountIn Amount of input tokens
+     * @param minAmountOut Minimum DEV to receive (slippage protection)
+     * @param deadline Transaction deadline
+     * @return amountOut Actual DEV received
+     */
+    function swapTokenForGLMR(
+        address[] calldata path,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        uint256 deadline
+    ) external nonReentrant returns (uint256 amountOut) {
+        if (amountIn == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        if (path[path.length - 1] != WETH) revert InvalidPath();
+        address tokenIn = path[0];
+
+        // Pre-validate quote before transferring
+        uint256 expectedAmountOut = _previewQuote(tokenIn, WETH, amountIn, path);
+        if (expectedAmountOut < minAmountOut) {
+            revert SlippageExceeded();
+        }
+
+        // Transfer tokens from user and approve router
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
+
+        // Router has no exact-tokens-for-ETH entry point: receive WETH here, then unwrap
+        uint256[] memory amounts;
+        try dexRouter.swapExactTokensForTokens(
+            amountIn,
+            minAmountOut,
+            path,
+            address(this),
+            deadline
+        ) returns (uint256[] memory _amounts) {
+            amounts = _amounts;
+        } catch {
+            revert SwapFailed();
+        }
+
+        amountOut = amounts[amounts.length - 1];
+
+        IWETH(WETH).withdraw(amountOut);
+        (bool success, ) = msg.sender.call{value: amountOut}("");
+        if (!success) revert NativeTransferFailed();
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            tokenIn,
+            WETH,
+            amountIn,
+            amountOut,
+            shariaCompliance.getSymbolByAddress(tokenIn),
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            tokenIn,
+            WETH,
+            amountIn,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountOut;
+    }
+
+    /**
+     * @notice Swap as few tokens as needed to receive an exact amount of native DEV
+     * @param path Token addresses ending with WETH (2 to MAX_PATH_LENGTH)
+     * @param amountOut Exact DEV amount to receive
+     * @param amountInMax Maximum input amount (slippage protection)
+     * @param deadline Transaction deadline
+     * @return amountIn Actual input amount spent
+     */
+    function swapTokenForExactGLMR(
+        address[] calldata path,
+        uint256 amountOut,
+        uint256 amountInMax,
+        uint256 deadline
+    ) external nonReentrant returns (uint256 amountIn) {
+        if (amountOut == 0) revert InvalidAmount();
+
+        string memory tokenOutSymbol = _validatePath(path);
+        if (path[path.length - 1] != WETH) revert InvalidPath();
+        address tokenIn = path[0];
+
+        amountIn = _previewQuoteIn(tokenIn, WETH, amountOut, path);
+        if (amountIn > amountInMax) {
+            revert SlippageExceeded();
+        }
+
+        // Transfer the required input from user and approve router
+        IERC20(tokenIn).safeTransferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenIn).forceApprove(address(dexRouter), amountIn);
+
+        // Router unwraps WETH and sends DEV straight to the user
+        try dexRouter.swapTokensForExactETH(
+            amountOut,
+            amountIn,
+            path,
+            msg.sender,
+            deadline
+        ) returns (uint256[] memory) {
+            // Amounts match the preview (same block)
+        } catch {
+            revert SwapFailed();
+        }
+
+        // Record swap
+        _recordSwap(
+            msg.sender,
+            tokenIn,
+            WETH,
+            amountIn,
+            amountOut,
+            shariaCompliance.getSymbolByAddress(tokenIn),
+            tokenOutSymbol
+        );
+
+        emit SwapExecuted(
+            msg.sender,
+            tokenIn,
+            WETH,
+            amountIn,
+            amountOut,
+            tokenOutSymbol
+        );
+
+        return amountIn;
+    }
+
     // ============================================================================
     // VIEW FUNCTIONS
     // ============================================================================
@@ -299,6 +718,53 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
         return _previewQuote(tokenIn, tokenOut, amountIn, path);
     }
 
+    /**
+     * @notice Get quote for a swap along a caller-supplied path
+     * @dev Applies the same path and compliance checks as swapShariaCompliantWithPath
+     * @param path Token addresses from input to output
+     * @param amountIn Input amount
+     * @return amountOut Expected output amount
+     */
+    function getSwapQuoteForPath(
+        address[] calldata path,
+        uint256 amountIn
+    ) external view returns (uint256 amountOut) {
+        _validatePath(path);
+        return _previewQuote(path[0], path[path.length - 1], amountIn, path);
+    }
+
+    /**
+     * @notice Get the input required to receive an exact output amount
+     * @param tokenIn Input token
+     * @param tokenOut Output token
+     * @param amountOut Desired output amount
+     * @return amountIn Required input amount
+     */
+    function getSwapQuoteIn(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountOut
+    ) external view returns (uint256 amountIn) {
+        // Build swap path (auto-routes through USDC if no direct pair)
+        address[] memory path = _buildSwapPath(tokenIn, tokenOut);
+        return _previewQuoteIn(tokenIn, tokenOut, amountOut, path);
+    }
+
+    /**
+     * @notice Get the input required to receive an exact output along a caller-supplied path
+     * @dev Applies the same path and compliance checks as swapShariaCompliantExactOutput
+     * @param path Token addresses from input to output
+     * @param amountOut Desired output amount
+     * @return amountIn Required input amount
+     */
+    function getSwapQuoteInForPath(
+        address[] calldata path,
+        uint256 amountOut
+    ) external view returns (uint256 amountIn) {
+        _validatePath(path);
+        return _previewQuoteIn(path[0], path[path.length - 1], amountOut, path);
+    }
+
     /**
      * @notice Get user's swap history
      * @param user User address
@@ -335,6 +801,34 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
         return SwapPathBuilder.buildSwapPath(address(factory), tokenIn, tokenOut, usdc);
     }
 
+    /**
+     * @notice Validate a caller-supplied swap path
+     * @dev Checks length, that no token appears twice (a cycle only burns pool
+     *      fees), that each hop has a pair, and that every token after the input
+     *      is registered and Sharia-compliant
+     * @param path Token addresses from input to output
+     * @return tokenOutSymbol Symbol of the output token
+     */
+    function _validatePath(address[] calldata path) internal view returns (string memory tokenOutSymbol) {
+        if (path.length < 2 || path.length > MAX_PATH_LENGTH) revert InvalidPath();
+
+        for (uint256 i = 1; i < path.length; i++) {
+            // At most MAX_PATH_LENGTH entries, so comparing against every earlier token is cheap
+            for (uint256 j = 0; j < i; j++) {
+                if (path[i] == path[j]) revert InvalidPath();
+            }
+            if (factory.getPair(path[i - 1], path[i]) == address(0)) {
+                revert PairNotFound(path[i - 1], path[i]);
+            }
+
+            string memory symbol = shariaCompliance.getSymbolByAddress(path[i]);
+            if (bytes(symbol).length == 0) revert AssetNotRegistered();
+            shariaCompliance.requireShariaCompliant(symbol);
+
+            tokenOutSymbol = symbol;
+        }
+    }
+
     function _previewQuote(
         address tokenIn,
         address tokenOut,
@@ -360,6 +854,27 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
         return outputAmount;
     }
 
+    function _previewQuoteIn(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountOut,
+        address[] memory path
+    ) internal view returns (uint256) {
+        if (amountOut == 0) {
+            revert QuoteUnavailable(tokenIn, tokenOut, amountOut);
+        }
+
+        // Reverts when amountOut exceeds the pool reserves
+        uint256[] memory amounts;
+        try dexRouter.getAmountsIn(amountOut, path) returns (uint256[] memory _amounts) {
+            amounts = _amounts;
+        } catch {
+            revert QuoteUnavailable(tokenIn, tokenOut, amountOut);
+        }
+
+        return amounts[0];
+    }
+
     function _validateQuote(
         address tokenIn,
         address tokenOut,
@@ -406,7 +921,7 @@ contract ShariaSwap is Ownable, ReentrancyGuard {
     }
 
     /**
-     * @notice Receive function for WETH wrapping
+     * @notice Receive function for WETH wrapping and unwrapping
      */
     receive() external payable {}
 }
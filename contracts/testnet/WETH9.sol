@@ -0,0 +1,100 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title WETH9
+ * @notice Wrapped native token for local development networks
+ * @dev Minimal port of the canonical WETH9 contract. Moonbase Alpha already
+ *      has Wrapped DEV deployed, so this is only used on hardhat/localhost.
+ */
+contract WETH9 {
+    // ============================================================================
+    // STATE VARIABLES
+    // ============================================================================
+
+    string public name = "Wrapped DEV";
+    string public symbol = "WDEV";
+    uint8 public decimals = 18;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    // ============================================================================
+    // EVENTS
+    // ============================================================================
+
+    event Approval(address indexed src, address indexed guy, uint256 wad);
+    event Transfer(address indexed src, address indexed dst, uint256 wad);
+    event Deposit(address indexed dst, uint256 wad);
+    event Withdrawal(address indexed src, uint256 wad);
+
+    // ============================================================================
+    // ERRORS
+    // ============================================================================
+
+    error InsufficientBalance();
+    error InsufficientAllowance();
+    error WithdrawFailed();
+
+    // ============================================================================
+    // PUBLIC FUNCTIONS
+    // ============================================================================
+
+    receive() external payable {
+        deposit();
+    }
+
+    /**
+     * @notice Wrap native tokens sent with the call
+     */
+    function deposit() public payable {
+        balanceOf[msg.sender] += msg.value;
+        emit Deposit(msg.sender, msg.value);
+    }
+
+    /**
+     * @notice Unwrap tokens back to the native token
+     * @param wad Amount to unwrap
+     */
+    function withdraw(uint256 wad) external {
+        if (balanceOf[msg.sender] < wad) revert InsufficientBalance();
+        balanceOf[msg.sender] -= wad;
+
+        (bool success, ) = msg.sender.call{value: wad}("");
+        if (!success) revert WithdrawFailed();
+
+        emit Withdrawal(msg.sender, wad);
+    }
+
+    /**
+     * @notice Total wrapped supply (equal to the contract's native balance)
+     */
+    function totalSupply() external view returns (uint256) {
+        return address(this).balance;
+    }
+
+    function approve(address guy, uint256 wad) external returns (bool) {
+        allowance[msg.sender][guy] = wad;
+        emit Approval(msg.sender, guy, wad);
+        return true;
+    }
+
+    function transfer(address dst, uint256 wad) external returns (bool) {
+        return transferFrom(msg.sender, dst, wad);
+    }
+
+    function transferFrom(address src, address dst, uint256 wad) public returns (bool) {
+        if (balanceOf[src] < wad) revert InsufficientBalance();
+
+        if (src != msg.sender && allowance[src][msg.sender] != type(uint256).max) {
+            if (allowance[src][msg.sender] < wad) revert InsufficientAllowance();
+            allowance[src][msg.sender] -= wad;
+        }
+
+        balanceOf[src] -= wad;
+        balanceOf[dst] += wad;
+
+        emit Transfer(src, dst, wad);
+        return true;
+    }
+}
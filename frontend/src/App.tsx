@@ -2,11 +2,16 @@ import { Route, Routes } from "react-router";
 import "./App.css";
 import { NavBar } from "./components/NavBar";
 import { AboutPage } from "./pages/AboutPage";
+import { AdminCompliancePage } from "./pages/AdminCompliancePage";
+import { DCANewOrderPage } from "./pages/DCANewOrderPage";
 import { DCAOrdersPage } from "./pages/DCAOrdersPage";
 import { HomePage } from "./pages/HomePage";
+import { PoolsPage } from "./pages/PoolsPage";
+import { PortfolioPage } from "./pages/PortfolioPage";
 import { SwapPage } from "./pages/SwapPage";
 import { TokensPage } from "./pages/TokensPage";
 import { ShariaScannerPage } from "./pages/ShariaScannerPage";
+import { ZakatPage } from "./pages/ZakatPage";
 
 function App() {
 	return (
@@ -15,10 +20,15 @@ function App() {
 			<Routes>
 				<Route path='/' element={<HomePage />} />
 				<Route path='/swap' element={<SwapPage />} />
+				<Route path='/pools' element={<PoolsPage />} />
 				<Route path='/tokens' element={<TokensPage />} />
 				<Route path='/scanner' element={<ShariaScannerPage />} />
 				<Route path='/dca' element={<DCAOrdersPage />} />
+				<Route path='/dca/new' element={<DCANewOrderPage />} />
+				<Route path='/portfolio' element={<PortfolioPage />} />
+				<Route path='/zakat' element={<ZakatPage />} />
 				<Route path='/about' element={<AboutPage />} />
+				<Route path='/admin/compliance' element={<AdminCompliancePage />} />
 			</Routes>
 		</div>
 	);
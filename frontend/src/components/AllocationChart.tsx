@@ -0,0 +1,74 @@
+interface AllocationSlice {
+	label: string;
+	value: number;
+}
+
+interface AllocationChartProps {
+	slices: AllocationSlice[];
+	size?: number;
+}
+
+// Slice colors, reused in order (the last one also collects the "Other" slice)
+const SLICE_COLORS = ["#40c399", "#3b82f6", "#f59e0b", "#a855f7", "#ef4444", "#14b8a6", "#64748b"];
+
+// Slices smaller than this share of the total are grouped into "Other"
+const MIN_SLICE_SHARE = 0.02;
+
+// Donut chart of portfolio allocation by USD value
+export function AllocationChart({ slices, size = 180 }: AllocationChartProps) {
+	const total = slices.reduce((sum, slice) => sum + Math.max(slice.value, 0), 0);
+	if (total <= 0) {
+		return <p className="text-white/40 text-sm text-center py-8">No priced holdings to chart</p>;
+	}
+
+	// Largest first, small slices and anything past the palette grouped together
+	const sorted = [...slices].filter((slice) => slice.value > 0).sort((a, b) => b.value - a.value);
+	const shown = sorted
+		.filter((slice) => slice.value / total >= MIN_SLICE_SHARE)
+		.slice(0, SLICE_COLORS.length - 1);
+	const other = total - shown.reduce((sum, slice) => sum + slice.value, 0);
+	const chartSlices = other > 0 ? [...shown, { label: "Other", value: other }] : shown;
+
+	const radius = 15.9155; // Circumference of 100 so dash lengths are percentages
+	let offset = 25; // Start at 12 o'clock
+
+	return (
+		<div className="flex flex-col sm:flex-row items-center gap-6">
+			<svg width={size} height={size} viewBox="0 0 42 42" className="shrink-0">
+				<circle cx="21" cy="21" r={radius} fill="transparent" stroke="#23483c" strokeWidth="6" />
+				{chartSlices.map((slice, i) => {
+					const share = (slice.value / total) * 100;
+					const dash = (
+						<circle
+							key={slice.label}
+							cx="21"
+							cy="21"
+							r={radius}
+							fill="transparent"
+							stroke={SLICE_COLORS[i % SLICE_COLORS.length]}
+							strokeWidth="6"
+							strokeDasharray={`${share} ${100 - share}`}
+							strokeDashoffset={offset}
+						/>
+					);
+					offset -= share;
+					return dash;
+				})}
+			</svg>
+			<ul className="space-y-2 w-full">
+				{chartSlices.map((slice, i) => (
+					<li key={slice.label} className="flex items-center justify-between text-sm gap-4">
+						<span className="flex items-center gap-2 text-white/80">
+							<span
+								className="inline-block w-3 h-3 rounded-sm"
+								style={{ backgroundColor: SLICE_COLORS[i % SLICE_COLORS.length] }}
+							/>
+							{slice.label}
+						</span>
+						<span className="text-white/60">{((slice.value / total) * 100).toFixed(1)}%</span>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { formatDuration } from "../utils/complianceProposals";
+
+interface ApprovalSettingsPanelProps {
+	approvalThreshold: number;
+	reviewerCount: number;
+	timelockDuration: number;
+	isBusy: boolean;
+	onSetThreshold: (threshold: number) => void;
+	onSetTimelock: (seconds: number) => void;
+	onSetRole: (role: "reviewer" | "officer", account: string, enabled: boolean) => void;
+}
+
+const inputClassName =
+	"bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50";
+const buttonClassName =
+	"px-4 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors text-sm font-medium disabled:opacity-50";
+
+// Owner controls for the approval workflow: N of M, timelock and roles
+// Once a threshold is set, threshold, timelock and reviewer changes are proposed for reviewer approval
+export function ApprovalSettingsPanel({
+	approvalThreshold,
+	reviewerCount,
+	timelockDuration,
+	isBusy,
+	onSetThreshold,
+	onSetTimelock,
+	onSetRole,
+}: ApprovalSettingsPanelProps) {
+	const [threshold, setThreshold] = useState("");
+	const [timelockHours, setTimelockHours] = useState("");
+	const [account, setAccount] = useState("");
+	const [role, setRole] = useState<"reviewer" | "officer">("reviewer");
+
+	return (
+		<section className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg p-4 space-y-4'>
+			<div>
+				<h2 className='text-white font-semibold'>Approval workflow</h2>
+				<p className='text-white/60 text-sm'>
+					{approvalThreshold === 0
+						? "Off: the owner changes verdicts directly. Set a threshold to require reviewer approval."
+						: `${approvalThreshold} of ${reviewerCount} reviewers must approve; changes execute ${formatDuration(timelockDuration)} after the last approval. Threshold, timelock and reviewer changes are proposed and need the same approvals.`}
+				</p>
+			</div>
+
+			<div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+				<div className='flex gap-2'>
+					<input
+						type='number'
+						min={approvalThreshold === 0 ? 0 : 1}
+						max={reviewerCount}
+						placeholder={`Approvals (${approvalThreshold === 0 ? 0 : 1}-${reviewerCount})`}
+						value={threshold}
+						onChange={(e) => setThreshold(e.target.value)}
+						className={`flex-1 min-w-0 ${inputClassName}`}
+					/>
+					<button
+						onClick={() => onSetThreshold(Number(threshold))}
+						disabled={isBusy || threshold === ""}
+						className={buttonClassName}
+					>
+						{approvalThreshold === 0 ? "Set threshold" : "Propose threshold"}
+					</button>
+				</div>
+				<div className='flex gap-2'>
+					<input
+						type='number'
+						min={0}
+						step='any'
+						placeholder={`Timelock in hours (now ${(timelockDuration / 3600).toFixed(1)})`}
+						value={timelockHours}
+						onChange={(e) => setTimelockHours(e.target.value)}
+						className={`flex-1 min-w-0 ${inputClassName}`}
+					/>
+					<button
+						onClick={() => onSetTimelock(Math.round(Number(timelockHours) * 3600))}
+						disabled={isBusy || timelockHours === ""}
+						className={buttonClassName}
+					>
+						{approvalThreshold === 0 ? "Set timelock" : "Propose timelock"}
+					</button>
+				</div>
+			</div>
+
+			<div className='flex flex-col sm:flex-row gap-2'>
+				<select
+					value={role}
+					onChange={(e) => setRole(e.target.value as "reviewer" | "officer")}
+					className={inputClassName}
+				>
+					<option value='reviewer'>Reviewer</option>
+					<option value='officer'>Compliance officer</option>
+				</select>
+				<input
+					type='text'
+					placeholder='Account address (0x...)'
+					value={account}
+					onChange={(e) => setAccount(e.target.value)}
+					className={`flex-1 font-mono ${inputClassName}`}
+				/>
+				<button
+					onClick={() => onSetRole(role, account.trim(), true)}
+					disabled={isBusy || !account.trim()}
+					className={buttonClassName}
+				>
+					Add
+				</button>
+				<button
+					onClick={() => onSetRole(role, account.trim(), false)}
+					disabled={isBusy || !account.trim()}
+					className='px-4 py-2.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 transition-colors text-sm font-medium disabled:opacity-50'
+				>
+					Remove
+				</button>
+			</div>
+		</section>
+	);
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useCoinAuditTrail, useSignAuditTrail } from "../hooks/useComplianceAudit";
+import { useWallet } from "../hooks/useWallet";
+import { ScreeningDetails } from "./ScreeningDetails";
+import type { ComplianceStatus } from "../utils/complianceAudit";
+import type { CoinScreening } from "../utils/complianceScreening";
+import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
+
+interface CoinAuditTrailModalProps {
+	isOpen: boolean;
+	coin: { symbol: string; name: string } | null;
+	screening?: CoinScreening | null;
+	onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, { label: string; className: string }> = {
+	unregistered: { label: "Unregistered", className: "text-white/50" },
+	compliant: { label: "Compliant", className: "text-green-400" },
+	"non-compliant": { label: "Non-compliant", className: "text-red-400" },
+	removed: { label: "Removed", className: "text-yellow-400" },
+};
+
+const ACTION_LABELS = { registered: "Registered", updated: "Status updated", removed: "Removed" } as const;
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+export function CoinAuditTrailModal({ isOpen, coin, screening, onClose }: CoinAuditTrailModalProps) {
+	const { isConnected } = useWallet();
+	const { entries, isLoading, error } = useCoinAuditTrail(isOpen ? coin?.symbol : undefined);
+	const { signAuditTrail, isSigning } = useSignAuditTrail();
+	const [exportError, setExportError] = useState<string | null>(null);
+
+	// Clear the previous coin's export error
+	useEffect(() => {
+		setExportError(null);
+	}, [coin?.symbol]);
+
+	// Handle ESC key to close
+	useEffect(() => {
+		if (!isOpen) return;
+
+		const handleEscape = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				onClose();
+			}
+		};
+
+		document.addEventListener("keydown", handleEscape);
+		return () => document.removeEventListener("keydown", handleEscape);
+	}, [isOpen, onClose]);
+
+	if (!isOpen || !coin) return null;
+
+	// Sign the trail with the connected wallet and download it
+	const handleExport = async () => {
+		setExportError(null);
+		try {
+			const signed = await signAuditTrail(coin.symbol, entries);
+			const url = URL.createObjectURL(
+				new Blob([JSON.stringify(signed, null, 2) + "\n"], { type: "application/json" })
+			);
+			const link = document.createElement("a");
+			link.href = url;
+			link.download = `tayeb-compliance-${coin.symbol}-${signed.payload.generatedAt.slice(0, 10)}.json`;
+			link.click();
+			URL.revokeObjectURL(url);
+		} catch (err) {
+			if (!isUserRejection(err)) setExportError(getFriendlyErrorMessage(err));
+		}
+	};
+
+	const formatTime = (timestamp: number) =>
+		new Date(timestamp * 1000).toLocaleString(undefined, {
+			year: "numeric",
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center p-4" onClick={onClose}>
+			{/* Backdrop */}
+			<div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+			{/* Modal */}
+			<div
+				className="relative bg-[#1a3a2f] border border-solid border-[#23483c] rounded-xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6 z-10"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<h3 className="text-white text-xl font-bold mb-1">{coin.symbol} Compliance History</h3>
+				<p className="text-white/60 text-sm mb-5">
+					{coin.name} · every ShariaCompliance change with the old and new verdict
+				</p>
+
+				<div className="mb-5 p-4 rounded-lg bg-[#0f1e18]">
+					<p className="text-white text-sm font-semibold mb-2">Current screening</p>
+					<ScreeningDetails screening={screening} />
+				</div>
+
+				{isLoading ? (
+					<p className="text-white/60 text-sm mb-6">Loading history...</p>
+				) : error ? (
+					<p className="text-red-400 text-sm mb-6">Could not load history: {error.message}</p>
+				) : entries.length === 0 ? (
+					<p className="text-white/60 text-sm mb-6">No registry events found</p>
+				) : (
+					<div className="mb-6 overflow-x-auto">
+						<table className="w-full text-sm">
+							<thead className="text-white/60 text-xs uppercase">
+								<tr>
+									<th className="text-left py-2 pr-3 font-medium">Date</th>
+									<th className="text-left py-2 pr-3 font-medium">Change</th>
+									<th className="text-left py-2 pr-3 font-medium">Verdict</th>
+									<th className="text-left py-2 pr-3 font-medium">Reason</th>
+									<th className="text-left py-2 font-medium">By</th>
+								</tr>
+							</thead>
+							<tbody>
+								{[...entries].reverse().map((entry, i) => (
+									<tr key={`${entry.txHash}-${i}`} className="border-t border-[#23483c] align-top">
+										<td className="py-2 pr-3 text-white/80 whitespace-nowrap">{formatTime(entry.timestamp)}</td>
+										<td className="py-2 pr-3 text-white whitespace-nowrap">{ACTION_LABELS[entry.action]}</td>
+										<td className="py-2 pr-3 whitespace-nowrap">
+											<span className={STATUS_STYLES[entry.previousStatus].className}>
+												{STATUS_STYLES[entry.previousStatus].label}
+											</span>
+											<span className="text-white/40"> → </span>
+											<span className={STATUS_STYLES[entry.newStatus].className}>
+												{STATUS_STYLES[entry.newStatus].label}
+											</span>
+										</td>
+										<td className="py-2 pr-3 text-white/80">
+											{entry.reason ?? "—"}
+											{entry.previousReason !== null && entry.previousReason !== entry.reason && (
+												<p className="text-white/40 text-xs line-through">{entry.previousReason}</p>
+											)}
+										</td>
+										<td className="py-2 font-mono text-xs">
+											{entry.changedBy ? (
+												<a
+													href={`https://moonbase.moonscan.io/tx/${entry.txHash}`}
+													target="_blank"
+													rel="noopener noreferrer"
+													className="text-primary hover:underline"
+													title={entry.changedBy}
+												>
+													{shortAddress(entry.changedBy)}
+												</a>
+											) : (
+												<span className="text-white/40">unknown</span>
+											)}
+											{entry.proposalId !== null && (
+												<p className="text-white/40 font-sans">
+													Proposal #{entry.proposalId}
+													{entry.approvedBy.length > 0 &&
+														`, approved by ${entry.approvedBy.map(shortAddress).join(", ")}`}
+												</p>
+											)}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+
+				{exportError && <p className="text-red-400 text-sm mb-3">{exportError}</p>}
+
+				<div className="flex flex-col sm:flex-row gap-3 sm:items-center justify-between">
+					<p className="text-white/40 text-xs">
+						{isConnected
+							? "The export is signed by your wallet over the hash of its contents."
+							: "Connect a wallet to export a signed copy."}
+					</p>
+					<div className="flex gap-3 justify-end">
+						<button
+							onClick={onClose}
+							className="px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium"
+						>
+							Close
+						</button>
+						<button
+							onClick={handleExport}
+							disabled={!isConnected || isSigning || isLoading || entries.length === 0}
+							className="px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{isSigning ? "Signing..." : "Export signed JSON"}
+						</button>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,163 @@
+import type { ProposalView } from "../hooks/useComplianceProposals";
+import { formatDuration } from "../utils/complianceProposals";
+import type { ProposalState } from "../utils/complianceProposals";
+
+interface ComplianceProposalsPanelProps {
+	proposals: ProposalView[];
+	isLoading: boolean;
+	approvalThreshold: number;
+	userAddress: string | undefined;
+	isOwner: boolean;
+	isReviewer: boolean;
+	isBusy: boolean;
+	onApprove: (proposalId: bigint) => void;
+	onExecute: (proposalId: bigint) => void;
+	onCancel: (proposalId: bigint) => void;
+}
+
+const STATE_STYLES: Record<ProposalState, { label: string; className: string }> = {
+	"awaiting-approvals": { label: "Awaiting approvals", className: "bg-blue-500/20 text-blue-400" },
+	timelocked: { label: "Timelocked", className: "bg-yellow-500/20 text-yellow-400" },
+	ready: { label: "Ready", className: "bg-primary/20 text-primary" },
+	executed: { label: "Executed", className: "bg-green-500/20 text-green-400" },
+	cancelled: { label: "Cancelled", className: "bg-white/10 text-white/50" },
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Evidence is free text; link it when it is a URL
+const isLink = (evidence: string) => /^(https?|ipfs):\/\//.test(evidence);
+
+// Verdict change proposals with the actions the connected account may take on them
+export function ComplianceProposalsPanel({
+	proposals,
+	isLoading,
+	approvalThreshold,
+	userAddress,
+	isOwner,
+	isReviewer,
+	isBusy,
+	onApprove,
+	onExecute,
+	onCancel,
+}: ComplianceProposalsPanelProps) {
+	const now = Date.now() / 1000;
+	const isMine = (proposal: ProposalView) =>
+		!!userAddress && proposal.proposer.toLowerCase() === userAddress.toLowerCase();
+
+	return (
+		<section className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg overflow-x-auto'>
+			<h2 className='text-white font-semibold p-4 pb-2'>Status change proposals</h2>
+			{isLoading ? (
+				<p className='text-primary text-center py-8'>Loading proposals...</p>
+			) : proposals.length === 0 ? (
+				<p className='text-white/40 text-center py-8'>No proposals yet</p>
+			) : (
+				<table className='w-full text-sm'>
+					<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+						<tr>
+							<th className='text-left py-3 px-4 font-medium'>#</th>
+							<th className='text-left py-3 px-4 font-medium'>Change</th>
+							<th className='text-left py-3 px-4 font-medium'>Reason &amp; evidence</th>
+							<th className='text-left py-3 px-4 font-medium'>Approvals</th>
+							<th className='text-left py-3 px-4 font-medium'>State</th>
+							<th className='text-right py-3 px-4 font-medium'>Actions</th>
+						</tr>
+					</thead>
+					<tbody>
+						{proposals.map((proposal) => {
+							const isOpen = proposal.state !== "executed" && proposal.state !== "cancelled";
+							const canApprove =
+								isReviewer && proposal.state === "awaiting-approvals" && !isMine(proposal) && !proposal.approvedByMe;
+
+							return (
+								<tr key={proposal.id.toString()} className='border-t border-[#23483c]/50 align-top'>
+									<td className='py-3 px-4 text-white/70'>{proposal.id.toString()}</td>
+									<td className='py-3 px-4'>
+										<p className='text-white font-medium'>{proposal.coinId}</p>
+										<p className={`text-xs ${proposal.verified ? "text-green-400" : "text-red-400"}`}>
+											→ {proposal.verified ? "Compliant" : "Non-compliant"}
+										</p>
+										<p className='text-white/40 text-xs' title={proposal.proposer}>
+											by {isMine(proposal) ? "you" : shortAddress(proposal.proposer)}
+										</p>
+									</td>
+									<td className='py-3 px-4 max-w-xs'>
+										<p className='text-white/80'>{proposal.complianceReason}</p>
+										{isLink(proposal.evidence) ? (
+											<a
+												href={proposal.evidence}
+												target='_blank'
+												rel='noopener noreferrer'
+												className='text-primary text-xs hover:underline break-all'
+											>
+												{proposal.evidence}
+											</a>
+										) : (
+											<p className='text-white/50 text-xs break-all'>{proposal.evidence}</p>
+										)}
+									</td>
+									<td className='py-3 px-4 text-white/80 whitespace-nowrap'>
+										{proposal.activeApprovals} / {approvalThreshold}
+										{proposal.approvedByMe && <p className='text-primary text-xs'>incl. yours</p>}
+										{proposal.approvals > proposal.activeApprovals && (
+											<p className='text-white/40 text-xs'>
+												{proposal.approvals - proposal.activeApprovals} from removed reviewers
+											</p>
+										)}
+									</td>
+									<td className='py-3 px-4 whitespace-nowrap'>
+										<span
+											className={`px-2 py-0.5 rounded text-xs font-semibold ${STATE_STYLES[proposal.state].className}`}
+										>
+											{STATE_STYLES[proposal.state].label}
+										</span>
+										{proposal.state === "timelocked" && (
+											<p
+												className='text-white/50 text-xs mt-1'
+												title={new Date(Number(proposal.executableAt) * 1000).toLocaleString()}
+											>
+												in {formatDuration(Math.ceil(Number(proposal.executableAt) - now))}
+											</p>
+										)}
+									</td>
+									<td className='py-3 px-4'>
+										<div className='flex gap-2 justify-end whitespace-nowrap'>
+											{canApprove && (
+												<button
+													onClick={() => onApprove(proposal.id)}
+													disabled={isBusy}
+													className='px-3 py-1.5 rounded-lg bg-primary/20 text-primary hover:bg-primary hover:text-background-dark text-xs font-semibold transition-colors disabled:opacity-50'
+												>
+													Approve
+												</button>
+											)}
+											{proposal.state === "ready" && (
+												<button
+													onClick={() => onExecute(proposal.id)}
+													disabled={isBusy}
+													className='px-3 py-1.5 rounded-lg bg-primary text-background-dark hover:opacity-90 text-xs font-semibold transition-opacity disabled:opacity-50'
+												>
+													Execute
+												</button>
+											)}
+											{isOpen && (isOwner || isMine(proposal)) && (
+												<button
+													onClick={() => onCancel(proposal.id)}
+													disabled={isBusy}
+													className='px-3 py-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-xs font-semibold transition-colors disabled:opacity-50'
+												>
+													Cancel
+												</button>
+											)}
+										</div>
+									</td>
+								</tr>
+							);
+						})}
+					</tbody>
+				</table>
+			)}
+		</section>
+	);
+}
@@ -0,0 +1,33 @@
+import type { ConfigDiffLine } from "../utils/complianceConfig";
+
+interface ConfigDiffPreviewProps {
+	lines: ConfigDiffLine[] | null;
+	error?: string | null;
+}
+
+const LINE_STYLES: Record<ConfigDiffLine["kind"], { prefix: string; className: string }> = {
+	added: { prefix: "+ ", className: "text-green-400 bg-green-500/10" },
+	removed: { prefix: "- ", className: "text-red-400 bg-red-500/10" },
+	context: { prefix: "  ", className: "text-white/50" },
+};
+
+// tayebCoins.json change an admin action will cause once the listener syncs it
+export function ConfigDiffPreview({ lines, error }: ConfigDiffPreviewProps) {
+	return (
+		<div className='space-y-1'>
+			<p className='text-white/60 text-xs'>config/tayebCoins.json after the listener syncs this change</p>
+			{error ? (
+				<p className='text-yellow-400 text-xs'>{error}</p>
+			) : (
+				<pre className='bg-[#0f1e18] rounded-lg p-3 text-xs overflow-x-auto font-mono'>
+					{(lines ?? []).map((line, i) => (
+						<div key={i} className={LINE_STYLES[line.kind].className}>
+							{LINE_STYLES[line.kind].prefix}
+							{line.text}
+						</div>
+					))}
+				</pre>
+			)}
+		</div>
+	);
+}
@@ -25,6 +25,9 @@ export function DCAConfirmationModal({
 		remainder,
 		totalIntervals,
 		interval,
+		slippagePercent,
+		maxPrice,
+		minAmountOutPerInterval,
 	} = data;
 
 	// Format interval label
@@ -117,8 +120,42 @@ export function DCAConfirmationModal({
 								{actualTotalUsed} {sourceToken.symbol}
 							</span>
 						</div>
+
+						{/* Slippage Tolerance */}
+						<div className='flex items-center justify-between text-sm'>
+							<span className='text-white/70'>Slippage tolerance</span>
+							<span className='text-white font-medium'>
+								{slippagePercent}%
+							</span>
+						</div>
+
+						{/* Max Price */}
+						<div className='flex items-center justify-between text-sm'>
+							<span className='text-white/70'>Max price</span>
+							<span className='text-white font-medium'>
+								{maxPrice
+									? `${maxPrice} ${sourceToken.symbol} per ${targetToken.symbol}`
+									: "No limit"}
+							</span>
+						</div>
+
+						{/* Minimum Received Per Interval */}
+						{minAmountOutPerInterval && (
+							<div className='flex items-center justify-between text-sm'>
+								<span className='text-white/70'>Minimum per interval</span>
+								<span className='text-white font-medium'>
+									{minAmountOutPerInterval} {targetToken.symbol}
+								</span>
+							</div>
+						)}
 					</div>
 
+					{/* Skipped Execution Info */}
+					<p className='mb-4 text-white/50 text-xs leading-relaxed'>
+						If the pool price moves past these limits when an interval is due, that execution is
+						skipped (not filled) and retried at the next check.
+					</p>
+
 					{/* Remainder Info */}
 					{remainder && parseFloat(remainder) > 0 && (
 						<div className='mb-4 p-3 bg-yellow-400/10 border border-yellow-400/20 rounded-lg'>
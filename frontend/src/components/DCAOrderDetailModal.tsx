@@ -0,0 +1,218 @@
+import { useEffect, useMemo } from "react";
+import { formatUnits } from "viem";
+import { useDCAOrderExecutions } from "../hooks/useShariaDCA";
+import type { DCAOrder } from "../hooks/useShariaDCA";
+import type { Token } from "../types";
+import { compareWithLumpSum, projectSchedule, summarizeFills } from "../utils/dcaPerformance";
+import { formatPrice, impliedPrice } from "../utils/limitOrders";
+
+interface DCAOrderDetailModalProps {
+	isOpen: boolean;
+	order: DCAOrder | null;
+	sourceToken: Token | undefined;
+	targetToken: Token | undefined;
+	onClose: () => void;
+}
+
+// Upcoming executions listed in the schedule
+const SCHEDULE_PREVIEW_LENGTH = 10;
+
+export function DCAOrderDetailModal({ isOpen, order, sourceToken, targetToken, onClose }: DCAOrderDetailModalProps) {
+	const { fills, lumpSumOut, isLoading, lumpSumLoading, error } = useDCAOrderExecutions(isOpen ? order : null);
+
+	// Native DEV orders are stored with sourceToken = address(0)
+	const isNativeSource = order?.sourceToken === "0x0000000000000000000000000000000000000000";
+	const sourceSymbol = isNativeSource ? "DEV" : sourceToken?.symbol ?? "?";
+	const sourceDecimals = isNativeSource ? 18 : sourceToken?.decimals ?? 18;
+	const targetSymbol = targetToken?.symbol ?? "?";
+	const targetDecimals = targetToken?.decimals ?? 18;
+
+	const performance = useMemo(
+		() => summarizeFills(fills, sourceDecimals, targetDecimals),
+		[fills, sourceDecimals, targetDecimals]
+	);
+	const lumpSumDifference = lumpSumOut !== undefined ? compareWithLumpSum(performance.totalOut, lumpSumOut) : null;
+
+	const schedule = useMemo(
+		() => (order && order.isActive ? projectSchedule(order, SCHEDULE_PREVIEW_LENGTH) : []),
+		[order]
+	);
+	const remainingIntervals = order ? order.totalIntervals - order.intervalsCompleted : 0n;
+
+	// Handle ESC key to close
+	useEffect(() => {
+		if (!isOpen) return;
+
+		const handleEscape = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				onClose();
+			}
+		};
+
+		document.addEventListener("keydown", handleEscape);
+		return () => document.removeEventListener("keydown", handleEscape);
+	}, [isOpen, onClose]);
+
+	if (!isOpen || !order) return null;
+
+	const formatToken = (amount: bigint, decimals: number, symbol: string) =>
+		`${parseFloat(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`;
+
+	const formatTime = (timestamp: number) =>
+		new Date(timestamp * 1000).toLocaleString(undefined, {
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+
+	const priceUnit = `${sourceSymbol} per ${targetSymbol}`;
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center p-4" onClick={onClose}>
+			{/* Backdrop */}
+			<div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+			{/* Modal */}
+			<div
+				className="relative bg-[#1a3a2f] border border-solid border-[#23483c] rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 z-10"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<h3 className="text-white text-xl font-bold mb-1">
+					DCA Order #{order.id.toString()}
+				</h3>
+				<p className="text-white/60 text-sm mb-5">
+					{sourceSymbol} → {targetSymbol} · {order.intervalsCompleted.toString()} /{" "}
+					{order.totalIntervals.toString()} intervals
+				</p>
+
+				{/* Summary */}
+				<div className="grid grid-cols-2 gap-3 mb-6">
+					<div className="bg-[#23483c] rounded-lg p-3">
+						<p className="text-white/60 text-xs mb-1">Spent</p>
+						<p className="text-white font-medium">{formatToken(performance.totalIn, sourceDecimals, sourceSymbol)}</p>
+					</div>
+					<div className="bg-[#23483c] rounded-lg p-3">
+						<p className="text-white/60 text-xs mb-1">Received</p>
+						<p className="text-white font-medium">{formatToken(performance.totalOut, targetDecimals, targetSymbol)}</p>
+					</div>
+					<div className="bg-[#23483c] rounded-lg p-3">
+						<p className="text-white/60 text-xs mb-1">Average cost basis</p>
+						<p className="text-white font-medium">{formatPrice(performance.averageCost)}</p>
+						<p className="text-white/40 text-xs">{priceUnit}</p>
+					</div>
+					<div className="bg-[#23483c] rounded-lg p-3">
+						<p className="text-white/60 text-xs mb-1">vs. lump sum at creation</p>
+						{lumpSumOut !== undefined && lumpSumDifference !== null ? (
+							<>
+								<p className={`font-medium ${lumpSumDifference >= 0 ? "text-green-400" : "text-red-400"}`}>
+									{lumpSumDifference >= 0 ? "+" : ""}
+									{lumpSumDifference.toFixed(2)}% {targetSymbol}
+								</p>
+								<p className="text-white/40 text-xs">
+									Lump sum: {formatToken(lumpSumOut, targetDecimals, targetSymbol)}
+								</p>
+							</>
+						) : (
+							<p className="text-white/40 text-sm">
+								{fills.length === 0
+									? "No fills yet"
+									: lumpSumLoading
+										? "Loading..."
+										: "Unavailable (needs an archive node)"}
+							</p>
+						)}
+					</div>
+				</div>
+
+				{/* Fills */}
+				<h4 className="text-white font-semibold mb-2">Executions</h4>
+				{isLoading ? (
+					<p className="text-white/60 text-sm mb-6">Loading executions...</p>
+				) : error ? (
+					<p className="text-red-400 text-sm mb-6">Could not load executions: {error.message}</p>
+				) : fills.length === 0 ? (
+					<p className="text-white/60 text-sm mb-6">No executions yet</p>
+				) : (
+					<div className="mb-6 overflow-x-auto">
+						<table className="w-full text-sm">
+							<thead className="text-white/60 text-xs uppercase">
+								<tr>
+									<th className="text-left py-2 pr-4 font-medium">#</th>
+									<th className="text-left py-2 pr-4 font-medium">Time</th>
+									<th className="text-right py-2 pr-4 font-medium">Paid</th>
+									<th className="text-right py-2 pr-4 font-medium">Received</th>
+									<th className="text-right py-2 font-medium">Price</th>
+								</tr>
+							</thead>
+							<tbody>
+								{fills.map((fill) => (
+									<tr key={fill.txHash + fill.intervalNumber.toString()} className="border-t border-[#23483c]/50">
+										<td className="py-2 pr-4 text-white/70">{fill.intervalNumber.toString()}</td>
+										<td className="py-2 pr-4 text-white/70">{formatTime(fill.timestamp)}</td>
+										<td className="py-2 pr-4 text-right text-white/80">
+											{formatToken(fill.amountIn, sourceDecimals, sourceSymbol)}
+										</td>
+										<td className="py-2 pr-4 text-right text-white/80">
+											{formatToken(fill.amountOut, targetDecimals, targetSymbol)}
+										</td>
+										<td className="py-2 text-right text-white/80">
+											{formatPrice(impliedPrice(fill.amountIn, fill.amountOut, sourceDecimals, targetDecimals))}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+						{fills.length > 1 && (
+							<p className="text-white/40 text-xs mt-2">
+								Price range {formatPrice(performance.bestPrice)} – {formatPrice(performance.worstPrice)} {priceUnit}
+							</p>
+						)}
+					</div>
+				)}
+
+				{/* Remaining schedule */}
+				{order.isActive && remainingIntervals > 0n && (
+					<>
+						<h4 className="text-white font-semibold mb-2">Remaining schedule</h4>
+						{order.isPaused ? (
+							<p className="text-yellow-400 text-sm mb-6">
+								Paused. Executions continue from the next scheduled hour once the order is resumed.
+							</p>
+						) : (
+							<div className="mb-6 space-y-1">
+								{schedule.map((execution) => (
+									<div key={execution.intervalNumber.toString()} className="flex justify-between text-sm">
+										<span className="text-white/60">Interval {execution.intervalNumber.toString()}</span>
+										<span className="text-white/80">{formatTime(execution.timestamp)}</span>
+									</div>
+								))}
+								{remainingIntervals > BigInt(schedule.length) && (
+									<p className="text-white/40 text-xs">
+										…and {(remainingIntervals - BigInt(schedule.length)).toString()} more, last around{" "}
+										{formatTime(
+											Number(order.nextExecutionTime + order.interval * (remainingIntervals - 1n))
+										)}
+									</p>
+								)}
+								<p className="text-white/40 text-xs pt-1">
+									{formatToken(order.amountPerInterval * remainingIntervals, sourceDecimals, sourceSymbol)} left to
+									invest
+								</p>
+							</div>
+						)}
+					</>
+				)}
+
+				<div className="flex justify-end">
+					<button
+						onClick={onClose}
+						className="px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium"
+					>
+						Close
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -4,12 +4,7 @@ import { useBlockNumber, useReadContract } from "wagmi";
 import type { DCAOrder } from "../hooks/useShariaDCA";
 import type { Token } from "../types";
 import { ShariaDCAABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-import type { Address } from "viem";
-
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
+import { useContracts } from "../hooks/useContracts";
 
 const HOUR_IN_SECONDS = 3600;
 
@@ -18,9 +13,25 @@ interface DCAOrdersListProps {
 	tokens: Token[];
 	isLoading: boolean;
 	onCancelOrder: (orderId: bigint) => void;
+	onPauseOrder: (orderId: bigint) => void;
+	onResumeOrder: (orderId: bigint) => void;
+	onTopUpOrder: (order: DCAOrder) => void;
+	onViewOrder: (order: DCAOrder) => void;
 }
 
-export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAOrdersListProps) {
+type OrderStatus = "active" | "paused" | "completed" | "cancelled";
+
+export function DCAOrdersList({
+	orders,
+	tokens,
+	isLoading,
+	onCancelOrder,
+	onPauseOrder,
+	onResumeOrder,
+	onTopUpOrder,
+	onViewOrder,
+}: DCAOrdersListProps) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
 	const [activeTab, setActiveTab] = useState<"all" | "open" | "history">("all");
 	const { data: currentBlockNumber } = useBlockNumber();
 	
@@ -74,24 +85,26 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 	};
 
 	// Helper to get order status
-	const getOrderStatus = (order: DCAOrder): "active" | "completed" | "cancelled" => {
+	const getOrderStatus = (order: DCAOrder): OrderStatus => {
 		if (!order.isActive) {
 			return order.intervalsCompleted >= order.totalIntervals ? "completed" : "cancelled";
 		}
-		return "active";
+		return order.isPaused ? "paused" : "active";
 	};
 
 	// Helper to get status badge className
-	const getStatusBadgeClassName = (status: "active" | "completed" | "cancelled"): string => {
+	const getStatusBadgeClassName = (status: OrderStatus): string => {
 		return status === "active"
 			? "bg-green-500/20 text-green-400"
+			: status === "paused"
+			? "bg-yellow-500/20 text-yellow-400"
 			: status === "completed"
 			? "bg-blue-500/20 text-blue-400"
 			: "bg-red-500/20 text-red-400";
 	};
 
 	// Helper to capitalize status text
-	const capitalizeStatus = (status: "active" | "completed" | "cancelled"): string => {
+	const capitalizeStatus = (status: OrderStatus): string => {
 		return status.charAt(0).toUpperCase() + status.slice(1);
 	};
 
@@ -117,6 +130,14 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 		return `${parseFloat(amountStr).toFixed(4)} ${sourceToken?.symbol || ""}`;
 	};
 
+	// Helper to format execution protection (slippage tolerance and price floor)
+	const formatProtection = (order: DCAOrder, targetToken: Token | undefined): string => {
+		const slippage = `${Number(order.maxSlippageBps) / 100}% slippage`;
+		if (order.minAmountOut === 0n || !targetToken) return slippage;
+		const minOut = parseFloat(formatUnits(order.minAmountOut, targetToken.decimals)).toFixed(4);
+		return `${slippage} · min ${minOut} ${targetToken.symbol}`;
+	};
+
 	// Helper to format progress display
 	const formatProgress = (intervalsCompleted: bigint, totalIntervals: bigint): string => {
 		return `${intervalsCompleted.toString()} / ${totalIntervals.toString()}`;
@@ -131,6 +152,23 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 		}`;
 	};
 
+	// Helper to get secondary action button className (pause/resume/top up)
+	const getActionButtonClassName = (size: "sm" | "md" = "sm"): string => {
+		return size === "sm"
+			? "px-3 py-1 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-xs font-semibold transition-colors"
+			: "flex-1 px-3 py-2 rounded-lg bg-[#1a3a2f] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors";
+	};
+
+	// Helper to render the pause/resume button for an active order
+	const renderPauseResumeButton = (order: DCAOrder, size: "sm" | "md" = "sm") => (
+		<button
+			onClick={() => (order.isPaused ? onResumeOrder(order.id) : onPauseOrder(order.id))}
+			className={getActionButtonClassName(size)}
+		>
+			{order.isPaused ? "Resume" : "Pause"}
+		</button>
+	);
+
 	// Helper to render inactive order placeholder
 	const renderInactivePlaceholder = () => (
 		<span className="text-white/40">—</span>
@@ -138,7 +176,7 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 
 	// Helper to check if order is ready for execution
 	const isOrderReady = (order: DCAOrder): boolean => {
-		if (!order.isActive) return false;
+		if (!order.isActive || order.isPaused) return false;
 		const now = Math.floor(Date.now() / 1000);
 		return Number(order.nextExecutionTime) <= now;
 	};
@@ -326,12 +364,21 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 											>
 												<td className="py-4 px-6 text-white font-medium">
 													{formatTokenPair(sourceToken, targetToken)}
+													<button
+														onClick={() => onViewOrder(order)}
+														className="block text-primary hover:underline text-xs font-semibold mt-1"
+													>
+														Details
+													</button>
 												</td>
 												<td className="py-4 px-6 text-white/70">
 													Every {intervalStr}
 												</td>
 												<td className="py-4 px-6 text-white/70">
 													{formatAmount(amountStr, sourceToken)}
+													<div className="text-white/40 text-xs">
+														{formatProtection(order, targetToken)}
+													</div>
 												</td>
 												<td className="py-4 px-6 text-white/70">
 													{formatProgress(order.intervalsCompleted, order.totalIntervals)}
@@ -344,7 +391,9 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 													)}
 												</td>
 												<td className="py-4 px-6 text-white/70 text-xs">
-													{order.isActive ? (
+													{order.isActive && order.isPaused ? (
+														<span className="text-yellow-400">Paused</span>
+													) : order.isActive ? (
 														<span className={ready ? "text-green-400 font-semibold" : ""}>
 															{nextExecutionWithBlockStr}
 														</span>
@@ -362,12 +411,21 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 												{activeTab !== "history" && (
 													<td className="py-4 px-6">
 														{order.isActive && (
-															<button
-																onClick={() => onCancelOrder(order.id)}
-																className="px-3 py-1 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-xs font-semibold transition-colors"
-															>
-																Cancel
-															</button>
+															<div className="flex flex-wrap gap-2">
+																{renderPauseResumeButton(order)}
+																<button
+																	onClick={() => onTopUpOrder(order)}
+																	className={getActionButtonClassName()}
+																>
+																	Top up
+																</button>
+																<button
+																	onClick={() => onCancelOrder(order.id)}
+																	className="px-3 py-1 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-xs font-semibold transition-colors"
+																>
+																	Cancel
+																</button>
+															</div>
 														)}
 													</td>
 												)}
@@ -410,12 +468,24 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 												{formatAmount(amountStr, sourceToken)}
 											</span>
 										</div>
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Protection:</span>
+											<span className="text-white/80 text-xs">
+												{formatProtection(order, targetToken)}
+											</span>
+										</div>
 										<div className="flex justify-between text-sm">
 											<span className="text-white/60">Progress:</span>
 											<span className="text-white/80">
 												{formatProgress(order.intervalsCompleted, order.totalIntervals)}
 											</span>
 										</div>
+										<button
+											onClick={() => onViewOrder(order)}
+											className={`w-full ${getActionButtonClassName("md")}`}
+										>
+											View Details
+										</button>
 										{order.isActive && (
 											<>
 												<div className="flex justify-between text-sm">
@@ -426,9 +496,22 @@ export function DCAOrdersList({ orders, tokens, isLoading, onCancelOrder }: DCAO
 												</div>
 												<div className="flex justify-between text-sm">
 													<span className="text-white/60">Next execution:</span>
-													<span className={isOrderReady(order) ? "text-green-400 font-semibold text-xs" : "text-white/80 text-xs"}>
-														{formatExecutionTimeWithBlock(order.nextExecutionTime)}
-													</span>
+													{order.isPaused ? (
+														<span className="text-yellow-400 text-xs">Paused</span>
+													) : (
+														<span className={isOrderReady(order) ? "text-green-400 font-semibold text-xs" : "text-white/80 text-xs"}>
+															{formatExecutionTimeWithBlock(order.nextExecutionTime)}
+														</span>
+													)}
+												</div>
+												<div className="flex gap-2 mt-2">
+													{renderPauseResumeButton(order, "md")}
+													<button
+														onClick={() => onTopUpOrder(order)}
+														className={getActionButtonClassName("md")}
+													>
+														Top Up
+													</button>
 												</div>
 												<button
 													onClick={() => onCancelOrder(order.id)}
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import type { Address } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+import type { DCAOrder } from "../hooks/useShariaDCA";
+import type { Token } from "../types";
+import { ERC20_ABI } from "../config/abis";
+import { useContracts } from "../hooks/useContracts";
+
+interface DCATopUpModalProps {
+	isOpen: boolean;
+	order: DCAOrder | null;
+	sourceToken: Token | undefined;
+	isApproving?: boolean;
+	approvalConfirmed?: number;
+	onApprove: (token: Token, amount: bigint) => void;
+	onConfirm: (orderId: bigint, additionalIntervals: bigint, deposit: bigint) => void;
+	onCancel: () => void;
+}
+
+export function DCATopUpModal({
+	isOpen,
+	order,
+	sourceToken,
+	isApproving = false,
+	approvalConfirmed = 0,
+	onApprove,
+	onConfirm,
+	onCancel,
+}: DCATopUpModalProps) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
+	const { address } = useAccount();
+	const publicClient = usePublicClient();
+	const [intervals, setIntervals] = useState<string>("1");
+	const [allowance, setAllowance] = useState<bigint | null>(null);
+
+	// Native DEV orders are stored with sourceToken = address(0)
+	const isNativeSource = order?.sourceToken === "0x0000000000000000000000000000000000000000";
+
+	const additionalIntervals = useMemo(() => {
+		const parsed = parseInt(intervals);
+		return !isNaN(parsed) && parsed > 0 ? BigInt(parsed) : 0n;
+	}, [intervals]);
+
+	const deposit = order ? order.amountPerInterval * additionalIntervals : 0n;
+	const needsApproval = !isNativeSource && allowance !== null && allowance < deposit;
+
+	// Reset input when a different order is opened
+	useEffect(() => {
+		if (isOpen) setIntervals("1");
+	}, [isOpen, order?.id]);
+
+	// Read the current allowance for ERC20 orders (re-read after approvals)
+	useEffect(() => {
+		if (!isOpen || !order || isNativeSource || !address || !publicClient) {
+			setAllowance(null);
+			return;
+		}
+
+		let cancelled = false;
+		publicClient
+			.readContract({
+				address: order.sourceToken as Address,
+				abi: ERC20_ABI,
+				functionName: "allowance",
+				args: [address, SHARIA_DCA_ADDRESS],
+			})
+			.then((value) => {
+				if (!cancelled) setAllowance(value as bigint);
+			})
+			.catch(() => {
+				if (!cancelled) setAllowance(0n); // Assume approval needed on error
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [isOpen, order, isNativeSource, address, publicClient, SHARIA_DCA_ADDRESS, approvalConfirmed]);
+
+	// Handle ESC key to close
+	useEffect(() => {
+		if (!isOpen) return;
+
+		const handleEscape = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				onCancel();
+			}
+		};
+
+		document.addEventListener("keydown", handleEscape);
+		return () => document.removeEventListener("keydown", handleEscape);
+	}, [isOpen, onCancel]);
+
+	if (!isOpen || !order) return null;
+
+	const symbol = isNativeSource ? "DEV" : sourceToken?.symbol ?? "";
+	const decimals = sourceToken?.decimals ?? 18;
+	const remaining = order.totalIntervals - order.intervalsCompleted;
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-center justify-center p-4"
+			onClick={onCancel}
+		>
+			{/* Backdrop */}
+			<div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+			{/* Modal */}
+			<div
+				className="relative bg-[#1a3a2f] border border-solid border-[#23483c] rounded-xl shadow-2xl max-w-md w-full p-6 z-10"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<h3 className="text-white text-xl font-bold mb-4">
+					Top Up DCA Order #{order.id.toString()}
+				</h3>
+
+				<p className="text-white/60 text-sm mb-3">Additional intervals</p>
+				<input
+					type="number"
+					min="1"
+					value={intervals}
+					onChange={(e) => setIntervals(e.target.value)}
+					className="w-full bg-[#23483c] text-white text-2xl font-medium rounded-lg px-4 py-3 mb-4 focus:outline-none focus:ring-2 focus:ring-primary/50 [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+				/>
+
+				<div className="space-y-3 mb-6">
+					<div className="flex items-center justify-between text-sm">
+						<span className="text-white/70">Amount per interval</span>
+						<span className="text-white font-medium">
+							{formatUnits(order.amountPerInterval, decimals)} {symbol}
+						</span>
+					</div>
+					<div className="flex items-center justify-between text-sm">
+						<span className="text-white/70">Remaining intervals</span>
+						<span className="text-white font-medium">
+							{remaining.toString()} → {(remaining + additionalIntervals).toString()}
+						</span>
+					</div>
+					<div className="flex items-center justify-between text-sm">
+						<span className="text-white/70">Deposit</span>
+						<span className="text-white font-medium">
+							{formatUnits(deposit, decimals)} {symbol}
+						</span>
+					</div>
+				</div>
+
+				{/* Buttons */}
+				<div className="flex gap-3 justify-end">
+					<button
+						onClick={onCancel}
+						className="px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium"
+					>
+						Close
+					</button>
+					{needsApproval && sourceToken ? (
+						<button
+							onClick={() => onApprove(sourceToken, deposit)}
+							disabled={isApproving || additionalIntervals === 0n}
+							className="px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							{isApproving ? "Approving..." : `Approve ${symbol}`}
+						</button>
+					) : (
+						<button
+							onClick={() => onConfirm(order.id, additionalIntervals, isNativeSource ? deposit : 0n)}
+							disabled={additionalIntervals === 0n || (!isNativeSource && allowance === null)}
+							className="px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+						>
+							Top Up
+						</button>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -6,13 +6,8 @@ import type { Token, DCAConfirmationData } from "../types";
 import { TokenSelector } from "./TokenSelector";
 import { useTokenBalance } from "../hooks/useTokenBalance";
 import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
-import deployedContracts from "../../../config/deployedContracts.json";
 import { DCAConfirmationModal } from "./DCAConfirmationModal";
-
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
+import { useContracts } from "../hooks/useContracts";
 
 interface DCATradeFormProps {
 	tokens: Token[];
@@ -25,6 +20,8 @@ interface DCATradeFormProps {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		minAmountOut: bigint;
 	}) => void;
 	onApprove?: (token: Token, amount: bigint) => void;
 }
@@ -37,6 +34,7 @@ export function DCATradeForm({
 	onSchedule,
 	onApprove
 }: DCATradeFormProps) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS, WETH: WETH_ADDRESS } = useContracts();
 	const { address } = useAccount();
 	const publicClient = usePublicClient();
 	
@@ -48,6 +46,9 @@ export function DCATradeForm({
 	const MAX_APPROVAL = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
 	const APPROVAL_CHECK_DELAY_MS = 1500;
 	const ALLOWANCE_POLL_INTERVAL_MS = 2000;
+	const SLIPPAGE_PRESETS_BPS = [50, 100, 200];
+	const DEFAULT_SLIPPAGE_BPS = 100;
+	const MAX_SLIPPAGE_BPS = 5000; // Must match ShariaDCA.MAX_SLIPPAGE_BPS
 	
 	// Helper to check if window is available (SSR safety)
 	const isWindowAvailable = (): boolean => {
@@ -85,6 +86,12 @@ export function DCATradeForm({
 	
 	const [duration, setDuration] = useState<string>(DEFAULT_DURATION);
 	
+	// Slippage tolerance applied by the keeper to each execution quote
+	const [slippageBps, setSlippageBps] = useState<number>(DEFAULT_SLIPPAGE_BPS);
+	const [customSlippage, setCustomSlippage] = useState<string>("");
+	// Optional max price (source per 1 target): intervals above it are skipped
+	const [maxPrice, setMaxPrice] = useState<string>("");
+	
 	const [showConfirmationModal, setShowConfirmationModal] = useState(false);
 	const [confirmationData, setConfirmationData] = useState<DCAConfirmationData | null>(null);
 	
@@ -131,6 +138,32 @@ export function DCATradeForm({
 		}`;
 	};
 	
+	// Helper to get slippage preset button className
+	const getSlippageButtonClassName = (bps: number): string => {
+		return `flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${
+			!customSlippage && slippageBps === bps
+				? "bg-primary text-background-dark"
+				: "bg-[#23483c] text-white/70 hover:bg-[#2c5a4b]"
+		}`;
+	};
+	
+	// Helper to handle custom slippage input (percent, up to MAX_SLIPPAGE_BPS)
+	const handleCustomSlippageChange = (value: string) => {
+		const sanitized = handleAmountChange(value);
+		setCustomSlippage(sanitized);
+		const percent = parseFloat(sanitized);
+		if (!isNaN(percent) && percent >= 0) {
+			setSlippageBps(Math.round(percent * 100));
+		} else if (!sanitized) {
+			setSlippageBps(DEFAULT_SLIPPAGE_BPS);
+		}
+	};
+	
+	// Helper to validate slippage tolerance
+	const validateSlippage = (): boolean => {
+		return slippageBps >= 0 && slippageBps <= MAX_SLIPPAGE_BPS;
+	};
+	
 	// Helper to get button base className
 	const getButtonBaseClassName = (): string => {
 		return "w-full py-4 rounded-xl bg-primary hover:opacity-90 text-background-dark font-bold text-lg transition-opacity disabled:opacity-50 disabled:cursor-not-allowed";
@@ -206,7 +239,7 @@ export function DCATradeForm({
 			
 			// Native DEV doesn't need approval - skip check
 			const isNativeDEV = sourceToken.symbol === "DEV" && 
-				sourceToken.addresses.moonbase?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+				sourceToken.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
 			
 			if (isNativeDEV) {
 				setNeedsApproval(false);
@@ -295,6 +328,8 @@ export function DCATradeForm({
 		if (!sourceToken || !targetToken || !amount || !duration) return false;
 		if (!validateAmount(amount) || !validateDuration(duration)) return false;
 		if (areTokensEqual(sourceToken, targetToken)) return false;
+		if (!validateSlippage()) return false;
+		if (maxPrice && !validateAmount(maxPrice)) return false;
 		return true;
 	};
 	
@@ -331,6 +366,9 @@ export function DCATradeForm({
 			totalIntervals: precisionInfo.totalIntervals,
 			interval,
 			intervalSeconds,
+			slippagePercent: slippageBps / 100,
+			maxPrice: maxPrice || null,
+			minAmountOutPerInterval: minAmountOutInfo?.display ?? null,
 		};
 
 		setConfirmationData(data);
@@ -349,6 +387,8 @@ export function DCATradeForm({
 			amount,
 			interval,
 			duration,
+			maxSlippageBps: slippageBps,
+			minAmountOut: minAmountOutInfo?.amount ?? 0n,
 		});
 	};
 
@@ -457,6 +497,26 @@ export function DCATradeForm({
 		}
 	}, [sourceToken, amount, duration]);
 
+	// Convert the max price into a minimum target output per interval
+	// minAmountOut = amountPerInterval / maxPrice (in target token units)
+	const minAmountOutInfo = useMemo(() => {
+		if (!sourceToken || !targetToken || !precisionInfo || !maxPrice) {
+			return null;
+		}
+
+		try {
+			const maxPriceWei = parseUnits(maxPrice, sourceToken.decimals);
+			if (maxPriceWei <= 0n) return null;
+			const amount = (precisionInfo.amountPerInterval * 10n ** BigInt(targetToken.decimals)) / maxPriceWei;
+			return {
+				amount,
+				display: formatAmountSmart(formatUnits(amount, targetToken.decimals), targetToken.decimals),
+			};
+		} catch {
+			return null;
+		}
+	}, [sourceToken, targetToken, precisionInfo, maxPrice]);
+
 	// Helper to get button text based on state
 	const getButtonText = (): string => {
 		if (needsApproval) {
@@ -562,6 +622,57 @@ export function DCATradeForm({
 					</div>
 				</div>
 
+				{/* Execution Protection Section */}
+				<div className="mb-6">
+					<p className="text-white/60 text-sm mb-3">Slippage tolerance per execution</p>
+					<div className="flex gap-2 mb-4">
+						{SLIPPAGE_PRESETS_BPS.map((bps) => (
+							<button
+								key={bps}
+								onClick={() => {
+									setCustomSlippage("");
+									setSlippageBps(bps);
+								}}
+								className={getSlippageButtonClassName(bps)}
+							>
+								{bps / 100}%
+							</button>
+						))}
+						<div className="flex-1 flex items-center bg-[#23483c] rounded-lg px-3">
+							<input
+								type="text"
+								inputMode="decimal"
+								value={customSlippage}
+								onChange={(e) => handleCustomSlippageChange(e.target.value)}
+								className="w-full bg-transparent text-white text-sm font-bold placeholder:text-white/40 focus:outline-none"
+								placeholder="Custom"
+							/>
+							<span className="text-white/60 text-sm">%</span>
+						</div>
+					</div>
+					{!validateSlippage() && (
+						<p className="text-red-400 text-xs mb-4">
+							Slippage tolerance cannot exceed {MAX_SLIPPAGE_BPS / 100}%
+						</p>
+					)}
+					<p className="text-white/60 text-sm mb-3">
+						Max price (optional, {getTokenSymbol(sourceToken, "")} per {getTokenSymbol(targetToken, "")})
+					</p>
+					<input
+						type="text"
+						inputMode="decimal"
+						value={maxPrice}
+						onChange={(e) => setMaxPrice(handleAmountChange(e.target.value))}
+						className={`w-full bg-[#23483c] text-white text-lg font-medium rounded-lg px-4 py-3 placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-primary/50 ${getNumberInputClassName()}`}
+						placeholder="No limit"
+					/>
+					{minAmountOutInfo && (
+						<p className="text-white/50 text-xs mt-2">
+							Intervals receiving less than {minAmountOutInfo.display} {getTokenSymbol(targetToken)} are skipped
+						</p>
+					)}
+				</div>
+
 				{/* Schedule/Approve Button */}
 				<div className="pt-4">
 					{needsApproval ? (
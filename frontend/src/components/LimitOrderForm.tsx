@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatUnits, parseUnits } from "viem";
+import type { Address } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+import type { Token } from "../types";
+import { TokenSelector } from "./TokenSelector";
+import { useTokenBalance } from "../hooks/useTokenBalance";
+import { useSwapQuote } from "../hooks/useShariaSwap";
+import { useContracts } from "../hooks/useContracts";
+import { ERC20_ABI } from "../config/abis";
+import { formatPrice, impliedPrice, minAmountOutForPrice } from "../utils/limitOrders";
+
+const EXPIRY_OPTIONS: Array<{ label: string; seconds: number }> = [
+	{ label: "1 DAY", seconds: 86400 },
+	{ label: "7 DAYS", seconds: 7 * 86400 },
+	{ label: "30 DAYS", seconds: 30 * 86400 },
+];
+
+interface LimitOrderFormProps {
+	tokens: Token[];
+	isCreating?: boolean;
+	isApproving?: boolean;
+	approvalConfirmed?: number;
+	onCreate: (data: {
+		sourceToken: Token;
+		targetToken: Token;
+		amountIn: bigint;
+		minAmountOut: bigint;
+		expiry: bigint;
+	}) => void;
+	onApprove: (token: Token, amount: bigint) => void;
+}
+
+export function LimitOrderForm({
+	tokens,
+	isCreating = false,
+	isApproving = false,
+	approvalConfirmed = 0,
+	onCreate,
+	onApprove,
+}: LimitOrderFormProps) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS, WETH: WETH_ADDRESS } = useContracts();
+	const { address } = useAccount();
+	const publicClient = usePublicClient();
+
+	const [sourceToken, setSourceToken] = useState<Token | null>(tokens[0] ?? null);
+	const [targetToken, setTargetToken] = useState<Token | null>(tokens[1] ?? null);
+	const [amount, setAmount] = useState<string>("");
+	const [limitPrice, setLimitPrice] = useState<string>("");
+	const [expirySeconds, setExpirySeconds] = useState<number>(EXPIRY_OPTIONS[1].seconds);
+	const [allowance, setAllowance] = useState<bigint | null>(null);
+
+	const { balance: sourceBalance } = useTokenBalance(sourceToken);
+
+	// Native DEV is listed with the WETH address and paid as msg.value
+	const isNativeSource =
+		sourceToken?.symbol === "DEV" && sourceToken.addresses.moonbase.toLowerCase() === WETH_ADDRESS.toLowerCase();
+
+	const amountIn = useMemo(() => {
+		if (!sourceToken || !amount) return 0n;
+		try {
+			return parseUnits(amount, sourceToken.decimals);
+		} catch {
+			return 0n;
+		}
+	}, [sourceToken, amount]);
+
+	const minAmountOut = useMemo(() => {
+		if (!sourceToken || !targetToken || amountIn === 0n || !limitPrice) return null;
+		return minAmountOutForPrice(amountIn, limitPrice, sourceToken.decimals, targetToken.decimals);
+	}, [sourceToken, targetToken, amountIn, limitPrice]);
+
+	// Current pool price for the same route the keeper fills through
+	const { quote } = useSwapQuote(
+		sourceToken?.addresses.moonbase as Address | undefined,
+		targetToken?.addresses.moonbase as Address | undefined,
+		amountIn > 0n ? amountIn : undefined
+	);
+	const currentPrice =
+		sourceToken && targetToken && quote
+			? impliedPrice(amountIn, quote, sourceToken.decimals, targetToken.decimals)
+			: null;
+	const limitReached = quote !== undefined && minAmountOut !== null && quote >= minAmountOut;
+
+	const needsApproval = !isNativeSource && allowance !== null && allowance < amountIn;
+
+	// Read the current allowance for ERC20 sources (re-read after approvals)
+	useEffect(() => {
+		if (!sourceToken || isNativeSource || !address || !publicClient) {
+			setAllowance(null);
+			return;
+		}
+
+		let cancelled = false;
+		publicClient
+			.readContract({
+				address: sourceToken.addresses.moonbase as Address,
+				abi: ERC20_ABI,
+				functionName: "allowance",
+				args: [address, SHARIA_DCA_ADDRESS],
+			})
+			.then((value) => {
+				if (!cancelled) setAllowance(value as bigint);
+			})
+			.catch(() => {
+				if (!cancelled) setAllowance(0n); // Assume approval needed on error
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [sourceToken, isNativeSource, address, publicClient, SHARIA_DCA_ADDRESS, approvalConfirmed]);
+
+	// Sanitize decimal input
+	const handleDecimalChange = (value: string): string => {
+		let newValue = value.replace(/[^\d.]/g, "");
+		const parts = newValue.split(".");
+		if (parts.length > 2) {
+			newValue = parts[0] + "." + parts.slice(1).join("");
+		}
+		return newValue;
+	};
+
+	const handleSourceTokenChange = (token: Token) => {
+		setSourceToken(token);
+		if (token.addresses.moonbase === targetToken?.addresses.moonbase) setTargetToken(null);
+		setLimitPrice("");
+	};
+
+	const handleTargetTokenChange = (token: Token) => {
+		setTargetToken(token);
+		if (token.addresses.moonbase === sourceToken?.addresses.moonbase) setSourceToken(null);
+		setLimitPrice("");
+	};
+
+	const isValid =
+		!!sourceToken &&
+		!!targetToken &&
+		!!address &&
+		amountIn > 0n &&
+		minAmountOut !== null &&
+		minAmountOut > 0n &&
+		(isNativeSource || allowance !== null);
+
+	const handleSubmit = () => {
+		if (!isValid || !sourceToken || !targetToken || minAmountOut === null) return;
+
+		onCreate({
+			sourceToken,
+			targetToken,
+			amountIn,
+			minAmountOut,
+			expiry: BigInt(Math.floor(Date.now() / 1000) + expirySeconds),
+		});
+	};
+
+	const getExpiryButtonClassName = (seconds: number): string => {
+		return `flex-1 py-3 rounded-lg font-bold transition-colors ${
+			expirySeconds === seconds
+				? "bg-primary text-background-dark"
+				: "bg-[#23483c] text-white/70 hover:bg-[#2c5a4b]"
+		}`;
+	};
+
+	const buttonClassName =
+		"w-full py-4 rounded-xl bg-primary hover:opacity-90 text-background-dark font-bold text-lg transition-opacity disabled:opacity-50 disabled:cursor-not-allowed";
+
+	return (
+		<div className="bg-[#1a3a2f] p-4 sm:p-6 rounded-xl border border-solid border-[#23483c] shadow-lg flex flex-col">
+			{/* SELL Section */}
+			<div className="mb-4">
+				<p className="text-white/60 text-xs uppercase font-medium mb-3">SELL</p>
+				<div className="bg-[#23483c] rounded-lg p-4">
+					<p className="text-white/80 text-sm font-medium mb-2">
+						Balance: {sourceBalance ? parseFloat(sourceBalance).toFixed(6) : "0.000000"} {sourceToken?.symbol ?? ""}
+					</p>
+					<div className="flex items-center gap-4">
+						<input
+							type="text"
+							inputMode="decimal"
+							value={amount}
+							onChange={(e) => setAmount(handleDecimalChange(e.target.value))}
+							className="flex-1 w-full bg-transparent text-white text-3xl font-medium placeholder:text-white/40 focus:outline-none ring-0 border-none p-0"
+							placeholder="0"
+						/>
+						<TokenSelector selectedToken={sourceToken} tokens={tokens} onTokenChange={handleSourceTokenChange} />
+					</div>
+				</div>
+			</div>
+
+			{/* BUY Section */}
+			<div className="mb-4">
+				<p className="text-white/60 text-xs uppercase font-medium mb-3">BUY</p>
+				<div className="bg-[#23483c] rounded-lg p-4 flex items-center justify-end">
+					<TokenSelector selectedToken={targetToken} tokens={tokens} onTokenChange={handleTargetTokenChange} />
+				</div>
+			</div>
+
+			{/* Limit Price Section */}
+			<div className="mb-6">
+				<p className="text-white/60 text-sm mb-3">
+					Buy when price is at or below ({sourceToken?.symbol ?? ""} per {targetToken?.symbol ?? ""})
+				</p>
+				<input
+					type="text"
+					inputMode="decimal"
+					value={limitPrice}
+					onChange={(e) => setLimitPrice(handleDecimalChange(e.target.value))}
+					className="w-full bg-[#23483c] text-white text-lg font-medium rounded-lg px-4 py-3 placeholder:text-white/40 focus:outline-none focus:ring-2 focus:ring-primary/50"
+					placeholder="Limit price"
+				/>
+				<div className="flex justify-between text-xs mt-2">
+					<button
+						type="button"
+						onClick={() => currentPrice !== null && setLimitPrice(currentPrice.toPrecision(6))}
+						className="text-white/50 hover:text-white/80"
+					>
+						Current price: {formatPrice(currentPrice)}
+					</button>
+					{minAmountOut !== null && targetToken && (
+						<span className="text-white/50">
+							Receive at least {parseFloat(formatUnits(minAmountOut, targetToken.decimals)).toFixed(6)}{" "}
+							{targetToken.symbol}
+						</span>
+					)}
+				</div>
+				{limitReached && (
+					<p className="text-yellow-400 text-xs mt-2">
+						The current price already meets this limit: the order fills on the next keeper run
+					</p>
+				)}
+			</div>
+
+			{/* Expiry Section */}
+			<div className="mb-6">
+				<p className="text-white/60 text-sm mb-3">Expires after (unfilled deposits are refunded)</p>
+				<div className="flex gap-2">
+					{EXPIRY_OPTIONS.map((option) => (
+						<button
+							key={option.seconds}
+							onClick={() => setExpirySeconds(option.seconds)}
+							className={getExpiryButtonClassName(option.seconds)}
+						>
+							{option.label}
+						</button>
+					))}
+				</div>
+			</div>
+
+			{/* Create/Approve Button */}
+			{needsApproval && sourceToken ? (
+				<button
+					onClick={() => onApprove(sourceToken, amountIn)}
+					disabled={isApproving || amountIn === 0n}
+					className={buttonClassName}
+				>
+					{isApproving ? "APPROVING..." : `APPROVE ${sourceToken.symbol}`}
+				</button>
+			) : (
+				<button onClick={handleSubmit} disabled={isCreating || !isValid} className={buttonClassName}>
+					{isCreating ? "CREATING..." : "PLACE LIMIT ORDER"}
+				</button>
+			)}
+		</div>
+	);
+}
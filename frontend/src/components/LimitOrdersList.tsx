@@ -0,0 +1,142 @@
+import { useMemo } from "react";
+import { formatUnits } from "viem";
+import { Link } from "react-router";
+import { LimitOrderStatus } from "../hooks/useShariaDCA";
+import type { LimitOrder } from "../hooks/useShariaDCA";
+import type { Token } from "../types";
+import { formatPrice, impliedPrice } from "../utils/limitOrders";
+
+interface LimitOrdersListProps {
+	orders: Array<{ order: LimitOrder; expectedAmountOut: bigint; ready: boolean }>;
+	tokens: Token[];
+	isLoading: boolean;
+	onCancelOrder: (orderId: bigint) => void;
+}
+
+const STATUS_LABELS: Record<number, string> = {
+	[LimitOrderStatus.Open]: "Open",
+	[LimitOrderStatus.Filled]: "Filled",
+	[LimitOrderStatus.Cancelled]: "Cancelled",
+	[LimitOrderStatus.Expired]: "Expired",
+};
+
+export function LimitOrdersList({ orders, tokens, isLoading, onCancelOrder }: LimitOrdersListProps) {
+	// Newest first
+	const sortedOrders = useMemo(() => [...orders].sort((a, b) => Number(b.order.id - a.order.id)), [orders]);
+
+	// Helper to find token by address (native DEV orders use address(0))
+	const findTokenByAddress = (address: string) => {
+		if (/^0x0{40}$/.test(address)) return tokens.find((t) => t.symbol === "DEV");
+		return tokens.find((t) => t.addresses.moonbase.toLowerCase() === address.toLowerCase());
+	};
+
+	// An open order past its expiry is refunded on the next keeper run
+	const getStatusLabel = (order: LimitOrder): string => {
+		if (order.status === LimitOrderStatus.Open && Number(order.expiry) < Date.now() / 1000) {
+			return "Expiring";
+		}
+		return STATUS_LABELS[order.status] ?? "Unknown";
+	};
+
+	// Helper to get status badge className
+	const getStatusBadgeClassName = (order: LimitOrder): string => {
+		if (order.status === LimitOrderStatus.Filled) return "bg-blue-500/20 text-blue-400";
+		if (order.status === LimitOrderStatus.Open) {
+			return getStatusLabel(order) === "Expiring"
+				? "bg-yellow-500/20 text-yellow-400"
+				: "bg-green-500/20 text-green-400";
+		}
+		return "bg-red-500/20 text-red-400";
+	};
+
+	const formatExpiry = (expiry: bigint): string =>
+		new Date(Number(expiry) * 1000).toLocaleString(undefined, {
+			month: "short",
+			day: "numeric",
+			hour: "2-digit",
+			minute: "2-digit",
+		});
+
+	return (
+		<div className="flex flex-col mt-6">
+			<div className="flex items-center justify-between pb-4">
+				<h2 className="text-white text-2xl font-bold">Limit orders</h2>
+				<Link to="/dca/new?tab=limit" className="text-primary text-sm font-semibold hover:opacity-80">
+					New limit order →
+				</Link>
+			</div>
+
+			<div className="bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg p-4 space-y-3">
+				{isLoading ? (
+					<p className="text-primary text-center py-8">Loading limit orders...</p>
+				) : sortedOrders.length === 0 ? (
+					<p className="text-white/40 text-center py-8">Your limit orders will appear here</p>
+				) : (
+					sortedOrders.map(({ order, expectedAmountOut, ready }) => {
+						const sourceToken = findTokenByAddress(order.sourceToken);
+						const targetToken = findTokenByAddress(order.targetToken);
+						const sourceDecimals = sourceToken?.decimals ?? 18;
+						const targetDecimals = targetToken?.decimals ?? 18;
+						const isOpen = order.status === LimitOrderStatus.Open;
+
+						return (
+							<div key={order.id.toString()} className="bg-[#23483c] rounded-lg p-4 space-y-2">
+								<div className="flex justify-between items-start">
+									<span className="text-white font-medium">
+										#{order.id.toString()} · {sourceToken?.symbol ?? "?"} → {targetToken?.symbol ?? "?"}
+									</span>
+									<span
+										className={`inline-block px-3 py-1 rounded-full text-xs font-semibold ${getStatusBadgeClassName(order)}`}
+									>
+										{getStatusLabel(order)}
+									</span>
+								</div>
+								<div className="flex justify-between text-sm">
+									<span className="text-white/60">Sell:</span>
+									<span className="text-white/80">
+										{parseFloat(formatUnits(order.amountIn, sourceDecimals)).toFixed(4)} {sourceToken?.symbol ?? ""}
+									</span>
+								</div>
+								<div className="flex justify-between text-sm">
+									<span className="text-white/60">Limit price:</span>
+									<span className="text-white/80">
+										{formatPrice(impliedPrice(order.amountIn, order.minAmountOut, sourceDecimals, targetDecimals))}
+									</span>
+								</div>
+								{isOpen ? (
+									<>
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Current price:</span>
+											<span className={ready ? "text-green-400 font-semibold" : "text-white/80"}>
+												{formatPrice(impliedPrice(order.amountIn, expectedAmountOut, sourceDecimals, targetDecimals))}
+											</span>
+										</div>
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Expires:</span>
+											<span className="text-white/80 text-xs">{formatExpiry(order.expiry)}</span>
+										</div>
+										<button
+											onClick={() => onCancelOrder(order.id)}
+											className="w-full mt-2 px-3 py-2 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-sm font-semibold transition-colors"
+										>
+											Cancel Order
+										</button>
+									</>
+								) : (
+									order.status === LimitOrderStatus.Filled && (
+										<div className="flex justify-between text-sm">
+											<span className="text-white/60">Received:</span>
+											<span className="text-white/80">
+												{parseFloat(formatUnits(order.amountOut, targetDecimals)).toFixed(6)} {targetToken?.symbol ?? ""}
+											</span>
+										</div>
+									)
+								)}
+							</div>
+						);
+					})
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,405 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatUnits, parseUnits } from "viem";
+import type { Address } from "viem";
+import { useAccount, usePublicClient } from "wagmi";
+import type { PoolInfo, PoolToken } from "../hooks/useLiquidity";
+import { ERC20_ABI } from "../config/abis";
+import { useContracts } from "../hooks/useContracts";
+import {
+	applySlippage,
+	estimateLiquidityMinted,
+	poolSharePercent,
+	quoteLiquidityAmount,
+	underlyingAmounts,
+} from "../utils/liquidity";
+
+export type LiquidityMode = "add" | "remove";
+
+const SLIPPAGE_OPTIONS_BPS = [50, 100, 200];
+const REMOVE_PERCENT_OPTIONS = [25, 50, 75, 100];
+
+interface LiquidityModalProps {
+	isOpen: boolean;
+	mode: LiquidityMode;
+	pool: PoolInfo | null;
+	isApproving?: boolean;
+	isSubmitting?: boolean;
+	approvalConfirmed?: number;
+	onApprove: (tokenAddress: Address, symbol: string, amount: bigint) => void;
+	onAdd: (pool: PoolInfo, amounts: { amount0: bigint; amount1: bigint; amount0Min: bigint; amount1Min: bigint }) => void;
+	onRemove: (pool: PoolInfo, amounts: { liquidity: bigint; amount0Min: bigint; amount1Min: bigint }) => void;
+	onCancel: () => void;
+}
+
+// Displayed symbol for a pool side (WETH is deposited and withdrawn as native DEV)
+const displaySymbol = (token: PoolToken) => (token.isNative ? "DEV" : token.symbol);
+
+export function LiquidityModal({
+	isOpen,
+	mode,
+	pool,
+	isApproving = false,
+	isSubmitting = false,
+	approvalConfirmed = 0,
+	onApprove,
+	onAdd,
+	onRemove,
+	onCancel,
+}: LiquidityModalProps) {
+	const { ROUTER: ROUTER_ADDRESS } = useContracts();
+	const { address } = useAccount();
+	const publicClient = usePublicClient();
+
+	const [input0, setInput0] = useState<string>("");
+	const [input1, setInput1] = useState<string>("");
+	const [removePercent, setRemovePercent] = useState<number>(100);
+	const [slippageBps, setSlippageBps] = useState<number>(SLIPPAGE_OPTIONS_BPS[0]);
+	// Allowances and balances of [token0, token1, LP token] (null while loading)
+	const [allowances, setAllowances] = useState<[bigint, bigint, bigint] | null>(null);
+	const [balances, setBalances] = useState<[bigint, bigint] | null>(null);
+
+	// Reset inputs when a different pool or mode is opened
+	useEffect(() => {
+		if (isOpen) {
+			setInput0("");
+			setInput1("");
+			setRemovePercent(100);
+		}
+	}, [isOpen, mode, pool?.pair]);
+
+	const parseAmount = (value: string, decimals: number): bigint => {
+		if (!value) return 0n;
+		try {
+			return parseUnits(value, decimals);
+		} catch {
+			return 0n;
+		}
+	};
+
+	const amount0 = pool ? parseAmount(input0, pool.token0.decimals) : 0n;
+	const amount1 = pool ? parseAmount(input1, pool.token1.decimals) : 0n;
+	const liquidity = pool ? (pool.lpBalance * BigInt(removePercent)) / 100n : 0n;
+
+	// Read allowances to the router and wallet balances (re-read after approvals)
+	useEffect(() => {
+		if (!isOpen || !pool || !address || !publicClient) {
+			setAllowances(null);
+			setBalances(null);
+			return;
+		}
+
+		const readAllowance = (token: Address) =>
+			publicClient
+				.readContract({
+					address: token,
+					abi: ERC20_ABI,
+					functionName: "allowance",
+					args: [address, ROUTER_ADDRESS],
+				})
+				.then((value) => value as bigint);
+		const readBalance = (token: PoolToken) =>
+			token.isNative
+				? publicClient.getBalance({ address })
+				: publicClient
+						.readContract({
+							address: token.address,
+							abi: ERC20_ABI,
+							functionName: "balanceOf",
+							args: [address],
+						})
+						.then((value) => value as bigint);
+
+		let cancelled = false;
+		Promise.all([
+			readAllowance(pool.token0.address),
+			readAllowance(pool.token1.address),
+			readAllowance(pool.pair),
+			readBalance(pool.token0),
+			readBalance(pool.token1),
+		])
+			.then(([allowance0, allowance1, allowanceLP, balance0, balance1]) => {
+				if (cancelled) return;
+				setAllowances([allowance0, allowance1, allowanceLP]);
+				setBalances([balance0, balance1]);
+			})
+			.catch((err) => {
+				console.error("Error checking allowance:", err);
+				if (cancelled) return;
+				setAllowances([0n, 0n, 0n]); // Assume approval needed on error
+				setBalances(null);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [isOpen, pool, address, publicClient, ROUTER_ADDRESS, approvalConfirmed]);
+
+	// Handle ESC key to close
+	useEffect(() => {
+		if (!isOpen) return;
+
+		const handleEscape = (e: KeyboardEvent) => {
+			if (e.key === "Escape") {
+				onCancel();
+			}
+		};
+
+		document.addEventListener("keydown", handleEscape);
+		return () => document.removeEventListener("keydown", handleEscape);
+	}, [isOpen, onCancel]);
+
+	const liquidityMinted = useMemo(
+		() =>
+			pool ? estimateLiquidityMinted(amount0, amount1, pool.reserve0, pool.reserve1, pool.totalSupply) : 0n,
+		[pool, amount0, amount1]
+	);
+
+	if (!isOpen || !pool) return null;
+
+	const { token0, token1 } = pool;
+	const symbol0 = displaySymbol(token0);
+	const symbol1 = displaySymbol(token1);
+
+	// Sanitize decimal input
+	const handleDecimalChange = (value: string): string => {
+		let newValue = value.replace(/[^\d.]/g, "");
+		const parts = newValue.split(".");
+		if (parts.length > 2) {
+			newValue = parts[0] + "." + parts.slice(1).join("");
+		}
+		return newValue;
+	};
+
+	// Keep both sides at the pool ratio (an empty pool lets the first depositor set the price)
+	const handleInput0Change = (value: string) => {
+		const sanitized = handleDecimalChange(value);
+		setInput0(sanitized);
+		const quoted = quoteLiquidityAmount(parseAmount(sanitized, token0.decimals), pool.reserve0, pool.reserve1);
+		if (quoted > 0n) setInput1(formatUnits(quoted, token1.decimals));
+	};
+
+	const handleInput1Change = (value: string) => {
+		const sanitized = handleDecimalChange(value);
+		setInput1(sanitized);
+		const quoted = quoteLiquidityAmount(parseAmount(sanitized, token1.decimals), pool.reserve1, pool.reserve0);
+		if (quoted > 0n) setInput0(formatUnits(quoted, token0.decimals));
+	};
+
+	const formatAmount = (amount: bigint, decimals: number) => parseFloat(formatUnits(amount, decimals)).toFixed(6);
+
+	// Add mode: approvals are only needed for ERC20 sides (native DEV is sent as value)
+	const needsApproval0 = !token0.isNative && allowances !== null && allowances[0] < amount0;
+	const needsApproval1 = !token1.isNative && allowances !== null && allowances[1] < amount1;
+	const insufficient0 = balances !== null && balances[0] < amount0;
+	const insufficient1 = balances !== null && balances[1] < amount1;
+	const shareAfterAdd = poolSharePercent(pool.lpBalance + liquidityMinted, pool.totalSupply + liquidityMinted);
+
+	// Remove mode: the router pulls LP tokens, so the pair itself must be approved
+	const [out0, out1] = underlyingAmounts(liquidity, pool.totalSupply, pool.reserve0, pool.reserve1);
+	const needsApprovalLP = allowances !== null && allowances[2] < liquidity;
+
+	const getOptionButtonClassName = (selected: boolean): string => {
+		return `flex-1 py-2 rounded-lg text-sm font-bold transition-colors ${
+			selected ? "bg-primary text-background-dark" : "bg-[#23483c] text-white/70 hover:bg-[#2c5a4b]"
+		}`;
+	};
+
+	const primaryButtonClassName =
+		"px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed";
+
+	// Approve the maximum amount to avoid future approvals (same as SwapPage)
+	const maxApproval = BigInt("0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff");
+
+	const renderAmountInput = (
+		token: PoolToken,
+		value: string,
+		balance: bigint | undefined,
+		onChange: (value: string) => void
+	) => (
+		<div className="bg-[#23483c] rounded-lg p-4 mb-3">
+			<div className="flex justify-between text-sm text-white/60 mb-2">
+				<span>{displaySymbol(token)}</span>
+				<button
+					type="button"
+					onClick={() => balance !== undefined && onChange(formatUnits(balance, token.decimals))}
+					className="hover:text-white/80"
+				>
+					Balance: {balance !== undefined ? formatAmount(balance, token.decimals) : "—"}
+				</button>
+			</div>
+			<input
+				type="text"
+				inputMode="decimal"
+				value={value}
+				onChange={(e) => onChange(e.target.value)}
+				className="w-full bg-transparent text-white text-2xl font-medium placeholder:text-white/40 focus:outline-none ring-0 border-none p-0"
+				placeholder="0"
+			/>
+		</div>
+	);
+
+	const renderActionButton = () => {
+		if (mode === "add") {
+			if (needsApproval0 || needsApproval1) {
+				const token = needsApproval0 ? token0 : token1;
+				return (
+					<button
+						onClick={() => onApprove(token.address, token.symbol, maxApproval)}
+						disabled={isApproving || insufficient0 || insufficient1}
+						className={primaryButtonClassName}
+					>
+						{isApproving ? "Approving..." : `Approve ${token.symbol}`}
+					</button>
+				);
+			}
+			return (
+				<button
+					onClick={() =>
+						onAdd(pool, {
+							amount0,
+							amount1,
+							amount0Min: applySlippage(amount0, slippageBps),
+							amount1Min: applySlippage(amount1, slippageBps),
+						})
+					}
+					disabled={
+						isSubmitting || amount0 === 0n || amount1 === 0n || insufficient0 || insufficient1 || allowances === null
+					}
+					className={primaryButtonClassName}
+				>
+					{insufficient0 || insufficient1
+						? `Insufficient ${insufficient0 ? symbol0 : symbol1} balance`
+						: isSubmitting
+							? "Adding..."
+							: "Add Liquidity"}
+				</button>
+			);
+		}
+
+		if (needsApprovalLP) {
+			return (
+				<button
+					onClick={() => onApprove(pool.pair, "LP token", maxApproval)}
+					disabled={isApproving || liquidity === 0n}
+					className={primaryButtonClassName}
+				>
+					{isApproving ? "Approving..." : "Approve LP token"}
+				</button>
+			);
+		}
+		return (
+			<button
+				onClick={() =>
+					onRemove(pool, {
+						liquidity,
+						amount0Min: applySlippage(out0, slippageBps),
+						amount1Min: applySlippage(out1, slippageBps),
+					})
+				}
+				disabled={isSubmitting || liquidity === 0n || allowances === null}
+				className={primaryButtonClassName}
+			>
+				{isSubmitting ? "Removing..." : "Remove Liquidity"}
+			</button>
+		);
+	};
+
+	return (
+		<div
+			className="fixed inset-0 z-50 flex items-center justify-center p-4"
+			onClick={onCancel}
+		>
+			{/* Backdrop */}
+			<div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+
+			{/* Modal */}
+			<div
+				className="relative bg-[#1a3a2f] border border-solid border-[#23483c] rounded-xl shadow-2xl max-w-md w-full p-6 z-10"
+				onClick={(e) => e.stopPropagation()}
+			>
+				<h3 className="text-white text-xl font-bold mb-4">
+					{mode === "add" ? "Add Liquidity" : "Remove Liquidity"} · {symbol0}/{symbol1}
+				</h3>
+
+				{mode === "add" ? (
+					<>
+						{renderAmountInput(token0, input0, balances?.[0], handleInput0Change)}
+						{renderAmountInput(token1, input1, balances?.[1], handleInput1Change)}
+						{pool.totalSupply === 0n && (
+							<p className="text-yellow-400 text-xs mb-3">
+								This pool is empty: your deposit sets the initial price
+							</p>
+						)}
+					</>
+				) : (
+					<>
+						<p className="text-white/60 text-sm mb-3">
+							Amount to remove: {removePercent}% of {formatAmount(pool.lpBalance, 18)} LP
+						</p>
+						<div className="flex gap-2 mb-4">
+							{REMOVE_PERCENT_OPTIONS.map((percent) => (
+								<button
+									key={percent}
+									onClick={() => setRemovePercent(percent)}
+									className={getOptionButtonClassName(removePercent === percent)}
+								>
+									{percent === 100 ? "MAX" : `${percent}%`}
+								</button>
+							))}
+						</div>
+					</>
+				)}
+
+				<p className="text-white/60 text-sm mb-2">Slippage tolerance</p>
+				<div className="flex gap-2 mb-4">
+					{SLIPPAGE_OPTIONS_BPS.map((bps) => (
+						<button
+							key={bps}
+							onClick={() => setSlippageBps(bps)}
+							className={getOptionButtonClassName(slippageBps === bps)}
+						>
+							{bps / 100}%
+						</button>
+					))}
+				</div>
+
+				<div className="space-y-3 mb-6">
+					{mode === "add" ? (
+						<>
+							<div className="flex items-center justify-between text-sm">
+								<span className="text-white/70">LP tokens received</span>
+								<span className="text-white font-medium">{formatAmount(liquidityMinted, 18)}</span>
+							</div>
+							<div className="flex items-center justify-between text-sm">
+								<span className="text-white/70">Your pool share</span>
+								<span className="text-white font-medium">{shareAfterAdd.toFixed(4)}%</span>
+							</div>
+						</>
+					) : (
+						<>
+							<div className="flex items-center justify-between text-sm">
+								<span className="text-white/70">Receive {symbol0}</span>
+								<span className="text-white font-medium">{formatAmount(out0, token0.decimals)}</span>
+							</div>
+							<div className="flex items-center justify-between text-sm">
+								<span className="text-white/70">Receive {symbol1}</span>
+								<span className="text-white font-medium">{formatAmount(out1, token1.decimals)}</span>
+							</div>
+						</>
+					)}
+				</div>
+
+				{/* Buttons */}
+				<div className="flex gap-3 justify-end">
+					<button
+						onClick={onCancel}
+						className="px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium"
+					>
+						Close
+					</button>
+					{renderActionButton()}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -76,6 +76,12 @@ export const NavBar: React.FC = () => {
 					>
 						Swap
 					</button>
+					<button
+						onClick={() => navigate("/pools")}
+						className={getNavButtonClasses("/pools")}
+					>
+						Pools
+					</button>
 					<button
 						onClick={() => navigate("/scanner")}
 						className={getNavButtonClasses("/scanner")}
@@ -88,6 +94,18 @@ export const NavBar: React.FC = () => {
 					>
 						DCA
 					</button>
+					<button
+						onClick={() => navigate("/portfolio")}
+						className={getNavButtonClasses("/portfolio")}
+					>
+						Portfolio
+					</button>
+					<button
+						onClick={() => navigate("/zakat")}
+						className={getNavButtonClasses("/zakat")}
+					>
+						Zakat
+					</button>
 					<button
 						onClick={() => navigate("/about")}
 						className={getNavButtonClasses("/about")}
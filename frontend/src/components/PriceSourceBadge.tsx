@@ -0,0 +1,34 @@
+import { PRICE_SOURCE_LABELS } from "../config/prices";
+import type { PriceSource } from "../types";
+
+interface PriceSourceBadgeProps {
+	source: PriceSource | undefined;
+	className?: string;
+}
+
+const SOURCE_TITLES: Record<PriceSource, string> = {
+	"pool-twap": "Time-weighted average of the token's USDC pool over the last hour",
+	"pool-spot": "Current reserves of the token's USDC pool",
+	coingecko: "Market price from CoinGecko",
+	fixture: "Static fixture price",
+};
+
+// Small label showing where a USD price came from
+export function PriceSourceBadge({ source, className = "" }: PriceSourceBadgeProps) {
+	if (!source) return null;
+
+	const colorClassName = source.startsWith("pool-")
+		? "bg-primary/15 text-primary"
+		: source === "coingecko"
+			? "bg-blue-500/15 text-blue-400"
+			: "bg-yellow-500/15 text-yellow-400";
+
+	return (
+		<span
+			className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${colorClassName} ${className}`}
+			title={SOURCE_TITLES[source]}
+		>
+			{PRICE_SOURCE_LABELS[source]}
+		</span>
+	);
+}
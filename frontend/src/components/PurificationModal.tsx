@@ -0,0 +1,363 @@
+import { useEffect, useState } from "react";
+import { formatUnits } from "viem";
+import { usePurification } from "../hooks/usePurification";
+import type { PurificationStatus } from "../hooks/usePurification";
+import type { ScannedToken } from "../hooks/useWalletTokenScanner";
+import type { PurificationRecord } from "../utils/purification";
+import { CryptoTokenIcon } from "./CryptoTokenIcon";
+
+interface PurificationModalProps {
+	tokens: ScannedToken[]; // Non-compliant holdings from the scanner
+	onRecord: (record: PurificationRecord) => void;
+	onClose: (swapped: boolean) => void;
+}
+
+const SLIPPAGE_PRESETS_BPS = [50, 100, 200];
+
+const STATUS_LABELS: Record<PurificationStatus, { label: string; className: string }> = {
+	pending: { label: "Ready", className: "text-white/60" },
+	approving: { label: "Approving...", className: "text-yellow-400" },
+	swapping: { label: "Swapping...", className: "text-yellow-400" },
+	done: { label: "Swapped", className: "text-green-400" },
+	failed: { label: "Failed", className: "text-red-400" },
+	skipped: { label: "Skipped", className: "text-white/40" },
+};
+
+const inputClassName =
+	"w-full bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+const formatAmount = (amount: bigint, decimals: number) =>
+	parseFloat(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+// Review, run and record a purification: non-compliant holdings into one compliant token
+export function PurificationModal({ tokens, onRecord, onClose }: PurificationModalProps) {
+	const {
+		targets,
+		target,
+		targetPrice,
+		legs,
+		legGain,
+		summary,
+		quote,
+		execute,
+		reset,
+		isQuoting,
+		isRunning,
+		portfolioLoading,
+	} = usePurification(tokens);
+
+	const [targetAddress, setTargetAddress] = useState("");
+	const [slippageBps, setSlippageBps] = useState(100);
+	const [runError, setRunError] = useState<string | null>(null);
+	const [hasRun, setHasRun] = useState(false);
+	const [recorded, setRecorded] = useState(false);
+	const [donation, setDonation] = useState("");
+	const [recipient, setRecipient] = useState("");
+	const [donationTxHash, setDonationTxHash] = useState("");
+	const [note, setNote] = useState("");
+
+	const selectedTarget = targets.find((coin) => coin.address === targetAddress) ?? targets[0];
+	const swappable = legs.filter((leg) => leg.status === "pending").length;
+	const isFinished = hasRun && !isRunning;
+
+	// Suggest the computed donation once the swaps are done
+	useEffect(() => {
+		if (isFinished && summary.donation !== null) {
+			setDonation(summary.donation.toFixed(Math.min(target?.decimals ?? 6, 6)));
+		}
+	}, [isFinished, summary.donation, target?.decimals]);
+
+	// Handle ESC key to close (not while transactions are in flight)
+	useEffect(() => {
+		const handleEscape = (e: KeyboardEvent) => {
+			if (e.key === "Escape" && !isRunning) onClose(summary.completed > 0);
+		};
+		document.addEventListener("keydown", handleEscape);
+		return () => document.removeEventListener("keydown", handleEscape);
+	}, [isRunning, onClose, summary.completed]);
+
+	const handleRun = async () => {
+		setRunError(null);
+		setHasRun(true);
+		try {
+			await execute();
+		} catch (err) {
+			// Network checks fail before any swap, so the run can be retried
+			setRunError(err instanceof Error ? err.message : "Purification failed");
+			setHasRun(false);
+		}
+	};
+
+	const handleRecord = () => {
+		if (!target) return;
+		onRecord({
+			id: `${Date.now()}`,
+			recordedAt: Date.now(),
+			targetSymbol: target.symbol,
+			targetAddress: target.address,
+			swaps: legs
+				.filter((leg) => leg.status === "done" && leg.txHash)
+				.map((leg) => ({
+					symbol: leg.token.symbol,
+					address: leg.token.address,
+					amountIn: formatUnits(leg.amountIn, leg.token.decimals),
+					amountOut: formatUnits(leg.received ?? 0n, target.decimals),
+					txHash: leg.txHash ?? "",
+				})),
+			gainUsd: summary.gainUsd,
+			donationAmount: donation.trim() || "0",
+			recipient: recipient.trim(),
+			donationTxHash: donationTxHash.trim(),
+			note: note.trim(),
+		});
+		setRecorded(true);
+	};
+
+	const close = () => {
+		if (!isRunning) onClose(summary.completed > 0);
+	};
+
+	return (
+		<div className='fixed inset-0 z-50 flex items-center justify-center p-4' onClick={close}>
+			{/* Backdrop */}
+			<div className='absolute inset-0 bg-black/60 backdrop-blur-sm' />
+
+			{/* Modal */}
+			<div
+				className='relative bg-[#1a3a2f] border border-solid border-[#23483c] rounded-xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto p-6 z-10 space-y-4'
+				onClick={(e) => e.stopPropagation()}
+			>
+				<div>
+					<h3 className='text-white text-xl font-bold'>Purify portfolio</h3>
+					<p className='text-white/60 text-sm'>
+						Swap your non-compliant holdings into a compliant token, then donate the impermissible gains.
+					</p>
+				</div>
+
+				{/* Target and slippage */}
+				{legs.length === 0 && (
+					<div className='space-y-3'>
+						<div>
+							<p className='text-white/60 text-sm mb-1'>Convert into</p>
+							<select
+								value={selectedTarget?.address ?? ""}
+								onChange={(e) => setTargetAddress(e.target.value)}
+								className={inputClassName}
+							>
+								{targets.map((coin) => (
+									<option key={coin.address} value={coin.address}>
+										{coin.symbol}
+									</option>
+								))}
+							</select>
+						</div>
+						<div>
+							<p className='text-white/60 text-sm mb-1'>Slippage tolerance</p>
+							<div className='flex gap-2'>
+								{SLIPPAGE_PRESETS_BPS.map((bps) => (
+									<button
+										key={bps}
+										onClick={() => setSlippageBps(bps)}
+										className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+											slippageBps === bps
+												? "bg-primary text-background-dark"
+												: "bg-[#23483c] text-white hover:bg-[#2c5a4b]"
+										}`}
+									>
+										{bps / 100}%
+									</button>
+								))}
+							</div>
+						</div>
+						<p className='text-white/50 text-xs'>
+							{tokens.length} non-compliant {tokens.length === 1 ? "holding" : "holdings"}:{" "}
+							{tokens.map((token) => token.symbol).join(", ")}
+						</p>
+					</div>
+				)}
+
+				{/* Combined review and progress */}
+				{legs.length > 0 && target && (
+					<div className='space-y-3'>
+						<div className='space-y-2'>
+							{legs.map((leg) => {
+								const gain = legGain(leg);
+								const status = STATUS_LABELS[leg.status];
+								return (
+									<div key={leg.token.address} className='bg-[#23483c]/50 rounded-lg p-3'>
+										<div className='flex items-center justify-between gap-3'>
+											<div className='flex items-center gap-2 min-w-0'>
+												<CryptoTokenIcon symbol={leg.token.symbol} className='w-6 h-6' />
+												<div className='min-w-0'>
+													<p className='text-white text-sm font-medium'>
+														{formatAmount(leg.amountIn, leg.token.decimals)} {leg.token.symbol}
+														{leg.route && (
+															<>
+																{" → "}
+																{formatAmount(leg.received ?? leg.route.amountOut, target.decimals)}{" "}
+																{target.symbol}
+															</>
+														)}
+													</p>
+													<p className='text-white/50 text-xs truncate'>
+														{leg.route ? leg.route.symbols.join(" → ") : leg.error}
+													</p>
+												</div>
+											</div>
+											<span className={`text-xs font-semibold whitespace-nowrap ${status.className}`}>
+												{status.label}
+											</span>
+										</div>
+										{leg.route && (
+											<div className='flex justify-between text-xs text-white/50 mt-2'>
+												<span>
+													Min. received {formatAmount(leg.minAmountOut, target.decimals)} {target.symbol}
+												</span>
+												{gain && <span>Gain ≈ ${gain.gainUsd.toFixed(2)}</span>}
+											</div>
+										)}
+										{leg.status === "failed" && leg.error && (
+											<p className='text-red-400 text-xs mt-2'>{leg.error}</p>
+										)}
+									</div>
+								);
+							})}
+						</div>
+
+						<div className='space-y-2 text-sm border-t border-[#23483c] pt-3'>
+							<div className='flex justify-between'>
+								<span className='text-white/70'>{isFinished ? "Received" : "Expected"}</span>
+								<span className='text-white font-medium'>
+									{formatAmount(summary.proceeds, target.decimals)} {target.symbol}
+								</span>
+							</div>
+							<div className='flex justify-between'>
+								<span className='text-white/70'>Impermissible gains</span>
+								<span className='text-white font-medium'>
+									{portfolioLoading
+										? "Loading history..."
+										: summary.gainUsd === null
+											? `No ${target.symbol} price`
+											: `$${summary.gainUsd.toFixed(2)}`}
+								</span>
+							</div>
+							{summary.donation !== null && (
+								<div className='flex justify-between'>
+									<span className='text-white/70'>To donate</span>
+									<span className='text-primary font-semibold'>
+										{summary.donation.toLocaleString(undefined, { maximumFractionDigits: 6 })} {target.symbol}
+									</span>
+								</div>
+							)}
+							{summary.uncosted && (
+								<p className='text-yellow-400 text-xs'>
+									Part of these holdings has no purchase history here (e.g. transferred in), so its whole
+									value counts as gain. Lower the donation if you paid for it elsewhere.
+								</p>
+							)}
+							{targetPrice > 0 && (
+								<p className='text-white/40 text-xs'>
+									Valued at ${targetPrice.toLocaleString(undefined, { maximumFractionDigits: 4 })} per{" "}
+									{target.symbol}
+								</p>
+							)}
+						</div>
+					</div>
+				)}
+
+				{runError && <p className='text-red-400 text-sm'>{runError}</p>}
+
+				{/* Record the donation */}
+				{isFinished && summary.completed > 0 && target && (
+					<div className='space-y-3 border-t border-[#23483c] pt-4'>
+						<p className='text-white font-semibold'>Record your donation</p>
+						{recorded ? (
+							<p className='text-green-400 text-sm'>Donation recorded.</p>
+						) : (
+							<>
+								<div className='grid grid-cols-1 sm:grid-cols-2 gap-3'>
+									<input
+										type='number'
+										min='0'
+										step='any'
+										placeholder={`Amount (${target.symbol})`}
+										value={donation}
+										onChange={(e) => setDonation(e.target.value)}
+										className={inputClassName}
+									/>
+									<input
+										type='text'
+										placeholder='Charity or recipient'
+										value={recipient}
+										onChange={(e) => setRecipient(e.target.value)}
+										className={inputClassName}
+									/>
+								</div>
+								<input
+									type='text'
+									placeholder='Donation transaction hash (optional)'
+									value={donationTxHash}
+									onChange={(e) => setDonationTxHash(e.target.value)}
+									className={`${inputClassName} font-mono`}
+								/>
+								<input
+									type='text'
+									placeholder='Note (optional)'
+									value={note}
+									onChange={(e) => setNote(e.target.value)}
+									className={inputClassName}
+								/>
+							</>
+						)}
+					</div>
+				)}
+
+				{/* Buttons */}
+				<div className='flex gap-3 justify-end'>
+					{legs.length > 0 && !hasRun && (
+						<button
+							onClick={reset}
+							className='px-4 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors text-sm font-medium'
+						>
+							Back
+						</button>
+					)}
+					<button
+						onClick={close}
+						disabled={isRunning}
+						className='px-4 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors text-sm font-medium disabled:opacity-50'
+					>
+						{isFinished ? "Close" : "Cancel"}
+					</button>
+					{legs.length === 0 && (
+						<button
+							onClick={() => selectedTarget && quote(selectedTarget, slippageBps)}
+							disabled={!selectedTarget || isQuoting}
+							className='px-4 py-2.5 rounded-lg bg-primary text-background-dark hover:opacity-90 transition-opacity text-sm font-bold disabled:opacity-50'
+						>
+							{isQuoting ? "Quoting..." : "Review swaps"}
+						</button>
+					)}
+					{legs.length > 0 && !hasRun && (
+						<button
+							onClick={handleRun}
+							disabled={swappable === 0}
+							className='px-4 py-2.5 rounded-lg bg-primary text-background-dark hover:opacity-90 transition-opacity text-sm font-bold disabled:opacity-50'
+						>
+							Purify {swappable} {swappable === 1 ? "holding" : "holdings"}
+						</button>
+					)}
+					{isFinished && summary.completed > 0 && !recorded && (
+						<button
+							onClick={handleRecord}
+							disabled={!recipient.trim()}
+							className='px-4 py-2.5 rounded-lg bg-primary text-background-dark hover:opacity-90 transition-opacity text-sm font-bold disabled:opacity-50'
+						>
+							Record donation
+						</button>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -1,14 +1,8 @@
 import { useMemo } from "react";
 import { formatUnits } from "viem";
-import { useAccount, useReadContract } from "wagmi";
-import { ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-import type { Address } from "viem";
-import type { SwapRecord, Token } from "../types";
-
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
+import { useAccount } from "wagmi";
+import type { Token } from "../types";
+import { useSwapHistory } from "../hooks/useIndexer";
 
 const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
 
@@ -20,20 +14,10 @@ interface RecentTransactionsProps {
 export function RecentTransactions({ tokens, maxItems = 5 }: RecentTransactionsProps) {
 	const { address } = useAccount();
 
-	// Fetch swap history from contract
-	const { data: swapHistory, isLoading } = useReadContract({
-		address: SHARIA_SWAP_ADDRESS,
-		abi: ShariaSwapABI,
-		functionName: "getUserSwapHistory",
-		args: [address!],
-		query: {
-			enabled: !!address,
-			refetchInterval: 30000, // Refetch every 30 seconds for recent tx updates
-		},
-	}) as {
-		data: SwapRecord[] | undefined;
-		isLoading: boolean;
-	};
+	// Fetch swap history (indexer when configured, otherwise the contract)
+	const { data: swapHistory, isLoading } = useSwapHistory(address, {
+		refetchInterval: 30000, // Refetch every 30 seconds for recent tx updates
+	});
 
 	// Filter and format recent transactions (last 24 hours)
 	const recentSwaps = useMemo(() => {
@@ -0,0 +1,92 @@
+import type { Address } from "viem";
+import type { PendingReviewRequest } from "../hooks/useReviewRequests";
+
+interface ReviewRequestsPanelProps {
+	requests: PendingReviewRequest[];
+	isLoading: boolean;
+	canRegister: boolean;
+	canDismiss: boolean;
+	isBusy: boolean;
+	onReview: (token: Address) => void;
+	onDismiss: (request: PendingReviewRequest) => void;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+// Unregistered tokens holders asked to have screened (from the Sharia scanner)
+export function ReviewRequestsPanel({
+	requests,
+	isLoading,
+	canRegister,
+	canDismiss,
+	isBusy,
+	onReview,
+	onDismiss,
+}: ReviewRequestsPanelProps) {
+	return (
+		<section className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg overflow-x-auto'>
+			<div className='p-4 pb-2'>
+				<h2 className='text-white font-semibold'>Review requests</h2>
+				<p className='text-white/60 text-sm'>
+					Registering a requested token closes its request; dismiss it to reject without registering.
+				</p>
+			</div>
+			{isLoading ? (
+				<p className='text-primary text-center py-8'>Loading review requests...</p>
+			) : (
+				<table className='w-full text-sm'>
+					<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+						<tr>
+							<th className='text-left py-3 px-4 font-medium'>Token</th>
+							<th className='text-left py-3 px-4 font-medium'>Note</th>
+							<th className='text-left py-3 px-4 font-medium'>Requested</th>
+							<th className='text-right py-3 px-4 font-medium'>Actions</th>
+						</tr>
+					</thead>
+					<tbody>
+						{requests.map((request) => (
+							<tr key={request.token} className='border-t border-[#23483c]/50 align-top'>
+								<td className='py-3 px-4'>
+									<p className='text-white font-medium'>{request.symbol || "Unknown"}</p>
+									<p className='text-white/50 text-xs'>{request.name}</p>
+									<p className='text-white/40 text-xs font-mono' title={request.token}>
+										{shortAddress(request.token)}
+									</p>
+								</td>
+								<td className='py-3 px-4 text-white/80 max-w-xs break-words'>{request.note || "—"}</td>
+								<td className='py-3 px-4 text-white/70 whitespace-nowrap'>
+									<p>{new Date(Number(request.requestedAt) * 1000).toLocaleDateString()}</p>
+									<p className='text-white/40 text-xs' title={request.requester}>
+										by {shortAddress(request.requester)}
+									</p>
+								</td>
+								<td className='py-3 px-4'>
+									<div className='flex gap-2 justify-end whitespace-nowrap'>
+										{canRegister && (
+											<button
+												onClick={() => onReview(request.token)}
+												disabled={isBusy}
+												className='px-3 py-1.5 rounded-lg bg-primary/20 text-primary hover:bg-primary hover:text-background-dark text-xs font-semibold transition-colors disabled:opacity-50'
+											>
+												Review
+											</button>
+										)}
+										{canDismiss && (
+											<button
+												onClick={() => onDismiss(request)}
+												disabled={isBusy}
+												className='px-3 py-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-xs font-semibold transition-colors disabled:opacity-50'
+											>
+												Dismiss
+											</button>
+										)}
+									</div>
+								</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</section>
+	);
+}
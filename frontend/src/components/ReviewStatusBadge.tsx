@@ -0,0 +1,33 @@
+import { formatReviewDate, getReviewStatus } from "../utils/complianceScreening";
+import type { CoinScreening, ReviewStatus } from "../utils/complianceScreening";
+
+interface ReviewStatusBadgeProps {
+	screening: CoinScreening | null | undefined;
+	className?: string;
+}
+
+const STATUS_STYLES: Record<ReviewStatus, { label: string; className: string }> = {
+	unreviewed: { label: "No review on record", className: "bg-white/10 text-white/60" },
+	current: { label: "Reviewed", className: "bg-primary/15 text-primary" },
+	"due-soon": { label: "Re-review due soon", className: "bg-yellow-500/15 text-yellow-400" },
+	overdue: { label: "Review overdue", className: "bg-red-500/15 text-red-400" },
+};
+
+// Small label showing whether a coin's Sharia review is still within its due date
+export function ReviewStatusBadge({ screening, className = "" }: ReviewStatusBadgeProps) {
+	const status = getReviewStatus(screening);
+	const title = screening?.reviewDueAt
+		? `Re-review due ${formatReviewDate(screening.reviewDueAt)}`
+		: screening?.reviewedAt
+			? `Reviewed ${formatReviewDate(screening.reviewedAt)}, no re-review date set`
+			: "No structured screening recorded on-chain";
+
+	return (
+		<span
+			className={`inline-block px-2 py-0.5 rounded-full text-[10px] font-semibold uppercase tracking-wide ${STATUS_STYLES[status].className} ${className}`}
+			title={title}
+		>
+			{STATUS_STYLES[status].label}
+		</span>
+	);
+}
@@ -0,0 +1,42 @@
+import { ReviewStatusBadge } from "./ReviewStatusBadge";
+import { CATEGORY_LABELS, formatReviewDate } from "../utils/complianceScreening";
+import type { CoinScreening } from "../utils/complianceScreening";
+
+interface ScreeningDetailsProps {
+	screening: CoinScreening | null | undefined;
+}
+
+// Structured Sharia screening of a coin as recorded in ShariaCompliance
+export function ScreeningDetails({ screening }: ScreeningDetailsProps) {
+	if (!screening) {
+		return (
+			<div className="flex items-center gap-2">
+				<ReviewStatusBadge screening={screening} />
+				<span className="text-white/50 text-xs">Only the compliance reason is recorded for this coin</span>
+			</div>
+		);
+	}
+
+	const rows: { label: string; value: string; mono?: boolean }[] = [
+		{ label: "Category", value: CATEGORY_LABELS[screening.category] },
+		{ label: "Methodology", value: screening.methodology || "—" },
+		{ label: "Reviewed by", value: screening.reviewer || "—" },
+		{ label: "Reviewed", value: formatReviewDate(screening.reviewedAt) },
+		{ label: "Re-review due", value: formatReviewDate(screening.reviewDueAt) },
+		{ label: "Document hash", value: screening.documentHash ?? "—", mono: true },
+	];
+
+	return (
+		<div className="space-y-2">
+			<ReviewStatusBadge screening={screening} />
+			<dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+				{rows.map((row) => (
+					<div key={row.label} className="contents">
+						<dt className="text-white/50">{row.label}</dt>
+						<dd className={`text-white/90 break-all ${row.mono ? "font-mono text-xs" : ""}`}>{row.value}</dd>
+					</div>
+				))}
+			</dl>
+		</div>
+	);
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
-import type { SwapConfirmationData } from "../types";
+import type { PriceSource, SwapConfirmationData } from "../types";
 import { CryptoTokenIcon } from "./CryptoTokenIcon";
+import { PriceSourceBadge } from "./PriceSourceBadge";
 
 interface SwapConfirmationModalProps {
 	data: SwapConfirmationData;
@@ -32,11 +33,19 @@ export function SwapConfirmationModal({
 		tokenOut,
 		amountIn,
 		amountOut,
+		amountInUsd,
+		amountOutUsd,
+		amountInUsdSource,
+		amountOutUsdSource,
 		exchangeRate,
 		fee,
 		slippageTolerance,
 		minAmountOut,
+		route,
+		exactOutput,
+		maxAmountIn,
 	} = data;
+	const hops = route ? route.length - 1 : 1;
 
 	// Calculate reversed rate
 	const rateValue = parseFloat(exchangeRate);
@@ -45,6 +54,15 @@ export function SwapConfirmationModal({
 	const displayTokenIn = isRateReversed ? tokenOut : tokenIn;
 	const displayTokenOut = isRateReversed ? tokenIn : tokenOut;
 
+	// USD value with its price source (hidden when no provider priced the token)
+	const renderUsdValue = (usd: number | undefined, source: PriceSource | undefined) =>
+		usd !== undefined && source ? (
+			<div className='flex items-center gap-2 text-white/50 text-xs mt-0.5'>
+				<span>≈ ${usd.toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+				<PriceSourceBadge source={source} />
+			</div>
+		) : null;
+
 	return (
 		<>
 			{/* Overlay */}
@@ -76,6 +94,7 @@ export function SwapConfirmationModal({
 							<div>
 								<div className='text-white text-2xl font-bold'>{amountIn}</div>
 								<div className='text-white/60 text-sm'>{tokenIn.symbol}</div>
+								{renderUsdValue(amountInUsd, amountInUsdSource)}
 							</div>
 					</div>
 
@@ -99,6 +118,7 @@ export function SwapConfirmationModal({
 							<div>
 								<div className='text-white text-2xl font-bold'>{amountOut}</div>
 								<div className='text-white/60 text-sm'>{tokenOut.symbol}</div>
+								{renderUsdValue(amountOutUsd, amountOutUsdSource)}
 							</div>
 					</div>
 
@@ -126,9 +146,19 @@ export function SwapConfirmationModal({
 						</div>
 					</div>
 
+						{/* Route */}
+						{route && (
+							<div className='flex items-center justify-between text-sm'>
+								<span className='text-white/70'>Route</span>
+								<span className='text-white font-medium'>{route.join(" → ")}</span>
+							</div>
+						)}
+
 						{/* Fee */}
 						<div className='flex items-center justify-between text-sm'>
-							<span className='text-white/70'>Fee (0.3%)</span>
+							<span className='text-white/70'>
+								Fee (0.3%{hops > 1 ? ` × ${hops} hops` : ""})
+							</span>
 							<span className='text-white font-medium'>{fee}</span>
 						</div>
 					</div>
@@ -151,13 +181,22 @@ export function SwapConfirmationModal({
 					{/* Additional Details */}
 					{showMore && (
 						<div className='space-y-3 mt-3 pt-3 border-t border-white/10'>
-							{/* Min Received */}
-							<div className='flex items-center justify-between text-sm'>
-									<span className='text-white/70'>Minimum received</span>
-								<span className='text-white font-medium'>
-									{minAmountOut} {tokenOut.symbol}
-								</span>
-							</div>
+							{/* Min Received (exact output: max sold) */}
+							{exactOutput ? (
+								<div className='flex items-center justify-between text-sm'>
+									<span className='text-white/70'>Maximum sold</span>
+									<span className='text-white font-medium'>
+										{maxAmountIn} {tokenIn.symbol}
+									</span>
+								</div>
+							) : (
+								<div className='flex items-center justify-between text-sm'>
+										<span className='text-white/70'>Minimum received</span>
+									<span className='text-white font-medium'>
+										{minAmountOut} {tokenOut.symbol}
+									</span>
+								</div>
+							)}
 
 							{/* Slippage */}
 							<div className='flex items-center justify-between text-sm'>
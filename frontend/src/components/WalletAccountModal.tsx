@@ -1,24 +1,20 @@
 import { useEffect, useMemo, useState } from "react";
 import { FaExternalLinkAlt, FaCopy, FaCheck, FaWallet } from "react-icons/fa";
 import { formatUnits } from "viem";
-import { useAccount, useReadContract, useBlockNumber } from "wagmi";
-import { ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { useAccount, useBlockNumber } from "wagmi";
 import tayebCoinsData from "../../../config/tayebCoins.json";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
 import { useWallet } from "../hooks/useWallet";
-import type { Address } from "viem";
-import type { SwapRecord, Token } from "../types";
+import { useTokenPrices } from "../hooks/useTokenPrices";
+import { useSwapHistory } from "../hooks/useIndexer";
+import { PriceSourceBadge } from "./PriceSourceBadge";
+import type { Token } from "../types";
 
 interface WalletAccountModalProps {
 	isOpen: boolean;
 	onClose: () => void;
 }
 
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
-
 const TWENTY_FOUR_HOURS_MS = 24 * 60 * 60 * 1000;
 
 export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps) {
@@ -57,21 +53,14 @@ export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps)
 		});
 	}, [coins]);
 
-	// Fetch swap history from contract
-	const { data: swapHistory, isLoading: swapHistoryLoading, refetch: refetchSwapHistory } = useReadContract({
-		address: SHARIA_SWAP_ADDRESS,
-		abi: ShariaSwapABI,
-		functionName: "getUserSwapHistory",
-		args: [accountAddress!],
-		query: {
-			enabled: !!accountAddress && isOpen,
+	// Fetch swap history (indexer when configured, otherwise the contract)
+	const { data: swapHistory, isLoading: swapHistoryLoading, refetch: refetchSwapHistory } = useSwapHistory(
+		accountAddress,
+		{
+			enabled: isOpen,
 			refetchInterval: 5000, // Refetch every 5 seconds for near real-time updates
-		},
-	}) as {
-		data: SwapRecord[] | undefined;
-		isLoading: boolean;
-		refetch: () => void;
-	};
+		}
+	);
 
 	// Watch for new blocks to refetch swap history when transactions are confirmed
 	const { data: blockNumber } = useBlockNumber({
@@ -108,6 +97,13 @@ export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps)
 			.slice(0, 1); // Limit to only the most recent transaction
 	}, [swapHistory]);
 
+	// USD value of what the recent swaps received
+	const receivedSymbols = useMemo(
+		() => recentSwaps.map((swap) => swap.tokenOutSymbol).filter(Boolean),
+		[recentSwaps]
+	);
+	const { calculateUsdValue, getSource } = useTokenPrices(receivedSymbols);
+
 	// Handle ESC key to close
 	useEffect(() => {
 		if (!isOpen) return;
@@ -372,6 +368,18 @@ export function WalletAccountModal({ isOpen, onClose }: WalletAccountModalProps)
 												)}
 											</span>
 										</div>
+										{getSource(tokenOutSymbol) && (
+											<div className="flex items-center justify-end gap-2 mt-1 text-xs text-white/40">
+												<span>
+													≈ $
+													{calculateUsdValue(
+														tokenOutSymbol,
+														parseFloat(formatUnits(swap.amountOut, tokenOut?.decimals || 18))
+													).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+												</span>
+												<PriceSourceBadge source={getSource(tokenOutSymbol)} />
+											</div>
+										)}
 									</div>
 								);
 							})}
@@ -0,0 +1,261 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import type { WatchListScan } from "../hooks/useWatchListScanner";
+import type { ScanStatus, ScanSummary } from "../hooks/useWalletTokenScanner";
+import type { WatchedAddress } from "../utils/watchList";
+
+interface WatchListPanelProps {
+	entries: WatchedAddress[];
+	scans: Record<string, WatchListScan>;
+	aggregate: ScanSummary & { addresses: number; changed: number };
+	isScanning: boolean;
+	progress: { done: number; total: number };
+	canScan: boolean;
+	onAdd: (address: string, label: string) => void;
+	onRemove: (address: string) => void;
+	onImport: (text: string) => { added: number; updated: number; errors: string[] };
+	onScan: (discoverTokens: boolean) => void;
+}
+
+const STATUS_CLASSES: Record<ScanStatus, string> = {
+	compliant: "bg-green-500/20 text-green-400",
+	"non-compliant": "bg-red-500/20 text-red-400",
+	unknown: "bg-yellow-500/20 text-yellow-400",
+	unreviewed: "bg-blue-500/20 text-blue-400",
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const inputClassName =
+	"h-9 px-3 rounded-lg bg-[#23483c] text-white placeholder:text-[#92c9b7]/50 border border-[#326755] focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent text-xs";
+
+// Saved addresses scanned together, with per-address drill-down and change flags
+export function WatchListPanel({
+	entries,
+	scans,
+	aggregate,
+	isScanning,
+	progress,
+	canScan,
+	onAdd,
+	onRemove,
+	onImport,
+	onScan,
+}: WatchListPanelProps) {
+	const [address, setAddress] = useState("");
+	const [label, setLabel] = useState("");
+	const [formError, setFormError] = useState<string | null>(null);
+	const [importResult, setImportResult] = useState<string | null>(null);
+	const [discoverTokens, setDiscoverTokens] = useState(false);
+	const [expanded, setExpanded] = useState<string | null>(null);
+
+	const handleAdd = () => {
+		try {
+			onAdd(address.trim(), label);
+			setAddress("");
+			setLabel("");
+			setFormError(null);
+		} catch (err) {
+			setFormError(err instanceof Error ? err.message : "Couldn't add the address");
+		}
+	};
+
+	const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		const { added, updated, errors } = onImport(await file.text());
+		setImportResult(
+			[`Imported ${added} new, ${updated} updated`, ...errors.slice(0, 5), errors.length > 5 ? `…${errors.length - 5} more` : ""]
+				.filter(Boolean)
+				.join(" · ")
+		);
+	};
+
+	return (
+		<div className='space-y-4'>
+			{/* Add and import */}
+			<div className='bg-[#19332b] border border-[#326755] rounded-lg p-3 space-y-2'>
+				<div className='flex flex-col sm:flex-row gap-2'>
+					<input
+						type='text'
+						value={label}
+						onChange={(e) => setLabel(e.target.value)}
+						placeholder='Label (e.g. Treasury)'
+						className={`sm:w-48 ${inputClassName}`}
+					/>
+					<input
+						type='text'
+						value={address}
+						onChange={(e) => setAddress(e.target.value)}
+						placeholder='0x...'
+						className={`flex-1 font-mono ${inputClassName}`}
+					/>
+					<button
+						onClick={handleAdd}
+						disabled={!address.trim()}
+						className='h-9 rounded-lg px-4 bg-[#23483c] text-white hover:bg-[#2a5243] text-sm font-medium disabled:opacity-50'
+					>
+						Add
+					</button>
+					<label className='h-9 rounded-lg px-4 bg-[#23483c] text-white hover:bg-[#2a5243] text-sm font-medium flex items-center cursor-pointer'>
+						Import CSV
+						<input type='file' accept='.csv,text/csv' onChange={handleImport} className='hidden' />
+					</label>
+				</div>
+				<p className='text-[#92c9b7] text-xs'>CSV columns: address, label (a header row is optional).</p>
+				{formError && <p className='text-red-400 text-xs'>{formError}</p>}
+				{importResult && <p className='text-[#92c9b7] text-xs'>{importResult}</p>}
+			</div>
+
+			{entries.length === 0 ? (
+				<div className='flex items-center justify-center h-40'>
+					<p className='text-[#92c9b7] text-sm'>Add addresses or import a CSV to build your watch list</p>
+				</div>
+			) : (
+				<>
+					{/* Scan controls */}
+					<div className='flex flex-col sm:flex-row sm:items-center justify-between gap-3'>
+						<label className='flex items-center gap-2 text-[#92c9b7] text-xs'>
+							<input
+								type='checkbox'
+								checked={discoverTokens}
+								onChange={(e) => setDiscoverTokens(e.target.checked)}
+							/>
+							Include unregistered tokens (slower: searches each address's Transfer history)
+						</label>
+						<button
+							onClick={() => onScan(discoverTokens)}
+							disabled={isScanning || !canScan}
+							className='h-9 rounded-lg px-4 bg-primary text-background-dark hover:opacity-90 font-bold text-sm flex items-center justify-center gap-2 disabled:opacity-50'
+						>
+							<span className={`material-symbols-outlined text-base ${isScanning ? "animate-spin" : ""}`}>
+								{isScanning ? "sync" : "scanner"}
+							</span>
+							{isScanning ? `Scanning ${progress.done}/${progress.total}...` : `Scan all (${entries.length})`}
+						</button>
+					</div>
+
+					{/* Aggregated summary */}
+					{aggregate.addresses > 0 && (
+						<div className='grid grid-cols-2 lg:grid-cols-6 gap-3'>
+							{[
+								{ label: "Addresses", value: aggregate.addresses },
+								{ label: "Compliant", value: aggregate.compliant },
+								{ label: "Non-Compliant", value: aggregate.nonCompliant },
+								{ label: "Unknown", value: aggregate.unknown },
+								{ label: "Unreviewed", value: aggregate.unreviewed },
+								{ label: "Changed", value: aggregate.changed },
+							].map((card) => (
+								<div key={card.label} className='bg-[#19332b] border border-[#326755] rounded-lg p-3'>
+									<p className='text-[#92c9b7] text-xs font-medium mb-1'>{card.label}</p>
+									<p className='text-white text-xl font-bold'>{card.value}</p>
+								</div>
+							))}
+						</div>
+					)}
+
+					{/* Addresses */}
+					<div className='bg-[#19332b] border border-[#326755] rounded-lg divide-y divide-[#326755]/50'>
+						{entries.map((entry) => {
+							const scan = scans[entry.address];
+							const changed = (entry.changes?.length ?? 0) > 0;
+							const isExpanded = expanded === entry.address;
+							return (
+								<div key={entry.address} className='p-3'>
+									<div className='flex flex-wrap items-center gap-3'>
+										<button
+											onClick={() => setExpanded(isExpanded ? null : entry.address)}
+											className='flex items-center gap-2 flex-1 min-w-0 text-left'
+										>
+											<span className='material-symbols-outlined text-[#92c9b7] text-base'>
+												{isExpanded ? "expand_less" : "expand_more"}
+											</span>
+											<div className='min-w-0'>
+												<p className='text-white text-sm font-medium truncate'>{entry.label || "Unlabelled"}</p>
+												<p className='text-[#92c9b7] text-xs font-mono' title={entry.address}>
+													{shortAddress(entry.address)}
+												</p>
+											</div>
+										</button>
+										{scan && !scan.error && (
+											<div className='flex gap-2 text-xs'>
+												<span className='text-green-400'>{scan.summary.compliant} compliant</span>
+												<span className='text-red-400'>{scan.summary.nonCompliant} non-compliant</span>
+												{scan.summary.unknown > 0 && (
+													<span className='text-yellow-400'>{scan.summary.unknown} unknown</span>
+												)}
+												{scan.summary.unreviewed > 0 && (
+													<span className='text-blue-400'>{scan.summary.unreviewed} unreviewed</span>
+												)}
+											</div>
+										)}
+										{scan?.error && <span className='text-red-400 text-xs'>Scan failed</span>}
+										{changed && (
+											<span className='px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-400 text-xs font-semibold'>
+												Changed
+											</span>
+										)}
+										<span className='text-[#92c9b7] text-xs whitespace-nowrap'>
+											{entry.lastScan
+												? `Scanned ${new Date(entry.lastScan.scannedAt).toLocaleString()}`
+												: "Never scanned"}
+										</span>
+										<button
+											onClick={() => onRemove(entry.address)}
+											disabled={isScanning}
+											title='Remove from watch list'
+											className='text-white/40 hover:text-red-400 disabled:opacity-50'
+										>
+											<span className='material-symbols-outlined text-base'>delete</span>
+										</button>
+									</div>
+
+									{/* Drill-down */}
+									{isExpanded && (
+										<div className='mt-3 pl-7 space-y-2'>
+											{changed && (
+												<div className='p-2 bg-yellow-500/10 border border-yellow-500/30 rounded-lg'>
+													<p className='text-yellow-400 text-xs font-medium mb-1'>Since the previous scan</p>
+													<ul className='text-yellow-400/90 text-xs space-y-0.5'>
+														{entry.changes?.map((change) => <li key={change}>{change}</li>)}
+													</ul>
+												</div>
+											)}
+											{scan?.error && <p className='text-red-400 text-xs'>{scan.error}</p>}
+											{scan?.discoveryWarning && <p className='text-yellow-400 text-xs'>{scan.discoveryWarning}</p>}
+											{!scan ? (
+												<p className='text-[#92c9b7] text-xs'>Not scanned in this session</p>
+											) : scan.tokens.length === 0 && !scan.error ? (
+												<p className='text-[#92c9b7] text-xs'>No tokens with non-zero balances</p>
+											) : (
+												<div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2'>
+													{scan.tokens.map((token) => (
+														<div
+															key={token.address}
+															className='flex items-center justify-between gap-2 bg-[#23483c]/50 rounded-lg px-3 py-2'
+														>
+															<div className='min-w-0'>
+																<p className='text-white text-sm font-medium'>{token.symbol}</p>
+																<p className='text-[#92c9b7] text-xs truncate'>
+																	{parseFloat(token.balance).toLocaleString(undefined, { maximumFractionDigits: 6 })}
+																</p>
+															</div>
+															<span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_CLASSES[token.status]}`}>
+																{token.status}
+															</span>
+														</div>
+													))}
+												</div>
+											)}
+										</div>
+									)}
+								</div>
+							);
+						})}
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
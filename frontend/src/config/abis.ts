@@ -35,6 +35,36 @@ export const ShariaSwapABI = [
 		type: "error",
 		name: "AssetNotRegistered",
 	},
+	{
+		type: "error",
+		name: "PairNotFound",
+		inputs: [
+			{ name: "tokenA", type: "address" },
+			{ name: "tokenB", type: "address" },
+		],
+	},
+	{
+		type: "error",
+		name: "QuoteUnavailable",
+		inputs: [
+			{ name: "tokenIn", type: "address" },
+			{ name: "tokenOut", type: "address" },
+			{ name: "amountOut", type: "uint256" },
+		],
+	},
+	{
+		type: "error",
+		name: "RefundFailed",
+	},
+	{
+		type: "error",
+		name: "NativeTransferFailed",
+	},
+	{
+		type: "error",
+		name: "NotShariaCompliant",
+		inputs: [{ name: "coinId", type: "string" }],
+	},
 	// Functions
 	{
 		type: "function",
@@ -47,6 +77,37 @@ export const ShariaSwapABI = [
 		outputs: [{ name: "", type: "uint256" }],
 		stateMutability: "view",
 	},
+	{
+		type: "function",
+		name: "getSwapQuoteForPath",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountIn", type: "uint256" },
+		],
+		outputs: [{ name: "amountOut", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getSwapQuoteIn",
+		inputs: [
+			{ name: "tokenIn", type: "address" },
+			{ name: "tokenOut", type: "address" },
+			{ name: "amountOut", type: "uint256" },
+		],
+		outputs: [{ name: "amountIn", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getSwapQuoteInForPath",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountOut", type: "uint256" },
+		],
+		outputs: [{ name: "amountIn", type: "uint256" }],
+		stateMutability: "view",
+	},
 	{
 		type: "function",
 		name: "swapTokenForToken",
@@ -84,6 +145,76 @@ export const ShariaSwapABI = [
 		outputs: [{ name: "amountOut", type: "uint256" }],
 		stateMutability: "nonpayable",
 	},
+	{
+		type: "function",
+		name: "swapShariaCompliantWithPath",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountIn", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountOut", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "swapGLMRForTokenWithPath",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "minAmountOut", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountOut", type: "uint256" }],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "swapShariaCompliantExactOutput",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountOut", type: "uint256" },
+			{ name: "amountInMax", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountIn", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "swapGLMRForExactTokens",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountOut", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountIn", type: "uint256" }],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "swapTokenForGLMR",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountIn", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountOut", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "swapTokenForExactGLMR",
+		inputs: [
+			{ name: "path", type: "address[]" },
+			{ name: "amountOut", type: "uint256" },
+			{ name: "amountInMax", type: "uint256" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [{ name: "amountIn", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
 	{
 		type: "function",
 		name: "getUserSwapHistory",
@@ -194,141 +325,160 @@ export const ShariaComplianceABI = [
 		],
 		stateMutability: "view",
 	},
-] as const;
-
-export const ERC20_ABI = [
 	{
 		type: "function",
-		name: "approve",
-		inputs: [
-			{ name: "spender", type: "address" },
-			{ name: "amount", type: "uint256" },
-		],
-		outputs: [{ name: "", type: "bool" }],
-		stateMutability: "nonpayable",
+		name: "owner",
+		inputs: [],
+		outputs: [{ name: "", type: "address" }],
+		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "allowance",
+		name: "registerShariaCoin",
 		inputs: [
-			{ name: "owner", type: "address" },
-			{ name: "spender", type: "address" },
+			{ name: "coinId", type: "string" },
+			{ name: "name", type: "string" },
+			{ name: "symbol", type: "string" },
+			{ name: "tokenAddress", type: "address" },
+			{ name: "complianceReason", type: "string" },
 		],
-		outputs: [{ name: "", type: "uint256" }],
-		stateMutability: "view",
+		outputs: [],
+		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "balanceOf",
-		inputs: [{ name: "account", type: "address" }],
-		outputs: [{ name: "", type: "uint256" }],
-		stateMutability: "view",
+		name: "removeShariaCoin",
+		inputs: [{ name: "coinId", type: "string" }],
+		outputs: [],
+		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "transfer",
+		name: "updateComplianceStatus",
 		inputs: [
-			{ name: "to", type: "address" },
-			{ name: "amount", type: "uint256" },
+			{ name: "coinId", type: "string" },
+			{ name: "verified", type: "bool" },
+			{ name: "complianceReason", type: "string" },
 		],
-		outputs: [{ name: "", type: "bool" }],
+		outputs: [],
 		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "transferFrom",
+		name: "getAllComplianceMetadata",
+		inputs: [],
+		outputs: [
+			{
+				name: "",
+				type: "tuple[]",
+				components: [
+					{ name: "category", type: "uint8" },
+					{ name: "methodology", type: "string" },
+					{ name: "reviewer", type: "string" },
+					{ name: "documentHash", type: "bytes32" },
+					{ name: "reviewedAt", type: "uint64" },
+					{ name: "reviewDueAt", type: "uint64" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "setComplianceMetadata",
 		inputs: [
-			{ name: "from", type: "address" },
-			{ name: "to", type: "address" },
-			{ name: "amount", type: "uint256" },
+			{ name: "coinId", type: "string" },
+			{
+				name: "metadata",
+				type: "tuple",
+				components: [
+					{ name: "category", type: "uint8" },
+					{ name: "methodology", type: "string" },
+					{ name: "reviewer", type: "string" },
+					{ name: "documentHash", type: "bytes32" },
+					{ name: "reviewedAt", type: "uint64" },
+					{ name: "reviewDueAt", type: "uint64" },
+				],
+			},
 		],
-		outputs: [{ name: "", type: "bool" }],
+		outputs: [],
 		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "decimals",
+		name: "approvalThreshold",
 		inputs: [],
-		outputs: [{ name: "", type: "uint8" }],
+		outputs: [{ name: "", type: "uint256" }],
 		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "name",
+		name: "reviewerCount",
 		inputs: [],
-		outputs: [{ name: "", type: "string" }],
+		outputs: [{ name: "", type: "uint256" }],
 		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "symbol",
+		name: "timelockDuration",
 		inputs: [],
-		outputs: [{ name: "", type: "string" }],
+		outputs: [{ name: "", type: "uint256" }],
 		stateMutability: "view",
 	},
-] as const;
-
-export const ShariaDCAABI = [
 	{
 		type: "function",
-		name: "createDCAOrderWithDEV",
-		inputs: [
-			{ name: "targetToken", type: "address" },
-			{ name: "amountPerInterval", type: "uint256" },
-			{ name: "intervalSeconds", type: "uint256" },
-			{ name: "totalIntervals", type: "uint256" },
-		],
-		outputs: [{ name: "orderId", type: "uint256" }],
-		stateMutability: "payable",
+		name: "proposalCount",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "createDCAOrderWithToken",
-		inputs: [
-			{ name: "sourceToken", type: "address" },
-			{ name: "targetToken", type: "address" },
-			{ name: "amountPerInterval", type: "uint256" },
-			{ name: "intervalSeconds", type: "uint256" },
-			{ name: "totalIntervals", type: "uint256" },
-		],
-		outputs: [{ name: "orderId", type: "uint256" }],
-		stateMutability: "nonpayable",
+		name: "reviewers",
+		inputs: [{ name: "account", type: "address" }],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "executeDCAOrder",
-		inputs: [{ name: "orderId", type: "uint256" }],
-		outputs: [],
-		stateMutability: "nonpayable",
+		name: "complianceOfficers",
+		inputs: [{ name: "account", type: "address" }],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "cancelDCAOrder",
-		inputs: [{ name: "orderId", type: "uint256" }],
-		outputs: [],
-		stateMutability: "nonpayable",
+		name: "hasApproved",
+		inputs: [
+			{ name: "proposalId", type: "uint256" },
+			{ name: "reviewer", type: "address" },
+		],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "view",
 	},
 	{
 		type: "function",
-		name: "getDCAOrder",
-		inputs: [{ name: "orderId", type: "uint256" }],
+		name: "getProposals",
+		inputs: [
+			{ name: "fromId", type: "uint256" },
+			{ name: "count", type: "uint256" },
+		],
 		outputs: [
 			{
 				name: "",
-				type: "tuple",
+				type: "tuple[]",
 				components: [
 					{ name: "id", type: "uint256" },
-					{ name: "owner", type: "address" },
-					{ name: "sourceToken", type: "address" },
-					{ name: "targetToken", type: "address" },
-					{ name: "amountPerInterval", type: "uint256" },
-					{ name: "interval", type: "uint256" },
-					{ name: "intervalsCompleted", type: "uint256" },
-					{ name: "totalIntervals", type: "uint256" },
-					{ name: "nextExecutionTime", type: "uint256" },
-					{ name: "startTime", type: "uint256" },
-					{ name: "isActive", type: "bool" },
-					{ name: "exists", type: "bool" },
+					{ name: "coinId", type: "string" },
+					{ name: "verified", type: "bool" },
+					{ name: "complianceReason", type: "string" },
+					{ name: "evidence", type: "string" },
+					{ name: "proposer", type: "address" },
+					{ name: "createdAt", type: "uint64" },
+					{ name: "executableAt", type: "uint64" },
+					{ name: "approvals", type: "uint32" },
+					{ name: "executed", type: "bool" },
+					{ name: "cancelled", type: "bool" },
 				],
 			},
 		],
@@ -336,41 +486,627 @@ export const ShariaDCAABI = [
 	},
 	{
 		type: "function",
-		name: "getUserOrders",
-		inputs: [{ name: "user", type: "address" }],
-		outputs: [{ name: "", type: "uint256[]" }],
-		stateMutability: "view",
+		name: "proposeStatusChange",
+		inputs: [
+			{ name: "coinId", type: "string" },
+			{ name: "verified", type: "bool" },
+			{ name: "complianceReason", type: "string" },
+			{ name: "evidence", type: "string" },
+		],
+		outputs: [{ name: "proposalId", type: "uint256" }],
+		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "blockTime",
-		inputs: [],
-		outputs: [{ name: "", type: "uint256" }],
-		stateMutability: "view",
+		name: "approveProposal",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
 	},
 	{
 		type: "function",
-		name: "blocksBeforeHour",
-		inputs: [],
-		outputs: [{ name: "", type: "uint256" }],
-		stateMutability: "view",
+		name: "executeProposal",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
 	},
 	{
-		type: "event",
-		name: "DCAOrderCreated",
+		type: "function",
+		name: "cancelProposal",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "setReviewer",
 		inputs: [
-			{ name: "orderId", type: "uint256", indexed: true },
-			{ name: "owner", type: "address", indexed: true },
-			{ name: "sourceToken", type: "address", indexed: false },
-			{ name: "targetToken", type: "address", indexed: false },
-			{ name: "amountPerInterval", type: "uint256", indexed: false },
-			{ name: "interval", type: "uint256", indexed: false },
-			{ name: "totalIntervals", type: "uint256", indexed: false },
+			{ name: "account", type: "address" },
+			{ name: "enabled", type: "bool" },
 		],
+		outputs: [],
+		stateMutability: "nonpayable",
 	},
 	{
-		type: "event",
-		name: "DCAOrderExecuted",
+		type: "function",
+		name: "setComplianceOfficer",
+		inputs: [
+			{ name: "account", type: "address" },
+			{ name: "enabled", type: "bool" },
+		],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "setApprovalThreshold",
+		inputs: [{ name: "threshold", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "setTimelockDuration",
+		inputs: [{ name: "duration", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "getActiveApprovals",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "governanceProposalCount",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "hasApprovedGovernance",
+		inputs: [
+			{ name: "proposalId", type: "uint256" },
+			{ name: "reviewer", type: "address" },
+		],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getActiveGovernanceApprovals",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getGovernanceProposals",
+		inputs: [
+			{ name: "fromId", type: "uint256" },
+			{ name: "count", type: "uint256" },
+		],
+		outputs: [
+			{
+				name: "",
+				type: "tuple[]",
+				components: [
+					{ name: "id", type: "uint256" },
+					{ name: "action", type: "uint8" },
+					{ name: "account", type: "address" },
+					{ name: "value", type: "uint256" },
+					{ name: "proposer", type: "address" },
+					{ name: "createdAt", type: "uint64" },
+					{ name: "executableAt", type: "uint64" },
+					{ name: "approvals", type: "uint32" },
+					{ name: "executed", type: "bool" },
+					{ name: "cancelled", type: "bool" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "proposeGovernanceChange",
+		inputs: [
+			{ name: "action", type: "uint8" },
+			{ name: "account", type: "address" },
+			{ name: "value", type: "uint256" },
+		],
+		outputs: [{ name: "proposalId", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "approveGovernanceChange",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "executeGovernanceChange",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "cancelGovernanceChange",
+		inputs: [{ name: "proposalId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "requestReview",
+		inputs: [
+			{ name: "token", type: "address" },
+			{ name: "note", type: "string" },
+		],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "dismissReviewRequest",
+		inputs: [{ name: "token", type: "address" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "getReviewRequest",
+		inputs: [{ name: "token", type: "address" }],
+		outputs: [
+			{
+				name: "",
+				type: "tuple",
+				components: [
+					{ name: "token", type: "address" },
+					{ name: "requester", type: "address" },
+					{ name: "requestedAt", type: "uint64" },
+					{ name: "note", type: "string" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getPendingReviewRequestCount",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "lastReviewRequestAt",
+		inputs: [{ name: "account", type: "address" }],
+		outputs: [{ name: "", type: "uint64" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "REVIEW_REQUEST_COOLDOWN",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getPendingReviewRequests",
+		inputs: [
+			{ name: "offset", type: "uint256" },
+			{ name: "count", type: "uint256" },
+		],
+		outputs: [
+			{
+				name: "",
+				type: "tuple[]",
+				components: [
+					{ name: "token", type: "address" },
+					{ name: "requester", type: "address" },
+					{ name: "requestedAt", type: "uint64" },
+					{ name: "note", type: "string" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "event",
+		name: "CoinRegistered",
+		inputs: [
+			{ name: "coinId", type: "string", indexed: true },
+			{ name: "name", type: "string", indexed: false },
+			{ name: "symbol", type: "string", indexed: false },
+			{ name: "complianceReason", type: "string", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "CoinRemoved",
+		inputs: [{ name: "coinId", type: "string", indexed: true }],
+	},
+	{
+		type: "event",
+		name: "CoinUpdated",
+		inputs: [
+			{ name: "coinId", type: "string", indexed: true },
+			{ name: "verified", type: "bool", indexed: false },
+			{ name: "complianceReason", type: "string", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "ComplianceMetadataUpdated",
+		inputs: [
+			{ name: "coinId", type: "string", indexed: true },
+			{ name: "category", type: "uint8", indexed: false },
+			{ name: "methodology", type: "string", indexed: false },
+			{ name: "reviewer", type: "string", indexed: false },
+			{ name: "documentHash", type: "bytes32", indexed: false },
+			{ name: "reviewedAt", type: "uint64", indexed: false },
+			{ name: "reviewDueAt", type: "uint64", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "ReviewRequested",
+		inputs: [
+			{ name: "token", type: "address", indexed: true },
+			{ name: "requester", type: "address", indexed: true },
+			{ name: "note", type: "string", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "StatusChangeProposed",
+		inputs: [
+			{ name: "proposalId", type: "uint256", indexed: true },
+			{ name: "coinId", type: "string", indexed: true },
+			{ name: "proposer", type: "address", indexed: true },
+			{ name: "verified", type: "bool", indexed: false },
+			{ name: "complianceReason", type: "string", indexed: false },
+			{ name: "evidence", type: "string", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "ProposalApproved",
+		inputs: [
+			{ name: "proposalId", type: "uint256", indexed: true },
+			{ name: "reviewer", type: "address", indexed: true },
+			{ name: "approvals", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "ProposalExecuted",
+		inputs: [{ name: "proposalId", type: "uint256", indexed: true }],
+	},
+] as const;
+
+export const ERC20_ABI = [
+	{
+		type: "function",
+		name: "approve",
+		inputs: [
+			{ name: "spender", type: "address" },
+			{ name: "amount", type: "uint256" },
+		],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "allowance",
+		inputs: [
+			{ name: "owner", type: "address" },
+			{ name: "spender", type: "address" },
+		],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "balanceOf",
+		inputs: [{ name: "account", type: "address" }],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "transfer",
+		inputs: [
+			{ name: "to", type: "address" },
+			{ name: "amount", type: "uint256" },
+		],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "transferFrom",
+		inputs: [
+			{ name: "from", type: "address" },
+			{ name: "to", type: "address" },
+			{ name: "amount", type: "uint256" },
+		],
+		outputs: [{ name: "", type: "bool" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "decimals",
+		inputs: [],
+		outputs: [{ name: "", type: "uint8" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "name",
+		inputs: [],
+		outputs: [{ name: "", type: "string" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "symbol",
+		inputs: [],
+		outputs: [{ name: "", type: "string" }],
+		stateMutability: "view",
+	},
+	{
+		type: "event",
+		name: "Transfer",
+		inputs: [
+			{ name: "from", type: "address", indexed: true },
+			{ name: "to", type: "address", indexed: true },
+			{ name: "value", type: "uint256", indexed: false },
+		],
+	},
+] as const;
+
+export const ShariaDCAABI = [
+	{
+		type: "function",
+		name: "createDCAOrderWithDEV",
+		inputs: [
+			{ name: "targetToken", type: "address" },
+			{ name: "amountPerInterval", type: "uint256" },
+			{ name: "intervalSeconds", type: "uint256" },
+			{ name: "totalIntervals", type: "uint256" },
+			{ name: "maxSlippageBps", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+		],
+		outputs: [{ name: "orderId", type: "uint256" }],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "createDCAOrderWithToken",
+		inputs: [
+			{ name: "sourceToken", type: "address" },
+			{ name: "targetToken", type: "address" },
+			{ name: "amountPerInterval", type: "uint256" },
+			{ name: "intervalSeconds", type: "uint256" },
+			{ name: "totalIntervals", type: "uint256" },
+			{ name: "maxSlippageBps", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+		],
+		outputs: [{ name: "orderId", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "executeDCAOrder",
+		inputs: [
+			{ name: "orderId", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+		],
+		outputs: [{ name: "executed", type: "bool" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "cancelDCAOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "pauseDCAOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "resumeDCAOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "topUpDCAOrder",
+		inputs: [
+			{ name: "orderId", type: "uint256" },
+			{ name: "additionalIntervals", type: "uint256" },
+		],
+		outputs: [],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "getDCAOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [
+			{
+				name: "",
+				type: "tuple",
+				components: [
+					{ name: "id", type: "uint256" },
+					{ name: "owner", type: "address" },
+					{ name: "sourceToken", type: "address" },
+					{ name: "targetToken", type: "address" },
+					{ name: "amountPerInterval", type: "uint256" },
+					{ name: "interval", type: "uint256" },
+					{ name: "intervalsCompleted", type: "uint256" },
+					{ name: "totalIntervals", type: "uint256" },
+					{ name: "nextExecutionTime", type: "uint256" },
+					{ name: "startTime", type: "uint256" },
+					{ name: "maxSlippageBps", type: "uint256" },
+					{ name: "minAmountOut", type: "uint256" },
+					{ name: "isActive", type: "bool" },
+					{ name: "isPaused", type: "bool" },
+					{ name: "exists", type: "bool" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "quoteDCAOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [
+			{ name: "expectedAmountOut", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "MAX_SLIPPAGE_BPS",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getUserOrders",
+		inputs: [{ name: "user", type: "address" }],
+		outputs: [{ name: "", type: "uint256[]" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "createLimitOrderWithDEV",
+		inputs: [
+			{ name: "targetToken", type: "address" },
+			{ name: "minAmountOut", type: "uint256" },
+			{ name: "expiry", type: "uint256" },
+		],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "createLimitOrderWithToken",
+		inputs: [
+			{ name: "sourceToken", type: "address" },
+			{ name: "targetToken", type: "address" },
+			{ name: "amountIn", type: "uint256" },
+			{ name: "minAmountOut", type: "uint256" },
+			{ name: "expiry", type: "uint256" },
+		],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "executeLimitOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [{ name: "filled", type: "bool" }],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "cancelLimitOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "getLimitOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [
+			{
+				name: "",
+				type: "tuple",
+				components: [
+					{ name: "id", type: "uint256" },
+					{ name: "owner", type: "address" },
+					{ name: "sourceToken", type: "address" },
+					{ name: "targetToken", type: "address" },
+					{ name: "amountIn", type: "uint256" },
+					{ name: "minAmountOut", type: "uint256" },
+					{ name: "expiry", type: "uint256" },
+					{ name: "createdAt", type: "uint256" },
+					{ name: "amountOut", type: "uint256" },
+					{ name: "status", type: "uint8" },
+					{ name: "exists", type: "bool" },
+				],
+			},
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "quoteLimitOrder",
+		inputs: [{ name: "orderId", type: "uint256" }],
+		outputs: [
+			{ name: "expectedAmountOut", type: "uint256" },
+			{ name: "ready", type: "bool" },
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "getUserLimitOrders",
+		inputs: [{ name: "user", type: "address" }],
+		outputs: [{ name: "", type: "uint256[]" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "blockTime",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "blocksBeforeHour",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "event",
+		name: "DCAOrderCreated",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "sourceToken", type: "address", indexed: false },
+			{ name: "targetToken", type: "address", indexed: false },
+			{ name: "amountPerInterval", type: "uint256", indexed: false },
+			{ name: "interval", type: "uint256", indexed: false },
+			{ name: "totalIntervals", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "DCAOrderExecuted",
 		inputs: [
 			{ name: "orderId", type: "uint256", indexed: true },
 			{ name: "intervalNumber", type: "uint256", indexed: false },
@@ -379,6 +1115,44 @@ export const ShariaDCAABI = [
 			{ name: "timestamp", type: "uint256", indexed: false },
 		],
 	},
+	{
+		type: "event",
+		name: "DCAOrderSkipped",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "expectedAmountOut", type: "uint256", indexed: false },
+			{ name: "minAmountOut", type: "uint256", indexed: false },
+			{ name: "timestamp", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "DCAOrderPaused",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+		],
+	},
+	{
+		type: "event",
+		name: "DCAOrderResumed",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "nextExecutionTime", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "DCAOrderToppedUp",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "additionalIntervals", type: "uint256", indexed: false },
+			{ name: "totalIntervals", type: "uint256", indexed: false },
+			{ name: "amountDeposited", type: "uint256", indexed: false },
+		],
+	},
 	{
 		type: "event",
 		name: "DCAOrderCancelled",
@@ -387,4 +1161,169 @@ export const ShariaDCAABI = [
 			{ name: "owner", type: "address", indexed: true },
 		],
 	},
-] as const;
\ No newline at end of file
+	{
+		type: "event",
+		name: "LimitOrderCreated",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "sourceToken", type: "address", indexed: false },
+			{ name: "targetToken", type: "address", indexed: false },
+			{ name: "amountIn", type: "uint256", indexed: false },
+			{ name: "minAmountOut", type: "uint256", indexed: false },
+			{ name: "expiry", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "LimitOrderFilled",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "amountIn", type: "uint256", indexed: false },
+			{ name: "amountOut", type: "uint256", indexed: false },
+			{ name: "timestamp", type: "uint256", indexed: false },
+		],
+	},
+	{
+		type: "event",
+		name: "LimitOrderCancelled",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+		],
+	},
+	{
+		type: "event",
+		name: "LimitOrderExpired",
+		inputs: [
+			{ name: "orderId", type: "uint256", indexed: true },
+			{ name: "owner", type: "address", indexed: true },
+			{ name: "refundAmount", type: "uint256", indexed: false },
+		],
+	},
+] as const;
+export const SIMPLE_PAIR_ABI = [
+	{
+		type: "function",
+		name: "getReserves",
+		inputs: [],
+		outputs: [
+			{ name: "_reserve0", type: "uint112" },
+			{ name: "_reserve1", type: "uint112" },
+			{ name: "_blockTimestampLast", type: "uint32" },
+		],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "token0",
+		inputs: [],
+		outputs: [{ name: "", type: "address" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "token1",
+		inputs: [],
+		outputs: [{ name: "", type: "address" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "totalSupply",
+		inputs: [],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "function",
+		name: "balanceOf",
+		inputs: [{ name: "account", type: "address" }],
+		outputs: [{ name: "", type: "uint256" }],
+		stateMutability: "view",
+	},
+	{
+		type: "event",
+		name: "Sync",
+		inputs: [
+			{ name: "reserve0", type: "uint112", indexed: false },
+			{ name: "reserve1", type: "uint112", indexed: false },
+		],
+	},
+] as const;
+export const SIMPLE_ROUTER_ABI = [
+	{
+		type: "function",
+		name: "addLiquidity",
+		inputs: [
+			{ name: "tokenA", type: "address" },
+			{ name: "tokenB", type: "address" },
+			{ name: "amountADesired", type: "uint256" },
+			{ name: "amountBDesired", type: "uint256" },
+			{ name: "amountAMin", type: "uint256" },
+			{ name: "amountBMin", type: "uint256" },
+			{ name: "to", type: "address" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [
+			{ name: "amountA", type: "uint256" },
+			{ name: "amountB", type: "uint256" },
+			{ name: "liquidity", type: "uint256" },
+		],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "addLiquidityETH",
+		inputs: [
+			{ name: "token", type: "address" },
+			{ name: "amountTokenDesired", type: "uint256" },
+			{ name: "amountTokenMin", type: "uint256" },
+			{ name: "amountETHMin", type: "uint256" },
+			{ name: "to", type: "address" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [
+			{ name: "amountToken", type: "uint256" },
+			{ name: "amountETH", type: "uint256" },
+			{ name: "liquidity", type: "uint256" },
+		],
+		stateMutability: "payable",
+	},
+	{
+		type: "function",
+		name: "removeLiquidity",
+		inputs: [
+			{ name: "tokenA", type: "address" },
+			{ name: "tokenB", type: "address" },
+			{ name: "liquidity", type: "uint256" },
+			{ name: "amountAMin", type: "uint256" },
+			{ name: "amountBMin", type: "uint256" },
+			{ name: "to", type: "address" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [
+			{ name: "amountA", type: "uint256" },
+			{ name: "amountB", type: "uint256" },
+		],
+		stateMutability: "nonpayable",
+	},
+	{
+		type: "function",
+		name: "removeLiquidityETH",
+		inputs: [
+			{ name: "token", type: "address" },
+			{ name: "liquidity", type: "uint256" },
+			{ name: "amountTokenMin", type: "uint256" },
+			{ name: "amountETHMin", type: "uint256" },
+			{ name: "to", type: "address" },
+			{ name: "deadline", type: "uint256" },
+		],
+		outputs: [
+			{ name: "amountToken", type: "uint256" },
+			{ name: "amountETH", type: "uint256" },
+		],
+		stateMutability: "nonpayable",
+	},
+] as const;
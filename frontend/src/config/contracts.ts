@@ -1,89 +1,136 @@
 /**
  * Contract Addresses and Configuration
- * Auto-imported from deployed contracts configuration
+ * Auto-imported from the deployment registry (one section per chain ID)
  */
 
 import type { Address } from "viem";
-import deployedContracts from "../../../config/deployedContracts.json";
+import deploymentRegistry from "../../../config/deployedContracts.json";
 import tayebCoinsData from "../../../config/tayebCoins.json";
+import type { DeployedContracts, DeploymentRegistry } from "../types";
+import { REQUIRED_CHAIN_ID } from "./wagmi";
 
-// Type-safe contract addresses
-export const CONTRACTS = {
-	// Main Protocol Contracts
-	SHARIA_COMPLIANCE: deployedContracts.main.shariaCompliance as Address,
-	SHARIA_SWAP: deployedContracts.main.shariaSwap as Address,
-	SHARIA_DCA: deployedContracts.main.shariaDCA as Address,
-
-	// AMM Contracts
-	FACTORY: deployedContracts.amm.factory as Address,
-	ROUTER: deployedContracts.amm.router as Address,
-	WETH: deployedContracts.amm.weth as Address,
-
-	// Token Addresses
-	TOKENS: deployedContracts.tokens as Record<string, Address>,
-
-	// Liquidity Pairs
-	PAIRS: deployedContracts.pairs as Record<string, Address>,
-} as const;
-
-// Network Information
-export const NETWORK_INFO = {
-	network: deployedContracts.network,
-	version: deployedContracts.version,
-	lastDeployed: deployedContracts.lastDeployed,
-	deployer: deployedContracts.metadata?.deployer,
-} as const;
-
-// Token Metadata
-export const TOKEN_METADATA = tayebCoinsData.coins.reduce(
-	(acc, coin) => {
-		acc[coin.symbol] = {
-			symbol: coin.symbol,
-			name: coin.name,
-			decimals: coin.decimals,
-			avgSlippagePercent: coin.avgSlippagePercent,
-			complianceReason: coin.complianceReason,
-			description: coin.description,
-			address: coin.addresses.moonbase as Address,
-			permissible: coin.permissible,
-		};
-		return acc;
-	},
-	{} as Record<
-		string,
-		{
-			symbol: string;
-			name: string;
-			decimals: number;
-			avgSlippagePercent: number;
-			complianceReason: string;
-			description: string;
-			address: Address;
-			permissible: boolean;
-		}
-	>
+// Local devnet addresses (written by `npm run devnet`, absent until it has run)
+const devnetRegistries = import.meta.glob<DeploymentRegistry>(
+	"../../../config/deployedContracts.devnet.json",
+	{ eager: true, import: "default" }
 );
 
-// Get token address by symbol
-export function getTokenAddress(symbol: string): Address | undefined {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
+const REGISTRY: DeploymentRegistry = {
+	...(deploymentRegistry as unknown as DeploymentRegistry),
+	deployments: Object.values(devnetRegistries).reduce(
+		(acc, devnet) => ({ ...acc, ...devnet.deployments }),
+		(deploymentRegistry as unknown as DeploymentRegistry).deployments
+	),
+};
+
+// Get the deployment for a chain, falling back to the default chain
+export function getDeployment(chainId: number | undefined): DeployedContracts {
+	return (
+		(chainId !== undefined && REGISTRY.deployments[String(chainId)]) ||
+		REGISTRY.deployments[String(REQUIRED_CHAIN_ID)]
+	);
+}
+
+// Type-safe contract addresses for a chain
+export function getContracts(chainId: number | undefined) {
+	const deployment = getDeployment(chainId);
+
+	return {
+		// Main Protocol Contracts
+		SHARIA_COMPLIANCE: deployment.main.shariaCompliance as Address,
+		SHARIA_SWAP: deployment.main.shariaSwap as Address,
+		SHARIA_DCA: deployment.main.shariaDCA as Address,
+
+		// AMM Contracts
+		FACTORY: deployment.amm.factory as Address,
+		ROUTER: deployment.amm.router as Address,
+		WETH: deployment.amm.weth as Address,
+
+		// Token Addresses
+		TOKENS: deployment.tokens as Record<string, Address>,
+
+		// Liquidity Pairs
+		PAIRS: deployment.pairs as Record<string, Address>,
+	} as const;
+}
+
+export type ContractAddresses = ReturnType<typeof getContracts>;
+
+// Contract addresses on the default chain
+export const CONTRACTS = getContracts(REQUIRED_CHAIN_ID);
+
+// Network information for a chain (same fallback as getContracts)
+export function getNetworkInfo(chainId: number | undefined) {
+	const deployment = getDeployment(chainId);
+
+	return {
+		network: deployment.network,
+		chainId: deployment.chainId,
+		version: REGISTRY.version,
+		lastDeployed: deployment.lastDeployed,
+		deployer: deployment.metadata?.deployer,
+	} as const;
+}
+
+export type NetworkInfo = ReturnType<typeof getNetworkInfo>;
+
+export interface TokenMetadata {
+	symbol: string;
+	name: string;
+	decimals: number;
+	avgSlippagePercent: number;
+	complianceReason: string;
+	description: string;
+	address: Address | undefined; // Undefined when the chain has no deployment of the token
+	permissible: boolean;
+}
+
+// Token metadata with addresses from a chain's deployment (or tayebCoins.json for that network)
+export function getTokenMetadata(chainId: number | undefined): Record<string, TokenMetadata> {
+	const deployment = getDeployment(chainId);
+
+	return tayebCoinsData.coins.reduce(
+		(acc, coin) => {
+			const addresses = coin.addresses as Record<string, string | undefined>;
+			acc[coin.symbol] = {
+				symbol: coin.symbol,
+				name: coin.name,
+				decimals: coin.decimals,
+				avgSlippagePercent: coin.avgSlippagePercent,
+				complianceReason: coin.complianceReason,
+				description: coin.description,
+				address: (deployment.tokens[coin.symbol] ?? addresses[deployment.network]) as Address | undefined,
+				permissible: coin.permissible,
+			};
+			return acc;
+		},
+		{} as Record<string, TokenMetadata>
+	);
+}
+
+// Get token address by symbol on a chain
+export function getTokenAddress(symbol: string, chainId: number | undefined): Address | undefined {
+	const token = getTokenMetadata(chainId)[symbol.toUpperCase()];
 	return token?.address;
 }
 
+// Chain-independent metadata (symbol, decimals, permissibility) by symbol
+const COIN_BY_SYMBOL = new Map(tayebCoinsData.coins.map((coin) => [coin.symbol, coin]));
+
 // Get token decimals by symbol
 export function getTokenDecimalsBySymbol(symbol: string): number {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
+	const token = COIN_BY_SYMBOL.get(symbol.toUpperCase());
 	return token?.decimals ?? 18;
 }
 
 // Get all token symbols
 export function getAllTokenSymbols(): string[] {
-	return Object.keys(TOKEN_METADATA);
+	return [...COIN_BY_SYMBOL.keys()];
 }
 
 // Check if token is permissible
 export function isTokenPermissible(symbol: string): boolean {
-	const token = TOKEN_METADATA[symbol.toUpperCase()];
+	const token = COIN_BY_SYMBOL.get(symbol.toUpperCase());
 	return token?.permissible ?? false;
 }
 
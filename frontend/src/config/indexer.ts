@@ -0,0 +1,11 @@
+/**
+ * Event Indexer Configuration
+ * Base URL of the indexer's REST API (scripts/automation/run-indexer.ts)
+ */
+
+// Unset: hooks read history straight from the contracts instead
+// e.g. VITE_INDEXER_URL=http://127.0.0.1:4350
+export const INDEXER_URL: string | undefined = import.meta.env.VITE_INDEXER_URL?.replace(/\/+$/, "") || undefined;
+
+// How often indexed queries are refreshed (the indexer polls the chain every ~12s)
+export const INDEXER_REFETCH_MS = 15_000;
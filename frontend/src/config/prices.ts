@@ -0,0 +1,81 @@
+/**
+ * Price Provider Configuration
+ * Which sources value tokens in USD, in priority order
+ */
+
+import type { PriceSource } from "../types";
+
+// Provider names accepted in VITE_PRICE_SOURCES
+export type PriceProviderName = "pool" | "coingecko" | "fixture";
+
+const PROVIDER_NAMES: PriceProviderName[] = ["pool", "coingecko", "fixture"];
+
+// Pools first so USD values match the prices users get on our pairs, CoinGecko for the rest
+// Override with e.g. VITE_PRICE_SOURCES=fixture for deterministic prices in tests
+export const PRICE_PROVIDER_ORDER: PriceProviderName[] = (
+	import.meta.env.VITE_PRICE_SOURCES || "pool,coingecko"
+)
+	.split(",")
+	.map((name: string) => name.trim().toLowerCase())
+	.filter((name: string): name is PriceProviderName => PROVIDER_NAMES.includes(name as PriceProviderName));
+
+// Labels shown next to each displayed price
+export const PRICE_SOURCE_LABELS: Record<PriceSource, string> = {
+	"pool-twap": "Pool TWAP",
+	"pool-spot": "Pool spot",
+	coingecko: "CoinGecko",
+	fixture: "Fixture",
+};
+
+// TWAP window for the on-chain provider (~1 hour of Moonbase Alpha blocks at ~6s)
+export const TWAP_WINDOW_BLOCKS = 600n;
+
+// How long each provider's prices are cached
+export const POOL_PRICE_TTL_MS = 30 * 1000;
+export const COINGECKO_PRICE_TTL_MS = 5 * 60 * 1000;
+
+// Static prices for the fixture provider
+export const FIXTURE_PRICES: Record<string, number> = {
+	ETH: 3500,
+	WETH: 3500,
+	BTC: 65000,
+	WBTC: 65000,
+	USDT: 1,
+	USDC: 1,
+	DAI: 1,
+	LINK: 15,
+	UNI: 8,
+	AAVE: 100,
+	MATIC: 0.8,
+	DEV: 0.5, // Moonbase native token
+	GLMR: 0.5,
+};
+
+// Mapping from token symbol to CoinGecko ID
+export const SYMBOL_TO_COINGECKO_ID: Record<string, string> = {
+	BTC: "bitcoin",
+	WBTC: "wrapped-bitcoin",
+	ETH: "ethereum",
+	WETH: "ethereum",
+	USDT: "tether",
+	USDC: "usd-coin",
+	DAI: "dai",
+	LINK: "chainlink",
+	UNI: "uniswap",
+	AAVE: "aave",
+	MATIC: "matic-network",
+	XRP: "ripple",
+	BNB: "binancecoin",
+	SOL: "solana",
+	TRX: "tron",
+	ADA: "cardano",
+	HBAR: "hedera-hashgraph",
+	BCH: "bitcoin-cash",
+	LEO: "leo-token",
+	XLM: "stellar",
+	SUI: "sui",
+	AVAX: "avalanche-2",
+	HYPE: "hyperliquid",
+	DEV: "moonbeam", // Moonbase native token - using Moonbeam as proxy
+	GLMR: "moonbeam",
+};
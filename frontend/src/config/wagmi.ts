@@ -1,20 +1,28 @@
 import { getDefaultConfig } from "@rainbow-me/rainbowkit";
 import { http } from "viem";
-import { moonbaseAlpha } from "wagmi/chains";
+import { localhost, moonbaseAlpha } from "wagmi/chains";
+
+// Local devnet (npm run devnet in the repo root) - opt in with VITE_DEVNET=true
+export const IS_DEVNET = import.meta.env.VITE_DEVNET === "true";
+const DEVNET_RPC_URL = import.meta.env.VITE_DEVNET_RPC_URL || "http://127.0.0.1:8545";
 
 // CRITICAL: This app ONLY works on Moonbase Alpha Testnet (Chain ID: 1287)
 // Chain ID 1284 is Moonbeam MAINNET - transactions there will FAIL and cost real GLMR!
+const requiredChain = IS_DEVNET ? localhost : moonbaseAlpha;
+
 export const wagmiConfig = getDefaultConfig({
 	appName: "Tayeb Sharia DeFi",
 	projectId: "your-walletconnect-project-id", // Get from WalletConnect Cloud
-	chains: [moonbaseAlpha], // Chain ID: 1287 - TESTNET ONLY
+	chains: [requiredChain], // Chain ID: 1287 - TESTNET ONLY (1337 on the local devnet)
 	transports: {
-		[moonbaseAlpha.id]: http("https://rpc.api.moonbase.moonbeam.network"),
+		[requiredChain.id]: http(
+			IS_DEVNET ? DEVNET_RPC_URL : "https://rpc.api.moonbase.moonbeam.network"
+		),
 	},
 	ssr: false, 
 });
 
 // Export the testnet chain and chain ID for validation
 export { moonbaseAlpha };
-export const REQUIRED_CHAIN_ID = moonbaseAlpha.id; // 1287
-export const REQUIRED_CHAIN_NAME = moonbaseAlpha.name; // "Moonbase Alpha"
+export const REQUIRED_CHAIN_ID = requiredChain.id; // 1287 (1337 on the local devnet)
+export const REQUIRED_CHAIN_NAME = requiredChain.name; // "Moonbase Alpha"
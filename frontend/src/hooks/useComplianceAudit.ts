@@ -0,0 +1,227 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isAddressEqual, parseEventLogs } from "viem";
+import type { Address, Hex, PublicClient } from "viem";
+import { useAccount, useChainId, usePublicClient, useSignMessage } from "wagmi";
+import { ShariaComplianceABI } from "../config/abis";
+import { INDEXER_URL } from "../config/indexer";
+import { auditSigningMessage, buildAuditTrail, hashAuditPayload } from "../utils/complianceAudit";
+import type { AuditEntry, AuditTrailPayload, ComplianceEvent, SignedAuditTrail } from "../utils/complianceAudit";
+import { useContracts } from "./useContracts";
+import { useIndexedCoinEvents } from "./useIndexer";
+
+/**
+ * Who made each registry change
+ * Direct changes are credited to the transaction sender (the owner). A change
+ * applied by executeProposal is credited to the reviewer who proposed it and to
+ * its approvers, not to whoever sent the execution: anyone can execute once the
+ * timelock has passed.
+ */
+interface ChangeAttribution {
+	sender: string | null;
+	proposalId: number | null;
+	approvers: string[];
+}
+
+async function fetchAttributions(
+	publicClient: PublicClient,
+	complianceAddress: Address,
+	txHashes: string[]
+): Promise<Record<string, ChangeAttribution>> {
+	const unique = [...new Set(txHashes)];
+	const receipts = await Promise.all(unique.map((hash) => publicClient.getTransactionReceipt({ hash: hash as Hex })));
+
+	// executeProposal logs ProposalExecuted in the same transaction as the CoinUpdated it applies
+	const executedProposals = new Map<string, bigint>();
+	for (const receipt of receipts) {
+		const [executed] = parseEventLogs({
+			abi: ShariaComplianceABI,
+			eventName: "ProposalExecuted",
+			logs: receipt.logs.filter((log) => isAddressEqual(log.address, complianceAddress)),
+		});
+		if (executed) executedProposals.set(receipt.transactionHash, executed.args.proposalId);
+	}
+
+	const proposers = new Map<bigint, string>();
+	const approvers = new Map<bigint, string[]>();
+	const proposalIds = [...new Set(executedProposals.values())];
+	if (proposalIds.length > 0) {
+		const [proposed, approved] = await Promise.all([
+			publicClient.getContractEvents({
+				address: complianceAddress,
+				abi: ShariaComplianceABI,
+				eventName: "StatusChangeProposed",
+				args: { proposalId: proposalIds },
+				fromBlock: "earliest",
+			}),
+			publicClient.getContractEvents({
+				address: complianceAddress,
+				abi: ShariaComplianceABI,
+				eventName: "ProposalApproved",
+				args: { proposalId: proposalIds },
+				fromBlock: "earliest",
+			}),
+		]);
+		for (const log of proposed) {
+			const { proposalId, proposer } = log.args as { proposalId: bigint; proposer: Address };
+			proposers.set(proposalId, proposer.toLowerCase());
+		}
+		for (const log of approved) {
+			const { proposalId, reviewer } = log.args as { proposalId: bigint; reviewer: Address };
+			approvers.set(proposalId, [...(approvers.get(proposalId) ?? []), reviewer.toLowerCase()]);
+		}
+	}
+
+	return Object.fromEntries(
+		receipts.map((receipt): [string, ChangeAttribution] => {
+			const proposalId = executedProposals.get(receipt.transactionHash);
+			if (proposalId === undefined) {
+				return [receipt.transactionHash, { sender: receipt.from.toLowerCase(), proposalId: null, approvers: [] }];
+			}
+			return [
+				receipt.transactionHash,
+				{
+					sender: proposers.get(proposalId) ?? null,
+					proposalId: Number(proposalId),
+					approvers: approvers.get(proposalId) ?? [],
+				},
+			];
+		})
+	);
+}
+
+/**
+ * Read a coin's registry events straight from ShariaCompliance
+ * Scans from the first block: public RPCs may refuse large ranges, set VITE_INDEXER_URL then.
+ */
+async function fetchComplianceEvents(
+	publicClient: PublicClient,
+	complianceAddress: Address,
+	coinId: string
+): Promise<ComplianceEvent[]> {
+	const [registered, updated, removed] = await Promise.all(
+		(["CoinRegistered", "CoinUpdated", "CoinRemoved"] as const).map((eventName) =>
+			publicClient.getContractEvents({
+				address: complianceAddress,
+				abi: ShariaComplianceABI,
+				eventName,
+				args: { coinId },
+				fromBlock: "earliest",
+			})
+		)
+	);
+	const logs = [...registered, ...updated, ...removed];
+
+	const [attributions, blocks] = await Promise.all([
+		fetchAttributions(publicClient, complianceAddress, logs.map((log) => log.transactionHash)),
+		Promise.all(
+			[...new Set(logs.map((log) => log.blockNumber))].map((blockNumber) => publicClient.getBlock({ blockNumber }))
+		),
+	]);
+	const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+	return logs.map((log) => {
+		const args = log.args as { verified?: boolean; complianceReason?: string };
+		const attribution = attributions[log.transactionHash];
+		return {
+			event: log.eventName === "CoinRegistered" ? "registered" : log.eventName === "CoinUpdated" ? "updated" : "removed",
+			blockNumber: Number(log.blockNumber),
+			logIndex: log.logIndex,
+			txHash: log.transactionHash,
+			timestamp: timestamps.get(log.blockNumber) ?? 0,
+			sender: attribution?.sender ?? null,
+			proposalId: attribution?.proposalId ?? null,
+			approvers: attribution?.approvers ?? [],
+			verified: log.eventName === "CoinRegistered" ? true : args.verified ?? null,
+			complianceReason: args.complianceReason ?? null,
+		};
+	});
+}
+
+/**
+ * Hook for a coin's compliance history: who changed its verdict, when, and why (oldest first)
+ * Uses the indexer when VITE_INDEXER_URL is set, otherwise ShariaCompliance logs.
+ */
+export function useCoinAuditTrail(coinId: string | undefined) {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const publicClient = usePublicClient();
+
+	const indexed = useIndexedCoinEvents(coinId);
+
+	// The indexer records the transaction sender, which is only the author of a direct change:
+	// status updates may come from an executed proposal, and older rows have no sender at all
+	const unattributed = useMemo(
+		() => (indexed.data ?? []).filter((row) => !row.sender || row.event === "updated").map((row) => row.txHash),
+		[indexed.data]
+	);
+	const backfill = useQuery({
+		queryKey: ["compliance-attributions", SHARIA_COMPLIANCE_ADDRESS, unattributed],
+		queryFn: () => fetchAttributions(publicClient as PublicClient, SHARIA_COMPLIANCE_ADDRESS, unattributed),
+		enabled: unattributed.length > 0 && !!publicClient,
+	});
+
+	const onChain = useQuery({
+		queryKey: ["compliance-audit", SHARIA_COMPLIANCE_ADDRESS, coinId],
+		queryFn: () => fetchComplianceEvents(publicClient as PublicClient, SHARIA_COMPLIANCE_ADDRESS, coinId!),
+		enabled: !INDEXER_URL && !!coinId && !!publicClient,
+	});
+
+	const entries = useMemo((): AuditEntry[] => {
+		if (!INDEXER_URL) return buildAuditTrail(onChain.data ?? []);
+
+		return buildAuditTrail(
+			(indexed.data ?? []).map((row): ComplianceEvent => {
+				const attribution = backfill.data?.[row.txHash];
+				return {
+					event: row.event,
+					blockNumber: row.blockNumber,
+					logIndex: row.logIndex,
+					txHash: row.txHash,
+					timestamp: row.timestamp,
+					sender: attribution ? attribution.sender : row.sender,
+					proposalId: attribution?.proposalId ?? null,
+					approvers: attribution?.approvers ?? [],
+					verified: row.verified,
+					complianceReason: row.complianceReason,
+				};
+			})
+		);
+	}, [onChain.data, indexed.data, backfill.data]);
+
+	const source = INDEXER_URL ? indexed : onChain;
+	return {
+		entries,
+		isLoading: source.isLoading,
+		error: source.error,
+	};
+}
+
+/**
+ * Hook to sign an audit trail export with the connected wallet
+ */
+export function useSignAuditTrail() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const { address } = useAccount();
+	const chainId = useChainId();
+	const { signMessageAsync, isPending: isSigning } = useSignMessage();
+
+	const signAuditTrail = async (coinId: string, entries: AuditEntry[]): Promise<SignedAuditTrail> => {
+		if (!address) throw new Error("Connect a wallet to sign the export");
+
+		const payload: AuditTrailPayload = {
+			kind: "tayeb-compliance-audit-trail",
+			version: 1,
+			chainId,
+			contract: SHARIA_COMPLIANCE_ADDRESS.toLowerCase(),
+			coinId,
+			generatedAt: new Date().toISOString(),
+			entries,
+		};
+		const payloadHash = hashAuditPayload(payload);
+		const signature = await signMessageAsync({ message: auditSigningMessage(payload, payloadHash) });
+
+		return { payload, payloadHash, signer: address, signature };
+	};
+
+	return { signAuditTrail, isSigning };
+}
@@ -0,0 +1,218 @@
+import { useMemo } from "react";
+import { useAccount, useReadContract, useReadContracts } from "wagmi";
+import { ShariaComplianceABI } from "../config/abis";
+import { getProposalState } from "../utils/complianceProposals";
+import type { ComplianceProposal, GovernanceProposal, ProposalState } from "../utils/complianceProposals";
+import { useContracts } from "./useContracts";
+
+export interface ProposalView extends ComplianceProposal {
+	state: ProposalState;
+	approvedByMe: boolean;
+	activeApprovals: number; // Approvals from accounts that are still reviewers
+}
+
+export interface GovernanceProposalView extends GovernanceProposal {
+	state: ProposalState;
+	approvedByMe: boolean;
+	activeApprovals: number;
+}
+
+/**
+ * Approvals only count while the approver is still a reviewer, so a queued
+ * proposal can fall back to collecting approvals
+ */
+function toState(
+	proposal: Pick<ComplianceProposal, "executed" | "cancelled" | "executableAt">,
+	activeApprovals: number,
+	approvalThreshold: number
+): ProposalState {
+	const state = getProposalState(proposal);
+	if ((state === "timelocked" || state === "ready") && activeApprovals < approvalThreshold) {
+		return "awaiting-approvals";
+	}
+	return state;
+}
+
+/**
+ * Hook for the ShariaCompliance approval workflow: settings, the connected
+ * account's roles, every status proposal and every governance proposal (newest first)
+ */
+export function useComplianceProposals() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const { address: userAddress } = useAccount();
+
+	const contract = { address: SHARIA_COMPLIANCE_ADDRESS, abi: ShariaComplianceABI } as const;
+
+	const {
+		data: settingsData,
+		isLoading: settingsLoading,
+		refetch: refetchSettings,
+	} = useReadContracts({
+		contracts: [
+			{ ...contract, functionName: "approvalThreshold" },
+			{ ...contract, functionName: "reviewerCount" },
+			{ ...contract, functionName: "timelockDuration" },
+			{ ...contract, functionName: "proposalCount" },
+			{ ...contract, functionName: "governanceProposalCount" },
+		],
+	});
+
+	const { data: rolesData, refetch: refetchRoles } = useReadContracts({
+		contracts: userAddress
+			? [
+					{ ...contract, functionName: "reviewers", args: [userAddress] },
+					{ ...contract, functionName: "complianceOfficers", args: [userAddress] },
+				]
+			: [],
+		query: {
+			enabled: !!userAddress,
+		},
+	});
+
+	const approvalThreshold = Number(settingsData?.[0]?.result ?? 0n);
+	const reviewerCount = Number(settingsData?.[1]?.result ?? 0n);
+	const timelockDuration = Number(settingsData?.[2]?.result ?? 0n);
+	const proposalCount = (settingsData?.[3]?.result as bigint | undefined) ?? 0n;
+	const governanceProposalCount = (settingsData?.[4]?.result as bigint | undefined) ?? 0n;
+
+	const {
+		data: proposalsRaw,
+		isLoading: proposalsLoading,
+		refetch: refetchProposalList,
+	} = useReadContract({
+		...contract,
+		functionName: "getProposals",
+		args: [1n, proposalCount],
+		query: {
+			enabled: proposalCount > 0n,
+		},
+	});
+
+	const {
+		data: governanceRaw,
+		isLoading: governanceLoading,
+		refetch: refetchGovernanceList,
+	} = useReadContract({
+		...contract,
+		functionName: "getGovernanceProposals",
+		args: [1n, governanceProposalCount],
+		query: {
+			enabled: governanceProposalCount > 0n,
+		},
+	});
+
+	// Active approvals, and whether the connected reviewer already approved (two reads per proposal)
+	const approvalContracts = useMemo(() => {
+		if (!proposalsRaw) return [];
+		return proposalsRaw.flatMap((proposal) => [
+			{
+				address: SHARIA_COMPLIANCE_ADDRESS,
+				abi: ShariaComplianceABI,
+				functionName: "getActiveApprovals" as const,
+				args: [proposal.id] as const,
+			},
+			...(userAddress
+				? [
+						{
+							address: SHARIA_COMPLIANCE_ADDRESS,
+							abi: ShariaComplianceABI,
+							functionName: "hasApproved" as const,
+							args: [proposal.id, userAddress] as const,
+						},
+					]
+				: []),
+		]);
+	}, [proposalsRaw, userAddress, SHARIA_COMPLIANCE_ADDRESS]);
+
+	const governanceApprovalContracts = useMemo(() => {
+		if (!governanceRaw) return [];
+		return governanceRaw.flatMap((proposal) => [
+			{
+				address: SHARIA_COMPLIANCE_ADDRESS,
+				abi: ShariaComplianceABI,
+				functionName: "getActiveGovernanceApprovals" as const,
+				args: [proposal.id] as const,
+			},
+			...(userAddress
+				? [
+						{
+							address: SHARIA_COMPLIANCE_ADDRESS,
+							abi: ShariaComplianceABI,
+							functionName: "hasApprovedGovernance" as const,
+							args: [proposal.id, userAddress] as const,
+						},
+					]
+				: []),
+		]);
+	}, [governanceRaw, userAddress, SHARIA_COMPLIANCE_ADDRESS]);
+
+	const { data: approvalsData, refetch: refetchApprovals } = useReadContracts({
+		contracts: approvalContracts,
+		query: {
+			enabled: approvalContracts.length > 0,
+		},
+	});
+
+	const { data: governanceApprovalsData, refetch: refetchGovernanceApprovals } = useReadContracts({
+		contracts: governanceApprovalContracts,
+		query: {
+			enabled: governanceApprovalContracts.length > 0,
+		},
+	});
+
+	const readsPerProposal = userAddress ? 2 : 1;
+
+	const proposals = useMemo((): ProposalView[] => {
+		if (!proposalsRaw) return [];
+		return [...(proposalsRaw as readonly ComplianceProposal[])]
+			.map((proposal, i) => {
+				const activeApprovals = Number(approvalsData?.[i * readsPerProposal]?.result ?? 0n);
+				return {
+					...proposal,
+					state: toState(proposal, activeApprovals, approvalThreshold),
+					approvedByMe: userAddress ? approvalsData?.[i * readsPerProposal + 1]?.result === true : false,
+					activeApprovals,
+				};
+			})
+			.reverse();
+	}, [proposalsRaw, approvalsData, readsPerProposal, approvalThreshold, userAddress]);
+
+	const governanceProposals = useMemo((): GovernanceProposalView[] => {
+		if (!governanceRaw) return [];
+		return [...(governanceRaw as readonly GovernanceProposal[])]
+			.map((proposal, i) => {
+				const activeApprovals = Number(governanceApprovalsData?.[i * readsPerProposal]?.result ?? 0n);
+				return {
+					...proposal,
+					state: toState(proposal, activeApprovals, approvalThreshold),
+					approvedByMe: userAddress ? governanceApprovalsData?.[i * readsPerProposal + 1]?.result === true : false,
+					activeApprovals,
+				};
+			})
+			.reverse();
+	}, [governanceRaw, governanceApprovalsData, readsPerProposal, approvalThreshold, userAddress]);
+
+	const refetchProposals = () => {
+		refetchSettings();
+		refetchRoles();
+		refetchProposalList();
+		refetchGovernanceList();
+		refetchApprovals();
+		refetchGovernanceApprovals();
+	};
+
+	return {
+		proposals,
+		proposalsLoading: settingsLoading || proposalsLoading,
+		governanceProposals,
+		governanceProposalsLoading: settingsLoading || governanceLoading,
+		approvalThreshold,
+		reviewerCount,
+		timelockDuration,
+		// Threshold 0 keeps direct owner updates (and direct settings changes)
+		approvalRequired: approvalThreshold > 0,
+		isReviewer: rolesData?.[0]?.result === true,
+		isComplianceOfficer: rolesData?.[1]?.result === true,
+		refetchProposals,
+	};
+}
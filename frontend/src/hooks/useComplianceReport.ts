@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { getAddress, isAddress, zeroAddress } from "viem";
+import type { Address } from "viem";
+import { useChainId, usePublicClient } from "wagmi";
+import { ERC20_ABI, ShariaComplianceABI } from "../config/abis";
+import { hashComplianceReport } from "../utils/complianceReport";
+import type { ComplianceReport, ComplianceReportPayload, ReportHolding } from "../utils/complianceReport";
+import { useContracts } from "./useContracts";
+
+/**
+ * Hook to produce a wallet's verifiable compliance report (see utils/complianceReport.ts)
+ * Every read is pinned to the latest block at the time of the request, so the
+ * report can be re-checked against historical state at that block.
+ */
+export function useComplianceReport() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const chainId = useChainId();
+	const publicClient = usePublicClient();
+	const [report, setReport] = useState<ComplianceReport | null>(null);
+	const [isGenerating, setIsGenerating] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const generateReport = async (wallet: string) => {
+		if (!publicClient) {
+			setError("Public client not available");
+			return;
+		}
+		if (!isAddress(wallet)) {
+			setError("Invalid wallet address format");
+			return;
+		}
+
+		setIsGenerating(true);
+		setError(null);
+		try {
+			const walletAddress = getAddress(wallet);
+			const block = await publicClient.getBlock({ blockTag: "latest" });
+			const blockNumber = block.number;
+
+			const registeredCoins = await publicClient.readContract({
+				address: SHARIA_COMPLIANCE_ADDRESS,
+				abi: ShariaComplianceABI,
+				functionName: "getAllShariaCoins",
+				blockNumber,
+			});
+			// Coins registered without a token contract can't be held
+			const coins = registeredCoins.filter((coin) => coin.tokenAddress !== zeroAddress);
+
+			// Plain reads rather than multicall: Multicall3 may not exist on the chain (or at the block)
+			const balances = await Promise.all(
+				coins.map((coin) =>
+					publicClient.readContract({
+						address: coin.tokenAddress as Address,
+						abi: ERC20_ABI,
+						functionName: "balanceOf",
+						args: [walletAddress],
+						blockNumber,
+					}) as Promise<bigint>
+				)
+			);
+
+			const holdings: ReportHolding[] = [];
+			for (const [i, coin] of coins.entries()) {
+				if (balances[i] === 0n) continue;
+				const decimals = await publicClient.readContract({
+					address: coin.tokenAddress as Address,
+					abi: ERC20_ABI,
+					functionName: "decimals",
+					blockNumber,
+				});
+				holdings.push({
+					coinId: coin.id,
+					symbol: coin.symbol,
+					token: getAddress(coin.tokenAddress),
+					balance: balances[i].toString(),
+					decimals: Number(decimals),
+					verified: coin.verified,
+					complianceReason: coin.complianceReason,
+				});
+			}
+
+			const nativeBalance = await publicClient.getBalance({ address: walletAddress, blockNumber });
+
+			const payload: ComplianceReportPayload = {
+				kind: "tayeb-wallet-compliance-report",
+				version: 1,
+				chainId,
+				contract: getAddress(SHARIA_COMPLIANCE_ADDRESS),
+				wallet: walletAddress,
+				blockNumber: Number(blockNumber),
+				blockTimestamp: Number(block.timestamp),
+				nativeBalance: nativeBalance.toString(),
+				holdings,
+			};
+			setReport({ payload, payloadHash: hashComplianceReport(payload) });
+		} catch (err) {
+			console.error("Error generating compliance report:", err);
+			setError(err instanceof Error ? err.message : "Failed to generate the report");
+		} finally {
+			setIsGenerating(false);
+		}
+	};
+
+	return {
+		report,
+		generateReport,
+		clearReport: () => setReport(null),
+		isGenerating,
+		error,
+	};
+}
@@ -0,0 +1,12 @@
+import { useMemo } from "react";
+import { useChainId } from "wagmi";
+import { getContracts } from "../config/contracts";
+
+/**
+ * Contract addresses for the connected chain
+ * Falls back to the default chain when the registry has no deployment for it
+ */
+export function useContracts() {
+	const chainId = useChainId();
+	return useMemo(() => getContracts(chainId), [chainId]);
+}
@@ -0,0 +1,184 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useReadContract } from "wagmi";
+import { ShariaSwapABI } from "../config/abis";
+import { INDEXER_REFETCH_MS, INDEXER_URL } from "../config/indexer";
+import type {
+	IndexedCoinEvent,
+	IndexedDCAEvent,
+	IndexedDCAOrder,
+	IndexedHeldToken,
+	IndexedPairEvent,
+	IndexedSwap,
+	SwapRecord,
+} from "../types";
+import { useContracts } from "./useContracts";
+
+/**
+ * GET a path from the indexer API
+ */
+async function fetchIndexer<T>(path: string, params: Record<string, string | number | undefined> = {}): Promise<T> {
+	const query = new URLSearchParams();
+	for (const [key, value] of Object.entries(params)) {
+		if (value !== undefined) query.set(key, String(value));
+	}
+	const response = await fetch(`${INDEXER_URL}${path}${query.size > 0 ? `?${query}` : ""}`);
+	if (!response.ok) {
+		throw new Error(`Indexer API error: ${response.status}`);
+	}
+	return response.json();
+}
+
+/**
+ * Hook for the indexed swap history of an address (newest first)
+ * Disabled when VITE_INDEXER_URL isn't set
+ */
+export function useIndexedSwaps(user: string | undefined, limit = 50) {
+	return useQuery({
+		queryKey: ["indexer", "swaps", user?.toLowerCase(), limit],
+		queryFn: () => fetchIndexer<{ swaps: IndexedSwap[] }>("/swaps", { user, limit }).then((data) => data.swaps),
+		enabled: !!INDEXER_URL && !!user,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Hook for an owner's DCA orders with status and execution totals
+ */
+export function useIndexedDCAOrders(owner: string | undefined) {
+	return useQuery({
+		queryKey: ["indexer", "dca-orders", owner?.toLowerCase()],
+		queryFn: () =>
+			fetchIndexer<{ orders: IndexedDCAOrder[] }>("/dca/orders", { owner, limit: 1000 }).then((data) => data.orders),
+		enabled: !!INDEXER_URL && !!owner,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Hook for one DCA order's events (creation, executions, cancellation/completion)
+ */
+export function useIndexedDCAEvents(orderId: bigint | undefined) {
+	return useQuery({
+		queryKey: ["indexer", "dca-events", orderId?.toString()],
+		queryFn: () =>
+			fetchIndexer<{ events: IndexedDCAEvent[] }>("/dca/events", {
+				orderId: orderId?.toString(),
+				limit: 1000,
+			}).then((data) => data.events),
+		enabled: !!INDEXER_URL && orderId !== undefined,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Hook for a coin's compliance registry changes (newest first)
+ */
+export function useIndexedCoinEvents(coinId: string | undefined) {
+	return useQuery({
+		queryKey: ["indexer", "coin-events", coinId],
+		queryFn: () =>
+			fetchIndexer<{ events: IndexedCoinEvent[] }>("/coins/events", { coinId, limit: 1000 }).then(
+				(data) => data.events
+			),
+		enabled: !!INDEXER_URL && !!coinId,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Hook for every DCAOrderExecuted event of an owner's orders (newest first)
+ */
+export function useIndexedDCAFills(owner: string | undefined) {
+	return useQuery({
+		queryKey: ["indexer", "dca-fills", owner?.toLowerCase()],
+		queryFn: () =>
+			fetchIndexer<{ events: IndexedDCAEvent[] }>("/dca/events", {
+				owner,
+				event: "executed",
+				limit: 1000,
+			}).then((data) => data.events),
+		enabled: !!INDEXER_URL && !!owner,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Hook for a pair's Swap/Mint/Burn/Sync history since a unix timestamp
+ */
+export function usePairEvents(pair: string | undefined, event?: IndexedPairEvent["event"], fromTimestamp?: number) {
+	return useQuery({
+		queryKey: ["indexer", "pair-events", pair?.toLowerCase(), event, fromTimestamp],
+		queryFn: () =>
+			fetchIndexer<{ events: IndexedPairEvent[] }>(`/pairs/${pair}/events`, {
+				event,
+				from: fromTimestamp,
+				limit: 1000,
+			}).then((data) => data.events),
+		enabled: !!INDEXER_URL && !!pair,
+		refetchInterval: INDEXER_REFETCH_MS,
+	});
+}
+
+/**
+ * Tokens an address has sent or received, from the indexer's Transfer table
+ * (for one-off scans; the indexer must run with INDEXER_TRANSFERS=true)
+ */
+export async function fetchIndexedHeldTokens(holder: string): Promise<IndexedHeldToken[]> {
+	const data = await fetchIndexer<{ tokens: IndexedHeldToken[] }>("/tokens/held", { address: holder });
+	return data.tokens;
+}
+
+/**
+ * Hook for an address's swap history as SwapRecords
+ * Reads the indexer when VITE_INDEXER_URL is set, otherwise ShariaSwap.getUserSwapHistory
+ */
+export function useSwapHistory(
+	user: string | undefined,
+	options: { enabled?: boolean; refetchInterval?: number; limit?: number } = {}
+) {
+	const { SHARIA_SWAP } = useContracts();
+	const { enabled = true, refetchInterval, limit } = options;
+
+	// The contract always returns the full history; limit only applies to the indexer
+	const indexed = useIndexedSwaps(enabled ? user : undefined, limit);
+	const onChain = useReadContract({
+		address: SHARIA_SWAP,
+		abi: ShariaSwapABI,
+		functionName: "getUserSwapHistory",
+		args: [user as `0x${string}`],
+		query: {
+			enabled: !INDEXER_URL && !!user && enabled,
+			refetchInterval,
+		},
+	}) as {
+		data: SwapRecord[] | undefined;
+		isLoading: boolean;
+		refetch: () => void;
+	};
+
+	// The event doesn't carry the input symbol: consumers fall back to the token list
+	const indexedRecords = useMemo(
+		() =>
+			indexed.data?.map(
+				(swap): SwapRecord => ({
+					tokenIn: swap.tokenIn,
+					tokenOut: swap.tokenOut,
+					amountIn: BigInt(swap.amountIn),
+					amountOut: BigInt(swap.amountOut),
+					timestamp: BigInt(swap.timestamp),
+					tokenInSymbol: "",
+					tokenOutSymbol: swap.tokenOutSymbol,
+				})
+			),
+		[indexed.data]
+	);
+
+	if (!INDEXER_URL) return onChain;
+
+	return {
+		data: indexedRecords,
+		isLoading: indexed.isLoading,
+		refetch: indexed.refetch,
+	};
+}
@@ -0,0 +1,287 @@
+import { useMemo } from "react";
+import type { Address } from "viem";
+import {
+	useAccount,
+	useChainId,
+	useReadContracts,
+	useSwitchChain,
+	useWaitForTransactionReceipt,
+	useWriteContract,
+} from "wagmi";
+import { ERC20_ABI, SIMPLE_PAIR_ABI, SIMPLE_ROUTER_ABI } from "../config/abis";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { getTokenDecimalsBySymbol } from "../config/contracts";
+import { useContracts } from "./useContracts";
+
+// Router deadline for liquidity transactions (same window as swaps)
+const DEADLINE_SECONDS = 60 * 15;
+
+/**
+ * One side of a pool
+ */
+export interface PoolToken {
+	address: Address;
+	symbol: string;
+	decimals: number;
+	isNative: boolean; // WETH side, deposited and withdrawn as native DEV
+}
+
+/**
+ * A registered pair with its reserves and the connected user's position
+ */
+export interface PoolInfo {
+	name: string; // Key in deployedContracts.pairs (e.g. "BTC_USDC")
+	pair: Address;
+	token0: PoolToken;
+	token1: PoolToken;
+	reserve0: bigint;
+	reserve1: bigint;
+	totalSupply: bigint;
+	lpBalance: bigint;
+}
+
+/**
+ * Hook to read every pair in deployedContracts.pairs with reserves and LP balances
+ */
+export function usePools() {
+	const { PAIRS, TOKENS, WETH } = useContracts();
+	const { address: userAddress } = useAccount();
+
+	// Registered pairs (entries without an address were never created)
+	const pairs = useMemo(
+		() =>
+			Object.entries(PAIRS).filter((entry): entry is [string, Address] => !!entry[1]),
+		[PAIRS]
+	);
+
+	// Five calls per pair: token0, token1, reserves, LP supply and the user's LP balance
+	const contracts = useMemo(
+		() =>
+			pairs.flatMap(([, pair]) => [
+				{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "token0" } as const,
+				{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "token1" } as const,
+				{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "getReserves" } as const,
+				{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "totalSupply" } as const,
+				{
+					address: pair,
+					abi: SIMPLE_PAIR_ABI,
+					functionName: "balanceOf",
+					args: [userAddress ?? "0x0000000000000000000000000000000000000000"],
+				} as const,
+			]),
+		[pairs, userAddress]
+	);
+
+	const { data, isLoading, refetch: refetchPools } = useReadContracts({
+		contracts,
+		query: {
+			enabled: contracts.length > 0,
+		},
+	});
+
+	const pools = useMemo(() => {
+		if (!data) return [];
+
+		const symbolByAddress = Object.fromEntries(
+			Object.entries(TOKENS).map(([symbol, address]) => [address.toLowerCase(), symbol])
+		);
+		const toPoolToken = (address: Address): PoolToken => {
+			const symbol = symbolByAddress[address.toLowerCase()] ?? `${address.slice(0, 6)}…${address.slice(-4)}`;
+			return {
+				address,
+				symbol,
+				decimals: getTokenDecimalsBySymbol(symbol),
+				isNative: address.toLowerCase() === WETH.toLowerCase(),
+			};
+		};
+
+		const result: PoolInfo[] = [];
+		pairs.forEach(([name, pair], i) => {
+			const [token0, token1, reserves, totalSupply, lpBalance] = data.slice(i * 5, i * 5 + 5);
+			if (token0?.status !== "success" || token1?.status !== "success" || reserves?.status !== "success") {
+				console.warn("⚠️ Skipping pair with unreadable reserves:", name, pair);
+				return;
+			}
+			const [reserve0, reserve1] = reserves.result as readonly [bigint, bigint, number];
+			result.push({
+				name,
+				pair,
+				token0: toPoolToken(token0.result as Address),
+				token1: toPoolToken(token1.result as Address),
+				reserve0,
+				reserve1,
+				totalSupply: totalSupply?.status === "success" ? (totalSupply.result as bigint) : 0n,
+				lpBalance: userAddress && lpBalance?.status === "success" ? (lpBalance.result as bigint) : 0n,
+			});
+		});
+		return result;
+	}, [data, pairs, TOKENS, WETH, userAddress]);
+
+	return {
+		pools,
+		isLoading,
+		refetchPools,
+	};
+}
+
+/**
+ * Hook for adding and removing liquidity through SimpleRouter (Wagmi v2)
+ */
+export function useLiquidity() {
+	const { ROUTER: ROUTER_ADDRESS } = useContracts();
+	const { address: userAddress, chainId: accountChainId } = useAccount();
+	const chainId = useChainId();
+	const { switchChain } = useSwitchChain();
+	const {
+		writeContract,
+		isPending: isWriting,
+		data: txHash,
+		error: writeError,
+		reset: resetWrite,
+	} = useWriteContract();
+
+	// Validate network before any transaction and prompt to switch if needed
+	// Use accountChainId if available (more reliable), fallback to chainId
+	const validateNetwork = async () => {
+		const currentChainId = accountChainId || chainId;
+		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+			if (!switchChain) {
+				throw new Error(
+					`Wrong network! You're connected to chain ID ${currentChainId || "unknown"}, but this app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}). Please switch networks in your wallet.`
+				);
+			}
+			try {
+				await switchChain({ chainId: REQUIRED_CHAIN_ID });
+				// Wait a moment for the switch to complete
+				await new Promise((resolve) => setTimeout(resolve, 500));
+			} catch (error) {
+				const { code, message } = error as { code?: number; message?: string };
+				if (code === 4001 || message?.includes("rejected")) {
+					throw new Error(
+						`Network switch was rejected. Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) manually in your wallet.`
+					);
+				}
+				throw new Error(
+					`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
+				);
+			}
+		}
+	};
+
+	// Wait for transaction confirmation
+	const {
+		isLoading: isConfirming,
+		isSuccess: isConfirmed,
+		error: confirmError,
+	} = useWaitForTransactionReceipt({
+		hash: txHash,
+	});
+
+	const getDeadline = () => BigInt(Math.floor(Date.now() / 1000) + DEADLINE_SECONDS);
+
+	// Approve a token (or LP token) for the router
+	const approveToken = async (tokenAddress: Address, amount: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: tokenAddress,
+			abi: ERC20_ABI,
+			functionName: "approve",
+			args: [ROUTER_ADDRESS, amount],
+		});
+	};
+
+	// Add liquidity to an ERC20/ERC20 pair
+	const addLiquidity = async (
+		tokenA: Address,
+		tokenB: Address,
+		amountA: bigint,
+		amountB: bigint,
+		amountAMin: bigint,
+		amountBMin: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: ROUTER_ADDRESS,
+			abi: SIMPLE_ROUTER_ABI,
+			functionName: "addLiquidity",
+			args: [tokenA, tokenB, amountA, amountB, amountAMin, amountBMin, userAddress, getDeadline()],
+		});
+	};
+
+	// Add liquidity to a token/WETH pair paying native DEV (dust is refunded)
+	const addLiquidityETH = async (
+		token: Address,
+		amountToken: bigint,
+		amountETH: bigint,
+		amountTokenMin: bigint,
+		amountETHMin: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: ROUTER_ADDRESS,
+			abi: SIMPLE_ROUTER_ABI,
+			functionName: "addLiquidityETH",
+			args: [token, amountToken, amountTokenMin, amountETHMin, userAddress, getDeadline()],
+			value: amountETH,
+		});
+	};
+
+	// Remove liquidity from an ERC20/ERC20 pair (LP token must be approved)
+	const removeLiquidity = async (
+		tokenA: Address,
+		tokenB: Address,
+		liquidity: bigint,
+		amountAMin: bigint,
+		amountBMin: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: ROUTER_ADDRESS,
+			abi: SIMPLE_ROUTER_ABI,
+			functionName: "removeLiquidity",
+			args: [tokenA, tokenB, liquidity, amountAMin, amountBMin, userAddress, getDeadline()],
+		});
+	};
+
+	// Remove liquidity from a token/WETH pair, receiving native DEV
+	const removeLiquidityETH = async (
+		token: Address,
+		liquidity: bigint,
+		amountTokenMin: bigint,
+		amountETHMin: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: ROUTER_ADDRESS,
+			abi: SIMPLE_ROUTER_ABI,
+			functionName: "removeLiquidityETH",
+			args: [token, liquidity, amountTokenMin, amountETHMin, userAddress, getDeadline()],
+		});
+	};
+
+	return {
+		approveToken,
+		addLiquidity,
+		addLiquidityETH,
+		removeLiquidity,
+		removeLiquidityETH,
+		isWriting,
+		isConfirming,
+		isConfirmed,
+		txHash,
+		writeError,
+		confirmError,
+		resetWrite,
+		ROUTER_ADDRESS,
+	};
+}
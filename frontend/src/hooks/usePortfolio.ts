@@ -0,0 +1,143 @@
+import { useEffect, useMemo } from "react";
+import type { Address } from "viem";
+import { useAccount } from "wagmi";
+import { getTokenDecimalsBySymbol } from "../config/contracts";
+import { buildPositions, sumPositions } from "../utils/portfolio";
+import type { PortfolioAsset, PortfolioTrade } from "../utils/portfolio";
+import { useContracts } from "./useContracts";
+import { useSwapHistory } from "./useIndexer";
+import { useShariaCompliance } from "./useShariaCompliance";
+import { useDCAFills, useDCAOrders, useShariaDCA } from "./useShariaDCA";
+import { useTokenPrices } from "./useTokenPrices";
+import { useWalletTokenScanner } from "./useWalletTokenScanner";
+
+const NATIVE_TOKEN = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Hook for the connected wallet's positions and P&L
+ *
+ * Combines current balances (useWalletTokenScanner), the full ShariaSwap history
+ * and DCA fills, valued with useTokenPrices. See utils/portfolio.ts for the
+ * cost basis rules.
+ */
+export function usePortfolio() {
+	const { WETH, TOKENS } = useContracts();
+	const { address } = useAccount();
+	const { coins } = useShariaCompliance();
+	// Only registered tokens are priced, so skip the Transfer log discovery
+	const { scannedTokens, isScanning, error: scanError, scanWallet } = useWalletTokenScanner(undefined, {
+		discoverTokens: false,
+	});
+
+	const { data: swapHistory, isLoading: swapsLoading } = useSwapHistory(address, { limit: 1000 });
+	const { userOrderIds, loadingOrderIds } = useShariaDCA();
+	const { orders, isLoading: ordersLoading } = useDCAOrders(userOrderIds);
+	const { fills, isLoading: fillsLoading, error: fillsError } = useDCAFills(address as Address | undefined, orders);
+
+	// Re-read balances when the wallet or registry changes (scanWallet's identity follows both)
+	useEffect(() => {
+		if (address && coins.length > 0) {
+			scanWallet();
+		}
+	}, [address, coins.length, scanWallet]);
+
+	// Symbol and decimals for every registered token (WETH stands for native DEV)
+	const tokenInfo = useMemo(() => {
+		const info = new Map<string, { symbol: string; decimals: number }>();
+		for (const coin of coins) {
+			if (!coin.tokenAddress) continue;
+			info.set(coin.tokenAddress.toLowerCase(), {
+				symbol: coin.symbol,
+				decimals: getTokenDecimalsBySymbol(coin.symbol),
+			});
+		}
+		if (!info.has(WETH.toLowerCase())) info.set(WETH.toLowerCase(), { symbol: "DEV", decimals: 18 });
+		return info;
+	}, [coins, WETH]);
+
+	const describeToken = useMemo(
+		() => (tokenAddress: string) => tokenInfo.get(tokenAddress.toLowerCase()) ?? { symbol: "?", decimals: 18 },
+		[tokenInfo]
+	);
+
+	const trades = useMemo((): PortfolioTrade[] => {
+		const normalize = (tokenAddress: string) =>
+			tokenAddress.toLowerCase() === NATIVE_TOKEN ? WETH.toLowerCase() : tokenAddress.toLowerCase();
+		const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+		const swapTrades = (swapHistory ?? []).map(
+			(swap): PortfolioTrade => ({
+				timestamp: Number(swap.timestamp),
+				kind: "swap",
+				tokenIn: normalize(swap.tokenIn),
+				tokenOut: normalize(swap.tokenOut),
+				amountIn: swap.amountIn,
+				amountOut: swap.amountOut,
+				reference: "",
+			})
+		);
+
+		const dcaTrades = fills.flatMap((fill): PortfolioTrade[] => {
+			const order = ordersById.get(fill.orderId);
+			if (!order) return [];
+			return [
+				{
+					timestamp: fill.timestamp,
+					kind: "dca",
+					tokenIn: normalize(order.sourceToken),
+					tokenOut: normalize(order.targetToken),
+					amountIn: fill.amountIn,
+					amountOut: fill.amountOut,
+					reference: `DCA #${order.id} (${fill.txHash})`,
+				},
+			];
+		});
+
+		return [...swapTrades, ...dcaTrades].sort((a, b) => b.timestamp - a.timestamp);
+	}, [swapHistory, fills, orders, WETH]);
+
+	// Every token held or traded needs a price
+	const symbols = useMemo(() => {
+		const all = new Set(scannedTokens.map((token) => token.symbol));
+		for (const trade of trades) {
+			all.add(describeToken(trade.tokenIn).symbol);
+			all.add(describeToken(trade.tokenOut).symbol);
+		}
+		all.delete("?");
+		return [...all].sort();
+	}, [scannedTokens, trades, describeToken]);
+
+	const { prices, getSource, loading: pricesLoading } = useTokenPrices(symbols);
+
+	const assets = useMemo((): PortfolioAsset[] => {
+		const balances = new Map(scannedTokens.map((token) => [token.address.toLowerCase(), token]));
+		return [...tokenInfo.entries()].map(([tokenAddress, info]) => {
+			const scanned = balances.get(tokenAddress);
+			const price = prices[info.symbol.toUpperCase()]?.usd ?? 0;
+			return {
+				address: tokenAddress,
+				symbol: info.symbol,
+				decimals: scanned?.decimals ?? info.decimals,
+				balance: scanned?.balanceRaw ?? 0n,
+				price: price > 0 ? price : null,
+			};
+		});
+	}, [scannedTokens, tokenInfo, prices]);
+
+	const positions = useMemo(
+		() => buildPositions(trades, assets, TOKENS.USDC ?? ""),
+		[trades, assets, TOKENS.USDC]
+	);
+	const totals = useMemo(() => sumPositions(positions), [positions]);
+
+	return {
+		positions,
+		trades,
+		totals,
+		describeToken,
+		getPriceSource: getSource,
+		isLoading: isScanning || swapsLoading || loadingOrderIds || ordersLoading || fillsLoading || pricesLoading,
+		error: scanError ?? fillsError,
+		refresh: scanWallet,
+	};
+}
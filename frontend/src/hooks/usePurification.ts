@@ -0,0 +1,284 @@
+import { useCallback, useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import type { Address, Hash } from "viem";
+import { useAccount, useChainId, usePublicClient, useSwitchChain, useWriteContract } from "wagmi";
+import { ERC20_ABI, ShariaSwapABI } from "../config/abis";
+import { getTokenDecimalsBySymbol } from "../config/contracts";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
+import { impermissibleGain, minAmountOutFor } from "../utils/purification";
+import type { ImpermissibleGain } from "../utils/purification";
+import { useContracts } from "./useContracts";
+import { usePortfolio } from "./usePortfolio";
+import { useShariaCompliance } from "./useShariaCompliance";
+import { useBestRouteQuote } from "./useShariaSwap";
+import type { RouteQuote } from "./useShariaSwap";
+import { useTokenPrices } from "./useTokenPrices";
+import type { ScannedToken } from "./useWalletTokenScanner";
+
+/**
+ * Progress of one holding through the purification run
+ * - skipped: nothing to swap (no ERC20 balance, no compliant route, or the run was cancelled)
+ */
+export type PurificationStatus = "pending" | "approving" | "swapping" | "done" | "failed" | "skipped";
+
+export interface PurificationLeg {
+	token: ScannedToken;
+	amountIn: bigint; // ERC20 balance at quote time (native DEV is not swapped)
+	route: RouteQuote | null;
+	minAmountOut: bigint;
+	received: bigint | null; // Target tokens actually received once swapped
+	status: PurificationStatus;
+	txHash?: Hash;
+	error?: string;
+}
+
+export interface PurificationTarget {
+	address: Address;
+	symbol: string;
+	decimals: number;
+}
+
+/**
+ * Hook to swap non-compliant holdings into one compliant token and size the donation
+ *
+ * quote() reads each holding's balance and best compliant route; execute() then
+ * approves and swaps them one after the other, continuing past failed swaps and
+ * stopping when the user rejects a transaction. Gains follow utils/purification.ts,
+ * with cost bases from usePortfolio.
+ */
+export function usePurification(tokens: ScannedToken[]) {
+	const { SHARIA_SWAP: SHARIA_SWAP_ADDRESS } = useContracts();
+	const { address: userAddress, chainId: accountChainId } = useAccount();
+	const chainId = useChainId();
+	const { switchChain } = useSwitchChain();
+	const publicClient = usePublicClient();
+	const { writeContractAsync } = useWriteContract();
+	const { fetchRoute } = useBestRouteQuote();
+	const { coins } = useShariaCompliance();
+	const { positions, isLoading: portfolioLoading } = usePortfolio();
+
+	const [target, setTarget] = useState<PurificationTarget | null>(null);
+	const [legs, setLegs] = useState<PurificationLeg[]>([]);
+	const [isQuoting, setIsQuoting] = useState(false);
+	const [isRunning, setIsRunning] = useState(false);
+
+	// Compliant coins the holdings can be converted into
+	const targets = useMemo(
+		(): PurificationTarget[] =>
+			coins
+				.filter((coin) => coin.verified && coin.tokenAddress)
+				.map((coin) => ({
+					address: coin.tokenAddress,
+					symbol: coin.symbol,
+					decimals: getTokenDecimalsBySymbol(coin.symbol),
+				})),
+		[coins]
+	);
+
+	const { getPrice } = useTokenPrices(targets.map((coin) => coin.symbol));
+	const targetPrice = target ? getPrice(target.symbol) : 0;
+
+	// Validate network before the transactions and prompt to switch if needed
+	const validateNetwork = async () => {
+		const currentChainId = accountChainId || chainId;
+		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+			if (!switchChain) {
+				throw new Error(
+					`Wrong network! You're connected to chain ID ${currentChainId || "unknown"}, but this app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}). Please switch networks in your wallet.`
+				);
+			}
+			try {
+				await switchChain({ chainId: REQUIRED_CHAIN_ID });
+				// Wait a moment for the switch to complete
+				await new Promise((resolve) => setTimeout(resolve, 500));
+			} catch (error) {
+				const { code, message } = error as { code?: number; message?: string };
+				if (code === 4001 || message?.includes("rejected")) {
+					throw new Error(
+						`Network switch was rejected. Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) manually in your wallet.`
+					);
+				}
+				throw new Error(
+					`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
+				);
+			}
+		}
+	};
+
+	const updateLeg = (index: number, update: Partial<PurificationLeg>) =>
+		setLegs((prev) => prev.map((leg, i) => (i === index ? { ...leg, ...update } : leg)));
+
+	const balanceOf = async (token: Address) => {
+		if (!publicClient || !userAddress) return 0n;
+		return (await publicClient.readContract({
+			address: token,
+			abi: ERC20_ABI,
+			functionName: "balanceOf",
+			args: [userAddress],
+		})) as bigint;
+	};
+
+	/**
+	 * Quote every holding into the target, routing through compliant tokens only
+	 */
+	const quote = async (nextTarget: PurificationTarget, slippageBps: number) => {
+		setTarget(nextTarget);
+		setIsQuoting(true);
+		try {
+			const compliantAddresses = new Set(targets.map((coin) => coin.address.toLowerCase()));
+			const quoted: PurificationLeg[] = [];
+
+			for (const token of tokens) {
+				const leg: PurificationLeg = {
+					token,
+					amountIn: 0n,
+					route: null,
+					minAmountOut: 0n,
+					received: null,
+					status: "skipped",
+				};
+				quoted.push(leg);
+
+				leg.amountIn = await balanceOf(token.address as Address).catch(() => 0n);
+				if (leg.amountIn === 0n) {
+					leg.error = "No ERC20 balance to swap";
+					continue;
+				}
+
+				leg.route = await fetchRoute(token.address as Address, nextTarget.address, leg.amountIn, (address) =>
+					compliantAddresses.has(address.toLowerCase())
+				);
+				if (!leg.route) {
+					leg.error = `No compliant route to ${nextTarget.symbol}`;
+					continue;
+				}
+
+				leg.minAmountOut = minAmountOutFor(leg.route.amountOut, slippageBps);
+				leg.status = "pending";
+			}
+
+			setLegs(quoted);
+		} finally {
+			setIsQuoting(false);
+		}
+	};
+
+	/**
+	 * Approve and swap each quoted holding in turn
+	 */
+	const execute = async () => {
+		if (!publicClient || !userAddress || !target) return;
+		await validateNetwork();
+
+		setIsRunning(true);
+		try {
+			for (const [index, leg] of legs.entries()) {
+				if (leg.status !== "pending" || !leg.route) continue;
+
+				try {
+					const allowance = (await publicClient.readContract({
+						address: leg.token.address as Address,
+						abi: ERC20_ABI,
+						functionName: "allowance",
+						args: [userAddress, SHARIA_SWAP_ADDRESS],
+					})) as bigint;
+
+					if (allowance < leg.amountIn) {
+						updateLeg(index, { status: "approving" });
+						const approveHash = await writeContractAsync({
+							address: leg.token.address as Address,
+							abi: ERC20_ABI,
+							functionName: "approve",
+							args: [SHARIA_SWAP_ADDRESS, leg.amountIn],
+						});
+						const approval = await publicClient.waitForTransactionReceipt({ hash: approveHash });
+						if (approval.status !== "success") throw new Error("Approval transaction reverted");
+					}
+
+					updateLeg(index, { status: "swapping" });
+					const before = await balanceOf(target.address);
+					const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+					const swapHash = await writeContractAsync({
+						address: SHARIA_SWAP_ADDRESS,
+						abi: ShariaSwapABI,
+						functionName: "swapShariaCompliantWithPath",
+						args: [leg.route.path, leg.amountIn, leg.minAmountOut, deadline],
+					});
+					updateLeg(index, { txHash: swapHash });
+					const receipt = await publicClient.waitForTransactionReceipt({ hash: swapHash });
+					if (receipt.status !== "success") throw new Error("Swap transaction reverted");
+
+					const after = await balanceOf(target.address);
+					updateLeg(index, { status: "done", received: after - before });
+				} catch (err) {
+					updateLeg(index, { status: "failed", error: getFriendlyErrorMessage(err) });
+					if (isUserRejection(err)) {
+						setLegs((prev) =>
+							prev.map((other) =>
+								other.status === "pending" ? { ...other, status: "skipped", error: "Cancelled" } : other
+							)
+						);
+						break;
+					}
+				}
+			}
+		} finally {
+			setIsRunning(false);
+		}
+	};
+
+	// Gain for a leg: actual proceeds once swapped, the quote before
+	const legGain = useCallback(
+		(leg: PurificationLeg): ImpermissibleGain | null => {
+			const proceeds = leg.received ?? leg.route?.amountOut;
+			if (!target || !targetPrice || proceeds === undefined || leg.status === "skipped" || leg.status === "failed") {
+				return null;
+			}
+			const position = positions.find((p) => p.address === leg.token.address.toLowerCase());
+			return impermissibleGain(
+				position,
+				parseFloat(formatUnits(leg.amountIn, leg.token.decimals)),
+				parseFloat(formatUnits(proceeds, target.decimals)) * targetPrice
+			);
+		},
+		[positions, target, targetPrice]
+	);
+
+	const summary = useMemo(() => {
+		const active = legs.filter((leg) => leg.status !== "skipped" && leg.status !== "failed");
+		const proceeds = active.reduce((sum, leg) => sum + (leg.received ?? leg.route?.amountOut ?? 0n), 0n);
+		const gains = active.map(legGain);
+		const gainUsd = gains.every((gain) => gain !== null)
+			? gains.reduce((sum, gain) => sum + (gain?.gainUsd ?? 0), 0)
+			: null;
+		return {
+			proceeds,
+			gainUsd,
+			// Donation in target units (null without a target price)
+			donation: gainUsd !== null && targetPrice ? gainUsd / targetPrice : null,
+			uncosted: gains.some((gain) => (gain?.uncostedUnits ?? 0) > 0),
+			completed: legs.filter((leg) => leg.status === "done").length,
+		};
+	}, [legs, legGain, targetPrice]);
+
+	const reset = () => {
+		setTarget(null);
+		setLegs([]);
+	};
+
+	return {
+		targets,
+		target,
+		targetPrice,
+		legs,
+		legGain,
+		summary,
+		quote,
+		execute,
+		reset,
+		isQuoting,
+		isRunning,
+		portfolioLoading,
+	};
+}
@@ -0,0 +1,216 @@
+import { useMemo } from "react";
+import { isAddress } from "viem";
+import type { Address } from "viem";
+import {
+	useAccount,
+	useChainId,
+	useReadContract,
+	useReadContracts,
+	useSwitchChain,
+	useWaitForTransactionReceipt,
+	useWriteContract,
+} from "wagmi";
+import { ERC20_ABI, ShariaComplianceABI } from "../config/abis";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { useContracts } from "./useContracts";
+
+// Requests read per getPendingReviewRequests call
+const REVIEW_REQUEST_PAGE_SIZE = 50n;
+
+/**
+ * ReviewRequest struct as returned by viem
+ */
+export type ReviewRequest = {
+	token: Address;
+	requester: Address;
+	requestedAt: bigint;
+	note: string;
+};
+
+/**
+ * Open review request with the token's own symbol and name (empty if unreadable)
+ */
+export interface PendingReviewRequest extends ReviewRequest {
+	symbol: string;
+	name: string;
+}
+
+/**
+ * Hook for the open requests to screen unregistered tokens (oldest first)
+ */
+export function usePendingReviewRequests() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+
+	const {
+		data: requestCount,
+		isLoading: countLoading,
+		refetch: refetchCount,
+	} = useReadContract({
+		address: SHARIA_COMPLIANCE_ADDRESS,
+		abi: ShariaComplianceABI,
+		functionName: "getPendingReviewRequestCount",
+	});
+
+	// The queue is paginated on-chain; read it a page at a time
+	const pageContracts = useMemo(() => {
+		const pages = [];
+		for (let offset = 0n; offset < (requestCount ?? 0n); offset += REVIEW_REQUEST_PAGE_SIZE) {
+			pages.push({
+				address: SHARIA_COMPLIANCE_ADDRESS,
+				abi: ShariaComplianceABI,
+				functionName: "getPendingReviewRequests" as const,
+				args: [offset, REVIEW_REQUEST_PAGE_SIZE] as const,
+			});
+		}
+		return pages;
+	}, [requestCount, SHARIA_COMPLIANCE_ADDRESS]);
+
+	const {
+		data: pagesData,
+		isLoading: pagesLoading,
+		refetch: refetchPages,
+	} = useReadContracts({
+		contracts: pageContracts,
+		query: {
+			enabled: pageContracts.length > 0,
+		},
+	});
+
+	const requestsRaw = useMemo(
+		() => (pagesData ?? []).flatMap((page) => (page.result ?? []) as readonly ReviewRequest[]),
+		[pagesData]
+	);
+
+	const metadataContracts = useMemo(
+		() =>
+			requestsRaw.flatMap((request) => [
+				{ address: request.token, abi: ERC20_ABI, functionName: "symbol" as const },
+				{ address: request.token, abi: ERC20_ABI, functionName: "name" as const },
+			]),
+		[requestsRaw]
+	);
+
+	const { data: metadata } = useReadContracts({
+		contracts: metadataContracts,
+		query: {
+			enabled: metadataContracts.length > 0,
+		},
+	});
+
+	const reviewRequests = useMemo((): PendingReviewRequest[] => {
+		return requestsRaw
+			.map((request, i) => ({
+				...request,
+				symbol: (metadata?.[i * 2]?.result as string | undefined) ?? "",
+				name: (metadata?.[i * 2 + 1]?.result as string | undefined) ?? "",
+			}))
+			.sort((a, b) => Number(a.requestedAt - b.requestedAt));
+	}, [requestsRaw, metadata]);
+
+	const refetchReviewRequests = () => {
+		refetchCount();
+		refetchPages();
+	};
+
+	return {
+		reviewRequests,
+		reviewRequestsLoading: countLoading || pagesLoading,
+		refetchReviewRequests,
+	};
+}
+
+/**
+ * Hook for holders to ask compliance admins to screen a token outside the registry
+ */
+export function useRequestReview() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const { address: userAddress, chainId: accountChainId } = useAccount();
+	const chainId = useChainId();
+	const { switchChain } = useSwitchChain();
+
+	const { writeContract, isPending: isWriting, data: txHash, error: writeError, reset } = useWriteContract();
+
+	// Each account can request once per cooldown
+	const { data: cooldownData } = useReadContracts({
+		contracts: userAddress
+			? [
+					{
+						address: SHARIA_COMPLIANCE_ADDRESS,
+						abi: ShariaComplianceABI,
+						functionName: "lastReviewRequestAt",
+						args: [userAddress],
+					},
+					{ address: SHARIA_COMPLIANCE_ADDRESS, abi: ShariaComplianceABI, functionName: "REVIEW_REQUEST_COOLDOWN" },
+				]
+			: [],
+		query: {
+			enabled: !!userAddress,
+		},
+	});
+
+	const {
+		isLoading: isConfirming,
+		isSuccess: isConfirmed,
+		error: confirmError,
+	} = useWaitForTransactionReceipt({
+		hash: txHash,
+	});
+
+	// Validate network before the transaction and prompt to switch if needed
+	const validateNetwork = async () => {
+		const currentChainId = accountChainId || chainId;
+		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+			if (!switchChain) {
+				throw new Error(
+					`Wrong network! You're connected to chain ID ${currentChainId || "unknown"}, but this app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}). Please switch networks in your wallet.`
+				);
+			}
+			try {
+				await switchChain({ chainId: REQUIRED_CHAIN_ID });
+				// Wait a moment for the switch to complete
+				await new Promise((resolve) => setTimeout(resolve, 500));
+			} catch (error) {
+				const { code, message } = error as { code?: number; message?: string };
+				if (code === 4001 || message?.includes("rejected")) {
+					throw new Error(
+						`Network switch was rejected. Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) manually in your wallet.`
+					);
+				}
+				throw new Error(
+					`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
+				);
+			}
+		}
+	};
+
+	/**
+	 * Record a review request on ShariaCompliance (one open request per token)
+	 */
+	const requestReview = async (token: string, note: string) => {
+		if (!userAddress) throw new Error("Connect a wallet to request a review");
+		if (!isAddress(token)) throw new Error("Invalid token address");
+		const lastRequestAt = Number(cooldownData?.[0]?.result ?? 0n);
+		const availableAt = lastRequestAt + Number(cooldownData?.[1]?.result ?? 0n);
+		if (lastRequestAt > 0 && Date.now() / 1000 < availableAt) {
+			throw new Error(`You can request another review after ${new Date(availableAt * 1000).toLocaleTimeString()}`);
+		}
+		await validateNetwork();
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "requestReview",
+			args: [token, note.trim()],
+		});
+	};
+
+	return {
+		requestReview,
+		isWriting,
+		isConfirming,
+		isConfirmed,
+		txHash,
+		error: writeError ?? confirmError,
+		reset,
+	};
+}
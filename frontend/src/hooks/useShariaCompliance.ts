@@ -2,11 +2,9 @@ import { useMemo } from "react";
 import type { Address } from "viem";
 import { useReadContract } from "wagmi";
 import { ShariaComplianceABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
-
-const SHARIA_COMPLIANCE_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaCompliance: string } }
-).main.shariaCompliance as Address;
+import { parseScreening } from "../utils/complianceScreening";
+import type { CoinScreening, ComplianceMetadataStruct } from "../utils/complianceScreening";
+import { useContracts } from "./useContracts";
 
 /**
  * Type matching the smart contract's ShariaCoin struct
@@ -26,11 +24,13 @@ export interface ShariaCoin {
  * Replaces the old useShariaCompliance hook
  */
 export function useShariaCompliance() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
 	// Get all Sharia-compliant coins
 	const {
 		data: coinsRaw,
 		isLoading: coinsLoading,
 		error: coinsError,
+		refetch: refetchCoins,
 	} = useReadContract({
 		address: SHARIA_COMPLIANCE_ADDRESS,
 		abi: ShariaComplianceABI,
@@ -54,15 +54,55 @@ export function useShariaCompliance() {
 		coins,
 		coinsLoading,
 		coinsError,
+		refetchCoins,
 		totalCoins: totalCoins ? Number(totalCoins) : 0,
 		SHARIA_COMPLIANCE_ADDRESS,
 	};
 }
 
+/**
+ * Hook for every coin's structured screening (category, reviewer, review dates), keyed by coin ID
+ * Coins without a recorded review are missing from the map.
+ */
+export function useComplianceScreening() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const { coins, coinsLoading } = useShariaCompliance();
+
+	const {
+		data: metadataRaw,
+		isLoading: metadataLoading,
+		refetch: refetchScreenings,
+	} = useReadContract({
+		address: SHARIA_COMPLIANCE_ADDRESS,
+		abi: ShariaComplianceABI,
+		functionName: "getAllComplianceMetadata",
+	});
+
+	// getAllComplianceMetadata() follows the same order as getAllShariaCoins()
+	const screenings = useMemo(() => {
+		const byCoinId: Record<string, CoinScreening> = {};
+		const metadata = (metadataRaw ?? []) as readonly ComplianceMetadataStruct[];
+		if (metadata.length !== coins.length) return byCoinId;
+
+		coins.forEach((coin, i) => {
+			const screening = parseScreening(metadata[i]);
+			if (screening) byCoinId[coin.id] = screening;
+		});
+		return byCoinId;
+	}, [metadataRaw, coins]);
+
+	return {
+		screenings,
+		isLoading: coinsLoading || metadataLoading,
+		refetchScreenings,
+	};
+}
+
 /**
  * Hook to check if a specific symbol is Sharia compliant
  */
 export function useIsShariaCompliant(symbol: string | undefined) {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
 	const { data: isCompliant, isLoading } = useReadContract({
 		address: SHARIA_COMPLIANCE_ADDRESS,
 		abi: ShariaComplianceABI,
@@ -80,6 +120,7 @@ export function useIsShariaCompliant(symbol: string | undefined) {
  * Hook to get coin details by symbol
  */
 export function useCoinBySymbol(symbol: string | undefined) {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
 	const { data: coin, isLoading } = useReadContract({
 		address: SHARIA_COMPLIANCE_ADDRESS,
 		abi: ShariaComplianceABI,
@@ -0,0 +1,511 @@
+import { useMemo } from "react";
+import { isAddress, isHex, zeroAddress } from "viem";
+import type { Address } from "viem";
+import {
+	useAccount,
+	useChainId,
+	usePublicClient,
+	useReadContract,
+	useSwitchChain,
+	useWaitForTransactionReceipt,
+	useWriteContract,
+} from "wagmi";
+import tayebCoinsData from "../../../config/tayebCoins.json";
+import { ERC20_ABI, ShariaComplianceABI } from "../config/abis";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import { previewConfigDiff } from "../utils/complianceConfig";
+import type { ComplianceAction, ConfigCoin } from "../utils/complianceConfig";
+import { toComplianceMetadata } from "../utils/complianceScreening";
+import type { CoinScreening } from "../utils/complianceScreening";
+import { GOVERNANCE_ACTIONS } from "../utils/complianceProposals";
+import type { GovernanceAction } from "../utils/complianceProposals";
+import { useComplianceProposals } from "./useComplianceProposals";
+import { useContracts } from "./useContracts";
+import { usePendingReviewRequests } from "./useReviewRequests";
+import { useComplianceScreening, useShariaCompliance } from "./useShariaCompliance";
+
+/**
+ * ERC20 metadata read from the token contract before registration
+ */
+export interface TokenMetadata {
+	address: Address;
+	name: string;
+	symbol: string;
+	decimals: number;
+}
+
+/**
+ * Owner-only ShariaCompliance administration (Wagmi v2)
+ *
+ * Registers, re-classifies and removes coins, records their screening, and previews the tayebCoins.json
+ * change the event listener will make for each action. Once an approval threshold is set, verdict
+ * changes go through proposals: officers propose, reviewers approve, anyone executes after the timelock.
+ * Review requests for unregistered tokens are registered or dismissed from here too.
+ */
+export function useShariaComplianceAdmin() {
+	const { SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const { address: userAddress, chainId: accountChainId } = useAccount();
+	const chainId = useChainId();
+	const { switchChain } = useSwitchChain();
+	const publicClient = usePublicClient();
+	const { coins, coinsLoading, refetchCoins } = useShariaCompliance();
+	const { screenings, refetchScreenings } = useComplianceScreening();
+	const governance = useComplianceProposals();
+	const reviewQueue = usePendingReviewRequests();
+
+	const { data: owner, isLoading: ownerLoading } = useReadContract({
+		address: SHARIA_COMPLIANCE_ADDRESS,
+		abi: ShariaComplianceABI,
+		functionName: "owner",
+	});
+
+	const isOwner = useMemo(
+		() => !!owner && !!userAddress && owner.toLowerCase() === userAddress.toLowerCase(),
+		[owner, userAddress]
+	);
+
+	const {
+		writeContract,
+		isPending: isWriting,
+		data: txHash,
+		error: writeError,
+		reset: resetWrite,
+	} = useWriteContract();
+
+	const {
+		isLoading: isConfirming,
+		isSuccess: isConfirmed,
+		error: confirmError,
+	} = useWaitForTransactionReceipt({
+		hash: txHash,
+	});
+
+	// Validate network before any transaction and prompt to switch if needed
+	// Use accountChainId if available (more reliable), fallback to chainId
+	const validateNetwork = async () => {
+		const currentChainId = accountChainId || chainId;
+		if (!currentChainId || currentChainId !== REQUIRED_CHAIN_ID) {
+			if (!switchChain) {
+				throw new Error(
+					`Wrong network! You're connected to chain ID ${currentChainId || "unknown"}, but this app requires ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}). Please switch networks in your wallet.`
+				);
+			}
+			try {
+				await switchChain({ chainId: REQUIRED_CHAIN_ID });
+				// Wait a moment for the switch to complete
+				await new Promise((resolve) => setTimeout(resolve, 500));
+			} catch (error) {
+				const { code, message } = error as { code?: number; message?: string };
+				if (code === 4001 || message?.includes("rejected")) {
+					throw new Error(
+						`Network switch was rejected. Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) manually in your wallet.`
+					);
+				}
+				throw new Error(
+					`Please switch to ${REQUIRED_CHAIN_NAME} (Chain ID: ${REQUIRED_CHAIN_ID}) in your wallet. If the network is not added, MetaMask will prompt you to add it.`
+				);
+			}
+		}
+	};
+
+	// Every admin function is onlyOwner; fail before the wallet prompt instead of on revert
+	const requireOwner = () => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!isOwner) throw new Error("Only the ShariaCompliance owner can change the registry");
+	};
+
+	const requireOpenProposal = (proposalId: bigint) => {
+		const proposal = governance.proposals.find((p) => p.id === proposalId);
+		if (!proposal) throw new Error(`Proposal #${proposalId} not found`);
+		if (proposal.state === "executed" || proposal.state === "cancelled") {
+			throw new Error(`Proposal #${proposalId} is already ${proposal.state}`);
+		}
+		return proposal;
+	};
+
+	const requireOpenGovernanceProposal = (proposalId: bigint) => {
+		const proposal = governance.governanceProposals.find((p) => p.id === proposalId);
+		if (!proposal) throw new Error(`Governance proposal #${proposalId} not found`);
+		if (proposal.state === "executed" || proposal.state === "cancelled") {
+			throw new Error(`Governance proposal #${proposalId} is already ${proposal.state}`);
+		}
+		return proposal;
+	};
+
+	// Once a threshold is set, settings changes need reviewer approval like verdicts
+	const proposeGovernanceChange = async (action: GovernanceAction, account: Address, value: bigint) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "proposeGovernanceChange",
+			args: [GOVERNANCE_ACTIONS.indexOf(action), account, value],
+		});
+	};
+
+	const requireCoin = (coinId: string) => {
+		const coin = coins.find((c) => c.id === coinId);
+		if (!coin) throw new Error(`${coinId} is not registered`);
+		return coin;
+	};
+
+	/**
+	 * Read name, symbol and decimals from the token and check it can be registered
+	 * Throws when the address is not an ERC20 contract or clashes with a registered coin.
+	 */
+	const validateToken = async (tokenAddress: string): Promise<TokenMetadata> => {
+		if (!publicClient) throw new Error("No RPC client available");
+		if (!isAddress(tokenAddress)) throw new Error("Enter a valid token address");
+
+		const code = await publicClient.getCode({ address: tokenAddress });
+		if (!code || code === "0x") throw new Error("No contract deployed at this address");
+
+		let metadata: TokenMetadata;
+		try {
+			const [name, symbol, decimals] = await Promise.all([
+				publicClient.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: "name" }),
+				publicClient.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: "symbol" }),
+				publicClient.readContract({ address: tokenAddress, abi: ERC20_ABI, functionName: "decimals" }),
+			]);
+			metadata = { address: tokenAddress, name, symbol, decimals: Number(decimals) };
+		} catch {
+			throw new Error("Contract does not implement ERC20 name(), symbol() and decimals()");
+		}
+
+		if (!metadata.symbol.trim() || !metadata.name.trim()) {
+			throw new Error("Token name and symbol must not be empty");
+		}
+		// The contract keys coins by symbol and rejects reused addresses and symbols
+		const clash = coins.find(
+			(coin) =>
+				coin.id === metadata.symbol ||
+				coin.symbol === metadata.symbol ||
+				coin.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()
+		);
+		if (clash) {
+			throw new Error(`Already registered as ${clash.id} (${clash.tokenAddress})`);
+		}
+
+		return metadata;
+	};
+
+	// Register a token under its on-chain symbol (re-validated right before sending)
+	const registerCoin = async (tokenAddress: string, complianceReason: string) => {
+		requireOwner();
+		if (!complianceReason.trim()) throw new Error("A compliance reason is required");
+		const metadata = await validateToken(tokenAddress);
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "registerShariaCoin",
+			args: [metadata.symbol, metadata.name, metadata.symbol, metadata.address, complianceReason.trim()],
+		});
+	};
+
+	// Flip a coin between compliant and non-compliant; the reason is stored on-chain
+	const updateComplianceStatus = async (coinId: string, verified: boolean, complianceReason: string) => {
+		requireOwner();
+		if (governance.approvalRequired) {
+			throw new Error("Verdict changes need reviewer approval; propose the change instead");
+		}
+		requireCoin(coinId);
+		if (!complianceReason.trim()) throw new Error("A reason is required to change compliance status");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "updateComplianceStatus",
+			args: [coinId, verified, complianceReason.trim()],
+		});
+	};
+
+	// Remove a coin from the registry (swaps and DCA orders into it are rejected from then on)
+	const removeCoin = async (coinId: string) => {
+		requireOwner();
+		const coin = requireCoin(coinId);
+		if (governance.approvalRequired && coin.verified) {
+			throw new Error("Delisting needs reviewer approval; propose marking it non-compliant before removing it");
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "removeShariaCoin",
+			args: [coinId],
+		});
+	};
+
+	// Record the structured screening behind a coin's verdict
+	const setScreening = async (coinId: string, screening: CoinScreening) => {
+		requireOwner();
+		requireCoin(coinId);
+		if (!screening.methodology.trim()) throw new Error("A screening methodology is required");
+		if (!screening.reviewer.trim()) throw new Error("The reviewing scholar or board is required");
+		if (!screening.reviewedAt) throw new Error("A review date is required");
+		if (screening.reviewDueAt !== null && screening.reviewDueAt <= screening.reviewedAt) {
+			throw new Error("The re-review due date must be after the review date");
+		}
+		if (screening.documentHash !== null && !isHex(screening.documentHash, { strict: true })) {
+			throw new Error("The document hash must be 0x-prefixed hex");
+		}
+		if (screening.documentHash !== null && screening.documentHash.length !== 66) {
+			throw new Error("The document hash must be 32 bytes");
+		}
+		const metadata = toComplianceMetadata({
+			...screening,
+			methodology: screening.methodology.trim(),
+			reviewer: screening.reviewer.trim(),
+		});
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "setComplianceMetadata",
+			args: [coinId, metadata],
+		});
+	};
+
+	// Propose a verdict change for reviewer approval (compliance officers only)
+	const proposeStatusChange = async (
+		coinId: string,
+		verified: boolean,
+		complianceReason: string,
+		evidence: string
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!governance.isComplianceOfficer) throw new Error("Only compliance officers can propose changes");
+		requireCoin(coinId);
+		if (!complianceReason.trim()) throw new Error("A reason is required to change compliance status");
+		if (!evidence.trim()) throw new Error("Evidence is required for a proposal");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "proposeStatusChange",
+			args: [coinId, verified, complianceReason.trim(), evidence.trim()],
+		});
+	};
+
+	// Approve as a reviewer (the contract rejects the proposer's own approval)
+	const approveProposal = async (proposalId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!governance.isReviewer) throw new Error("Only registered reviewers can approve proposals");
+		const proposal = requireOpenProposal(proposalId);
+		if (proposal.proposer.toLowerCase() === userAddress.toLowerCase()) {
+			throw new Error("You cannot approve your own proposal");
+		}
+		if (proposal.approvedByMe) throw new Error("You already approved this proposal");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "approveProposal",
+			args: [proposalId],
+		});
+	};
+
+	// Apply an approved proposal after its timelock (any account)
+	const executeProposal = async (proposalId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		const proposal = requireOpenProposal(proposalId);
+		if (proposal.state !== "ready") throw new Error(`Proposal #${proposalId} is not executable yet`);
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "executeProposal",
+			args: [proposalId],
+		});
+	};
+
+	// Withdraw a proposal (proposer or owner)
+	const cancelProposal = async (proposalId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		const proposal = requireOpenProposal(proposalId);
+		if (!isOwner && proposal.proposer.toLowerCase() !== userAddress.toLowerCase()) {
+			throw new Error("Only the proposer or the owner can cancel a proposal");
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "cancelProposal",
+			args: [proposalId],
+		});
+	};
+
+	// Close a review request without registering the token (owner or compliance officer)
+	const dismissReviewRequest = async (token: Address) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!isOwner && !governance.isComplianceOfficer) {
+			throw new Error("Only the owner or a compliance officer can dismiss review requests");
+		}
+		if (!reviewQueue.reviewRequests.some((request) => request.token.toLowerCase() === token.toLowerCase())) {
+			throw new Error("No open review request for this token");
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "dismissReviewRequest",
+			args: [token],
+		});
+	};
+
+	// Register or remove a reviewer / compliance officer (owner only; reviewer changes are proposed once a threshold is set)
+	const setRole = async (role: "reviewer" | "officer", account: string, enabled: boolean) => {
+		requireOwner();
+		if (!isAddress(account)) throw new Error("Enter a valid account address");
+		if (role === "reviewer" && !enabled && governance.reviewerCount - 1 < governance.approvalThreshold) {
+			throw new Error("Lower the approval threshold before removing this reviewer");
+		}
+		if (role === "reviewer" && governance.approvalRequired) {
+			return proposeGovernanceChange("SetReviewer", account, enabled ? 1n : 0n);
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: role === "reviewer" ? "setReviewer" : "setComplianceOfficer",
+			args: [account, enabled],
+		});
+	};
+
+	// N of the registered reviewers (owner only); once set it can only be changed by proposal, and never back to 0
+	const setApprovalThreshold = async (threshold: number) => {
+		requireOwner();
+		if (!Number.isInteger(threshold) || threshold < 0) throw new Error("Enter a whole number of approvals");
+		if (threshold > governance.reviewerCount) {
+			throw new Error(`Only ${governance.reviewerCount} reviewers are registered`);
+		}
+		if (governance.approvalRequired) {
+			if (threshold === 0) throw new Error("The approval workflow can't be turned off once enabled");
+			return proposeGovernanceChange("SetApprovalThreshold", zeroAddress, BigInt(threshold));
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "setApprovalThreshold",
+			args: [BigInt(threshold)],
+		});
+	};
+
+	const setTimelockDuration = async (seconds: number) => {
+		requireOwner();
+		if (!Number.isInteger(seconds) || seconds < 0) throw new Error("Enter a whole number of seconds");
+		if (governance.approvalRequired) {
+			return proposeGovernanceChange("SetTimelockDuration", zeroAddress, BigInt(seconds));
+		}
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "setTimelockDuration",
+			args: [BigInt(seconds)],
+		});
+	};
+
+	// Approve a settings change as a reviewer (the owner proposes, so can't approve)
+	const approveGovernanceChange = async (proposalId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		if (!governance.isReviewer) throw new Error("Only registered reviewers can approve proposals");
+		const proposal = requireOpenGovernanceProposal(proposalId);
+		if (proposal.proposer.toLowerCase() === userAddress.toLowerCase()) {
+			throw new Error("You cannot approve your own proposal");
+		}
+		if (proposal.approvedByMe) throw new Error("You already approved this proposal");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "approveGovernanceChange",
+			args: [proposalId],
+		});
+	};
+
+	// Apply an approved settings change after its timelock (any account)
+	const executeGovernanceChange = async (proposalId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		const proposal = requireOpenGovernanceProposal(proposalId);
+		if (proposal.state !== "ready") throw new Error(`Governance proposal #${proposalId} is not executable yet`);
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "executeGovernanceChange",
+			args: [proposalId],
+		});
+	};
+
+	const cancelGovernanceChange = async (proposalId: bigint) => {
+		requireOwner();
+		requireOpenGovernanceProposal(proposalId);
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_COMPLIANCE_ADDRESS,
+			abi: ShariaComplianceABI,
+			functionName: "cancelGovernanceChange",
+			args: [proposalId],
+		});
+	};
+
+	// tayebCoins.json diff the listener will write once the action's event is seen
+	const previewAction = (action: ComplianceAction) =>
+		previewConfigDiff((tayebCoinsData as { coins: ConfigCoin[] }).coins, action);
+
+	return {
+		coins,
+		coinsLoading,
+		refetchCoins,
+		screenings,
+		refetchScreenings,
+		owner: owner as Address | undefined,
+		isOwner,
+		ownerLoading,
+		validateToken,
+		registerCoin,
+		updateComplianceStatus,
+		removeCoin,
+		setScreening,
+		proposeStatusChange,
+		approveProposal,
+		executeProposal,
+		cancelProposal,
+		setRole,
+		setApprovalThreshold,
+		setTimelockDuration,
+		approveGovernanceChange,
+		executeGovernanceChange,
+		cancelGovernanceChange,
+		...governance,
+		dismissReviewRequest,
+		...reviewQueue,
+		previewAction,
+		isWriting,
+		isConfirming,
+		isConfirmed,
+		txHash,
+		writeError,
+		confirmError,
+		resetWrite,
+		SHARIA_COMPLIANCE_ADDRESS,
+	};
+}
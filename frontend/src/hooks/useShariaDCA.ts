@@ -1,22 +1,23 @@
 import { useMemo } from "react";
-import type { Address } from "viem";
+import { useQuery } from "@tanstack/react-query";
+import type { Address, PublicClient } from "viem";
 import {
 	useAccount,
 	useChainId,
+	usePublicClient,
 	useReadContract,
 	useReadContracts,
 	useWriteContract,
 	useWaitForTransactionReceipt,
 	useSwitchChain,
 } from "wagmi";
-import { moonbaseAlpha } from "wagmi/chains";
-import { ERC20_ABI, ShariaDCAABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { ERC20_ABI, ShariaDCAABI, ShariaSwapABI } from "../config/abis";
+import { INDEXER_URL } from "../config/indexer";
 import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
-
-const SHARIA_DCA_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaDCA: string } }
-).main.shariaDCA as Address;
+import type { IndexedDCAEvent } from "../types";
+import type { DCAFill } from "../utils/dcaPerformance";
+import { useContracts } from "./useContracts";
+import { useIndexedDCAEvents, useIndexedDCAFills } from "./useIndexer";
 
 /**
  * Type matching the smart contract's DCAOrder struct
@@ -32,7 +33,37 @@ export interface DCAOrder {
 	totalIntervals: bigint;
 	nextExecutionTime: bigint;
 	startTime: bigint;
+	maxSlippageBps: bigint;
+	minAmountOut: bigint; // Price floor per interval (0 = none)
 	isActive: boolean;
+	isPaused: boolean;
+	exists: boolean;
+}
+
+/**
+ * Matches the contract's LimitOrderStatus enum
+ */
+export const LimitOrderStatus = {
+	Open: 0,
+	Filled: 1,
+	Cancelled: 2,
+	Expired: 3,
+} as const;
+
+/**
+ * Type matching the smart contract's LimitOrder struct
+ */
+export interface LimitOrder {
+	id: bigint;
+	owner: Address;
+	sourceToken: Address;
+	targetToken: Address;
+	amountIn: bigint;
+	minAmountOut: bigint; // Limit: max price = amountIn / minAmountOut
+	expiry: bigint;
+	createdAt: bigint;
+	amountOut: bigint; // Filled amount (0 until filled)
+	status: number;
 	exists: boolean;
 }
 
@@ -40,6 +71,7 @@ export interface DCAOrder {
  * Hook for ShariaDCA contract interactions using Wagmi v2
  */
 export function useShariaDCA() {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
 	const { address: userAddress, chainId: accountChainId } = useAccount();
 	const chainId = useChainId();
 	const { switchChain } = useSwitchChain();
@@ -59,7 +91,7 @@ export function useShariaDCA() {
 			// Try to automatically switch to the correct network
 			if (switchChain) {
 				try {
-					await switchChain({ chainId: moonbaseAlpha.id });
+					await switchChain({ chainId: REQUIRED_CHAIN_ID });
 					// Wait a moment for the switch to complete
 					await new Promise(resolve => setTimeout(resolve, 500));
 					// Re-check after switch attempt
@@ -115,12 +147,29 @@ export function useShariaDCA() {
 		},
 	});
 
+	// Get user's limit order IDs
+	const {
+		data: userLimitOrderIds,
+		isLoading: loadingLimitOrderIds,
+		refetch: refetchUserLimitOrders,
+	} = useReadContract({
+		address: SHARIA_DCA_ADDRESS,
+		abi: ShariaDCAABI,
+		functionName: "getUserLimitOrders",
+		args: userAddress ? [userAddress] : undefined,
+		query: {
+			enabled: !!userAddress,
+		},
+	});
+
 	// Create DCA order with DEV (native token)
 	const createDCAOrderWithDEV = async (
 		targetToken: Address,
 		amountPerInterval: bigint,
 		intervalSeconds: bigint,
 		totalIntervals: bigint,
+		maxSlippageBps: bigint,
+		minAmountOut: bigint,
 		totalValue: bigint
 	) => {
 		if (!userAddress) throw new Error("Wallet not connected");
@@ -130,7 +179,7 @@ export function useShariaDCA() {
 			address: SHARIA_DCA_ADDRESS,
 			abi: ShariaDCAABI,
 			functionName: "createDCAOrderWithDEV",
-			args: [targetToken, amountPerInterval, intervalSeconds, totalIntervals],
+			args: [targetToken, amountPerInterval, intervalSeconds, totalIntervals, maxSlippageBps, minAmountOut],
 			value: totalValue, // Total amount to be locked
 		});
 	};
@@ -141,7 +190,9 @@ export function useShariaDCA() {
 		targetToken: Address,
 		amountPerInterval: bigint,
 		intervalSeconds: bigint,
-		totalIntervals: bigint
+		totalIntervals: bigint,
+		maxSlippageBps: bigint,
+		minAmountOut: bigint
 	) => {
 		if (!userAddress) throw new Error("Wallet not connected");
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
@@ -156,6 +207,8 @@ export function useShariaDCA() {
 				amountPerInterval,
 				intervalSeconds,
 				totalIntervals,
+				maxSlippageBps,
+				minAmountOut,
 			],
 		});
 	};
@@ -173,14 +226,14 @@ export function useShariaDCA() {
 		});
 	};
 
-	// Execute DCA order
-	const executeDCAOrder = async (orderId: bigint) => {
+	// Execute DCA order (the order's own price floor always applies on-chain)
+	const executeDCAOrder = async (orderId: bigint, minAmountOut: bigint = 0n) => {
 		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
 		writeContract({
 			address: SHARIA_DCA_ADDRESS,
 			abi: ShariaDCAABI,
 			functionName: "executeDCAOrder",
-			args: [orderId],
+			args: [orderId, minAmountOut],
 		});
 	};
 
@@ -197,18 +250,124 @@ export function useShariaDCA() {
 		});
 	};
 
+	// Pause DCA order (deposit stays locked, executions stop)
+	const pauseDCAOrder = async (orderId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "pauseDCAOrder",
+			args: [orderId],
+		});
+	};
+
+	// Resume a paused DCA order
+	const resumeDCAOrder = async (orderId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "resumeDCAOrder",
+			args: [orderId],
+		});
+	};
+
+	// Top up DCA order with more intervals
+	// DEV orders send the deposit as value; ERC20 orders need an approval first
+	const topUpDCAOrder = async (
+		orderId: bigint,
+		additionalIntervals: bigint,
+		value: bigint = 0n
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "topUpDCAOrder",
+			args: [orderId, additionalIntervals],
+			value,
+		});
+	};
+
+	// Create limit order with DEV (the whole value is sold once the limit is reached)
+	const createLimitOrderWithDEV = async (
+		targetToken: Address,
+		minAmountOut: bigint,
+		expiry: bigint,
+		amountIn: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "createLimitOrderWithDEV",
+			args: [targetToken, minAmountOut, expiry],
+			value: amountIn,
+		});
+	};
+
+	// Create limit order with ERC20 token (requires approval)
+	const createLimitOrderWithToken = async (
+		sourceToken: Address,
+		targetToken: Address,
+		amountIn: bigint,
+		minAmountOut: bigint,
+		expiry: bigint
+	) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "createLimitOrderWithToken",
+			args: [sourceToken, targetToken, amountIn, minAmountOut, expiry],
+		});
+	};
+
+	// Cancel an open limit order (deposit refunded)
+	const cancelLimitOrder = async (orderId: bigint) => {
+		if (!userAddress) throw new Error("Wallet not connected");
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+
+		writeContract({
+			address: SHARIA_DCA_ADDRESS,
+			abi: ShariaDCAABI,
+			functionName: "cancelLimitOrder",
+			args: [orderId],
+		});
+	};
+
 	return {
 		createDCAOrderWithDEV,
 		createDCAOrderWithToken,
 		approveToken,
 		executeDCAOrder,
 		cancelDCAOrder,
+		pauseDCAOrder,
+		resumeDCAOrder,
+		topUpDCAOrder,
+		createLimitOrderWithDEV,
+		createLimitOrderWithToken,
+		cancelLimitOrder,
 		userOrderIds: (userOrderIds as bigint[]) || [],
 		loadingOrderIds,
 		refetchUserOrders,
+		userLimitOrderIds: (userLimitOrderIds as bigint[]) || [],
+		loadingLimitOrderIds,
+		refetchUserLimitOrders,
 		isCreating: isWriting,
 		isExecuting: isWriting,
 		isCancelling: isWriting,
+		isUpdating: isWriting,
 		isApproving: isWriting,
 		isConfirming,
 		isConfirmed,
@@ -224,6 +383,7 @@ export function useShariaDCA() {
  * Hook to get details for a specific DCA order
  */
 export function useDCAOrder(orderId: bigint | undefined) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
 	const { data: order, isLoading } = useReadContract({
 		address: SHARIA_DCA_ADDRESS,
 		abi: ShariaDCAABI,
@@ -244,6 +404,7 @@ export function useDCAOrder(orderId: bigint | undefined) {
  * Hook to get multiple DCA orders at once
  */
 export function useDCAOrders(orderIds: bigint[] | undefined) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
 	// Create contract calls for all order IDs
 	const contracts = useMemo(() => {
 		if (!orderIds || orderIds.length === 0) return [];
@@ -254,7 +415,7 @@ export function useDCAOrders(orderIds: bigint[] | undefined) {
 			functionName: "getDCAOrder" as const,
 			args: [id],
 		}));
-	}, [orderIds]);
+	}, [orderIds, SHARIA_DCA_ADDRESS]);
 
 	const { data: ordersData, isLoading, refetch: refetchOrders } = useReadContracts({
 		contracts,
@@ -284,3 +445,244 @@ export function useDCAOrders(orderIds: bigint[] | undefined) {
 	};
 }
 
+
+/**
+ * Hook to get multiple limit orders with their current quotes
+ */
+export function useLimitOrders(orderIds: bigint[] | undefined) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
+	// Two calls per order: details and current quote
+	const contracts = useMemo(() => {
+		if (!orderIds || orderIds.length === 0) return [];
+
+		return orderIds.flatMap((id) => [
+			{
+				address: SHARIA_DCA_ADDRESS,
+				abi: ShariaDCAABI,
+				functionName: "getLimitOrder" as const,
+				args: [id],
+			},
+			{
+				address: SHARIA_DCA_ADDRESS,
+				abi: ShariaDCAABI,
+				functionName: "quoteLimitOrder" as const,
+				args: [id],
+			},
+		]);
+	}, [orderIds, SHARIA_DCA_ADDRESS]);
+
+	const { data: ordersData, isLoading, refetch: refetchLimitOrders } = useReadContracts({
+		contracts,
+		query: {
+			enabled: !!orderIds && orderIds.length > 0,
+		},
+	});
+
+	// Pair each order with its quote (expectedAmountOut = 0 when the quote failed)
+	const orders = useMemo(() => {
+		if (!ordersData) return [];
+
+		const result: Array<{ order: LimitOrder; expectedAmountOut: bigint; ready: boolean }> = [];
+		for (let i = 0; i < ordersData.length; i += 2) {
+			const orderResult = ordersData[i];
+			const quoteResult = ordersData[i + 1];
+			if (orderResult.status !== "success" || !orderResult.result) continue;
+
+			const quote =
+				quoteResult?.status === "success" ? (quoteResult.result as readonly [bigint, boolean]) : undefined;
+			result.push({
+				order: orderResult.result as LimitOrder,
+				expectedAmountOut: quote?.[0] ?? 0n,
+				ready: quote?.[1] ?? false,
+			});
+		}
+		return result;
+	}, [ordersData]);
+
+	return {
+		orders,
+		isLoading,
+		refetchLimitOrders,
+	};
+}
+
+/**
+ * Read DCAOrderCreated and DCAOrderExecuted logs for some orders
+ * Scans back twice the expected number of blocks since the oldest startTime, in case blocks came faster
+ */
+async function fetchDCAOrderLogs(
+	publicClient: PublicClient,
+	dcaAddress: Address,
+	orderIds: bigint[],
+	since: bigint
+) {
+	const [latestBlock, blockTime] = await Promise.all([
+		publicClient.getBlock(),
+		publicClient
+			.readContract({ address: dcaAddress, abi: ShariaDCAABI, functionName: "blockTime" })
+			.catch(() => 6n),
+	]);
+	const elapsed = latestBlock.timestamp > since ? latestBlock.timestamp - since : 0n;
+	const lookback = (elapsed * 2n) / (blockTime > 0n ? blockTime : 6n) + 100n;
+	const fromBlock = latestBlock.number > lookback ? latestBlock.number - lookback : 0n;
+
+	const [created, executed] = await Promise.all([
+		publicClient.getContractEvents({
+			address: dcaAddress,
+			abi: ShariaDCAABI,
+			eventName: "DCAOrderCreated",
+			args: { orderId: orderIds },
+			fromBlock,
+			toBlock: latestBlock.number,
+		}),
+		publicClient.getContractEvents({
+			address: dcaAddress,
+			abi: ShariaDCAABI,
+			eventName: "DCAOrderExecuted",
+			args: { orderId: orderIds },
+			fromBlock,
+			toBlock: latestBlock.number,
+		}),
+	]);
+
+	const fills = executed.map(
+		(log): DCAFill => ({
+			orderId: log.args.orderId ?? 0n,
+			intervalNumber: log.args.intervalNumber ?? 0n,
+			amountIn: log.args.amountIn ?? 0n,
+			amountOut: log.args.amountOut ?? 0n,
+			timestamp: Number(log.args.timestamp ?? 0n),
+			txHash: log.transactionHash,
+		})
+	);
+	return { created, fills };
+}
+
+// Convert indexed DCAOrderExecuted rows (newest first) to fills, oldest first
+function toFills(events: IndexedDCAEvent[]): DCAFill[] {
+	return events
+		.filter((event) => event.event === "executed")
+		.map(
+			(event): DCAFill => ({
+				orderId: BigInt(event.orderId),
+				intervalNumber: BigInt(event.intervalNumber ?? 0),
+				amountIn: BigInt(event.amountIn ?? 0),
+				amountOut: BigInt(event.amountOut ?? 0),
+				timestamp: event.timestamp,
+				txHash: event.txHash,
+			})
+		)
+		.reverse();
+}
+
+/**
+ * Hook to load an order's fills (DCAOrderExecuted events) and price a lump-sum
+ * buy of the same total at the order's creation block
+ *
+ * Reads the indexer when VITE_INDEXER_URL is set. Otherwise scans logs from a
+ * block estimated from the order's startTime, which public RPCs may refuse for
+ * very old orders. The lump-sum quote is a historical read and needs an archive
+ * node: lumpSumOut stays undefined without one.
+ */
+export function useDCAOrderExecutions(order: DCAOrder | null) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS, SHARIA_SWAP: SHARIA_SWAP_ADDRESS, WETH: WETH_ADDRESS } = useContracts();
+	const chainId = useChainId();
+	const publicClient = usePublicClient();
+
+	const indexed = useIndexedDCAEvents(order?.id);
+
+	const onChain = useQuery({
+		queryKey: ["dca-fills", chainId, order?.id.toString(), order?.intervalsCompleted.toString()],
+		queryFn: async () => {
+			if (!order || !publicClient) return { fills: [], createdBlock: null };
+			const { created, fills } = await fetchDCAOrderLogs(
+				publicClient as PublicClient,
+				SHARIA_DCA_ADDRESS,
+				[order.id],
+				order.startTime
+			);
+			return { fills, createdBlock: created[0]?.blockNumber ?? null };
+		},
+		enabled: !INDEXER_URL && !!order && !!publicClient,
+	});
+
+	// Oldest fill first
+	const { fills, createdBlock } = useMemo(() => {
+		if (!INDEXER_URL) return onChain.data ?? { fills: [], createdBlock: null };
+
+		const events = indexed.data ?? [];
+		const created = events.find((event) => event.event === "created");
+		return {
+			fills: toFills(events),
+			createdBlock: created ? BigInt(created.blockNumber) : null,
+		};
+	}, [indexed.data, onChain.data]);
+
+	const totalIn = fills.reduce((sum, fill) => sum + fill.amountIn, 0n);
+	// Native DEV orders are stored with sourceToken = address(0) and swapped as WETH
+	const quoteSource =
+		order?.sourceToken === "0x0000000000000000000000000000000000000000" ? WETH_ADDRESS : order?.sourceToken;
+
+	const { data: lumpSumOut, isLoading: lumpSumLoading } = useReadContract({
+		address: SHARIA_SWAP_ADDRESS,
+		abi: ShariaSwapABI,
+		functionName: "getSwapQuote",
+		args: order && quoteSource ? [quoteSource, order.targetToken, totalIn] : undefined,
+		blockNumber: createdBlock ?? undefined,
+		query: {
+			enabled: !!order && createdBlock !== null && totalIn > 0n,
+			retry: false,
+		},
+	});
+
+	return {
+		fills,
+		createdBlock,
+		lumpSumOut: lumpSumOut as bigint | undefined,
+		isLoading: INDEXER_URL ? indexed.isLoading : onChain.isLoading,
+		lumpSumLoading,
+		error: (INDEXER_URL ? indexed.error : onChain.error) ?? null,
+	};
+}
+
+/**
+ * Hook to load the fills of all of an owner's DCA orders, oldest first
+ * Same sources as useDCAOrderExecutions (indexer, or a log scan from the oldest order's startTime)
+ */
+export function useDCAFills(owner: Address | undefined, orders: DCAOrder[]) {
+	const { SHARIA_DCA: SHARIA_DCA_ADDRESS } = useContracts();
+	const chainId = useChainId();
+	const publicClient = usePublicClient();
+
+	const indexed = useIndexedDCAFills(owner);
+
+	// Refetch when any order executes again
+	const executionsKey = orders.map((order) => `${order.id}:${order.intervalsCompleted}`).join(",");
+
+	const onChain = useQuery({
+		queryKey: ["dca-owner-fills", chainId, owner, executionsKey],
+		queryFn: async () => {
+			if (!publicClient || orders.length === 0) return [];
+			const since = orders.reduce((oldest, order) => (order.startTime < oldest ? order.startTime : oldest), orders[0].startTime);
+			const { fills } = await fetchDCAOrderLogs(
+				publicClient as PublicClient,
+				SHARIA_DCA_ADDRESS,
+				orders.map((order) => order.id),
+				since
+			);
+			return fills;
+		},
+		enabled: !INDEXER_URL && !!owner && !!publicClient && orders.length > 0,
+	});
+
+	const fills = useMemo(
+		() => (INDEXER_URL ? toFills(indexed.data ?? []) : onChain.data ?? []),
+		[indexed.data, onChain.data]
+	);
+
+	return {
+		fills,
+		isLoading: INDEXER_URL ? indexed.isLoading : onChain.isLoading,
+		error: (INDEXER_URL ? indexed.error : onChain.error) ?? null,
+	};
+}
@@ -9,22 +9,25 @@ import {
 	useWaitForTransactionReceipt,
 	useSwitchChain,
 } from "wagmi";
-import { moonbaseAlpha } from "wagmi/chains";
-import { ERC20_ABI, ShariaSwapABI } from "../config/abis";
-import deployedContracts from "../../../config/deployedContracts.json";
+import { ERC20_ABI, SIMPLE_PAIR_ABI, ShariaSwapABI } from "../config/abis";
 import { getTokenDecimals } from "../config/tokenDecimals";
 import type { TransactionStatus } from "../types";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
 import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
-
-const SHARIA_SWAP_ADDRESS = (
-	deployedContracts as unknown as { main: { shariaSwap: string } }
-).main.shariaSwap as Address;
+import { useContracts } from "./useContracts";
+import {
+	findBestRoute,
+	findBestRouteIn,
+	MAX_ROUTE_HOPS,
+	type PoolReserves,
+	type SwapRoute,
+} from "../utils/swapRouting";
 
 /**
  * Refactored swap hook using Wagmi v2 + Viem with transaction tracking
  */
 export function useShariaSwap() {
+	const { SHARIA_SWAP: SHARIA_SWAP_ADDRESS } = useContracts();
 	const { address: userAddress, chainId: accountChainId } = useAccount();
 	const chainId = useChainId();
 	const publicClient = usePublicClient();
@@ -45,7 +48,7 @@ export function useShariaSwap() {
 			// Try to automatically switch to the correct network
 			if (switchChain) {
 				try {
-					await switchChain({ chainId: moonbaseAlpha.id });
+					await switchChain({ chainId: REQUIRED_CHAIN_ID });
 					// Wait a moment for the switch to complete
 					await new Promise(resolve => setTimeout(resolve, 500));
 					// Re-check after switch attempt
@@ -175,6 +178,110 @@ export function useShariaSwap() {
 		});
 	};
 
+	// Execute token swap along a route from useBestRouteQuote
+	const swapTokenForTokenWithPath = async (
+		path: Address[],
+		amountIn: bigint,
+		minAmountOut: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapShariaCompliantWithPath",
+			args: [path, amountIn, minAmountOut, deadline],
+		});
+	};
+
+	// Swap GLMR along a route starting with WETH
+	const swapGLMRForTokenWithPath = async (
+		path: Address[],
+		minAmountOut: bigint,
+		amountIn: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapGLMRForTokenWithPath",
+			args: [path, minAmountOut, deadline],
+			value: amountIn,
+		});
+	};
+
+	// Receive an exact output amount, spending at most amountInMax
+	const swapTokenForExactTokens = async (
+		path: Address[],
+		amountOut: bigint,
+		amountInMax: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapShariaCompliantExactOutput",
+			args: [path, amountOut, amountInMax, deadline],
+		});
+	};
+
+	// Receive an exact output amount for native DEV (sends amountInMax, unspent DEV is refunded)
+	const swapGLMRForExactTokens = async (
+		path: Address[],
+		amountOut: bigint,
+		amountInMax: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapGLMRForExactTokens",
+			args: [path, amountOut, deadline],
+			value: amountInMax,
+		});
+	};
+
+	// Sell tokens for native DEV along a route ending with WETH (unwrapped by the contract)
+	const swapTokenForGLMR = async (
+		path: Address[],
+		amountIn: bigint,
+		minAmountOut: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapTokenForGLMR",
+			args: [path, amountIn, minAmountOut, deadline],
+		});
+	};
+
+	// Receive an exact amount of native DEV, spending at most amountInMax
+	const swapTokenForExactGLMR = async (
+		path: Address[],
+		amountOut: bigint,
+		amountInMax: bigint
+	) => {
+		await validateNetwork(); // Check network before transaction (will prompt to switch if needed)
+		const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 15);
+
+		return writeContract({
+			address: SHARIA_SWAP_ADDRESS,
+			abi: ShariaSwapABI,
+			functionName: "swapTokenForExactGLMR",
+			args: [path, amountOut, amountInMax, deadline],
+		});
+	};
+
 	// Get friendly error message
 	const rawError = writeError || confirmError;
 	const friendlyErrorMessage = rawError ? getFriendlyErrorMessage(rawError) : null;
@@ -184,6 +291,12 @@ export function useShariaSwap() {
 		approveToken,
 		swapTokenForToken,
 		swapGLMRForToken,
+		swapTokenForTokenWithPath,
+		swapGLMRForTokenWithPath,
+		swapTokenForExactTokens,
+		swapGLMRForExactTokens,
+		swapTokenForGLMR,
+		swapTokenForExactGLMR,
 		estimateSwapGas,
 		isApproving: isWriting,
 		isSwapping: isWriting,
@@ -208,6 +321,7 @@ export function useSwapQuote(
 	tokenOut: Address | `0x${string}` | undefined,
 	amountIn: bigint | undefined
 ) {
+	const { SHARIA_SWAP: SHARIA_SWAP_ADDRESS } = useContracts();
 	const { data: quote, isLoading } = useReadContract({
 		address: SHARIA_SWAP_ADDRESS,
 		abi: ShariaSwapABI,
@@ -228,6 +342,7 @@ export function useSwapQuote(
  * Manual quote fetching hook - Fixed version
  */
 export function useManualSwapQuote() {
+	const { SHARIA_SWAP: SHARIA_SWAP_ADDRESS } = useContracts();
 	const publicClient = usePublicClient();
 	const [isLoading, setIsLoading] = useState(false);
 
@@ -329,3 +444,155 @@ export function useManualSwapQuote() {
 
 	return { isLoading, fetchQuote };
 }
+
+/**
+ * Best route with token symbols for display
+ */
+export interface RouteQuote extends SwapRoute {
+	symbols: string[];
+}
+
+/**
+ * Best-route quoting across all registered pairs
+ * Reads every pair's reserves in one multicall, searches paths of up to
+ * MAX_ROUTE_HOPS hops, then confirms the winner with getSwapQuoteForPath
+ * (which applies the contract's path and compliance checks)
+ */
+export function useBestRouteQuote() {
+	const { SHARIA_SWAP: SHARIA_SWAP_ADDRESS, PAIRS, TOKENS } = useContracts();
+	const publicClient = usePublicClient();
+	const [isLoading, setIsLoading] = useState(false);
+
+	// Read reserves for every registered pair (pairs that fail to load are skipped)
+	const fetchPools = async (): Promise<PoolReserves[]> => {
+		if (!publicClient) return [];
+
+		const pairs = Object.values(PAIRS);
+		const contracts = pairs.flatMap((pair) => [
+			{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "token0" } as const,
+			{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "token1" } as const,
+			{ address: pair, abi: SIMPLE_PAIR_ABI, functionName: "getReserves" } as const,
+		]);
+
+		// Chains without Multicall3 (e.g. the local devnet) fall back to parallel reads
+		const results = publicClient.chain?.contracts?.multicall3
+			? await publicClient.multicall({ contracts, allowFailure: true })
+			: await Promise.all(
+					contracts.map((call) =>
+						publicClient
+							.readContract(call)
+							.then((result) => ({ status: "success" as const, result }))
+							.catch((error: Error) => ({ status: "failure" as const, error }))
+					)
+			  );
+
+		const pools: PoolReserves[] = [];
+		pairs.forEach((pair, i) => {
+			const [token0, token1, reserves] = results.slice(i * 3, i * 3 + 3);
+			if (token0?.status !== "success" || token1?.status !== "success" || reserves?.status !== "success") {
+				console.warn("⚠️ Skipping pair with unreadable reserves:", pair);
+				return;
+			}
+			const [reserve0, reserve1] = reserves.result as readonly [bigint, bigint, number];
+			pools.push({
+				pair,
+				token0: token0.result as Address,
+				token1: token1.result as Address,
+				reserve0,
+				reserve1,
+			});
+		});
+
+		return pools;
+	};
+
+	// Token symbols along a path (short address when the token is not in the registry)
+	const toSymbols = (path: Address[]) => {
+		const symbolByAddress = Object.fromEntries(
+			Object.entries(TOKENS).map(([symbol, address]) => [address.toLowerCase(), symbol])
+		);
+		return path.map(
+			(address) => symbolByAddress[address.toLowerCase()] ?? `${address.slice(0, 6)}…${address.slice(-4)}`
+		);
+	};
+
+	// Exact input: best output for amountIn
+	const fetchRoute = async (
+		tokenIn: Address,
+		tokenOut: Address,
+		amountIn: bigint,
+		canRouteThrough?: (token: Address) => boolean
+	): Promise<RouteQuote | null> => {
+		if (!publicClient || !amountIn || amountIn === 0n) return null;
+		if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) return null;
+
+		try {
+			setIsLoading(true);
+
+			const pools = await fetchPools();
+			const route = findBestRoute(pools, tokenIn, tokenOut, amountIn, MAX_ROUTE_HOPS, canRouteThrough);
+			if (!route) {
+				console.warn("⚠️ No route found", { tokenIn, tokenOut, pools: pools.length });
+				return null;
+			}
+
+			// Confirm on-chain (same checks as the swap itself)
+			const amountOut = (await publicClient.readContract({
+				address: SHARIA_SWAP_ADDRESS,
+				abi: ShariaSwapABI,
+				functionName: "getSwapQuoteForPath",
+				args: [route.path, amountIn],
+			})) as bigint;
+
+			const symbols = toSymbols(route.path);
+			console.log("🧭 Best route:", symbols.join(" → "), amountOut.toString());
+			return { ...route, amountOut, symbols };
+		} catch (err) {
+			console.error("❌ Route quote error:", err instanceof Error ? err.message : err);
+			return null;
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	// Exact output: least input needed to receive amountOut
+	const fetchRouteIn = async (
+		tokenIn: Address,
+		tokenOut: Address,
+		amountOut: bigint,
+		canRouteThrough?: (token: Address) => boolean
+	): Promise<RouteQuote | null> => {
+		if (!publicClient || !amountOut || amountOut === 0n) return null;
+		if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) return null;
+
+		try {
+			setIsLoading(true);
+
+			const pools = await fetchPools();
+			const route = findBestRouteIn(pools, tokenIn, tokenOut, amountOut, MAX_ROUTE_HOPS, canRouteThrough);
+			if (!route) {
+				console.warn("⚠️ No route can deliver the requested output", { tokenIn, tokenOut, amountOut });
+				return null;
+			}
+
+			// Confirm on-chain (same checks as the swap itself)
+			const amountIn = (await publicClient.readContract({
+				address: SHARIA_SWAP_ADDRESS,
+				abi: ShariaSwapABI,
+				functionName: "getSwapQuoteInForPath",
+				args: [route.path, amountOut],
+			})) as bigint;
+
+			const symbols = toSymbols(route.path);
+			console.log("🧭 Best exact-output route:", symbols.join(" → "), amountIn.toString());
+			return { ...route, amountIn, symbols };
+		} catch (err) {
+			console.error("❌ Route quote error:", err instanceof Error ? err.message : err);
+			return null;
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	return { isLoading, fetchRoute, fetchRouteIn };
+}
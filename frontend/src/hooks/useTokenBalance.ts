@@ -1,15 +1,16 @@
 import { useAccount, useBalance, useReadContract } from "wagmi";
 import { formatUnits } from "viem";
 import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
+import { useContracts } from "./useContracts";
 import type { Token } from "../types";
 
 export function useTokenBalance(token: Token | null) {
+	const { WETH: WETH_ADDRESS } = useContracts();
 	const { address } = useAccount();
 
 	// Check if this is DEV/WETH (native token or wrapped native token)
 	// DEV token uses the WETH contract address, so we check by address
-	const isNativeToken = token?.addresses.moonbase?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+	const isNativeToken = token?.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
 
 	// Get native balance for DEV/WETH
 	const { data: nativeBalance, refetch: refetchNative } = useBalance({
@@ -1,213 +1,120 @@
-import { useEffect, useState } from "react";
-import type { TokenPrice } from "../types";
-
-// Mock price data for common tokens (fallback when API is unavailable)
-const MOCK_PRICES: Record<string, number> = {
-	ETH: 3500,
-	WETH: 3500,
-	BTC: 65000,
-	WBTC: 65000,
-	USDT: 1,
-	USDC: 1,
-	DAI: 1,
-	LINK: 15,
-	UNI: 8,
-	AAVE: 100,
-	MATIC: 0.8,
-	DEV: 0.5, // Moonbase native token
-	GLMR: 0.5,
-};
-
-// Mapping from token symbol to CoinGecko ID
-const SYMBOL_TO_COINGECKO_ID: Record<string, string> = {
-	BTC: "bitcoin",
-	WBTC: "wrapped-bitcoin",
-	ETH: "ethereum",
-	WETH: "ethereum",
-	USDT: "tether",
-	USDC: "usd-coin",
-	DAI: "dai",
-	LINK: "chainlink",
-	UNI: "uniswap",
-	AAVE: "aave",
-	MATIC: "matic-network",
-	XRP: "ripple",
-	BNB: "binancecoin",
-	SOL: "solana",
-	TRX: "tron",
-	ADA: "cardano",
-	HBAR: "hedera-hashgraph",
-	BCH: "bitcoin-cash",
-	LEO: "leo-token",
-	XLM: "stellar",
-	SUI: "sui",
-	AVAX: "avalanche-2",
-	HYPE: "hyperliquid",
-	DEV: "moonbeam", // Moonbase native token - using Moonbeam as proxy
-	GLMR: "moonbeam",
-};
+import { useEffect, useMemo, useState } from "react";
+import type { PublicClient } from "viem";
+import { useChainId, usePublicClient } from "wagmi";
+import { PRICE_PROVIDER_ORDER } from "../config/prices";
+import type { PriceSource, TokenPrice } from "../types";
+import {
+	createCoinGeckoPriceProvider,
+	createPoolPriceProvider,
+	createStaticPriceProvider,
+} from "../utils/priceProviders";
+import type { PriceProvider } from "../utils/priceProviders";
+import { useContracts } from "./useContracts";
 
 interface PriceCache {
 	[symbol: string]: TokenPrice;
 }
 
-// Cache with 5 minute expiry
-const CACHE_DURATION = 5 * 60 * 1000;
-const priceCache: PriceCache = {};
+// Cached prices per chain and symbol, kept until their provider's TTL runs out
+const priceCache: Record<string, { price: TokenPrice; expiresAt: number }> = {};
 
 /**
  * Hook to fetch and manage token prices in USD
- * Uses CoinGecko API with fallback to mock prices
+ * Asks each provider in PRICE_PROVIDER_ORDER (pools, then CoinGecko by default)
+ * for the symbols the previous ones couldn't price. Unpriced symbols are left out.
  */
 export function useTokenPrices(symbols: string[]) {
+	const { TOKENS, PAIRS } = useContracts();
+	const chainId = useChainId();
+	const publicClient = usePublicClient();
 	const [prices, setPrices] = useState<PriceCache>({});
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 
+	const providers = useMemo(
+		() =>
+			PRICE_PROVIDER_ORDER.flatMap((name): PriceProvider[] => {
+				switch (name) {
+					case "pool":
+						return publicClient
+							? [
+									createPoolPriceProvider({
+										publicClient: publicClient as PublicClient,
+										tokens: TOKENS,
+										pairs: PAIRS,
+									}),
+								]
+							: [];
+					case "coingecko":
+						return [createCoinGeckoPriceProvider()];
+					case "fixture":
+						return [createStaticPriceProvider()];
+				}
+			}),
+		[publicClient, TOKENS, PAIRS]
+	);
+
+	const symbolsKey = symbols.map((symbol) => symbol.toUpperCase()).join(",");
+
 	useEffect(() => {
-		if (symbols.length === 0) return;
+		if (!symbolsKey) return;
 
+		let cancelled = false;
 		const fetchPrices = async () => {
 			setLoading(true);
 			setError(null);
 
 			const now = Date.now();
-			const newPrices: PriceCache = { ...prices };
-			const symbolsToFetch: string[] = [];
+			const newPrices: PriceCache = {};
+			let pending: string[] = [];
 
 			// Check cache first
-			for (const symbol of symbols) {
-				const symbolUpper = symbol.toUpperCase();
-				const cached = priceCache[symbolUpper];
-				// Only use cache if it has all required data (price and market cap) and is not expired
-				// Allow marketCap to be 0, but reject undefined/null
-				if (cached && now - cached.lastUpdated < CACHE_DURATION && cached.usd && cached.marketCap !== undefined && cached.marketCap !== null) {
-					newPrices[symbolUpper] = cached;
+			for (const symbol of symbolsKey.split(",")) {
+				const cached = priceCache[`${chainId}:${symbol}`];
+				if (cached && now < cached.expiresAt) {
+					newPrices[symbol] = cached.price;
 				} else {
-					symbolsToFetch.push(symbol);
+					pending.push(symbol);
 				}
 			}
 
-			// If all prices are cached, use them
-			if (symbolsToFetch.length === 0) {
-				setPrices(newPrices);
-				setLoading(false);
-				return;
-			}
-
-			// Try to fetch from CoinGecko
-			try {
-				// Map symbols to CoinGecko IDs and group them
-				const coingeckoIds: string[] = [];
-				const symbolToIdMap: Record<string, string> = {};
-				
-				for (const symbol of symbolsToFetch) {
-					const symbolUpper = symbol.toUpperCase();
-					const coingeckoId = SYMBOL_TO_COINGECKO_ID[symbolUpper];
-					if (coingeckoId) {
-						if (!coingeckoIds.includes(coingeckoId)) {
-							coingeckoIds.push(coingeckoId);
-						}
-						symbolToIdMap[symbolUpper] = coingeckoId;
-					}
-				}
-
-				// Fetch from CoinGecko API if we have valid IDs
-				if (coingeckoIds.length > 0) {
-					const idsParam = coingeckoIds.join(",");
-					const response = await fetch(
-						`https://api.coingecko.com/api/v3/simple/price?ids=${idsParam}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true`
-					);
-
-					if (!response.ok) {
-						throw new Error(`CoinGecko API error: ${response.status}`);
-					}
-
-					const data = await response.json();
-
-					// Process fetched prices
-					for (const symbol of symbolsToFetch) {
-						const symbolUpper = symbol.toUpperCase();
-						const coingeckoId = symbolToIdMap[symbolUpper];
-						
-						if (coingeckoId && data[coingeckoId]) {
-							const coinData = data[coingeckoId];
-							const priceData: TokenPrice = {
-								symbol: symbolUpper,
-								usd: coinData.usd || 0,
-								change24h: coinData.usd_24h_change || 0,
-								marketCap: coinData.usd_market_cap || 0,
-								lastUpdated: now,
-							};
-
-							newPrices[symbolUpper] = priceData;
-							priceCache[symbolUpper] = priceData;
-						} else {
-							// Fallback to mock price if CoinGecko ID not found
-							const mockPrice = MOCK_PRICES[symbolUpper] || 1;
-							const priceData: TokenPrice = {
-								symbol: symbolUpper,
-								usd: mockPrice,
-								marketCap: 0, // No market cap available for unmapped tokens
-								lastUpdated: now,
-							};
-
-							newPrices[symbolUpper] = priceData;
-							priceCache[symbolUpper] = priceData;
-						}
-					}
-				} else {
-					// No CoinGecko IDs found, use mock prices
-					for (const symbol of symbolsToFetch) {
-						const symbolUpper = symbol.toUpperCase();
-						const mockPrice = MOCK_PRICES[symbolUpper] || 1;
-						
-						const priceData: TokenPrice = {
-							symbol: symbolUpper,
-							usd: mockPrice,
-							marketCap: 0, // No market cap available for unmapped tokens
-							lastUpdated: now,
-						};
-
-						newPrices[symbolUpper] = priceData;
-						priceCache[symbolUpper] = priceData;
+			// Ask providers in priority order for whatever is still unpriced
+			let failed = false;
+			for (const provider of providers) {
+				if (pending.length === 0) break;
+				try {
+					const result = await provider.getPrices(pending);
+					for (const [symbol, price] of Object.entries(result)) {
+						newPrices[symbol] = price;
+						priceCache[`${chainId}:${symbol}`] = { price, expiresAt: now + provider.ttlMs };
 					}
+					pending = pending.filter((symbol) => !result[symbol]);
+				} catch (err) {
+					console.error(`Error fetching prices from ${provider.name}:`, err);
+					failed = true;
 				}
+			}
 
-				setPrices(newPrices);
-			} catch (err) {
-				console.error("Error fetching prices:", err);
+			if (cancelled) return;
+			if (failed && pending.length > 0) {
 				setError("Failed to fetch token prices");
-				
-				// Use mock prices as fallback
-				for (const symbol of symbolsToFetch) {
-					const symbolUpper = symbol.toUpperCase();
-					const mockPrice = MOCK_PRICES[symbolUpper] || 1;
-					
-					const priceData: TokenPrice = {
-						symbol: symbolUpper,
-						usd: mockPrice,
-						marketCap: 0, // No market cap available on error
-						lastUpdated: now,
-					};
-
-					newPrices[symbolUpper] = priceData;
-				}
-				
-				setPrices(newPrices);
-			} finally {
-				setLoading(false);
 			}
+			setPrices((prev) => ({ ...prev, ...newPrices }));
+			setLoading(false);
 		};
 
 		fetchPrices();
-	}, [symbols.join(",")]);
+		return () => {
+			cancelled = true;
+		};
+	}, [symbolsKey, providers, chainId]);
 
 	return {
 		prices,
 		loading,
 		error,
 		getPrice: (symbol: string) => prices[symbol.toUpperCase()]?.usd || 0,
+		getSource: (symbol: string): PriceSource | undefined => prices[symbol.toUpperCase()]?.source,
 		getChange24h: (symbol: string) => prices[symbol.toUpperCase()]?.change24h || 0,
 		getMarketCap: (symbol: string) => prices[symbol.toUpperCase()]?.marketCap || 0,
 		calculateUsdValue: (symbol: string, amount: number) => {
@@ -221,12 +128,12 @@ export function useTokenPrices(symbols: string[]) {
  * Hook to get a single token price
  */
 export function useTokenPrice(symbol: string) {
-	const { loading, error, getPrice } = useTokenPrices([symbol]);
-	
+	const { loading, error, getPrice, getSource } = useTokenPrices([symbol]);
+
 	return {
 		price: getPrice(symbol),
+		source: getSource(symbol),
 		loading,
 		error,
 	};
 }
-
@@ -6,8 +6,8 @@ import {
 	useSwitchChain,
 	useConnectors,
 } from "wagmi";
-import { moonbaseAlpha } from "wagmi/chains";
 import type { Connector } from "wagmi";
+import { REQUIRED_CHAIN_ID } from "../config/wagmi";
 
 /**
  * Refactored wallet hook using Wagmi v2
@@ -21,8 +21,8 @@ export function useWallet() {
 	const { disconnect } = useDisconnect();
 	const availableConnectors = useConnectors();
 
-	// Check if on Moonbase Alpha testnet
-	const isOnMoonbaseAlpha = chainId === moonbaseAlpha.id;
+	// Check if on Moonbase Alpha testnet (the local devnet chain when VITE_DEVNET=true)
+	const isOnMoonbaseAlpha = chainId === REQUIRED_CHAIN_ID;
 
 	// Connect wallet with a specific connector
 	const connectWallet = (connector?: Connector) => {
@@ -43,7 +43,7 @@ export function useWallet() {
 	const switchToMoonbaseAlpha = async () => {
 		if (!isOnMoonbaseAlpha && switchChain) {
 			try {
-				await switchChain({ chainId: moonbaseAlpha.id });
+				await switchChain({ chainId: REQUIRED_CHAIN_ID });
 			} catch (error) {
 				// If switch fails, the chain might not be added to MetaMask
 				// The error will be handled by the caller
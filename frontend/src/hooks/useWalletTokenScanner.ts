@@ -1,16 +1,24 @@
 import { useMemo, useState, useCallback } from "react";
-import { useAccount, useChainId, usePublicClient, useBalance } from "wagmi";
+import { useAccount, useChainId, usePublicClient } from "wagmi";
 import { formatUnits, isAddress, getAddress } from "viem";
-import type { Address } from "viem";
-import { ERC20_ABI } from "../config/abis";
-import { useShariaCompliance } from "./useShariaCompliance";
-import { moonbaseAlpha } from "wagmi/chains";
-import deployedContracts from "../../../config/deployedContracts.json";
-
-const WETH_ADDRESS = (
-	deployedContracts as unknown as { amm: { weth: string } }
-).amm.weth as Address;
+import type { Address, PublicClient } from "viem";
+import { ERC20_ABI, ShariaComplianceABI } from "../config/abis";
+import { INDEXER_URL } from "../config/indexer";
+import { getReviewStatus } from "../utils/complianceScreening";
+import type { CoinScreening } from "../utils/complianceScreening";
+import { discoverTokensFromLogs, readTokenHoldings } from "../utils/tokenDiscovery";
+import { fetchIndexedHeldTokens } from "./useIndexer";
+import { useComplianceScreening, useShariaCompliance } from "./useShariaCompliance";
+import type { ShariaCoin } from "./useShariaCompliance";
+import { useContracts } from "./useContracts";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
 
+/**
+ * Compliance status of a held token
+ * - unknown: registered without a verdict reason
+ * - unreviewed: not in the registry at all (found through Transfer logs)
+ */
+export type ScanStatus = "compliant" | "non-compliant" | "unknown" | "unreviewed";
 
 export interface ScannedToken {
 	address: string;
@@ -19,9 +27,244 @@ export interface ScannedToken {
 	balance: string;
 	balanceRaw: bigint;
 	decimals: number;
-	status: "compliant" | "non-compliant" | "unknown";
+	status: ScanStatus;
 	complianceReason?: string;
 	verified?: boolean;
+	screening?: CoinScreening;
+	reviewRequested?: boolean; // Unreviewed tokens already submitted for screening
+}
+
+export interface ScanSummary {
+	compliant: number;
+	nonCompliant: number;
+	unknown: number;
+	unreviewed: number;
+	reviewOverdue: number; // Compliant holdings past their re-review date
+	total: number;
+}
+
+/**
+ * Registry data a scan checks holdings against
+ */
+export interface WalletScanContext {
+	coins: ShariaCoin[];
+	screenings: Record<string, CoinScreening>;
+	wethAddress: Address;
+	complianceAddress: Address;
+	discoverTokens: boolean;
+}
+
+export interface WalletScanResult {
+	tokens: ScannedToken[];
+	discoveryWarning: string | null; // Unregistered tokens couldn't be looked up (registered ones were still scanned)
+}
+
+/**
+ * Tokens held by the address with their compliance status, compliant first
+ * Registered coins are read with multicall (native DEV counted with WETH); with
+ * discoverTokens, unregistered tokens from the Transfer history are added as unreviewed.
+ */
+export async function scanWalletTokens(
+	publicClient: PublicClient,
+	addressToScan: Address,
+	{ coins, screenings, wethAddress, complianceAddress, discoverTokens }: WalletScanContext
+): Promise<WalletScanResult> {
+	let discoveryWarning: string | null = null;
+
+	// Step 1: Loop through Tayeb coins and check if they're in the wallet
+	console.log("🔍 Checking wallet for Tayeb coins...");
+	console.log(`📊 Found ${coins.length} registered coins to check`);
+
+	const tokens: ScannedToken[] = [];
+
+	// Get token addresses and prepare balance checks
+	const tokenAddresses: Address[] = [];
+	const coinMap = new Map<string, { symbol: string; name: string; address: Address; verified: boolean; complianceReason: string }>();
+
+	for (const coin of coins) {
+		if (coin.tokenAddress && coin.tokenAddress !== "0x0000000000000000000000000000000000000000") {
+			try {
+				const address = getAddress(coin.tokenAddress);
+				tokenAddresses.push(address);
+				coinMap.set(address.toLowerCase(), {
+					symbol: coin.symbol || "UNKNOWN",
+					name: coin.name || "Unknown Token",
+					address: address,
+					verified: coin.verified,
+					complianceReason: coin.complianceReason || "",
+				});
+			} catch (err) {
+				console.warn(`⚠️ Invalid coin address: ${coin.tokenAddress}`, err);
+			}
+		}
+	}
+
+	if (tokenAddresses.length === 0) {
+		console.log("⚠️ No valid token addresses found in registered coins");
+	} else {
+		// Check balances for all registered tokens using multicall
+		console.log(`🔍 Checking balances for ${tokenAddresses.length} registered tokens...`);
+
+		// Native DEV balance (counted with WETH since DEV is the native token)
+		const nativeBalance = await publicClient.getBalance({ address: addressToScan });
+
+		// Prepare multicall contracts for balanceOf
+		const balanceContracts = tokenAddresses.map((tokenAddress) => ({
+			address: tokenAddress,
+			abi: ERC20_ABI,
+			functionName: "balanceOf" as const,
+			args: [addressToScan] as const,
+		}));
+
+		// Also fetch decimals in case we don't have it
+		const decimalsContracts = tokenAddresses.map((tokenAddress) => ({
+			address: tokenAddress,
+			abi: ERC20_ABI,
+			functionName: "decimals" as const,
+		}));
+
+		// Execute multicalls in batches
+		const batchSize = 50;
+
+		for (let i = 0; i < balanceContracts.length; i += batchSize) {
+			const batchEnd = Math.min(i + batchSize, balanceContracts.length);
+			const balanceBatch = balanceContracts.slice(i, batchEnd);
+			const decimalsBatch = decimalsContracts.slice(i, batchEnd);
+
+			const [balanceResults, decimalsResults] = await Promise.all([
+				publicClient.multicall({ contracts: balanceBatch as any }),
+				publicClient.multicall({ contracts: decimalsBatch as any }),
+			]);
+
+			// Process results
+			for (let j = 0; j < balanceBatch.length; j++) {
+				const tokenIndex = i + j;
+				const tokenAddress = tokenAddresses[tokenIndex];
+				const tokenAddressLower = tokenAddress.toLowerCase();
+				const coin = coinMap.get(tokenAddressLower);
+
+				if (!coin) continue;
+
+				const balanceResult = balanceResults[j];
+				const decimalsResult = decimalsResults[j];
+
+				let balance = balanceResult?.status === "success" && balanceResult.result
+					? (balanceResult.result as bigint)
+					: 0n;
+
+				const decimals = decimalsResult?.status === "success" && decimalsResult.result
+					? Number(decimalsResult.result)
+					: 18;
+
+				// If this is WETH (wrapped DEV), also check native DEV balance
+				// Native DEV balance should be included since DEV is the native token
+				if (tokenAddressLower === wethAddress.toLowerCase() && nativeBalance > 0n) {
+					// Add native DEV balance to wrapped DEV balance
+					balance = balance + nativeBalance;
+					console.log(`  📊 DEV: Wrapped=${formatUnits(balance - nativeBalance, decimals)}, Native=${formatUnits(nativeBalance, 18)}, Total=${formatUnits(balance, decimals)}`);
+				}
+
+				// Only include tokens with non-zero balance
+				if (balance > 0n) {
+					console.log(`  ✅ Found ${coin.symbol}: ${formatUnits(balance, decimals)}`);
+
+					// Use compliance status from coin data
+					const status: "compliant" | "non-compliant" | "unknown" = coin.verified
+						? "compliant"
+						: coin.complianceReason
+							? "non-compliant"
+							: "unknown";
+
+					tokens.push({
+						address: tokenAddress,
+						symbol: coin.symbol,
+						name: coin.name,
+						balance: formatUnits(balance, decimals),
+						balanceRaw: balance,
+						decimals,
+						status,
+						complianceReason: coin.complianceReason || undefined,
+						verified: coin.verified,
+						screening: screenings[coin.symbol],
+					});
+				}
+			}
+		}
+	}
+
+	// Step 2: Tokens outside the registry, found from the address's Transfer history
+	if (discoverTokens) {
+		try {
+			console.log(`🔍 Discovering other tokens from Transfer logs (${INDEXER_URL ? "indexer" : "RPC"})...`);
+			const discovered = INDEXER_URL
+				? (await fetchIndexedHeldTokens(addressToScan)).map((held) => getAddress(held.token))
+				: await discoverTokensFromLogs(publicClient, addressToScan);
+			const unregistered = discovered.filter((address) => !coinMap.has(address.toLowerCase()));
+			const holdings = await readTokenHoldings(publicClient, unregistered, addressToScan);
+
+			// Open review requests, so holders don't submit the same token twice
+			const requests = await publicClient.multicall({
+				contracts: holdings.map((holding) => ({
+					address: complianceAddress,
+					abi: ShariaComplianceABI,
+					functionName: "getReviewRequest" as const,
+					args: [holding.address] as const,
+				})),
+			});
+
+			holdings.forEach((holding, i) => {
+				const request = requests[i];
+				console.log(`  ❔ Found unregistered ${holding.symbol}: ${formatUnits(holding.balance, holding.decimals)}`);
+				tokens.push({
+					address: holding.address,
+					symbol: holding.symbol,
+					name: holding.name,
+					balance: formatUnits(holding.balance, holding.decimals),
+					balanceRaw: holding.balance,
+					decimals: holding.decimals,
+					status: "unreviewed",
+					reviewRequested:
+						request?.status === "success" &&
+						request.result.requester !== "0x0000000000000000000000000000000000000000",
+				});
+			});
+			console.log(`📊 ${discovered.length} tokens in Transfer history, ${holdings.length} unregistered with a balance`);
+		} catch (err) {
+			// Large log ranges are often refused by public RPCs: keep the registered results
+			console.warn("⚠️ Token discovery failed:", err);
+			discoveryWarning = INDEXER_URL
+				? "Couldn't load the Transfer history from the indexer (is it running with INDEXER_TRANSFERS=true?). Only registered coins were checked."
+				: "The RPC refused the Transfer log search. Only registered coins were checked; set VITE_INDEXER_URL to discover other tokens.";
+		}
+	}
+
+	if (tokens.length === 0) {
+		console.log("⚠️ No tokens with non-zero balances found in wallet");
+	}
+
+	// Sort: compliant first, then unknown, unreviewed, then non-compliant
+	tokens.sort((a, b) => {
+		const statusOrder = { compliant: 0, unknown: 1, unreviewed: 2, "non-compliant": 3 };
+		return statusOrder[a.status] - statusOrder[b.status];
+	});
+
+	console.log(`✅ Final scan result: ${tokens.length} tokens found (${tokens.filter(t => t.status === "compliant").length} compliant, ${tokens.filter(t => t.status === "unknown").length} unknown, ${tokens.filter(t => t.status === "unreviewed").length} unreviewed)`);
+
+	return { tokens, discoveryWarning };
+}
+
+/**
+ * Token counts per compliance status
+ */
+export function summarizeScan(tokens: ScannedToken[]): ScanSummary {
+	return {
+		compliant: tokens.filter((t) => t.status === "compliant").length,
+		nonCompliant: tokens.filter((t) => t.status === "non-compliant").length,
+		unknown: tokens.filter((t) => t.status === "unknown").length,
+		unreviewed: tokens.filter((t) => t.status === "unreviewed").length,
+		reviewOverdue: tokens.filter((t) => t.status === "compliant" && getReviewStatus(t.screening) === "overdue").length,
+		total: tokens.length,
+	};
 }
 
 interface UseWalletTokenScannerReturn {
@@ -29,39 +272,34 @@ interface UseWalletTokenScannerReturn {
 	isScanning: boolean;
 	error: Error | null;
 	scanWallet: () => Promise<void>;
-	summary: {
-		compliant: number;
-		nonCompliant: number;
-		unknown: number;
-		total: number;
-	};
+	discoveryWarning: string | null; // Unregistered tokens couldn't be looked up (registered ones were still scanned)
+	summary: ScanSummary;
 }
 
 /**
  * Hook to scan user's wallet for tokens and check Sharia compliance status
  * @param scanAddress Optional address to scan. If not provided, uses connected wallet address
+ * @param options.discoverTokens Also find unregistered tokens from Transfer logs (default true)
  */
-export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScannerReturn {
+export function useWalletTokenScanner(
+	scanAddress?: Address,
+	options: { discoverTokens?: boolean } = {}
+): UseWalletTokenScannerReturn {
+	const { discoverTokens = true } = options;
+	const { WETH: WETH_ADDRESS, SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
 	const { address: connectedAddress } = useAccount();
 	const chainId = useChainId();
 	const { coins } = useShariaCompliance();
+	const { screenings } = useComplianceScreening();
 	const publicClient = usePublicClient();
 	const [scannedTokens, setScannedTokens] = useState<ScannedToken[]>([]);
 	const [isScanning, setIsScanning] = useState(false);
 	const [error, setError] = useState<Error | null>(null);
+	const [discoveryWarning, setDiscoveryWarning] = useState<string | null>(null);
 
 	// Use custom address if provided, otherwise use connected address
 	const addressToScan = scanAddress || connectedAddress;
 
-	// Get native DEV balance (needed for checking DEV even if wrapped)
-	const { data: nativeBalance } = useBalance({
-		address: addressToScan,
-		query: {
-			enabled: Boolean(addressToScan),
-		},
-	});
-
-
 	// Scan wallet function
 	const scanWallet = useCallback(async () => {
 		if (!addressToScan) {
@@ -75,14 +313,15 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 			return;
 		}
 
-		// Check if on Moonbase Alpha
-		if (chainId !== moonbaseAlpha.id) {
-			setError(new Error("Please switch to Moonbase Alpha network to scan"));
+		// Check if on Moonbase Alpha (or the local devnet)
+		if (chainId !== REQUIRED_CHAIN_ID) {
+			setError(new Error(`Please switch to ${REQUIRED_CHAIN_NAME} network to scan`));
 			return;
 		}
 
 		setIsScanning(true);
 		setError(null);
+		setDiscoveryWarning(null);
 
 		try {
 			if (!addressToScan) {
@@ -93,138 +332,15 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 				throw new Error("Public client not available");
 			}
 
-			// Step 1: Loop through Tayeb coins and check if they're in the wallet
-			console.log("🔍 Checking wallet for Tayeb coins...");
-			console.log(`📊 Found ${coins.length} registered coins to check`);
-
-			const tokens: ScannedToken[] = [];
-
-			// Get token addresses and prepare balance checks
-			const tokenAddresses: Address[] = [];
-			const coinMap = new Map<string, { symbol: string; name: string; address: Address; verified: boolean; complianceReason: string }>();
-
-			for (const coin of coins) {
-				if (coin.tokenAddress && coin.tokenAddress !== "0x0000000000000000000000000000000000000000") {
-					try {
-						const address = getAddress(coin.tokenAddress);
-						tokenAddresses.push(address);
-						coinMap.set(address.toLowerCase(), {
-							symbol: coin.symbol || "UNKNOWN",
-							name: coin.name || "Unknown Token",
-							address: address,
-							verified: coin.verified,
-							complianceReason: coin.complianceReason || "",
-						});
-					} catch (err) {
-						console.warn(`⚠️ Invalid coin address: ${coin.tokenAddress}`, err);
-					}
-				}
-			}
-
-			if (tokenAddresses.length === 0) {
-				console.log("⚠️ No valid token addresses found in registered coins");
-			} else {
-				// Check balances for all registered tokens using multicall
-				console.log(`🔍 Checking balances for ${tokenAddresses.length} registered tokens...`);
-
-				// Prepare multicall contracts for balanceOf
-				const balanceContracts = tokenAddresses.map((tokenAddress) => ({
-					address: tokenAddress,
-					abi: ERC20_ABI,
-					functionName: "balanceOf" as const,
-					args: [addressToScan] as const,
-				}));
-
-				// Also fetch decimals in case we don't have it
-				const decimalsContracts = tokenAddresses.map((tokenAddress) => ({
-					address: tokenAddress,
-					abi: ERC20_ABI,
-					functionName: "decimals" as const,
-				}));
-
-				// Execute multicalls in batches
-				const batchSize = 50;
-
-				for (let i = 0; i < balanceContracts.length; i += batchSize) {
-					const batchEnd = Math.min(i + batchSize, balanceContracts.length);
-					const balanceBatch = balanceContracts.slice(i, batchEnd);
-					const decimalsBatch = decimalsContracts.slice(i, batchEnd);
-
-					const [balanceResults, decimalsResults] = await Promise.all([
-						publicClient.multicall({ contracts: balanceBatch as any }),
-						publicClient.multicall({ contracts: decimalsBatch as any }),
-					]);
-
-					// Process results
-					for (let j = 0; j < balanceBatch.length; j++) {
-						const tokenIndex = i + j;
-						const tokenAddress = tokenAddresses[tokenIndex];
-						const tokenAddressLower = tokenAddress.toLowerCase();
-						const coin = coinMap.get(tokenAddressLower);
-
-						if (!coin) continue;
-
-						const balanceResult = balanceResults[j];
-						const decimalsResult = decimalsResults[j];
-
-						let balance = balanceResult?.status === "success" && balanceResult.result 
-							? (balanceResult.result as bigint) 
-							: 0n;
-
-						const decimals = decimalsResult?.status === "success" && decimalsResult.result 
-							? Number(decimalsResult.result) 
-							: 18;
-
-						// If this is WETH (wrapped DEV), also check native DEV balance
-						// Native DEV balance should be included since DEV is the native token
-						if (tokenAddressLower === WETH_ADDRESS.toLowerCase() && nativeBalance && nativeBalance.value > 0n) {
-							// Add native DEV balance to wrapped DEV balance
-							balance = balance + nativeBalance.value;
-							console.log(`  📊 DEV: Wrapped=${formatUnits(balance - nativeBalance.value, decimals)}, Native=${formatUnits(nativeBalance.value, 18)}, Total=${formatUnits(balance, decimals)}`);
-						}
-
-						// Only include tokens with non-zero balance
-						if (balance > 0n) {
-							console.log(`  ✅ Found ${coin.symbol}: ${formatUnits(balance, decimals)}`);
-
-							// Use compliance status from coin data
-							const status: "compliant" | "non-compliant" | "unknown" = coin.verified 
-								? "compliant" 
-								: coin.complianceReason 
-									? "non-compliant" 
-									: "unknown";
-
-							tokens.push({
-								address: tokenAddress,
-								symbol: coin.symbol,
-								name: coin.name,
-								balance: formatUnits(balance, decimals),
-								balanceRaw: balance,
-								decimals,
-								status,
-								complianceReason: coin.complianceReason || undefined,
-								verified: coin.verified,
-							});
-						}
-					}
-				}
-			}
-
-			// Get final list of tokens with balances
-			const tokensWithBalance = tokens;
-
-			if (tokensWithBalance.length === 0) {
-				console.log("⚠️ No tokens with non-zero balances found in wallet");
-			}
-
-			// Sort: compliant first, then unknown, then non-compliant
-			tokens.sort((a, b) => {
-				const statusOrder = { compliant: 0, unknown: 1, "non-compliant": 2 };
-				return statusOrder[a.status] - statusOrder[b.status];
+			const { tokens, discoveryWarning: warning } = await scanWalletTokens(publicClient, addressToScan, {
+				coins,
+				screenings,
+				wethAddress: WETH_ADDRESS,
+				complianceAddress: SHARIA_COMPLIANCE_ADDRESS,
+				discoverTokens,
 			});
 
-			console.log(`✅ Final scan result: ${tokens.length} tokens found (${tokens.filter(t => t.status === "compliant").length} compliant, ${tokens.filter(t => t.status === "unknown").length} unknown)`);
-
+			setDiscoveryWarning(warning);
 			setScannedTokens(tokens);
 		} catch (err) {
 			setError(err instanceof Error ? err : new Error("Failed to scan wallet"));
@@ -236,29 +352,21 @@ export function useWalletTokenScanner(scanAddress?: Address): UseWalletTokenScan
 		addressToScan,
 		chainId,
 		coins,
-		nativeBalance,
+		discoverTokens,
 		publicClient,
+		screenings,
+		SHARIA_COMPLIANCE_ADDRESS,
+		WETH_ADDRESS,
 	]);
 
-	// Calculate summary
-	const summary = useMemo(() => {
-		const compliant = scannedTokens.filter((t) => t.status === "compliant").length;
-		const nonCompliant = scannedTokens.filter((t) => t.status === "non-compliant").length;
-		const unknown = scannedTokens.filter((t) => t.status === "unknown").length;
-
-		return {
-			compliant,
-			nonCompliant,
-			unknown,
-			total: scannedTokens.length,
-		};
-	}, [scannedTokens]);
+	const summary = useMemo(() => summarizeScan(scannedTokens), [scannedTokens]);
 
 	return {
 		scannedTokens,
 		isScanning,
 		error,
 		scanWallet,
+		discoveryWarning,
 		summary,
 	};
 }
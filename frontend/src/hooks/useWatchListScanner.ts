@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from "react";
+import { getAddress, isAddress } from "viem";
+import { useChainId, usePublicClient } from "wagmi";
+import { REQUIRED_CHAIN_ID, REQUIRED_CHAIN_NAME } from "../config/wagmi";
+import {
+	diffSnapshots,
+	loadWatchList,
+	parseWatchListCsv,
+	saveWatchList,
+	snapshotHoldings,
+} from "../utils/watchList";
+import type { WatchedAddress } from "../utils/watchList";
+import { useContracts } from "./useContracts";
+import { useComplianceScreening, useShariaCompliance } from "./useShariaCompliance";
+import { scanWalletTokens, summarizeScan } from "./useWalletTokenScanner";
+import type { ScannedToken, ScanSummary } from "./useWalletTokenScanner";
+
+/**
+ * Latest scan of a watched address in this session
+ */
+export interface WatchListScan {
+	tokens: ScannedToken[];
+	summary: ScanSummary;
+	discoveryWarning: string | null;
+	error: string | null;
+}
+
+/**
+ * Hook for the scanner's watch list: saved labelled addresses scanned together
+ * Addresses are scanned one after the other with the same logic as
+ * useWalletTokenScanner; each scan's snapshot is saved so the next one can flag
+ * changes in the compliance mix (see utils/watchList.ts).
+ */
+export function useWatchListScanner() {
+	const { WETH: WETH_ADDRESS, SHARIA_COMPLIANCE: SHARIA_COMPLIANCE_ADDRESS } = useContracts();
+	const chainId = useChainId();
+	const publicClient = usePublicClient();
+	const { coins } = useShariaCompliance();
+	const { screenings } = useComplianceScreening();
+
+	const [entries, setEntries] = useState<WatchedAddress[]>(loadWatchList);
+	const [scans, setScans] = useState<Record<string, WatchListScan>>({});
+	const [isScanning, setIsScanning] = useState(false);
+	const [progress, setProgress] = useState({ done: 0, total: 0 });
+	const [error, setError] = useState<Error | null>(null);
+
+	useEffect(() => {
+		saveWatchList(entries);
+	}, [entries]);
+
+	/**
+	 * Add a labelled address (throws on invalid or already watched addresses)
+	 */
+	const addAddress = (address: string, label: string) => {
+		if (!isAddress(address)) throw new Error("Invalid wallet address format");
+		const checksummed = getAddress(address);
+		if (entries.some((entry) => entry.address === checksummed)) {
+			throw new Error("Address is already on the watch list");
+		}
+		setEntries((prev) => [...prev, { address: checksummed, label: label.trim() }]);
+	};
+
+	const removeAddress = (address: string) => {
+		setEntries((prev) => prev.filter((entry) => entry.address !== address));
+		setScans((prev) => {
+			const next = { ...prev };
+			delete next[address];
+			return next;
+		});
+	};
+
+	/**
+	 * Add the addresses from CSV text; existing addresses get the CSV label when it has one
+	 */
+	const importCsv = (text: string) => {
+		const { entries: imported, errors } = parseWatchListCsv(text);
+		const labels = new Map(imported.map(({ address, label }) => [address, label]));
+		const known = new Set(entries.map((entry) => entry.address));
+		const added = [...labels.keys()].filter((address) => !known.has(address));
+
+		setEntries((prev) => [
+			...prev.map((entry) => (labels.get(entry.address) ? { ...entry, label: labels.get(entry.address) ?? "" } : entry)),
+			...added.map((address) => ({ address, label: labels.get(address) ?? "" })),
+		]);
+		return { added: added.length, updated: labels.size - added.length, errors };
+	};
+
+	/**
+	 * Scan every watched address and record the change since its previous scan
+	 */
+	const scanAll = async (discoverTokens: boolean) => {
+		if (!publicClient) {
+			setError(new Error("Public client not available"));
+			return;
+		}
+		if (chainId !== REQUIRED_CHAIN_ID) {
+			setError(new Error(`Please switch to ${REQUIRED_CHAIN_NAME} network to scan`));
+			return;
+		}
+
+		setIsScanning(true);
+		setError(null);
+		setProgress({ done: 0, total: entries.length });
+
+		try {
+			for (const [i, entry] of entries.entries()) {
+				try {
+					const { tokens, discoveryWarning } = await scanWalletTokens(publicClient, entry.address, {
+						coins,
+						screenings,
+						wethAddress: WETH_ADDRESS,
+						complianceAddress: SHARIA_COMPLIANCE_ADDRESS,
+						discoverTokens,
+					});
+					const snapshot = snapshotHoldings(tokens);
+
+					setScans((prev) => ({
+						...prev,
+						[entry.address]: { tokens, summary: summarizeScan(tokens), discoveryWarning, error: null },
+					}));
+					setEntries((prev) =>
+						prev.map((other) =>
+							other.address === entry.address
+								? {
+										...other,
+										lastScan: snapshot,
+										changes: other.lastScan ? diffSnapshots(other.lastScan, snapshot) : [],
+									}
+								: other
+						)
+					);
+				} catch (err) {
+					console.error(`Error scanning ${entry.address}:`, err);
+					setScans((prev) => ({
+						...prev,
+						[entry.address]: {
+							tokens: [],
+							summary: summarizeScan([]),
+							discoveryWarning: null,
+							error: err instanceof Error ? err.message : "Failed to scan wallet",
+						},
+					}));
+				}
+				setProgress({ done: i + 1, total: entries.length });
+			}
+		} finally {
+			setIsScanning(false);
+		}
+	};
+
+	// Totals across the addresses scanned this session
+	const aggregate = useMemo(() => {
+		const totals: ScanSummary = summarizeScan([]);
+		for (const scan of Object.values(scans)) {
+			totals.compliant += scan.summary.compliant;
+			totals.nonCompliant += scan.summary.nonCompliant;
+			totals.unknown += scan.summary.unknown;
+			totals.unreviewed += scan.summary.unreviewed;
+			totals.reviewOverdue += scan.summary.reviewOverdue;
+			totals.total += scan.summary.total;
+		}
+		return {
+			...totals,
+			addresses: Object.keys(scans).length,
+			changed: entries.filter((entry) => (entry.changes?.length ?? 0) > 0).length,
+		};
+	}, [scans, entries]);
+
+	return {
+		entries,
+		scans,
+		aggregate,
+		addAddress,
+		removeAddress,
+		importCsv,
+		scanAll,
+		isScanning,
+		progress,
+		error,
+	};
+}
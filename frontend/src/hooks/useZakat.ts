@@ -0,0 +1,134 @@
+import { useEffect, useMemo } from "react";
+import { formatUnits } from "viem";
+import { useAccount } from "wagmi";
+import { getTokenDecimalsBySymbol } from "../config/contracts";
+import type { ZakatHolding } from "../utils/zakat";
+import { useContracts } from "./useContracts";
+import { useShariaCompliance } from "./useShariaCompliance";
+import { LimitOrderStatus, useDCAOrders, useLimitOrders, useShariaDCA } from "./useShariaDCA";
+import { useTokenPrices } from "./useTokenPrices";
+import { useWalletTokenScanner } from "./useWalletTokenScanner";
+
+const NATIVE_TOKEN = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Hook for the connected wallet's zakatable holdings
+ *
+ * Wallet balances come from useWalletTokenScanner (registered coins, native DEV
+ * counted with WETH), DCA deposits from the unexecuted intervals of active
+ * orders and the deposits of open limit orders, all valued with useTokenPrices.
+ * See utils/zakat.ts for what counts.
+ */
+export function useZakat() {
+	const { WETH } = useContracts();
+	const { address } = useAccount();
+	const { coins } = useShariaCompliance();
+	// Only registered tokens are priced, so skip the Transfer log discovery
+	const { scannedTokens, isScanning, error, scanWallet } = useWalletTokenScanner(undefined, {
+		discoverTokens: false,
+	});
+	const { userOrderIds, loadingOrderIds, userLimitOrderIds, loadingLimitOrderIds } = useShariaDCA();
+	const { orders, isLoading: ordersLoading } = useDCAOrders(userOrderIds);
+	const { orders: limitOrders, isLoading: limitOrdersLoading } = useLimitOrders(userLimitOrderIds);
+
+	// Re-read balances when the wallet or registry changes (scanWallet's identity follows both)
+	useEffect(() => {
+		if (address && coins.length > 0) {
+			scanWallet();
+		}
+	}, [address, coins.length, scanWallet]);
+
+	// Registered coins by address (native DEV deposits are held as WETH)
+	const coinByAddress = useMemo(() => {
+		const byAddress = new Map(coins.map((coin) => [coin.tokenAddress.toLowerCase(), coin]));
+		const weth = byAddress.get(WETH.toLowerCase());
+		if (weth) byAddress.set(NATIVE_TOKEN, weth);
+		return byAddress;
+	}, [coins, WETH]);
+
+	// Prepaid deposits for the intervals each active order hasn't executed yet,
+	// and the full deposit of each open limit order (held until it fills, is cancelled or expires)
+	const deposits = useMemo(
+		() => [
+			...orders
+				.filter((order) => order.isActive && order.totalIntervals > order.intervalsCompleted)
+				.map((order) => ({
+					source: "dca" as const,
+					reference: `DCA #${order.id}`,
+					sourceToken: order.sourceToken,
+					coin: coinByAddress.get(order.sourceToken.toLowerCase()),
+					amount: order.amountPerInterval * (order.totalIntervals - order.intervalsCompleted),
+				})),
+			...limitOrders
+				.filter(({ order }) => order.status === LimitOrderStatus.Open)
+				.map(({ order }) => ({
+					source: "limit" as const,
+					reference: `Limit #${order.id}`,
+					sourceToken: order.sourceToken,
+					coin: coinByAddress.get(order.sourceToken.toLowerCase()),
+					amount: order.amountIn,
+				})),
+		],
+		[orders, limitOrders, coinByAddress]
+	);
+
+	const symbols = useMemo(() => {
+		const all = new Set(scannedTokens.map((token) => token.symbol));
+		for (const deposit of deposits) {
+			if (deposit.coin) all.add(deposit.coin.symbol);
+		}
+		return [...all].sort();
+	}, [scannedTokens, deposits]);
+
+	const { prices, loading: pricesLoading } = useTokenPrices(symbols);
+
+	const holdings = useMemo((): ZakatHolding[] => {
+		const value = (symbol: string, amount: number) => {
+			const price = prices[symbol.toUpperCase()]?.usd ?? 0;
+			return price > 0 ? { price, value: amount * price } : { price: null, value: null };
+		};
+
+		const wallet = scannedTokens.map((token): ZakatHolding => {
+			const amount = parseFloat(formatUnits(token.balanceRaw, token.decimals));
+			const priced = value(token.symbol, amount);
+			const nonCompliant = token.status === "non-compliant";
+			return {
+				symbol: token.symbol,
+				address: token.address,
+				source: "wallet",
+				reference: address ?? "",
+				amount,
+				...priced,
+				included: !nonCompliant && priced.value !== null,
+				exclusion: nonCompliant ? "Non-compliant, purify instead" : priced.value === null ? "No price" : undefined,
+			};
+		});
+
+		const held = deposits.map(({ source, reference, sourceToken, coin, amount: rawAmount }): ZakatHolding => {
+			const symbol = coin?.symbol ?? "?";
+			const amount = parseFloat(formatUnits(rawAmount, getTokenDecimalsBySymbol(symbol)));
+			const priced = value(symbol, amount);
+			const nonCompliant = coin !== undefined && !coin.verified;
+			return {
+				symbol,
+				address: sourceToken,
+				source,
+				reference,
+				amount,
+				...priced,
+				included: !nonCompliant && priced.value !== null,
+				exclusion: nonCompliant ? "Non-compliant, purify instead" : priced.value === null ? "No price" : undefined,
+			};
+		});
+
+		return [...wallet, ...held];
+	}, [scannedTokens, deposits, address, prices]);
+
+	return {
+		holdings,
+		isLoading:
+			isScanning || loadingOrderIds || ordersLoading || loadingLimitOrderIds || limitOrdersLoading || pricesLoading,
+		error,
+		refresh: scanWallet,
+	};
+}
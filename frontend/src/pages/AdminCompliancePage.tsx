@@ -0,0 +1,723 @@
+import { useEffect, useState } from "react";
+import { keccak256 } from "viem";
+import type { Hex } from "viem";
+import { ApprovalSettingsPanel } from "../components/ApprovalSettingsPanel";
+import { ComplianceProposalsPanel } from "../components/ComplianceProposalsPanel";
+import { ConfigDiffPreview } from "../components/ConfigDiffPreview";
+import { GovernanceProposalsPanel } from "../components/GovernanceProposalsPanel";
+import { ReviewRequestsPanel } from "../components/ReviewRequestsPanel";
+import { ReviewStatusBadge } from "../components/ReviewStatusBadge";
+import { TransactionNotificationList } from "../components/TransactionNotification";
+import { useShariaComplianceAdmin } from "../hooks/useShariaComplianceAdmin";
+import type { TokenMetadata } from "../hooks/useShariaComplianceAdmin";
+import { useWallet } from "../hooks/useWallet";
+import type { ComplianceAction, ConfigDiffLine } from "../utils/complianceConfig";
+import { formatDuration } from "../utils/complianceProposals";
+import { CATEGORY_LABELS, COIN_CATEGORIES } from "../utils/complianceScreening";
+import type { CoinCategory, CoinScreening } from "../utils/complianceScreening";
+import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
+import type { TransactionNotification } from "../types";
+
+// Status change, removal or screening picked from the registry table
+type PendingAction =
+	| { type: "update"; coinId: string; verified: boolean }
+	| { type: "remove"; coinId: string }
+	| { type: "screening"; coinId: string };
+
+// Screening form fields; dates are <input type="date"> values (UTC days)
+interface ScreeningForm {
+	category: CoinCategory;
+	methodology: string;
+	reviewer: string;
+	documentHash: string;
+	reviewedOn: string;
+	reviewDueOn: string;
+}
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}…${address.slice(-4)}`;
+
+const toDateInput = (seconds: number | null) =>
+	seconds === null ? "" : new Date(seconds * 1000).toISOString().slice(0, 10);
+
+const fromDateInput = (value: string) => (value ? Math.floor(Date.parse(`${value}T00:00:00Z`) / 1000) : null);
+
+const toScreeningForm = (screening: CoinScreening | undefined): ScreeningForm => ({
+	category: screening?.category ?? "unspecified",
+	methodology: screening?.methodology ?? "",
+	reviewer: screening?.reviewer ?? "",
+	documentHash: screening?.documentHash ?? "",
+	reviewedOn: toDateInput(screening?.reviewedAt ?? null),
+	reviewDueOn: toDateInput(screening?.reviewDueAt ?? null),
+});
+
+const fromScreeningForm = (form: ScreeningForm): CoinScreening => ({
+	category: form.category,
+	methodology: form.methodology.trim(),
+	reviewer: form.reviewer.trim(),
+	documentHash: form.documentHash.trim() ? (form.documentHash.trim() as Hex) : null,
+	reviewedAt: fromDateInput(form.reviewedOn),
+	reviewDueAt: fromDateInput(form.reviewDueOn),
+});
+
+export const AdminCompliancePage: React.FC = () => {
+	const { isConnected, address } = useWallet();
+	const {
+		coins,
+		coinsLoading,
+		refetchCoins,
+		screenings,
+		refetchScreenings,
+		owner,
+		isOwner,
+		ownerLoading,
+		validateToken,
+		registerCoin,
+		updateComplianceStatus,
+		removeCoin,
+		setScreening,
+		proposeStatusChange,
+		approveProposal,
+		executeProposal,
+		cancelProposal,
+		setRole,
+		setApprovalThreshold,
+		setTimelockDuration,
+		approveGovernanceChange,
+		executeGovernanceChange,
+		cancelGovernanceChange,
+		proposals,
+		proposalsLoading,
+		governanceProposals,
+		governanceProposalsLoading,
+		approvalThreshold,
+		reviewerCount,
+		timelockDuration,
+		approvalRequired,
+		isReviewer,
+		isComplianceOfficer,
+		refetchProposals,
+		dismissReviewRequest,
+		reviewRequests,
+		reviewRequestsLoading,
+		refetchReviewRequests,
+		previewAction,
+		isWriting,
+		isConfirming,
+		isConfirmed,
+		txHash,
+		writeError,
+		confirmError,
+		resetWrite,
+		SHARIA_COMPLIANCE_ADDRESS,
+	} = useShariaComplianceAdmin();
+
+	// Registration form
+	const [tokenAddress, setTokenAddress] = useState("");
+	const [metadata, setMetadata] = useState<TokenMetadata | null>(null);
+	const [validationError, setValidationError] = useState<string | null>(null);
+	const [isValidating, setIsValidating] = useState(false);
+	const [registerReason, setRegisterReason] = useState("");
+
+	// Status change / removal
+	const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+	const [actionReason, setActionReason] = useState("");
+	const [actionEvidence, setActionEvidence] = useState("");
+	const [screeningForm, setScreeningForm] = useState<ScreeningForm>(toScreeningForm(undefined));
+
+	const [notifications, setNotifications] = useState<TransactionNotification[]>([]);
+	const [currentTxId, setCurrentTxId] = useState<string | null>(null);
+	const isBusy = isWriting || isConfirming;
+
+	// Validated metadata belongs to the address it was read for
+	useEffect(() => {
+		setMetadata(null);
+		setValidationError(null);
+	}, [tokenAddress]);
+
+	// Start a status change with the current reason prefilled for editing
+	useEffect(() => {
+		if (pendingAction?.type === "update") {
+			const coin = coins.find((c) => c.id === pendingAction.coinId);
+			setActionReason(coin?.complianceReason ?? "");
+		} else {
+			setActionReason("");
+		}
+		setActionEvidence("");
+	}, [pendingAction, coins]);
+
+	// Start a screening edit from what is on record
+	useEffect(() => {
+		if (pendingAction?.type === "screening") {
+			setScreeningForm(toScreeningForm(screenings[pendingAction.coinId]));
+		}
+		// Only on opening the form, not on every screening refetch
+		// eslint-disable-next-line react-hooks/exhaustive-deps
+	}, [pendingAction]);
+
+	// The sync scripts' view of each action (actions on coins missing from the bundled config can't be previewed)
+	const preview = (action: ComplianceAction): { lines: ConfigDiffLine[] | null; error: string | null } => {
+		try {
+			return { lines: previewAction(action), error: null };
+		} catch (error) {
+			return { lines: null, error: error instanceof Error ? error.message : "Preview unavailable" };
+		}
+	};
+
+	const registerPreview = metadata
+		? preview({
+				type: "register",
+				coinId: metadata.symbol,
+				name: metadata.name,
+				complianceReason: registerReason.trim(),
+				// With the approval workflow on, new coins start unverified until a proposal passes
+				verified: !approvalRequired,
+			})
+		: null;
+
+	const actionPreview = pendingAction
+		? preview(
+				pendingAction.type === "update"
+					? { ...pendingAction, complianceReason: actionReason.trim() }
+					: pendingAction.type === "screening"
+						? { ...pendingAction, screening: fromScreeningForm(screeningForm) }
+						: pendingAction
+			)
+		: null;
+
+	const updateScreeningForm = (changes: Partial<ScreeningForm>) =>
+		setScreeningForm((prev) => ({ ...prev, ...changes }));
+
+	// Fill the document hash from the fatwa / screening report itself
+	const handleDocumentFile = async (file: File | undefined) => {
+		if (!file) return;
+		updateScreeningForm({ documentHash: keccak256(new Uint8Array(await file.arrayBuffer())) });
+	};
+
+	const handleValidate = async () => {
+		setIsValidating(true);
+		setValidationError(null);
+		try {
+			setMetadata(await validateToken(tokenAddress.trim()));
+		} catch (error) {
+			setMetadata(null);
+			setValidationError(error instanceof Error ? error.message : "Token validation failed");
+		} finally {
+			setIsValidating(false);
+		}
+	};
+
+	// Send an admin transaction with its own notification
+	const sendAdminTransaction = async (message: string, send: () => Promise<void>) => {
+		const txId = `compliance-${Date.now()}`;
+		setCurrentTxId(txId);
+		setNotifications((prev) => [...prev, { id: txId, status: "pending", type: "approve", message }]);
+
+		try {
+			await send();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Compliance transaction failed";
+			setNotifications((prev) =>
+				prev.map((n) => (n.id === txId ? { ...n, status: "error", message: errorMessage } : n))
+			);
+			setCurrentTxId(null);
+		}
+	};
+
+	const handleRegister = () => {
+		if (!metadata) return;
+		sendAdminTransaction(`Registering ${metadata.symbol}...`, () =>
+			registerCoin(metadata.address, registerReason)
+		);
+	};
+
+	const handleConfirmAction = () => {
+		if (!pendingAction) return;
+		if (pendingAction.type === "update" && approvalRequired) {
+			const label = pendingAction.verified ? "compliant" : "non-compliant";
+			sendAdminTransaction(`Proposing ${pendingAction.coinId} ${label}...`, () =>
+				proposeStatusChange(pendingAction.coinId, pendingAction.verified, actionReason, actionEvidence)
+			);
+		} else if (pendingAction.type === "update") {
+			const label = pendingAction.verified ? "compliant" : "non-compliant";
+			sendAdminTransaction(`Marking ${pendingAction.coinId} ${label}...`, () =>
+				updateComplianceStatus(pendingAction.coinId, pendingAction.verified, actionReason)
+			);
+		} else if (pendingAction.type === "screening") {
+			sendAdminTransaction(`Recording ${pendingAction.coinId} screening...`, () =>
+				setScreening(pendingAction.coinId, fromScreeningForm(screeningForm))
+			);
+		} else {
+			sendAdminTransaction(`Removing ${pendingAction.coinId}...`, () => removeCoin(pendingAction.coinId));
+		}
+	};
+
+	// Track transaction confirmation
+	useEffect(() => {
+		if (isConfirmed && currentTxId) {
+			setNotifications((prev) =>
+				prev.map((n) => (n.id === currentTxId ? { ...n, status: "success" as const } : n))
+			);
+
+			// Registry changed - clear the forms and re-read the coins
+			setTokenAddress("");
+			setRegisterReason("");
+			setPendingAction(null);
+			refetchCoins();
+			refetchScreenings();
+			refetchProposals();
+			refetchReviewRequests();
+
+			setTimeout(() => {
+				setCurrentTxId(null);
+				resetWrite();
+			}, 2000);
+		}
+	}, [isConfirmed, currentTxId, resetWrite, refetchCoins, refetchScreenings, refetchProposals, refetchReviewRequests]);
+
+	// Track transaction hash
+	useEffect(() => {
+		if (txHash && currentTxId) {
+			setNotifications((prev) => prev.map((n) => (n.id === currentTxId ? { ...n, txHash } : n)));
+		}
+	}, [txHash, currentTxId]);
+
+	// Track errors
+	useEffect(() => {
+		const error = writeError || confirmError;
+		if (error && currentTxId) {
+			if (isUserRejection(error)) {
+				setNotifications((prev) => prev.filter((n) => n.id !== currentTxId));
+			} else {
+				const friendlyMessage = getFriendlyErrorMessage(error);
+				setNotifications((prev) =>
+					prev.map((n) =>
+						n.id === currentTxId && n.status !== "error" ? { ...n, status: "error", message: friendlyMessage } : n
+					)
+				);
+			}
+			setCurrentTxId(null);
+			resetWrite();
+		}
+	}, [writeError, confirmError, currentTxId, resetWrite]);
+
+	const handleDismissNotification = (id: string) => {
+		setNotifications((prev) => prev.filter((n) => n.id !== id));
+	};
+
+	const getGateMessage = () => {
+		if (!isConnected) {
+			return "Connect the ShariaCompliance owner, compliance officer or reviewer wallet to manage the registry.";
+		}
+		if (ownerLoading) return "Checking contract owner...";
+		if (!isOwner && !isComplianceOfficer && !isReviewer) {
+			return `Only the ShariaCompliance owner${owner ? ` (${shortAddress(owner)})` : ""}, compliance officers and reviewers can manage the registry.`;
+		}
+		return null;
+	};
+
+	// Who may start a verdict change from the registry table
+	const canChangeStatus = approvalRequired ? isComplianceOfficer : isOwner;
+	const gateMessage = getGateMessage();
+
+	return (
+		<main className='flex flex-1 justify-center py-10 sm:py-16 px-4'>
+			<div className='w-full max-w-5xl'>
+				<div className='flex flex-col gap-2 pb-6'>
+					<h1 className='text-white text-3xl font-bold'>Compliance Administration</h1>
+					<p className='text-white/60 text-sm'>
+						Register, re-classify, screen and remove coins on ShariaCompliance ({shortAddress(SHARIA_COMPLIANCE_ADDRESS)}).
+						Run listen-coin-events.ts to sync config/tayebCoins.json afterwards.
+					</p>
+				</div>
+
+				{gateMessage ? (
+					<div className='mb-4 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-yellow-500 text-sm text-center'>
+						{gateMessage}
+					</div>
+				) : (
+					<div className='space-y-6'>
+						{/* Register */}
+						{isOwner && (
+							<section className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg p-4 space-y-4'>
+								<h2 className='text-white font-semibold'>Register a coin</h2>
+								<div className='flex flex-col sm:flex-row gap-2'>
+									<input
+										type='text'
+										placeholder='Token address (0x...)'
+										value={tokenAddress}
+										onChange={(e) => setTokenAddress(e.target.value)}
+										className='flex-1 bg-[#23483c] text-white rounded-lg px-4 py-2.5 font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary/50'
+									/>
+									<button
+										onClick={handleValidate}
+										disabled={!tokenAddress.trim() || isValidating}
+										className='px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium disabled:opacity-50'
+									>
+										{isValidating ? "Validating..." : "Validate"}
+									</button>
+								</div>
+								{validationError && <p className='text-red-400 text-sm'>{validationError}</p>}
+
+								{metadata && (
+									<>
+										<div className='grid grid-cols-3 gap-3 text-sm'>
+											<div>
+												<p className='text-white/60 text-xs'>Name</p>
+												<p className='text-white'>{metadata.name}</p>
+											</div>
+											<div>
+												<p className='text-white/60 text-xs'>Symbol (coin ID)</p>
+												<p className='text-white'>{metadata.symbol}</p>
+											</div>
+											<div>
+												<p className='text-white/60 text-xs'>Decimals</p>
+												<p className='text-white'>{metadata.decimals}</p>
+											</div>
+										</div>
+										<textarea
+											placeholder='Compliance reason (required)'
+											value={registerReason}
+											onChange={(e) => setRegisterReason(e.target.value)}
+											rows={2}
+											className='w-full bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50'
+										/>
+										{registerPreview && (
+											<ConfigDiffPreview lines={registerPreview.lines} error={registerPreview.error} />
+										)}
+										{approvalRequired && (
+											<p className='text-yellow-400 text-xs'>
+												The coin is registered as non-compliant; a compliance officer then proposes marking it
+												compliant for reviewer approval.
+											</p>
+										)}
+										{metadata.decimals !== 18 && (
+											<p className='text-yellow-400 text-xs'>
+												The sync scripts record new coins with 18 decimals and no address; set decimals to{" "}
+												{metadata.decimals} and the address in tayebCoins.json after syncing.
+											</p>
+										)}
+										<div className='flex justify-end'>
+											<button
+												onClick={handleRegister}
+												disabled={!registerReason.trim() || isBusy}
+												className='px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed'
+											>
+												Register {metadata.symbol}
+											</button>
+										</div>
+									</>
+								)}
+							</section>
+						)}
+
+						{isOwner && (
+							<ApprovalSettingsPanel
+								approvalThreshold={approvalThreshold}
+								reviewerCount={reviewerCount}
+								timelockDuration={timelockDuration}
+								isBusy={isBusy}
+								onSetThreshold={(threshold) =>
+									sendAdminTransaction(
+										`${approvalRequired ? "Proposing" : "Setting"} approval threshold of ${threshold}...`,
+										() => setApprovalThreshold(threshold)
+									)
+								}
+								onSetTimelock={(seconds) =>
+									sendAdminTransaction(`${approvalRequired ? "Proposing" : "Setting"} timelock...`, () =>
+										setTimelockDuration(seconds)
+									)
+								}
+								onSetRole={(role, account, enabled) =>
+									sendAdminTransaction(
+										approvalRequired && role === "reviewer"
+											? `Proposing to ${enabled ? "add" : "remove"} reviewer...`
+											: `${enabled ? "Adding" : "Removing"} ${role === "reviewer" ? "reviewer" : "compliance officer"}...`,
+										() => setRole(role, account, enabled)
+									)
+								}
+							/>
+						)}
+
+						{governanceProposals.length > 0 && (
+							<GovernanceProposalsPanel
+								proposals={governanceProposals}
+								isLoading={governanceProposalsLoading}
+								approvalThreshold={approvalThreshold}
+								userAddress={address}
+								isOwner={isOwner}
+								isReviewer={isReviewer}
+								isBusy={isBusy}
+								onApprove={(id) =>
+									sendAdminTransaction(`Approving governance proposal #${id}...`, () => approveGovernanceChange(id))
+								}
+								onExecute={(id) =>
+									sendAdminTransaction(`Executing governance proposal #${id}...`, () => executeGovernanceChange(id))
+								}
+								onCancel={(id) =>
+									sendAdminTransaction(`Cancelling governance proposal #${id}...`, () => cancelGovernanceChange(id))
+								}
+							/>
+						)}
+
+						{reviewRequests.length > 0 && (
+							<ReviewRequestsPanel
+								requests={reviewRequests}
+								isLoading={reviewRequestsLoading}
+								canRegister={isOwner}
+								canDismiss={isOwner || isComplianceOfficer}
+								isBusy={isBusy}
+								onReview={(token) => {
+									// Load the token into the registration form above
+									setTokenAddress(token);
+									window.scrollTo({ top: 0, behavior: "smooth" });
+								}}
+								onDismiss={(request) =>
+									sendAdminTransaction(`Dismissing review of ${request.symbol || shortAddress(request.token)}...`, () =>
+										dismissReviewRequest(request.token)
+									)
+								}
+							/>
+						)}
+
+						{(approvalRequired || proposals.length > 0) && (
+							<ComplianceProposalsPanel
+								proposals={proposals}
+								isLoading={proposalsLoading}
+								approvalThreshold={approvalThreshold}
+								userAddress={address}
+								isOwner={isOwner}
+								isReviewer={isReviewer}
+								isBusy={isBusy}
+								onApprove={(id) => sendAdminTransaction(`Approving proposal #${id}...`, () => approveProposal(id))}
+								onExecute={(id) => sendAdminTransaction(`Executing proposal #${id}...`, () => executeProposal(id))}
+								onCancel={(id) => sendAdminTransaction(`Cancelling proposal #${id}...`, () => cancelProposal(id))}
+							/>
+						)}
+
+						{/* Pending status change or removal */}
+						{pendingAction && (
+							<section className='bg-[#1a3a2f] rounded-xl border border-solid border-primary/50 shadow-lg p-4 space-y-4'>
+								<h2 className='text-white font-semibold'>
+									{pendingAction.type === "remove"
+										? `Remove ${pendingAction.coinId}`
+										: pendingAction.type === "screening"
+											? `Screening of ${pendingAction.coinId}`
+											: `${approvalRequired ? "Propose marking" : "Mark"} ${pendingAction.coinId} ${pendingAction.verified ? "compliant" : "non-compliant"}`}
+								</h2>
+								{pendingAction.type === "update" ? (
+									<>
+										<textarea
+											placeholder='Reason for the change (required)'
+											value={actionReason}
+											onChange={(e) => setActionReason(e.target.value)}
+											rows={2}
+											className='w-full bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50'
+										/>
+										{approvalRequired && (
+											<>
+												<input
+													type='text'
+													placeholder='Evidence: link or hash of the supporting document (required)'
+													value={actionEvidence}
+													onChange={(e) => setActionEvidence(e.target.value)}
+													className='w-full bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50'
+												/>
+												<p className='text-white/50 text-xs'>
+													Needs {approvalThreshold} reviewer approvals, then executes{" "}
+													{formatDuration(timelockDuration)} after the last one.
+												</p>
+											</>
+										)}
+									</>
+								) : pendingAction.type === "screening" ? (
+									<div className='grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm'>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Category</span>
+											<select
+												value={screeningForm.category}
+												onChange={(e) => updateScreeningForm({ category: e.target.value as CoinCategory })}
+												className='bg-[#23483c] text-white rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-primary/50'
+											>
+												{COIN_CATEGORIES.map((category) => (
+													<option key={category} value={category}>
+														{CATEGORY_LABELS[category]}
+													</option>
+												))}
+											</select>
+										</label>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Screening methodology (required)</span>
+											<input
+												type='text'
+												placeholder='e.g. AAOIFI Shariah Standard 62'
+												value={screeningForm.methodology}
+												onChange={(e) => updateScreeningForm({ methodology: e.target.value })}
+												className='bg-[#23483c] text-white rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-primary/50'
+											/>
+										</label>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Reviewing scholar or board (required)</span>
+											<input
+												type='text'
+												value={screeningForm.reviewer}
+												onChange={(e) => updateScreeningForm({ reviewer: e.target.value })}
+												className='bg-[#23483c] text-white rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-primary/50'
+											/>
+										</label>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Fatwa / report hash (or pick the file)</span>
+											<div className='flex gap-2'>
+												<input
+													type='text'
+													placeholder='0x...'
+													value={screeningForm.documentHash}
+													onChange={(e) => updateScreeningForm({ documentHash: e.target.value })}
+													className='flex-1 min-w-0 bg-[#23483c] text-white rounded-lg px-4 py-2.5 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-primary/50'
+												/>
+												<input
+													type='file'
+													onChange={(e) => handleDocumentFile(e.target.files?.[0])}
+													className='w-28 text-white/60 text-xs file:mr-2 file:px-2 file:py-2 file:rounded-lg file:border-0 file:bg-[#23483c] file:text-white/80'
+												/>
+											</div>
+										</label>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Review date (required)</span>
+											<input
+												type='date'
+												value={screeningForm.reviewedOn}
+												onChange={(e) => updateScreeningForm({ reviewedOn: e.target.value })}
+												className='bg-[#23483c] text-white rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-primary/50'
+											/>
+										</label>
+										<label className='flex flex-col gap-1'>
+											<span className='text-white/60 text-xs'>Re-review due</span>
+											<input
+												type='date'
+												value={screeningForm.reviewDueOn}
+												onChange={(e) => updateScreeningForm({ reviewDueOn: e.target.value })}
+												className='bg-[#23483c] text-white rounded-lg px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-primary/50'
+											/>
+										</label>
+									</div>
+								) : (
+									<p className='text-white/60 text-sm'>
+										Swaps and new DCA orders into {pendingAction.coinId} are rejected once it is removed.
+									</p>
+								)}
+								{actionPreview && <ConfigDiffPreview lines={actionPreview.lines} error={actionPreview.error} />}
+								<div className='flex gap-3 justify-end'>
+									<button
+										onClick={() => setPendingAction(null)}
+										className='px-6 py-2.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2c5a4b] transition-colors font-medium'
+									>
+										Cancel
+									</button>
+									<button
+										onClick={handleConfirmAction}
+										disabled={
+											isBusy ||
+											(pendingAction.type === "update" && !actionReason.trim()) ||
+											(pendingAction.type === "update" && approvalRequired && !actionEvidence.trim()) ||
+											(pendingAction.type === "screening" &&
+												(!screeningForm.methodology.trim() ||
+													!screeningForm.reviewer.trim() ||
+													!screeningForm.reviewedOn))
+										}
+										className='px-6 py-2.5 rounded-lg bg-primary hover:opacity-90 text-background-dark font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed'
+									>
+										{pendingAction.type === "update" && approvalRequired ? "Propose" : "Confirm"}
+									</button>
+								</div>
+							</section>
+						)}
+
+						{/* Registry */}
+						<section className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg overflow-x-auto'>
+							{coinsLoading ? (
+								<p className='text-primary text-center py-8'>Loading registry...</p>
+							) : coins.length === 0 ? (
+								<p className='text-white/40 text-center py-8'>No coins registered</p>
+							) : (
+								<table className='w-full text-sm'>
+									<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+										<tr>
+											<th className='text-left py-3 px-4 font-medium'>Coin</th>
+											<th className='text-left py-3 px-4 font-medium'>Address</th>
+											<th className='text-left py-3 px-4 font-medium'>Status</th>
+											<th className='text-left py-3 px-4 font-medium'>Reason</th>
+											<th className='text-right py-3 px-4 font-medium'>Actions</th>
+										</tr>
+									</thead>
+									<tbody>
+										{coins.map((coin) => (
+											<tr key={coin.id} className='border-t border-[#23483c]/50 align-top'>
+												<td className='py-3 px-4'>
+													<p className='text-white font-medium'>{coin.id}</p>
+													<p className='text-white/50 text-xs'>{coin.name}</p>
+												</td>
+												<td className='py-3 px-4 text-white/70 font-mono text-xs'>{shortAddress(coin.tokenAddress)}</td>
+												<td className='py-3 px-4'>
+													<span
+														className={`px-2 py-0.5 rounded text-xs font-semibold ${
+															coin.verified ? "bg-green-500/20 text-green-400" : "bg-red-500/20 text-red-400"
+														}`}
+													>
+														{coin.verified ? "Compliant" : "Non-compliant"}
+													</span>
+													<ReviewStatusBadge screening={screenings[coin.id]} className='mt-1.5' />
+												</td>
+												<td className='py-3 px-4 text-white/70 max-w-xs'>{coin.complianceReason}</td>
+												<td className='py-3 px-4'>
+													<div className='flex gap-2 justify-end whitespace-nowrap'>
+														{canChangeStatus && (
+															<button
+																onClick={() =>
+																	setPendingAction({ type: "update", coinId: coin.id, verified: !coin.verified })
+																}
+																disabled={isBusy}
+																className='px-3 py-1.5 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-xs font-semibold transition-colors disabled:opacity-50'
+															>
+																{approvalRequired ? "Propose " : "Mark "}
+																{coin.verified ? "non-compliant" : "compliant"}
+															</button>
+														)}
+														{isOwner && (
+															<>
+																<button
+																	onClick={() => setPendingAction({ type: "screening", coinId: coin.id })}
+																	disabled={isBusy}
+																	className='px-3 py-1.5 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-xs font-semibold transition-colors disabled:opacity-50'
+																>
+																	Screening
+																</button>
+																<button
+																	onClick={() => setPendingAction({ type: "remove", coinId: coin.id })}
+																	disabled={isBusy || (approvalRequired && coin.verified)}
+																	title={
+																		approvalRequired && coin.verified
+																			? "Compliant coins are delisted through a proposal before they can be removed"
+																			: undefined
+																	}
+																	className='px-3 py-1.5 rounded-lg bg-red-500/20 text-red-400 hover:bg-red-500/30 text-xs font-semibold transition-colors disabled:opacity-50'
+																>
+																	Remove
+																</button>
+															</>
+														)}
+													</div>
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							)}
+						</section>
+					</div>
+				)}
+			</div>
+
+			<TransactionNotificationList notifications={notifications} onDismiss={handleDismissNotification} />
+		</main>
+	);
+};
@@ -3,17 +3,22 @@ import { parseUnits, formatUnits } from "viem";
 import type { Address } from "viem";
 import { DCAOrdersList } from "../components/DCAOrdersList";
 import { DCATradeForm } from "../components/DCATradeForm";
+import { LimitOrdersList } from "../components/LimitOrdersList";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
-import { useShariaDCA, useDCAOrders } from "../hooks/useShariaDCA";
+import { useShariaDCA, useDCAOrders, useLimitOrders } from "../hooks/useShariaDCA";
+import type { DCAOrder } from "../hooks/useShariaDCA";
 import { useWallet } from "../hooks/useWallet";
 import { TransactionNotificationList } from "../components/TransactionNotification";
 import { ConfirmModal } from "../components/ConfirmModal";
+import { DCATopUpModal } from "../components/DCATopUpModal";
+import { DCAOrderDetailModal } from "../components/DCAOrderDetailModal";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
-import { CONTRACTS } from "../config/contracts";
+import { useContracts } from "../hooks/useContracts";
 import tayebCoinsData from "../../../config/tayebCoins.json";
 import type { Token, TransactionNotification } from "../types";
 
 export const DCAOrdersPage: React.FC = () => {
+	const { WETH: WETH_ADDRESS } = useContracts();
 	const { coins, coinsLoading, coinsError } = useShariaCompliance();
 	const { address, isConnected } = useWallet();
 	
@@ -23,9 +28,16 @@ export const DCAOrdersPage: React.FC = () => {
 		createDCAOrderWithToken,
 		approveToken,
 		cancelDCAOrder,
+		pauseDCAOrder,
+		resumeDCAOrder,
+		topUpDCAOrder,
+		cancelLimitOrder,
 		userOrderIds,
 		loadingOrderIds,
 		refetchUserOrders,
+		userLimitOrderIds,
+		loadingLimitOrderIds,
+		refetchUserLimitOrders,
 		isCreating,
 		isApproving,
 		isConfirming,
@@ -37,6 +49,11 @@ export const DCAOrdersPage: React.FC = () => {
 	} = useShariaDCA();
 	
 	const { orders, isLoading: loadingOrders, refetchOrders } = useDCAOrders(userOrderIds);
+	const {
+		orders: limitOrders,
+		isLoading: loadingLimitOrders,
+		refetchLimitOrders,
+	} = useLimitOrders(userLimitOrderIds);
 
 	// State management
 	const [notifications, setNotifications] = useState<TransactionNotification[]>([]);
@@ -46,6 +63,9 @@ export const DCAOrdersPage: React.FC = () => {
 		isOpen: boolean;
 		orderId: bigint | null;
 	}>({ isOpen: false, orderId: null });
+	const [topUpOrder, setTopUpOrder] = useState<DCAOrder | null>(null);
+	const [detailOrder, setDetailOrder] = useState<DCAOrder | null>(null);
+	const [cancelLimitOrderId, setCancelLimitOrderId] = useState<bigint | null>(null);
 	
 	// Track if we're currently in an approval transaction
 	const isApprovalInProgress = useMemo(() => {
@@ -92,6 +112,8 @@ export const DCAOrdersPage: React.FC = () => {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		minAmountOut: bigint;
 	}) => {
 		if (!isConnected || !address) {
 			alert("Please connect your wallet first");
@@ -162,6 +184,8 @@ export const DCAOrdersPage: React.FC = () => {
 		amount: string;
 		interval: "hour" | "day" | "week";
 		duration: string;
+		maxSlippageBps: number;
+		minAmountOut: bigint;
 	}) => {
 		const txId = `dca-create-${Date.now()}`;
 		setCurrentTxId(txId);
@@ -203,7 +227,7 @@ export const DCAOrdersPage: React.FC = () => {
 
 		// Check if source token is native DEV
 		const isNativeDEV = data.sourceToken.symbol === "DEV" && 
-			data.sourceToken.addresses.moonbase?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+			data.sourceToken.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
 
 		try {
 			// Create order (will prompt to switch network if needed)
@@ -215,6 +239,8 @@ export const DCAOrdersPage: React.FC = () => {
 					amountPerInterval,
 					intervalSeconds,
 					totalIntervals,
+					BigInt(data.maxSlippageBps),
+					data.minAmountOut,
 					totalBudget // Contract refunds remainder automatically
 				);
 			} else {
@@ -226,7 +252,9 @@ export const DCAOrdersPage: React.FC = () => {
 					data.targetToken.addresses.moonbase as Address,
 					amountPerInterval,
 					intervalSeconds,
-					totalIntervals
+					totalIntervals,
+					BigInt(data.maxSlippageBps),
+					data.minAmountOut
 				);
 			}
 		} catch (error: any) {
@@ -291,6 +319,83 @@ export const DCAOrdersPage: React.FC = () => {
 		setCancelConfirmModal({ isOpen: false, orderId: null });
 	};
 
+	// Send an order update (pause/resume/top-up) with its own notification
+	const sendOrderUpdate = async (
+		txPrefix: "dca-pause-" | "dca-resume-" | "dca-topup-" | "limit-cancel-",
+		message: string,
+		send: () => Promise<void>
+	) => {
+		const txId = `${txPrefix}${Date.now()}`;
+		setCurrentTxId(txId);
+
+		setNotifications((prev) => [
+			...prev,
+			{
+				id: txId,
+				status: "pending",
+				type: "approve",
+				message,
+			},
+		]);
+
+		try {
+			// Will prompt to switch network if needed
+			await send();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Failed to update DCA order";
+			setNotifications((prev) =>
+				prev.map((n) =>
+					n.id === txId
+						? { ...n, status: "error", message: errorMessage }
+						: n
+				)
+			);
+			setCurrentTxId(null);
+		}
+	};
+
+	// Handle order pause
+	const handlePauseOrder = (orderId: bigint) =>
+		sendOrderUpdate("dca-pause-", "Pausing DCA order...", () => pauseDCAOrder(orderId));
+
+	// Handle order resume
+	const handleResumeOrder = (orderId: bigint) =>
+		sendOrderUpdate("dca-resume-", "Resuming DCA order...", () => resumeDCAOrder(orderId));
+
+	// Confirm top-up from the modal
+	const confirmTopUp = (orderId: bigint, additionalIntervals: bigint, deposit: bigint) => {
+		setTopUpOrder(null);
+		return sendOrderUpdate(
+			"dca-topup-",
+			`Adding ${additionalIntervals.toString()} interval(s) to DCA order...`,
+			() => topUpDCAOrder(orderId, additionalIntervals, deposit)
+		);
+	};
+
+	// Confirm limit order cancellation (deposit is refunded)
+	const confirmCancelLimitOrder = () => {
+		if (cancelLimitOrderId === null) return;
+		const orderId = cancelLimitOrderId;
+		setCancelLimitOrderId(null);
+		return sendOrderUpdate("limit-cancel-", "Cancelling limit order...", () => cancelLimitOrder(orderId));
+	};
+
+	// Source token of the order being topped up (undefined for native DEV)
+	const topUpSourceToken = useMemo(
+		() =>
+			topUpOrder
+				? tokens.find((t) => t.addresses.moonbase.toLowerCase() === topUpOrder.sourceToken.toLowerCase())
+				: undefined,
+		[topUpOrder, tokens]
+	);
+
+	// Tokens of the order whose details are open (source is undefined for native DEV)
+	const detailTokens = useMemo(() => {
+		const find = (address: string | undefined) =>
+			address ? tokens.find((t) => t.addresses.moonbase.toLowerCase() === address.toLowerCase()) : undefined;
+		return { source: find(detailOrder?.sourceToken), target: find(detailOrder?.targetToken) };
+	}, [detailOrder, tokens]);
+
 	// Track transaction confirmation
 	useEffect(() => {
 		if (isConfirmed && currentTxId) {
@@ -299,6 +404,8 @@ export const DCAOrdersPage: React.FC = () => {
 			const isApprovalTx = currentTxId.startsWith("dca-approve-");
 			const isCreateTx = currentTxId.startsWith("dca-create-");
 			const isCancelTx = currentTxId.startsWith("dca-cancel-");
+			const isUpdateTx = /^dca-(pause|resume|topup)-/.test(currentTxId);
+			const isLimitTx = currentTxId.startsWith("limit-cancel-");
 			
 			setNotifications((prev) =>
 				prev.map((n) =>
@@ -314,8 +421,8 @@ export const DCAOrdersPage: React.FC = () => {
 				setApprovalConfirmed((prev) => prev + 1);
 			}
 
-			// If order is created or cancelled, refetch user orders and order details
-			if (isCreateTx || isCancelTx) {
+			// If order is created, cancelled or updated, refetch user orders and order details
+			if (isCreateTx || isCancelTx || isUpdateTx) {
 				console.log("✅ Order transaction confirmed - refetching user orders");
 				// Wait a bit for blockchain state to update, then refetch
 				setTimeout(async () => {
@@ -326,6 +433,13 @@ export const DCAOrdersPage: React.FC = () => {
 				}, 1000);
 			}
 
+			if (isLimitTx) {
+				setTimeout(async () => {
+					await refetchUserLimitOrders();
+					refetchLimitOrders();
+				}, 1000);
+			}
+
 			// Reset transaction ID after a delay
 			setTimeout(() => {
 				console.log("🔄 Resetting transaction state");
@@ -333,7 +447,15 @@ export const DCAOrdersPage: React.FC = () => {
 				resetWrite();
 			}, 2000);
 		}
-	}, [isConfirmed, currentTxId, resetWrite, refetchUserOrders, refetchOrders]);
+	}, [
+		isConfirmed,
+		currentTxId,
+		resetWrite,
+		refetchUserOrders,
+		refetchOrders,
+		refetchUserLimitOrders,
+		refetchLimitOrders,
+	]);
 
 	// Track transaction hash
 	useEffect(() => {
@@ -434,6 +556,16 @@ export const DCAOrdersPage: React.FC = () => {
 								tokens={tokens}
 								isLoading={loadingOrders || loadingOrderIds}
 								onCancelOrder={handleCancelOrder}
+								onPauseOrder={handlePauseOrder}
+								onResumeOrder={handleResumeOrder}
+								onTopUpOrder={setTopUpOrder}
+								onViewOrder={setDetailOrder}
+							/>
+							<LimitOrdersList
+								orders={limitOrders}
+								tokens={tokens}
+								isLoading={loadingLimitOrders || loadingLimitOrderIds}
+								onCancelOrder={setCancelLimitOrderId}
 							/>
 						</div>
 
@@ -476,6 +608,37 @@ export const DCAOrdersPage: React.FC = () => {
 				onConfirm={confirmCancelOrder}
 				onCancel={cancelConfirmModalClose}
 			/>
+
+			{/* Limit Order Cancel Confirmation Modal */}
+			<ConfirmModal
+				isOpen={cancelLimitOrderId !== null}
+				title="Cancel Limit Order"
+				message="Are you sure you want to cancel this limit order? Your deposit will be refunded."
+				confirmText="Yes, Cancel Order"
+				cancelText="Keep Order"
+				onConfirm={confirmCancelLimitOrder}
+				onCancel={() => setCancelLimitOrderId(null)}
+			/>
+
+			{/* Top-Up Modal */}
+			<DCATopUpModal
+				isOpen={topUpOrder !== null}
+				order={topUpOrder}
+				sourceToken={topUpSourceToken}
+				isApproving={isApprovalInProgress}
+				approvalConfirmed={approvalConfirmed}
+				onApprove={handleApproveToken}
+				onConfirm={confirmTopUp}
+				onCancel={() => setTopUpOrder(null)}
+			/>
+
+			<DCAOrderDetailModal
+				isOpen={detailOrder !== null}
+				order={detailOrder}
+				sourceToken={detailTokens.source}
+				targetToken={detailTokens.target}
+				onClose={() => setDetailOrder(null)}
+			/>
 		</main>
 	);
 };
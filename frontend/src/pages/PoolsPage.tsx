@@ -0,0 +1,358 @@
+import { useEffect, useMemo, useState } from "react";
+import { formatUnits } from "viem";
+import type { Address } from "viem";
+import { LiquidityModal } from "../components/LiquidityModal";
+import type { LiquidityMode } from "../components/LiquidityModal";
+import { TransactionNotificationList } from "../components/TransactionNotification";
+import { useLiquidity, usePools } from "../hooks/useLiquidity";
+import type { PoolInfo, PoolToken } from "../hooks/useLiquidity";
+import { useWallet } from "../hooks/useWallet";
+import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
+import { poolSharePercent, underlyingAmounts } from "../utils/liquidity";
+import type { TransactionNotification } from "../types";
+
+// Displayed symbol for a pool side (WETH is deposited and withdrawn as native DEV)
+const displaySymbol = (token: PoolToken) => (token.isNative ? "DEV" : token.symbol);
+
+const formatAmount = (amount: bigint, decimals: number, fractionDigits = 4) =>
+	parseFloat(formatUnits(amount, decimals)).toLocaleString(undefined, { maximumFractionDigits: fractionDigits });
+
+export const PoolsPage: React.FC = () => {
+	const { address, isConnected } = useWallet();
+	const { pools, isLoading, refetchPools } = usePools();
+	const {
+		approveToken,
+		addLiquidity,
+		addLiquidityETH,
+		removeLiquidity,
+		removeLiquidityETH,
+		isWriting,
+		isConfirming,
+		isConfirmed,
+		txHash,
+		writeError,
+		confirmError,
+		resetWrite,
+	} = useLiquidity();
+
+	// State management
+	const [notifications, setNotifications] = useState<TransactionNotification[]>([]);
+	const [currentTxId, setCurrentTxId] = useState<string | null>(null);
+	const [approvalConfirmed, setApprovalConfirmed] = useState<number>(0);
+	const [modal, setModal] = useState<{ mode: LiquidityMode; pair: Address } | null>(null);
+
+	// Keep the open modal in sync with refetched reserves
+	const modalPool = useMemo(
+		() => (modal ? pools.find((pool) => pool.pair === modal.pair) ?? null : null),
+		[modal, pools]
+	);
+
+	// Track if we're currently in an approval or liquidity transaction
+	const isApprovalInProgress = useMemo(() => {
+		return (isWriting || isConfirming) && currentTxId?.startsWith("pool-approve-") === true;
+	}, [isWriting, isConfirming, currentTxId]);
+	const isLiquidityInProgress = useMemo(() => {
+		return (isWriting || isConfirming) && /^pool-(add|remove)-/.test(currentTxId ?? "");
+	}, [isWriting, isConfirming, currentTxId]);
+
+	// Send a liquidity transaction with its own notification
+	const sendPoolTransaction = async (
+		txPrefix: "pool-approve-" | "pool-add-" | "pool-remove-",
+		message: string,
+		send: () => Promise<void>
+	) => {
+		if (!isConnected || !address) {
+			alert("Please connect your wallet first");
+			return;
+		}
+
+		const txId = `${txPrefix}${Date.now()}`;
+		setCurrentTxId(txId);
+
+		setNotifications((prev) => [
+			...prev,
+			{
+				id: txId,
+				status: "pending",
+				type: "approve",
+				message,
+			},
+		]);
+
+		try {
+			// Will prompt to switch network if needed
+			await send();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : "Liquidity transaction failed";
+			setNotifications((prev) =>
+				prev.map((n) =>
+					n.id === txId
+						? { ...n, status: "error", message: errorMessage }
+						: n
+				)
+			);
+			setCurrentTxId(null);
+		}
+	};
+
+	// Handle token or LP token approval (called from modal)
+	const handleApprove = (tokenAddress: Address, symbol: string, amount: bigint) =>
+		sendPoolTransaction("pool-approve-", `Approving ${symbol}...`, () => approveToken(tokenAddress, amount));
+
+	// Add liquidity: pairs with WETH go through addLiquidityETH so users pay native DEV
+	const handleAdd = (
+		pool: PoolInfo,
+		{ amount0, amount1, amount0Min, amount1Min }: { amount0: bigint; amount1: bigint; amount0Min: bigint; amount1Min: bigint }
+	) => {
+		const message = `Adding ${displaySymbol(pool.token0)}/${displaySymbol(pool.token1)} liquidity...`;
+		if (pool.token0.isNative) {
+			return sendPoolTransaction("pool-add-", message, () =>
+				addLiquidityETH(pool.token1.address, amount1, amount0, amount1Min, amount0Min)
+			);
+		}
+		if (pool.token1.isNative) {
+			return sendPoolTransaction("pool-add-", message, () =>
+				addLiquidityETH(pool.token0.address, amount0, amount1, amount0Min, amount1Min)
+			);
+		}
+		return sendPoolTransaction("pool-add-", message, () =>
+			addLiquidity(pool.token0.address, pool.token1.address, amount0, amount1, amount0Min, amount1Min)
+		);
+	};
+
+	// Remove liquidity: pairs with WETH pay out native DEV through removeLiquidityETH
+	const handleRemove = (
+		pool: PoolInfo,
+		{ liquidity, amount0Min, amount1Min }: { liquidity: bigint; amount0Min: bigint; amount1Min: bigint }
+	) => {
+		const message = `Removing ${displaySymbol(pool.token0)}/${displaySymbol(pool.token1)} liquidity...`;
+		if (pool.token0.isNative) {
+			return sendPoolTransaction("pool-remove-", message, () =>
+				removeLiquidityETH(pool.token1.address, liquidity, amount1Min, amount0Min)
+			);
+		}
+		if (pool.token1.isNative) {
+			return sendPoolTransaction("pool-remove-", message, () =>
+				removeLiquidityETH(pool.token0.address, liquidity, amount0Min, amount1Min)
+			);
+		}
+		return sendPoolTransaction("pool-remove-", message, () =>
+			removeLiquidity(pool.token0.address, pool.token1.address, liquidity, amount0Min, amount1Min)
+		);
+	};
+
+	// Track transaction confirmation
+	useEffect(() => {
+		if (isConfirmed && currentTxId) {
+			console.log("✅ Transaction CONFIRMED! Updating notification to SUCCESS", { currentTxId });
+
+			const isApprovalTx = currentTxId.startsWith("pool-approve-");
+
+			setNotifications((prev) =>
+				prev.map((n) =>
+					n.id === currentTxId
+						? { ...n, status: "success" as const }
+						: n
+				)
+			);
+
+			if (isApprovalTx) {
+				// Approval confirmed - trigger modal to re-check allowance
+				setApprovalConfirmed((prev) => prev + 1);
+			} else {
+				// Liquidity changed - close the modal and refetch reserves and LP balances
+				setModal(null);
+				setTimeout(() => {
+					refetchPools();
+				}, 1000);
+			}
+
+			// Reset transaction ID after a delay
+			setTimeout(() => {
+				console.log("🔄 Resetting transaction state");
+				setCurrentTxId(null);
+				resetWrite();
+			}, 2000);
+		}
+	}, [isConfirmed, currentTxId, resetWrite, refetchPools]);
+
+	// Track transaction hash
+	useEffect(() => {
+		if (txHash && currentTxId) {
+			console.log("📝 Transaction hash available:", txHash);
+			setNotifications((prev) =>
+				prev.map((n) =>
+					n.id === currentTxId
+						? { ...n, txHash }
+						: n
+				)
+			);
+		}
+	}, [txHash, currentTxId]);
+
+	// Track errors
+	useEffect(() => {
+		const error = writeError || confirmError;
+		if (error && currentTxId) {
+			const isRejection = isUserRejection(error);
+			const friendlyMessage = getFriendlyErrorMessage(error);
+
+			if (isRejection) {
+				if (currentTxId.startsWith("pool-approve-")) {
+					// For approval rejections, show error message briefly
+					console.log("❌ User rejected approval transaction");
+					const rejectionMessage = "Transaction was declined. The approval was cancelled.";
+					setNotifications((prev) =>
+						prev.map((n) =>
+							n.id === currentTxId
+								? { ...n, status: "error", message: rejectionMessage }
+								: n
+						)
+					);
+					// Remove notification after showing error briefly
+					setTimeout(() => {
+						setNotifications((prev) => prev.filter((n) => n.id !== currentTxId));
+						setCurrentTxId(null);
+						resetWrite();
+					}, 3000);
+				} else {
+					// For other rejections, just remove the notification without showing error
+					console.log("❌ User rejected transaction");
+					setNotifications((prev) =>
+						prev.filter((n) => n.id !== currentTxId)
+					);
+					setCurrentTxId(null);
+					resetWrite();
+				}
+			} else {
+				// Real error - update notification to error
+				console.log("❌ Transaction ERROR:", friendlyMessage);
+				setNotifications((prev) =>
+					prev.map((n) =>
+						n.id === currentTxId && n.status !== "error"
+							? { ...n, status: "error", message: friendlyMessage }
+							: n
+					)
+				);
+				setCurrentTxId(null);
+			}
+		}
+	}, [writeError, confirmError, currentTxId, resetWrite]);
+
+	// Handle notification dismissal
+	const handleDismissNotification = (id: string) => {
+		setNotifications((prev) => prev.filter((n) => n.id !== id));
+	};
+
+	return (
+		<main className='flex flex-1 justify-center py-10 sm:py-16 px-4'>
+			<div className='w-full max-w-5xl'>
+				<div className='flex flex-col gap-2 pb-6'>
+					<h1 className='text-white text-3xl font-bold'>Pools</h1>
+					<p className='text-white/60 text-sm'>
+						Provide liquidity to SimpleRouter pairs and earn the 0.3% swap fee. Pairs with DEV are funded and
+						withdrawn in native DEV.
+					</p>
+				</div>
+
+				{!isConnected && (
+					<div className='mb-4 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-yellow-500 text-sm text-center'>
+						Connect your wallet to add liquidity and see your positions.
+					</div>
+				)}
+
+				<div className='bg-[#1a3a2f] rounded-xl border border-solid border-[#23483c] shadow-lg p-4 space-y-3'>
+					{isLoading ? (
+						<p className='text-primary text-center py-8'>Loading pools...</p>
+					) : pools.length === 0 ? (
+						<p className='text-white/40 text-center py-8'>No pairs found in deployedContracts.json</p>
+					) : (
+						pools.map((pool) => {
+							const { token0, token1 } = pool;
+							const [position0, position1] = underlyingAmounts(
+								pool.lpBalance,
+								pool.totalSupply,
+								pool.reserve0,
+								pool.reserve1
+							);
+							const hasPosition = pool.lpBalance > 0n;
+
+							return (
+								<div key={pool.pair} className='bg-[#23483c] rounded-lg p-4'>
+									<div className='flex flex-col sm:flex-row sm:items-center justify-between gap-4'>
+										<div className='space-y-1'>
+											<p className='text-white font-bold text-lg'>
+												{displaySymbol(token0)} / {displaySymbol(token1)}
+											</p>
+											<p className='text-white/60 text-sm'>
+												Reserves: {formatAmount(pool.reserve0, token0.decimals)} {displaySymbol(token0)} ·{" "}
+												{formatAmount(pool.reserve1, token1.decimals)} {displaySymbol(token1)}
+											</p>
+										</div>
+										<div className='flex gap-2'>
+											<button
+												onClick={() => setModal({ mode: "add", pair: pool.pair })}
+												disabled={!isConnected}
+												className='px-4 py-2 rounded-lg bg-primary hover:opacity-90 text-background-dark text-sm font-bold transition-opacity disabled:opacity-50 disabled:cursor-not-allowed'
+											>
+												Add
+											</button>
+											<button
+												onClick={() => setModal({ mode: "remove", pair: pool.pair })}
+												disabled={!hasPosition}
+												className='px-4 py-2 rounded-lg bg-[#1a3a2f] text-white/90 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+											>
+												Remove
+											</button>
+										</div>
+									</div>
+									{hasPosition && (
+										<div className='mt-3 pt-3 border-t border-white/10 grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm'>
+											<div className='flex justify-between sm:block'>
+												<span className='text-white/60'>Your LP: </span>
+												<span className='text-white/80'>{formatAmount(pool.lpBalance, 18, 6)}</span>
+											</div>
+											<div className='flex justify-between sm:block'>
+												<span className='text-white/60'>Pool share: </span>
+												<span className='text-white/80'>
+													{poolSharePercent(pool.lpBalance, pool.totalSupply).toFixed(4)}%
+												</span>
+											</div>
+											<div className='flex justify-between sm:block'>
+												<span className='text-white/60'>Pooled: </span>
+												<span className='text-white/80'>
+													{formatAmount(position0, token0.decimals)} {displaySymbol(token0)} +{" "}
+													{formatAmount(position1, token1.decimals)} {displaySymbol(token1)}
+												</span>
+											</div>
+										</div>
+									)}
+								</div>
+							);
+						})
+					)}
+				</div>
+			</div>
+
+			{/* Transaction Notifications */}
+			<TransactionNotificationList
+				notifications={notifications}
+				onDismiss={handleDismissNotification}
+			/>
+
+			{/* Add/Remove Liquidity Modal */}
+			<LiquidityModal
+				isOpen={modal !== null}
+				mode={modal?.mode ?? "add"}
+				pool={modalPool}
+				isApproving={isApprovalInProgress}
+				isSubmitting={isLiquidityInProgress}
+				approvalConfirmed={approvalConfirmed}
+				onApprove={handleApprove}
+				onAdd={handleAdd}
+				onRemove={handleRemove}
+				onCancel={() => setModal(null)}
+			/>
+		</main>
+	);
+};
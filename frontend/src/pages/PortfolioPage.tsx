@@ -0,0 +1,224 @@
+import { AllocationChart } from "../components/AllocationChart";
+import { PriceSourceBadge } from "../components/PriceSourceBadge";
+import { usePortfolio } from "../hooks/usePortfolio";
+import { useWallet } from "../hooks/useWallet";
+import { positionsToCsv, tradesToCsv } from "../utils/portfolio";
+import { formatUnits } from "viem";
+
+// Format USD values, keeping precision for sub-dollar amounts
+const formatUsd = (value: number | null): string => {
+	if (value === null) return "—";
+	const digits = Math.abs(value) > 0 && Math.abs(value) < 1 ? 4 : 2;
+	return value.toLocaleString(undefined, {
+		style: "currency",
+		currency: "USD",
+		minimumFractionDigits: 2,
+		maximumFractionDigits: digits,
+	});
+};
+
+const formatQuantity = (value: number): string => value.toLocaleString(undefined, { maximumFractionDigits: 6 });
+
+const pnlClassName = (value: number | null): string =>
+	value === null || value === 0 ? "text-white/70" : value > 0 ? "text-green-400" : "text-red-400";
+
+// Trigger a browser download of a CSV string
+const downloadCsv = (filename: string, csv: string) => {
+	const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	link.click();
+	URL.revokeObjectURL(url);
+};
+
+export function PortfolioPage() {
+	const { address, isConnected } = useWallet();
+	const { positions, trades, totals, describeToken, getPriceSource, isLoading, error, refresh } = usePortfolio();
+
+	const exportDate = new Date().toISOString().slice(0, 10);
+	const walletSuffix = address ? address.slice(2, 8).toLowerCase() : "wallet";
+
+	return (
+		<main className='flex flex-1 justify-center py-10 sm:py-16 px-4'>
+			<div className='w-full max-w-5xl'>
+				<div className='flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 pb-6'>
+					<div className='flex flex-col gap-2'>
+						<h1 className='text-white text-3xl font-bold'>Portfolio</h1>
+						<p className='text-white/60 text-sm'>
+							Positions rebuilt from your swaps and DCA fills, valued at the app's current prices.
+						</p>
+					</div>
+					<div className='flex gap-2'>
+						<button
+							onClick={() => refresh()}
+							disabled={!isConnected || isLoading}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Refresh
+						</button>
+						<button
+							onClick={() => downloadCsv(`tayeb-positions-${walletSuffix}-${exportDate}.csv`, positionsToCsv(positions))}
+							disabled={positions.length === 0}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Export positions
+						</button>
+						<button
+							onClick={() =>
+								downloadCsv(`tayeb-trades-${walletSuffix}-${exportDate}.csv`, tradesToCsv(trades, describeToken))
+							}
+							disabled={trades.length === 0}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Export trades
+						</button>
+					</div>
+				</div>
+
+				{!isConnected ? (
+					<div className='mb-4 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-yellow-500 text-sm text-center'>
+						Connect your wallet to see your portfolio.
+					</div>
+				) : (
+					<>
+						{error && (
+							<div className='mb-4 p-4 bg-red-500/10 border border-red-500 rounded-lg text-red-400 text-sm'>
+								{error.message}
+							</div>
+						)}
+
+						{/* Totals */}
+						<div className='grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6'>
+							{[
+								{ label: "Value", value: totals.value, pnl: false },
+								{ label: "Cost basis", value: totals.costBasis, pnl: false },
+								{ label: "Unrealised P&L", value: totals.unrealisedPnl, pnl: true },
+								{ label: "Realised P&L", value: totals.realisedPnl, pnl: true },
+							].map((card) => (
+								<div key={card.label} className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+									<p className='text-white/60 text-xs mb-1'>{card.label}</p>
+									<p className={`text-xl font-bold ${card.pnl ? pnlClassName(card.value) : "text-white"}`}>
+										{formatUsd(card.value)}
+									</p>
+								</div>
+							))}
+						</div>
+
+						<div className='grid lg:grid-cols-3 gap-6 mb-6'>
+							{/* Allocation */}
+							<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+								<h2 className='text-white font-semibold mb-4'>Allocation</h2>
+								<AllocationChart
+									slices={positions.map((position) => ({ label: position.symbol, value: position.value ?? 0 }))}
+								/>
+							</div>
+
+							{/* Positions */}
+							<div className='lg:col-span-2 bg-[#1a3a2f] rounded-xl border border-[#23483c] overflow-x-auto'>
+								{isLoading && positions.length === 0 ? (
+									<p className='text-primary text-center py-8'>Loading portfolio...</p>
+								) : positions.length === 0 ? (
+									<p className='text-white/40 text-center py-8'>No holdings or trades found</p>
+								) : (
+									<table className='w-full text-sm'>
+										<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+											<tr>
+												<th className='text-left py-3 px-4 font-medium'>Token</th>
+												<th className='text-right py-3 px-4 font-medium'>Balance</th>
+												<th className='text-right py-3 px-4 font-medium'>Price</th>
+												<th className='text-right py-3 px-4 font-medium'>Value</th>
+												<th className='text-right py-3 px-4 font-medium'>Avg cost</th>
+												<th className='text-right py-3 px-4 font-medium'>Unrealised</th>
+												<th className='text-right py-3 px-4 font-medium'>Realised</th>
+											</tr>
+										</thead>
+										<tbody>
+											{positions.map((position) => (
+												<tr key={position.address} className='border-t border-[#23483c]/50'>
+													<td className='py-3 px-4 text-white font-medium'>
+														{position.symbol}
+														{position.estimated && (
+															<span
+																className='ml-1 text-yellow-400 text-xs'
+																title='Part of the cost basis was valued at current prices (tokens received outside Tayeb trades)'
+															>
+																*
+															</span>
+														)}
+													</td>
+													<td className='py-3 px-4 text-right text-white/80'>
+														{formatQuantity(position.balance)}
+														{position.heldWithCost < position.balance && (
+															<div className='text-white/40 text-xs'>
+																{formatQuantity(position.balance - position.heldWithCost)} without cost basis
+															</div>
+														)}
+													</td>
+													<td className='py-3 px-4 text-right text-white/80'>
+														{formatUsd(position.price)}
+														<div>
+															<PriceSourceBadge source={getPriceSource(position.symbol)} />
+														</div>
+													</td>
+													<td className='py-3 px-4 text-right text-white'>{formatUsd(position.value)}</td>
+													<td className='py-3 px-4 text-right text-white/80'>{formatUsd(position.averageCost)}</td>
+													<td className={`py-3 px-4 text-right ${pnlClassName(position.unrealisedPnl)}`}>
+														{formatUsd(position.unrealisedPnl)}
+													</td>
+													<td className={`py-3 px-4 text-right ${pnlClassName(position.realisedPnl)}`}>
+														{formatUsd(position.realisedPnl)}
+													</td>
+												</tr>
+											))}
+										</tbody>
+									</table>
+								)}
+							</div>
+						</div>
+
+						{/* Trade history */}
+						<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] overflow-x-auto'>
+							<h2 className='text-white font-semibold p-4 pb-2'>Trades</h2>
+							{trades.length === 0 ? (
+								<p className='text-white/40 text-center py-8'>No swaps or DCA fills yet</p>
+							) : (
+								<table className='w-full text-sm'>
+									<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+										<tr>
+											<th className='text-left py-3 px-4 font-medium'>Date</th>
+											<th className='text-left py-3 px-4 font-medium'>Type</th>
+											<th className='text-right py-3 px-4 font-medium'>Paid</th>
+											<th className='text-right py-3 px-4 font-medium'>Received</th>
+										</tr>
+									</thead>
+									<tbody>
+										{trades.map((trade, index) => {
+											const tokenIn = describeToken(trade.tokenIn);
+											const tokenOut = describeToken(trade.tokenOut);
+											return (
+												<tr key={`${trade.timestamp}-${index}`} className='border-t border-[#23483c]/50'>
+													<td className='py-3 px-4 text-white/70'>
+														{new Date(trade.timestamp * 1000).toLocaleString()}
+													</td>
+													<td className='py-3 px-4 text-white/70'>{trade.kind === "dca" ? "DCA fill" : "Swap"}</td>
+													<td className='py-3 px-4 text-right text-white/80'>
+														{formatQuantity(parseFloat(formatUnits(trade.amountIn, tokenIn.decimals)))} {tokenIn.symbol}
+													</td>
+													<td className='py-3 px-4 text-right text-[#92c9b7]'>
+														{formatQuantity(parseFloat(formatUnits(trade.amountOut, tokenOut.decimals)))}{" "}
+														{tokenOut.symbol}
+													</td>
+												</tr>
+											);
+										})}
+									</tbody>
+								</table>
+							)}
+						</div>
+					</>
+				)}
+			</div>
+		</main>
+	);
+}
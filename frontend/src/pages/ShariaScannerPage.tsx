@@ -1,15 +1,30 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useWallet } from "../hooks/useWallet";
+import { useComplianceReport } from "../hooks/useComplianceReport";
+import { useRequestReview } from "../hooks/useReviewRequests";
 import { useWalletTokenScanner } from "../hooks/useWalletTokenScanner";
+import { useWatchListScanner } from "../hooks/useWatchListScanner";
 import { CryptoTokenIcon } from "../components/CryptoTokenIcon";
+import { PurificationModal } from "../components/PurificationModal";
+import { ReviewStatusBadge } from "../components/ReviewStatusBadge";
+import { WatchListPanel } from "../components/WatchListPanel";
+import { CATEGORY_LABELS } from "../utils/complianceScreening";
+import { complianceReportToHtml, complianceReportToJson } from "../utils/complianceReport";
+import {
+	loadPurificationRecords,
+	purificationRecordsToCsv,
+	savePurificationRecord,
+} from "../utils/purification";
+import type { PurificationRecord } from "../utils/purification";
+import type { ScannedToken, ScanStatus } from "../hooks/useWalletTokenScanner";
 import { isAddress } from "viem";
 import type { Address } from "viem";
-import { moonbaseAlpha } from "wagmi/chains";
+import { REQUIRED_CHAIN_ID } from "../config/wagmi";
 
-type ScanMode = "connected" | "other";
+type ScanMode = "connected" | "other" | "watchlist";
 
 export function ShariaScannerPage() {
-	const { address, isConnected, isOnMoonbaseAlpha, chain } = useWallet();
+	const { address, isConnected, isOnMoonbaseAlpha, chain, chainId } = useWallet();
 	const [scanMode, setScanMode] = useState<ScanMode>("connected");
 	const [customAddress, setCustomAddress] = useState("");
 	const [addressError, setAddressError] = useState<string | null>(null);
@@ -20,11 +35,120 @@ export function ShariaScannerPage() {
 			? (address as Address | undefined)
 			: (customAddress as Address | undefined);
 
-	const { scannedTokens, isScanning, error, scanWallet, summary } = 
+	const { scannedTokens, isScanning, error, scanWallet, discoveryWarning, summary } = 
 		useWalletTokenScanner(addressToScan);
 	
 	const [hasScanned, setHasScanned] = useState(false);
 
+	// Saved addresses scanned together (kept in localStorage)
+	const watchList = useWatchListScanner();
+
+	// Review requests for unregistered tokens (recorded on ShariaCompliance for the admins)
+	const {
+		requestReview,
+		isWriting: isRequestWriting,
+		isConfirming: isRequestConfirming,
+		isConfirmed: isRequestConfirmed,
+		error: requestError,
+		reset: resetRequest,
+	} = useRequestReview();
+	const [requestingToken, setRequestingToken] = useState<string | null>(null);
+	const [requestedTokens, setRequestedTokens] = useState<Set<string>>(new Set());
+	const [requestFailure, setRequestFailure] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (isRequestConfirmed && requestingToken) {
+			setRequestedTokens((prev) => new Set(prev).add(requestingToken.toLowerCase()));
+			setRequestingToken(null);
+			resetRequest();
+		}
+	}, [isRequestConfirmed, requestingToken, resetRequest]);
+
+	useEffect(() => {
+		if (requestError && requestingToken) {
+			setRequestFailure(requestError.message.split("\n")[0]);
+			setRequestingToken(null);
+			resetRequest();
+		}
+	}, [requestError, requestingToken, resetRequest]);
+
+	const handleRequestReview = async (token: ScannedToken, note: string) => {
+		setRequestFailure(null);
+		setRequestingToken(token.address);
+		try {
+			await requestReview(token.address, note);
+		} catch (err) {
+			setRequestFailure(err instanceof Error ? err.message : "Failed to request a review");
+			setRequestingToken(null);
+		}
+	};
+
+	// Purification of non-compliant holdings (connected wallet only) and its donation records
+	const [isPurifyOpen, setIsPurifyOpen] = useState(false);
+	const [purificationRecords, setPurificationRecords] = useState<PurificationRecord[]>([]);
+
+	useEffect(() => {
+		setPurificationRecords(address ? loadPurificationRecords(chainId, address) : []);
+	}, [chainId, address]);
+
+	const handleRecordPurification = (record: PurificationRecord) => {
+		if (!address) return;
+		setPurificationRecords(savePurificationRecord(chainId, address, record));
+	};
+
+	const handlePurifyClose = (swapped: boolean) => {
+		setIsPurifyOpen(false);
+		// Balances changed: rescan so the holdings move to their new status
+		if (swapped) handleScan();
+	};
+
+	const downloadRecords = () => {
+		const url = URL.createObjectURL(
+			new Blob([purificationRecordsToCsv(purificationRecords)], { type: "text/csv;charset=utf-8" })
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `tayeb-purification-${address?.slice(2, 8).toLowerCase()}.csv`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	// Verifiable point-in-time report of the scanned wallet
+	const {
+		report: complianceReport,
+		generateReport,
+		isGenerating: isGeneratingReport,
+		error: reportError,
+	} = useComplianceReport();
+	const reportForScannedWallet =
+		complianceReport && complianceReport.payload.wallet.toLowerCase() === addressToScan?.toLowerCase()
+			? complianceReport
+			: null;
+
+	const downloadReportJson = () => {
+		if (!reportForScannedWallet) return;
+		const { payload } = reportForScannedWallet;
+		const url = URL.createObjectURL(
+			new Blob([complianceReportToJson(reportForScannedWallet)], { type: "application/json" })
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `tayeb-compliance-${payload.wallet.slice(2, 8).toLowerCase()}-${payload.blockNumber}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	// Open the printable report; the browser's print dialog saves it as PDF
+	const printReport = () => {
+		if (!reportForScannedWallet) return;
+		const printWindow = window.open("", "_blank");
+		if (!printWindow) return;
+		printWindow.document.write(complianceReportToHtml(reportForScannedWallet));
+		printWindow.document.close();
+		printWindow.focus();
+		printWindow.print();
+	};
+
 	const handleAddressChange = (value: string) => {
 		setCustomAddress(value);
 		setAddressError(null);
@@ -53,12 +177,16 @@ export function ShariaScannerPage() {
 
 	const canScan = scanMode === "connected" 
 		? isConnected && isOnMoonbaseAlpha
-		: isAddress(customAddress) && isOnMoonbaseAlpha;
+		: scanMode === "other"
+			? isAddress(customAddress) && isOnMoonbaseAlpha
+			: isOnMoonbaseAlpha;
 
 	// Group tokens by status
 	const compliantTokens = scannedTokens.filter((t) => t.status === "compliant");
 	const nonCompliantTokens = scannedTokens.filter((t) => t.status === "non-compliant");
 	const unknownTokens = scannedTokens.filter((t) => t.status === "unknown");
+	const unreviewedTokens = scannedTokens.filter((t) => t.status === "unreviewed");
+	const canPurify = scanMode === "connected" && isConnected && isOnMoonbaseAlpha && nonCompliantTokens.length > 0;
 
 	return (
 		<div className='flex flex-col min-h-screen pt-4'>
@@ -87,7 +215,7 @@ export function ShariaScannerPage() {
 									{chain?.name || "Moonbase Alpha"}
 								</p>
 								<p className='text-[#92c9b7] text-xs'>
-									Chain ID: {chain?.id || moonbaseAlpha.id}
+									Chain ID: {chain?.id || REQUIRED_CHAIN_ID}
 								</p>
 								{!isOnMoonbaseAlpha && (
 									<div className='flex items-center gap-1 text-yellow-400 mt-2'>
@@ -133,6 +261,22 @@ export function ShariaScannerPage() {
 											<span>Other</span>
 										</div>
 									</button>
+									<button
+										onClick={() => {
+											setScanMode("watchlist");
+											setAddressError(null);
+										}}
+										className={`flex-1 h-9 rounded-lg px-3 text-sm font-medium transition-colors ${
+											scanMode === "watchlist"
+												? "bg-primary text-background-dark"
+												: "bg-[#23483c] text-white hover:bg-[#2a5243]"
+										}`}
+									>
+										<div className='flex items-center justify-center gap-1.5'>
+											<span className='material-symbols-outlined text-base'>list_alt</span>
+											<span>Watch list</span>
+										</div>
+									</button>
 								</div>
 
 								{/* Address Display/Input - Compact */}
@@ -152,6 +296,14 @@ export function ShariaScannerPage() {
 											</div>
 										</div>
 									</div>
+								) : scanMode === "watchlist" ? (
+									<div className='bg-[#23483c] rounded-lg p-3'>
+										<p className='text-[#92c9b7] text-xs mb-0.5'>Watch list</p>
+										<p className='text-white text-xs'>
+											{watchList.entries.length} saved{" "}
+											{watchList.entries.length === 1 ? "address" : "addresses"}, scanned together below
+										</p>
+									</div>
 								) : (
 									<div>
 										<label className='flex flex-col'>
@@ -173,8 +325,8 @@ export function ShariaScannerPage() {
 								)}
 							</div>
 
-							{/* Scan Button - Right Side */}
-							<div className='lg:col-span-3'>
+							{/* Scan Button - Right Side (the watch list has its own) */}
+							<div className={`lg:col-span-3 ${scanMode === "watchlist" ? "hidden" : ""}`}>
 								<button
 									onClick={handleScan}
 									disabled={isScanning || !canScan}
@@ -203,13 +355,41 @@ export function ShariaScannerPage() {
 			</div>
 
 			{/* Error State */}
-			{(error || addressError) && (
+			{(scanMode === "watchlist" ? watchList.error : error || addressError) && (
 				<div className='px-4 mb-4'>
 					<div className='max-w-7xl mx-auto'>
 						<div className='p-3 bg-red-500/10 border border-red-500/30 rounded-lg'>
 							<p className='text-red-400 text-sm flex items-center gap-2'>
 								<span className='material-symbols-outlined text-base'>error</span>
-								{error?.message || addressError}
+								{scanMode === "watchlist" ? watchList.error?.message : error?.message || addressError}
+							</p>
+						</div>
+					</div>
+				</div>
+			)}
+
+			{/* Token discovery failed: only registered coins were checked */}
+			{discoveryWarning && hasScanned && !isScanning && scanMode !== "watchlist" && (
+				<div className='px-4 mb-4'>
+					<div className='max-w-7xl mx-auto'>
+						<div className='p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg'>
+							<p className='text-yellow-400 text-sm flex items-center gap-2'>
+								<span className='material-symbols-outlined text-base'>travel_explore</span>
+								{discoveryWarning}
+							</p>
+						</div>
+					</div>
+				</div>
+			)}
+
+			{/* Review request failure */}
+			{requestFailure && (
+				<div className='px-4 mb-4'>
+					<div className='max-w-7xl mx-auto'>
+						<div className='p-3 bg-red-500/10 border border-red-500/30 rounded-lg'>
+							<p className='text-red-400 text-sm flex items-center gap-2'>
+								<span className='material-symbols-outlined text-base'>error</span>
+								{requestFailure}
 							</p>
 						</div>
 					</div>
@@ -235,8 +415,28 @@ export function ShariaScannerPage() {
 				</div>
 			)}
 
+			{/* Watch list */}
+			{scanMode === "watchlist" && (
+				<div className='px-4 pb-6'>
+					<div className='max-w-7xl mx-auto'>
+						<WatchListPanel
+							entries={watchList.entries}
+							scans={watchList.scans}
+							aggregate={watchList.aggregate}
+							isScanning={watchList.isScanning}
+							progress={watchList.progress}
+							canScan={canScan}
+							onAdd={watchList.addAddress}
+							onRemove={watchList.removeAddress}
+							onImport={watchList.importCsv}
+							onScan={watchList.scanAll}
+						/>
+					</div>
+				</div>
+			)}
+
 			{/* Results Section */}
-			{!(scanMode === "connected" && !isConnected) && (
+			{scanMode !== "watchlist" && !(scanMode === "connected" && !isConnected) && (
 				<div className='px-4 pb-6'>
 					<div className='max-w-7xl mx-auto'>
 						{/* Loading State */}
@@ -273,21 +473,66 @@ export function ShariaScannerPage() {
 						<div className='space-y-6'>
 							{/* Scanned Wallet Info - Compact */}
 							<div className='bg-[#19332b] border border-[#326755] rounded-lg p-3'>
-								<div className='flex items-center gap-2'>
-									<span className='material-symbols-outlined text-primary text-base'>
-										account_balance_wallet
-									</span>
-									<div>
-										<p className='text-[#92c9b7] text-xs'>Scanned Wallet</p>
-										<p className='text-white font-mono text-xs'>
-											{addressToScan}
-										</p>
+								<div className='flex flex-wrap items-center gap-3'>
+									<div className='flex items-center gap-2 flex-1 min-w-0'>
+										<span className='material-symbols-outlined text-primary text-base'>
+											account_balance_wallet
+										</span>
+										<div className='min-w-0'>
+											<p className='text-[#92c9b7] text-xs'>Scanned Wallet</p>
+											<p className='text-white font-mono text-xs truncate'>
+												{addressToScan}
+											</p>
+										</div>
 									</div>
+									{reportForScannedWallet ? (
+										<div className='flex flex-wrap items-center gap-2'>
+											<p
+												className='text-[#92c9b7] text-xs font-mono'
+												title={reportForScannedWallet.payloadHash}
+											>
+												Report @ block {reportForScannedWallet.payload.blockNumber} ·{" "}
+												{reportForScannedWallet.payloadHash.slice(0, 10)}…
+											</p>
+											<button
+												onClick={downloadReportJson}
+												className='h-8 rounded-lg px-3 bg-[#23483c] text-white hover:bg-[#2a5243] text-xs font-semibold'
+											>
+												JSON
+											</button>
+											<button
+												onClick={printReport}
+												className='h-8 rounded-lg px-3 bg-[#23483c] text-white hover:bg-[#2a5243] text-xs font-semibold'
+											>
+												Print / PDF
+											</button>
+											<button
+												onClick={() => addressToScan && generateReport(addressToScan)}
+												disabled={isGeneratingReport}
+												title='Generate at the latest block'
+												className='h-8 rounded-lg px-2 bg-[#23483c] text-white hover:bg-[#2a5243] disabled:opacity-50'
+											>
+												<span className={`material-symbols-outlined text-sm ${isGeneratingReport ? "animate-spin" : ""}`}>
+													refresh
+												</span>
+											</button>
+										</div>
+									) : (
+										<button
+											onClick={() => addressToScan && generateReport(addressToScan)}
+											disabled={isGeneratingReport}
+											className='h-8 rounded-lg px-3 bg-[#23483c] text-white hover:bg-[#2a5243] text-xs font-semibold flex items-center gap-1.5 disabled:opacity-50'
+										>
+											<span className='material-symbols-outlined text-sm'>description</span>
+											{isGeneratingReport ? "Generating..." : "Compliance report"}
+										</button>
+									)}
 								</div>
+								{reportError && <p className='text-red-400 text-xs mt-2'>{reportError}</p>}
 							</div>
 
 							{/* Summary Cards - More Compact */}
-							<div className='grid grid-cols-2 lg:grid-cols-4 gap-3'>
+							<div className='grid grid-cols-2 lg:grid-cols-5 gap-3'>
 								<div className='bg-[#19332b] border border-[#326755] rounded-lg p-3'>
 									<div className='flex items-center gap-2 mb-1'>
 										<span className='material-symbols-outlined text-green-400 text-base'>
@@ -311,6 +556,13 @@ export function ShariaScannerPage() {
 									</div>
 									<p className='text-white text-xl font-bold'>{summary.unknown}</p>
 								</div>
+								<div className='bg-[#19332b] border border-[#326755] rounded-lg p-3'>
+									<div className='flex items-center gap-2 mb-1'>
+										<span className='material-symbols-outlined text-blue-400 text-base'>gpp_maybe</span>
+										<p className='text-[#92c9b7] text-xs font-medium'>Unreviewed</p>
+									</div>
+									<p className='text-white text-xl font-bold'>{summary.unreviewed}</p>
+								</div>
 								<div className='bg-[#19332b] border border-[#326755] rounded-lg p-3'>
 									<div className='flex items-center gap-2 mb-1'>
 										<span className='material-symbols-outlined text-white text-base'>inventory_2</span>
@@ -320,6 +572,17 @@ export function ShariaScannerPage() {
 								</div>
 							</div>
 
+							{summary.reviewOverdue > 0 && (
+								<div className='p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg'>
+									<p className='text-yellow-400 text-sm flex items-center gap-2'>
+										<span className='material-symbols-outlined text-base'>schedule</span>
+										{summary.reviewOverdue} compliant{" "}
+										{summary.reviewOverdue === 1 ? "holding is" : "holdings are"} past the
+										re-review date set by the Sharia board
+									</p>
+								</div>
+							)}
+
 							{/* Compliant Tokens */}
 							{compliantTokens.length > 0 && (
 								<div>
@@ -350,13 +613,53 @@ export function ShariaScannerPage() {
 								</div>
 							)}
 
+							{/* Unreviewed Tokens (not in the registry) */}
+							{unreviewedTokens.length > 0 && (
+								<div>
+									<h2 className='text-white text-lg font-bold mb-1 flex items-center gap-2'>
+										<span className='material-symbols-outlined text-blue-400 text-base'>gpp_maybe</span>
+										Unreviewed Tokens ({unreviewedTokens.length})
+									</h2>
+									<p className='text-[#92c9b7] text-xs mb-3'>
+										Not screened by the Sharia board yet. Request a review to add them to the admins' queue.
+									</p>
+									<div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3'>
+										{unreviewedTokens.map((token) => (
+											<TokenCard
+												key={token.address}
+												token={token}
+												reviewRequested={
+													token.reviewRequested || requestedTokens.has(token.address.toLowerCase())
+												}
+												isRequesting={
+													requestingToken === token.address && (isRequestWriting || isRequestConfirming)
+												}
+												canRequestReview={isConnected && !requestingToken}
+												onRequestReview={(note) => handleRequestReview(token, note)}
+											/>
+										))}
+									</div>
+								</div>
+							)}
+
 							{/* Non-Compliant Tokens */}
 							{nonCompliantTokens.length > 0 && (
 								<div>
-									<h2 className='text-white text-lg font-bold mb-3 flex items-center gap-2'>
-										<span className='material-symbols-outlined text-red-400 text-base'>cancel</span>
-										Non-Compliant Tokens ({nonCompliantTokens.length})
-									</h2>
+									<div className='flex items-center justify-between gap-3 mb-3'>
+										<h2 className='text-white text-lg font-bold flex items-center gap-2'>
+											<span className='material-symbols-outlined text-red-400 text-base'>cancel</span>
+											Non-Compliant Tokens ({nonCompliantTokens.length})
+										</h2>
+										{canPurify && (
+											<button
+												onClick={() => setIsPurifyOpen(true)}
+												className='h-9 rounded-lg px-4 bg-primary text-background-dark hover:opacity-90 font-bold text-sm flex items-center gap-2'
+											>
+												<span className='material-symbols-outlined text-base'>volunteer_activism</span>
+												Purify portfolio
+											</button>
+										)}
+									</div>
 									<div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3'>
 										{nonCompliantTokens.map((token) => (
 											<TokenCard key={token.address} token={token} />
@@ -366,26 +669,68 @@ export function ShariaScannerPage() {
 							)}
 						</div>
 					)}
+
+						{/* Recorded purification donations */}
+						{scanMode === "connected" && purificationRecords.length > 0 && !isScanning && (
+							<div className='mt-6 bg-[#19332b] border border-[#326755] rounded-lg p-4'>
+								<div className='flex items-center justify-between gap-3 mb-3'>
+									<h2 className='text-white font-bold flex items-center gap-2'>
+										<span className='material-symbols-outlined text-primary text-base'>volunteer_activism</span>
+										Purification Records ({purificationRecords.length})
+									</h2>
+									<button
+										onClick={downloadRecords}
+										className='px-3 py-1.5 rounded-lg bg-[#23483c] text-white/90 hover:bg-[#2a5243] text-xs font-semibold'
+									>
+										Export CSV
+									</button>
+								</div>
+								<div className='space-y-2'>
+									{purificationRecords.map((record) => (
+										<div key={record.id} className='flex flex-wrap items-center justify-between gap-2 text-sm'>
+											<p className='text-white'>
+												{record.swaps.map((swap) => swap.symbol).join(", ")} → {record.targetSymbol}
+												<span className='text-[#92c9b7] text-xs ml-2'>
+													{new Date(record.recordedAt).toLocaleDateString()}
+												</span>
+											</p>
+											<p className='text-[#92c9b7] text-xs'>
+												Donated {record.donationAmount} {record.targetSymbol} to {record.recipient}
+											</p>
+										</div>
+									))}
+								</div>
+							</div>
+						)}
 					</div>
 				</div>
 			)}
+
+			{isPurifyOpen && (
+				<PurificationModal
+					tokens={nonCompliantTokens}
+					onRecord={handleRecordPurification}
+					onClose={handlePurifyClose}
+				/>
+			)}
 		</div>
 	);
 }
 
 interface TokenCardProps {
-	token: {
-		address: string;
-		symbol: string;
-		name: string;
-		balance: string;
-		status: "compliant" | "non-compliant" | "unknown";
-		complianceReason?: string;
-	};
+	token: ScannedToken;
+	// Unreviewed tokens only
+	reviewRequested?: boolean;
+	isRequesting?: boolean;
+	canRequestReview?: boolean;
+	onRequestReview?: (note: string) => void;
 }
 
-function TokenCard({ token }: TokenCardProps) {
-	const statusColors = {
+function TokenCard({ token, reviewRequested, isRequesting, canRequestReview, onRequestReview }: TokenCardProps) {
+	const [showNote, setShowNote] = useState(false);
+	const [note, setNote] = useState("");
+
+	const statusColors: Record<ScanStatus, { bg: string; border: string; badge: string; icon: string }> = {
 		compliant: {
 			bg: "bg-green-500/10",
 			border: "border-green-500/30",
@@ -404,6 +749,12 @@ function TokenCard({ token }: TokenCardProps) {
 			badge: "bg-yellow-500/20 text-yellow-400",
 			icon: "help",
 		},
+		unreviewed: {
+			bg: "bg-blue-500/10",
+			border: "border-blue-500/30",
+			badge: "bg-blue-500/20 text-blue-400",
+			icon: "gpp_maybe",
+		},
 	};
 
 	const status = statusColors[token.status];
@@ -446,6 +797,24 @@ function TokenCard({ token }: TokenCardProps) {
 					</div>
 				)}
 
+				{token.status === "compliant" && (
+					<div>
+						<p className='text-[#92c9b7] text-xs mb-0.5'>Screening</p>
+						<div className='flex flex-wrap items-center gap-1.5'>
+							<ReviewStatusBadge screening={token.screening} />
+							{token.screening && (
+								<span
+									className='text-white text-xs truncate'
+									title={token.screening.methodology || undefined}
+								>
+									{CATEGORY_LABELS[token.screening.category]}
+									{token.screening.reviewer && ` · ${token.screening.reviewer}`}
+								</span>
+							)}
+						</div>
+					</div>
+				)}
+
 				<div>
 					<p className='text-[#92c9b7] text-xs mb-0.5'>Address</p>
 					<p className='text-white text-xs font-mono truncate' title={token.address}>
@@ -454,6 +823,53 @@ function TokenCard({ token }: TokenCardProps) {
 							: `${token.address.slice(0, 6)}...${token.address.slice(-4)}`}
 					</p>
 				</div>
+
+				{token.status === "unreviewed" && (
+					<div className='pt-1'>
+						{reviewRequested ? (
+							<p className='text-blue-400 text-xs flex items-center gap-1'>
+								<span className='material-symbols-outlined text-xs'>hourglass_top</span>
+								Review requested
+							</p>
+						) : showNote ? (
+							<div className='space-y-1.5'>
+								<input
+									type='text'
+									value={note}
+									onChange={(e) => setNote(e.target.value)}
+									placeholder='Note for the reviewers (optional)'
+									className='w-full h-8 px-2 rounded-lg bg-[#23483c] text-white placeholder:text-[#92c9b7]/50 border border-[#326755] focus:outline-none focus:ring-2 focus:ring-primary text-xs'
+								/>
+								<div className='flex gap-1.5'>
+									<button
+										onClick={() => onRequestReview?.(note)}
+										disabled={isRequesting || !canRequestReview}
+										className='flex-1 h-8 rounded-lg bg-primary text-background-dark text-xs font-bold hover:opacity-90 transition-opacity disabled:opacity-50'
+									>
+										{isRequesting ? "Submitting..." : "Submit"}
+									</button>
+									<button
+										onClick={() => setShowNote(false)}
+										disabled={isRequesting}
+										className='h-8 px-3 rounded-lg bg-[#23483c] text-white text-xs hover:bg-[#2a5243] transition-colors disabled:opacity-50'
+									>
+										Cancel
+									</button>
+								</div>
+							</div>
+						) : (
+							<button
+								onClick={() => setShowNote(true)}
+								disabled={!canRequestReview}
+								title={canRequestReview ? undefined : "Connect a wallet to request a review"}
+								className='w-full h-8 rounded-lg bg-blue-500/20 text-blue-400 text-xs font-semibold hover:bg-blue-500/30 transition-colors flex items-center justify-center gap-1 disabled:opacity-50'
+							>
+								<span className='material-symbols-outlined text-sm'>rate_review</span>
+								Request review
+							</button>
+						)}
+					</div>
+				)}
 			</div>
 		</div>
 	);
@@ -8,23 +8,28 @@ import { TokenInput } from "../components/TokenInput";
 import { SwapConfirmationModal } from "../components/SwapConfirmationModal";
 import { TransactionNotificationList } from "../components/TransactionNotification";
 import { useShariaCompliance } from "../hooks/useShariaCompliance";
-import { useManualSwapQuote, useShariaSwap } from "../hooks/useShariaSwap";
+import { useBestRouteQuote, useShariaSwap, type RouteQuote } from "../hooks/useShariaSwap";
 import { useTokenPrices } from "../hooks/useTokenPrices";
 import { useTokenBalance } from "../hooks/useTokenBalance";
 import { useWallet } from "../hooks/useWallet";
 import type { Token, TransactionNotification, SwapConfirmationData } from "../types";
 import { ERC20_ABI } from "../config/abis";
-import { CONTRACTS } from "../config/contracts";
+import { useContracts } from "../hooks/useContracts";
 import { getFriendlyErrorMessage, isUserRejection } from "../utils/errorMessages";
 
 export function SwapPage() {
+	const { WETH: WETH_ADDRESS } = useContracts();
 	const [searchParams] = useSearchParams();
 	const tokenInParam = searchParams.get("tokenIn");
 	const { address, isConnected, isOnMoonbaseAlpha, switchToMoonbaseAlpha, chain } = useWallet();
 	const {
 		approveToken,
-		swapTokenForToken,
-		swapGLMRForToken,
+		swapTokenForTokenWithPath,
+		swapGLMRForTokenWithPath,
+		swapTokenForExactTokens,
+		swapGLMRForExactTokens,
+		swapTokenForGLMR,
+		swapTokenForExactGLMR,
 		isSwapping,
 		isConfirming,
 		isConfirmed,
@@ -63,12 +68,16 @@ export function SwapPage() {
 		console.log("⏳ isConfirming changed:", isConfirming);
 	}, [isConfirming]);
 	const { coins, coinsLoading, coinsError } = useShariaCompliance();
-	const { isLoading: quoteLoading, fetchQuote } = useManualSwapQuote();
+	const { isLoading: quoteLoading, fetchRoute, fetchRouteIn } = useBestRouteQuote();
 
 	const [tokenIn, setTokenIn] = useState<Token | null>(null);
 	const [tokenOut, setTokenOut] = useState<Token | null>(null);
 	const [amountIn, setAmountIn] = useState<string>("");
 	const [amountOut, setAmountOut] = useState<number | null>(null);
+	const [route, setRoute] = useState<RouteQuote | null>(null);
+	// exactIn: user types the input amount; exactOut: user types the amount to receive
+	const [swapMode, setSwapMode] = useState<"exactIn" | "exactOut">("exactIn");
+	const [amountOutInput, setAmountOutInput] = useState<string>("");
 	const [error, setError] = useState<string | null>(null);
 	
 	// Fetch token balances
@@ -115,7 +124,7 @@ export function SwapPage() {
 		return symbols;
 	}, [tokenIn, tokenOut]);
 	
-	const { calculateUsdValue } = useTokenPrices(tokenSymbols);
+	const { calculateUsdValue, getSource } = useTokenPrices(tokenSymbols);
 
 
 
@@ -222,7 +231,7 @@ export function SwapPage() {
 
 		// Native DEV doesn't need approval - skip check
 		const isNativeDEV = tokenIn.symbol === "DEV" && 
-			tokenIn.addresses.moonbase?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
+			tokenIn.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
 		
 		if (isNativeDEV) {
 			setNeedsApproval(false);
@@ -231,7 +240,7 @@ export function SwapPage() {
 
 		try {
 			setCheckingAllowance(true);
-			const amountInWei = parseUnits(amountIn, tokenIn.decimals);
+			const amountInWei = getMaxAmountInWei(parseUnits(amountIn, tokenIn.decimals));
 			
 			const allowance = await publicClient.readContract({
 				address: tokenIn.addresses.moonbase as `0x${string}`,
@@ -259,15 +268,24 @@ export function SwapPage() {
 	// Check allowance whenever relevant dependencies change
 	useEffect(() => {
 		checkAllowance();
-	}, [tokenIn, amountIn, address, publicClient]);
+	}, [tokenIn, amountIn, address, publicClient, swapMode]);
+
+	// Input bound for the swap: exact input as-is, exact output plus slippage
+	function getMaxAmountInWei(amountInWei: bigint): bigint {
+		if (swapMode !== "exactOut") return amountInWei;
+		return (amountInWei * BigInt(100 + Math.floor(slippageTolerance))) / 100n;
+	}
 
 	// Fetch quote on amount change
 	const handleAmountChange = async (value: string) => {
 		setAmountIn(value);
+		setSwapMode("exactIn");
+		setAmountOutInput("");
 
 		// Clear output if input is empty or invalid
 		if (!value || value === "" || isNaN(parseFloat(value))) {
 			setAmountOut(null);
+			setRoute(null);
 			setNeedsApproval(false);
 			return;
 		}
@@ -278,24 +296,70 @@ export function SwapPage() {
 			const decimalsOut = tokenOut.decimals ?? 18;
 
 			const amountInWei = parseUnits(value, decimalsIn);
-			const quote = await fetchQuote(
+			// Only route through tokens the user could swap into (Sharia-compliant)
+			const compliantAddresses = new Set(
+				tokens.map((t) => t.addresses.moonbase?.toLowerCase())
+			);
+			const bestRoute = await fetchRoute(
 				tokenIn.addresses.moonbase as `0x${string}`,
 				tokenOut.addresses.moonbase as `0x${string}`,
 				amountInWei,
-				tokenIn.symbol,
-				tokenOut.symbol
+				(token) => compliantAddresses.has(token.toLowerCase())
 			);
 
-			if (quote) {
-				const formatted = Number(formatUnits(quote, decimalsOut));
+			setRoute(bestRoute);
+			if (bestRoute) {
+				const formatted = Number(formatUnits(bestRoute.amountOut, decimalsOut));
 				setAmountOut(formatted);
+			} else {
+				setAmountOut(null);
 			}
 		} else {
 			setAmountOut(null);
+			setRoute(null);
 			setNeedsApproval(false);
 		}
 	};
 
+	// Compute the required input when the user types the amount to receive
+	const handleAmountOutChange = async (value: string) => {
+		setAmountOutInput(value);
+		setSwapMode("exactOut");
+
+		// Clear input if output is empty or invalid
+		if (!value || isNaN(parseFloat(value)) || parseFloat(value) <= 0 || !tokenIn || !tokenOut) {
+			setAmountIn("");
+			setAmountOut(null);
+			setRoute(null);
+			setNeedsApproval(false);
+			return;
+		}
+
+		const decimalsIn = tokenIn.decimals ?? 18;
+		const decimalsOut = tokenOut.decimals ?? 18;
+
+		const amountOutWei = parseUnits(value, decimalsOut);
+		// Only route through tokens the user could swap into (Sharia-compliant)
+		const compliantAddresses = new Set(
+			tokens.map((t) => t.addresses.moonbase?.toLowerCase())
+		);
+		const bestRoute = await fetchRouteIn(
+			tokenIn.addresses.moonbase as `0x${string}`,
+			tokenOut.addresses.moonbase as `0x${string}`,
+			amountOutWei,
+			(token) => compliantAddresses.has(token.toLowerCase())
+		);
+
+		setRoute(bestRoute);
+		if (bestRoute) {
+			setAmountIn(formatUnits(bestRoute.amountIn, decimalsIn));
+			setAmountOut(parseFloat(value));
+		} else {
+			setAmountIn("");
+			setAmountOut(null);
+		}
+	};
+
 	// Swap tokens
 	const swapTokens = () => {
 		// Swap the tokens
@@ -306,6 +370,9 @@ export function SwapPage() {
 		// Clear amounts to get fresh quote
 		setAmountIn("");
 		setAmountOut(null);
+		setRoute(null);
+		setSwapMode("exactIn");
+		setAmountOutInput("");
 	};
 
 	// Open confirmation modal with calculated data
@@ -320,7 +387,7 @@ export function SwapPage() {
 			return;
 		}
 
-		if (!amountOut || amountOut <= 0) {
+		if (!amountOut || amountOut <= 0 || !route) {
 			setError("Unable to get quote. Please try again.");
 			return;
 		}
@@ -342,12 +409,17 @@ export function SwapPage() {
 		const amountInUsd = calculateUsdValue(tokenIn.symbol, amountInNum);
 		const amountOutUsd = calculateUsdValue(tokenOut.symbol, amountOutNum);
 		
-		// Calculate fee (0.3%)
-		const feeAmount = amountInNum * 0.003;
+		// Calculate fee (0.3% per hop)
+		const hops = route.path.length - 1;
+		const feeAmount = amountInNum * (1 - Math.pow(0.997, hops));
 		const feeUsd = calculateUsdValue(tokenIn.symbol, feeAmount);
 		
-		// Calculate minimum amount out after slippage
-		const minAmountOut = (amountOutNum * (100 - slippageTolerance)) / 100;
+		// Calculate minimum amount out after slippage (exact output: maximum amount in)
+		const isExactOutput = swapMode === "exactOut";
+		const minAmountOut = isExactOutput
+			? amountOutNum
+			: (amountOutNum * (100 - slippageTolerance)) / 100;
+		const maxAmountIn = (amountInNum * (100 + slippageTolerance)) / 100;
 
 		const data: SwapConfirmationData = {
 			tokenIn,
@@ -356,12 +428,17 @@ export function SwapPage() {
 			amountOut: amountOutNum.toFixed(6),
 			amountInUsd,
 			amountOutUsd,
+			amountInUsdSource: getSource(tokenIn.symbol),
+			amountOutUsdSource: getSource(tokenOut.symbol),
 			exchangeRate,
 			priceImpact: 0, // Removed but keeping in type for compatibility
 			fee: `${feeAmount.toFixed(8)} ${tokenIn.symbol}`,
 			feeUsd,
 			slippageTolerance,
 			minAmountOut: minAmountOut.toFixed(6),
+			route: route.symbols,
+			exactOutput: isExactOutput,
+			maxAmountIn: isExactOutput ? maxAmountIn.toFixed(6) : undefined,
 		};
 
 		setConfirmationData(data);
@@ -370,7 +447,7 @@ export function SwapPage() {
 
 	// Execute the swap after confirmation
 	const handleConfirmSwap = async () => {
-		if (!confirmationData || !tokenIn || !tokenOut) return;
+		if (!confirmationData || !tokenIn || !tokenOut || !route) return;
 
 		// Additional safety check: validate network before proceeding
 		if (!isOnMoonbaseAlpha) {
@@ -402,25 +479,36 @@ export function SwapPage() {
 			const minAmountOut =
 				(amountOutWei * BigInt(100 - slippagePercentInt)) / 100n;
 
-			// Check if swapping native DEV - use swapGLMRForToken instead
+			// Check if swapping native DEV - use swapGLMRForTokenWithPath instead
 			const isNativeDEV = tokenIn.symbol === "DEV" && 
-				tokenIn.addresses.moonbase?.toLowerCase() === CONTRACTS.WETH.toLowerCase();
-
-			if (isNativeDEV) {
-				// Use native DEV swap function (no approval needed)
-				await swapGLMRForToken(
-					tokenOut.addresses.moonbase as `0x${string}`,
-					minAmountOut,
-					amountInWei
-				);
+				tokenIn.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
+			// Selling to DEV - WETH output is unwrapped to native DEV
+			const isNativeDEVOut = tokenOut.symbol === "DEV" &&
+				tokenOut.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
+
+			if (swapMode === "exactOut") {
+				// Exact output: bound the input by the slippage tolerance instead
+				let maxAmountIn = getMaxAmountInWei(route.amountIn);
+
+				if (isNativeDEV) {
+					// Send at most the wallet balance; unspent DEV is refunded by the contract
+					const balanceWei = balanceIn ? parseUnits(balanceIn, tokenIn.decimals) : maxAmountIn;
+					if (maxAmountIn > balanceWei) maxAmountIn = balanceWei;
+					await swapGLMRForExactTokens(route.path, route.amountOut, maxAmountIn);
+				} else if (isNativeDEVOut) {
+					await swapTokenForExactGLMR(route.path, route.amountOut, maxAmountIn);
+				} else {
+					await swapTokenForExactTokens(route.path, route.amountOut, maxAmountIn);
+				}
+			} else if (isNativeDEV) {
+				// Use native DEV swap function (no approval needed, route starts at WETH)
+				await swapGLMRForTokenWithPath(route.path, minAmountOut, amountInWei);
+			} else if (isNativeDEVOut) {
+				// Sell for native DEV (route ends at WETH, requires approval)
+				await swapTokenForGLMR(route.path, amountInWei, minAmountOut);
 			} else {
-				// Use regular token swap (requires approval)
-				await swapTokenForToken(
-					tokenIn.addresses.moonbase as `0x${string}`,
-					tokenOut.addresses.moonbase as `0x${string}`,
-					amountInWei,
-					minAmountOut
-				);
+				// Use regular token swap along the best route (requires approval)
+				await swapTokenForTokenWithPath(route.path, amountInWei, minAmountOut);
 			}
 		} catch (err) {
 			const friendlyMessage = getFriendlyErrorMessage(err);
@@ -560,6 +648,9 @@ export function SwapPage() {
 				// Swap successful - reset form and refetch balances
 				setAmountIn("");
 				setAmountOut(null);
+				setRoute(null);
+				setSwapMode("exactIn");
+				setAmountOutInput("");
 				setConfirmationData(null);
 				setNeedsApproval(false);
 				
@@ -711,6 +802,10 @@ export function SwapPage() {
 	const displayTokenIn = isRateReversed ? tokenOut : tokenIn;
 	const displayTokenOut = isRateReversed ? tokenIn : tokenOut;
 
+	// Selling to DEV pays out native DEV (the contract unwraps WETH)
+	const isSellingToDEV = tokenOut?.symbol === "DEV" &&
+		tokenOut.addresses.moonbase?.toLowerCase() === WETH_ADDRESS.toLowerCase();
+
 	return (
 		<main className='flex flex-1 justify-center py-10 sm:py-16 px-4'>
 				<div className='flex flex-col w-full max-w-lg'>
@@ -779,7 +874,7 @@ export function SwapPage() {
 					<div className='bg-[#1a3a2f] p-4 sm:p-6 rounded-xl border border-solid border-[#23483c] shadow-lg'>
 						{/* From Token Section */}
 						<TokenInput
-							label='You Pay'
+							label={swapMode === "exactOut" ? "You Pay (estimated)" : "You Pay"}
 							value={amountIn}
 							onChange={handleAmountChange}
 							token={tokenIn}
@@ -805,9 +900,15 @@ export function SwapPage() {
 						</div>
 						{/* To Token Section */}
 						<TokenInput
-							label='You Receive'
-							value={amountOut ? Number(amountOut).toFixed(5) : ""}
-							readOnly
+							label={swapMode === "exactOut" ? "You Receive (exact)" : "You Receive"}
+							value={
+								swapMode === "exactOut"
+									? amountOutInput
+									: amountOut
+									? Number(amountOut).toFixed(5)
+									: ""
+							}
+							onChange={handleAmountOutChange}
 							token={tokenOut}
 							tokens={tokens}
 							onTokenChange={handleTokenOutChange}
@@ -902,6 +1003,25 @@ export function SwapPage() {
 								</div>
 							)}
 						</div>
+						<div className='flex justify-between items-center'>
+							<span>Route</span>
+							{route ? (
+								<span className='text-primary/80'>
+									{route.symbols.join(" → ")}
+									{route.path.length > 2 && ` (${route.path.length - 1} hops)`}
+								</span>
+							) : (
+								<span className='text-white/40 text-sm'>
+									{amountIn && parseFloat(amountIn) > 0 && !quoteLoading ? "No route found" : "—"}
+								</span>
+							)}
+						</div>
+						{isSellingToDEV && (
+							<div className='flex justify-between items-center'>
+								<span>Received As</span>
+								<span className='text-primary/80'>Native DEV (unwrapped)</span>
+							</div>
+						)}
 						{/* <div className='flex justify-between items-center'>
 							<span>Estimated Gas Fee</span>
 							<span>${estimatedGas}</span>
@@ -1,9 +1,14 @@
 import { useMemo, useState } from "react";
 import { useNavigate } from "react-router";
+import { CoinAuditTrailModal } from "../components/CoinAuditTrailModal";
 import { CryptoTokenIcon } from "../components/CryptoTokenIcon";
-import { useShariaCompliance } from "../hooks/useShariaCompliance";
+import { ReviewStatusBadge } from "../components/ReviewStatusBadge";
+import { useComplianceScreening, useShariaCompliance } from "../hooks/useShariaCompliance";
 import { useWallet } from "../hooks/useWallet";
 import { useTokenPrices } from "../hooks/useTokenPrices";
+import { PriceSourceBadge } from "../components/PriceSourceBadge";
+import type { PriceSource } from "../types";
+import { CATEGORY_LABELS } from "../utils/complianceScreening";
 
 interface ShariaCoin {
 	id: string;
@@ -15,14 +20,20 @@ interface ShariaCoin {
 	exists: boolean;
 }
 
+// Pool prices of small-cap tokens can be well below a cent
+const formatUsdPrice = (price: number): string =>
+	price >= 0.01 ? `$${price.toFixed(2)}` : `$${price.toPrecision(3)}`;
+
 export function TokensPage() {
 	const navigate = useNavigate();
 	useWallet(); // Just to ensure wallet context
 
 	const { coins, coinsLoading } = useShariaCompliance();
+	const { screenings } = useComplianceScreening();
 
 	const [searchTerm, setSearchTerm] = useState("");
 	const [sortBy, setSortBy] = useState<"name" | "price" | "marketcap">("name");
+	const [historyCoin, setHistoryCoin] = useState<ShariaCoin | null>(null);
 
 	// Convert coins to ShariaCoin format for display
 	const contractTokens: ShariaCoin[] = useMemo(
@@ -45,18 +56,19 @@ export function TokensPage() {
 		[contractTokens]
 	);
 
-	// Fetch real prices from CoinGecko
+	// Fetch prices (pool TWAP first, CoinGecko for tokens without a USDC pair)
 	const { prices } = useTokenPrices(tokenSymbols);
 
 	// Format price data for display - memoized to prevent re-renders
 	const priceData = useMemo(
 		() => {
-			const data: Record<string, { price: number; marketCap: number }> = {};
+			const data: Record<string, { price: number; marketCap: number; source?: PriceSource }> = {};
 			for (const token of contractTokens) {
 				const priceInfo = prices[token.symbol.toUpperCase()];
 				data[token.symbol] = {
 					price: priceInfo?.usd || 0,
 					marketCap: priceInfo?.marketCap || 0,
+					source: priceInfo?.source,
 				};
 			}
 			return data;
@@ -268,7 +280,10 @@ export function TokensPage() {
 														{token.tokenAddress}
 													</td>
 													<td className='h-[72px] px-4 py-2 text-[#92c9b7] text-sm font-normal leading-normal'>
-														${priceInfo?.price.toFixed(2) || "0.00"}
+														<div className='flex flex-col items-start gap-1'>
+															<span>{priceInfo?.source ? formatUsdPrice(priceInfo.price) : "—"}</span>
+															<PriceSourceBadge source={priceInfo?.source} />
+														</div>
 													</td>
 													<td className='h-[72px] px-4 py-2 text-[#92c9b7] text-sm font-normal leading-normal'>
 														{priceInfo?.marketCap 
@@ -303,21 +318,38 @@ export function TokensPage() {
 																<span>Non-Compliant</span>
 															</div>
 														)}
+														{token.verified && (
+															<ReviewStatusBadge screening={screenings[token.symbol]} className='mt-1' />
+														)}
 													</td>
 													<td className='h-[72px] px-4 py-2 text-sm font-normal leading-normal'>
 														{token.complianceReason}
+														{screenings[token.symbol] && (
+															<p className='text-xs text-white/50'>
+																{CATEGORY_LABELS[screenings[token.symbol].category]}
+																{screenings[token.symbol].reviewer && ` · ${screenings[token.symbol].reviewer}`}
+															</p>
+														)}
 													</td>
 													<td className='h-[72px] px-4 py-2 text-right'>
-														{token.verified && (
+														<div className='flex gap-2 justify-end'>
 															<button
-																onClick={() =>
-																	navigate(`/swap?tokenIn=${token.symbol}`)
-																}
-																className='bg-primary/20 text-primary hover:bg-primary hover:text-background-dark transition-colors duration-200 font-bold text-sm h-9 px-4 rounded-lg'
+																onClick={() => setHistoryCoin(token)}
+																className='bg-white/5 text-white/80 hover:bg-white/10 transition-colors duration-200 font-bold text-sm h-9 px-4 rounded-lg'
 															>
-																Swap
+																History
 															</button>
-														)}
+															{token.verified && (
+																<button
+																	onClick={() =>
+																		navigate(`/swap?tokenIn=${token.symbol}`)
+																	}
+																	className='bg-primary/20 text-primary hover:bg-primary hover:text-background-dark transition-colors duration-200 font-bold text-sm h-9 px-4 rounded-lg'
+																>
+																	Swap
+																</button>
+															)}
+														</div>
 													</td>
 												</tr>
 											);
@@ -366,12 +398,23 @@ export function TokensPage() {
 												</div>
 											)}
 										</div>
+										{token.verified && (
+											<div className='flex items-center gap-2'>
+												<ReviewStatusBadge screening={screenings[token.symbol]} />
+												{screenings[token.symbol] && (
+													<span className='text-xs text-white/50'>
+														{CATEGORY_LABELS[screenings[token.symbol].category]}
+													</span>
+												)}
+											</div>
+										)}
 										<div className='flex justify-between items-center'>
 											<div>
 												<p className='text-[#92c9b7] text-sm'>Price</p>
 												<p className='text-white text-lg font-bold'>
-													${priceInfo?.price.toFixed(2) || "0.00"}
+													{priceInfo?.source ? formatUsdPrice(priceInfo.price) : "—"}
 												</p>
+												<PriceSourceBadge source={priceInfo?.source} />
 											</div>
 											<div>
 												<p className='text-[#92c9b7] text-sm text-right'>Market Cap</p>
@@ -388,14 +431,22 @@ export function TokensPage() {
 												</p>
 											</div>
 										</div>
-										{token.verified && (
+										<div className='flex gap-2'>
 											<button
-												onClick={() => navigate(`/swap?tokenIn=${token.symbol}`)}
-												className='w-full bg-primary text-background-dark hover:opacity-90 transition-opacity font-bold text-sm h-10 px-4 rounded-lg'
+												onClick={() => setHistoryCoin(token)}
+												className='flex-1 bg-white/5 text-white/80 hover:bg-white/10 transition-colors font-bold text-sm h-10 px-4 rounded-lg'
 											>
-												Swap
+												History
 											</button>
-										)}
+											{token.verified && (
+												<button
+													onClick={() => navigate(`/swap?tokenIn=${token.symbol}`)}
+													className='flex-1 bg-primary text-background-dark hover:opacity-90 transition-opacity font-bold text-sm h-10 px-4 rounded-lg'
+												>
+													Swap
+												</button>
+											)}
+										</div>
 									</div>
 								);
 							})}
@@ -403,6 +454,13 @@ export function TokensPage() {
 					</>
 				)}
 			</div>
+
+			<CoinAuditTrailModal
+				isOpen={historyCoin !== null}
+				coin={historyCoin}
+				screening={historyCoin ? screenings[historyCoin.symbol] : null}
+				onClose={() => setHistoryCoin(null)}
+			/>
 		</div>
 	);
 }
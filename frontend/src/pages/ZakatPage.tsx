@@ -0,0 +1,242 @@
+import { useEffect, useMemo, useState } from "react";
+import { useZakat } from "../hooks/useZakat";
+import { useWallet } from "../hooks/useWallet";
+import { calculateZakat, NISAB_GRAMS, ZAKAT_RATE, zakatReportToHtml, zakatReportToJson } from "../utils/zakat";
+import type { NisabStandard, ZakatSettings } from "../utils/zakat";
+
+const SETTINGS_STORAGE_KEY = "zakat-settings";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Saved nisab settings, with today as the hawl date when none was saved
+const loadSettings = (): ZakatSettings => {
+	const defaults: ZakatSettings = { nisabStandard: "gold", metalPricePerGram: 0, hawlDate: today() };
+	if (typeof window === "undefined") return defaults;
+	try {
+		const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+		return saved ? { ...defaults, ...(JSON.parse(saved) as Partial<ZakatSettings>) } : defaults;
+	} catch {
+		return defaults;
+	}
+};
+
+const formatUsd = (value: number | null): string =>
+	value === null
+		? "—"
+		: value.toLocaleString(undefined, {
+				style: "currency",
+				currency: "USD",
+				minimumFractionDigits: 2,
+				maximumFractionDigits: 2,
+			});
+
+const inputClassName =
+	"w-full bg-[#23483c] text-white rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/50";
+
+export function ZakatPage() {
+	const { address, isConnected, chainId } = useWallet();
+	const { holdings, isLoading, error, refresh } = useZakat();
+	const [settings, setSettings] = useState<ZakatSettings>(loadSettings);
+
+	useEffect(() => {
+		localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+	}, [settings]);
+
+	const report = useMemo(
+		() => calculateZakat(holdings, settings, address ?? "", chainId),
+		[holdings, settings, address, chainId]
+	);
+
+	const exportJson = () => {
+		const url = URL.createObjectURL(new Blob([zakatReportToJson(report)], { type: "application/json" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `tayeb-zakat-${address?.slice(2, 8).toLowerCase() ?? "wallet"}-${settings.hawlDate}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+	};
+
+	// Open the printable report; the browser's print dialog saves it as PDF
+	const exportPdf = () => {
+		const printWindow = window.open("", "_blank");
+		if (!printWindow) return;
+		printWindow.document.write(zakatReportToHtml(report));
+		printWindow.document.close();
+		printWindow.focus();
+		printWindow.print();
+	};
+
+	const hasMetalPrice = settings.metalPricePerGram > 0;
+
+	return (
+		<main className='flex flex-1 justify-center py-10 sm:py-16 px-4'>
+			<div className='w-full max-w-5xl'>
+				<div className='flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 pb-6'>
+					<div className='flex flex-col gap-2'>
+						<h1 className='text-white text-3xl font-bold'>Zakat</h1>
+						<p className='text-white/60 text-sm'>
+							Your compliant holdings and DCA deposits against the nisab, valued at the app's current prices.
+						</p>
+					</div>
+					<div className='flex gap-2'>
+						<button
+							onClick={() => refresh()}
+							disabled={!isConnected || isLoading}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Refresh
+						</button>
+						<button
+							onClick={exportJson}
+							disabled={holdings.length === 0}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Export JSON
+						</button>
+						<button
+							onClick={exportPdf}
+							disabled={holdings.length === 0}
+							className='px-4 py-2 rounded-lg bg-[#23483c] text-white/80 hover:bg-[#2c5a4b] text-sm font-semibold transition-colors disabled:opacity-50'
+						>
+							Export PDF
+						</button>
+					</div>
+				</div>
+
+				{!isConnected ? (
+					<div className='mb-4 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-yellow-500 text-sm text-center'>
+						Connect your wallet to calculate zakat.
+					</div>
+				) : (
+					<>
+						{error && (
+							<div className='mb-4 p-4 bg-red-500/10 border border-red-500 rounded-lg text-red-400 text-sm'>
+								{error.message}
+							</div>
+						)}
+
+						{/* Nisab and hawl */}
+						<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4 mb-6 grid grid-cols-1 sm:grid-cols-3 gap-3'>
+							<label className='flex flex-col gap-1'>
+								<span className='text-white/60 text-xs'>Nisab standard</span>
+								<select
+									value={settings.nisabStandard}
+									onChange={(e) =>
+										setSettings((prev) => ({ ...prev, nisabStandard: e.target.value as NisabStandard }))
+									}
+									className={inputClassName}
+								>
+									<option value='gold'>Gold ({NISAB_GRAMS.gold} g)</option>
+									<option value='silver'>Silver ({NISAB_GRAMS.silver} g)</option>
+								</select>
+							</label>
+							<label className='flex flex-col gap-1'>
+								<span className='text-white/60 text-xs'>
+									{settings.nisabStandard === "gold" ? "Gold" : "Silver"} price (USD per gram)
+								</span>
+								<input
+									type='number'
+									min='0'
+									step='any'
+									value={settings.metalPricePerGram || ""}
+									onChange={(e) =>
+										setSettings((prev) => ({ ...prev, metalPricePerGram: Math.max(0, Number(e.target.value)) }))
+									}
+									placeholder='0.00'
+									className={inputClassName}
+								/>
+							</label>
+							<label className='flex flex-col gap-1'>
+								<span className='text-white/60 text-xs'>Hawl date</span>
+								<input
+									type='date'
+									value={settings.hawlDate}
+									onChange={(e) => setSettings((prev) => ({ ...prev, hawlDate: e.target.value || today() }))}
+									className={inputClassName}
+								/>
+							</label>
+						</div>
+
+						{/* Totals */}
+						<div className='grid grid-cols-2 lg:grid-cols-4 gap-3 mb-6'>
+							<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+								<p className='text-white/60 text-xs mb-1'>Zakatable wealth</p>
+								<p className='text-xl font-bold text-white'>{formatUsd(report.zakatableValue)}</p>
+							</div>
+							<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+								<p className='text-white/60 text-xs mb-1'>Nisab</p>
+								<p className='text-xl font-bold text-white'>{hasMetalPrice ? formatUsd(report.nisabValue) : "—"}</p>
+							</div>
+							<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+								<p className='text-white/60 text-xs mb-1'>Zakat due ({ZAKAT_RATE * 100}%)</p>
+								<p className='text-xl font-bold text-primary'>
+									{!hasMetalPrice ? "—" : report.meetsNisab ? formatUsd(report.zakatDue) : "Below nisab"}
+								</p>
+							</div>
+							<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] p-4'>
+								<p className='text-white/60 text-xs mb-1'>Hawl</p>
+								<p className='text-xl font-bold text-white'>{report.hawlComplete ? "Due now" : settings.hawlDate}</p>
+								<p className='text-white/40 text-xs mt-1'>Next: {report.nextHawlDate}</p>
+							</div>
+						</div>
+
+						{!hasMetalPrice && (
+							<div className='mb-4 p-4 bg-yellow-500/10 border border-yellow-500 rounded-lg text-yellow-500 text-sm'>
+								Enter the current {settings.nisabStandard} price per gram to compare your wealth against the nisab.
+							</div>
+						)}
+						{report.isEstimate && (
+							<p className='text-white/50 text-xs mb-4'>
+								{report.hawlComplete
+									? `The hawl date has passed: this is an estimate from today's balances and prices, not those held on ${settings.hawlDate}.`
+									: "The hawl date hasn't been reached: this is an estimate at today's prices."}{" "}
+								Recalculate on the hawl date for final amounts.
+							</p>
+						)}
+
+						{/* Holdings */}
+						<div className='bg-[#1a3a2f] rounded-xl border border-[#23483c] overflow-x-auto'>
+							{isLoading && holdings.length === 0 ? (
+								<p className='text-primary text-center py-8'>Loading holdings...</p>
+							) : holdings.length === 0 ? (
+								<p className='text-white/40 text-center py-8'>No holdings or order deposits found</p>
+							) : (
+								<table className='w-full text-sm'>
+									<thead className='bg-[#23483c]/50 text-white/60 text-xs uppercase'>
+										<tr>
+											<th className='text-left py-3 px-4 font-medium'>Token</th>
+											<th className='text-left py-3 px-4 font-medium'>Held in</th>
+											<th className='text-right py-3 px-4 font-medium'>Amount</th>
+											<th className='text-right py-3 px-4 font-medium'>Price</th>
+											<th className='text-right py-3 px-4 font-medium'>Value</th>
+											<th className='text-left py-3 px-4 font-medium'>Zakatable</th>
+										</tr>
+									</thead>
+									<tbody>
+										{holdings.map((holding) => (
+											<tr
+												key={`${holding.source}-${holding.reference}-${holding.address}`}
+												className={`border-t border-[#23483c]/50 ${holding.included ? "" : "opacity-60"}`}
+											>
+												<td className='py-3 px-4 text-white font-medium'>{holding.symbol}</td>
+												<td className='py-3 px-4 text-white/70'>
+													{holding.source === "wallet" ? "Wallet" : holding.reference}
+												</td>
+												<td className='py-3 px-4 text-right text-white'>
+													{holding.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })}
+												</td>
+												<td className='py-3 px-4 text-right text-white/70'>{formatUsd(holding.price)}</td>
+												<td className='py-3 px-4 text-right text-white'>{formatUsd(holding.value)}</td>
+												<td className='py-3 px-4 text-white/70'>{holding.included ? "Yes" : holding.exclusion}</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							)}
+						</div>
+					</>
+				)}
+			</div>
+		</main>
+	);
+}
@@ -21,7 +21,7 @@ export type HalaCoin = TayebCoin;
 
 export interface DeployedContracts {
 	network: string;
-	version: string;
+	chainId: number;
 	lastDeployed: string;
 	amm: {
 		factory: string;
@@ -36,6 +36,19 @@ export interface DeployedContracts {
 	tokens: {
 		[key: string]: string;
 	};
+	pairs: {
+		[key: string]: string | null;
+	};
+	metadata?: {
+		deployer?: string;
+	};
+}
+
+export interface DeploymentRegistry {
+	version: string;
+	deployments: {
+		[chainId: string]: DeployedContracts;
+	};
 }
 
 export interface SwapState {
@@ -47,9 +60,13 @@ export interface SwapState {
 	error: string | null;
 }
 
+// Where a USD price came from (see config/prices.ts)
+export type PriceSource = "pool-twap" | "pool-spot" | "coingecko" | "fixture";
+
 export interface TokenPrice {
 	symbol: string;
 	usd: number;
+	source: PriceSource;
 	change24h?: number;
 	marketCap?: number;
 	lastUpdated: number;
@@ -62,6 +79,8 @@ export interface SwapConfirmationData {
 	amountOut: string;
 	amountInUsd?: number;
 	amountOutUsd?: number;
+	amountInUsdSource?: PriceSource;
+	amountOutUsdSource?: PriceSource;
 	exchangeRate: string;
 	priceImpact: number;
 	fee: string;
@@ -70,6 +89,9 @@ export interface SwapConfirmationData {
 	networkCostUsd?: number;
 	slippageTolerance: number;
 	minAmountOut: string;
+	route?: string[]; // Token symbols along the swap path
+	exactOutput?: boolean; // amountOut is exact, amountIn is an estimate
+	maxAmountIn?: string; // Input bound for exact-output swaps
 }
 
 export type TransactionStatus = "idle" | "pending" | "success" | "error";
@@ -106,4 +128,94 @@ export interface DCAConfirmationData {
 	totalIntervals: number;
 	interval: "hour" | "day" | "week";
 	intervalSeconds: number;
-}
\ No newline at end of file
+	slippagePercent: number;
+	maxPrice: string | null;
+	minAmountOutPerInterval: string | null;
+}
+// Indexer API rows (amounts are decimal strings in the token's smallest unit, addresses lowercase)
+export interface IndexedSwap {
+	blockNumber: number;
+	txHash: string;
+	logIndex: number;
+	timestamp: number;
+	user: string;
+	tokenIn: string;
+	tokenOut: string;
+	amountIn: string;
+	amountOut: string;
+	tokenOutSymbol: string;
+}
+
+export interface IndexedDCAOrder {
+	orderId: string;
+	owner: string;
+	sourceToken: string;
+	targetToken: string;
+	amountPerInterval: string;
+	intervalSeconds: string;
+	totalIntervals: string; // Including top-ups
+	status: "active" | "paused" | "cancelled" | "completed";
+	executions: number;
+	skips: number;
+	totalAmountIn: string;
+	totalAmountOut: string;
+	createdAt: number;
+	lastExecutedAt: number | null;
+}
+
+export interface IndexedDCAEvent {
+	blockNumber: number;
+	txHash: string;
+	logIndex: number;
+	timestamp: number;
+	orderId: string;
+	event: "created" | "executed" | "skipped" | "paused" | "resumed" | "topped-up" | "cancelled" | "completed";
+	owner: string | null;
+	intervalNumber: string | null;
+	amountIn: string | null;
+	amountOut: string | null;
+	minAmountOut: string | null;
+	nextExecutionTime: string | null;
+	additionalIntervals: string | null;
+}
+
+export interface IndexedCoinEvent {
+	blockNumber: number;
+	txHash: string;
+	logIndex: number;
+	timestamp: number;
+	event: "registered" | "updated" | "removed";
+	coinIdHash: string;
+	coinId: string | null;
+	name: string | null;
+	symbol: string | null;
+	verified: boolean | null;
+	complianceReason: string | null;
+	sender: string | null;
+}
+
+export interface IndexedPairEvent {
+	blockNumber: number;
+	txHash: string;
+	logIndex: number;
+	timestamp: number;
+	pair: string;
+	event: "swap" | "mint" | "burn" | "sync";
+	sender: string | null;
+	recipient: string | null;
+	amount0In: string | null;
+	amount1In: string | null;
+	amount0Out: string | null;
+	amount1Out: string | null;
+	amount0: string | null;
+	amount1: string | null;
+	reserve0: string | null;
+	reserve1: string | null;
+}
+
+// Token an address has sent or received (needs INDEXER_TRANSFERS on the indexer)
+export interface IndexedHeldToken {
+	token: string;
+	transfers: number;
+	lastBlock: number;
+}
@@ -0,0 +1,124 @@
+import { keccak256, toBytes, verifyMessage } from "viem";
+import type { Address, Hex } from "viem";
+import { canonicalJson } from "../../../config/canonicalJson";
+
+/**
+ * Compliance audit trail helpers
+ *
+ * ShariaCompliance only stores a coin's latest verdict and reason; the history is
+ * rebuilt from its CoinRegistered / CoinUpdated / CoinRemoved events. Exports are
+ * signed by the connected wallet over the hash of the canonical payload so the
+ * Sharia board can check both the signer and that the records weren't edited.
+ */
+
+export type ComplianceStatus = "unregistered" | "compliant" | "non-compliant" | "removed";
+
+// One ShariaCompliance event for a coin
+export interface ComplianceEvent {
+	event: "registered" | "updated" | "removed";
+	blockNumber: number;
+	logIndex: number;
+	txHash: string;
+	timestamp: number;
+	sender: string | null; // Proposer when the change came from an executed proposal
+	proposalId: number | null; // Status proposal the change executed, if any
+	approvers: string[]; // Reviewers who approved that proposal
+	verified: boolean | null; // Registered coins start verified
+	complianceReason: string | null; // Not emitted by CoinRemoved
+}
+
+export interface AuditEntry {
+	action: ComplianceEvent["event"];
+	timestamp: number;
+	blockNumber: number;
+	txHash: string;
+	changedBy: string | null;
+	proposalId: number | null;
+	approvedBy: string[];
+	previousStatus: ComplianceStatus;
+	newStatus: ComplianceStatus;
+	previousReason: string | null;
+	reason: string | null;
+}
+
+export interface AuditTrailPayload {
+	kind: "tayeb-compliance-audit-trail";
+	version: 1;
+	chainId: number;
+	contract: string;
+	coinId: string;
+	generatedAt: string;
+	entries: AuditEntry[];
+}
+
+export interface SignedAuditTrail {
+	payload: AuditTrailPayload;
+	payloadHash: Hex;
+	signer: Address;
+	signature: Hex;
+}
+
+/**
+ * Replay a coin's events (any order) into verdict changes, oldest first
+ */
+export function buildAuditTrail(events: ComplianceEvent[]): AuditEntry[] {
+	const ordered = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+	let status: ComplianceStatus = "unregistered";
+	let reason: string | null = null;
+
+	return ordered.map((event) => {
+		const newStatus: ComplianceStatus =
+			event.event === "removed" ? "removed" : event.verified === false ? "non-compliant" : "compliant";
+		// Removal keeps no reason on-chain; the last one stays the reason on record
+		const newReason = event.event === "removed" ? reason : event.complianceReason;
+
+		const entry: AuditEntry = {
+			action: event.event,
+			timestamp: event.timestamp,
+			blockNumber: event.blockNumber,
+			txHash: event.txHash,
+			changedBy: event.sender,
+			proposalId: event.proposalId,
+			approvedBy: event.approvers,
+			previousStatus: status,
+			newStatus,
+			previousReason: reason,
+			reason: newReason,
+		};
+		status = newStatus;
+		reason = newReason;
+		return entry;
+	});
+}
+
+/**
+ * keccak256 of the canonical payload JSON
+ */
+export function hashAuditPayload(payload: AuditTrailPayload): Hex {
+	return keccak256(toBytes(canonicalJson(payload)));
+}
+
+/**
+ * Message the wallet signs (EIP-191) for an export
+ */
+export function auditSigningMessage(payload: AuditTrailPayload, payloadHash: Hex): string {
+	return [
+		"Tayeb compliance audit trail",
+		`Coin: ${payload.coinId}`,
+		`Chain: ${payload.chainId}`,
+		`Entries: ${payload.entries.length}`,
+		`Payload hash: ${payloadHash}`,
+	].join("\n");
+}
+
+/**
+ * Check an exported audit trail: the payload matches its hash and the signature is the signer's
+ */
+export async function verifySignedAuditTrail(doc: SignedAuditTrail): Promise<boolean> {
+	if (hashAuditPayload(doc.payload) !== doc.payloadHash) return false;
+	return verifyMessage({
+		address: doc.signer,
+		message: auditSigningMessage(doc.payload, doc.payloadHash),
+		signature: doc.signature,
+	});
+}
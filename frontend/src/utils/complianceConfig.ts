@@ -0,0 +1,156 @@
+import { zeroHash } from "viem";
+import type { CoinCategory, CoinScreening } from "./complianceScreening";
+
+/**
+ * Preview of tayebCoins.json changes caused by ShariaCompliance admin actions
+ *
+ * The config is only ever patched by listen-coin-events.ts / sync-coins-from-contract.ts
+ * after an event, so the preview mirrors their rules rather than an ideal entry:
+ * - Coins are matched by symbol (the contract's coinId).
+ * - A new coin is appended with 18 decimals, no address and an "Auto-synced" description
+ *   (those fields need a manual update afterwards).
+ * - Updates copy verified → permissible and the compliance reason.
+ * - Removed coins stay in the file with permissible: false.
+ * - Screening is copied from the contract's ComplianceMetadata (dates as ISO strings).
+ * - metadata.lastUpdated is bumped on every sync.
+ */
+
+// One entry of config/tayebCoins.json
+export interface ConfigCoin {
+	symbol: string;
+	name: string;
+	decimals: number;
+	avgSlippagePercent?: number;
+	complianceReason: string;
+	description: string;
+	addresses: {
+		moonbase: string | null;
+		moonbeam?: string | null;
+	};
+	permissible: boolean;
+	screening?: {
+		category: CoinCategory;
+		methodology: string;
+		reviewer: string;
+		documentHash: string;
+		reviewedAt: string | null;
+		reviewDueAt: string | null;
+	};
+}
+
+export type ComplianceAction =
+	| { type: "register"; coinId: string; name: string; complianceReason: string; verified: boolean }
+	| { type: "update"; coinId: string; verified: boolean; complianceReason: string }
+	| { type: "remove"; coinId: string }
+	| { type: "screening"; coinId: string; screening: CoinScreening };
+
+export interface ConfigDiffLine {
+	kind: "added" | "removed" | "context";
+	text: string;
+}
+
+/**
+ * The config entry for a coin after the sync that follows the action
+ * Returns null for the "before" side of a coin the config doesn't know yet.
+ */
+export function applyComplianceAction(coins: ConfigCoin[], action: ComplianceAction): {
+	before: ConfigCoin | null;
+	after: ConfigCoin;
+} {
+	const before = coins.find((coin) => coin.symbol === action.coinId) ?? null;
+
+	switch (action.type) {
+		case "register":
+			return {
+				before,
+				after: before
+					? { ...before, permissible: action.verified, complianceReason: action.complianceReason }
+					: {
+							symbol: action.coinId,
+							name: action.name,
+							decimals: 18,
+							complianceReason: action.complianceReason,
+							description: "Auto-synced from contract",
+							permissible: action.verified,
+							addresses: { moonbase: null },
+						},
+			};
+		case "update":
+			if (!before) throw new Error(`${action.coinId} is not in tayebCoins.json`);
+			return {
+				before,
+				after: { ...before, permissible: action.verified, complianceReason: action.complianceReason },
+			};
+		case "remove":
+			if (!before) throw new Error(`${action.coinId} is not in tayebCoins.json`);
+			return { before, after: { ...before, permissible: false } };
+		case "screening": {
+			if (!before) throw new Error(`${action.coinId} is not in tayebCoins.json`);
+			const { screening } = action;
+			const toIso = (seconds: number | null) => (seconds === null ? null : new Date(seconds * 1000).toISOString());
+			return {
+				before,
+				after: {
+					...before,
+					screening: {
+						category: screening.category,
+						methodology: screening.methodology,
+						reviewer: screening.reviewer,
+						documentHash: screening.documentHash ?? zeroHash,
+						reviewedAt: toIso(screening.reviewedAt),
+						reviewDueAt: toIso(screening.reviewDueAt),
+					},
+				},
+			};
+		}
+	}
+}
+
+// Every sync rewrites metadata.lastUpdated
+const LAST_UPDATED_LINES: ConfigDiffLine[] = [
+	{ kind: "context", text: "metadata:" },
+	{ kind: "added", text: '  "lastUpdated": "<sync time>"' },
+];
+
+/**
+ * Line diff of the coin's JSON entry, formatted the way the sync scripts write it
+ */
+export function previewConfigDiff(coins: ConfigCoin[], action: ComplianceAction): ConfigDiffLine[] {
+	const { before, after } = applyComplianceAction(coins, action);
+	const afterLines = JSON.stringify(after, null, 2).split("\n");
+
+	if (!before) {
+		return [
+			...afterLines.map((text): ConfigDiffLine => ({ kind: "added", text })),
+			...LAST_UPDATED_LINES,
+		];
+	}
+
+	// Longest common subsequence of the two entries' lines (a screening block adds lines)
+	const beforeLines = JSON.stringify(before, null, 2).split("\n");
+	const common: number[][] = Array.from({ length: beforeLines.length + 1 }, () =>
+		new Array<number>(afterLines.length + 1).fill(0)
+	);
+	for (let i = beforeLines.length - 1; i >= 0; i--) {
+		for (let j = afterLines.length - 1; j >= 0; j--) {
+			common[i][j] =
+				beforeLines[i] === afterLines[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+		}
+	}
+
+	const lines: ConfigDiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < beforeLines.length || j < afterLines.length) {
+		if (i < beforeLines.length && j < afterLines.length && beforeLines[i] === afterLines[j]) {
+			lines.push({ kind: "context", text: beforeLines[i] });
+			i++;
+			j++;
+		} else if (i < beforeLines.length && (j === afterLines.length || common[i + 1][j] >= common[i][j + 1])) {
+			lines.push({ kind: "removed", text: beforeLines[i++] });
+		} else {
+			lines.push({ kind: "added", text: afterLines[j++] });
+		}
+	}
+	return [...lines, ...LAST_UPDATED_LINES];
+}
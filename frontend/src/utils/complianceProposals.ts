@@ -0,0 +1,89 @@
+import type { Address } from "viem";
+
+/**
+ * Compliance approval workflow helpers
+ *
+ * Once ShariaCompliance has an approval threshold, verdict changes are proposed by a
+ * compliance officer with evidence, approved by N of the M registered reviewers, and
+ * executable by anyone after the timelock that starts with the last required approval.
+ * Only approvals from accounts that are still reviewers count when a proposal executes.
+ * Changes to the reviewer set, threshold and timelock go through the same approvals as
+ * governance proposals.
+ */
+
+// StatusProposal struct as returned by viem
+export type ComplianceProposal = {
+	id: bigint;
+	coinId: string;
+	verified: boolean;
+	complianceReason: string;
+	evidence: string;
+	proposer: Address;
+	createdAt: bigint;
+	executableAt: bigint;
+	approvals: number;
+	executed: boolean;
+	cancelled: boolean;
+};
+
+// GovernanceAction enum in ShariaCompliance
+export const GOVERNANCE_ACTIONS = ["SetReviewer", "SetApprovalThreshold", "SetTimelockDuration"] as const;
+export type GovernanceAction = (typeof GOVERNANCE_ACTIONS)[number];
+
+// GovernanceProposal struct as returned by viem
+export type GovernanceProposal = {
+	id: bigint;
+	action: number;
+	account: Address;
+	value: bigint;
+	proposer: Address;
+	createdAt: bigint;
+	executableAt: bigint;
+	approvals: number;
+	executed: boolean;
+	cancelled: boolean;
+};
+
+export type ProposalState = "awaiting-approvals" | "timelocked" | "ready" | "executed" | "cancelled";
+
+/**
+ * Where a proposal stands at the given time (unix seconds)
+ */
+export function getProposalState(
+	proposal: Pick<ComplianceProposal, "executed" | "cancelled" | "executableAt">,
+	now = Date.now() / 1000
+): ProposalState {
+	if (proposal.executed) return "executed";
+	if (proposal.cancelled) return "cancelled";
+	if (proposal.executableAt === 0n) return "awaiting-approvals";
+	return now < Number(proposal.executableAt) ? "timelocked" : "ready";
+}
+
+/**
+ * One-line description of a governance change ("Add reviewer 0x12…", "Threshold → 3")
+ */
+export function describeGovernanceChange(proposal: GovernanceProposal): string {
+	switch (GOVERNANCE_ACTIONS[proposal.action]) {
+		case "SetReviewer":
+			return `${proposal.value === 1n ? "Add" : "Remove"} reviewer ${proposal.account}`;
+		case "SetApprovalThreshold":
+			return `Approval threshold → ${proposal.value}`;
+		case "SetTimelockDuration":
+			return `Timelock → ${formatDuration(Number(proposal.value))}`;
+		default:
+			return `Unknown action ${proposal.action}`;
+	}
+}
+
+/**
+ * Compact duration for timelocks ("2d 4h", "45m", "30s")
+ */
+export function formatDuration(seconds: number): string {
+	if (seconds <= 0) return "0s";
+	const days = Math.floor(seconds / 86400);
+	const hours = Math.floor((seconds % 86400) / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+	if (hours > 0) return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+	return minutes > 0 ? `${minutes}m` : `${seconds}s`;
+}
@@ -0,0 +1,112 @@
+import { formatUnits, keccak256, toBytes } from "viem";
+import type { Hex } from "viem";
+import { canonicalJson } from "../../../config/canonicalJson";
+
+/**
+ * Wallet compliance report
+ *
+ * A point-in-time record of a wallet's registered holdings with their on-chain
+ * ShariaCoin verdicts, all read at one block. The payload is hashed like audit
+ * trail exports (keccak256 of the canonical JSON), so
+ * scripts/compliance/verify-compliance-report.ts can check later that the file
+ * wasn't edited and that it matches the chain's state at that block.
+ */
+
+export interface ReportHolding {
+	coinId: string;
+	symbol: string;
+	token: string;
+	balance: string; // Raw units, decimal string
+	decimals: number;
+	verified: boolean;
+	complianceReason: string;
+}
+
+export interface ComplianceReportPayload {
+	kind: "tayeb-wallet-compliance-report";
+	version: 1;
+	chainId: number;
+	contract: string; // ShariaCompliance
+	wallet: string;
+	blockNumber: number;
+	blockTimestamp: number;
+	nativeBalance: string; // Raw DEV, reported separately from the WETH coin
+	holdings: ReportHolding[]; // Every registered coin with a non-zero balance at the block
+}
+
+export interface ComplianceReport {
+	payload: ComplianceReportPayload;
+	payloadHash: Hex;
+}
+
+/**
+ * keccak256 of the canonical payload JSON
+ */
+export function hashComplianceReport(payload: ComplianceReportPayload): Hex {
+	return keccak256(toBytes(canonicalJson(payload)));
+}
+
+/**
+ * Report as pretty-printed JSON
+ */
+export function complianceReportToJson(report: ComplianceReport): string {
+	return JSON.stringify(report, null, 2) + "\n";
+}
+
+const escapeHtml = (text: string) =>
+	text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * Report as a standalone HTML document, laid out for printing (the browser saves it as PDF)
+ */
+export function complianceReportToHtml(report: ComplianceReport): string {
+	const { payload, payloadHash } = report;
+	const rows = payload.holdings
+		.map(
+			(holding) => `<tr>
+<td>${escapeHtml(holding.symbol)}<br><span class="mono">${escapeHtml(holding.token)}</span></td>
+<td class="num">${formatUnits(BigInt(holding.balance), holding.decimals)}</td>
+<td class="${holding.verified ? "ok" : "bad"}">${holding.verified ? "Compliant" : "Non-compliant"}</td>
+<td>${escapeHtml(holding.complianceReason) || "—"}</td>
+</tr>`
+		)
+		.join("\n");
+
+	return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Sharia compliance report ${escapeHtml(payload.wallet)} @ ${payload.blockNumber}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+h1 { font-size: 1.4rem; margin-bottom: 1rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.85rem; margin-bottom: 1.5rem; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.4rem; text-align: left; vertical-align: top; }
+.num { text-align: right; }
+.mono { font-family: ui-monospace, monospace; font-size: 0.75rem; color: #555; word-break: break-all; }
+.ok { color: #166534; }
+.bad { color: #b91c1c; }
+.meta td:first-child { color: #555; width: 12rem; }
+</style>
+</head>
+<body>
+<h1>Sharia compliance report</h1>
+<table class="meta">
+<tr><td>Wallet</td><td class="mono">${escapeHtml(payload.wallet)}</td></tr>
+<tr><td>Chain</td><td>${payload.chainId}</td></tr>
+<tr><td>Block</td><td>${payload.blockNumber} (${new Date(payload.blockTimestamp * 1000).toISOString()})</td></tr>
+<tr><td>ShariaCompliance</td><td class="mono">${escapeHtml(payload.contract)}</td></tr>
+<tr><td>Native DEV</td><td>${formatUnits(BigInt(payload.nativeBalance), 18)}</td></tr>
+<tr><td>Report hash</td><td class="mono">${payloadHash}</td></tr>
+</table>
+<table>
+<thead><tr><th>Token</th><th class="num">Balance</th><th>Verdict</th><th>Reason</th></tr></thead>
+<tbody>
+${rows || '<tr><td colspan="4">No registered coins held at this block</td></tr>'}
+</tbody>
+</table>
+<p class="mono">Verify with: REPORT_FILE=&lt;report.json&gt; npx hardhat run scripts/compliance/verify-compliance-report.ts --network &lt;network&gt;</p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,110 @@
+import { zeroHash } from "viem";
+import type { Hex } from "viem";
+
+/**
+ * Structured compliance screening helpers
+ *
+ * ShariaCompliance keeps a ComplianceMetadata record per coin next to its verdict:
+ * category, screening methodology, reviewing scholar or board, the hash of the
+ * fatwa / screening report and the review and re-review dates. Coins whose
+ * re-review date has passed are flagged across the app.
+ */
+
+// Same order as ShariaCompliance.CoinCategory
+export const COIN_CATEGORIES = [
+	"unspecified",
+	"currency",
+	"utility",
+	"stablecoin",
+	"governance",
+	"asset-backed",
+	"other",
+] as const;
+
+export type CoinCategory = (typeof COIN_CATEGORIES)[number];
+
+export const CATEGORY_LABELS: Record<CoinCategory, string> = {
+	unspecified: "Unspecified",
+	currency: "Currency",
+	utility: "Utility",
+	stablecoin: "Stablecoin",
+	governance: "Governance",
+	"asset-backed": "Asset-backed",
+	other: "Other",
+};
+
+export interface CoinScreening {
+	category: CoinCategory;
+	methodology: string;
+	reviewer: string;
+	documentHash: Hex | null;
+	reviewedAt: number | null; // Unix seconds
+	reviewDueAt: number | null; // Unix seconds
+}
+
+// ComplianceMetadata struct as returned by viem (a type alias so it also satisfies write args)
+export type ComplianceMetadataStruct = {
+	category: number;
+	methodology: string;
+	reviewer: string;
+	documentHash: Hex;
+	reviewedAt: bigint;
+	reviewDueAt: bigint;
+};
+
+export type ReviewStatus = "unreviewed" | "current" | "due-soon" | "overdue";
+
+// Coins due for re-review within this window get a warning before they go overdue
+export const REVIEW_DUE_SOON_DAYS = 30;
+
+/**
+ * Convert a contract ComplianceMetadata struct, null when no screening was recorded
+ */
+export function parseScreening(metadata: ComplianceMetadataStruct): CoinScreening | null {
+	const isEmpty =
+		metadata.category === 0 &&
+		metadata.methodology === "" &&
+		metadata.reviewer === "" &&
+		metadata.documentHash === zeroHash &&
+		metadata.reviewedAt === 0n &&
+		metadata.reviewDueAt === 0n;
+	if (isEmpty) return null;
+
+	return {
+		category: COIN_CATEGORIES[metadata.category] ?? "other",
+		methodology: metadata.methodology,
+		reviewer: metadata.reviewer,
+		documentHash: metadata.documentHash === zeroHash ? null : metadata.documentHash,
+		reviewedAt: metadata.reviewedAt === 0n ? null : Number(metadata.reviewedAt),
+		reviewDueAt: metadata.reviewDueAt === 0n ? null : Number(metadata.reviewDueAt),
+	};
+}
+
+/**
+ * Convert a screening to the struct setComplianceMetadata() expects
+ */
+export function toComplianceMetadata(screening: CoinScreening): ComplianceMetadataStruct {
+	return {
+		category: COIN_CATEGORIES.indexOf(screening.category),
+		methodology: screening.methodology,
+		reviewer: screening.reviewer,
+		documentHash: screening.documentHash ?? zeroHash,
+		reviewedAt: BigInt(screening.reviewedAt ?? 0),
+		reviewDueAt: BigInt(screening.reviewDueAt ?? 0),
+	};
+}
+
+/**
+ * Where a coin stands against its re-review due date
+ */
+export function getReviewStatus(screening: CoinScreening | null | undefined, now = Date.now() / 1000): ReviewStatus {
+	if (!screening?.reviewedAt) return "unreviewed";
+	if (!screening.reviewDueAt) return "current";
+	if (screening.reviewDueAt < now) return "overdue";
+	return screening.reviewDueAt - now <= REVIEW_DUE_SOON_DAYS * 86400 ? "due-soon" : "current";
+}
+
+export const formatReviewDate = (seconds: number | null): string =>
+	seconds === null
+		? "—"
+		: new Date(seconds * 1000).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
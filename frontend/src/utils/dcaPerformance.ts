@@ -0,0 +1,72 @@
+import { impliedPrice } from "./limitOrders";
+
+/**
+ * DCA order performance helpers
+ *
+ * Prices follow the limit order convention: source tokens per 1 target token,
+ * so a lower average cost is better.
+ */
+
+// One DCAOrderExecuted event
+export interface DCAFill {
+	orderId: bigint;
+	intervalNumber: bigint;
+	amountIn: bigint;
+	amountOut: bigint;
+	timestamp: number;
+	txHash: string;
+}
+
+export interface DCAPerformance {
+	totalIn: bigint;
+	totalOut: bigint;
+	averageCost: number | null; // Total spent / total received
+	bestPrice: number | null;
+	worstPrice: number | null;
+}
+
+/**
+ * Totals, average cost basis and price range across an order's fills
+ */
+export function summarizeFills(fills: DCAFill[], sourceDecimals: number, targetDecimals: number): DCAPerformance {
+	const totalIn = fills.reduce((sum, fill) => sum + fill.amountIn, 0n);
+	const totalOut = fills.reduce((sum, fill) => sum + fill.amountOut, 0n);
+	const prices = fills
+		.map((fill) => impliedPrice(fill.amountIn, fill.amountOut, sourceDecimals, targetDecimals))
+		.filter((price): price is number => price !== null);
+
+	return {
+		totalIn,
+		totalOut,
+		averageCost: impliedPrice(totalIn, totalOut, sourceDecimals, targetDecimals),
+		bestPrice: prices.length > 0 ? Math.min(...prices) : null,
+		worstPrice: prices.length > 0 ? Math.max(...prices) : null,
+	};
+}
+
+/**
+ * How much more (positive) or less (negative) target the DCA fills received than
+ * a single buy of the same total at order creation, in percent
+ */
+export function compareWithLumpSum(totalOut: bigint, lumpSumOut: bigint): number | null {
+	if (lumpSumOut === 0n) return null;
+	return Number(((totalOut - lumpSumOut) * 10000n) / lumpSumOut) / 100;
+}
+
+/**
+ * Upcoming execution times for the intervals still to run
+ * Assumes the keeper executes each interval on schedule, as the contract then advances
+ * nextExecutionTime by exactly one interval.
+ */
+export function projectSchedule(
+	order: { nextExecutionTime: bigint; interval: bigint; intervalsCompleted: bigint; totalIntervals: bigint },
+	limit: number = 10
+): Array<{ intervalNumber: bigint; timestamp: number }> {
+	const remaining = order.totalIntervals - order.intervalsCompleted;
+	const count = remaining < BigInt(limit) ? Number(remaining) : limit;
+
+	return Array.from({ length: Math.max(count, 0) }, (_, i) => ({
+		intervalNumber: order.intervalsCompleted + BigInt(i + 1),
+		timestamp: Number(order.nextExecutionTime + order.interval * BigInt(i)),
+	}));
+}
@@ -0,0 +1,51 @@
+import { formatUnits, parseUnits } from "viem";
+
+/**
+ * Limit order price helpers
+ *
+ * ShariaDCA stores a limit order as (amountIn, minAmountOut). The limit price
+ * shown to users is source tokens per 1 target token: amountIn / minAmountOut.
+ */
+
+/**
+ * Minimum target output for amountIn at a max price (source per 1 target)
+ * Returns null when the price is not a positive decimal
+ */
+export function minAmountOutForPrice(
+	amountIn: bigint,
+	price: string,
+	sourceDecimals: number,
+	targetDecimals: number
+): bigint | null {
+	try {
+		const priceWei = parseUnits(price, sourceDecimals);
+		if (priceWei <= 0n) return null;
+		return (amountIn * 10n ** BigInt(targetDecimals)) / priceWei;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Price (source per 1 target) implied by an input and output amount, or null if amountOut is 0
+ */
+export function impliedPrice(
+	amountIn: bigint,
+	amountOut: bigint,
+	sourceDecimals: number,
+	targetDecimals: number
+): number | null {
+	if (amountOut === 0n) return null;
+	return (
+		parseFloat(formatUnits(amountIn, sourceDecimals)) / parseFloat(formatUnits(amountOut, targetDecimals))
+	);
+}
+
+/**
+ * Format a price with precision suited to its magnitude
+ */
+export function formatPrice(price: number | null): string {
+	if (price === null || !isFinite(price)) return "—";
+	if (price >= 1) return price.toLocaleString(undefined, { maximumFractionDigits: 4 });
+	return price.toPrecision(4);
+}
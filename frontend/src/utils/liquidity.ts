@@ -0,0 +1,85 @@
+/**
+ * Liquidity math for SimplePair pools
+ *
+ * Pure functions mirroring SimpleRouter/SimplePair, so the pools page can
+ * preview deposits, withdrawals and pool shares from reserves it already read.
+ */
+
+// Locked forever on the first deposit (SimplePair.MINIMUM_LIQUIDITY)
+export const MINIMUM_LIQUIDITY = 1000n;
+
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * Amount of the other token matching amountA at the current ratio (SimpleRouter._quote)
+ * Returns 0 for an empty pool, where the first depositor sets the price
+ */
+export function quoteLiquidityAmount(amountA: bigint, reserveA: bigint, reserveB: bigint): bigint {
+	if (amountA <= 0n || reserveA === 0n || reserveB === 0n) return 0n;
+	return (amountA * reserveB) / reserveA;
+}
+
+/**
+ * LP tokens minted for a deposit (SimplePair.mint)
+ */
+export function estimateLiquidityMinted(
+	amount0: bigint,
+	amount1: bigint,
+	reserve0: bigint,
+	reserve1: bigint,
+	totalSupply: bigint
+): bigint {
+	if (amount0 <= 0n || amount1 <= 0n) return 0n;
+
+	if (totalSupply === 0n) {
+		const liquidity = sqrt(amount0 * amount1);
+		return liquidity > MINIMUM_LIQUIDITY ? liquidity - MINIMUM_LIQUIDITY : 0n;
+	}
+	if (reserve0 === 0n || reserve1 === 0n) return 0n;
+
+	const liquidity0 = (amount0 * totalSupply) / reserve0;
+	const liquidity1 = (amount1 * totalSupply) / reserve1;
+	return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+}
+
+/**
+ * Token amounts returned for burning liquidity (SimplePair.burn)
+ */
+export function underlyingAmounts(
+	liquidity: bigint,
+	totalSupply: bigint,
+	reserve0: bigint,
+	reserve1: bigint
+): [bigint, bigint] {
+	if (liquidity <= 0n || totalSupply === 0n) return [0n, 0n];
+	return [(liquidity * reserve0) / totalSupply, (liquidity * reserve1) / totalSupply];
+}
+
+/**
+ * Share of the pool in percent
+ */
+export function poolSharePercent(liquidity: bigint, totalSupply: bigint): number {
+	if (liquidity <= 0n || totalSupply === 0n) return 0;
+	return Number((liquidity * 1_000_000n) / totalSupply) / 10_000;
+}
+
+/**
+ * Minimum amount after slippage tolerance (basis points)
+ */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+	return (amount * (BPS_DENOMINATOR - BigInt(slippageBps))) / BPS_DENOMINATOR;
+}
+
+// Babylonian square root (same as SimplePair.sqrt)
+function sqrt(y: bigint): bigint {
+	if (y > 3n) {
+		let z = y;
+		let x = y / 2n + 1n;
+		while (x < z) {
+			z = x;
+			x = (y / x + x) / 2n;
+		}
+		return z;
+	}
+	return y !== 0n ? 1n : 0n;
+}
@@ -0,0 +1,259 @@
+import { formatUnits } from "viem";
+
+/**
+ * Portfolio accounting
+ *
+ * Positions are rebuilt from the user's trade history (ShariaSwap swaps and DCA
+ * fills) with average cost accounting in USD:
+ * - A trade against USDC is valued at its USDC leg.
+ * - Other trades are valued at the input's average cost, so switching tokens
+ *   carries the cost basis over instead of realising P&L. Inputs the history
+ *   can't explain (faucet DEV, transfers in) are valued at the current app price
+ *   and the position is flagged as estimated.
+ * - Selling realises P&L against the average cost of the units sold.
+ * Only holdings explained by the history carry a cost basis; the rest of the
+ * balance is valued without P&L.
+ */
+
+export interface PortfolioTrade {
+	timestamp: number;
+	kind: "swap" | "dca";
+	tokenIn: string; // Lowercase, native DEV as WETH
+	tokenOut: string;
+	amountIn: bigint;
+	amountOut: bigint;
+	reference: string; // Transaction hash or DCA order
+}
+
+export interface PortfolioAsset {
+	address: string; // Lowercase
+	symbol: string;
+	decimals: number;
+	balance: bigint;
+	price: number | null; // USD from the app's price providers
+}
+
+export interface Position {
+	address: string;
+	symbol: string;
+	balance: number;
+	price: number | null;
+	value: number | null;
+	heldWithCost: number; // Part of the balance with a known cost basis
+	costBasis: number;
+	averageCost: number | null;
+	realisedPnl: number;
+	unrealisedPnl: number | null;
+	estimated: boolean; // Some cost was valued at current prices
+}
+
+export interface PortfolioTotals {
+	value: number;
+	costBasis: number;
+	realisedPnl: number;
+	unrealisedPnl: number;
+}
+
+interface Lot {
+	quantity: number;
+	cost: number;
+	realised: number;
+	estimated: boolean;
+}
+
+/**
+ * Rebuild positions from trades (any order) and current balances and prices
+ */
+export function buildPositions(
+	trades: PortfolioTrade[],
+	assets: PortfolioAsset[],
+	usdcAddress: string
+): Position[] {
+	const assetsByAddress = new Map(assets.map((asset) => [asset.address, asset]));
+	const lots = new Map<string, Lot>();
+	const lotOf = (address: string) => {
+		let lot = lots.get(address);
+		if (!lot) {
+			lot = { quantity: 0, cost: 0, realised: 0, estimated: false };
+			lots.set(address, lot);
+		}
+		return lot;
+	};
+	const units = (address: string, amount: bigint) =>
+		parseFloat(formatUnits(amount, assetsByAddress.get(address)?.decimals ?? 18));
+	const usdc = usdcAddress.toLowerCase();
+
+	for (const trade of [...trades].sort((a, b) => a.timestamp - b.timestamp)) {
+		const input = lotOf(trade.tokenIn);
+		const output = lotOf(trade.tokenOut);
+		const amountIn = units(trade.tokenIn, trade.amountIn);
+		const amountOut = units(trade.tokenOut, trade.amountOut);
+		if (amountIn <= 0) continue;
+
+		const averageCost = input.quantity > 0 ? input.cost / input.quantity : 0;
+		const explained = Math.min(input.quantity, amountIn);
+		const unexplained = amountIn - explained;
+
+		// USD value of the trade
+		let value: number | null;
+		let estimated = false;
+		if (trade.tokenIn === usdc) {
+			value = amountIn;
+		} else if (trade.tokenOut === usdc) {
+			value = amountOut;
+		} else {
+			const inputPrice = assetsByAddress.get(trade.tokenIn)?.price ?? null;
+			const outputPrice = assetsByAddress.get(trade.tokenOut)?.price ?? null;
+			if (unexplained === 0) {
+				value = explained * averageCost;
+			} else if (inputPrice !== null) {
+				value = explained * averageCost + unexplained * inputPrice;
+				estimated = true;
+			} else if (outputPrice !== null) {
+				value = amountOut * outputPrice;
+				estimated = true;
+			} else {
+				value = null;
+			}
+		}
+
+		// Dispose of the explained part of the input
+		if (explained > 0) {
+			const disposedCost = explained * averageCost;
+			if (value !== null) {
+				input.realised += value * (explained / amountIn) - disposedCost;
+			}
+			input.cost -= disposedCost;
+			input.quantity -= explained;
+		}
+
+		// Acquire the output (without a cost basis if the trade couldn't be valued)
+		if (value !== null) {
+			output.quantity += amountOut;
+			output.cost += value;
+			output.estimated ||= estimated || input.estimated;
+		}
+	}
+
+	const addresses = new Set([...assets.map((asset) => asset.address), ...lots.keys()]);
+	const positions: Position[] = [];
+
+	for (const address of addresses) {
+		const asset = assetsByAddress.get(address);
+		const lot = lots.get(address) ?? { quantity: 0, cost: 0, realised: 0, estimated: false };
+		const balance = asset ? parseFloat(formatUnits(asset.balance, asset.decimals)) : 0;
+		if (balance === 0 && lot.quantity === 0 && lot.realised === 0) continue;
+
+		// Transfers out can leave less than the history explains
+		const averageCost = lot.quantity > 0 ? lot.cost / lot.quantity : null;
+		const heldWithCost = Math.min(balance, lot.quantity);
+		const costBasis = averageCost !== null ? heldWithCost * averageCost : 0;
+		const price = asset?.price ?? null;
+
+		positions.push({
+			address,
+			symbol: asset?.symbol ?? "?",
+			balance,
+			price,
+			value: price !== null ? balance * price : null,
+			heldWithCost,
+			costBasis,
+			averageCost,
+			realisedPnl: lot.realised,
+			unrealisedPnl: price !== null && heldWithCost > 0 ? heldWithCost * price - costBasis : null,
+			estimated: lot.estimated,
+		});
+	}
+
+	// Largest holdings first
+	return positions.sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
+}
+
+/**
+ * Portfolio-wide totals (unpriced positions count as zero value)
+ */
+export function sumPositions(positions: Position[]): PortfolioTotals {
+	return positions.reduce(
+		(totals, position) => ({
+			value: totals.value + (position.value ?? 0),
+			costBasis: totals.costBasis + position.costBasis,
+			realisedPnl: totals.realisedPnl + position.realisedPnl,
+			unrealisedPnl: totals.unrealisedPnl + (position.unrealisedPnl ?? 0),
+		}),
+		{ value: 0, costBasis: 0, realisedPnl: 0, unrealisedPnl: 0 }
+	);
+}
+
+// Quote a CSV field when it contains a separator, quote or newline
+function csvField(value: string | number | null): string {
+	const text = value === null ? "" : String(value);
+	return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render rows as CSV with a header line
+ */
+export function toCsv(header: string[], rows: Array<Array<string | number | null>>): string {
+	return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Positions as CSV (USD values rounded to cents)
+ */
+export function positionsToCsv(positions: Position[]): string {
+	const usd = (value: number | null) => (value === null ? null : value.toFixed(2));
+	return toCsv(
+		[
+			"symbol",
+			"address",
+			"balance",
+			"price_usd",
+			"value_usd",
+			"average_cost_usd",
+			"cost_basis_usd",
+			"unrealised_pnl_usd",
+			"realised_pnl_usd",
+			"estimated",
+		],
+		positions.map((position) => [
+			position.symbol,
+			position.address,
+			position.balance,
+			position.price,
+			usd(position.value),
+			position.averageCost,
+			usd(position.costBasis),
+			usd(position.unrealisedPnl),
+			usd(position.realisedPnl),
+			position.estimated ? "yes" : "no",
+		])
+	);
+}
+
+/**
+ * Trades as CSV, oldest first, with amounts in token units
+ */
+export function tradesToCsv(
+	trades: PortfolioTrade[],
+	describe: (address: string) => { symbol: string; decimals: number }
+): string {
+	return toCsv(
+		["timestamp", "date", "type", "token_in", "amount_in", "token_out", "amount_out", "reference"],
+		[...trades]
+			.sort((a, b) => a.timestamp - b.timestamp)
+			.map((trade) => {
+				const tokenIn = describe(trade.tokenIn);
+				const tokenOut = describe(trade.tokenOut);
+				return [
+					trade.timestamp,
+					new Date(trade.timestamp * 1000).toISOString(),
+					trade.kind,
+					tokenIn.symbol,
+					formatUnits(trade.amountIn, tokenIn.decimals),
+					tokenOut.symbol,
+					formatUnits(trade.amountOut, tokenOut.decimals),
+					trade.reference,
+				];
+			})
+	);
+}
@@ -0,0 +1,276 @@
+import { formatUnits } from "viem";
+import type { Address, PublicClient } from "viem";
+import { SIMPLE_PAIR_ABI } from "../config/abis";
+import { getTokenDecimalsBySymbol } from "../config/contracts";
+import {
+	COINGECKO_PRICE_TTL_MS,
+	FIXTURE_PRICES,
+	POOL_PRICE_TTL_MS,
+	SYMBOL_TO_COINGECKO_ID,
+	TWAP_WINDOW_BLOCKS,
+} from "../config/prices";
+import type { PriceProviderName } from "../config/prices";
+import type { TokenPrice } from "../types";
+
+/**
+ * USD price providers
+ *
+ * Each provider prices the symbols it can and leaves the rest out of its result,
+ * so useTokenPrices can ask the next provider in PRICE_PROVIDER_ORDER for them.
+ * Every returned price records its source for display.
+ */
+export interface PriceProvider {
+	name: PriceProviderName;
+	ttlMs: number; // How long returned prices may be cached
+	getPrices: (symbols: string[]) => Promise<Record<string, TokenPrice>>;
+}
+
+// A token priced through its USDC pair
+interface PoolMarket {
+	symbol: string;
+	pair: Address;
+	decimals: number;
+	tokenIsToken0: boolean; // SimpleFactory sorts pair tokens by address
+}
+
+// A price holding from a timestamp until the next point
+interface PricePoint {
+	timestamp: number;
+	price: number;
+}
+
+/**
+ * Time-weighted average of prices held until endTimestamp, or null if no time elapsed
+ */
+function timeWeightedAverage(points: PricePoint[], endTimestamp: number): number | null {
+	let weighted = 0;
+	let duration = 0;
+	points.forEach((point, i) => {
+		const until = i + 1 < points.length ? points[i + 1].timestamp : endTimestamp;
+		const elapsed = Math.max(until - point.timestamp, 0);
+		weighted += point.price * elapsed;
+		duration += elapsed;
+	});
+	return duration > 0 ? weighted / duration : null;
+}
+
+/**
+ * On-chain provider: values each token through its USDC pair reserves
+ *
+ * Prices are averaged over the last TWAP_WINDOW_BLOCKS using the pairs' Sync
+ * events. Falls back to the spot price (labelled "pool-spot") when the logs or
+ * block timestamps can't be read.
+ */
+export function createPoolPriceProvider({
+	publicClient,
+	tokens,
+	pairs,
+	windowBlocks = TWAP_WINDOW_BLOCKS,
+}: {
+	publicClient: PublicClient;
+	tokens: Record<string, Address>;
+	pairs: Record<string, Address>;
+	windowBlocks?: bigint;
+}): PriceProvider {
+	const usdcDecimals = getTokenDecimalsBySymbol("USDC");
+
+	const priceFromReserves = (market: PoolMarket, reserve0: bigint, reserve1: bigint): number | null => {
+		const [tokenReserve, usdcReserve] = market.tokenIsToken0 ? [reserve0, reserve1] : [reserve1, reserve0];
+		if (tokenReserve === 0n || usdcReserve === 0n) return null;
+		return (
+			parseFloat(formatUnits(usdcReserve, usdcDecimals)) / parseFloat(formatUnits(tokenReserve, market.decimals))
+		);
+	};
+
+	const readReserves = async (pair: Address, blockNumber: bigint) => {
+		const [reserve0, reserve1] = await publicClient.readContract({
+			address: pair,
+			abi: SIMPLE_PAIR_ABI,
+			functionName: "getReserves",
+			blockNumber,
+		});
+		return [reserve0, reserve1] as const;
+	};
+
+	// TWAP per pair over [window start, latest block] (throws if logs can't be read)
+	const readTwaps = async (
+		markets: PoolMarket[],
+		latestBlock: { number: bigint; timestamp: bigint },
+		spotPrices: Array<number | null>
+	) => {
+		const fromBlock = latestBlock.number > windowBlocks ? latestBlock.number - windowBlocks : 0n;
+		const [startBlock, syncLogs, startReserves] = await Promise.all([
+			publicClient.getBlock({ blockNumber: fromBlock }),
+			publicClient.getContractEvents({
+				address: markets.map((market) => market.pair),
+				abi: SIMPLE_PAIR_ABI,
+				eventName: "Sync",
+				fromBlock: fromBlock + 1n,
+				toBlock: latestBlock.number,
+			}),
+			// Historical reads need an archive node: without one the window starts at the first Sync
+			Promise.all(markets.map((market) => readReserves(market.pair, fromBlock).catch(() => null))),
+		]);
+
+		// Timestamps of the blocks that moved a price
+		const blockNumbers = [...new Set(syncLogs.map((log) => log.blockNumber))];
+		const blocks = await Promise.all(
+			blockNumbers.map((blockNumber) => publicClient.getBlock({ blockNumber }))
+		);
+		const timestamps = new Map(blocks.map((block) => [block.number, Number(block.timestamp)]));
+
+		return markets.map((market, i): number | null => {
+			const points: PricePoint[] = [];
+			const start = startReserves[i];
+			const startPrice = start ? priceFromReserves(market, start[0], start[1]) : null;
+			if (startPrice !== null) points.push({ timestamp: Number(startBlock.timestamp), price: startPrice });
+
+			for (const log of syncLogs) {
+				if (log.address.toLowerCase() !== market.pair.toLowerCase()) continue;
+				const price = priceFromReserves(market, log.args.reserve0 ?? 0n, log.args.reserve1 ?? 0n);
+				const timestamp = timestamps.get(log.blockNumber);
+				if (price !== null && timestamp !== undefined) points.push({ timestamp, price });
+			}
+
+			// No Sync in the window: the reserves (and so the price) held throughout
+			if (points.length === 0) return spotPrices[i];
+			return timeWeightedAverage(points, Number(latestBlock.timestamp));
+		});
+	};
+
+	return {
+		name: "pool",
+		ttlMs: POOL_PRICE_TTL_MS,
+		getPrices: async (symbols) => {
+			const usdc = tokens.USDC;
+			if (!usdc) return {};
+
+			const now = Date.now();
+			const result: Record<string, TokenPrice> = {};
+			const markets: PoolMarket[] = [];
+
+			for (const symbol of symbols) {
+				const symbolUpper = symbol.toUpperCase();
+				if (symbolUpper === "USDC") {
+					// USDC is the unit of account for every pool price
+					result.USDC = { symbol: "USDC", usd: 1, source: "pool-spot", lastUpdated: now };
+					continue;
+				}
+				const token = tokens[symbolUpper];
+				const pair = pairs[`${symbolUpper}_USDC`] ?? pairs[`USDC_${symbolUpper}`];
+				if (!token || !pair) continue;
+				markets.push({
+					symbol: symbolUpper,
+					pair,
+					decimals: getTokenDecimalsBySymbol(symbolUpper),
+					tokenIsToken0: token.toLowerCase() < usdc.toLowerCase(),
+				});
+			}
+
+			if (markets.length === 0) return result;
+
+			// Spot prices at the latest block
+			const latestBlock = await publicClient.getBlock();
+			const reserves = await Promise.all(markets.map((market) => readReserves(market.pair, latestBlock.number)));
+			const spotPrices = markets.map((market, i) => priceFromReserves(market, reserves[i][0], reserves[i][1]));
+
+			let twaps: Array<number | null> = markets.map(() => null);
+			try {
+				twaps = await readTwaps(markets, latestBlock, spotPrices);
+			} catch (err) {
+				console.warn("⚠️ Could not read Sync events, using spot pool prices:", err);
+			}
+
+			markets.forEach((market, i) => {
+				const spot = spotPrices[i];
+				if (spot === null) return; // Empty pool: let the next provider price it
+				const twap = twaps[i];
+				result[market.symbol] = {
+					symbol: market.symbol,
+					usd: twap ?? spot,
+					source: twap !== null ? "pool-twap" : "pool-spot",
+					lastUpdated: now,
+				};
+			});
+
+			return result;
+		},
+	};
+}
+
+/**
+ * CoinGecko provider: market prices, 24h change and market cap
+ */
+export function createCoinGeckoPriceProvider(): PriceProvider {
+	return {
+		name: "coingecko",
+		ttlMs: COINGECKO_PRICE_TTL_MS,
+		getPrices: async (symbols) => {
+			// Map symbols to CoinGecko IDs and group them
+			const coingeckoIds: string[] = [];
+			const symbolToIdMap: Record<string, string> = {};
+
+			for (const symbol of symbols) {
+				const symbolUpper = symbol.toUpperCase();
+				const coingeckoId = SYMBOL_TO_COINGECKO_ID[symbolUpper];
+				if (coingeckoId) {
+					if (!coingeckoIds.includes(coingeckoId)) {
+						coingeckoIds.push(coingeckoId);
+					}
+					symbolToIdMap[symbolUpper] = coingeckoId;
+				}
+			}
+
+			if (coingeckoIds.length === 0) return {};
+
+			const idsParam = coingeckoIds.join(",");
+			const response = await fetch(
+				`https://api.coingecko.com/api/v3/simple/price?ids=${idsParam}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true`
+			);
+
+			if (!response.ok) {
+				throw new Error(`CoinGecko API error: ${response.status}`);
+			}
+
+			const data = await response.json();
+			const now = Date.now();
+			const result: Record<string, TokenPrice> = {};
+
+			for (const [symbolUpper, coingeckoId] of Object.entries(symbolToIdMap)) {
+				const coinData = data[coingeckoId];
+				if (!coinData?.usd) continue;
+				result[symbolUpper] = {
+					symbol: symbolUpper,
+					usd: coinData.usd,
+					source: "coingecko",
+					change24h: coinData.usd_24h_change || 0,
+					marketCap: coinData.usd_market_cap || 0,
+					lastUpdated: now,
+				};
+			}
+
+			return result;
+		},
+	};
+}
+
+/**
+ * Static fixture provider: fixed prices for tests and offline development
+ */
+export function createStaticPriceProvider(prices: Record<string, number> = FIXTURE_PRICES): PriceProvider {
+	return {
+		name: "fixture",
+		ttlMs: Infinity,
+		getPrices: async (symbols) => {
+			const now = Date.now();
+			const result: Record<string, TokenPrice> = {};
+			for (const symbol of symbols) {
+				const symbolUpper = symbol.toUpperCase();
+				const usd = prices[symbolUpper];
+				if (usd === undefined) continue;
+				result[symbolUpper] = { symbol: symbolUpper, usd, source: "fixture", lastUpdated: now };
+			}
+			return result;
+		},
+	};
+}
@@ -0,0 +1,147 @@
+import type { Position } from "./portfolio";
+import { toCsv } from "./portfolio";
+
+/**
+ * Portfolio purification
+ *
+ * Non-compliant holdings are swapped into a compliant token chosen by the user.
+ * The capital put in may be kept, but any gain made on a non-compliant token is
+ * impermissible and should be donated:
+ * - Units with a cost basis (see utils/portfolio.ts) gain proceeds minus their
+ *   average cost, floored at zero.
+ * - Units the history can't explain (airdrops, transfers in) have no known cost,
+ *   so all of their proceeds count as gain. The user can lower the donation if
+ *   they paid for them elsewhere.
+ * - Profit already realised on the token is added.
+ * Records of donations are kept in localStorage per chain and wallet.
+ */
+
+export interface ImpermissibleGain {
+	gainUsd: number;
+	uncostedUnits: number; // Units sold without a known cost basis (counted at zero cost)
+}
+
+/**
+ * Gain to purify when selling amountSold units of a position for proceedsUsd
+ */
+export function impermissibleGain(
+	position: Position | undefined,
+	amountSold: number,
+	proceedsUsd: number
+): ImpermissibleGain {
+	if (amountSold <= 0) return { gainUsd: 0, uncostedUnits: 0 };
+
+	const proceedsPerUnit = proceedsUsd / amountSold;
+	const costedUnits = Math.min(amountSold, position?.heldWithCost ?? 0);
+	const uncostedUnits = amountSold - costedUnits;
+	const averageCost = position?.averageCost ?? 0;
+
+	const costedGain = Math.max(0, costedUnits * (proceedsPerUnit - averageCost));
+	const realised = Math.max(0, position?.realisedPnl ?? 0);
+
+	return {
+		gainUsd: costedGain + uncostedUnits * proceedsPerUnit + realised,
+		uncostedUnits,
+	};
+}
+
+/**
+ * Minimum output for a quote at the given slippage (basis points)
+ */
+export function minAmountOutFor(amountOut: bigint, slippageBps: number): bigint {
+	return (amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+}
+
+/**
+ * Swap executed by a purification run
+ */
+export interface PurificationSwap {
+	symbol: string;
+	address: string;
+	amountIn: string; // Token units
+	amountOut: string; // Target token units
+	txHash: string;
+}
+
+/**
+ * Donation recorded after a purification run
+ */
+export interface PurificationRecord {
+	id: string;
+	recordedAt: number; // Unix ms
+	targetSymbol: string;
+	targetAddress: string;
+	swaps: PurificationSwap[];
+	gainUsd: number | null; // Null when the target token had no price
+	donationAmount: string; // Target token units
+	recipient: string; // Charity or address the donation went to
+	donationTxHash: string;
+	note: string;
+}
+
+const storageKey = (chainId: number, account: string) => `purification-records:${chainId}:${account.toLowerCase()}`;
+
+/**
+ * Recorded donations for a wallet, newest first (empty when storage is unavailable)
+ */
+export function loadPurificationRecords(chainId: number, account: string): PurificationRecord[] {
+	if (typeof window === "undefined") return [];
+	try {
+		const saved = localStorage.getItem(storageKey(chainId, account));
+		const records = saved ? (JSON.parse(saved) as PurificationRecord[]) : [];
+		return Array.isArray(records) ? records.sort((a, b) => b.recordedAt - a.recordedAt) : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Append a donation record and return the updated list
+ */
+export function savePurificationRecord(
+	chainId: number,
+	account: string,
+	record: PurificationRecord
+): PurificationRecord[] {
+	const records = [record, ...loadPurificationRecords(chainId, account)];
+	localStorage.setItem(storageKey(chainId, account), JSON.stringify(records));
+	return records;
+}
+
+/**
+ * Donation records as CSV, one row per swap
+ */
+export function purificationRecordsToCsv(records: PurificationRecord[]): string {
+	return toCsv(
+		[
+			"recorded_at",
+			"sold_symbol",
+			"sold_address",
+			"amount_sold",
+			"target_symbol",
+			"amount_received",
+			"swap_tx",
+			"gain_usd",
+			"donation",
+			"recipient",
+			"donation_tx",
+			"note",
+		],
+		records.flatMap((record) =>
+			record.swaps.map((swap) => [
+				new Date(record.recordedAt).toISOString(),
+				swap.symbol,
+				swap.address,
+				swap.amountIn,
+				record.targetSymbol,
+				swap.amountOut,
+				swap.txHash,
+				record.gainUsd === null ? null : record.gainUsd.toFixed(2),
+				`${record.donationAmount} ${record.targetSymbol}`,
+				record.recipient,
+				record.donationTxHash,
+				record.note,
+			])
+		)
+	);
+}
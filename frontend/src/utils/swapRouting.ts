@@ -0,0 +1,199 @@
+import type { Address } from "viem";
+
+/**
+ * Multi-hop swap routing over the registered AMM pairs
+ *
+ * Pure functions only: reserves are read by useBestRouteQuote and passed in,
+ * so routes can be computed for any amount without extra RPC calls.
+ */
+
+// Maximum hops per route (must match ShariaSwap.MAX_PATH_LENGTH - 1)
+export const MAX_ROUTE_HOPS = 3;
+
+// SimplePair swap fee (0.3%)
+const FEE_NUMERATOR = 997n;
+const FEE_DENOMINATOR = 1000n;
+
+export interface PoolReserves {
+	pair: Address;
+	token0: Address;
+	token1: Address;
+	reserve0: bigint;
+	reserve1: bigint;
+}
+
+export interface SwapRoute {
+	path: Address[];
+	amounts: bigint[];
+	amountIn: bigint;
+	amountOut: bigint;
+}
+
+// Adjacency list: token -> neighbouring tokens with the pool connecting them
+export type PairGraph = Map<string, Array<{ token: Address; pool: PoolReserves }>>;
+
+const key = (address: string) => address.toLowerCase();
+
+/**
+ * Build the token graph from pool reserves (empty pools are skipped)
+ */
+export function buildPairGraph(pools: PoolReserves[]): PairGraph {
+	const graph: PairGraph = new Map();
+
+	const addEdge = (from: Address, to: Address, pool: PoolReserves) => {
+		const edges = graph.get(key(from)) ?? [];
+		edges.push({ token: to, pool });
+		graph.set(key(from), edges);
+	};
+
+	for (const pool of pools) {
+		if (pool.reserve0 === 0n || pool.reserve1 === 0n) continue;
+		addEdge(pool.token0, pool.token1, pool);
+		addEdge(pool.token1, pool.token0, pool);
+	}
+
+	return graph;
+}
+
+/**
+ * Uniswap V2 output amount for one hop (same formula as SimpleRouter)
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+	if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+	const amountInWithFee = amountIn * FEE_NUMERATOR;
+	return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+}
+
+/**
+ * Uniswap V2 input amount required for one hop (same formula as SimpleRouter)
+ * Returns null when the output cannot be met (amountOut >= reserveOut)
+ */
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint): bigint | null {
+	if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) return null;
+	const numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+	const denominator = (reserveOut - amountOut) * FEE_NUMERATOR;
+	return numerator / denominator + 1n;
+}
+
+// Reserves of a pool oriented for a hop from `from`
+const orientReserves = (pool: PoolReserves, from: Address): [bigint, bigint] =>
+	key(pool.token0) === key(from) ? [pool.reserve0, pool.reserve1] : [pool.reserve1, pool.reserve0];
+
+/**
+ * Enumerate simple paths from tokenIn to tokenOut with at most maxHops hops
+ * Intermediate tokens must pass canRouteThrough (e.g. only Sharia-compliant tokens)
+ */
+export function findPaths(
+	graph: PairGraph,
+	tokenIn: Address,
+	tokenOut: Address,
+	maxHops: number = MAX_ROUTE_HOPS,
+	canRouteThrough: (token: Address) => boolean = () => true
+): Array<Array<{ token: Address; pool: PoolReserves }>> {
+	const paths: Array<Array<{ token: Address; pool: PoolReserves }>> = [];
+	const visited = new Set<string>([key(tokenIn)]);
+
+	const walk = (current: Address, hops: Array<{ token: Address; pool: PoolReserves }>) => {
+		if (hops.length >= maxHops) return;
+
+		for (const edge of graph.get(key(current)) ?? []) {
+			if (visited.has(key(edge.token))) continue;
+
+			if (key(edge.token) === key(tokenOut)) {
+				paths.push([...hops, edge]);
+				continue;
+			}
+			if (!canRouteThrough(edge.token)) continue;
+
+			visited.add(key(edge.token));
+			walk(edge.token, [...hops, edge]);
+			visited.delete(key(edge.token));
+		}
+	};
+
+	walk(tokenIn, []);
+	return paths;
+}
+
+/**
+ * Find the route with the highest output for amountIn, or null if none exists
+ */
+export function findBestRoute(
+	pools: PoolReserves[],
+	tokenIn: Address,
+	tokenOut: Address,
+	amountIn: bigint,
+	maxHops: number = MAX_ROUTE_HOPS,
+	canRouteThrough?: (token: Address) => boolean
+): SwapRoute | null {
+	if (amountIn <= 0n || key(tokenIn) === key(tokenOut)) return null;
+
+	const graph = buildPairGraph(pools);
+	let best: SwapRoute | null = null;
+
+	for (const hops of findPaths(graph, tokenIn, tokenOut, maxHops, canRouteThrough)) {
+		const path: Address[] = [tokenIn];
+		const amounts: bigint[] = [amountIn];
+
+		for (const { token, pool } of hops) {
+			const [reserveIn, reserveOut] = orientReserves(pool, path[path.length - 1]);
+			amounts.push(getAmountOut(amounts[amounts.length - 1], reserveIn, reserveOut));
+			path.push(token);
+		}
+
+		const amountOut = amounts[amounts.length - 1];
+		// Prefer fewer hops when outputs tie (less gas)
+		if (
+			amountOut > 0n &&
+			(!best || amountOut > best.amountOut || (amountOut === best.amountOut && path.length < best.path.length))
+		) {
+			best = { path, amounts, amountIn, amountOut };
+		}
+	}
+
+	return best;
+}
+
+/**
+ * Find the route needing the least input to receive exactly amountOut, or null if none exists
+ */
+export function findBestRouteIn(
+	pools: PoolReserves[],
+	tokenIn: Address,
+	tokenOut: Address,
+	amountOut: bigint,
+	maxHops: number = MAX_ROUTE_HOPS,
+	canRouteThrough?: (token: Address) => boolean
+): SwapRoute | null {
+	if (amountOut <= 0n || key(tokenIn) === key(tokenOut)) return null;
+
+	const graph = buildPairGraph(pools);
+	let best: SwapRoute | null = null;
+
+	for (const hops of findPaths(graph, tokenIn, tokenOut, maxHops, canRouteThrough)) {
+		const path: Address[] = [tokenIn, ...hops.map(({ token }) => token)];
+		const amounts: bigint[] = new Array(path.length);
+		amounts[path.length - 1] = amountOut;
+
+		// Walk backwards from the output, like SimpleRouter.getAmountsIn
+		let feasible = true;
+		for (let i = hops.length - 1; i >= 0; i--) {
+			const [reserveIn, reserveOut] = orientReserves(hops[i].pool, path[i]);
+			const required = getAmountIn(amounts[i + 1], reserveIn, reserveOut);
+			if (required === null) {
+				feasible = false;
+				break;
+			}
+			amounts[i] = required;
+		}
+		if (!feasible) continue;
+
+		const amountIn = amounts[0];
+		// Prefer fewer hops when inputs tie (less gas)
+		if (!best || amountIn < best.amountIn || (amountIn === best.amountIn && path.length < best.path.length)) {
+			best = { path, amounts, amountIn, amountOut };
+		}
+	}
+
+	return best;
+}
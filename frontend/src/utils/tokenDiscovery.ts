@@ -0,0 +1,80 @@
+import { getAddress } from "viem";
+import type { Address, PublicClient } from "viem";
+import { ERC20_ABI } from "../config/abis";
+
+/**
+ * Wallet token discovery
+ *
+ * The registry only lists screened coins, so a wallet scan limited to getAllShariaCoins()
+ * misses everything else the address holds. Discovery finds every token that ever
+ * transferred to the address, from Transfer logs (RPC or the indexer), and reads its
+ * metadata so unregistered holdings can be shown as unreviewed.
+ */
+
+/**
+ * ERC20 holding of a token found through discovery
+ */
+export interface DiscoveredToken {
+	address: Address;
+	name: string;
+	symbol: string;
+	decimals: number;
+	balance: bigint;
+}
+
+// Multicall batch size, matching the registered-token scan
+const BATCH_SIZE = 50;
+
+/**
+ * Addresses of every contract that emitted a Transfer to the holder
+ * Scans from the first block: public RPCs may refuse large ranges, set VITE_INDEXER_URL then.
+ */
+export async function discoverTokensFromLogs(publicClient: PublicClient, holder: Address): Promise<Address[]> {
+	const logs = await publicClient.getContractEvents({
+		abi: ERC20_ABI,
+		eventName: "Transfer",
+		args: { to: holder },
+		fromBlock: "earliest",
+	});
+	return [...new Set(logs.map((log) => getAddress(log.address)))];
+}
+
+/**
+ * Balance and metadata of each token for the holder, keeping non-zero ERC20 balances only
+ * Contracts without decimals() (e.g. ERC721 collections, whose Transfer shares the signature) are skipped.
+ */
+export async function readTokenHoldings(
+	publicClient: PublicClient,
+	tokens: Address[],
+	holder: Address
+): Promise<DiscoveredToken[]> {
+	const holdings: DiscoveredToken[] = [];
+
+	for (let i = 0; i < tokens.length; i += BATCH_SIZE) {
+		const batch = tokens.slice(i, i + BATCH_SIZE);
+		const results = await publicClient.multicall({
+			contracts: batch.flatMap((address) => [
+				{ address, abi: ERC20_ABI, functionName: "balanceOf", args: [holder] } as const,
+				{ address, abi: ERC20_ABI, functionName: "decimals" } as const,
+				{ address, abi: ERC20_ABI, functionName: "symbol" } as const,
+				{ address, abi: ERC20_ABI, functionName: "name" } as const,
+			]),
+		});
+
+		batch.forEach((address, j) => {
+			const [balance, decimals, symbol, name] = results.slice(j * 4, j * 4 + 4);
+			if (balance.status !== "success" || decimals.status !== "success") return;
+			if ((balance.result as bigint) === 0n) return;
+
+			holdings.push({
+				address,
+				balance: balance.result as bigint,
+				decimals: Number(decimals.result),
+				symbol: symbol.status === "success" && symbol.result ? String(symbol.result) : "???",
+				name: name.status === "success" && name.result ? String(name.result) : "Unknown Token",
+			});
+		});
+	}
+
+	return holdings;
+}
@@ -0,0 +1,143 @@
+import { getAddress, isAddress } from "viem";
+import type { Address } from "viem";
+
+/**
+ * Scanner watch list
+ *
+ * Labelled addresses (treasury, family wallets, fund accounts) kept in
+ * localStorage and scanned together. Each scan stores a snapshot of the
+ * address's holdings by compliance status so the next scan can report what
+ * changed: tokens that appeared or left, and verdicts that moved.
+ */
+
+export interface WatchListSnapshot {
+	scannedAt: number; // Unix ms
+	counts: Record<string, number>; // Tokens per compliance status
+	holdings: Record<string, { symbol: string; status: string }>; // By lowercase token address
+}
+
+export interface WatchedAddress {
+	address: Address;
+	label: string;
+	lastScan?: WatchListSnapshot;
+	changes?: string[]; // Difference between the last two scans (empty when unchanged)
+}
+
+const STORAGE_KEY = "sharia-watch-list";
+
+/**
+ * Saved watch list (empty when storage is unavailable)
+ */
+export function loadWatchList(): WatchedAddress[] {
+	if (typeof window === "undefined") return [];
+	try {
+		const saved = localStorage.getItem(STORAGE_KEY);
+		const entries = saved ? (JSON.parse(saved) as WatchedAddress[]) : [];
+		return Array.isArray(entries) ? entries.filter((entry) => isAddress(entry.address)) : [];
+	} catch {
+		return [];
+	}
+}
+
+export function saveWatchList(entries: WatchedAddress[]): void {
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+/**
+ * Snapshot of scanned holdings for later comparison
+ */
+export function snapshotHoldings(
+	tokens: Array<{ address: string; symbol: string; status: string }>,
+	scannedAt: number = Date.now()
+): WatchListSnapshot {
+	const counts: Record<string, number> = {};
+	const holdings: WatchListSnapshot["holdings"] = {};
+	for (const token of tokens) {
+		counts[token.status] = (counts[token.status] ?? 0) + 1;
+		holdings[token.address.toLowerCase()] = { symbol: token.symbol, status: token.status };
+	}
+	return { scannedAt, counts, holdings };
+}
+
+/**
+ * Human-readable changes in the compliance mix between two snapshots
+ */
+export function diffSnapshots(previous: WatchListSnapshot, current: WatchListSnapshot): string[] {
+	const changes: string[] = [];
+
+	for (const [token, holding] of Object.entries(current.holdings)) {
+		const before = previous.holdings[token];
+		if (!before) {
+			changes.push(`+ ${holding.symbol} (${holding.status})`);
+		} else if (before.status !== holding.status) {
+			changes.push(`${holding.symbol}: ${before.status} → ${holding.status}`);
+		}
+	}
+	for (const [token, holding] of Object.entries(previous.holdings)) {
+		if (!current.holdings[token]) {
+			changes.push(`− ${holding.symbol} (${holding.status})`);
+		}
+	}
+
+	return changes;
+}
+
+// Split one CSV line, honouring double-quoted fields
+const parseCsvLine = (line: string): string[] => {
+	const fields: string[] = [];
+	let field = "";
+	let quoted = false;
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			fields.push(field.trim());
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	fields.push(field.trim());
+	return fields;
+};
+
+/**
+ * Addresses and labels from CSV text
+ * Columns are address and label; a header row naming them may give them in any order.
+ */
+export function parseWatchListCsv(text: string): { entries: Array<{ address: Address; label: string }>; errors: string[] } {
+	const lines = text.split(/\r?\n/).filter((line) => line.trim() !== "");
+	const entries: Array<{ address: Address; label: string }> = [];
+	const errors: string[] = [];
+
+	let addressColumn = 0;
+	let labelColumn = 1;
+	const header = lines[0] ? parseCsvLine(lines[0]).map((field) => field.toLowerCase()) : [];
+	if (header.includes("address")) {
+		addressColumn = header.indexOf("address");
+		labelColumn = header.indexOf("label");
+		lines.shift();
+	}
+
+	lines.forEach((line, i) => {
+		const fields = parseCsvLine(line);
+		const address = fields[addressColumn] ?? "";
+		if (!isAddress(address)) {
+			errors.push(`Line ${i + 1 + (header.includes("address") ? 1 : 0)}: invalid address "${address}"`);
+			return;
+		}
+		entries.push({ address: getAddress(address), label: labelColumn >= 0 ? fields[labelColumn] ?? "" : "" });
+	});
+
+	return { entries, errors };
+}
@@ -0,0 +1,178 @@
+/**
+ * Zakat calculation
+ *
+ * Zakatable wealth is the value of the wallet's compliant holdings plus the DCA
+ * and limit order deposits still held by ShariaDCA, at the app's current prices.
+ * Zakat of 2.5% is due when that total reaches the nisab (85 g of gold or 595 g
+ * of silver, at a price per gram supplied by the user) on the hawl date, the day
+ * the lunar year of holding completes.
+ * - Non-compliant holdings are left out: they are purified, not zakat'd.
+ * - Holdings without a price are listed but not counted.
+ * - Balances and prices are always today's, so a report for any other hawl date
+ *   (past or future) is an estimate.
+ */
+
+export type NisabStandard = "gold" | "silver";
+
+// Nisab weight in grams for each standard
+export const NISAB_GRAMS: Record<NisabStandard, number> = {
+	gold: 85,
+	silver: 595,
+};
+
+export const ZAKAT_RATE = 0.025;
+
+// One lunar (hijri) year, used to suggest the next hawl date
+export const LUNAR_YEAR_DAYS = 354;
+
+export interface ZakatHolding {
+	symbol: string;
+	address: string;
+	source: "wallet" | "dca" | "limit";
+	reference: string; // Wallet address, DCA order or limit order
+	amount: number; // Token units
+	price: number | null; // USD from the app's price providers
+	value: number | null;
+	included: boolean;
+	exclusion?: string; // Why the holding isn't zakatable
+}
+
+export interface ZakatSettings {
+	nisabStandard: NisabStandard;
+	metalPricePerGram: number; // USD
+	hawlDate: string; // YYYY-MM-DD
+}
+
+export interface ZakatReport {
+	generatedAt: string; // ISO timestamp
+	account: string;
+	chainId: number;
+	settings: ZakatSettings;
+	holdings: ZakatHolding[];
+	zakatableValue: number;
+	nisabValue: number;
+	meetsNisab: boolean;
+	zakatDue: number;
+	hawlComplete: boolean; // The hawl date has been reached
+	valuationDate: string; // YYYY-MM-DD the balances and prices were read
+	isEstimate: boolean; // Valued on a day other than the hawl date
+	nextHawlDate: string; // One lunar year after the hawl date
+}
+
+const addDays = (date: string, days: number) => {
+	const next = new Date(`${date}T00:00:00Z`);
+	next.setUTCDate(next.getUTCDate() + days);
+	return next.toISOString().slice(0, 10);
+};
+
+/**
+ * Zakat due on the holdings for the given nisab and hawl date
+ */
+export function calculateZakat(
+	holdings: ZakatHolding[],
+	settings: ZakatSettings,
+	account: string,
+	chainId: number,
+	now: Date = new Date()
+): ZakatReport {
+	const zakatableValue = holdings.reduce((sum, holding) => sum + (holding.included ? holding.value ?? 0 : 0), 0);
+	const nisabValue = NISAB_GRAMS[settings.nisabStandard] * settings.metalPricePerGram;
+	// Without a metal price there is no threshold to compare against
+	const meetsNisab = nisabValue > 0 && zakatableValue >= nisabValue;
+	const valuationDate = now.toISOString().slice(0, 10);
+
+	return {
+		generatedAt: now.toISOString(),
+		account,
+		chainId,
+		settings,
+		holdings,
+		zakatableValue,
+		nisabValue,
+		meetsNisab,
+		zakatDue: meetsNisab ? zakatableValue * ZAKAT_RATE : 0,
+		hawlComplete: settings.hawlDate <= valuationDate,
+		valuationDate,
+		isEstimate: settings.hawlDate !== valuationDate,
+		nextHawlDate: addDays(settings.hawlDate, LUNAR_YEAR_DAYS),
+	};
+}
+
+/**
+ * Report as pretty-printed JSON
+ */
+export function zakatReportToJson(report: ZakatReport): string {
+	return JSON.stringify(report, null, 2) + "\n";
+}
+
+const escapeHtml = (text: string) =>
+	text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const usd = (value: number | null) =>
+	value === null
+		? "—"
+		: value.toLocaleString(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 2 });
+
+// Why the report is only an estimate, if it is
+const hawlNote = (report: ZakatReport) =>
+	!report.isEstimate
+		? ""
+		: report.hawlComplete
+			? ` (passed, estimate from balances and prices on ${report.valuationDate})`
+			: " (not reached yet, estimate at current prices)";
+
+/**
+ * Report as a standalone HTML document, laid out for printing (the browser saves it as PDF)
+ */
+export function zakatReportToHtml(report: ZakatReport): string {
+	const { settings } = report;
+	const rows = report.holdings
+		.map(
+			(holding) => `<tr${holding.included ? "" : ' class="excluded"'}>
+<td>${escapeHtml(holding.symbol)}</td>
+<td>${holding.source === "wallet" ? "Wallet" : escapeHtml(holding.reference)}</td>
+<td class="num">${holding.amount.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+<td class="num">${usd(holding.price)}</td>
+<td class="num">${usd(holding.value)}</td>
+<td>${holding.included ? "Yes" : `No: ${escapeHtml(holding.exclusion ?? "")}`}</td>
+</tr>`
+		)
+		.join("\n");
+
+	return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Zakat report ${escapeHtml(settings.hawlDate)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+.meta { color: #555; font-size: 0.85rem; margin-bottom: 1.5rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.85rem; margin-bottom: 1.5rem; }
+th, td { border-bottom: 1px solid #ddd; padding: 0.4rem; text-align: left; }
+.num { text-align: right; }
+.excluded { color: #888; }
+.summary td:first-child { color: #555; }
+</style>
+</head>
+<body>
+<h1>Zakat report</h1>
+<p class="meta">Account ${escapeHtml(report.account)} · chain ${report.chainId} · generated ${escapeHtml(report.generatedAt)}</p>
+<table class="summary">
+<tr><td>Hawl date</td><td>${escapeHtml(settings.hawlDate)}${hawlNote(report)}</td></tr>
+<tr><td>Nisab</td><td>${NISAB_GRAMS[settings.nisabStandard]} g ${settings.nisabStandard} × ${usd(settings.metalPricePerGram)}/g = ${usd(report.nisabValue)}</td></tr>
+<tr><td>Zakatable wealth</td><td>${usd(report.zakatableValue)}</td></tr>
+<tr><td>Zakat due (${ZAKAT_RATE * 100}%)</td><td><strong>${report.meetsNisab ? usd(report.zakatDue) : "None, below nisab"}</strong></td></tr>
+<tr><td>Next hawl date</td><td>${escapeHtml(report.nextHawlDate)}</td></tr>
+</table>
+<table>
+<thead><tr><th>Token</th><th>Held in</th><th class="num">Amount</th><th class="num">Price</th><th class="num">Value</th><th>Zakatable</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<p class="meta">Prices from the Tayeb app's price sources. Consult a scholar for holdings that need a ruling.</p>
+</body>
+</html>
+`;
+}
@@ -19,7 +19,7 @@ const config: HardhatUserConfig = {
   networks: {
     // Moonbase Alpha Testnet
     moonbase: {
-      url: process.env.MOONBASE_RPC_URL,
+      url: process.env.MOONBASE_RPC_URL || "https://rpc.api.moonbase.moonbeam.network",
       chainId: 1287,
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
       gas: 5000000,
@@ -37,6 +37,11 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 1337,
     },
+    // Local devnet (`npm run devnet` starts a hardhat node on this URL)
+    localhost: {
+      url: process.env.DEVNET_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 1337,
+    },
   },
   paths: {
     sources: "./contracts",
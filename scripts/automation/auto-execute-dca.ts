@@ -1,12 +1,26 @@
 import { ethers } from "hardhat";
 import * as dotenv from "dotenv";
-import deployedContracts from "../../config/deployedContracts.json";
 import {
   executeReadyOrders,
   logMetrics,
+  logOrderOutcomes,
   getMetrics,
-  resetMetrics,
+  restoreMetrics,
 } from "../utils/dcaExecution";
+import {
+  chainTimeToLocal,
+  createSchedule,
+  formatDuration,
+  isScheduleStale,
+  planNextWake,
+  syncSchedule,
+  upcomingExecutions,
+  WakePlan,
+} from "../utils/dcaSchedule";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+import { findDeploymentBlock } from "../utils/eventIndexer";
+import { getStorePath } from "../utils/executionStore";
+import { startMetricsServer } from "../utils/metricsServer";
 
 dotenv.config();
 
@@ -14,33 +28,76 @@ dotenv.config();
  * Continuous DCA Auto-Executor
  * 
  * Monitors and executes ready DCA orders continuously
- * 
+ *
+ * Keeps an in-memory schedule of active orders (see utils/dcaSchedule.ts) and
+ * sleeps until the next order's nextExecutionTime instead of polling. Open
+ * limit orders are still checked every poll interval, since they fill on price.
+ * If the schedule can't be synced, or its last sync is too old, the executor
+ * falls back to polling checkUpkeep until a sync succeeds again.
+ *
  * Features:
  * - Automatic retry logic with exponential backoff
- * - Execution metrics tracking
+ * - Execution history persisted to a JSON-lines store (survives restarts)
+ * - Local metrics endpoint (Prometheus text + JSON)
  * - Periodic metrics reporting
  * - Graceful shutdown handling
+ *
+ * Environment:
+ * - DCA_EXECUTOR_STORE: execution history file (default data/dca-executor/executions.jsonl)
+ * - DCA_METRICS_PORT: metrics server port (default 9464, set to 0 to disable)
+ * - DCA_METRICS_HOST: metrics server bind address (default 127.0.0.1)
+ * - DCA_POLL_INTERVAL: seconds between checks while polling (default 60)
+ * - DCA_SCHEDULE_RESYNC: seconds between schedule syncs while idle (default 300)
+ * - DCA_SCHEDULE_START_BLOCK: first block to read order events from (default: ShariaDCA's deployment block)
  */
 async function main() {
+  const { network, deployment } = await loadActiveDeployment();
+  if (!deployment.main.shariaDCA) {
+    console.error(`❌ Error: ShariaDCA not deployed on chain ${network.chainId}`);
+    process.exit(1);
+  }
+
   const shariaDCA = await ethers.getContractAt(
     "ShariaDCA",
-    deployedContracts.main.shariaDCA
+    deployment.main.shariaDCA
   );
 
   console.log("🤖 DCA Auto-Executor Started");
-  console.log("Contract:", deployedContracts.main.shariaDCA);
-  console.log("Network: Moonbase Alpha");
+  console.log("Contract:", deployment.main.shariaDCA);
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
   console.log("Mode: Local Automation Script");
   console.log();
 
-  const checkInterval = 60000; // Check every 60 seconds
+  const pollInterval = Number(process.env.DCA_POLL_INTERVAL ?? 60) * 1000;
+  // New orders are scheduled at least 5 minutes ahead, so a 5 minute resync never misses one
+  const resyncInterval = Number(process.env.DCA_SCHEDULE_RESYNC ?? 300) * 1000;
   const metricsReportInterval = 300000; // Report metrics every 5 minutes
-  
+  const blockTime = Number(await shariaDCA.blockTime());
+
   let isProcessing = false;
   let lastMetricsReport = Date.now();
+  let lastCheckAt: number | null = null;
+  let polling = false;
+  let lastDueTime: number | null = null;
+  let timer: NodeJS.Timeout | null = null;
 
-  // Reset metrics on startup
-  resetMetrics();
+  const startBlock = process.env.DCA_SCHEDULE_START_BLOCK
+    ? Number(process.env.DCA_SCHEDULE_START_BLOCK)
+    : await findDeploymentBlock(ethers.provider, deployment.main.shariaDCA);
+  const schedule = createSchedule(startBlock);
+
+  // Restore metrics from the execution store so history survives restarts
+  restoreMetrics();
+  console.log(`💾 Execution history: ${getStorePath()}`);
+
+  const metricsPort = Number(process.env.DCA_METRICS_PORT ?? 9464);
+  const metricsServer = metricsPort > 0
+    ? startMetricsServer({
+        port: metricsPort,
+        host: process.env.DCA_METRICS_HOST || "127.0.0.1",
+      })
+    : null;
+  console.log();
 
   const checkAndExecute = async () => {
     // Prevent overlapping executions
@@ -49,19 +106,29 @@ async function main() {
     }
     
     isProcessing = true;
-    
+    lastCheckAt = Date.now();
+
     try {
       // Execute orders using shared utility (includes retry logic and metrics)
       const result = await executeReadyOrders(shariaDCA, {
         logOrderIds: true,
         maxRetries: 3,
         retryDelayMs: 1000,
+        source: "auto-execute-dca",
+        network: network.name,
       });
 
       const timestamp = new Date().toLocaleTimeString();
 
       if (result.executed) {
-        console.log(`[${timestamp}] ✅ Executed ${result.orderCount} order(s) successfully!`);
+        if (result.failedCount > 0 || result.skippedCount > 0) {
+          console.log(
+            `[${timestamp}] ⚠️  Executed ${result.orderCount} order(s), ${result.failedCount} failed, ${result.skippedCount} skipped`
+          );
+        } else {
+          console.log(`[${timestamp}] ✅ Executed ${result.orderCount} order(s) successfully!`);
+        }
+        logOrderOutcomes(result);
         if (result.receipt) {
           console.log(`   Block: ${result.receipt.blockNumber}`);
           console.log(`   Gas used: ${result.receipt.gasUsed.toString()}`);
@@ -73,6 +140,10 @@ async function main() {
       } else if (result.error) {
         console.error(`[${timestamp}] ❌ Execution failed:`, result.error);
         console.log();
+      } else if (result.orders.length > 0) {
+        console.log(`[${timestamp}] ⏭️  No orders submitted`);
+        logOrderOutcomes(result);
+        console.log();
       }
       // If no orders ready, silently continue
 
@@ -98,17 +169,70 @@ async function main() {
     }
   };
 
-  // Initial check
+  // Sync the schedule, switching to polling while it can't be trusted
+  const refreshSchedule = async () => {
+    const timestamp = new Date().toLocaleTimeString();
+    let synced = true;
+    try {
+      await syncSchedule(schedule, shariaDCA, ethers.provider);
+    } catch (error: any) {
+      synced = false;
+      console.error(`[${timestamp}] ⚠️  Schedule sync failed:`, error.shortMessage || error.message);
+    }
+
+    // A failed sync leaves the resync overdue, so poll rather than retrying immediately
+    const stale = !synced || isScheduleStale(schedule, 2 * resyncInterval);
+    if (stale && !polling) {
+      console.log(`[${timestamp}] 🔁 Schedule is stale, polling every ${pollInterval / 1000} seconds`);
+      console.log();
+    } else if (!stale && polling) {
+      console.log(`[${timestamp}] 📅 Schedule synced again, back to scheduled wake-ups`);
+      console.log();
+    }
+    polling = stale;
+  };
+
+  // Sleep until the next due order (or poll), then check and reschedule
+  const scheduleNextWake = () => {
+    const plan: WakePlan = polling
+      ? { at: Date.now() + pollInterval, reason: "due", orderIds: [] }
+      : planNextWake(schedule, { blockTime, pollIntervalMs: pollInterval, resyncIntervalMs: resyncInterval, lastCheckAt });
+
+    // Announce the next due execution whenever it changes
+    const due = upcomingExecutions(schedule).filter((order) => !order.isPaused);
+    if (!polling && due.length > 0 && due[0].nextExecutionTime !== lastDueTime) {
+      const dueAt = chainTimeToLocal(schedule, due[0].nextExecutionTime);
+      const ids = due.filter((order) => order.nextExecutionTime === due[0].nextExecutionTime).map((order) => `#${order.orderId}`);
+      console.log(
+        `[${new Date().toLocaleTimeString()}] ⏰ Next execution ${new Date(dueAt).toLocaleTimeString()} ` +
+          `(in ${formatDuration(dueAt - Date.now())}): order(s) ${ids.join(", ")}`
+      );
+      lastDueTime = due[0].nextExecutionTime;
+    }
+
+    timer = setTimeout(async () => {
+      if (plan.reason !== "resync") await checkAndExecute();
+      await refreshSchedule();
+      scheduleNextWake();
+    }, Math.max(plan.at - Date.now(), 0));
+  };
+
+  // Initial sync and check
+  console.log(`📅 Building order schedule from block ${startBlock}...`);
+  await refreshSchedule();
+  if (!polling) {
+    console.log(`   ${schedule.orders.size} active DCA order(s), ${schedule.limitOrders.size} open limit order(s)`);
+  }
   console.log("🔍 Performing initial check...\n");
   await checkAndExecute();
+  await refreshSchedule();
 
-  // Set up periodic checking
-  console.log(`⏰ Will check every ${checkInterval / 1000} seconds`);
+  console.log(`⏰ Waking at each order's next execution time (block time ${blockTime}s)`);
   console.log("Press Ctrl+C to stop\n");
   console.log("=".repeat(60));
   console.log();
 
-  setInterval(checkAndExecute, checkInterval);
+  scheduleNextWake();
 
   // Keep process alive
   process.on('SIGINT', () => {
@@ -122,7 +246,9 @@ async function main() {
       logMetrics();
       console.log();
     }
-    
+
+    if (timer) clearTimeout(timer);
+    metricsServer?.close();
     process.exit(0);
   });
 }
@@ -0,0 +1,100 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import {
+  chainTimeToLocal,
+  createSchedule,
+  formatDuration,
+  planNextWake,
+  syncSchedule,
+  upcomingExecutions,
+} from "../utils/dcaSchedule";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+import { findDeploymentBlock } from "../utils/eventIndexer";
+
+dotenv.config();
+
+/**
+ * DCA Keeper Schedule Status
+ *
+ * Builds the same order schedule as auto-execute-dca.ts and prints the upcoming
+ * executions, open limit orders and when the keeper would wake next.
+ *
+ * Usage: npm run dca:status -- --network moonbase
+ *
+ * Environment:
+ * - DCA_STATUS_LIMIT: number of upcoming orders to list (default 20)
+ * - DCA_POLL_INTERVAL / DCA_SCHEDULE_RESYNC / DCA_SCHEDULE_START_BLOCK: as for auto-execute-dca.ts
+ */
+async function main() {
+  const { network, deployment } = await loadActiveDeployment();
+  if (!deployment.main.shariaDCA) {
+    console.error(`❌ Error: ShariaDCA not deployed on chain ${network.chainId}`);
+    process.exit(1);
+  }
+
+  const shariaDCA = await ethers.getContractAt("ShariaDCA", deployment.main.shariaDCA);
+  const blockTime = Number(await shariaDCA.blockTime());
+  const blocksBeforeHour = Number(await shariaDCA.blocksBeforeHour());
+  const limit = Number(process.env.DCA_STATUS_LIMIT ?? 20);
+
+  const startBlock = process.env.DCA_SCHEDULE_START_BLOCK
+    ? Number(process.env.DCA_SCHEDULE_START_BLOCK)
+    : await findDeploymentBlock(ethers.provider, deployment.main.shariaDCA);
+  const schedule = createSchedule(startBlock);
+  await syncSchedule(schedule, shariaDCA, ethers.provider);
+
+  const now = Date.now();
+  const when = (chainTime: number) => {
+    const at = chainTimeToLocal(schedule, chainTime);
+    const relative = at <= now ? `due ${formatDuration(now - at)} ago` : `in ${formatDuration(at - now)}`;
+    return `${new Date(at).toLocaleString()} (${relative})`;
+  };
+
+  console.log("📅 DCA Keeper Schedule");
+  console.log("Contract:", deployment.main.shariaDCA);
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
+  console.log(`Synced to block ${schedule.syncedBlock} (events from block ${startBlock})`);
+  console.log(`Alignment: hour minus ${blocksBeforeHour} block(s) × ${blockTime}s`);
+  console.log();
+
+  const orders = upcomingExecutions(schedule);
+  console.log(`⏳ Active DCA orders: ${orders.length}`);
+  for (const order of orders.slice(0, limit)) {
+    const progress = `${order.intervalsCompleted}/${order.totalIntervals}`;
+    const status = order.isPaused ? "⏸️  paused" : when(order.nextExecutionTime);
+    console.log(
+      `   #${order.orderId} ${order.owner.slice(0, 10)}… every ${formatDuration(order.interval * 1000)}, ${progress} — ${status}`
+    );
+  }
+  if (orders.length > limit) {
+    console.log(`   …${orders.length - limit} more (set DCA_STATUS_LIMIT to list them)`);
+  }
+  console.log();
+
+  const limitOrders = [...schedule.limitOrders.values()].sort((a, b) => a.expiry - b.expiry);
+  console.log(`🎯 Open limit orders: ${limitOrders.length}`);
+  for (const order of limitOrders.slice(0, limit)) {
+    console.log(`   #${order.orderId} ${order.owner.slice(0, 10)}… expires ${when(order.expiry)}`);
+  }
+  console.log();
+
+  const plan = planNextWake(schedule, {
+    blockTime,
+    pollIntervalMs: Number(process.env.DCA_POLL_INTERVAL ?? 60) * 1000,
+    resyncIntervalMs: Number(process.env.DCA_SCHEDULE_RESYNC ?? 300) * 1000,
+  });
+  const reason =
+    plan.reason === "due"
+      ? `order(s) ${plan.orderIds.map((id) => `#${id}`).join(", ")}`
+      : plan.reason === "limit"
+        ? "limit order check"
+        : "schedule resync (nothing due sooner)";
+  console.log(`⏰ Keeper would wake ${new Date(plan.at).toLocaleString()} (in ${formatDuration(plan.at - now)}): ${reason}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
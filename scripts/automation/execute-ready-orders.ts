@@ -1,11 +1,13 @@
 import { ethers } from "hardhat";
 import * as dotenv from "dotenv";
-import deployedContracts from "../../config/deployedContracts.json";
 import {
   executeReadyOrders,
   logMetrics,
+  logOrderOutcomes,
   getMetrics,
+  restoreMetrics,
 } from "../utils/dcaExecution";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
 
 dotenv.config();
 
@@ -14,23 +16,34 @@ dotenv.config();
  * Useful for cron jobs, GitHub Actions, or manual execution
  * 
  * This script trusts the contract's block time checking - it only executes
- * orders that the contract determines are ready based on block.timestamp
+ * orders that the contract determines are ready based on block.timestamp,
+ * plus limit orders whose price limit is reached in the pool (or that expired)
  * 
  * Features:
  * - Automatic retry logic with exponential backoff
- * - Execution metrics tracking
+ * - Execution metrics tracking (appended to the shared execution store,
+ *   so cron runs accumulate history; see DCA_EXECUTOR_STORE)
  * - Configurable retry attempts
  */
 async function main() {
   const startTime = Date.now();
 
+  // Load history from previous runs so the metrics summary is cumulative
+  restoreMetrics();
+
+  const { network, deployment } = await loadActiveDeployment();
+  if (!deployment.main.shariaDCA) {
+    console.error(`❌ Error: ShariaDCA not deployed on chain ${network.chainId}`);
+    process.exit(1);
+  }
+
   const shariaDCA = await ethers.getContractAt(
     "ShariaDCA",
-    deployedContracts.main.shariaDCA
+    deployment.main.shariaDCA
   );
 
   console.log("🔍 Checking for ready DCA orders (block time based)...");
-  console.log("Contract:", deployedContracts.main.shariaDCA);
+  console.log("Contract:", deployment.main.shariaDCA);
   console.log();
 
   try {
@@ -39,6 +52,8 @@ async function main() {
       logOrderIds: true,
       maxRetries: 3, // Retry up to 3 times on failure
       retryDelayMs: 1000, // Start with 1 second delay
+      source: "execute-ready-orders",
+      network: network.name,
     });
 
     const totalDuration = ((Date.now() - startTime) / 1000).toFixed(1);
@@ -47,6 +62,10 @@ async function main() {
       if (result.error) {
         console.error("❌ Execution failed:", result.error);
         process.exit(1);
+      } else if (result.orders.length > 0) {
+        console.log("⏭️  No orders submitted (all ready orders skipped)");
+        logOrderOutcomes(result);
+        process.exit(0);
       } else {
         console.log("✅ No orders ready for execution");
         process.exit(0);
@@ -57,6 +76,10 @@ async function main() {
     console.log("=".repeat(60));
     console.log("✅ Execution Summary:");
     console.log(`   Orders executed: ${result.orderCount}`);
+    console.log(`   Orders failed: ${result.failedCount}`);
+    console.log(`   Orders skipped (price): ${result.skippedCount}`);
+    console.log(`   Limit orders expired: ${result.orders.filter((o) => o.status === "expired").length}`);
+    logOrderOutcomes(result);
     if (result.receipt) {
       console.log(`   Block: ${result.receipt.blockNumber}`);
       console.log(`   Gas used: ${result.receipt.gasUsed.toString()}`);
@@ -75,7 +98,8 @@ async function main() {
     logMetrics();
 
     console.log("ℹ️  Note: Contract uses block.timestamp to determine readiness.");
-    console.log("   Individual order failures are handled silently by performUpkeep().");
+    console.log("   performUpkeep() skips failed orders; they are retried in the next cycle.");
+    console.log("   Orders whose price breaches their minimum output are skipped, not filled.");
   } catch (error: any) {
     console.error("❌ Fatal error:", error.message);
     if (error.reason) {
@@ -2,30 +2,33 @@ import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, DeployedContracts, TayebCoin } from "../../config/types";
+import { TayebCoinsConfig, TayebCoin } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+import { readComplianceScreenings } from "../utils/complianceMetadata";
 
 /**
  * Event Listener for ShariaCompliance Contract
  * 
- * Continuously listens to CoinRegistered, CoinRemoved, and CoinUpdated events
+ * Continuously listens to CoinRegistered, CoinRemoved, CoinUpdated and
+ * ComplianceMetadataUpdated events
  * and automatically syncs JSON config when events occur.
+ * ReviewRequested events (unregistered tokens flagged by holders) are logged for admins.
  * 
  * Usage: npx hardhat run scripts/automation/listen-coin-events.ts --network moonbase
  * 
  * This script runs continuously. Press Ctrl+C to stop.
  */
 async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const { network, deployment: contractsConfig } = await loadActiveDeployment();
 
   console.log("👂 Starting event listener for ShariaCompliance...\n");
 
   // Check if contract is deployed
   const shariaComplianceAddress = contractsConfig.main.shariaCompliance;
   if (!shariaComplianceAddress) {
-    console.error("❌ Error: ShariaCompliance contract not found in deployedContracts.json!");
+    console.error(`❌ Error: ShariaCompliance contract for chain ${network.chainId} not found in deployedContracts.json!`);
     console.log("\n📝 Please deploy contracts first:");
-    console.log("   npx hardhat run scripts/deploy/deploy-core.ts --network moonbase\n");
+    console.log(`   npx hardhat run scripts/deploy/deploy-core.ts --network ${network.name}\n`);
     process.exit(1);
   }
 
@@ -47,6 +50,7 @@ async function main() {
       // Import and run sync script logic
       const config = tayebCoinsConfig as TayebCoinsConfig;
       const contractCoins = await shariaCompliance.getAllShariaCoins();
+      const screenings = await readComplianceScreenings(shariaCompliance, contractCoins);
       
       const contractCoinsMap = new Map<string, any>();
       for (const coin of contractCoins) {
@@ -71,6 +75,7 @@ async function main() {
             ...jsonCoin,
             permissible: contractCoin.verified,
             complianceReason: contractCoin.complianceReason,
+            screening: screenings ? screenings.get(jsonCoin.symbol) : jsonCoin.screening,
           });
         } else {
           updatedCoins.push({
@@ -90,6 +95,7 @@ async function main() {
             complianceReason: contractCoin.complianceReason,
             description: `Auto-synced from contract`,
             permissible: contractCoin.verified,
+            screening: screenings?.get(contractCoin.id),
             addresses: {
               moonbase: null,
             },
@@ -142,6 +148,25 @@ async function main() {
     await syncJSON();
   });
 
+  // Listen to ComplianceMetadataUpdated event
+  shariaCompliance.on("ComplianceMetadataUpdated", async (coinId, category, methodology, reviewer, documentHash, reviewedAt, reviewDueAt) => {
+    console.log("🔔 ComplianceMetadataUpdated event detected!");
+    console.log(`   Coin ID: ${coinId}`);
+    console.log(`   Reviewer: ${reviewer}`);
+    console.log(`   Review due: ${reviewDueAt === 0n ? "none" : new Date(Number(reviewDueAt) * 1000).toISOString()}`);
+    console.log();
+    await syncJSON();
+  });
+
+  // Listen to ReviewRequested event (nothing to sync: the token isn't registered yet)
+  shariaCompliance.on("ReviewRequested", async (token, requester, note) => {
+    console.log("🔔 ReviewRequested event detected!");
+    console.log(`   Token: ${token}`);
+    console.log(`   Requested by: ${requester}`);
+    if (note) console.log(`   Note: ${note}`);
+    console.log();
+  });
+
   // Handle errors
   shariaCompliance.on("error", (error) => {
     console.error("❌ Event listener error:", error);
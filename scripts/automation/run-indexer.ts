@@ -0,0 +1,146 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+import { EventIndexerOptions, findDeploymentBlock, syncToHead } from "../utils/eventIndexer";
+import { getIndexerDbPath, openIndexerStore } from "../utils/indexerStore";
+import { startIndexerServer } from "../utils/indexerServer";
+
+dotenv.config();
+
+/**
+ * Event Indexer
+ *
+ * Follows ShariaSwap, ShariaDCA, ShariaCompliance and pair logs into a SQLite
+ * database and serves them over a small REST API (see scripts/utils/indexerServer.ts).
+ * Progress is checkpointed per chain, so restarts resume where they stopped,
+ * and reorgs roll the database back to the fork point before re-indexing.
+ *
+ * Usage: npm run indexer -- --network moonbase
+ *
+ * Environment:
+ * - INDEXER_DB: SQLite file (default data/indexer/events.sqlite)
+ * - INDEXER_START_BLOCK: first block to index (default: ShariaSwap's deployment block)
+ * - INDEXER_BATCH_SIZE: blocks per eth_getLogs request (default 1000)
+ * - INDEXER_CONFIRMATIONS: blocks to stay behind head (default 2)
+ * - INDEXER_POLL_MS: delay between catch-up passes (default 12000)
+ * - INDEXER_PORT: API port (default 4350, set to 0 to disable)
+ * - INDEXER_HOST: API bind address (default 127.0.0.1)
+ * - INDEXER_ONCE: set to "true" to catch up once and exit (for cron)
+ * - INDEXER_TRANSFERS: set to "true" to also index ERC20 Transfer logs from every token,
+ *   used by the Sharia scanner to discover unregistered holdings. Enable it before the
+ *   first sync (or delete the database): blocks already indexed are not revisited.
+ */
+async function main() {
+  const { network, deployment } = await loadActiveDeployment();
+  const pairs = Object.values(deployment.pairs).filter((pair): pair is string => !!pair);
+
+  if (!deployment.main.shariaSwap && !deployment.main.shariaDCA && !deployment.main.shariaCompliance) {
+    console.error(`❌ Error: No Tayeb contracts deployed on chain ${network.chainId}`);
+    process.exit(1);
+  }
+
+  const store = openIndexerStore(network.chainId);
+
+  const startBlock = process.env.INDEXER_START_BLOCK
+    ? Number(process.env.INDEXER_START_BLOCK)
+    : await findDeploymentBlock(
+        ethers.provider,
+        deployment.main.shariaSwap || deployment.main.shariaDCA || deployment.main.shariaCompliance!
+      );
+
+  const options: EventIndexerOptions = {
+    provider: ethers.provider,
+    store,
+    contracts: {
+      shariaSwap: deployment.main.shariaSwap || undefined,
+      shariaDCA: deployment.main.shariaDCA || undefined,
+      shariaCompliance: deployment.main.shariaCompliance || undefined,
+      pairs,
+    },
+    startBlock,
+    batchSize: Number(process.env.INDEXER_BATCH_SIZE) || undefined,
+    confirmations: process.env.INDEXER_CONFIRMATIONS ? Number(process.env.INDEXER_CONFIRMATIONS) : undefined,
+    indexTransfers: process.env.INDEXER_TRANSFERS === "true",
+  };
+
+  const checkpoint = store.getCheckpoint();
+  console.log("🗂️  Tayeb Event Indexer");
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
+  console.log(`Database: ${getIndexerDbPath()}`);
+  console.log(`Contracts: ${[options.contracts.shariaSwap, options.contracts.shariaDCA, options.contracts.shariaCompliance].filter(Boolean).length} core, ${pairs.length} pair(s)`);
+  if (options.indexTransfers) console.log("Token transfers: all ERC20 Transfer logs");
+  console.log(
+    checkpoint
+      ? `Resuming after block ${checkpoint.blockNumber}`
+      : `Starting from block ${startBlock}`
+  );
+  console.log();
+
+  const runOnce = process.env.INDEXER_ONCE === "true";
+  const pollInterval = Number(process.env.INDEXER_POLL_MS) || 12000;
+  let isProcessing = false;
+
+  const catchUp = async () => {
+    // Prevent overlapping passes
+    if (isProcessing) {
+      return;
+    }
+
+    isProcessing = true;
+    try {
+      const result = await syncToHead(options);
+      if (result) {
+        const timestamp = new Date().toLocaleTimeString();
+        console.log(
+          `[${timestamp}] 📥 Indexed blocks ${result.fromBlock}-${result.toBlock} (${result.logCount} log(s))`
+        );
+      }
+    } catch (error: any) {
+      const timestamp = new Date().toLocaleTimeString();
+      console.error(`[${timestamp}] ❌ Indexing failed:`, error.message || error);
+      if (runOnce) throw error;
+    } finally {
+      isProcessing = false;
+    }
+  };
+
+  await catchUp();
+
+  if (runOnce) {
+    store.close();
+    return;
+  }
+
+  const apiPort = Number(process.env.INDEXER_PORT ?? 4350);
+  const server = apiPort > 0
+    ? startIndexerServer({
+        store,
+        chainId: network.chainId,
+        port: apiPort,
+        host: process.env.INDEXER_HOST || "127.0.0.1",
+      })
+    : null;
+
+  console.log(`⏰ Polling every ${pollInterval / 1000} seconds (Press Ctrl+C to stop)\n`);
+  setInterval(catchUp, pollInterval);
+
+  process.on("SIGINT", () => {
+    console.log("\n👋 Stopping indexer...");
+    server?.close();
+    store.close();
+    process.exit(0);
+  });
+}
+
+main()
+  .then(() => {
+    if (process.env.INDEXER_ONCE === "true") {
+      process.exit(0);
+    }
+    // Keep process running
+    return new Promise(() => {});
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+import * as dotenv from "dotenv";
+import { startMetricsServer } from "../utils/metricsServer";
+
+dotenv.config();
+
+/**
+ * Standalone DCA Metrics Server
+ *
+ * Serves the persisted execution history without running the executor.
+ * Useful when orders are executed by cron (execute-ready-orders.ts) and
+ * ops still want a Prometheus scrape target.
+ *
+ * Usage: npm run dca:metrics
+ */
+async function main() {
+  const server = startMetricsServer({
+    port: Number(process.env.DCA_METRICS_PORT ?? 9464),
+    host: process.env.DCA_METRICS_HOST || "127.0.0.1",
+  });
+
+  process.on("SIGINT", () => {
+    console.log("\n👋 Stopping metrics server...");
+    server.close();
+    process.exit(0);
+  });
+}
+
+main()
+  .then(() => {
+    // Keep process running
+    return new Promise(() => {});
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
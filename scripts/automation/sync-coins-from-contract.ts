@@ -2,8 +2,9 @@ import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, DeployedContracts, TayebCoin } from "../../config/types";
+import { TayebCoinsConfig, TayebCoin, isReviewOverdue } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+import { readComplianceScreenings } from "../utils/complianceMetadata";
 
 /**
  * Sync coins from ShariaCompliance contract to JSON config
@@ -16,22 +17,23 @@ import { TayebCoinsConfig, DeployedContracts, TayebCoin } from "../../config/typ
  *    - Sets permissible: false for removed coins (keeps them in JSON)
  *    - Updates permissible flag based on contract's verified field
  *    - Updates complianceReason from contract
+ *    - Updates screening (category, methodology, reviewer, review dates) from contract
  *    - Preserves addresses and other metadata
  * 
  * Usage: npx hardhat run scripts/automation/sync-coins-from-contract.ts --network moonbase
  */
 async function main() {
   const config = tayebCoinsConfig as TayebCoinsConfig;
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const { network, deployment: contractsConfig } = await loadActiveDeployment();
 
   console.log("🔄 Syncing coins from contract to JSON config...\n");
 
   // Check if contract is deployed
   const shariaComplianceAddress = contractsConfig.main.shariaCompliance;
   if (!shariaComplianceAddress) {
-    console.error("❌ Error: ShariaCompliance contract not found in deployedContracts.json!");
+    console.error(`❌ Error: ShariaCompliance contract for chain ${network.chainId} not found in deployedContracts.json!`);
     console.log("\n📝 Please deploy contracts first:");
-    console.log("   npx hardhat run scripts/deploy/deploy-core.ts --network moonbase\n");
+    console.log(`   npx hardhat run scripts/deploy/deploy-core.ts --network ${network.name}\n`);
     process.exit(1);
   }
 
@@ -44,6 +46,14 @@ async function main() {
   // Get all coins from contract
   const contractCoins = await shariaCompliance.getAllShariaCoins();
   console.log(`📊 Found ${contractCoins.length} coins in contract`);
+
+  // Screening metadata (null on deployments that predate it)
+  const screenings = await readComplianceScreenings(shariaCompliance, contractCoins);
+  if (screenings) {
+    console.log(`🔎 Found screening metadata for ${screenings.size} coins`);
+  } else {
+    console.log("⚠️  Contract has no compliance metadata, keeping screening from JSON");
+  }
   console.log();
 
   // Create map of contract coins by symbol
@@ -74,6 +84,7 @@ async function main() {
         ...jsonCoin,
         permissible: contractCoin.verified,
         complianceReason: contractCoin.complianceReason,
+        screening: screenings ? screenings.get(jsonCoin.symbol) : jsonCoin.screening,
         // Preserve addresses and other metadata
       });
       console.log(`✅ Updated ${jsonCoin.symbol} - permissible: ${contractCoin.verified}`);
@@ -103,6 +114,7 @@ async function main() {
         complianceReason: contractCoin.complianceReason,
         description: `Auto-synced from contract`,
         permissible: contractCoin.verified,
+        screening: screenings?.get(contractCoin.id),
         addresses: {
           moonbase: null,
         },
@@ -139,6 +151,10 @@ async function main() {
   console.log(`New coins added: ${newCoinsCount}`);
   console.log(`Permissible coins: ${updatedCoins.filter(c => c.permissible).length}`);
   console.log(`Non-permissible coins: ${updatedCoins.filter(c => !c.permissible).length}`);
+  const overdue = updatedCoins.filter(c => c.permissible && isReviewOverdue(c));
+  if (overdue.length > 0) {
+    console.log(`⏰ Review overdue: ${overdue.map(c => c.symbol).join(", ")}`);
+  }
   console.log("=".repeat(60));
   console.log();
   console.log("✅ JSON config updated successfully!");
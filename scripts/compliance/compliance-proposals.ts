@@ -0,0 +1,379 @@
+import { ethers } from "hardhat";
+import * as dotenv from "dotenv";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+
+dotenv.config();
+
+/**
+ * Compliance status change proposals (ShariaCompliance approval workflow)
+ *
+ * A compliance officer proposes a verdict change with evidence, N of the M
+ * registered reviewers approve it, and anyone can execute it once the timelock
+ * after the last required approval has passed. Only approvals from accounts that
+ * are still reviewers count at execution.
+ *
+ * Once a threshold is set, the reviewer set, threshold and timelock can only be
+ * changed the same way: the owner's "config" and "reviewer" actions create
+ * governance proposals that reviewers approve with gov-approve.
+ *
+ * Usage:
+ *   PROPOSAL_ACTION=<action> npx hardhat run scripts/compliance/compliance-proposals.ts --network moonbase
+ *
+ * Actions (inputs as environment variables):
+ *   list      All proposals with their state (default)
+ *   propose   COIN_ID, VERIFIED (true/false), REASON, EVIDENCE - compliance officer
+ *   approve   PROPOSAL_ID - reviewer
+ *   execute   PROPOSAL_ID - anyone, after the timelock
+ *   cancel    PROPOSAL_ID - proposer or owner
+ *   config    Show the workflow settings; the owner can set (or propose) APPROVAL_THRESHOLD and/or TIMELOCK_SECONDS
+ *   reviewer  ACCOUNT, ENABLED (true/false) - owner registers or removes (or proposes to) a reviewer
+ *   officer   ACCOUNT, ENABLED (true/false) - owner allows or revokes a compliance officer
+ *   governance   All governance proposals with their state
+ *   gov-approve  PROPOSAL_ID - reviewer
+ *   gov-execute  PROPOSAL_ID - anyone, after the timelock
+ *   gov-cancel   PROPOSAL_ID - owner
+ */
+
+const ACTIONS = [
+  "list",
+  "propose",
+  "approve",
+  "execute",
+  "cancel",
+  "config",
+  "reviewer",
+  "officer",
+  "governance",
+  "gov-approve",
+  "gov-execute",
+  "gov-cancel",
+] as const;
+type Action = typeof ACTIONS[number];
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value || value.trim() === "") {
+    throw new Error(`${name} is required for PROPOSAL_ACTION=${process.env.PROPOSAL_ACTION}`);
+  }
+  return value.trim();
+}
+
+function requireBool(name: string): boolean {
+  const value = requireEnv(name).toLowerCase();
+  if (value !== "true" && value !== "false") {
+    throw new Error(`${name} must be true or false`);
+  }
+  return value === "true";
+}
+
+function requireProposalId(): bigint {
+  const value = requireEnv("PROPOSAL_ID");
+  if (!/^\d+$/.test(value)) {
+    throw new Error("PROPOSAL_ID must be a positive integer");
+  }
+  return BigInt(value);
+}
+
+// GovernanceAction enum in ShariaCompliance
+enum GovernanceAction {
+  SetReviewer,
+  SetApprovalThreshold,
+  SetTimelockDuration,
+}
+
+function formatTime(seconds: bigint): string {
+  return new Date(Number(seconds) * 1000).toISOString();
+}
+
+/**
+ * Human-readable state of a proposal at the given time
+ * activeApprovals counts only approvers that are still reviewers
+ */
+function describeState(proposal: any, activeApprovals: bigint, threshold: bigint, now: number): string {
+  if (proposal.executed) return "✅ executed";
+  if (proposal.cancelled) return "🚫 cancelled";
+  if (proposal.executableAt === 0n || activeApprovals < threshold) {
+    return `🗳️  awaiting approvals (${activeApprovals}/${threshold})`;
+  }
+  if (BigInt(now) < proposal.executableAt) return `⏳ timelocked until ${formatTime(proposal.executableAt)}`;
+  return "🟢 ready to execute";
+}
+
+// Custom error name when the contract reverted with one
+function describeGovernanceChange(proposal: any): string {
+  switch (Number(proposal.action)) {
+    case GovernanceAction.SetReviewer:
+      return `${proposal.value === 1n ? "add" : "remove"} reviewer ${proposal.account}`;
+    case GovernanceAction.SetApprovalThreshold:
+      return `approval threshold → ${proposal.value}`;
+    default:
+      return `timelock → ${proposal.value}s`;
+  }
+}
+
+// Log the ID from the GovernanceChangeProposed event of a proposal transaction
+async function logGovernanceProposal(shariaCompliance: any, tx: any, summary: string) {
+  const receipt = await tx.wait();
+  let proposalId: bigint | undefined;
+  for (const log of receipt?.logs ?? []) {
+    try {
+      const parsed = shariaCompliance.interface.parseLog(log);
+      if (parsed?.name === "GovernanceChangeProposed") {
+        proposalId = parsed.args.proposalId;
+      }
+    } catch {
+      // Not a ShariaCompliance log
+    }
+  }
+  console.log(`🗳️  Proposed ${summary} (governance proposal #${proposalId}); reviewers approve with PROPOSAL_ACTION=gov-approve`);
+  console.log(`   Tx: ${tx.hash}`);
+}
+
+function describeError(error: any): string {
+  return error.revert?.name
+    ? `${error.revert.name}(${error.revert.args.join(", ")})`
+    : error.shortMessage || error.message;
+}
+
+async function main() {
+  const action = (process.env.PROPOSAL_ACTION || "list") as Action;
+  if (!ACTIONS.includes(action)) {
+    console.error(`❌ Unknown PROPOSAL_ACTION "${action}". Use one of: ${ACTIONS.join(", ")}`);
+    process.exit(1);
+  }
+
+  const { network, deployment } = await loadActiveDeployment();
+  if (!deployment.main.shariaCompliance) {
+    console.error(`❌ Error: ShariaCompliance not deployed on chain ${network.chainId}`);
+    process.exit(1);
+  }
+
+  const [signer] = await ethers.getSigners();
+  const shariaCompliance = await ethers.getContractAt("ShariaCompliance", deployment.main.shariaCompliance);
+
+  console.log("🏛️  ShariaCompliance:", deployment.main.shariaCompliance);
+  console.log("👤 Account:", signer.address);
+  console.log();
+
+  try {
+    switch (action) {
+      case "list": {
+        const [count, threshold, block] = await Promise.all([
+          shariaCompliance.proposalCount(),
+          shariaCompliance.approvalThreshold(),
+          ethers.provider.getBlock("latest"),
+        ]);
+        if (count === 0n) {
+          console.log("📭 No proposals yet");
+          break;
+        }
+
+        const proposals = await shariaCompliance.getProposals(1, count);
+        console.log(`📋 ${proposals.length} proposals (threshold: ${threshold} approvals)\n`);
+        for (const proposal of proposals) {
+          const activeApprovals = await shariaCompliance.getActiveApprovals(proposal.id);
+          console.log(`#${proposal.id} ${proposal.coinId} → ${proposal.verified ? "compliant" : "non-compliant"}`);
+          console.log(`   State:    ${describeState(proposal, activeApprovals, threshold, block!.timestamp)}`);
+          console.log(`   Reason:   ${proposal.complianceReason}`);
+          console.log(`   Evidence: ${proposal.evidence || "—"}`);
+          console.log(`   Proposer: ${proposal.proposer} at ${formatTime(proposal.createdAt)}`);
+          console.log();
+        }
+        break;
+      }
+
+      case "propose": {
+        const coinId = requireEnv("COIN_ID");
+        const verified = requireBool("VERIFIED");
+        const reason = requireEnv("REASON");
+        const evidence = requireEnv("EVIDENCE");
+
+        const tx = await shariaCompliance.proposeStatusChange(coinId, verified, reason, evidence);
+        const receipt = await tx.wait();
+        let proposalId: bigint | undefined;
+        for (const log of receipt?.logs ?? []) {
+          try {
+            const parsed = shariaCompliance.interface.parseLog(log);
+            if (parsed?.name === "StatusChangeProposed") {
+              proposalId = parsed.args.proposalId;
+            }
+          } catch {
+            // Not a ShariaCompliance log
+          }
+        }
+        console.log(`✅ Proposed marking ${coinId} ${verified ? "compliant" : "non-compliant"} (proposal #${proposalId})`);
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "approve": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.approveProposal(proposalId);
+        await tx.wait();
+        const proposal = await shariaCompliance.getProposal(proposalId);
+        const activeApprovals = await shariaCompliance.getActiveApprovals(proposalId);
+        console.log(`✅ Approved proposal #${proposalId} (${activeApprovals} active approvals)`);
+        if (proposal.executableAt !== 0n) {
+          console.log(`⏳ Executable from ${formatTime(proposal.executableAt)}`);
+        }
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "execute": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.executeProposal(proposalId);
+        await tx.wait();
+        const proposal = await shariaCompliance.getProposal(proposalId);
+        console.log(`✅ Executed proposal #${proposalId}: ${proposal.coinId} is now ${proposal.verified ? "compliant" : "non-compliant"}`);
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "cancel": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.cancelProposal(proposalId);
+        await tx.wait();
+        console.log(`🚫 Cancelled proposal #${proposalId}`);
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "config": {
+        // Direct changes only until a threshold is set; after that they need reviewer approval
+        const workflowOn = (await shariaCompliance.approvalThreshold()) > 0n;
+        if (process.env.TIMELOCK_SECONDS) {
+          const duration = BigInt(requireEnv("TIMELOCK_SECONDS"));
+          if (workflowOn) {
+            const tx = await shariaCompliance.proposeGovernanceChange(
+              GovernanceAction.SetTimelockDuration,
+              ethers.ZeroAddress,
+              duration
+            );
+            await logGovernanceProposal(shariaCompliance, tx, `a ${duration}s timelock`);
+          } else {
+            await (await shariaCompliance.setTimelockDuration(duration)).wait();
+            console.log(`✅ Timelock set to ${duration}s`);
+          }
+        }
+        if (process.env.APPROVAL_THRESHOLD) {
+          const threshold = BigInt(requireEnv("APPROVAL_THRESHOLD"));
+          if (workflowOn) {
+            const tx = await shariaCompliance.proposeGovernanceChange(
+              GovernanceAction.SetApprovalThreshold,
+              ethers.ZeroAddress,
+              threshold
+            );
+            await logGovernanceProposal(shariaCompliance, tx, `an approval threshold of ${threshold}`);
+          } else {
+            await (await shariaCompliance.setApprovalThreshold(threshold)).wait();
+            console.log(`✅ Approval threshold set to ${threshold}`);
+          }
+        }
+
+        const [threshold, reviewerCount, timelock] = await Promise.all([
+          shariaCompliance.approvalThreshold(),
+          shariaCompliance.reviewerCount(),
+          shariaCompliance.timelockDuration(),
+        ]);
+        console.log("⚙️  Approval workflow");
+        console.log(`   Approvals required: ${threshold} of ${reviewerCount} reviewers`);
+        console.log(`   Timelock: ${timelock}s`);
+        console.log(
+          threshold === 0n
+            ? "   ⚠️  Threshold 0: the owner can still change verdicts directly"
+            : "   🔒 Direct updateComplianceStatus() and settings changes are disabled; use governance proposals"
+        );
+        break;
+      }
+
+      case "reviewer":
+      case "officer": {
+        const account = ethers.getAddress(requireEnv("ACCOUNT"));
+        const enabled = requireBool("ENABLED");
+        if (action === "reviewer" && (await shariaCompliance.approvalThreshold()) > 0n) {
+          const tx = await shariaCompliance.proposeGovernanceChange(
+            GovernanceAction.SetReviewer,
+            account,
+            enabled ? 1n : 0n
+          );
+          await logGovernanceProposal(shariaCompliance, tx, `${enabled ? "adding" : "removing"} reviewer ${account}`);
+          break;
+        }
+        const tx = action === "reviewer"
+          ? await shariaCompliance.setReviewer(account, enabled)
+          : await shariaCompliance.setComplianceOfficer(account, enabled);
+        await tx.wait();
+        const role = action === "reviewer" ? "reviewer" : "compliance officer";
+        console.log(`✅ ${account} ${enabled ? "is now a" : "is no longer a"} ${role}`);
+        break;
+      }
+
+      case "governance": {
+        const [count, threshold, block] = await Promise.all([
+          shariaCompliance.governanceProposalCount(),
+          shariaCompliance.approvalThreshold(),
+          ethers.provider.getBlock("latest"),
+        ]);
+        if (count === 0n) {
+          console.log("📭 No governance proposals yet");
+          break;
+        }
+
+        const proposals = await shariaCompliance.getGovernanceProposals(1, count);
+        console.log(`📋 ${proposals.length} governance proposals (threshold: ${threshold} approvals)\n`);
+        for (const proposal of proposals) {
+          const activeApprovals = await shariaCompliance.getActiveGovernanceApprovals(proposal.id);
+          console.log(`#${proposal.id} ${describeGovernanceChange(proposal)}`);
+          console.log(`   State:    ${describeState(proposal, activeApprovals, threshold, block!.timestamp)}`);
+          console.log(`   Proposer: ${proposal.proposer} at ${formatTime(proposal.createdAt)}`);
+          console.log();
+        }
+        break;
+      }
+
+      case "gov-approve": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.approveGovernanceChange(proposalId);
+        await tx.wait();
+        const proposal = await shariaCompliance.getGovernanceProposal(proposalId);
+        const activeApprovals = await shariaCompliance.getActiveGovernanceApprovals(proposalId);
+        console.log(`✅ Approved governance proposal #${proposalId} (${activeApprovals} active approvals)`);
+        if (proposal.executableAt !== 0n) {
+          console.log(`⏳ Executable from ${formatTime(proposal.executableAt)}`);
+        }
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "gov-execute": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.executeGovernanceChange(proposalId);
+        await tx.wait();
+        const proposal = await shariaCompliance.getGovernanceProposal(proposalId);
+        console.log(`✅ Executed governance proposal #${proposalId}: ${describeGovernanceChange(proposal)}`);
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+
+      case "gov-cancel": {
+        const proposalId = requireProposalId();
+        const tx = await shariaCompliance.cancelGovernanceChange(proposalId);
+        await tx.wait();
+        console.log(`🚫 Cancelled governance proposal #${proposalId}`);
+        console.log(`   Tx: ${tx.hash}`);
+        break;
+      }
+    }
+  } catch (error: any) {
+    console.error("❌", describeError(error));
+    process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
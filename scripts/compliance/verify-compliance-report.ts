@@ -0,0 +1,146 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as dotenv from "dotenv";
+import { canonicalJson } from "../../config/canonicalJson";
+
+dotenv.config();
+
+/**
+ * Verify a wallet compliance report exported by the Sharia scanner
+ *
+ * Checks that:
+ *   1. The payload still matches its hash (keccak256 of the canonical JSON)
+ *   2. The report was made on this chain, at a block whose timestamp matches
+ *   3. At that block, the wallet held exactly the registered coins listed, with
+ *      the same balances, and each coin had the reported verdict and reason
+ *
+ * Reading old blocks needs an archive node; public RPCs may only keep recent state.
+ *
+ * Usage:
+ *   REPORT_FILE=./tayeb-compliance-1a2b3c-1234567.json npx hardhat run scripts/compliance/verify-compliance-report.ts --network moonbase
+ */
+
+interface ReportHolding {
+  coinId: string;
+  symbol: string;
+  token: string;
+  balance: string;
+  decimals: number;
+  verified: boolean;
+  complianceReason: string;
+}
+
+interface ComplianceReport {
+  payload: {
+    kind: string;
+    version: number;
+    chainId: number;
+    contract: string;
+    wallet: string;
+    blockNumber: number;
+    blockTimestamp: number;
+    nativeBalance: string;
+    holdings: ReportHolding[];
+  };
+  payloadHash: string;
+}
+
+async function main() {
+  const reportFile = process.env.REPORT_FILE;
+  if (!reportFile) {
+    console.error("❌ REPORT_FILE is required (path to the exported report JSON)");
+    process.exit(1);
+  }
+
+  const report = JSON.parse(fs.readFileSync(reportFile, "utf8")) as ComplianceReport;
+  const { payload } = report;
+  if (payload?.kind !== "tayeb-wallet-compliance-report" || payload.version !== 1) {
+    console.error("❌ Not a version 1 Tayeb wallet compliance report");
+    process.exit(1);
+  }
+
+  const failures: string[] = [];
+  const check = (ok: boolean, message: string) => {
+    console.log(`   ${ok ? "✅" : "❌"} ${message}`);
+    if (!ok) failures.push(message);
+  };
+
+  console.log("📄 Report:", reportFile);
+  console.log("👛 Wallet:", payload.wallet);
+  console.log("🏛️  ShariaCompliance:", payload.contract);
+  console.log(`📦 Block: ${payload.blockNumber}`);
+  console.log();
+
+  // 1. Integrity
+  console.log("🔐 Integrity");
+  const hash = ethers.keccak256(ethers.toUtf8Bytes(canonicalJson(payload)));
+  check(hash === report.payloadHash?.toLowerCase(), `Payload hash ${report.payloadHash}`);
+
+  // 2. Chain and block
+  console.log("\n⛓️  Chain");
+  const network = await ethers.provider.getNetwork();
+  check(network.chainId === BigInt(payload.chainId), `Chain ID ${payload.chainId} (connected: ${network.chainId})`);
+  const block = await ethers.provider.getBlock(payload.blockNumber);
+  check(
+    block !== null && block.timestamp === payload.blockTimestamp,
+    `Block ${payload.blockNumber} at ${new Date(payload.blockTimestamp * 1000).toISOString()}`
+  );
+  if (failures.length > 0) {
+    console.error(`\n❌ Report rejected (${failures.length} failed checks)`);
+    process.exit(1);
+  }
+
+  // 3. State at the block
+  console.log("\n🕰️  State at the block");
+  const blockTag = payload.blockNumber;
+  const shariaCompliance = await ethers.getContractAt("ShariaCompliance", payload.contract);
+  const coins = await shariaCompliance.getAllShariaCoins({ blockTag });
+  const reported = new Map(payload.holdings.map((holding) => [holding.token.toLowerCase(), holding]));
+
+  for (const coin of coins) {
+    // Coins registered without a token contract have no balance to check
+    if (coin.tokenAddress === ethers.ZeroAddress) continue;
+
+    const token = await ethers.getContractAt("MockERC20", coin.tokenAddress);
+    const balance: bigint = await token.balanceOf(payload.wallet, { blockTag });
+    const holding = reported.get(coin.tokenAddress.toLowerCase());
+    reported.delete(coin.tokenAddress.toLowerCase());
+
+    if (balance === 0n) {
+      if (holding) check(false, `${coin.symbol}: reported ${holding.balance} but the wallet held none`);
+      continue;
+    }
+    if (!holding) {
+      check(false, `${coin.symbol}: held ${balance} but missing from the report`);
+      continue;
+    }
+
+    check(holding.balance === balance.toString(), `${coin.symbol}: balance ${balance}`);
+    check(
+      holding.verified === coin.verified && holding.complianceReason === coin.complianceReason,
+      `${coin.symbol}: ${coin.verified ? "compliant" : "non-compliant"} ("${coin.complianceReason}")`
+    );
+  }
+
+  // Listed tokens that weren't registered at the block
+  for (const holding of reported.values()) {
+    check(false, `${holding.symbol}: not a registered coin at block ${blockTag}`);
+  }
+
+  const nativeBalance = await ethers.provider.getBalance(payload.wallet, blockTag);
+  check(nativeBalance.toString() === payload.nativeBalance, `Native DEV balance ${nativeBalance}`);
+
+  console.log();
+  if (failures.length > 0) {
+    console.error(`❌ Report does not match the chain (${failures.length} failed checks)`);
+    process.exit(1);
+  }
+  console.log(`✅ Report verified: ${payload.holdings.length} holdings match block ${payload.blockNumber}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
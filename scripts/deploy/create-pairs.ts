@@ -1,10 +1,8 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, getNonStablecoins, DeployedContracts } from "../../config/types";
+import { TayebCoinsConfig, getNonStablecoins, getCoinAddress } from "../../config/types";
 import { createOrVerifyPair } from "../utils/deployHelpers";
+import { loadActiveDeployment, updateDeployment } from "../utils/deploymentRegistry";
 
 /**
  * Create Liquidity Pairs
@@ -19,15 +17,16 @@ import { createOrVerifyPair } from "../utils/deployHelpers";
 async function main() {
   const [deployer] = await ethers.getSigners();
   const config = tayebCoinsConfig as TayebCoinsConfig;
+  const { network, deployment } = await loadActiveDeployment();
 
   console.log("🔗 Creating liquidity pairs...\n");
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
   console.log("Account:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "DEV\n");
 
-  // Load deployed contracts
-  const existingPairsConfig = deployedContractsConfig as DeployedContracts;
-  const existingPairs = existingPairsConfig.pairs || {};
-  const factoryAddress = existingPairsConfig.amm?.factory;
+  // Load deployed contracts for the active chain
+  const existingPairs = deployment.pairs || {};
+  const factoryAddress = deployment.amm.factory;
 
   if (!factoryAddress || factoryAddress === "null") {
     console.error("❌ Factory not found. Please run deploy-amm-core.ts first.");
@@ -36,11 +35,11 @@ async function main() {
 
   const factory = await ethers.getContractAt("SimpleFactory", factoryAddress);
 
-  // Get all deployed token addresses from tayebCoins.json
+  // Get all deployed token addresses for the active chain
   const deployedTokens: { [key: string]: string } = {};
   for (const coin of config.coins) {
-    const address = coin.addresses.moonbase;
-    if (address && address !== "null") {
+    const address = getCoinAddress(coin, deployment);
+    if (address) {
       deployedTokens[coin.symbol] = address;
     } else {
       console.error(`❌ Token ${coin.symbol} not deployed. Please run deploy-tokens.ts first.`);
@@ -62,8 +61,6 @@ async function main() {
   let existingPairsCount = 0;
   let newPairsCount = 0;
   
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-  
   // Helper to create a pair and track counts
   async function createPairAndTrack(
     tokenASymbol: string,
@@ -94,20 +91,18 @@ async function main() {
       
       // Save address immediately after creation (incremental save)
       try {
-        const currentConfig = JSON.parse(fs.readFileSync(contractsPath, "utf8"));
-        const updatedPairs = {
-          ...(currentConfig.pairs || {}),
-          [pairKey]: pairAddress,
-        };
-        
-        currentConfig.pairs = updatedPairs;
-        currentConfig.lastDeployed = new Date().toISOString();
-        currentConfig.metadata = {
-          ...currentConfig.metadata,
-          deployer: deployer.address,
-        };
-        
-        fs.writeFileSync(contractsPath, JSON.stringify(currentConfig, null, 2) + "\n");
+        updateDeployment(network, (current) => ({
+          ...current,
+          pairs: {
+            ...(current.pairs || {}),
+            [pairKey]: pairAddress,
+          },
+          lastDeployed: new Date().toISOString(),
+          metadata: {
+            ...current.metadata,
+            deployer: deployer.address,
+          },
+        }));
         // Update existingPairs to reflect the new pair for subsequent iterations
         existingPairs[pairKey] = pairAddress;
       } catch (error) {
@@ -138,16 +133,16 @@ async function main() {
   // Final sync - safety net to ensure consistency
   // ============================================================================
   console.log("📝 Performing final sync...");
-  const currentConfig = JSON.parse(fs.readFileSync(contractsPath, "utf8"));
 
   // Only update metadata (addresses should already be saved incrementally)
-  currentConfig.metadata = {
-    ...currentConfig.metadata,
-    deployer: deployer.address,
-  };
-  currentConfig.lastDeployed = new Date().toISOString();
-
-  fs.writeFileSync(contractsPath, JSON.stringify(currentConfig, null, 2) + "\n");
+  updateDeployment(network, (current) => ({
+    ...current,
+    lastDeployed: new Date().toISOString(),
+    metadata: {
+      ...current.metadata,
+      deployer: deployer.address,
+    },
+  }));
   console.log("✅ Final sync complete");
   console.log();
 
@@ -170,7 +165,7 @@ async function main() {
   console.log("=".repeat(60));
   console.log();
   console.log("💡 Next Steps:");
-  console.log("Mint tokens: npx hardhat run scripts/deploy/mint-tokens.ts --network moonbase");
+  console.log(`Mint tokens: npx hardhat run scripts/deploy/mint-tokens.ts --network ${network.name}`);
   console.log();
 }
 
@@ -1,6 +1,5 @@
+import hre from "hardhat";
 import { execSync } from "child_process";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { DeployedContracts } from "../../config/types";
 
 /**
  * Full Deployment Wrapper
@@ -13,11 +12,13 @@ import { DeployedContracts } from "../../config/types";
  * 5. Deploys main contracts (deploy-core.ts)
  * 
  * All scripts are idempotent and safe to re-run.
+ * Each step runs against the same `--network` this wrapper was started with,
+ * and addresses are saved under that chain's section of deployedContracts.json.
  */
 async function main() {
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const networkName = hre.network.name;
 
-  console.log("🚀 Tayeb Full Deployment\n");
+  console.log(`🚀 Tayeb Full Deployment (${networkName})\n`);
   console.log("This script will deploy the complete infrastructure:\n");
   console.log("1. Tokens");
   console.log("2. AMM Core (Factory & Router)");
@@ -37,7 +38,7 @@ async function main() {
     console.log(`📦 Deploying ${name}...`);
     console.log("=".repeat(60));
     try {
-      execSync(`npx hardhat run scripts/deploy/${script} --network moonbase`, {
+      execSync(`npx hardhat run scripts/deploy/${script} --network ${networkName}`, {
         stdio: "inherit",
         timeout,
       });
@@ -56,7 +57,7 @@ async function main() {
   console.log("=".repeat(60));
   console.log("\n📝 All addresses saved to config JSON files");
   console.log("\n💡 Next steps:");
-  console.log("Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network moonbase");
+  console.log(`Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network ${networkName}`);
   console.log("Test your contracts!");
 }
 
@@ -1,9 +1,11 @@
 import { ethers } from "hardhat";
-import * as fs from "fs";
-import * as path from "path";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { DeployedContracts } from "../../config/types";
+import { WRAPPED_NATIVE_SYMBOL } from "../../config/types";
 import { deployOrVerifyContract } from "../utils/deployHelpers";
+import { loadActiveDeployment, updateDeployment } from "../utils/deploymentRegistry";
+
+/** Wrapped DEV on Moonbase Alpha (chain 1287) */
+const MOONBASE_CHAIN_ID = 1287;
+const MOONBASE_WETH = "0xD909178CC99d318e4D46e7E66a972955859670E1";
 
 /**
  * Deploy AMM Core Infrastructure (Factory and Router)
@@ -15,15 +17,29 @@ import { deployOrVerifyContract } from "../utils/deployHelpers";
  * Features:
  * - Idempotent: Skips deployment if already exists (checks JSON + on-chain)
  * - Safe to re-run: Won't redeploy existing contracts
+ * - WETH: Moonbase Wrapped DEV on chain 1287, otherwise the wrapped native
+ *   token deployed by deploy-tokens.ts (WETH9 on local networks)
  */
 async function main() {
   const [deployer] = await ethers.getSigners();
+  const { network, deployment } = await loadActiveDeployment();
 
   console.log("🏗️  Deploying AMM Core Infrastructure...\n");
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
   console.log("Account:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "DEV\n");
 
-  const WETH_ADDRESS = ethers.getAddress("0xD909178CC99d318e4D46e7E66a972955859670E1".toLowerCase());
+  const configuredWeth =
+    deployment.amm.weth ||
+    (network.chainId === MOONBASE_CHAIN_ID ? MOONBASE_WETH : null) ||
+    deployment.tokens[WRAPPED_NATIVE_SYMBOL];
+  if (!configuredWeth) {
+    console.error(`❌ No WETH address configured for chain ${network.chainId}.`);
+    console.log(`   Run deploy-tokens.ts first (deploys WETH9 as ${WRAPPED_NATIVE_SYMBOL}),`);
+    console.log("   or set amm.weth in this chain's section of deployedContracts.json.\n");
+    process.exit(1);
+  }
+  const WETH_ADDRESS = ethers.getAddress(configuredWeth.toLowerCase());
 
   // ============================================================================
   // Deploy Factory
@@ -31,7 +47,7 @@ async function main() {
   console.log("🏭 Deploying SimpleFactory...");
   const factoryAddress = await deployOrVerifyContract(
     "SimpleFactory",
-    deployedContractsConfig.amm?.factory,
+    deployment.amm.factory,
     async () => {
       const SimpleFactory = await ethers.getContractFactory("SimpleFactory");
       return await SimpleFactory.deploy();
@@ -45,7 +61,7 @@ async function main() {
   console.log("🔀 Deploying SimpleRouter...");
   const routerAddress = await deployOrVerifyContract(
     "SimpleRouter",
-    deployedContractsConfig.amm?.router,
+    deployment.amm.router,
     async () => {
       const SimpleRouter = await ethers.getContractFactory("SimpleRouter");
       return await SimpleRouter.deploy(factoryAddress, WETH_ADDRESS);
@@ -57,12 +73,8 @@ async function main() {
   // Update deployedContracts.json with AMM addresses
   // ============================================================================
   console.log("📝 Updating deployedContracts.json with AMM addresses...");
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-  const existingPairsConfig = deployedContractsConfig as DeployedContracts;
-
-  const updatedContracts = {
-    ...existingPairsConfig,
-    network: "moonbase",
+  updateDeployment(network, (current) => ({
+    ...current,
     lastDeployed: new Date().toISOString(),
     amm: {
       factory: factoryAddress,
@@ -70,13 +82,11 @@ async function main() {
       weth: WETH_ADDRESS,
     },
     metadata: {
-      ...existingPairsConfig.metadata,
+      ...current.metadata,
       deployer: deployer.address,
     },
-  };
-
-  fs.writeFileSync(contractsPath, JSON.stringify(updatedContracts, null, 2) + "\n");
-  console.log("✅ Updated deployedContracts.json with AMM addresses");
+  }));
+  console.log(`✅ Updated deployedContracts.json (chain ${network.chainId}) with AMM addresses`);
   console.log();
 
   // ============================================================================
@@ -92,7 +102,7 @@ async function main() {
   console.log("=".repeat(60));
   console.log();
   console.log("💡 Next Steps:");
-  console.log("Create pairs: npx hardhat run scripts/deploy/create-pairs.ts --network moonbase");
+  console.log(`Create pairs: npx hardhat run scripts/deploy/create-pairs.ts --network ${network.name}`);
   console.log();
 }
 
@@ -1,23 +1,22 @@
 import { ethers } from "hardhat";
-import hre from "hardhat";
 import * as dotenv from "dotenv";
-import * as fs from "fs";
-import * as path from "path";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import chainConfig from "../../config/chainConfig.json";
-import { TayebCoinsConfig, DeployedContracts } from "../../config/types";
+import { TayebCoinsConfig, getCoinAddress } from "../../config/types";
 import { deployOrVerifyContract } from "../utils/deployHelpers";
+import { loadActiveDeployment, updateDeployment } from "../utils/deploymentRegistry";
+import { toContractMetadata } from "../utils/complianceMetadata";
 
 /**
- * Deploy Main Contracts to Moonbase Alpha Testnet
+ * Deploy Main Contracts (Moonbase Alpha Testnet by default)
  * 
  * This script deploys:
  * 1. ShariaCompliance
  * 2. ShariaSwap
  * 3. ShariaDCA
  * 
- * Reads AMM addresses and token config from JSON files
+ * Reads AMM addresses and token config from the active chain's section
+ * of deployedContracts.json
  */
 async function main() {
   // Load environment variables and config
@@ -25,23 +24,23 @@ async function main() {
   const config = tayebCoinsConfig as TayebCoinsConfig;
 
   const [deployer] = await ethers.getSigners();
+  const { network, deployment: contractsConfig } = await loadActiveDeployment();
 
-  console.log("🚀 Deploying Main Contracts to Moonbase Alpha Testnet...\n");
+  console.log(`🚀 Deploying Main Contracts to ${network.name} (chain ${network.chainId})...\n`);
   console.log("Account:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "DEV\n");
 
   // ============================================================================
-  // Read AMM addresses from deployedContracts.json
+  // Read AMM addresses from deployedContracts.json (active chain)
   // ============================================================================
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
-  const WETH_ADDRESS = contractsConfig.amm.weth || ethers.getAddress("0xD909178CC99d318e4D46e7E66a972955859670E1".toLowerCase());
+  const WETH_ADDRESS = contractsConfig.amm.weth;
   const DEX_ROUTER = contractsConfig.amm.router;
   const FACTORY_ADDRESS = contractsConfig.amm.factory;
 
-  if (!DEX_ROUTER || !FACTORY_ADDRESS) {
-    console.error("❌ Error: AMM addresses not found in deployedContracts.json!");
+  if (!DEX_ROUTER || !FACTORY_ADDRESS || !WETH_ADDRESS) {
+    console.error(`❌ Error: AMM addresses for chain ${network.chainId} not found in deployedContracts.json!`);
     console.log("\n📝 Please run deploy-amm-core.ts first:");
-    console.log("   npx hardhat run scripts/deploy/deploy-amm-core.ts --network moonbase\n");
+    console.log(`   npx hardhat run scripts/deploy/deploy-amm-core.ts --network ${network.name}\n`);
     process.exit(1);
   }
 
@@ -92,7 +91,7 @@ async function main() {
   console.log("📅 Deploying ShariaDCA...");
   
   // Get block time configuration from chainConfig.json
-  const networkName = hre.network.name;
+  const networkName = network.name;
   const networkConfig = (chainConfig as any)[networkName];
   const BLOCK_TIME = networkConfig?.blockTime || 6; // Default to 6 if not found
   const BLOCKS_BEFORE_HOUR = networkConfig?.blocksBeforeHour || 2; // Default to 2 if not found
@@ -122,26 +121,20 @@ async function main() {
   // Update deployedContracts.json with main contract addresses
   // ============================================================================
   console.log("📝 Updating deployedContracts.json with main contract addresses...");
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-
-  const updatedContracts = {
-    ...contractsConfig,
-    network: "moonbase",
+  updateDeployment(network, (current) => ({
+    ...current,
     lastDeployed: new Date().toISOString(),
-    amm: contractsConfig.amm, // Preserve AMM addresses if already deployed
     main: {
       shariaCompliance: shariaComplianceAddress,
       shariaSwap: shariaSwapAddress,
       shariaDCA: shariaDCAAddress,
     },
     metadata: {
-      ...contractsConfig.metadata,
+      ...current.metadata,
       deployer: deployer.address,
     },
-  };
-
-  fs.writeFileSync(contractsPath, JSON.stringify(updatedContracts, null, 2) + "\n");
-  console.log("✅ Updated deployedContracts.json with main contract addresses");
+  }));
+  console.log(`✅ Updated deployedContracts.json (chain ${network.chainId}) with main contract addresses`);
   console.log();
 
   // ============================================================================
@@ -167,9 +160,9 @@ async function main() {
   
   for (const coin of config.coins) {
     // Update coin registration to include address
-    const tokenAddress = coin.addresses.moonbase;
+    const tokenAddress = getCoinAddress(coin, contractsConfig) || ethers.ZeroAddress;
     
-    if (!tokenAddress) {
+    if (tokenAddress === ethers.ZeroAddress) {
         console.warn(`⚠️  Warning: ${coin.symbol} address not found, registering without address...`);
     }
     
@@ -204,12 +197,52 @@ async function main() {
   console.log(`\n📊 Registration summary: ${registeredCount} new, ${skippedCount} already registered`);
   console.log();
 
+  // ============================================================================
+  // Record screening metadata (from config) - Idempotent
+  // ============================================================================
+  const screenedCoins = config.coins.filter((coin) => coin.screening);
+  if (screenedCoins.length > 0) {
+    console.log("🔎 Recording screening metadata in ShariaCompliance...");
+
+    for (const coin of screenedCoins) {
+      try {
+        const metadata = toContractMetadata(coin.screening!);
+        const current = await shariaCompliance.getComplianceMetadata(coin.symbol);
+        if (current.documentHash === metadata.documentHash && current.reviewedAt === metadata.reviewedAt) {
+          console.log(`⏭️  ${coin.symbol} screening already recorded, skipping...`);
+          continue;
+        }
+
+        const tx = await shariaCompliance.setComplianceMetadata(coin.symbol, metadata);
+        await tx.wait();
+        console.log(`✅ Recorded ${coin.symbol} screening (${coin.screening!.category}, reviewed by ${coin.screening!.reviewer})`);
+      } catch (error: any) {
+        console.warn(`⚠️  Failed to record ${coin.symbol} screening:`, error.message);
+      }
+    }
+    console.log();
+  }
+
   // Note: ShariaSwap and ShariaDCA now query ShariaCompliance directly
   // No separate registration needed - addresses are stored in ShariaCompliance
   console.log("✅ Token addresses are now stored in ShariaCompliance");
   console.log("   ShariaSwap and ShariaDCA will query ShariaCompliance automatically");
   console.log();
 
+  // ============================================================================
+  // Authorize DCA keeper (the owner can always run performUpkeep)
+  // ============================================================================
+  const keeperAddress = process.env.DCA_KEEPER_ADDRESS;
+  if (keeperAddress) {
+    if (await shariaDCA.keepers(keeperAddress)) {
+      console.log(`⏭️  Keeper ${keeperAddress} already authorized, skipping...`);
+    } else {
+      await (await shariaDCA.setKeeper(keeperAddress, true)).wait();
+      console.log(`✅ Authorized DCA keeper ${keeperAddress}`);
+    }
+    console.log();
+  }
+
   // ============================================================================
   // Summary
   // ============================================================================
@@ -223,16 +256,16 @@ async function main() {
   console.log("=".repeat(60));
   console.log();
   console.log("🔧 Next Steps:");
-  console.log("1. Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network moonbase");
+  console.log(`1. Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network ${network.name}`);
   console.log("2. Test swaps through ShariaSwap");
   console.log("3. Register more Sharia-compliant tokens via registerShariaCoin()");
-  console.log("4. Run automation script: npx hardhat run scripts/automation/auto-execute-dca.ts --network moonbase");
+  console.log(`4. Run automation script: npx hardhat run scripts/automation/auto-execute-dca.ts --network ${network.name}`);
   console.log();
   console.log("🔍 Verify contracts on Moonscan (optional) - requires ETHERSCAN_API_KEY");
   console.log("Get API key from: https://moonscan.io/myapikey");
-  console.log(`npx hardhat verify --network moonbase ${shariaComplianceAddress}`);
-  console.log(`npx hardhat verify --network moonbase ${shariaSwapAddress} ${shariaComplianceAddress} ${DEX_ROUTER} ${WETH_ADDRESS} ${FACTORY_ADDRESS}`);
-  console.log(`npx hardhat verify --network moonbase ${shariaDCAAddress} ${shariaComplianceAddress} ${DEX_ROUTER} ${FACTORY_ADDRESS} ${WETH_ADDRESS} ${BLOCK_TIME} ${BLOCKS_BEFORE_HOUR}`);
+  console.log(`npx hardhat verify --network ${network.name} ${shariaComplianceAddress}`);
+  console.log(`npx hardhat verify --network ${network.name} ${shariaSwapAddress} ${shariaComplianceAddress} ${DEX_ROUTER} ${WETH_ADDRESS} ${FACTORY_ADDRESS}`);
+  console.log(`npx hardhat verify --network ${network.name} ${shariaDCAAddress} ${shariaComplianceAddress} ${DEX_ROUTER} ${FACTORY_ADDRESS} ${WETH_ADDRESS} ${BLOCK_TIME} ${BLOCKS_BEFORE_HOUR}`);
 }
 
 main()
@@ -2,9 +2,14 @@ import { ethers } from "hardhat";
 import * as fs from "fs";
 import * as path from "path";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, DeployedContracts } from "../../config/types";
+import {
+  TayebCoinsConfig,
+  getCoinAddress,
+  isCoinAddressNetwork,
+  isWrappedNativeCoin,
+} from "../../config/types";
 import { deployOrVerifyContract } from "../utils/deployHelpers";
+import { loadActiveDeployment, updateDeployment } from "../utils/deploymentRegistry";
 
 /**
  * Deploy Mock Tokens - Initial Tayeb Coins
@@ -15,23 +20,29 @@ import { deployOrVerifyContract } from "../utils/deployHelpers";
  * - Idempotent: Skips tokens already deployed (checks JSON + on-chain)
  * - Incremental saves: Saves address immediately after each token deployment
  * - Safe to re-run: Won't redeploy existing tokens
+ * - Network-aware: Writes into the active chain's section of deployedContracts.json
+ * - Wrapped native coin (DEV): deployed as WETH9 when the chain has no address for it
+ *   (Moonbase Alpha uses the existing Wrapped DEV from tayebCoins.json)
  */
 async function main() {
   const [deployer] = await ethers.getSigners();
   const config = tayebCoinsConfig as TayebCoinsConfig;
+  const { network, deployment } = await loadActiveDeployment();
 
   console.log("📝 Deploying Mock Tokens (Initial Tayeb Coins)...\n");
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
   console.log("Account:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "DEV\n");
   
   const MockERC20 = await ethers.getContractFactory("MockERC20");
+  const WETH9 = await ethers.getContractFactory("WETH9");
   const deployedTokens: { [key: string]: string } = {};
   let existingCount = 0;
   let newCount = 0;
 
   // Deploy all coins from config (with idempotent check)
   for (const coin of config.coins) {
-    const existingAddress = coin.addresses.moonbase;
+    const existingAddress = getCoinAddress(coin, deployment);
     const tokenName = `Mock ${coin.name}`;
     
     // Deploy new token using utility function
@@ -39,6 +50,9 @@ async function main() {
       `${coin.symbol} (${coin.name})`,
       existingAddress,
       async () => {
+        if (isWrappedNativeCoin(coin)) {
+          return await WETH9.deploy();
+        }
         return await MockERC20.deploy(tokenName, coin.symbol, coin.decimals);
       }
     );
@@ -54,26 +68,25 @@ async function main() {
     
       // Save address immediately after deployment (incremental save)
       try {
-        // Save to tayebCoins.json
-        const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
-        const currentConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
-        currentConfig.coins = currentConfig.coins.map((c: any) => 
-          c.symbol === coin.symbol 
-            ? { ...c, addresses: { ...c.addresses, moonbase: address } }
-            : c
-        );
-        currentConfig.metadata.lastUpdated = new Date().toISOString();
-        fs.writeFileSync(configPath, JSON.stringify(currentConfig, null, 2) + "\n");
-        
-        // Also save to deployedContracts.json
-        const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-        const contractsConfig = JSON.parse(fs.readFileSync(contractsPath, "utf8")) as DeployedContracts;
-        if (!contractsConfig.tokens) {
-          contractsConfig.tokens = {};
+        // Save to tayebCoins.json (only networks with an address slot there)
+        if (isCoinAddressNetwork(network.name)) {
+          const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
+          const currentConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
+          currentConfig.coins = currentConfig.coins.map((c: any) => 
+            c.symbol === coin.symbol 
+              ? { ...c, addresses: { ...c.addresses, [network.name]: address } }
+              : c
+          );
+          currentConfig.metadata.lastUpdated = new Date().toISOString();
+          fs.writeFileSync(configPath, JSON.stringify(currentConfig, null, 2) + "\n");
         }
-        contractsConfig.tokens[coin.symbol] = address;
-        contractsConfig.lastDeployed = new Date().toISOString();
-        fs.writeFileSync(contractsPath, JSON.stringify(contractsConfig, null, 2) + "\n");
+        
+        // Also save to the active chain's section of deployedContracts.json
+        updateDeployment(network, (current) => ({
+          ...current,
+          tokens: { ...current.tokens, [coin.symbol]: address },
+          lastDeployed: new Date().toISOString(),
+        }));
       } catch (error) {
         console.warn(`⚠️  Failed to save ${coin.symbol} address incrementally, will save at end`);
       }
@@ -87,22 +100,24 @@ async function main() {
   console.log("📝 Performing final sync...");
   
   // Sync tayebCoins.json
-  const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
-  const currentConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
-  currentConfig.metadata = {
-    ...currentConfig.metadata,
-    lastUpdated: new Date().toISOString(),
-  };
-  fs.writeFileSync(configPath, JSON.stringify(currentConfig, null, 2) + "\n");
+  if (isCoinAddressNetwork(network.name)) {
+    const configPath = path.join(__dirname, "..", "..", "config", "tayebCoins.json");
+    const currentConfig = JSON.parse(fs.readFileSync(configPath, "utf8"));
+    currentConfig.metadata = {
+      ...currentConfig.metadata,
+      lastUpdated: new Date().toISOString(),
+    };
+    fs.writeFileSync(configPath, JSON.stringify(currentConfig, null, 2) + "\n");
+  }
   
-  // Sync deployedContracts.json with all tokens
-  const contractsPath = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
-  const contractsConfig = JSON.parse(fs.readFileSync(contractsPath, "utf8")) as DeployedContracts;
-  contractsConfig.tokens = deployedTokens;
-  contractsConfig.lastDeployed = new Date().toISOString();
-  fs.writeFileSync(contractsPath, JSON.stringify(contractsConfig, null, 2) + "\n");
+  // Sync the active chain's section of deployedContracts.json with all tokens
+  updateDeployment(network, (current) => ({
+    ...current,
+    tokens: { ...current.tokens, ...deployedTokens },
+    lastDeployed: new Date().toISOString(),
+  }));
   
-  console.log("✅ Final sync complete (both tayebCoins.json and deployedContracts.json)");
+  console.log(`✅ Final sync complete (deployedContracts.json section for chain ${network.chainId})`);
   console.log();
 
   // ============================================================================
@@ -114,11 +129,11 @@ async function main() {
   console.log("\n📦 Deployed Tokens:", Object.keys(deployedTokens).length);
   console.log("   - New tokens:     ", newCount);
   console.log("   - Already existed:", existingCount);
-  console.log("\n💾 All token addresses saved to tayebCoins.json");
+  console.log("\n💾 All token addresses saved to deployedContracts.json");
   console.log("=".repeat(60));
   console.log();
   console.log("💡 Next Steps:");
-  console.log("Deploy AMM core: npx hardhat run scripts/deploy/deploy-amm-core.ts --network moonbase");
+  console.log(`Deploy AMM core: npx hardhat run scripts/deploy/deploy-amm-core.ts --network ${network.name}`);
   console.log();
 }
 
@@ -1,6 +1,7 @@
 import { ethers } from "hardhat";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import { TayebCoinsConfig } from "../../config/types";
+import { TayebCoinsConfig, getCoinAddress, isWrappedNativeCoin } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
 
 /**
  * Mint Initial Tokens
@@ -10,20 +11,22 @@ import { TayebCoinsConfig } from "../../config/types";
  * Features:
  * - Mints tokens for all coins in config
  * - Stablecoins get 10M tokens, others get 1M tokens
+ * - Skips the wrapped native coin (DEV), which is obtained by wrapping native tokens
  * - Requires: Tokens must be deployed
  */
 async function main() {
   const [deployer] = await ethers.getSigners();
   const config = tayebCoinsConfig as TayebCoinsConfig;
+  const { network, deployment } = await loadActiveDeployment();
 
   console.log("💰 Minting tokens to deployer for liquidity...\n");
   console.log("Account:", deployer.address);
   console.log("Balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "DEV\n");
   
-  // Get all deployed token addresses from tayebCoins.json
+  // Get all deployed token addresses for the active chain
   const deployedTokens: { [key: string]: string } = {};
   for (const coin of config.coins) {
-    const address = coin.addresses.moonbase;
+    const address = getCoinAddress(coin, deployment);
     if (address && address !== "null") {
       deployedTokens[coin.symbol] = address;
     } else {
@@ -34,6 +37,11 @@ async function main() {
 
   // Mint all tokens based on config
   for (const coin of config.coins) {
+    if (isWrappedNativeCoin(coin)) {
+      console.log(`⏭️  ${coin.symbol} is the wrapped native token, skipping mint`);
+      continue;
+    }
+
     const token = await ethers.getContractAt("MockERC20", deployedTokens[coin.symbol]);
     
     // Mint more for stablecoins (used in many pairs)
@@ -59,7 +67,7 @@ async function main() {
   console.log("   - Other coins: 1M each");
   console.log("   - Recipient:   ", deployer.address);
   console.log("\n💡 Next Steps:");
-  console.log("Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network moonbase");
+  console.log(`Add liquidity: npx hardhat run scripts/liquidity/addLiquidity.ts --network ${network.name}`);
   console.log("=".repeat(60));
   console.log();
 }
@@ -1,9 +1,8 @@
 import { run } from "hardhat";
-import hre from "hardhat";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
 import chainConfig from "../../config/chainConfig.json";
-import { TayebCoinsConfig, DeployedContracts } from "../../config/types";
+import { TayebCoinsConfig, getCoinAddress } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
 
 /**
  * Verify all deployed contracts on Moonbase Alpha
@@ -19,9 +18,9 @@ import { TayebCoinsConfig, DeployedContracts } from "../../config/types";
  */
 async function main() {
   const config = tayebCoinsConfig as TayebCoinsConfig;
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const { network, deployment: contractsConfig } = await loadActiveDeployment();
 
-  console.log("🔍 Verifying all contracts on Moonbase Alpha...\n");
+  console.log(`🔍 Verifying all contracts on ${network.name} (chain ${network.chainId})...\n`);
 
   if (!process.env.ETHERSCAN_API_KEY) {
     console.error("❌ Error: ETHERSCAN_API_KEY not found in environment variables!");
@@ -73,7 +72,7 @@ async function main() {
       await run("verify:verify", {
         address: address,
         constructorArguments: constructorArgs.length > 0 ? constructorArgs : undefined,
-        network: "moonbase",
+        network: network.name,
       });
       console.log(`✅ ${name} verified successfully!`);
       return "verified";
@@ -121,10 +120,10 @@ async function main() {
         coin: config.coins.find((c) => c.symbol === symbol),
       }))
     : config.coins
-        .filter((coin) => coin.addresses.moonbase && coin.addresses.moonbase !== "null")
+        .filter((coin) => getCoinAddress(coin, contractsConfig))
         .map((coin) => ({
           symbol: coin.symbol,
-          address: coin.addresses.moonbase!,
+          address: getCoinAddress(coin, contractsConfig)!,
           coin,
         }));
 
@@ -202,7 +201,7 @@ async function main() {
   const shariaDCAAddress = contractsConfig.main?.shariaDCA;
   if (shariaDCAAddress && shariaComplianceAddress && routerAddress && factoryAddress && wethAddress) {
     // Get block time configuration from chainConfig.json
-    const networkName = hre.network.name;
+    const networkName = network.name;
     const networkConfig = (chainConfig as any)[networkName];
     const BLOCK_TIME = networkConfig?.blockTime || 6; // Default to 6 if not found
     const BLOCKS_BEFORE_HOUR = networkConfig?.blocksBeforeHour || 2; // Default to 2 if not found
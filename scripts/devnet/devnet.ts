@@ -0,0 +1,181 @@
+import { execSync, spawn, ChildProcess } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { readRegistry } from "../utils/deploymentRegistry";
+
+/** Registry file written by the devnet (gitignored, read by the frontend when VITE_DEVNET=true) */
+const DEVNET_REGISTRY_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "config",
+  "deployedContracts.devnet.json"
+);
+
+const DEVNET_CHAIN_ID = 1337;
+const HARDHAT_CLI = path.join(path.dirname(require.resolve("hardhat/package.json")), "internal", "cli", "bootstrap.js");
+const NODE_LOG_PATH = path.join(__dirname, "..", "..", "data", "devnet", "node.log");
+
+/**
+ * One-command local devnet
+ *
+ * 1. Starts a hardhat node (or reuses one already listening on DEVNET_RPC_URL)
+ * 2. Deploys the full stack: tokens (WETH9 as DEV), SimpleFactory/SimpleRouter,
+ *    liquidity pairs, ShariaCompliance/ShariaSwap/ShariaDCA + coin registration
+ * 3. Seeds liquidity, funds test accounts and creates sample DCA orders
+ *    (config/devnetConfig.json, see seed-devnet.ts)
+ * 4. Writes every address to config/deployedContracts.devnet.json
+ *
+ * The node keeps running until Ctrl+C. Point the frontend at it with
+ * `VITE_DEVNET=true npm run dev` (in frontend/).
+ *
+ * Environment:
+ * - DEVNET_RPC_URL: node URL (default http://127.0.0.1:8545)
+ * - DEVNET_CONFIG: seed config (default config/devnetConfig.json)
+ * - DEVNET_FUND_ADDRESSES: comma-separated extra addresses to fund (e.g. your wallet)
+ * - DEVNET_EXIT: set to "true" to stop the node once bootstrapping is done
+ */
+async function main() {
+  const rpcUrl = process.env.DEVNET_RPC_URL || "http://127.0.0.1:8545";
+  const { hostname, port } = new URL(rpcUrl);
+
+  console.log("🧪 Tayeb Local Devnet\n");
+
+  let node: ChildProcess | null = null;
+  const reused = await isNodeReady(rpcUrl);
+
+  if (reused) {
+    console.log(`♻️  Reusing node already running at ${rpcUrl}\n`);
+  } else {
+    fs.mkdirSync(path.dirname(NODE_LOG_PATH), { recursive: true });
+    const log = fs.openSync(NODE_LOG_PATH, "w");
+
+    console.log(`🚀 Starting hardhat node on ${rpcUrl}...`);
+    // Spawn the hardhat CLI directly (not through npx) so kill() reaches the node process
+    node = spawn(process.execPath, [HARDHAT_CLI, "node", "--hostname", hostname, "--port", port || "8545"], {
+      stdio: ["ignore", log, log],
+    });
+    node.on("exit", (code) => {
+      if (code !== null && code !== 0) {
+        console.error(`\n❌ Hardhat node exited with code ${code} (see ${NODE_LOG_PATH})`);
+        process.exit(1);
+      }
+    });
+
+    const stopNode = () => {
+      node?.kill();
+      process.exit(0);
+    };
+    process.on("SIGINT", stopNode);
+    process.on("SIGTERM", stopNode);
+
+    if (!(await waitForNode(rpcUrl, 60000))) {
+      console.error(`❌ Hardhat node did not start within 60s (see ${NODE_LOG_PATH})`);
+      node.kill();
+      process.exit(1);
+    }
+    console.log(`✅ Node ready (logs: ${NODE_LOG_PATH})\n`);
+
+    // Fresh chain: previous devnet addresses no longer exist
+    resetDevnetRegistry();
+  }
+
+  const steps = [
+    { name: "Tokens", script: "scripts/deploy/deploy-tokens.ts" },
+    { name: "AMM Core", script: "scripts/deploy/deploy-amm-core.ts" },
+    { name: "Liquidity Pairs", script: "scripts/deploy/create-pairs.ts" },
+    { name: "Main Contracts", script: "scripts/deploy/deploy-core.ts" },
+    { name: "Seed Data", script: "scripts/devnet/seed-devnet.ts" },
+  ];
+
+  for (const { name, script } of steps) {
+    console.log(`📦 ${name}...`);
+    console.log("=".repeat(60));
+    try {
+      execSync(`npx hardhat run ${script} --network localhost`, {
+        stdio: "inherit",
+        timeout: 300000,
+        env: {
+          ...process.env,
+          DEPLOYMENT_REGISTRY: DEVNET_REGISTRY_PATH,
+          DEVNET_RPC_URL: rpcUrl,
+        },
+      });
+    } catch (error: any) {
+      console.error(`\n❌ ${name} failed!`);
+      node?.kill();
+      process.exit(1);
+    }
+  }
+
+  const deployment = readRegistry(DEVNET_REGISTRY_PATH).deployments[String(DEVNET_CHAIN_ID)];
+
+  console.log("=".repeat(60));
+  console.log("🎉 Devnet ready!");
+  console.log("=".repeat(60));
+  console.log("RPC URL:          ", rpcUrl);
+  console.log("Chain ID:         ", DEVNET_CHAIN_ID);
+  console.log("ShariaCompliance: ", deployment?.main.shariaCompliance);
+  console.log("ShariaSwap:       ", deployment?.main.shariaSwap);
+  console.log("ShariaDCA:        ", deployment?.main.shariaDCA);
+  console.log("Addresses:        ", path.relative(process.cwd(), DEVNET_REGISTRY_PATH));
+  console.log("\n💡 Next steps:");
+  console.log("Frontend:  cd frontend && VITE_DEVNET=true npm run dev");
+  console.log("Accounts:  import a hardhat test key into your wallet (printed at the top of the node log)");
+  console.log("Keeper:    DEPLOYMENT_REGISTRY=config/deployedContracts.devnet.json npx hardhat run scripts/automation/auto-execute-dca.ts --network localhost");
+
+  if (!node || process.env.DEVNET_EXIT === "true") {
+    node?.kill();
+    return;
+  }
+
+  console.log("\n🟢 Node running. Press Ctrl+C to stop.");
+  await new Promise<void>(() => {
+    // Keep the process alive until SIGINT/SIGTERM stops the node
+  });
+}
+
+/**
+ * Check whether a node answers eth_chainId at the given URL
+ */
+async function isNodeReady(rpcUrl: string): Promise<boolean> {
+  try {
+    const response = await fetch(rpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Poll the node until it responds or the timeout expires
+ */
+async function waitForNode(rpcUrl: string, timeoutMs: number): Promise<boolean> {
+  const startTime = Date.now();
+  while (Date.now() - startTime < timeoutMs) {
+    if (await isNodeReady(rpcUrl)) return true;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  return false;
+}
+
+/**
+ * Drop the devnet chain's section so the deploy scripts start from scratch
+ */
+function resetDevnetRegistry() {
+  const registry = readRegistry(DEVNET_REGISTRY_PATH);
+  delete registry.deployments[String(DEVNET_CHAIN_ID)];
+  fs.mkdirSync(path.dirname(DEVNET_REGISTRY_PATH), { recursive: true });
+  fs.writeFileSync(DEVNET_REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,351 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import tayebCoinsConfig from "../../config/tayebCoins.json";
+import {
+  TayebCoinsConfig,
+  TayebCoin,
+  DevnetConfig,
+  DevnetInterval,
+  DeployedContracts,
+  getCoinAddress,
+  getNonStablecoins,
+  isWrappedNativeCoin,
+  WRAPPED_NATIVE_SYMBOL,
+} from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
+
+/** Chains the seeder is allowed to mint on (hardhat / localhost) */
+const LOCAL_CHAIN_IDS = [1337, 31337];
+
+const INTERVAL_SECONDS: { [key in DevnetInterval]: number } = {
+  hour: 3600,
+  day: 86400,
+  week: 604800,
+};
+
+/** Slippage tolerance for sample orders that don't set maxSlippageBps (1%) */
+const DEFAULT_SAMPLE_SLIPPAGE_BPS = 100;
+
+/**
+ * Load the devnet config (DEVNET_CONFIG overrides config/devnetConfig.json)
+ */
+function loadDevnetConfig(): DevnetConfig {
+  const configPath = process.env.DEVNET_CONFIG
+    ? path.resolve(process.env.DEVNET_CONFIG)
+    : path.join(__dirname, "..", "..", "config", "devnetConfig.json");
+  return JSON.parse(fs.readFileSync(configPath, "utf8")) as DevnetConfig;
+}
+
+/**
+ * Convert a USD-denominated amount into token units using the configured price
+ */
+function usdToUnits(usd: number, price: number, decimals: number): bigint {
+  const amount = usd / price;
+  return ethers.parseUnits(amount.toFixed(Math.min(decimals, 8)), decimals);
+}
+
+/**
+ * Seed a local devnet
+ *
+ * Run after the deploy scripts (see scripts/devnet/devnet.ts):
+ * 1. Seeds every pair with liquidity sized from config/devnetConfig.json
+ * 2. Funds test accounts (and DEVNET_FUND_ADDRESSES) with tokens and native DEV
+ * 3. Creates sample DCA orders
+ *
+ * Idempotent: pairs with reserves and accounts that already own orders are skipped.
+ * Refuses to run outside hardhat/localhost because it mints freely.
+ */
+async function main() {
+  const signers = await ethers.getSigners();
+  const deployer = signers[0];
+  const coinsConfig = tayebCoinsConfig as TayebCoinsConfig;
+  const devnetConfig = loadDevnetConfig();
+  const { network, deployment } = await loadActiveDeployment();
+
+  if (!LOCAL_CHAIN_IDS.includes(network.chainId)) {
+    console.error(`❌ seed-devnet only runs on local chains (got chain ${network.chainId})`);
+    process.exit(1);
+  }
+
+  const { router: routerAddress, weth: wethAddress } = deployment.amm;
+  const shariaDCAAddress = deployment.main.shariaDCA;
+  if (!routerAddress || !wethAddress || !shariaDCAAddress) {
+    console.error("❌ Devnet contracts not deployed. Run the deploy scripts first.");
+    process.exit(1);
+  }
+
+  console.log("🌱 Seeding devnet...\n");
+  console.log(`Network: ${network.name} (chain ${network.chainId})`);
+  console.log("Deployer:", deployer.address);
+  console.log();
+
+  const router = await ethers.getContractAt("SimpleRouter", routerAddress);
+  const coinAddress = (symbol: string): string => {
+    const coin = coinsConfig.coins.find((c) => c.symbol === symbol);
+    const address = coin ? getCoinAddress(coin, deployment) : null;
+    if (!address) {
+      throw new Error(`${symbol} not deployed on chain ${network.chainId}`);
+    }
+    return address;
+  };
+
+  const deadline = () => Math.floor(Date.now() / 1000) + 60 * 10;
+
+  // ============================================================================
+  // Liquidity
+  // ============================================================================
+  console.log("=".repeat(60));
+  console.log("💧 SEEDING LIQUIDITY");
+  console.log("=".repeat(60));
+
+  const usdc = await ethers.getContractAt("MockERC20", coinAddress("USDC"));
+  const usdcPerPair = ethers.parseUnits(devnetConfig.liquidity.usdcPerPair, 6);
+  let seededPairs = 0;
+  let skippedPairs = 0;
+
+  const hasReserves = async (pairKey: string): Promise<boolean> => {
+    const pairAddress = deployment.pairs[pairKey];
+    if (!pairAddress) {
+      throw new Error(`Pair ${pairKey} not created. Run create-pairs.ts first.`);
+    }
+    const pair = await ethers.getContractAt("SimplePair", pairAddress);
+    const [reserve0, reserve1] = await pair.getReserves();
+    return reserve0 > 0n || reserve1 > 0n;
+  };
+
+  // USDC/USDT stable pair
+  if (deployment.tokens.USDT) {
+    if (await hasReserves("USDC_USDT")) {
+      console.log("⏭️  USDC/USDT already has liquidity");
+      skippedPairs++;
+    } else {
+      const usdt = await ethers.getContractAt("MockERC20", coinAddress("USDT"));
+      const stableAmount = ethers.parseUnits(devnetConfig.liquidity.stablePairAmount, 6);
+      await (await usdc.mint(deployer.address, stableAmount)).wait();
+      await (await usdt.mint(deployer.address, stableAmount)).wait();
+      await (await usdc.approve(routerAddress, stableAmount)).wait();
+      await (await usdt.approve(routerAddress, stableAmount)).wait();
+      await (
+        await router.addLiquidity(
+          await usdc.getAddress(),
+          await usdt.getAddress(),
+          stableAmount,
+          stableAmount,
+          0,
+          0,
+          deployer.address,
+          deadline()
+        )
+      ).wait();
+      console.log(`✅ USDC/USDT: ${devnetConfig.liquidity.stablePairAmount} / ${devnetConfig.liquidity.stablePairAmount}`);
+      seededPairs++;
+    }
+  }
+
+  // token/USDC pairs
+  for (const coin of getNonStablecoins(coinsConfig)) {
+    const pairKey = `${coin.symbol}_USDC`;
+    const price = devnetConfig.liquidity.prices[coin.symbol];
+    if (!price) {
+      console.warn(`⚠️  No devnet price for ${coin.symbol}, skipping ${pairKey}`);
+      skippedPairs++;
+      continue;
+    }
+    if (await hasReserves(pairKey)) {
+      console.log(`⏭️  ${coin.symbol}/USDC already has liquidity`);
+      skippedPairs++;
+      continue;
+    }
+
+    const tokenAmount = usdToUnits(Number(devnetConfig.liquidity.usdcPerPair), price, coin.decimals);
+    await (await usdc.mint(deployer.address, usdcPerPair)).wait();
+    await (await usdc.approve(routerAddress, usdcPerPair)).wait();
+
+    if (isWrappedNativeCoin(coin)) {
+      // Router wraps the native side into WETH9
+      await (
+        await router.addLiquidityETH(
+          await usdc.getAddress(),
+          usdcPerPair,
+          0,
+          0,
+          deployer.address,
+          deadline(),
+          { value: tokenAmount }
+        )
+      ).wait();
+    } else {
+      const token = await ethers.getContractAt("MockERC20", coinAddress(coin.symbol));
+      await (await token.mint(deployer.address, tokenAmount)).wait();
+      await (await token.approve(routerAddress, tokenAmount)).wait();
+      await (
+        await router.addLiquidity(
+          await token.getAddress(),
+          await usdc.getAddress(),
+          tokenAmount,
+          usdcPerPair,
+          0,
+          0,
+          deployer.address,
+          deadline()
+        )
+      ).wait();
+    }
+
+    console.log(
+      `✅ ${coin.symbol}/USDC: ${ethers.formatUnits(tokenAmount, coin.decimals)} ${coin.symbol} / ${devnetConfig.liquidity.usdcPerPair} USDC`
+    );
+    seededPairs++;
+  }
+  console.log(`\n📊 Liquidity: ${seededPairs} seeded, ${skippedPairs} skipped\n`);
+
+  // ============================================================================
+  // Test accounts
+  // ============================================================================
+  console.log("=".repeat(60));
+  console.log("👥 FUNDING TEST ACCOUNTS");
+  console.log("=".repeat(60));
+
+  const extraAddresses = (process.env.DEVNET_FUND_ADDRESSES || "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter((address) => address.length > 0)
+    .map((address) => ethers.getAddress(address));
+
+  const testAccounts = [
+    ...signers.slice(1, devnetConfig.testAccounts.count + 1).map((signer) => signer.address),
+    ...extraAddresses,
+  ];
+
+  for (const account of testAccounts) {
+    // Hardhat accounts start with native DEV; extra addresses need some
+    if (extraAddresses.includes(account)) {
+      const nativeAmount = ethers.parseEther(devnetConfig.testAccounts.nativeAmount);
+      await (await deployer.sendTransaction({ to: account, value: nativeAmount })).wait();
+    }
+    await fundAccount(account, coinsConfig, devnetConfig, deployment);
+    console.log(`✅ Funded ${account}`);
+  }
+  console.log();
+
+  // ============================================================================
+  // Sample DCA orders
+  // ============================================================================
+  console.log("=".repeat(60));
+  console.log("📅 CREATING SAMPLE DCA ORDERS");
+  console.log("=".repeat(60));
+
+  const shariaDCA = await ethers.getContractAt("ShariaDCA", shariaDCAAddress);
+  const accountsWithOrders = new Set<string>();
+
+  for (const sample of devnetConfig.sampleOrders) {
+    const owner = signers[sample.account];
+    if (!owner) {
+      console.warn(`⚠️  Account #${sample.account} not available, skipping ${sample.source} → ${sample.target}`);
+      continue;
+    }
+
+    const existingOrders = await shariaDCA.getUserOrders(owner.address);
+    if (existingOrders.length > 0 && !accountsWithOrders.has(owner.address)) {
+      console.log(`⏭️  Account #${sample.account} already has DCA orders, skipping`);
+      continue;
+    }
+
+    const sourceCoin = coinsConfig.coins.find((c) => c.symbol === sample.source);
+    if (!sourceCoin) {
+      console.warn(`⚠️  Unknown source coin ${sample.source}, skipping`);
+      continue;
+    }
+
+    const amountPerInterval = ethers.parseUnits(sample.amountPerInterval, sourceCoin.decimals);
+    const interval = INTERVAL_SECONDS[sample.interval];
+    const total = amountPerInterval * BigInt(sample.totalIntervals);
+    const maxSlippageBps = sample.maxSlippageBps ?? DEFAULT_SAMPLE_SLIPPAGE_BPS;
+    const dca = shariaDCA.connect(owner) as any;
+
+    if (sample.source === WRAPPED_NATIVE_SYMBOL) {
+      await (
+        await dca.createDCAOrderWithDEV(
+          coinAddress(sample.target),
+          amountPerInterval,
+          interval,
+          sample.totalIntervals,
+          maxSlippageBps,
+          0, // No price floor
+          { value: total }
+        )
+      ).wait();
+    } else {
+      const sourceToken = (await ethers.getContractAt("MockERC20", coinAddress(sample.source))).connect(owner) as any;
+      await (await sourceToken.approve(shariaDCAAddress, total)).wait();
+      await (
+        await dca.createDCAOrderWithToken(
+          coinAddress(sample.source),
+          coinAddress(sample.target),
+          amountPerInterval,
+          interval,
+          sample.totalIntervals,
+          maxSlippageBps,
+          0 // No price floor
+        )
+      ).wait();
+    }
+
+    accountsWithOrders.add(owner.address);
+    console.log(
+      `✅ Account #${sample.account}: ${sample.amountPerInterval} ${sample.source} → ${sample.target} every ${sample.interval} × ${sample.totalIntervals}`
+    );
+  }
+  console.log();
+
+  // ============================================================================
+  // Summary
+  // ============================================================================
+  console.log("=".repeat(60));
+  console.log("📋 DEVNET SEED SUMMARY");
+  console.log("=".repeat(60));
+  console.log("Pairs seeded:      ", seededPairs);
+  console.log("Accounts funded:   ", testAccounts.length);
+  console.log("Sample DCA orders: ", accountsWithOrders.size > 0 ? "created" : "none created");
+  console.log("=".repeat(60));
+  console.log();
+}
+
+/**
+ * Mint stablecoins and every other mock token to an account
+ */
+async function fundAccount(
+  account: string,
+  coinsConfig: TayebCoinsConfig,
+  devnetConfig: DevnetConfig,
+  deployment: DeployedContracts
+) {
+  const tokenValueUsd = Number(devnetConfig.testAccounts.tokenValueUsd);
+
+  for (const coin of coinsConfig.coins as TayebCoin[]) {
+    if (isWrappedNativeCoin(coin)) continue;
+
+    const address = getCoinAddress(coin, deployment);
+    if (!address) continue;
+
+    let amount: bigint;
+    if (coinsConfig.stablecoins.includes(coin.symbol)) {
+      amount = ethers.parseUnits(devnetConfig.testAccounts.stablecoinAmount, coin.decimals);
+    } else {
+      const price = devnetConfig.liquidity.prices[coin.symbol];
+      if (!price) continue;
+      amount = usdToUnits(tokenValueUsd, price, coin.decimals);
+    }
+
+    const token = await ethers.getContractAt("MockERC20", address);
+    await (await token.mint(account, amount)).wait();
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -1,8 +1,8 @@
 import { ethers } from "hardhat";
 import * as dotenv from "dotenv";
 import tayebCoinsConfig from "../../config/tayebCoins.json";
-import deployedContractsConfig from "../../config/deployedContracts.json";
-import { TayebCoinsConfig, getNonStablecoins, getCoinBySymbol, DeployedContracts } from "../../config/types";
+import { TayebCoinsConfig, getNonStablecoins, getCoinBySymbol, getCoinAddress } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
 
 /**
  * Add liquidity to AMM pairs for all Initial Tayeb Coins
@@ -14,7 +14,7 @@ import { TayebCoinsConfig, getNonStablecoins, getCoinBySymbol, DeployedContracts
 async function main() {
   dotenv.config();
   const config = tayebCoinsConfig as TayebCoinsConfig;
-  const contractsConfig = deployedContractsConfig as DeployedContracts;
+  const { network, deployment: contractsConfig } = await loadActiveDeployment();
 
   const [deployer] = await ethers.getSigners();
   
@@ -28,19 +28,19 @@ async function main() {
   
   const ROUTER_ADDRESS = contractsConfig.amm.router;
   const USDC_COIN = config.coins.find(c => c.symbol === "USDC");
-  const USDC_ADDRESS = USDC_COIN?.addresses.moonbase;
+  const USDC_ADDRESS = USDC_COIN ? getCoinAddress(USDC_COIN, contractsConfig) : null;
 
   if (!ROUTER_ADDRESS || !USDC_ADDRESS) {
     console.error("❌ Error: AMM addresses not found in config files!");
     console.log("\n📝 Please run deploy-amm-core.ts first:");
-    console.log("   npx hardhat run scripts/deploy/deploy-amm-core.ts --network moonbase\n");
+    console.log(`   npx hardhat run scripts/deploy/deploy-amm-core.ts --network ${network.name}\n`);
     process.exit(1);
   }
 
   // Get non-stablecoin Tayeb Coins from config
   const nonStablecoins = getNonStablecoins(config);
   const USDT_COIN = config.coins.find(c => c.symbol === "USDT");
-  const USDT_ADDRESS = USDT_COIN?.addresses.moonbase;
+  const USDT_ADDRESS = USDT_COIN ? getCoinAddress(USDT_COIN, contractsConfig) : null;
   
   console.log("📖 Reading addresses from config files...");
   console.log(`📊 Total pairs to add liquidity: ${nonStablecoins.length + 1} (USDC pairs + USDC/USDT)`);
@@ -95,7 +95,7 @@ async function main() {
   
   // Check token/USDC pairs
   for (const coin of nonStablecoins) {
-    const tokenAddress = coin.addresses.moonbase;
+    const tokenAddress = getCoinAddress(coin, contractsConfig);
     if (!tokenAddress) continue;
     
     const pairUSDC = await factory.getPair(tokenAddress, USDC_ADDRESS);
@@ -111,7 +111,7 @@ async function main() {
     console.error("\n📝 Please create pairs first:");
     console.error("   npm run deploy:pairs");
     console.error("   or");
-    console.error("   npx hardhat run scripts/deploy/create-pairs.ts --network moonbase\n");
+    console.error(`   npx hardhat run scripts/deploy/create-pairs.ts --network ${network.name}\n`);
     process.exit(1);
   }
   
@@ -211,7 +211,7 @@ async function main() {
   // Approve each Tayeb Coin (check existing approvals first to avoid unnecessary transactions)
   const tokenApprovals: { [key: string]: bigint } = {};
   for (const coin of nonStablecoins) {
-    const tokenAddress = coin.addresses.moonbase;
+    const tokenAddress = getCoinAddress(coin, contractsConfig);
     if (!tokenAddress) {
       console.warn(`⚠️  Warning: ${coin.symbol} address not found in config, skipping...`);
       continue;
@@ -362,7 +362,7 @@ async function main() {
 
   // Then add liquidity to token/USDC pairs
   for (const coin of nonStablecoins) {
-    const tokenAddress = coin.addresses.moonbase;
+    const tokenAddress = getCoinAddress(coin, contractsConfig);
     if (!tokenAddress) {
       console.warn(`⚠️  Skipping ${coin.symbol} - address not found in config`);
       failCount++;
@@ -1,13 +1,17 @@
 import { ethers } from "hardhat";
-import deployedContracts from "../../config/deployedContracts.json";
 import tayebCoins from "../../config/tayebCoins.json";
+import { DeployedContracts, TayebCoin, getCoinAddress } from "../../config/types";
+import { loadActiveDeployment } from "../utils/deploymentRegistry";
 
-type CoinConfig = (typeof tayebCoins)["coins"][number];
+type CoinConfig = TayebCoin;
 
-function getCoinByAddress(address: string): CoinConfig | undefined {
+function getCoinByAddress(
+  address: string,
+  deployment: DeployedContracts
+): CoinConfig | undefined {
   const lowerAddress = address.toLowerCase();
-  return tayebCoins.coins.find(
-    (coin) => coin.addresses.moonbase?.toLowerCase() === lowerAddress
+  return (tayebCoins.coins as CoinConfig[]).find(
+    (coin) => getCoinAddress(coin, deployment)?.toLowerCase() === lowerAddress
   );
 }
 
@@ -16,15 +20,19 @@ function formatAmount(raw: bigint, coin?: CoinConfig): string {
   return ethers.formatUnits(raw, coin.decimals);
 }
 
-async function logPairReserves(pairName: string, pairAddress: string) {
+async function logPairReserves(
+  pairName: string,
+  pairAddress: string,
+  deployment: DeployedContracts
+) {
   const pair = await ethers.getContractAt("SimplePair", pairAddress);
 
   const [reserve0, reserve1] = await pair.getReserves();
   const token0 = await pair.token0();
   const token1 = await pair.token1();
 
-  const coin0 = getCoinByAddress(token0);
-  const coin1 = getCoinByAddress(token1);
+  const coin0 = getCoinByAddress(token0, deployment);
+  const coin1 = getCoinByAddress(token1, deployment);
 
   console.log(`\n🔍 ${pairName} (${pairAddress})`);
   console.log(
@@ -41,10 +49,11 @@ async function logPairReserves(pairName: string, pairAddress: string) {
 }
 
 async function main() {
-  const { pairs } = deployedContracts;
+  const { network, deployment } = await loadActiveDeployment();
+  const { pairs } = deployment;
 
   if (!pairs) {
-    throw new Error("Pairs section missing in deployedContracts.json");
+    throw new Error(`Pairs section missing for chain ${network.chainId} in deployedContracts.json`);
   }
 
   const entries = Object.entries(pairs).filter(
@@ -52,7 +61,7 @@ async function main() {
   );
 
   if (entries.length === 0) {
-    console.warn("⚠️  No pair addresses found in deployedContracts.json");
+    console.warn(`⚠️  No pair addresses found for chain ${network.chainId} in deployedContracts.json`);
     return;
   }
 
@@ -62,7 +71,7 @@ async function main() {
     const displayName = pairKey.replace(/_/g, "/");
 
     try {
-      await logPairReserves(displayName, address);
+      await logPairReserves(displayName, address as string, deployment);
     } catch (error) {
       console.error(`❌ Failed to read reserves for ${displayName}:`, error);
     }
@@ -0,0 +1,91 @@
+import { ethers } from "hardhat";
+import { COIN_CATEGORIES, ComplianceScreening } from "../../config/types";
+
+/**
+ * ComplianceMetadata tuple as passed to setComplianceMetadata()
+ */
+export interface ContractComplianceMetadata {
+  category: number;
+  methodology: string;
+  reviewer: string;
+  documentHash: string;
+  reviewedAt: bigint;
+  reviewDueAt: bigint;
+}
+
+const toUnixSeconds = (isoDate: string | null): bigint =>
+  isoDate ? BigInt(Math.floor(new Date(isoDate).getTime() / 1000)) : 0n;
+
+const toIsoDate = (seconds: bigint): string | null =>
+  seconds === 0n ? null : new Date(Number(seconds) * 1000).toISOString();
+
+/**
+ * Convert a contract ComplianceMetadata struct to its JSON form
+ * Returns undefined for coins that never had a review recorded (all fields zero)
+ */
+export function fromContractMetadata(metadata: any): ComplianceScreening | undefined {
+  const category = Number(metadata.category);
+  const reviewedAt = BigInt(metadata.reviewedAt);
+  const reviewDueAt = BigInt(metadata.reviewDueAt);
+
+  const isEmpty =
+    category === 0 &&
+    metadata.methodology === "" &&
+    metadata.reviewer === "" &&
+    metadata.documentHash === ethers.ZeroHash &&
+    reviewedAt === 0n &&
+    reviewDueAt === 0n;
+  if (isEmpty) return undefined;
+
+  return {
+    category: COIN_CATEGORIES[category] ?? "other",
+    methodology: metadata.methodology,
+    reviewer: metadata.reviewer,
+    documentHash: metadata.documentHash,
+    reviewedAt: toIsoDate(reviewedAt),
+    reviewDueAt: toIsoDate(reviewDueAt),
+  };
+}
+
+/**
+ * Convert a JSON screening entry to the struct setComplianceMetadata() expects
+ */
+export function toContractMetadata(screening: ComplianceScreening): ContractComplianceMetadata {
+  const category = COIN_CATEGORIES.indexOf(screening.category);
+  if (category < 0) {
+    throw new Error(`Unknown screening category "${screening.category}"`);
+  }
+
+  return {
+    category,
+    methodology: screening.methodology,
+    reviewer: screening.reviewer,
+    documentHash: screening.documentHash || ethers.ZeroHash,
+    reviewedAt: toUnixSeconds(screening.reviewedAt),
+    reviewDueAt: toUnixSeconds(screening.reviewDueAt),
+  };
+}
+
+/**
+ * Read every coin's screening from ShariaCompliance, keyed by coin ID
+ * Returns null when the deployed contract predates compliance metadata,
+ * so callers keep whatever screening the JSON already has.
+ */
+export async function readComplianceScreenings(
+  shariaCompliance: any,
+  contractCoins: { id: string }[]
+): Promise<Map<string, ComplianceScreening> | null> {
+  let metadata: any[];
+  try {
+    metadata = await shariaCompliance.getAllComplianceMetadata();
+  } catch (error) {
+    return null;
+  }
+
+  const screenings = new Map<string, ComplianceScreening>();
+  contractCoins.forEach((coin, i) => {
+    const screening = metadata[i] ? fromContractMetadata(metadata[i]) : undefined;
+    if (screening) screenings.set(coin.id, screening);
+  });
+  return screenings;
+}
@@ -1,4 +1,25 @@
 import { ethers } from "ethers";
+import {
+  ExecutionRecord,
+  appendExecutionRecord,
+  readExecutionRecords,
+} from "./executionStore";
+
+/**
+ * Outcome of a single order submitted in a performUpkeep batch
+ * (limit orders have their own ID space, so kind tells them apart)
+ */
+export interface OrderExecutionResult {
+  orderId: bigint;
+  kind: "dca" | "limit";
+  status: "executed" | "failed" | "skipped" | "expired" | "cancelled";
+  amountIn?: bigint;
+  amountOut?: bigint;
+  intervalNumber?: bigint;
+  expectedAmountOut?: bigint;
+  minAmountOut?: bigint;
+  reason?: string;
+}
 
 /**
  * Execution result from DCA order execution
@@ -6,6 +27,9 @@ import { ethers } from "ethers";
 export interface ExecutionResult {
   executed: boolean;
   orderCount: number;
+  failedCount: number;
+  skippedCount: number;
+  orders: OrderExecutionResult[];
   receipt: ethers.ContractTransactionReceipt | null;
   txHash: string | null;
   error?: string;
@@ -18,6 +42,8 @@ export interface ExecutionResult {
 export interface ExecutionMetrics {
   totalExecutions: number;
   totalOrdersExecuted: number;
+  totalOrderFailures: number;
+  totalOrderSkips: number;
   totalFailures: number;
   lastExecution: Date | null;
   lastSuccess: Date | null;
@@ -31,6 +57,8 @@ export interface ExecutionMetrics {
 let metrics: ExecutionMetrics = {
   totalExecutions: 0,
   totalOrdersExecuted: 0,
+  totalOrderFailures: 0,
+  totalOrderSkips: 0,
   totalFailures: 0,
   lastExecution: null,
   lastSuccess: null,
@@ -45,6 +73,55 @@ export function getMetrics(): ExecutionMetrics {
   return { ...metrics };
 }
 
+/**
+ * Aggregate persisted execution records into metrics
+ */
+export function summarizeExecutions(records: ExecutionRecord[]): ExecutionMetrics {
+  const summary: ExecutionMetrics = {
+    totalExecutions: 0,
+    totalOrdersExecuted: 0,
+    totalOrderFailures: 0,
+    totalOrderSkips: 0,
+    totalFailures: 0,
+    lastExecution: null,
+    lastSuccess: null,
+    lastFailure: null,
+    averageOrdersPerExecution: 0,
+  };
+
+  for (const record of records) {
+    const timestamp = new Date(record.timestamp);
+    summary.lastExecution = timestamp;
+    // Same rule as executeReadyOrders: failed and skipped orders count whether
+    // or not a transaction was sent (orders that failed to quote never are)
+    summary.totalOrderSkips += record.orders.filter((o) => o.status === "skipped").length;
+    summary.totalOrderFailures += record.orders.filter((o) => o.status === "failed").length;
+
+    if (record.executed) {
+      summary.totalExecutions++;
+      summary.totalOrdersExecuted += record.orderCount;
+      summary.lastSuccess = timestamp;
+    } else if (record.error) {
+      summary.totalFailures++;
+      summary.lastFailure = timestamp;
+    }
+  }
+
+  if (summary.totalExecutions > 0) {
+    summary.averageOrdersPerExecution =
+      summary.totalOrdersExecuted / summary.totalExecutions;
+  }
+
+  return summary;
+}
+
+/**
+ * Restore metrics from the execution store (keeps history across restarts)
+ */
+export function restoreMetrics(): void {
+  metrics = summarizeExecutions(readExecutionRecords());
+}
+
 /**
  * Reset metrics
  */
@@ -52,6 +129,8 @@ export function resetMetrics(): void {
   metrics = {
     totalExecutions: 0,
     totalOrdersExecuted: 0,
+    totalOrderFailures: 0,
+    totalOrderSkips: 0,
     totalFailures: 0,
     lastExecution: null,
     lastSuccess: null,
@@ -92,6 +171,270 @@ async function executeWithRetry<T>(
   throw lastError || new Error("Unknown error in retry logic");
 }
 
+/**
+ * Extract a readable revert reason from an ethers error, decoding custom errors
+ */
+function decodeRevertReason(contract: any, error: any): string {
+  if (error?.revert?.name) {
+    const args = error.revert.args?.length ? `(${error.revert.args.join(", ")})` : "";
+    return `${error.revert.name}${args}`;
+  }
+
+  const data = error?.data ?? error?.info?.error?.data;
+  if (typeof data === "string" && data !== "0x") {
+    try {
+      const parsed = contract.interface.parseError(data);
+      if (parsed) {
+        const args = parsed.args.length ? `(${parsed.args.join(", ")})` : "";
+        return `${parsed.name}${args}`;
+      }
+    } catch {
+      // Unknown selector, fall through to the message
+    }
+  }
+
+  return error?.reason || error?.shortMessage || error?.message || String(error);
+}
+
+/**
+ * Quote each ready order and derive the minimum output to submit
+ *
+ * quoteDCAOrder applies the order's slippage tolerance and price floor to the
+ * current pool price. Orders whose quote is already below their floor are
+ * skipped without being submitted, as are orders that cannot be quoted.
+ */
+async function quoteReadyOrders(
+  shariaDCA: any,
+  orderIds: bigint[]
+): Promise<{ submit: Array<{ orderId: bigint; minAmountOut: bigint }>; outcomes: OrderExecutionResult[] }> {
+  const submit: Array<{ orderId: bigint; minAmountOut: bigint }> = [];
+  const outcomes: OrderExecutionResult[] = [];
+
+  for (const orderId of orderIds) {
+    try {
+      const [expectedAmountOut, minAmountOut] = (await shariaDCA.quoteDCAOrder(orderId)) as [bigint, bigint];
+
+      if (expectedAmountOut < minAmountOut) {
+        outcomes.push({
+          orderId,
+          kind: "dca",
+          status: "skipped",
+          expectedAmountOut,
+          minAmountOut,
+          reason: "Quote below the order's minimum price",
+        });
+        continue;
+      }
+
+      submit.push({ orderId, minAmountOut });
+    } catch (error: any) {
+      outcomes.push({
+        orderId,
+        kind: "dca",
+        status: "failed",
+        reason: `Quote failed: ${decodeRevertReason(shariaDCA, error)}`,
+      });
+    }
+  }
+
+  return { submit, outcomes };
+}
+
+/**
+ * Compare submitted order IDs with the DCAOrderExecuted, DCAOrderSkipped and
+ * DCAOrderCancelled events in the receipt (an order whose target was delisted
+ * is cancelled and refunded at execution)
+ *
+ * performUpkeep swallows per-order reverts, so an order missing from the
+ * receipt failed silently. Its reason is recovered by simulating
+ * executeDCAOrder with a static call (at the order's own price floor) against
+ * the post-batch state; a simulation that returns false is a skip, not a pass.
+ */
+async function attributeOrderOutcomes(
+  shariaDCA: any,
+  orderIds: bigint[],
+  receipt: ethers.TransactionReceipt | null
+): Promise<OrderExecutionResult[]> {
+  const executedEvents = new Map<string, ethers.LogDescription>();
+  const skippedEvents = new Map<string, ethers.LogDescription>();
+  const cancelledIds = new Set<string>();
+
+  for (const log of receipt?.logs ?? []) {
+    try {
+      const parsed = shariaDCA.interface.parseLog(log);
+      if (parsed?.name === "DCAOrderExecuted") {
+        executedEvents.set(parsed.args.orderId.toString(), parsed);
+      } else if (parsed?.name === "DCAOrderSkipped") {
+        skippedEvents.set(parsed.args.orderId.toString(), parsed);
+      } else if (parsed?.name === "DCAOrderCancelled") {
+        cancelledIds.add(parsed.args.orderId.toString());
+      }
+    } catch {
+      // Log from another contract (token transfers, pair syncs)
+    }
+  }
+
+  const outcomes: OrderExecutionResult[] = [];
+
+  for (const orderId of orderIds) {
+    const event = executedEvents.get(orderId.toString());
+    if (event) {
+      outcomes.push({
+        orderId,
+        kind: "dca",
+        status: "executed",
+        intervalNumber: event.args.intervalNumber,
+        amountIn: event.args.amountIn,
+        amountOut: event.args.amountOut,
+      });
+      continue;
+    }
+
+    // Price moved past the minimum between quoting and inclusion
+    const skipped = skippedEvents.get(orderId.toString());
+    if (skipped) {
+      outcomes.push({
+        orderId,
+        kind: "dca",
+        status: "skipped",
+        expectedAmountOut: skipped.args.expectedAmountOut,
+        minAmountOut: skipped.args.minAmountOut,
+        reason: "Price breached the minimum at execution",
+      });
+      continue;
+    }
+
+    if (cancelledIds.has(orderId.toString())) {
+      outcomes.push({
+        orderId,
+        kind: "dca",
+        status: "cancelled",
+        reason: "Target token no longer Sharia compliant (deposit refunded)",
+      });
+      continue;
+    }
+
+    // executeDCAOrder returns false instead of reverting when it skips or cancels,
+    // so the simulation's result matters as much as a revert
+    let reason: string;
+    try {
+      const order = await shariaDCA.getDCAOrder(orderId);
+      const executed = (await shariaDCA.executeDCAOrder.staticCall(orderId, order.minAmountOut)) as boolean;
+      if (executed) {
+        reason = "Not executed in batch, but simulation now succeeds (transient failure)";
+      } else {
+        const [expectedAmountOut] = (await shariaDCA.quoteDCAOrder(orderId)) as [bigint, bigint];
+        if (expectedAmountOut < order.minAmountOut) {
+          outcomes.push({
+            orderId,
+            kind: "dca",
+            status: "skipped",
+            expectedAmountOut,
+            minAmountOut: order.minAmountOut,
+            reason: "Quote below the order's minimum price",
+          });
+          continue;
+        }
+        reason = "Not executed in batch; simulation would cancel it (target no longer Sharia compliant)";
+      }
+    } catch (error: any) {
+      reason = decodeRevertReason(shariaDCA, error);
+    }
+
+    outcomes.push({ orderId, kind: "dca", status: "failed", reason });
+  }
+
+  return outcomes;
+}
+
+/**
+ * Compare submitted limit order IDs with the LimitOrderFilled,
+ * LimitOrderExpired and LimitOrderCancelled events in the receipt
+ *
+ * A limit order missing from the receipt is simulated like a DCA order;
+ * LimitNotReached means the price moved back above the limit before
+ * inclusion, which is a skip rather than a failure.
+ */
+async function attributeLimitOrderOutcomes(
+  shariaDCA: any,
+  limitOrderIds: bigint[],
+  receipt: ethers.TransactionReceipt | null
+): Promise<OrderExecutionResult[]> {
+  const filledEvents = new Map<string, ethers.LogDescription>();
+  const expiredEvents = new Map<string, ethers.LogDescription>();
+  const cancelledIds = new Set<string>();
+
+  for (const log of receipt?.logs ?? []) {
+    try {
+      const parsed = shariaDCA.interface.parseLog(log);
+      if (parsed?.name === "LimitOrderFilled") {
+        filledEvents.set(parsed.args.orderId.toString(), parsed);
+      } else if (parsed?.name === "LimitOrderExpired") {
+        expiredEvents.set(parsed.args.orderId.toString(), parsed);
+      } else if (parsed?.name === "LimitOrderCancelled") {
+        cancelledIds.add(parsed.args.orderId.toString());
+      }
+    } catch {
+      // Log from another contract (token transfers, pair syncs)
+    }
+  }
+
+  const outcomes: OrderExecutionResult[] = [];
+
+  for (const orderId of limitOrderIds) {
+    const filled = filledEvents.get(orderId.toString());
+    if (filled) {
+      outcomes.push({
+        orderId,
+        kind: "limit",
+        status: "executed",
+        amountIn: filled.args.amountIn,
+        amountOut: filled.args.amountOut,
+      });
+      continue;
+    }
+
+    const expired = expiredEvents.get(orderId.toString());
+    if (expired) {
+      outcomes.push({
+        orderId,
+        kind: "limit",
+        status: "expired",
+        amountIn: expired.args.refundAmount,
+        reason: "Expired before the limit price was reached (deposit refunded)",
+      });
+      continue;
+    }
+
+    if (cancelledIds.has(orderId.toString())) {
+      outcomes.push({
+        orderId,
+        kind: "limit",
+        status: "cancelled",
+        reason: "Target token no longer Sharia compliant (deposit refunded)",
+      });
+      continue;
+    }
+
+    let reason: string;
+    try {
+      await shariaDCA.executeLimitOrder.staticCall(orderId);
+      reason = "Not executed in batch, but simulation now succeeds (transient failure)";
+    } catch (error: any) {
+      reason = decodeRevertReason(shariaDCA, error);
+    }
+
+    outcomes.push({
+      orderId,
+      kind: "limit",
+      status: reason.startsWith("LimitNotReached") ? "skipped" : "failed",
+      reason: reason.startsWith("LimitNotReached") ? "Price moved back above the limit" : reason,
+    });
+  }
+
+  return outcomes;
+}
+
 /**
  * Execute ready DCA orders with retry logic and metrics
  * 
@@ -105,15 +448,55 @@ export async function executeReadyOrders(
     logOrderIds?: boolean;
     maxRetries?: number;
     retryDelayMs?: number;
+    source?: string;
+    network?: string;
+    persist?: boolean;
   } = {}
 ): Promise<ExecutionResult> {
   const {
     logOrderIds = true,
     maxRetries = 3,
     retryDelayMs = 1000,
+    source = "unknown",
+    network = "unknown",
+    persist = true,
   } = options;
 
-  metrics.lastExecution = new Date();
+  const startTime = Date.now();
+  metrics.lastExecution = new Date(startTime);
+
+  // Persist an attempt without letting storage problems break execution
+  const persistRecord = (record: Omit<ExecutionRecord, "timestamp" | "source" | "network" | "durationMs">) => {
+    if (!persist) return;
+    try {
+      appendExecutionRecord({
+        timestamp: new Date(startTime).toISOString(),
+        source,
+        network,
+        durationMs: Date.now() - startTime,
+        ...record,
+      });
+    } catch (error: any) {
+      console.warn(`   ⚠️  Could not persist execution record: ${error.message}`);
+    }
+  };
+
+  let orderIds: bigint[] = [];
+  let limitOrderIds: bigint[] = [];
+  let screened: OrderExecutionResult[] = [];
+
+  // Persisted form of per-order outcomes
+  const toRecords = (orders: OrderExecutionResult[]) =>
+    orders.map((o) => ({
+      orderId: o.orderId.toString(),
+      kind: o.kind,
+      status: o.status,
+      amountIn: o.amountIn?.toString(),
+      amountOut: o.amountOut?.toString(),
+      expectedAmountOut: o.expectedAmountOut?.toString(),
+      minAmountOut: o.minAmountOut?.toString(),
+      reason: o.reason,
+    }));
 
   try {
     // Check if upkeep is needed (with retry)
@@ -132,47 +515,114 @@ export async function executeReadyOrders(
       return {
         executed: false,
         orderCount: 0,
+        failedCount: 0,
+        skippedCount: 0,
+        orders: [],
         receipt: null,
         txHash: null,
         retries: retries,
       };
     }
 
-    // Decode order IDs if logging is enabled
-    let orderIds: bigint[] = [];
-    if (logOrderIds) {
-      try {
-        orderIds = ethers.AbiCoder.defaultAbiCoder().decode(
-          ["uint256[]"],
-          performData
-        )[0] as bigint[];
-      } catch (error) {
-        console.warn("   ⚠️  Could not decode order IDs for logging");
-      }
+    // Decode DCA and limit order IDs from checkUpkeep
+    const decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+      ["uint256[]", "uint256[]"],
+      performData
+    );
+    orderIds = [...decoded[0]] as bigint[];
+    limitOrderIds = [...decoded[1]] as bigint[];
+
+    if (logOrderIds && orderIds.length > 0) {
+      console.log(`   📋 Ready orders: ${orderIds.map((id) => id.toString()).join(", ")}`);
+    }
+    if (logOrderIds && limitOrderIds.length > 0) {
+      console.log(`   🎯 Ready limit orders: ${limitOrderIds.map((id) => id.toString()).join(", ")}`);
+    }
+
+    // Quote every order and drop the ones already breaching their minimum price
+    const { submit, outcomes } = await quoteReadyOrders(shariaDCA, orderIds);
+    screened = outcomes;
+    const screenedSkips = screened.filter((o) => o.status === "skipped").length;
+    metrics.totalOrderSkips += screenedSkips;
+
+    // Limit orders were checked against their limit (or expiry) by checkUpkeep itself
+    if (submit.length === 0 && limitOrderIds.length === 0) {
+      // Nothing left to submit: record the skips without sending a transaction
+      metrics.totalOrderFailures += screened.length - screenedSkips;
+      persistRecord({
+        executed: false,
+        orderCount: 0,
+        orders: toRecords(screened),
+        txHash: null,
+        blockNumber: null,
+        gasUsed: null,
+        retries,
+      });
+
+      return {
+        executed: false,
+        orderCount: 0,
+        failedCount: screened.length - screenedSkips,
+        skippedCount: screenedSkips,
+        orders: screened,
+        receipt: null,
+        txHash: null,
+        retries,
+      };
     }
 
+    const submittedIds = submit.map((o) => o.orderId);
+    const keeperPerformData = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint256[]", "uint256[]", "uint256[]"],
+      [submittedIds, submit.map((o) => o.minAmountOut), limitOrderIds]
+    );
+
     // Execute orders (with retry)
     const { result: tx, retries: executionRetries } = await executeWithRetry(
       async () => {
-        return await shariaDCA.performUpkeep(performData);
+        return await shariaDCA.performUpkeep(keeperPerformData);
       },
       maxRetries,
       retryDelayMs
     );
 
     const receipt = await tx.wait();
-    const orderCount = orderIds.length || 0;
 
-    // Update metrics on success
+    // Work out which submitted orders actually executed
+    const orders = [
+      ...(await attributeOrderOutcomes(shariaDCA, submittedIds, receipt)),
+      ...screened,
+      ...(await attributeLimitOrderOutcomes(shariaDCA, limitOrderIds, receipt)),
+    ];
+    const orderCount = orders.filter((o) => o.status === "executed").length;
+    const skippedCount = orders.filter((o) => o.status === "skipped").length;
+    const failedCount = orders.filter((o) => o.status === "failed").length;
+
+    // Update metrics on success (screened skips were counted above)
     metrics.totalExecutions++;
     metrics.totalOrdersExecuted += orderCount;
+    metrics.totalOrderFailures += failedCount;
+    metrics.totalOrderSkips += skippedCount - screenedSkips;
     metrics.lastSuccess = new Date();
     metrics.averageOrdersPerExecution =
       metrics.totalOrdersExecuted / metrics.totalExecutions;
 
+    persistRecord({
+      executed: true,
+      orderCount,
+      orders: toRecords(orders),
+      txHash: tx.hash,
+      blockNumber: receipt?.blockNumber ?? null,
+      gasUsed: receipt?.gasUsed?.toString() ?? null,
+      retries: Math.max(retries, executionRetries),
+    });
+
     return {
       executed: true,
       orderCount,
+      failedCount,
+      skippedCount,
+      orders,
       receipt: receipt as ethers.ContractTransactionReceipt,
       txHash: tx.hash,
       retries: Math.max(retries, executionRetries),
@@ -182,9 +632,44 @@ export async function executeReadyOrders(
     metrics.totalFailures++;
     metrics.lastFailure = new Date();
 
+    // Orders screened out before submission keep their outcome
+    const screenedIds = new Set(screened.map((o) => o.orderId));
+    const orders: OrderExecutionResult[] = [
+      ...orderIds
+        .filter((orderId) => !screenedIds.has(orderId))
+        .map((orderId) => ({
+          orderId,
+          kind: "dca" as const,
+          status: "failed" as const,
+          reason: error.message || String(error),
+        })),
+      ...screened,
+      ...limitOrderIds.map((orderId) => ({
+        orderId,
+        kind: "limit" as const,
+        status: "failed" as const,
+        reason: error.message || String(error),
+      })),
+    ];
+    const skippedCount = orders.filter((o) => o.status === "skipped").length;
+    metrics.totalOrderFailures += orders.length - skippedCount;
+
+    persistRecord({
+      executed: false,
+      orderCount: 0,
+      orders: toRecords(orders),
+      txHash: null,
+      blockNumber: null,
+      gasUsed: null,
+      error: error.message || String(error),
+    });
+
     return {
       executed: false,
       orderCount: 0,
+      failedCount: orders.length - skippedCount,
+      skippedCount,
+      orders,
       receipt: null,
       txHash: null,
       error: error.message || String(error),
@@ -192,6 +677,35 @@ export async function executeReadyOrders(
   }
 }
 
+/**
+ * Log the per-order breakdown of an execution result
+ */
+export function logOrderOutcomes(result: ExecutionResult): void {
+  for (const order of result.orders) {
+    const label = order.kind === "limit" ? `Limit order #${order.orderId}` : `Order #${order.orderId}`;
+
+    if (order.status === "executed" && order.kind === "limit") {
+      console.log(`   🎯 ${label} filled: in ${order.amountIn ?? "?"}, out ${order.amountOut ?? "?"}`);
+    } else if (order.status === "executed") {
+      console.log(
+        `   ✅ ${label}: interval ${order.intervalNumber ?? "?"}, in ${order.amountIn ?? "?"}, out ${order.amountOut ?? "?"}`
+      );
+    } else if (order.status === "expired") {
+      console.log(`   ⌛ ${label} expired: refunded ${order.amountIn ?? "?"}`);
+    } else if (order.status === "cancelled") {
+      console.log(`   🚫 ${label} cancelled: ${order.reason}`);
+    } else if (order.status === "skipped" && order.kind === "limit") {
+      console.log(`   ⏭️  ${label} skipped: ${order.reason}`);
+    } else if (order.status === "skipped") {
+      console.log(
+        `   ⏭️  ${label} skipped: ${order.reason} (quote ${order.expectedAmountOut ?? "?"}, min ${order.minAmountOut ?? "?"})`
+      );
+    } else {
+      console.log(`   ❌ ${label} failed: ${order.reason}`);
+    }
+  }
+}
+
 /**
  * Log execution metrics
  */
@@ -200,6 +714,8 @@ export function logMetrics(): void {
   console.log("📊 Execution Metrics:");
   console.log(`   Total executions: ${metrics.totalExecutions}`);
   console.log(`   Total orders executed: ${metrics.totalOrdersExecuted}`);
+  console.log(`   Total order failures: ${metrics.totalOrderFailures}`);
+  console.log(`   Total order skips (price): ${metrics.totalOrderSkips}`);
   console.log(`   Total failures: ${metrics.totalFailures}`);
   console.log(
     `   Average orders per execution: ${metrics.averageOrdersPerExecution.toFixed(2)}`
@@ -0,0 +1,242 @@
+import { ethers } from "ethers";
+import { fetchLogs } from "./eventIndexer";
+
+/**
+ * In-memory schedule of ShariaDCA orders for the keeper
+ *
+ * Order IDs come from ShariaDCA events; each touched order is then re-read with
+ * getDCAOrder / getLimitOrder at the synced block, so the schedule holds the
+ * contract's own nextExecutionTime (already aligned to "hour minus
+ * blocksBeforeHour * blockTime"). Syncs are incremental: only events after the
+ * last synced block are fetched.
+ */
+
+/**
+ * Events that change when (or whether) an order is due
+ */
+const SCHEDULE_EVENTS = [
+  "DCAOrderCreated",
+  "DCAOrderExecuted",
+  "DCAOrderPaused",
+  "DCAOrderResumed",
+  "DCAOrderToppedUp",
+  "DCAOrderCancelled",
+  "DCAOrderCompleted",
+  "LimitOrderCreated",
+  "LimitOrderFilled",
+  "LimitOrderCancelled",
+  "LimitOrderExpired",
+];
+
+const DEFAULT_BATCH_SIZE = 10000;
+const LIMIT_ORDER_OPEN = 0n;
+
+/**
+ * Active DCA order (paused orders stay in the schedule but are never due)
+ */
+export interface ScheduledOrder {
+  orderId: bigint;
+  owner: string;
+  nextExecutionTime: number; // Chain timestamp (seconds)
+  interval: number;
+  intervalsCompleted: number;
+  totalIntervals: number;
+  isPaused: boolean;
+}
+
+/**
+ * Open limit order (filled on price, so only its expiry can be scheduled)
+ */
+export interface ScheduledLimitOrder {
+  orderId: bigint;
+  owner: string;
+  expiry: number; // Chain timestamp (seconds)
+}
+
+export interface DCASchedule {
+  orders: Map<string, ScheduledOrder>;
+  limitOrders: Map<string, ScheduledLimitOrder>;
+  syncedBlock: number;
+  syncedAt: number | null; // Local time (ms) of the last successful sync
+  chainClockOffsetMs: number; // Synced block timestamp minus local time at the sync
+}
+
+/**
+ * When the keeper should wake next, and why
+ * - due: DCA orders reach nextExecutionTime
+ * - limit: open limit orders need a price check, or one expires
+ * - resync: nothing due before the next schedule refresh
+ */
+export interface WakePlan {
+  at: number; // Local time (ms)
+  reason: "due" | "limit" | "resync";
+  orderIds: bigint[];
+}
+
+export interface WakeOptions {
+  blockTime: number; // Seconds; wakes one block after the due time so checkUpkeep sees it
+  pollIntervalMs: number; // Limit order price checks, and retries of orders still due after a check
+  resyncIntervalMs: number;
+  lastCheckAt?: number | null; // Local time (ms) of the last checkUpkeep
+}
+
+/**
+ * Empty schedule that syncs from startBlock
+ */
+export function createSchedule(startBlock: number): DCASchedule {
+  return {
+    orders: new Map(),
+    limitOrders: new Map(),
+    syncedBlock: startBlock - 1,
+    syncedAt: null,
+    chainClockOffsetMs: 0,
+  };
+}
+
+/**
+ * Bring the schedule up to the latest block
+ * Returns how many orders were re-read
+ */
+export async function syncSchedule(
+  schedule: DCASchedule,
+  shariaDCA: any, // Using any to support ethers contract types
+  provider: ethers.Provider,
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<number> {
+  const head = await provider.getBlock("latest");
+  if (!head) throw new Error("Latest block not available");
+
+  const address = await shariaDCA.getAddress();
+  const topics = [SCHEDULE_EVENTS.map((name) => shariaDCA.interface.getEvent(name).topicHash)];
+  const dcaIds = new Set<bigint>();
+  const limitIds = new Set<bigint>();
+
+  for (let from = schedule.syncedBlock + 1; from <= head.number; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, head.number);
+    // A single topic array matches any of the listed events
+    const logs = await fetchLogs(provider, { address: [address], topics }, from, to);
+
+    for (const log of logs) {
+      if (log.removed) continue;
+      const parsed = shariaDCA.interface.parseLog(log);
+      if (!parsed) continue;
+      (parsed.name.startsWith("Limit") ? limitIds : dcaIds).add(parsed.args.orderId);
+    }
+  }
+
+  // Read at the synced block so every order reflects the same state
+  const blockTag = head.number;
+
+  for (const orderId of dcaIds) {
+    const order = await shariaDCA.getDCAOrder(orderId, { blockTag });
+    if (order.isActive && order.intervalsCompleted < order.totalIntervals) {
+      schedule.orders.set(orderId.toString(), {
+        orderId,
+        owner: order.owner,
+        nextExecutionTime: Number(order.nextExecutionTime),
+        interval: Number(order.interval),
+        intervalsCompleted: Number(order.intervalsCompleted),
+        totalIntervals: Number(order.totalIntervals),
+        isPaused: order.isPaused,
+      });
+    } else {
+      schedule.orders.delete(orderId.toString());
+    }
+  }
+
+  for (const orderId of limitIds) {
+    const order = await shariaDCA.getLimitOrder(orderId, { blockTag });
+    if (BigInt(order.status) === LIMIT_ORDER_OPEN) {
+      schedule.limitOrders.set(orderId.toString(), {
+        orderId,
+        owner: order.owner,
+        expiry: Number(order.expiry),
+      });
+    } else {
+      schedule.limitOrders.delete(orderId.toString());
+    }
+  }
+
+  schedule.syncedBlock = head.number;
+  schedule.syncedAt = Date.now();
+  schedule.chainClockOffsetMs = head.timestamp * 1000 - schedule.syncedAt;
+
+  return dcaIds.size + limitIds.size;
+}
+
+/**
+ * Whether the schedule was never synced or its last sync is older than maxAgeMs
+ */
+export function isScheduleStale(schedule: DCASchedule, maxAgeMs: number, now: number = Date.now()): boolean {
+  return schedule.syncedAt === null || now - schedule.syncedAt > maxAgeMs;
+}
+
+/**
+ * Convert a chain timestamp (seconds) to local time (ms) using the offset measured at the last sync
+ */
+export function chainTimeToLocal(schedule: DCASchedule, chainTime: number): number {
+  return chainTime * 1000 - schedule.chainClockOffsetMs;
+}
+
+/**
+ * Active DCA orders, soonest first (paused orders last)
+ */
+export function upcomingExecutions(schedule: DCASchedule): ScheduledOrder[] {
+  return [...schedule.orders.values()].sort((a, b) =>
+    a.isPaused !== b.isPaused ? (a.isPaused ? 1 : -1) : a.nextExecutionTime - b.nextExecutionTime
+  );
+}
+
+/**
+ * Work out the next wake-up from the schedule
+ *
+ * DCA orders wake the keeper one block after their nextExecutionTime. Orders
+ * that were already due at the last check (the execution failed or was
+ * skipped) are retried at the poll interval instead of on every block.
+ */
+export function planNextWake(schedule: DCASchedule, options: WakeOptions, now: number = Date.now()): WakePlan {
+  const { blockTime, pollIntervalMs, resyncIntervalMs, lastCheckAt = null } = options;
+
+  let plan: WakePlan = {
+    at: (schedule.syncedAt ?? now) + resyncIntervalMs,
+    reason: "resync",
+    orderIds: [],
+  };
+  const consider = (at: number, reason: WakePlan["reason"], orderId: bigint) => {
+    if (at < plan.at) {
+      plan = { at, reason, orderIds: [orderId] };
+    } else if (at === plan.at && reason === plan.reason) {
+      plan.orderIds.push(orderId);
+    }
+  };
+
+  for (const order of upcomingExecutions(schedule)) {
+    if (order.isPaused) continue;
+    let at = chainTimeToLocal(schedule, order.nextExecutionTime + blockTime);
+    if (lastCheckAt !== null && at <= lastCheckAt) at = lastCheckAt + pollIntervalMs;
+    consider(at, "due", order.orderId);
+  }
+
+  for (const order of schedule.limitOrders.values()) {
+    // checkUpkeep refunds a limit order once block.timestamp > expiry
+    const expiresAt = chainTimeToLocal(schedule, order.expiry + 1 + blockTime);
+    const pollAt = (lastCheckAt ?? now) + pollIntervalMs;
+    consider(Math.min(expiresAt, pollAt), "limit", order.orderId);
+  }
+
+  return { ...plan, at: Math.max(plan.at, now) };
+}
+
+/**
+ * Human-readable duration ("7d 0h", "2h 5m", "45s")
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(Math.round(ms / 1000), 0);
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+}
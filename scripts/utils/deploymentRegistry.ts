@@ -0,0 +1,101 @@
+import hre from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DeployedContracts,
+  DeploymentRegistry,
+  createEmptyDeployment,
+  getDeployment,
+} from "../../config/types";
+
+/**
+ * Path to the multi-network deployment registry
+ */
+export const REGISTRY_PATH = path.join(__dirname, "..", "..", "config", "deployedContracts.json");
+
+/**
+ * Resolve the registry path from the environment (falls back to REGISTRY_PATH)
+ * The devnet bootstrap points DEPLOYMENT_REGISTRY at its own file so local
+ * deployments stay out of the committed registry
+ */
+export function getRegistryPath(): string {
+  return process.env.DEPLOYMENT_REGISTRY
+    ? path.resolve(process.env.DEPLOYMENT_REGISTRY)
+    : REGISTRY_PATH;
+}
+
+/**
+ * Active network (from `--network`) with its chain ID
+ */
+export interface ActiveNetwork {
+  name: string;
+  chainId: number;
+}
+
+/**
+ * Resolve the network the script is running against
+ * Uses the provider's chain ID so `localhost` resolves to the hardhat node's chain
+ */
+export async function getActiveNetwork(): Promise<ActiveNetwork> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return { name: hre.network.name, chainId: Number(chainId) };
+}
+
+/**
+ * Read the registry from disk (always fresh, so incremental saves are visible)
+ */
+export function readRegistry(registryPath: string = getRegistryPath()): DeploymentRegistry {
+  if (!fs.existsSync(registryPath)) {
+    return { version: "2.0.0", deployments: {} };
+  }
+  return JSON.parse(fs.readFileSync(registryPath, "utf8")) as DeploymentRegistry;
+}
+
+/**
+ * Read the deployment section for a network (empty section if nothing deployed yet)
+ */
+export function readDeployment(
+  network: ActiveNetwork,
+  registryPath: string = getRegistryPath()
+): DeployedContracts {
+  return (
+    getDeployment(readRegistry(registryPath), network.chainId) ||
+    createEmptyDeployment(network.name, network.chainId)
+  );
+}
+
+/**
+ * Update the deployment section for a network, leaving other chains untouched
+ */
+export function updateDeployment(
+  network: ActiveNetwork,
+  update: (current: DeployedContracts) => DeployedContracts,
+  registryPath: string = getRegistryPath()
+): DeployedContracts {
+  const registry = readRegistry(registryPath);
+  const current =
+    getDeployment(registry, network.chainId) ||
+    createEmptyDeployment(network.name, network.chainId);
+
+  const updated = {
+    ...update(current),
+    network: network.name,
+    chainId: network.chainId,
+  };
+
+  registry.deployments[String(network.chainId)] = updated;
+  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+  fs.writeFileSync(registryPath, JSON.stringify(registry, null, 2) + "\n");
+  return updated;
+}
+
+/**
+ * Load the deployment section for the active network
+ */
+export async function loadActiveDeployment(): Promise<{
+  network: ActiveNetwork;
+  deployment: DeployedContracts;
+}> {
+  const network = await getActiveNetwork();
+  return { network, deployment: readDeployment(network) };
+}
@@ -0,0 +1,544 @@
+import { ethers } from "ethers";
+import {
+  CoinEventRow,
+  DCAEventRow,
+  IndexedBatch,
+  IndexerStore,
+  LimitOrderEventRow,
+  LogPosition,
+  PairEventRow,
+  SwapRow,
+  TransferRow,
+} from "./indexerStore";
+
+/**
+ * Events followed by the indexer (human-readable ABI, so no compiled artifacts are needed)
+ */
+export const SHARIA_SWAP_EVENTS = new ethers.Interface([
+  "event SwapExecuted(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, string tokenOutSymbol)",
+]);
+
+export const SHARIA_DCA_EVENTS = new ethers.Interface([
+  "event DCAOrderCreated(uint256 indexed orderId, address indexed owner, address sourceToken, address targetToken, uint256 amountPerInterval, uint256 interval, uint256 totalIntervals)",
+  "event DCAOrderExecuted(uint256 indexed orderId, uint256 intervalNumber, uint256 amountIn, uint256 amountOut, uint256 timestamp)",
+  "event DCAOrderSkipped(uint256 indexed orderId, uint256 expectedAmountOut, uint256 minAmountOut, uint256 timestamp)",
+  "event DCAOrderPaused(uint256 indexed orderId, address indexed owner)",
+  "event DCAOrderResumed(uint256 indexed orderId, address indexed owner, uint256 nextExecutionTime)",
+  "event DCAOrderToppedUp(uint256 indexed orderId, address indexed owner, uint256 additionalIntervals, uint256 totalIntervals, uint256 amountDeposited)",
+  "event DCAOrderCancelled(uint256 indexed orderId, address indexed owner)",
+  "event DCAOrderCompleted(uint256 indexed orderId, address indexed owner, uint256 totalIntervals)",
+  "event LimitOrderCreated(uint256 indexed orderId, address indexed owner, address sourceToken, address targetToken, uint256 amountIn, uint256 minAmountOut, uint256 expiry)",
+  "event LimitOrderFilled(uint256 indexed orderId, address indexed owner, uint256 amountIn, uint256 amountOut, uint256 timestamp)",
+  "event LimitOrderCancelled(uint256 indexed orderId, address indexed owner)",
+  "event LimitOrderExpired(uint256 indexed orderId, address indexed owner, uint256 refundAmount)",
+]);
+
+export const SHARIA_COMPLIANCE_EVENTS = new ethers.Interface([
+  "event CoinRegistered(string indexed coinId, string name, string symbol, string complianceReason)",
+  "event CoinRemoved(string indexed coinId)",
+  "event CoinUpdated(string indexed coinId, bool verified, string complianceReason)",
+]);
+
+export const SIMPLE_PAIR_EVENTS = new ethers.Interface([
+  "event Mint(address indexed sender, uint256 amount0, uint256 amount1)",
+  "event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+]);
+
+// ERC721 shares the signature but indexes tokenId too (4 topics), ERC20 has 3
+export const ERC20_TRANSFER_EVENTS = new ethers.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+const TRANSFER_TOPIC = ERC20_TRANSFER_EVENTS.getEvent("Transfer")!.topicHash;
+
+/**
+ * Contracts whose logs are indexed (addresses from the deployment registry)
+ */
+export interface IndexedContracts {
+  shariaSwap?: string;
+  shariaDCA?: string;
+  shariaCompliance?: string;
+  pairs: string[];
+}
+
+/**
+ * Indexer options
+ */
+export interface EventIndexerOptions {
+  provider: ethers.Provider;
+  store: IndexerStore;
+  contracts: IndexedContracts;
+  startBlock: number;
+  batchSize?: number; // Blocks per eth_getLogs request (halved automatically if the RPC rejects it)
+  confirmations?: number; // Blocks behind head to stay, so most reorgs never reach the database
+  reorgDepth?: number; // How many recent block hashes to keep for finding a fork point
+  indexTransfers?: boolean; // Also index ERC20 Transfer logs from every token (wallet token discovery)
+}
+
+/**
+ * Result of one catch-up pass
+ */
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  logCount: number;
+  rolledBackTo: number | null;
+}
+
+const DEFAULT_BATCH_SIZE = 1000;
+const DEFAULT_CONFIRMATIONS = 2;
+const DEFAULT_REORG_DEPTH = 64;
+
+// Blocks (and transactions) fetched in parallel when collecting timestamps and senders
+const BLOCK_FETCH_CONCURRENCY = 10;
+
+/**
+ * Decode raw logs into rows, ignoring events the indexer doesn't follow
+ * (e.g. LP token Transfer/Approval logs emitted by the pairs)
+ */
+export function decodeLogs(
+  logs: ethers.Log[],
+  contracts: IndexedContracts,
+  timestamps: Map<number, number>
+): Omit<IndexedBatch, "blocks" | "transfers"> {
+  const batch: Omit<IndexedBatch, "blocks" | "transfers"> = {
+    swaps: [],
+    dcaEvents: [],
+    limitOrderEvents: [],
+    coinEvents: [],
+    pairEvents: [],
+  };
+  const same = (a: string | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+  const pairs = new Set(contracts.pairs.map((pair) => pair.toLowerCase()));
+
+  for (const log of logs) {
+    const position: LogPosition = {
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+    };
+    const address = log.address.toLowerCase();
+
+    if (same(contracts.shariaSwap, address)) {
+      const parsed = SHARIA_SWAP_EVENTS.parseLog(log);
+      if (parsed?.name !== "SwapExecuted") continue;
+      const row: SwapRow = {
+        ...position,
+        user: parsed.args.user.toLowerCase(),
+        tokenIn: parsed.args.tokenIn.toLowerCase(),
+        tokenOut: parsed.args.tokenOut.toLowerCase(),
+        amountIn: parsed.args.amountIn.toString(),
+        amountOut: parsed.args.amountOut.toString(),
+        tokenOutSymbol: parsed.args.tokenOutSymbol,
+      };
+      batch.swaps.push(row);
+    } else if (same(contracts.shariaDCA, address)) {
+      const parsed = SHARIA_DCA_EVENTS.parseLog(log);
+      if (!parsed) continue;
+      if (parsed.name.startsWith("LimitOrder")) {
+        const limitRow = decodeLimitOrderEvent(parsed, position);
+        if (limitRow) batch.limitOrderEvents.push(limitRow);
+        continue;
+      }
+      const base = { ...position, orderId: parsed.args.orderId.toString() };
+      let row: DCAEventRow;
+      switch (parsed.name) {
+        case "DCAOrderCreated":
+          row = {
+            ...base,
+            event: "created",
+            owner: parsed.args.owner.toLowerCase(),
+            sourceToken: parsed.args.sourceToken.toLowerCase(),
+            targetToken: parsed.args.targetToken.toLowerCase(),
+            amountPerInterval: parsed.args.amountPerInterval.toString(),
+            intervalSeconds: parsed.args.interval.toString(),
+            totalIntervals: parsed.args.totalIntervals.toString(),
+          };
+          break;
+        case "DCAOrderExecuted":
+          row = {
+            ...base,
+            event: "executed",
+            owner: null,
+            intervalNumber: parsed.args.intervalNumber.toString(),
+            amountIn: parsed.args.amountIn.toString(),
+            amountOut: parsed.args.amountOut.toString(),
+          };
+          break;
+        case "DCAOrderSkipped":
+          row = {
+            ...base,
+            event: "skipped",
+            owner: null,
+            amountOut: parsed.args.expectedAmountOut.toString(),
+            minAmountOut: parsed.args.minAmountOut.toString(),
+          };
+          break;
+        case "DCAOrderPaused":
+          row = { ...base, event: "paused", owner: parsed.args.owner.toLowerCase() };
+          break;
+        case "DCAOrderResumed":
+          row = {
+            ...base,
+            event: "resumed",
+            owner: parsed.args.owner.toLowerCase(),
+            nextExecutionTime: parsed.args.nextExecutionTime.toString(),
+          };
+          break;
+        case "DCAOrderToppedUp":
+          row = {
+            ...base,
+            event: "topped-up",
+            owner: parsed.args.owner.toLowerCase(),
+            additionalIntervals: parsed.args.additionalIntervals.toString(),
+            totalIntervals: parsed.args.totalIntervals.toString(),
+            amountIn: parsed.args.amountDeposited.toString(),
+          };
+          break;
+        case "DCAOrderCancelled":
+          row = { ...base, event: "cancelled", owner: parsed.args.owner.toLowerCase() };
+          break;
+        case "DCAOrderCompleted":
+          row = {
+            ...base,
+            event: "completed",
+            owner: parsed.args.owner.toLowerCase(),
+            totalIntervals: parsed.args.totalIntervals.toString(),
+          };
+          break;
+        default:
+          continue;
+      }
+      batch.dcaEvents.push(row);
+    } else if (same(contracts.shariaCompliance, address)) {
+      const parsed = SHARIA_COMPLIANCE_EVENTS.parseLog(log);
+      if (!parsed) continue;
+      // Indexed strings are only available as their keccak256 hash
+      const coinIdHash = (parsed.args.coinId as ethers.Indexed).hash as string;
+      let row: CoinEventRow;
+      switch (parsed.name) {
+        case "CoinRegistered":
+          row = {
+            ...position,
+            event: "registered",
+            coinIdHash,
+            // Coin IDs are normally the symbol: confirm against the hash before trusting it
+            coinId: ethers.id(parsed.args.symbol) === coinIdHash ? parsed.args.symbol : null,
+            name: parsed.args.name,
+            symbol: parsed.args.symbol,
+            complianceReason: parsed.args.complianceReason,
+            verified: true,
+          };
+          break;
+        case "CoinUpdated":
+          row = {
+            ...position,
+            event: "updated",
+            coinIdHash,
+            coinId: null,
+            verified: parsed.args.verified,
+            complianceReason: parsed.args.complianceReason,
+          };
+          break;
+        case "CoinRemoved":
+          row = { ...position, event: "removed", coinIdHash, coinId: null };
+          break;
+        default:
+          continue;
+      }
+      batch.coinEvents.push(row);
+    } else if (pairs.has(address)) {
+      const parsed = SIMPLE_PAIR_EVENTS.parseLog(log);
+      if (!parsed) continue;
+      const base = { ...position, pair: address };
+      let row: PairEventRow;
+      switch (parsed.name) {
+        case "Swap":
+          row = {
+            ...base,
+            event: "swap",
+            sender: parsed.args.sender.toLowerCase(),
+            recipient: parsed.args.to.toLowerCase(),
+            amount0In: parsed.args.amount0In.toString(),
+            amount1In: parsed.args.amount1In.toString(),
+            amount0Out: parsed.args.amount0Out.toString(),
+            amount1Out: parsed.args.amount1Out.toString(),
+          };
+          break;
+        case "Mint":
+          row = {
+            ...base,
+            event: "mint",
+            sender: parsed.args.sender.toLowerCase(),
+            amount0: parsed.args.amount0.toString(),
+            amount1: parsed.args.amount1.toString(),
+          };
+          break;
+        case "Burn":
+          row = {
+            ...base,
+            event: "burn",
+            sender: parsed.args.sender.toLowerCase(),
+            recipient: parsed.args.to.toLowerCase(),
+            amount0: parsed.args.amount0.toString(),
+            amount1: parsed.args.amount1.toString(),
+          };
+          break;
+        case "Sync":
+          row = {
+            ...base,
+            event: "sync",
+            reserve0: parsed.args.reserve0.toString(),
+            reserve1: parsed.args.reserve1.toString(),
+          };
+          break;
+        default:
+          continue;
+      }
+      batch.pairEvents.push(row);
+    }
+  }
+
+  return batch;
+}
+
+/**
+ * Decode a ShariaDCA limit order event (these orders have their own IDs and table)
+ */
+function decodeLimitOrderEvent(parsed: ethers.LogDescription, position: LogPosition): LimitOrderEventRow | null {
+  const base = { ...position, orderId: parsed.args.orderId.toString(), owner: parsed.args.owner.toLowerCase() };
+  switch (parsed.name) {
+    case "LimitOrderCreated":
+      return {
+        ...base,
+        event: "created",
+        sourceToken: parsed.args.sourceToken.toLowerCase(),
+        targetToken: parsed.args.targetToken.toLowerCase(),
+        amountIn: parsed.args.amountIn.toString(),
+        minAmountOut: parsed.args.minAmountOut.toString(),
+        expiry: Number(parsed.args.expiry),
+      };
+    case "LimitOrderFilled":
+      return {
+        ...base,
+        event: "filled",
+        amountIn: parsed.args.amountIn.toString(),
+        amountOut: parsed.args.amountOut.toString(),
+      };
+    case "LimitOrderCancelled":
+      return { ...base, event: "cancelled" };
+    case "LimitOrderExpired":
+      return { ...base, event: "expired", amountIn: parsed.args.refundAmount.toString() };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode ERC20 Transfer logs from any contract (ERC721 transfers are skipped)
+ */
+export function decodeTransfers(logs: ethers.Log[], timestamps: Map<number, number>): TransferRow[] {
+  const rows: TransferRow[] = [];
+  for (const log of logs) {
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) continue;
+    const parsed = ERC20_TRANSFER_EVENTS.parseLog(log);
+    if (!parsed) continue;
+    rows.push({
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      token: log.address.toLowerCase(),
+      from: parsed.args.from.toLowerCase(),
+      to: parsed.args.to.toLowerCase(),
+      value: parsed.args.value.toString(),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Fetch blocks (hash and timestamp) with bounded concurrency
+ */
+async function fetchBlocks(
+  provider: ethers.Provider,
+  blockNumbers: number[]
+): Promise<Array<{ number: number; hash: string; timestamp: number }>> {
+  const blocks: Array<{ number: number; hash: string; timestamp: number }> = [];
+  for (let i = 0; i < blockNumbers.length; i += BLOCK_FETCH_CONCURRENCY) {
+    const chunk = await Promise.all(
+      blockNumbers.slice(i, i + BLOCK_FETCH_CONCURRENCY).map(async (blockNumber) => {
+        const block = await provider.getBlock(blockNumber);
+        if (!block?.hash) throw new Error(`Block ${blockNumber} not found`);
+        return { number: blockNumber, hash: block.hash, timestamp: block.timestamp };
+      })
+    );
+    blocks.push(...chunk);
+  }
+  return blocks;
+}
+
+/**
+ * Look up transaction senders (from) by hash with bounded concurrency
+ */
+async function fetchSenders(provider: ethers.Provider, txHashes: string[]): Promise<Map<string, string>> {
+  const unique = [...new Set(txHashes)];
+  const senders = new Map<string, string>();
+  for (let i = 0; i < unique.length; i += BLOCK_FETCH_CONCURRENCY) {
+    await Promise.all(
+      unique.slice(i, i + BLOCK_FETCH_CONCURRENCY).map(async (txHash) => {
+        const tx = await provider.getTransaction(txHash);
+        if (tx) senders.set(txHash, tx.from.toLowerCase());
+      })
+    );
+  }
+  return senders;
+}
+
+/**
+ * Fetch logs for a range, splitting it in half when the RPC rejects the request
+ * (public endpoints cap the block range or the number of results)
+ */
+export async function fetchLogs(
+  provider: ethers.Provider,
+  filter: { address?: string[]; topics?: ethers.TopicFilter },
+  fromBlock: number,
+  toBlock: number
+): Promise<ethers.Log[]> {
+  try {
+    return await provider.getLogs({ ...filter, fromBlock, toBlock });
+  } catch (error) {
+    if (fromBlock === toBlock) throw error;
+    const middle = Math.floor((fromBlock + toBlock) / 2);
+    const first = await fetchLogs(provider, filter, fromBlock, middle);
+    const second = await fetchLogs(provider, filter, middle + 1, toBlock);
+    return [...first, ...second];
+  }
+}
+
+/**
+ * Index one block range and advance the checkpoint to its last block
+ */
+export async function indexRange(
+  options: EventIndexerOptions,
+  fromBlock: number,
+  toBlock: number
+): Promise<number> {
+  const { provider, store, contracts, reorgDepth = DEFAULT_REORG_DEPTH, indexTransfers = false } = options;
+  const addresses = [contracts.shariaSwap, contracts.shariaDCA, contracts.shariaCompliance, ...contracts.pairs].filter(
+    (address): address is string => !!address
+  );
+
+  const logs = await fetchLogs(provider, { address: addresses }, fromBlock, toBlock);
+  const transferLogs = indexTransfers ? await fetchLogs(provider, { topics: [TRANSFER_TOPIC] }, fromBlock, toBlock) : [];
+  // Logs from a block removed by a reorg mid-request are flagged by the node
+  const liveLogs = logs.filter((log) => !log.removed);
+  const liveTransferLogs = transferLogs.filter((log) => !log.removed);
+
+  const blockNumbers = [
+    ...new Set([...liveLogs.map((log) => log.blockNumber), ...liveTransferLogs.map((log) => log.blockNumber), toBlock]),
+  ];
+  const blocks = await fetchBlocks(provider, blockNumbers);
+  const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+  const checkpointBlock = blocks.find((block) => block.number === toBlock)!;
+
+  const batch = decodeLogs(liveLogs, contracts, timestamps);
+  // Compliance events don't name the caller: record who sent each registry change
+  const senders = await fetchSenders(provider, batch.coinEvents.map((row) => row.txHash));
+  for (const row of batch.coinEvents) row.sender = senders.get(row.txHash) ?? null;
+
+  store.saveBatch(
+    { ...batch, transfers: decodeTransfers(liveTransferLogs, timestamps), blocks },
+    { blockNumber: toBlock, blockHash: checkpointBlock.hash, timestamp: checkpointBlock.timestamp },
+    reorgDepth
+  );
+
+  return liveLogs.length + liveTransferLogs.length;
+}
+
+/**
+ * Compare the checkpoint with the chain and roll back to the fork point on a reorg
+ * Returns the block rolled back to, or null if the checkpoint is still canonical
+ */
+export async function handleReorg(options: EventIndexerOptions): Promise<number | null> {
+  const { provider, store, startBlock, reorgDepth = DEFAULT_REORG_DEPTH } = options;
+  const checkpoint = store.getCheckpoint();
+  if (!checkpoint) return null;
+
+  const block = await provider.getBlock(checkpoint.blockNumber);
+  if (block?.hash === checkpoint.blockHash) return null;
+
+  console.warn(`⚠️  Reorg detected at block ${checkpoint.blockNumber}, looking for the fork point...`);
+
+  // Newest stored block that is still on the canonical chain
+  for (const stored of store.getRecentBlocks(reorgDepth)) {
+    const canonical = await provider.getBlock(stored.blockNumber);
+    if (canonical?.hash === stored.blockHash) {
+      store.rollbackTo(stored);
+      console.warn(`   Rolled back to block ${stored.blockNumber}`);
+      return stored.blockNumber;
+    }
+  }
+
+  // Deeper than the stored history: re-index from the start
+  const restart = Math.max(startBlock - 1, 0);
+  store.rollbackTo({ blockNumber: restart, blockHash: "" });
+  console.warn(`   Fork point older than ${reorgDepth} blocks, re-indexing from block ${startBlock}`);
+  return restart;
+}
+
+/**
+ * Catch up from the checkpoint to (head - confirmations)
+ */
+export async function syncToHead(options: EventIndexerOptions): Promise<SyncResult | null> {
+  const {
+    provider,
+    store,
+    startBlock,
+    batchSize = DEFAULT_BATCH_SIZE,
+    confirmations = DEFAULT_CONFIRMATIONS,
+  } = options;
+
+  const rolledBackTo = await handleReorg(options);
+
+  const head = (await provider.getBlockNumber()) - confirmations;
+  const checkpoint = store.getCheckpoint();
+  const fromBlock = checkpoint ? checkpoint.blockNumber + 1 : startBlock;
+  if (fromBlock > head) {
+    return rolledBackTo === null ? null : { fromBlock, toBlock: fromBlock - 1, logCount: 0, rolledBackTo };
+  }
+
+  let logCount = 0;
+  for (let from = fromBlock; from <= head; from += batchSize) {
+    const to = Math.min(from + batchSize - 1, head);
+    logCount += await indexRange(options, from, to);
+  }
+
+  return { fromBlock, toBlock: head, logCount, rolledBackTo };
+}
+
+/**
+ * Find the block a contract was deployed in (binary search on eth_getCode)
+ * Needs historical state, so returns 0 when the node can't answer
+ */
+export async function findDeploymentBlock(provider: ethers.Provider, address: string): Promise<number> {
+  try {
+    let low = 0;
+    let high = await provider.getBlockNumber();
+    if ((await provider.getCode(address, high)) === "0x") return high;
+
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if ((await provider.getCode(address, middle)) === "0x") {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Default location of the DCA executor history (JSON-lines, one record per attempt)
+ * Override with DCA_EXECUTOR_STORE to share a file between the daemon and cron runs
+ */
+export const DEFAULT_STORE_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "data",
+  "dca-executor",
+  "executions.jsonl"
+);
+
+/**
+ * Outcome of a single order inside an execution attempt
+ * (kind is missing on records written before limit orders existed: treat as "dca")
+ */
+export interface OrderOutcomeRecord {
+  orderId: string;
+  kind?: "dca" | "limit";
+  status: "executed" | "failed" | "skipped" | "expired" | "cancelled";
+  amountIn?: string;
+  amountOut?: string;
+  expectedAmountOut?: string;
+  minAmountOut?: string;
+  reason?: string;
+}
+
+/**
+ * One persisted execution attempt (a performUpkeep submission or a failure)
+ */
+export interface ExecutionRecord {
+  timestamp: string;
+  source: string;
+  network: string;
+  executed: boolean;
+  orderCount: number;
+  orders: OrderOutcomeRecord[];
+  txHash: string | null;
+  blockNumber: number | null;
+  gasUsed: string | null;
+  retries?: number;
+  durationMs: number;
+  error?: string;
+}
+
+/**
+ * Resolve the store path from the environment (falls back to DEFAULT_STORE_PATH)
+ */
+export function getStorePath(): string {
+  return process.env.DCA_EXECUTOR_STORE || DEFAULT_STORE_PATH;
+}
+
+/**
+ * Append an execution record to the store
+ */
+export function appendExecutionRecord(
+  record: ExecutionRecord,
+  storePath: string = getStorePath()
+): void {
+  fs.mkdirSync(path.dirname(storePath), { recursive: true });
+  fs.appendFileSync(storePath, JSON.stringify(record) + "\n");
+}
+
+/**
+ * Read all execution records from the store
+ * Lines that fail to parse (e.g. a partial write on crash) are skipped
+ */
+export function readExecutionRecords(
+  storePath: string = getStorePath()
+): ExecutionRecord[] {
+  if (!fs.existsSync(storePath)) {
+    return [];
+  }
+
+  const records: ExecutionRecord[] = [];
+  const lines = fs.readFileSync(storePath, "utf8").split("\n");
+
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as ExecutionRecord);
+    } catch {
+      console.warn("   ⚠️  Skipping malformed execution record");
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,193 @@
+import * as http from "http";
+import { DCAEventType, IndexerStore, LimitOrderEventType, PairEventType } from "./indexerStore";
+
+/**
+ * Indexer API server options
+ */
+export interface IndexerServerOptions {
+  store: IndexerStore;
+  chainId: number;
+  port?: number;
+  host?: string;
+}
+
+const DCA_EVENT_TYPES: DCAEventType[] = [
+  "created",
+  "executed",
+  "skipped",
+  "paused",
+  "resumed",
+  "topped-up",
+  "cancelled",
+  "completed",
+];
+const LIMIT_ORDER_EVENT_TYPES: LimitOrderEventType[] = ["created", "filled", "cancelled", "expired"];
+const PAIR_EVENT_TYPES: PairEventType[] = ["swap", "mint", "burn", "sync"];
+
+// Largest page a list endpoint returns (order summaries run a query per row)
+const MAX_PAGE_LIMIT = 1000;
+const DEFAULT_PAGE_LIMIT = 50;
+
+/**
+ * Start a local HTTP server answering queries against the indexed events
+ *
+ * Endpoints (all GET, JSON, newest first, ?limit=N&offset=M where listed):
+ * - GET /health                     Liveness check
+ * - GET /status                     Chain and last indexed block
+ * - GET /swaps                      ShariaSwap swaps (?user, ?token)
+ * - GET /dca/orders                 DCA orders with status and totals (?owner)
+ * - GET /dca/orders/:id             One order and its events
+ * - GET /dca/events                 DCA events (?orderId, ?owner, ?event)
+ * - GET /dca/limit-orders           Limit orders with their outcome (?owner)
+ * - GET /dca/limit-orders/:id       One limit order and its events
+ * - GET /dca/limit-events           Limit order events (?orderId, ?owner, ?event)
+ * - GET /coins/events               Compliance registry changes (?coinId)
+ * - GET /pairs/:address/events      Pair Swap/Mint/Burn/Sync logs (?event, ?from unix seconds)
+ * - GET /analytics/volume           Daily swap count and volume per input token (?from)
+ * - GET /tokens/held                Tokens an address has sent or received (?address, needs INDEXER_TRANSFERS)
+ *
+ * limit is capped at MAX_PAGE_LIMIT. Amounts are returned as decimal strings in the token's smallest unit.
+ * CORS is open so the frontend can query it from the Vite dev server.
+ */
+export function startIndexerServer(options: IndexerServerOptions): http.Server {
+  const { store, chainId, port = 4350, host = "127.0.0.1" } = options;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || host}`);
+    const params = url.searchParams;
+
+    const sendJSON = (status: number, body: unknown) => {
+      res.writeHead(status, {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+      });
+      res.end(JSON.stringify(body, null, 2));
+    };
+
+    if (req.method !== "GET") {
+      sendJSON(405, { error: "Method not allowed" });
+      return;
+    }
+
+    const limit = Math.floor(Number(params.get("limit"))) || DEFAULT_PAGE_LIMIT;
+    const page = {
+      limit: Math.min(Math.max(limit, 1), MAX_PAGE_LIMIT),
+      offset: Math.max(Math.floor(Number(params.get("offset"))) || 0, 0),
+    };
+    const optional = (name: string) => params.get(name) || undefined;
+    const segments = url.pathname.split("/").filter(Boolean);
+
+    try {
+      switch (url.pathname) {
+        case "/health":
+          sendJSON(200, { status: "ok" });
+          return;
+        case "/status": {
+          const checkpoint = store.getCheckpoint();
+          sendJSON(200, {
+            chainId,
+            lastIndexedBlock: checkpoint?.blockNumber ?? null,
+            lastIndexedBlockHash: checkpoint?.blockHash ?? null,
+            updatedAt: checkpoint?.updatedAt ?? null,
+          });
+          return;
+        }
+        case "/swaps":
+          sendJSON(200, { swaps: store.getSwaps({ user: optional("user"), token: optional("token"), ...page }) });
+          return;
+        case "/dca/orders":
+          sendJSON(200, { orders: store.getDCAOrders({ owner: optional("owner"), ...page }) });
+          return;
+        case "/dca/events": {
+          const event = optional("event") as DCAEventType | undefined;
+          if (event && !DCA_EVENT_TYPES.includes(event)) {
+            sendJSON(400, { error: `event must be one of ${DCA_EVENT_TYPES.join(", ")}` });
+            return;
+          }
+          sendJSON(200, {
+            events: store.getDCAEvents({ orderId: optional("orderId"), owner: optional("owner"), event, ...page }),
+          });
+          return;
+        }
+        case "/dca/limit-orders":
+          sendJSON(200, { orders: store.getLimitOrders({ owner: optional("owner"), ...page }) });
+          return;
+        case "/dca/limit-events": {
+          const event = optional("event") as LimitOrderEventType | undefined;
+          if (event && !LIMIT_ORDER_EVENT_TYPES.includes(event)) {
+            sendJSON(400, { error: `event must be one of ${LIMIT_ORDER_EVENT_TYPES.join(", ")}` });
+            return;
+          }
+          sendJSON(200, {
+            events: store.getLimitOrderEvents({ orderId: optional("orderId"), owner: optional("owner"), event, ...page }),
+          });
+          return;
+        }
+        case "/coins/events":
+          sendJSON(200, { events: store.getCoinEvents({ coinId: optional("coinId"), ...page }) });
+          return;
+        case "/analytics/volume":
+          sendJSON(200, { volume: store.getDailySwapVolume(Number(params.get("from")) || 0) });
+          return;
+        case "/tokens/held": {
+          const address = optional("address");
+          if (!address) {
+            sendJSON(400, { error: "address is required" });
+            return;
+          }
+          sendJSON(200, { tokens: store.getHeldTokens(address) });
+          return;
+        }
+      }
+
+      // Parameterised routes
+      if (segments.length === 3 && segments[0] === "dca" && segments[1] === "orders") {
+        const [order] = store.getDCAOrders({ orderId: segments[2] });
+        if (!order) {
+          sendJSON(404, { error: `Order ${segments[2]} not indexed` });
+          return;
+        }
+        sendJSON(200, { order, events: store.getDCAEvents({ orderId: segments[2], limit: MAX_PAGE_LIMIT }) });
+        return;
+      }
+
+      if (segments.length === 3 && segments[0] === "dca" && segments[1] === "limit-orders") {
+        const [order] = store.getLimitOrders({ orderId: segments[2] });
+        if (!order) {
+          sendJSON(404, { error: `Limit order ${segments[2]} not indexed` });
+          return;
+        }
+        sendJSON(200, { order, events: store.getLimitOrderEvents({ orderId: segments[2] }) });
+        return;
+      }
+
+      if (segments.length === 3 && segments[0] === "pairs" && segments[2] === "events") {
+        const event = optional("event") as PairEventType | undefined;
+        if (event && !PAIR_EVENT_TYPES.includes(event)) {
+          sendJSON(400, { error: `event must be one of ${PAIR_EVENT_TYPES.join(", ")}` });
+          return;
+        }
+        sendJSON(200, {
+          events: store.getPairEvents({
+            pair: segments[1],
+            event,
+            fromTimestamp: Number(params.get("from")) || 0,
+            ...page,
+          }),
+        });
+        return;
+      }
+
+      sendJSON(404, { error: "Not found" });
+    } catch (error: any) {
+      sendJSON(500, { error: error.message || String(error) });
+    }
+  });
+
+  server.listen(port, host, () => {
+    console.log(`🗂️  Indexer API listening on http://${host}:${port}`);
+    console.log(`   Status: http://${host}:${port}/status`);
+  });
+
+  return server;
+}
@@ -0,0 +1,792 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Default location of the event indexer database
+ * Override with INDEXER_DB to keep one database per network
+ */
+export const DEFAULT_INDEXER_DB_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "data",
+  "indexer",
+  "events.sqlite"
+);
+
+/**
+ * Resolve the database path from the environment (falls back to DEFAULT_INDEXER_DB_PATH)
+ */
+export function getIndexerDbPath(): string {
+  return process.env.INDEXER_DB || DEFAULT_INDEXER_DB_PATH;
+}
+
+/**
+ * Position of a log in the chain (shared by every indexed row)
+ * Amounts are stored as decimal strings so uint256 values survive SQLite
+ */
+export interface LogPosition {
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+export interface SwapRow extends LogPosition {
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  tokenOutSymbol: string;
+}
+
+export type DCAEventType =
+  | "created"
+  | "executed"
+  | "skipped"
+  | "paused"
+  | "resumed"
+  | "topped-up"
+  | "cancelled"
+  | "completed";
+
+export interface DCAEventRow extends LogPosition {
+  orderId: string;
+  event: DCAEventType;
+  owner: string | null; // Not emitted by DCAOrderExecuted / DCAOrderSkipped
+  sourceToken?: string | null;
+  targetToken?: string | null;
+  amountPerInterval?: string | null;
+  intervalSeconds?: string | null;
+  totalIntervals?: string | null; // Order total after a top-up
+  intervalNumber?: string | null;
+  amountIn?: string | null; // Deposit added by a top-up
+  amountOut?: string | null; // Quote at the time of a skip
+  minAmountOut?: string | null; // Minimum a skipped execution required
+  nextExecutionTime?: string | null; // Set by a resume
+  additionalIntervals?: string | null; // Added by a top-up
+}
+
+export type LimitOrderEventType = "created" | "filled" | "cancelled" | "expired";
+
+export interface LimitOrderEventRow extends LogPosition {
+  orderId: string; // Limit orders are numbered separately from DCA orders
+  event: LimitOrderEventType;
+  owner: string;
+  sourceToken?: string | null;
+  targetToken?: string | null;
+  amountIn?: string | null; // Deposit (created, filled) or refund (expired)
+  minAmountOut?: string | null;
+  expiry?: number | null;
+  amountOut?: string | null;
+}
+
+export type CoinEventType = "registered" | "updated" | "removed";
+
+export interface CoinEventRow extends LogPosition {
+  event: CoinEventType;
+  coinIdHash: string; // coinId is an indexed string, so only its hash is in the log
+  coinId: string | null; // Resolved from the matching CoinRegistered event when known
+  name?: string | null;
+  symbol?: string | null;
+  verified?: boolean | null;
+  complianceReason?: string | null;
+  sender?: string | null; // Transaction sender, i.e. the registry owner who made the change
+}
+
+export type PairEventType = "swap" | "mint" | "burn" | "sync";
+
+export interface PairEventRow extends LogPosition {
+  pair: string;
+  event: PairEventType;
+  sender?: string | null;
+  recipient?: string | null;
+  amount0In?: string | null;
+  amount1In?: string | null;
+  amount0Out?: string | null;
+  amount1Out?: string | null;
+  amount0?: string | null;
+  amount1?: string | null;
+  reserve0?: string | null;
+  reserve1?: string | null;
+}
+
+/**
+ * ERC20 Transfer from any token contract (only indexed with INDEXER_TRANSFERS)
+ */
+export interface TransferRow extends LogPosition {
+  token: string;
+  from: string;
+  to: string;
+  value: string;
+}
+
+/**
+ * Token an address has sent or received, aggregated from its transfers
+ */
+export interface HeldToken {
+  token: string;
+  transfers: number;
+  lastBlock: number;
+}
+
+/**
+ * Rows decoded from one block range, written atomically with the new checkpoint
+ */
+export interface IndexedBatch {
+  swaps: SwapRow[];
+  dcaEvents: DCAEventRow[];
+  limitOrderEvents: LimitOrderEventRow[];
+  coinEvents: CoinEventRow[];
+  pairEvents: PairEventRow[];
+  transfers: TransferRow[];
+  blocks: Array<{ number: number; hash: string; timestamp: number }>;
+}
+
+export interface Checkpoint {
+  blockNumber: number;
+  blockHash: string;
+  updatedAt: string;
+}
+
+/**
+ * Aggregated view of a DCA order built from its events
+ */
+export interface DCAOrderSummary {
+  orderId: string;
+  owner: string;
+  sourceToken: string;
+  targetToken: string;
+  amountPerInterval: string;
+  intervalSeconds: string;
+  totalIntervals: string; // Including top-ups
+  status: "active" | "paused" | "cancelled" | "completed";
+  executions: number;
+  skips: number;
+  totalAmountIn: string;
+  totalAmountOut: string;
+  createdAt: number;
+  lastExecutedAt: number | null;
+}
+
+/**
+ * Limit order with its outcome, built from its events
+ */
+export interface LimitOrderSummary {
+  orderId: string;
+  owner: string;
+  sourceToken: string;
+  targetToken: string;
+  amountIn: string;
+  minAmountOut: string;
+  expiry: number;
+  status: "open" | "filled" | "cancelled" | "expired";
+  amountOut: string | null; // Set once filled
+  createdAt: number;
+  closedAt: number | null;
+}
+
+export interface PageOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// Tables cleared from the fork point when a reorg is detected
+const EVENT_TABLES = [
+  "swaps",
+  "dca_events",
+  "limit_order_events",
+  "coin_events",
+  "pair_events",
+  "token_transfers",
+  "blocks",
+] as const;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoints (
+    chain_id INTEGER PRIMARY KEY,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  -- Hashes of recently indexed blocks, used to find the fork point on a reorg
+  CREATE TABLE IF NOT EXISTS blocks (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (chain_id, block_number)
+  );
+
+  CREATE TABLE IF NOT EXISTS swaps (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    user TEXT NOT NULL,
+    token_in TEXT NOT NULL,
+    token_out TEXT NOT NULL,
+    amount_in TEXT NOT NULL,
+    amount_out TEXT NOT NULL,
+    token_out_symbol TEXT NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS swaps_user ON swaps (chain_id, user, block_number);
+
+  CREATE TABLE IF NOT EXISTS dca_events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    order_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    owner TEXT,
+    source_token TEXT,
+    target_token TEXT,
+    amount_per_interval TEXT,
+    interval_seconds TEXT,
+    total_intervals TEXT,
+    interval_number TEXT,
+    amount_in TEXT,
+    amount_out TEXT,
+    min_amount_out TEXT,
+    next_execution_time TEXT,
+    additional_intervals TEXT,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS dca_events_order ON dca_events (chain_id, order_id, block_number);
+  CREATE INDEX IF NOT EXISTS dca_events_owner ON dca_events (chain_id, owner);
+
+  CREATE TABLE IF NOT EXISTS limit_order_events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    order_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    source_token TEXT,
+    target_token TEXT,
+    amount_in TEXT,
+    min_amount_out TEXT,
+    expiry INTEGER,
+    amount_out TEXT,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS limit_order_events_order ON limit_order_events (chain_id, order_id, block_number);
+  CREATE INDEX IF NOT EXISTS limit_order_events_owner ON limit_order_events (chain_id, owner);
+
+  CREATE TABLE IF NOT EXISTS coin_events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    event TEXT NOT NULL,
+    coin_id_hash TEXT NOT NULL,
+    coin_id TEXT,
+    name TEXT,
+    symbol TEXT,
+    verified INTEGER,
+    compliance_reason TEXT,
+    sender TEXT,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS pair_events (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    pair TEXT NOT NULL,
+    event TEXT NOT NULL,
+    sender TEXT,
+    recipient TEXT,
+    amount0_in TEXT,
+    amount1_in TEXT,
+    amount0_out TEXT,
+    amount1_out TEXT,
+    amount0 TEXT,
+    amount1 TEXT,
+    reserve0 TEXT,
+    reserve1 TEXT,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS pair_events_pair ON pair_events (chain_id, pair, event, block_number);
+
+  CREATE TABLE IF NOT EXISTS token_transfers (
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    timestamp INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (chain_id, tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS token_transfers_sender ON token_transfers (chain_id, sender);
+  CREATE INDEX IF NOT EXISTS token_transfers_recipient ON token_transfers (chain_id, recipient);
+`;
+
+// SQLite columns (snake_case) for each row field
+const POSITION_COLUMNS = {
+  blockNumber: "block_number",
+  txHash: "tx_hash",
+  logIndex: "log_index",
+  timestamp: "timestamp",
+};
+
+const SWAP_COLUMNS = {
+  ...POSITION_COLUMNS,
+  user: "user",
+  tokenIn: "token_in",
+  tokenOut: "token_out",
+  amountIn: "amount_in",
+  amountOut: "amount_out",
+  tokenOutSymbol: "token_out_symbol",
+};
+
+const DCA_EVENT_COLUMNS = {
+  ...POSITION_COLUMNS,
+  orderId: "order_id",
+  event: "event",
+  owner: "owner",
+  sourceToken: "source_token",
+  targetToken: "target_token",
+  amountPerInterval: "amount_per_interval",
+  intervalSeconds: "interval_seconds",
+  totalIntervals: "total_intervals",
+  intervalNumber: "interval_number",
+  amountIn: "amount_in",
+  amountOut: "amount_out",
+  minAmountOut: "min_amount_out",
+  nextExecutionTime: "next_execution_time",
+  additionalIntervals: "additional_intervals",
+};
+
+const LIMIT_ORDER_EVENT_COLUMNS = {
+  ...POSITION_COLUMNS,
+  orderId: "order_id",
+  event: "event",
+  owner: "owner",
+  sourceToken: "source_token",
+  targetToken: "target_token",
+  amountIn: "amount_in",
+  minAmountOut: "min_amount_out",
+  expiry: "expiry",
+  amountOut: "amount_out",
+};
+
+const COIN_EVENT_COLUMNS = {
+  ...POSITION_COLUMNS,
+  event: "event",
+  coinIdHash: "coin_id_hash",
+  coinId: "coin_id",
+  name: "name",
+  symbol: "symbol",
+  verified: "verified",
+  complianceReason: "compliance_reason",
+  sender: "sender",
+};
+
+const PAIR_EVENT_COLUMNS = {
+  ...POSITION_COLUMNS,
+  pair: "pair",
+  event: "event",
+  sender: "sender",
+  recipient: "recipient",
+  amount0In: "amount0_in",
+  amount1In: "amount1_in",
+  amount0Out: "amount0_out",
+  amount1Out: "amount1_out",
+  amount0: "amount0",
+  amount1: "amount1",
+  reserve0: "reserve0",
+  reserve1: "reserve1",
+};
+
+// "from"/"to" are SQL keywords, so the columns are named sender/recipient
+const TRANSFER_COLUMNS = {
+  ...POSITION_COLUMNS,
+  token: "token",
+  from: "sender",
+  to: "recipient",
+  value: "value",
+};
+
+// SELECT list aliasing snake_case columns back to row fields
+const selectList = (columns: Record<string, string>) =>
+  Object.entries(columns)
+    .map(([field, column]) => `${column} AS ${field}`)
+    .join(", ");
+
+// INSERT OR REPLACE keyed by (chain_id, tx_hash, log_index), so re-indexing a range is idempotent
+const insertStatement = (table: string, columns: Record<string, string>) => {
+  const fields = Object.keys(columns);
+  return `INSERT OR REPLACE INTO ${table} (chain_id, ${fields.map((f) => columns[f]).join(", ")})
+    VALUES (@chainId, ${fields.map((f) => `@${f}`).join(", ")})`;
+};
+
+// Fill optional fields with null so every named parameter is bound
+const withNulls = <T extends object>(row: T, columns: Record<string, string>) => {
+  const bound: Record<string, unknown> = {};
+  for (const field of Object.keys(columns)) {
+    const value = (row as Record<string, unknown>)[field];
+    bound[field] = typeof value === "boolean" ? Number(value) : value ?? null;
+  }
+  return bound;
+};
+
+const page = ({ limit = 50, offset = 0 }: PageOptions) => ({
+  limit: Math.min(Math.max(1, limit), 1000),
+  offset: Math.max(0, offset),
+});
+
+// Columns added after the first release, for databases created before them
+const ADDED_COLUMNS = [
+  { table: "coin_events", column: "sender", type: "TEXT" },
+  { table: "dca_events", column: "min_amount_out", type: "TEXT" },
+  { table: "dca_events", column: "next_execution_time", type: "TEXT" },
+  { table: "dca_events", column: "additional_intervals", type: "TEXT" },
+];
+
+function migrate(db: Database.Database) {
+  for (const { table, column, type } of ADDED_COLUMNS) {
+    const existing = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+    if (!existing.some((info) => info.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${type}`);
+    }
+  }
+}
+
+/**
+ * Open (or create) the indexer database for one chain
+ */
+export function openIndexerStore(chainId: number, dbPath: string = getIndexerDbPath()) {
+  fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+  migrate(db);
+
+  const statements = {
+    insertSwap: db.prepare(insertStatement("swaps", SWAP_COLUMNS)),
+    insertDCAEvent: db.prepare(insertStatement("dca_events", DCA_EVENT_COLUMNS)),
+    insertLimitOrderEvent: db.prepare(insertStatement("limit_order_events", LIMIT_ORDER_EVENT_COLUMNS)),
+    insertCoinEvent: db.prepare(insertStatement("coin_events", COIN_EVENT_COLUMNS)),
+    insertPairEvent: db.prepare(insertStatement("pair_events", PAIR_EVENT_COLUMNS)),
+    insertTransfer: db.prepare(insertStatement("token_transfers", TRANSFER_COLUMNS)),
+    insertBlock: db.prepare(
+      `INSERT OR REPLACE INTO blocks (chain_id, block_number, block_hash, timestamp)
+       VALUES (?, ?, ?, ?)`
+    ),
+    saveCheckpoint: db.prepare(
+      `INSERT OR REPLACE INTO checkpoints (chain_id, block_number, block_hash, updated_at)
+       VALUES (?, ?, ?, ?)`
+    ),
+    getCheckpoint: db.prepare(
+      `SELECT block_number AS blockNumber, block_hash AS blockHash, updated_at AS updatedAt
+       FROM checkpoints WHERE chain_id = ?`
+    ),
+    pruneBlocks: db.prepare(`DELETE FROM blocks WHERE chain_id = ? AND block_number < ?`),
+    resolveCoinId: db.prepare(
+      `SELECT coin_id AS coinId FROM coin_events
+       WHERE chain_id = ? AND coin_id_hash = ? AND coin_id IS NOT NULL
+       ORDER BY block_number DESC LIMIT 1`
+    ),
+  };
+
+  /**
+   * Write a decoded block range and advance the checkpoint in one transaction
+   * Keeps block hashes for the last keepBlocks blocks for reorg detection
+   */
+  const saveBatch = db.transaction(
+    (
+      batch: IndexedBatch,
+      checkpoint: { blockNumber: number; blockHash: string; timestamp: number },
+      keepBlocks: number
+    ) => {
+      for (const row of batch.swaps) statements.insertSwap.run({ chainId, ...withNulls(row, SWAP_COLUMNS) });
+      for (const row of batch.dcaEvents) statements.insertDCAEvent.run({ chainId, ...withNulls(row, DCA_EVENT_COLUMNS) });
+      for (const row of batch.limitOrderEvents) {
+        statements.insertLimitOrderEvent.run({ chainId, ...withNulls(row, LIMIT_ORDER_EVENT_COLUMNS) });
+      }
+      for (const row of batch.coinEvents) {
+        // Updates and removals only carry the coinId hash: resolve it from earlier registrations
+        const coinId =
+          row.coinId ??
+          (statements.resolveCoinId.get(chainId, row.coinIdHash) as { coinId: string } | undefined)?.coinId ??
+          null;
+        statements.insertCoinEvent.run({ chainId, ...withNulls({ ...row, coinId }, COIN_EVENT_COLUMNS) });
+      }
+      for (const row of batch.pairEvents) statements.insertPairEvent.run({ chainId, ...withNulls(row, PAIR_EVENT_COLUMNS) });
+      for (const row of batch.transfers) statements.insertTransfer.run({ chainId, ...withNulls(row, TRANSFER_COLUMNS) });
+      for (const block of batch.blocks) statements.insertBlock.run(chainId, block.number, block.hash, block.timestamp);
+
+      statements.insertBlock.run(chainId, checkpoint.blockNumber, checkpoint.blockHash, checkpoint.timestamp);
+      statements.pruneBlocks.run(chainId, checkpoint.blockNumber - keepBlocks);
+      statements.saveCheckpoint.run(chainId, checkpoint.blockNumber, checkpoint.blockHash, new Date().toISOString());
+    }
+  );
+
+  /**
+   * Drop everything indexed after forkBlock and move the checkpoint back to it
+   */
+  const rollbackTo = db.transaction((forkBlock: { blockNumber: number; blockHash: string }) => {
+    for (const table of EVENT_TABLES) {
+      db.prepare(`DELETE FROM ${table} WHERE chain_id = ? AND block_number > ?`).run(chainId, forkBlock.blockNumber);
+    }
+    statements.saveCheckpoint.run(chainId, forkBlock.blockNumber, forkBlock.blockHash, new Date().toISOString());
+  });
+
+  return {
+    dbPath,
+    chainId,
+    saveBatch,
+    rollbackTo,
+
+    getCheckpoint: (): Checkpoint | null =>
+      (statements.getCheckpoint.get(chainId) as Checkpoint | undefined) ?? null,
+
+    /** Stored block hashes, newest first (candidates for the fork point) */
+    getRecentBlocks: (limit: number): Array<{ blockNumber: number; blockHash: string }> =>
+      db
+        .prepare(
+          `SELECT block_number AS blockNumber, block_hash AS blockHash FROM blocks
+           WHERE chain_id = ? ORDER BY block_number DESC LIMIT ?`
+        )
+        .all(chainId, limit) as Array<{ blockNumber: number; blockHash: string }>,
+
+    getSwaps: (filter: { user?: string; token?: string } & PageOptions = {}): SwapRow[] => {
+      const { limit, offset } = page(filter);
+      return db
+        .prepare(
+          `SELECT ${selectList(SWAP_COLUMNS)} FROM swaps
+           WHERE chain_id = @chainId
+             AND (@user IS NULL OR user = @user)
+             AND (@token IS NULL OR token_in = @token OR token_out = @token)
+           ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          user: filter.user?.toLowerCase() ?? null,
+          token: filter.token?.toLowerCase() ?? null,
+          limit,
+          offset,
+        }) as SwapRow[];
+    },
+
+    /** DCA events, optionally for one order or all orders of an owner (matched through their created event) */
+    getDCAEvents: (
+      filter: { orderId?: string; owner?: string; event?: DCAEventType } & PageOptions = {}
+    ): DCAEventRow[] => {
+      const { limit, offset } = page(filter);
+      return db
+        .prepare(
+          `SELECT ${selectList(DCA_EVENT_COLUMNS)} FROM dca_events
+           WHERE chain_id = @chainId
+             AND (@orderId IS NULL OR order_id = @orderId)
+             AND (@owner IS NULL OR order_id IN (
+               SELECT order_id FROM dca_events WHERE chain_id = @chainId AND event = 'created' AND owner = @owner))
+             AND (@event IS NULL OR event = @event)
+           ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          orderId: filter.orderId ?? null,
+          owner: filter.owner?.toLowerCase() ?? null,
+          event: filter.event ?? null,
+          limit,
+          offset,
+        }) as DCAEventRow[];
+    },
+
+    /**
+     * Orders with their status and execution totals (executions don't carry the owner, so join on created)
+     * totalIntervals includes top-ups; an open order is paused if its last pause/resume event was a pause
+     */
+    getDCAOrders: (filter: { owner?: string; orderId?: string } & PageOptions = {}): DCAOrderSummary[] => {
+      const { limit, offset } = page(filter);
+      const rows = db
+        .prepare(
+          `SELECT c.order_id AS orderId, c.owner AS owner, c.source_token AS sourceToken,
+                  c.target_token AS targetToken, c.amount_per_interval AS amountPerInterval,
+                  c.interval_seconds AS intervalSeconds, c.timestamp AS createdAt,
+                  COALESCE((SELECT t.total_intervals FROM dca_events t WHERE t.chain_id = c.chain_id
+                     AND t.order_id = c.order_id AND t.event = 'topped-up'
+                     ORDER BY t.block_number DESC, t.log_index DESC LIMIT 1), c.total_intervals) AS totalIntervals,
+                  (SELECT event FROM dca_events s WHERE s.chain_id = c.chain_id AND s.order_id = c.order_id
+                     AND s.event IN ('cancelled', 'completed') ORDER BY s.block_number DESC LIMIT 1) AS closedBy,
+                  (SELECT event FROM dca_events p WHERE p.chain_id = c.chain_id AND p.order_id = c.order_id
+                     AND p.event IN ('paused', 'resumed')
+                     ORDER BY p.block_number DESC, p.log_index DESC LIMIT 1) AS pauseState,
+                  (SELECT COUNT(*) FROM dca_events k WHERE k.chain_id = c.chain_id
+                     AND k.order_id = c.order_id AND k.event = 'skipped') AS skips,
+                  (SELECT MAX(e.timestamp) FROM dca_events e WHERE e.chain_id = c.chain_id
+                     AND e.order_id = c.order_id AND e.event = 'executed') AS lastExecutedAt
+           FROM dca_events c
+           WHERE c.chain_id = @chainId AND c.event = 'created'
+             AND (@owner IS NULL OR c.owner = @owner)
+             AND (@orderId IS NULL OR c.order_id = @orderId)
+           ORDER BY CAST(c.order_id AS INTEGER) DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          owner: filter.owner?.toLowerCase() ?? null,
+          orderId: filter.orderId ?? null,
+          limit,
+          offset,
+        }) as Array<Omit<DCAOrderSummary, "status" | "executions" | "totalAmountIn" | "totalAmountOut"> & {
+          closedBy: "cancelled" | "completed" | null;
+          pauseState: "paused" | "resumed" | null;
+        }>;
+
+      const executionsOf = db.prepare(
+        `SELECT amount_in AS amountIn, amount_out AS amountOut FROM dca_events
+         WHERE chain_id = ? AND order_id = ? AND event = 'executed'`
+      );
+
+      return rows.map(({ closedBy, pauseState, ...order }) => {
+        // Sum amounts as bigints (SQLite SUM would lose uint256 precision)
+        const executions = executionsOf.all(chainId, order.orderId) as Array<{ amountIn: string; amountOut: string }>;
+        return {
+          ...order,
+          status: closedBy ?? (pauseState === "paused" ? "paused" : "active"),
+          executions: executions.length,
+          totalAmountIn: executions.reduce((sum, e) => sum + BigInt(e.amountIn), 0n).toString(),
+          totalAmountOut: executions.reduce((sum, e) => sum + BigInt(e.amountOut), 0n).toString(),
+        };
+      });
+    },
+
+    /** Limit order events, optionally for one order or one owner */
+    getLimitOrderEvents: (
+      filter: { orderId?: string; owner?: string; event?: LimitOrderEventType } & PageOptions = {}
+    ): LimitOrderEventRow[] => {
+      const { limit, offset } = page(filter);
+      return db
+        .prepare(
+          `SELECT ${selectList(LIMIT_ORDER_EVENT_COLUMNS)} FROM limit_order_events
+           WHERE chain_id = @chainId
+             AND (@orderId IS NULL OR order_id = @orderId)
+             AND (@owner IS NULL OR owner = @owner)
+             AND (@event IS NULL OR event = @event)
+           ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          orderId: filter.orderId ?? null,
+          owner: filter.owner?.toLowerCase() ?? null,
+          event: filter.event ?? null,
+          limit,
+          offset,
+        }) as LimitOrderEventRow[];
+    },
+
+    /** Limit orders with their outcome (each order is filled, cancelled or expired at most once) */
+    getLimitOrders: (filter: { owner?: string; orderId?: string } & PageOptions = {}): LimitOrderSummary[] => {
+      const { limit, offset } = page(filter);
+      const rows = db
+        .prepare(
+          `SELECT c.order_id AS orderId, c.owner AS owner, c.source_token AS sourceToken,
+                  c.target_token AS targetToken, c.amount_in AS amountIn, c.min_amount_out AS minAmountOut,
+                  c.expiry AS expiry, c.timestamp AS createdAt,
+                  x.event AS closedBy, x.amount_out AS amountOut, x.timestamp AS closedAt
+           FROM limit_order_events c
+           LEFT JOIN limit_order_events x ON x.chain_id = c.chain_id AND x.order_id = c.order_id
+             AND x.event IN ('filled', 'cancelled', 'expired')
+           WHERE c.chain_id = @chainId AND c.event = 'created'
+             AND (@owner IS NULL OR c.owner = @owner)
+             AND (@orderId IS NULL OR c.order_id = @orderId)
+           ORDER BY CAST(c.order_id AS INTEGER) DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          owner: filter.owner?.toLowerCase() ?? null,
+          orderId: filter.orderId ?? null,
+          limit,
+          offset,
+        }) as Array<Omit<LimitOrderSummary, "status"> & { closedBy: "filled" | "cancelled" | "expired" | null }>;
+
+      return rows.map(({ closedBy, ...order }) => ({ ...order, status: closedBy ?? "open" }));
+    },
+
+    getCoinEvents: (filter: { coinId?: string } & PageOptions = {}): CoinEventRow[] => {
+      const { limit, offset } = page(filter);
+      const rows = db
+        .prepare(
+          `SELECT ${selectList(COIN_EVENT_COLUMNS)} FROM coin_events
+           WHERE chain_id = @chainId AND (@coinId IS NULL OR coin_id = @coinId)
+           ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({ chainId, coinId: filter.coinId ?? null, limit, offset }) as CoinEventRow[];
+      return rows.map((row) => ({ ...row, verified: row.verified === null ? null : Boolean(row.verified) }));
+    },
+
+    getPairEvents: (
+      filter: { pair?: string; event?: PairEventType; fromTimestamp?: number } & PageOptions = {}
+    ): PairEventRow[] => {
+      const { limit, offset } = page(filter);
+      return db
+        .prepare(
+          `SELECT ${selectList(PAIR_EVENT_COLUMNS)} FROM pair_events
+           WHERE chain_id = @chainId
+             AND (@pair IS NULL OR pair = @pair)
+             AND (@event IS NULL OR event = @event)
+             AND timestamp >= @fromTimestamp
+           ORDER BY block_number DESC, log_index DESC LIMIT @limit OFFSET @offset`
+        )
+        .all({
+          chainId,
+          pair: filter.pair?.toLowerCase() ?? null,
+          event: filter.event ?? null,
+          fromTimestamp: filter.fromTimestamp ?? 0,
+          limit,
+          offset,
+        }) as PairEventRow[];
+    },
+
+    /** Tokens an address has received or sent, most recently active first */
+    getHeldTokens: (holder: string): HeldToken[] =>
+      db
+        .prepare(
+          `SELECT token, COUNT(*) AS transfers, MAX(block_number) AS lastBlock FROM token_transfers
+           WHERE chain_id = @chainId AND (sender = @holder OR recipient = @holder)
+           GROUP BY token ORDER BY lastBlock DESC`
+        )
+        .all({ chainId, holder: holder.toLowerCase() }) as HeldToken[],
+
+    /** Swap count and volume per token per day (amounts summed as bigints) */
+    getDailySwapVolume: (fromTimestamp: number = 0) => {
+      const rows = db
+        .prepare(
+          `SELECT date(timestamp, 'unixepoch') AS day, token_in AS tokenIn, amount_in AS amountIn
+           FROM swaps WHERE chain_id = ? AND timestamp >= ? ORDER BY timestamp`
+        )
+        .all(chainId, fromTimestamp) as Array<{ day: string; tokenIn: string; amountIn: string }>;
+
+      const buckets = new Map<string, { day: string; token: string; swaps: number; volume: bigint }>();
+      for (const row of rows) {
+        const key = `${row.day}:${row.tokenIn}`;
+        const bucket = buckets.get(key) ?? { day: row.day, token: row.tokenIn, swaps: 0, volume: 0n };
+        bucket.swaps += 1;
+        bucket.volume += BigInt(row.amountIn);
+        buckets.set(key, bucket);
+      }
+      return [...buckets.values()].map((bucket) => ({ ...bucket, volume: bucket.volume.toString() }));
+    },
+
+    close: () => db.close(),
+  };
+}
+
+export type IndexerStore = ReturnType<typeof openIndexerStore>;
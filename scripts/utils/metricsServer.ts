@@ -0,0 +1,114 @@
+import * as http from "http";
+import { readExecutionRecords, getStorePath } from "./executionStore";
+import { ExecutionMetrics, summarizeExecutions } from "./dcaExecution";
+
+/**
+ * Metrics server options
+ */
+export interface MetricsServerOptions {
+  port?: number;
+  host?: string;
+  storePath?: string;
+}
+
+/**
+ * Render metrics in Prometheus text exposition format
+ */
+export function renderPrometheusMetrics(metrics: ExecutionMetrics): string {
+  const toSeconds = (date: Date | null) =>
+    date ? Math.floor(date.getTime() / 1000) : 0;
+
+  const lines: string[] = [];
+  const metric = (name: string, type: string, help: string, value: number) => {
+    lines.push(`# HELP ${name} ${help}`);
+    lines.push(`# TYPE ${name} ${type}`);
+    lines.push(`${name} ${value}`);
+  };
+
+  metric("dca_executions_total", "counter", "Successful performUpkeep transactions", metrics.totalExecutions);
+  metric("dca_orders_executed_total", "counter", "DCA orders executed across all batches", metrics.totalOrdersExecuted);
+  metric("dca_order_failures_total", "counter", "Ready orders that failed to quote or execute", metrics.totalOrderFailures);
+  metric("dca_order_skips_total", "counter", "Orders skipped because the price breached their minimum output", metrics.totalOrderSkips);
+  metric("dca_execution_failures_total", "counter", "Execution attempts that failed", metrics.totalFailures);
+  metric("dca_average_orders_per_execution", "gauge", "Average orders per successful batch", metrics.averageOrdersPerExecution);
+  metric("dca_last_execution_timestamp_seconds", "gauge", "Unix time of the last execution attempt", toSeconds(metrics.lastExecution));
+  metric("dca_last_success_timestamp_seconds", "gauge", "Unix time of the last successful execution", toSeconds(metrics.lastSuccess));
+  metric("dca_last_failure_timestamp_seconds", "gauge", "Unix time of the last failed execution", toSeconds(metrics.lastFailure));
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Start a local HTTP server exposing the persisted execution history
+ *
+ * Endpoints:
+ * - GET /metrics          Prometheus text format
+ * - GET /metrics.json     Aggregated metrics as JSON
+ * - GET /executions       Recent execution records (?limit=N, default 50)
+ * - GET /health           Liveness check
+ *
+ * The store is re-read on every request so cron runs writing to the same
+ * file show up without restarting the server.
+ */
+export function startMetricsServer(options: MetricsServerOptions = {}): http.Server {
+  const {
+    port = 9464,
+    host = "127.0.0.1",
+    storePath = getStorePath(),
+  } = options;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || host}`);
+
+    const sendJSON = (status: number, body: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body, null, 2));
+    };
+
+    if (req.method !== "GET") {
+      sendJSON(405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      switch (url.pathname) {
+        case "/metrics": {
+          const metrics = summarizeExecutions(readExecutionRecords(storePath));
+          res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+          res.end(renderPrometheusMetrics(metrics));
+          return;
+        }
+        case "/metrics.json": {
+          const metrics = summarizeExecutions(readExecutionRecords(storePath));
+          sendJSON(200, metrics);
+          return;
+        }
+        case "/executions": {
+          const limit = Math.max(1, Number(url.searchParams.get("limit")) || 50);
+          const records = readExecutionRecords(storePath);
+          sendJSON(200, {
+            total: records.length,
+            executions: records.slice(-limit).reverse(),
+          });
+          return;
+        }
+        case "/health":
+          sendJSON(200, { status: "ok" });
+          return;
+        default:
+          sendJSON(404, { error: "Not found" });
+      }
+    } catch (error: any) {
+      sendJSON(500, { error: error.message || String(error) });
+    }
+  });
+
+  server.listen(port, host, () => {
+    console.log(`📈 Metrics server listening on http://${host}:${port}`);
+    console.log(`   Prometheus: http://${host}:${port}/metrics`);
+    console.log(`   JSON:       http://${host}:${port}/metrics.json`);
+    console.log(`   Store:      ${storePath}`);
+  });
+
+  return server;
+}
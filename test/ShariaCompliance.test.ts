@@ -1,5 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { ShariaCompliance } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 
@@ -43,6 +44,7 @@ describe("ShariaCompliance", function () {
           "ADA",
           "Cardano",
           "ADA",
+          ethers.ZeroAddress,
           "Proof-of-stake blockchain"
         )
       )
@@ -56,22 +58,22 @@ describe("ShariaCompliance", function () {
       await expect(
         shariaCompliance
           .connect(user)
-          .registerShariaCoin("ADA", "Cardano", "ADA", "Test")
+          .registerShariaCoin("ADA", "Cardano", "ADA", ethers.ZeroAddress, "Test")
       ).to.be.revertedWithCustomError(shariaCompliance, "OwnableUnauthorizedAccount");
     });
 
     it("Should not allow duplicate coin registration", async function () {
-      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", "Test");
+      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", ethers.ZeroAddress, "Test");
       
       await expect(
-        shariaCompliance.registerShariaCoin("ADA", "Cardano2", "ADA", "Test")
+        shariaCompliance.registerShariaCoin("ADA", "Cardano2", "ADA", ethers.ZeroAddress, "Test")
       ).to.be.revertedWithCustomError(shariaCompliance, "CoinAlreadyExists");
     });
   });
 
   describe("Remove Coin", function () {
     it("Should allow owner to remove coin", async function () {
-      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", "Test");
+      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", ethers.ZeroAddress, "Test");
       
       await expect(shariaCompliance.removeShariaCoin("ADA"))
         .to.emit(shariaCompliance, "CoinRemoved")
@@ -89,7 +91,7 @@ describe("ShariaCompliance", function () {
 
   describe("Update Compliance Status", function () {
     it("Should allow owner to update compliance status", async function () {
-      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", "Test");
+      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", ethers.ZeroAddress, "Test");
       
       await expect(
         shariaCompliance.updateComplianceStatus("ADA", false, "Under review")
@@ -108,6 +110,7 @@ describe("ShariaCompliance", function () {
         "BTC",
         "Bitcoin",
         "BTC",
+        ethers.ZeroAddress,
         "Decentralized cryptocurrency"
       );
       
@@ -130,10 +133,10 @@ describe("ShariaCompliance", function () {
   describe("Get All Coins", function () {
     it("Should return all registered coins", async function () {
       // Register coins first
-      await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", "Test");
-      await shariaCompliance.registerShariaCoin("ETH", "Ethereum", "ETH", "Test");
-      await shariaCompliance.registerShariaCoin("USDT", "Tether", "USDT", "Test");
-      await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", "Test");
+      await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", ethers.ZeroAddress, "Test");
+      await shariaCompliance.registerShariaCoin("ETH", "Ethereum", "ETH", ethers.ZeroAddress, "Test");
+      await shariaCompliance.registerShariaCoin("USDT", "Tether", "USDT", ethers.ZeroAddress, "Test");
+      await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", ethers.ZeroAddress, "Test");
       
       const coins = await shariaCompliance.getAllShariaCoins();
       
@@ -148,7 +151,7 @@ describe("ShariaCompliance", function () {
   describe("Require Sharia Compliant", function () {
     it("Should not revert for compliant coin", async function () {
       // Register BTC first
-      await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", "Test");
+      await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", ethers.ZeroAddress, "Test");
       
       await expect(
         shariaCompliance.requireShariaCompliant("BTC")
@@ -161,5 +164,361 @@ describe("ShariaCompliance", function () {
       ).to.be.revertedWithCustomError(shariaCompliance, "NotShariaCompliant");
     });
   });
-});
 
+  describe("Compliance Metadata", function () {
+    const DAY = 24 * 3600;
+    const STABLECOIN = 3;
+
+    function screening(reviewedAt: number, reviewDueAt: number) {
+      return {
+        category: STABLECOIN,
+        methodology: "AAOIFI SS 62",
+        reviewer: "Tayeb Sharia Board",
+        documentHash: ethers.keccak256(ethers.toUtf8Bytes("fatwa-usdc.pdf")),
+        reviewedAt,
+        reviewDueAt,
+      };
+    }
+
+    beforeEach(async function () {
+      await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", ethers.ZeroAddress, "Fiat-backed");
+    });
+
+    it("Should store and return the screening record", async function () {
+      const now = await time.latest();
+      const metadata = screening(now, now + 365 * DAY);
+
+      await expect(shariaCompliance.setComplianceMetadata("USDC", metadata))
+        .to.emit(shariaCompliance, "ComplianceMetadataUpdated")
+        .withArgs(
+          "USDC",
+          STABLECOIN,
+          metadata.methodology,
+          metadata.reviewer,
+          metadata.documentHash,
+          metadata.reviewedAt,
+          metadata.reviewDueAt
+        );
+
+      const stored = await shariaCompliance.getComplianceMetadata("USDC");
+      expect(stored.category).to.equal(STABLECOIN);
+      expect(stored.reviewer).to.equal(metadata.reviewer);
+      expect(stored.documentHash).to.equal(metadata.documentHash);
+      expect(stored.reviewDueAt).to.equal(metadata.reviewDueAt);
+    });
+
+    it("Should return metadata for all coins in registration order", async function () {
+      await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", ethers.ZeroAddress, "Commodity");
+      const now = await time.latest();
+      await shariaCompliance.setComplianceMetadata("USDC", screening(now, 0));
+
+      const all = await shariaCompliance.getAllComplianceMetadata();
+      expect(all.length).to.equal(2);
+      expect(all[0].category).to.equal(STABLECOIN);
+      expect(all[1].category).to.equal(0); // Never screened
+      expect(all[1].reviewedAt).to.equal(0);
+    });
+
+    it("Should only let the owner set metadata for registered coins", async function () {
+      const now = await time.latest();
+
+      await expect(
+        shariaCompliance.connect(user).setComplianceMetadata("USDC", screening(now, 0))
+      ).to.be.revertedWithCustomError(shariaCompliance, "OwnableUnauthorizedAccount");
+      await expect(shariaCompliance.setComplianceMetadata("ADA", screening(now, 0)))
+        .to.be.revertedWithCustomError(shariaCompliance, "CoinNotFound")
+        .withArgs("ADA");
+    });
+
+    it("Should reject a re-review date that isn't after the review", async function () {
+      const now = await time.latest();
+
+      await expect(shariaCompliance.setComplianceMetadata("USDC", screening(now, now)))
+        .to.be.revertedWithCustomError(shariaCompliance, "InvalidReviewDates")
+        .withArgs("USDC");
+    });
+
+    it("Should flag overdue reviews and clear metadata on removal", async function () {
+      const now = await time.latest();
+      await shariaCompliance.setComplianceMetadata("USDC", screening(now, now + DAY));
+      expect(await shariaCompliance.isReviewOverdue("USDC")).to.be.false;
+
+      await time.increase(DAY + 1);
+      expect(await shariaCompliance.isReviewOverdue("USDC")).to.be.true;
+
+      // Re-registering starts from a blank record
+      await shariaCompliance.removeShariaCoin("USDC");
+      await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", ethers.ZeroAddress, "Fiat-backed");
+      expect(await shariaCompliance.isReviewOverdue("USDC")).to.be.false;
+      expect((await shariaCompliance.getComplianceMetadata("USDC")).reviewedAt).to.equal(0);
+    });
+  });
+
+  describe("Approval Workflow", function () {
+    const TIMELOCK = 3600;
+    const SetReviewer = 0;
+    const SetApprovalThreshold = 1;
+    const SetTimelockDuration = 2;
+
+    let officer: SignerWithAddress;
+    let reviewerA: SignerWithAddress;
+    let reviewerB: SignerWithAddress;
+    let reviewerC: SignerWithAddress;
+
+    // Propose, approve by the given reviewers, wait out the timelock and execute a governance change
+    async function passGovernanceChange(action: number, account: string, value: bigint, approvers: SignerWithAddress[]) {
+      await shariaCompliance.proposeGovernanceChange(action, account, value);
+      const proposalId = await shariaCompliance.governanceProposalCount();
+      for (const reviewer of approvers) {
+        await shariaCompliance.connect(reviewer).approveGovernanceChange(proposalId);
+      }
+      await time.increase(TIMELOCK);
+      await shariaCompliance.executeGovernanceChange(proposalId);
+    }
+
+    beforeEach(async function () {
+      [, , officer, reviewerA, reviewerB, reviewerC] = await ethers.getSigners();
+
+      await shariaCompliance.registerShariaCoin("ADA", "Cardano", "ADA", ethers.ZeroAddress, "Test");
+      await shariaCompliance.setComplianceOfficer(officer.address, true);
+      for (const reviewer of [reviewerA, reviewerB, reviewerC]) {
+        await shariaCompliance.setReviewer(reviewer.address, true);
+      }
+      await shariaCompliance.setTimelockDuration(TIMELOCK);
+      await shariaCompliance.setApprovalThreshold(2);
+    });
+
+    it("Should block direct status, reviewer, threshold and timelock changes once a threshold is set", async function () {
+      await expect(
+        shariaCompliance.updateComplianceStatus("ADA", false, "Direct")
+      ).to.be.revertedWithCustomError(shariaCompliance, "ApprovalRequired");
+      await expect(
+        shariaCompliance.setApprovalThreshold(0)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ApprovalRequired");
+      await expect(
+        shariaCompliance.setReviewer(reviewerA.address, false)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ApprovalRequired");
+      await expect(
+        shariaCompliance.setTimelockDuration(0)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ApprovalRequired");
+    });
+
+    it("Should only remove coins already delisted by a proposal", async function () {
+      await expect(
+        shariaCompliance.removeShariaCoin("ADA")
+      ).to.be.revertedWithCustomError(shariaCompliance, "ApprovalRequired");
+      expect(await shariaCompliance.isShariaCompliant("ADA")).to.be.true;
+
+      await shariaCompliance.connect(officer).proposeStatusChange("ADA", false, "Lending protocol", "ipfs://evidence");
+      await shariaCompliance.connect(reviewerA).approveProposal(1);
+      await shariaCompliance.connect(reviewerB).approveProposal(1);
+      await time.increase(TIMELOCK);
+      await shariaCompliance.executeProposal(1);
+
+      await expect(shariaCompliance.removeShariaCoin("ADA")).to.emit(shariaCompliance, "CoinRemoved").withArgs("ADA");
+    });
+
+    it("Should register coins as non-compliant while approvals are required", async function () {
+      await shariaCompliance.registerShariaCoin("XYZ", "Xyz", "XYZ", ethers.ZeroAddress, "Unreviewed");
+      await shariaCompliance.removeShariaCoin("XYZ");
+
+      await expect(shariaCompliance.registerShariaCoin("XYZ", "Xyz", "XYZ", ethers.ZeroAddress, "Re-added"))
+        .to.emit(shariaCompliance, "CoinUpdated")
+        .withArgs("XYZ", false, "Re-added");
+
+      expect(await shariaCompliance.isShariaCompliant("XYZ")).to.be.false;
+    });
+
+    it("Should not execute a proposal made before the coin was re-registered", async function () {
+      const [oldToken, newToken] = [1, 2].map((i) => ethers.zeroPadValue(ethers.toBeHex(i), 20));
+      await shariaCompliance.registerShariaCoin("XYZ", "Xyz", "XYZ", oldToken, "Screened");
+      await shariaCompliance.connect(officer).proposeStatusChange("XYZ", true, "Halal utility", "ipfs://evidence");
+      await shariaCompliance.connect(reviewerA).approveProposal(1);
+      await shariaCompliance.connect(reviewerB).approveProposal(1);
+
+      // Same coin ID, different token: the approved verdict must not carry over
+      await shariaCompliance.removeShariaCoin("XYZ");
+      await shariaCompliance.registerShariaCoin("XYZ", "Xyz", "XYZ", newToken, "Unreviewed");
+      await time.increase(TIMELOCK);
+
+      await expect(shariaCompliance.executeProposal(1))
+        .to.be.revertedWithCustomError(shariaCompliance, "ProposalCoinReplaced")
+        .withArgs(1, "XYZ");
+      await expect(
+        shariaCompliance.connect(reviewerC).approveProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ProposalCoinReplaced");
+      expect(await shariaCompliance.isShariaCompliant("XYZ")).to.be.false;
+      await expect(shariaCompliance.connect(officer).cancelProposal(1)).to.emit(shariaCompliance, "ProposalCancelled");
+    });
+
+    it("Should execute an approved proposal only after the timelock", async function () {
+      await shariaCompliance.connect(officer).proposeStatusChange("ADA", false, "Lending protocol", "ipfs://evidence");
+
+      await expect(
+        shariaCompliance.connect(officer).approveProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "NotReviewer");
+      await shariaCompliance.connect(reviewerA).approveProposal(1);
+      await expect(
+        shariaCompliance.connect(reviewerA).approveProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "AlreadyApproved");
+      await expect(
+        shariaCompliance.executeProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ProposalNotQueued");
+
+      await expect(shariaCompliance.connect(reviewerB).approveProposal(1))
+        .to.emit(shariaCompliance, "ProposalQueued");
+      await expect(
+        shariaCompliance.executeProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "TimelockNotElapsed");
+
+      await time.increase(TIMELOCK);
+      await expect(shariaCompliance.connect(user).executeProposal(1))
+        .to.emit(shariaCompliance, "CoinUpdated")
+        .withArgs("ADA", false, "Lending protocol");
+      expect(await shariaCompliance.isShariaCompliant("ADA")).to.be.false;
+      await expect(
+        shariaCompliance.executeProposal(1)
+      ).to.be.revertedWithCustomError(shariaCompliance, "ProposalClosed");
+    });
+
+    it("Should not count approvals from reviewers removed before execution", async function () {
+      await shariaCompliance.connect(officer).proposeStatusChange("ADA", false, "Lending protocol", "ipfs://evidence");
+      await shariaCompliance.connect(reviewerA).approveProposal(1);
+      await shariaCompliance.connect(reviewerB).approveProposal(1);
+
+      await passGovernanceChange(SetReviewer, reviewerA.address, 0n, [reviewerB, reviewerC]);
+
+      expect(await shariaCompliance.getActiveApprovals(1)).to.equal(1);
+      await expect(shariaCompliance.executeProposal(1))
+        .to.be.revertedWithCustomError(shariaCompliance, "InsufficientApprovals")
+        .withArgs(1, 1, 2);
+
+      // A remaining reviewer can still make up the approval
+      await shariaCompliance.connect(reviewerC).approveProposal(1);
+      await expect(shariaCompliance.executeProposal(1)).to.emit(shariaCompliance, "ProposalExecuted");
+    });
+
+    it("Should re-check the current threshold on execution", async function () {
+      await shariaCompliance.connect(officer).proposeStatusChange("ADA", false, "Lending protocol", "ipfs://evidence");
+      await shariaCompliance.connect(reviewerA).approveProposal(1);
+      await shariaCompliance.connect(reviewerB).approveProposal(1);
+
+      await passGovernanceChange(SetApprovalThreshold, ethers.ZeroAddress, 3n, [reviewerB, reviewerC]);
+
+      expect(await shariaCompliance.approvalThreshold()).to.equal(3);
+      await expect(shariaCompliance.executeProposal(1))
+        .to.be.revertedWithCustomError(shariaCompliance, "InsufficientApprovals")
+        .withArgs(1, 2, 3);
+    });
+
+    it("Should change workflow settings only through approved governance proposals", async function () {
+      await passGovernanceChange(SetTimelockDuration, ethers.ZeroAddress, 60n, [reviewerA, reviewerB]);
+      expect(await shariaCompliance.timelockDuration()).to.equal(60);
+
+      await expect(
+        shariaCompliance.connect(reviewerA).proposeGovernanceChange(SetTimelockDuration, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(shariaCompliance, "OwnableUnauthorizedAccount");
+      await expect(
+        shariaCompliance.proposeGovernanceChange(SetApprovalThreshold, ethers.ZeroAddress, 0)
+      ).to.be.revertedWithCustomError(shariaCompliance, "InvalidApprovalThreshold");
+    });
+
+    it("Should re-validate a governance change when it executes", async function () {
+      // Both removals are valid on their own, but the second would leave fewer reviewers than the threshold
+      await shariaCompliance.proposeGovernanceChange(SetReviewer, reviewerA.address, 0);
+      await shariaCompliance.proposeGovernanceChange(SetReviewer, reviewerB.address, 0);
+      for (const proposalId of [1, 2]) {
+        await shariaCompliance.connect(reviewerB).approveGovernanceChange(proposalId);
+        await shariaCompliance.connect(reviewerC).approveGovernanceChange(proposalId);
+      }
+      await time.increase(TIMELOCK);
+
+      await shariaCompliance.executeGovernanceChange(1);
+      await expect(shariaCompliance.executeGovernanceChange(2))
+        .to.be.revertedWithCustomError(shariaCompliance, "InvalidApprovalThreshold")
+        .withArgs(2, 1);
+      expect(await shariaCompliance.reviewerCount()).to.equal(2);
+    });
+  });
+
+  describe("Review Requests", function () {
+    const tokens = [1, 2, 3, 4].map((i) => ethers.zeroPadValue(ethers.toBeHex(i), 20));
+
+    // Request reviews of the given tokens from fresh accounts (one request per cooldown each)
+    async function requestReviews(tokenAddresses: string[]) {
+      const signers = await ethers.getSigners();
+      for (let i = 0; i < tokenAddresses.length; i++) {
+        await shariaCompliance.connect(signers[i + 2]).requestReview(tokenAddresses[i], `note ${i}`);
+      }
+    }
+
+    async function pendingTokens() {
+      const count = await shariaCompliance.getPendingReviewRequestCount();
+      const requests = await shariaCompliance.getPendingReviewRequests(0, count);
+      return requests.map((request: { token: string }) => request.token);
+    }
+
+    it("Should record one open request per token", async function () {
+      await expect(shariaCompliance.connect(user).requestReview(tokens[0], "Seen on a DEX"))
+        .to.emit(shariaCompliance, "ReviewRequested")
+        .withArgs(tokens[0], user.address, "Seen on a DEX");
+
+      const request = await shariaCompliance.getReviewRequest(tokens[0]);
+      expect(request.requester).to.equal(user.address);
+      await expect(
+        shariaCompliance.requestReview(tokens[0], "Again")
+      ).to.be.revertedWithCustomError(shariaCompliance, "ReviewAlreadyRequested");
+      await expect(
+        shariaCompliance.requestReview(ethers.ZeroAddress, "")
+      ).to.be.revertedWithCustomError(shariaCompliance, "InvalidTokenAddress");
+    });
+
+    it("Should rate-limit requests per account", async function () {
+      await shariaCompliance.connect(user).requestReview(tokens[0], "");
+      await expect(
+        shariaCompliance.connect(user).requestReview(tokens[1], "")
+      ).to.be.revertedWithCustomError(shariaCompliance, "ReviewRequestCooldown");
+
+      await time.increase(await shariaCompliance.REVIEW_REQUEST_COOLDOWN());
+      await expect(shariaCompliance.connect(user).requestReview(tokens[1], "")).to.emit(
+        shariaCompliance,
+        "ReviewRequested"
+      );
+    });
+
+    it("Should page through pending requests", async function () {
+      await requestReviews(tokens);
+
+      expect(await shariaCompliance.getPendingReviewRequestCount()).to.equal(4);
+      const firstPage = await shariaCompliance.getPendingReviewRequests(0, 3);
+      const secondPage = await shariaCompliance.getPendingReviewRequests(3, 3);
+      expect(firstPage.map((request: { token: string }) => request.token)).to.deep.equal(tokens.slice(0, 3));
+      expect(secondPage.map((request: { token: string }) => request.token)).to.deep.equal(tokens.slice(3));
+      expect(await shariaCompliance.getPendingReviewRequests(10, 3)).to.have.length(0);
+    });
+
+    it("Should close requests on registration or dismissal and keep the rest", async function () {
+      const [, , , officer] = await ethers.getSigners();
+      await requestReviews(tokens);
+      await shariaCompliance.setComplianceOfficer(officer.address, true);
+
+      await expect(shariaCompliance.registerShariaCoin("T2", "Token 2", "T2", tokens[1], "Screened"))
+        .to.emit(shariaCompliance, "ReviewRequestClosed")
+        .withArgs(tokens[1]);
+      await expect(
+        shariaCompliance.connect(user).dismissReviewRequest(tokens[0])
+      ).to.be.revertedWithCustomError(shariaCompliance, "NotComplianceOfficer");
+      await shariaCompliance.connect(officer).dismissReviewRequest(tokens[0]);
+
+      expect(await pendingTokens()).to.have.members([tokens[2], tokens[3]]);
+      await expect(
+        shariaCompliance.dismissReviewRequest(tokens[0])
+      ).to.be.revertedWithCustomError(shariaCompliance, "ReviewRequestNotFound");
+
+      // The moved entry can still be closed
+      await shariaCompliance.dismissReviewRequest(tokens[3]);
+      await shariaCompliance.dismissReviewRequest(tokens[2]);
+      expect(await shariaCompliance.getPendingReviewRequestCount()).to.equal(0);
+    });
+  });
+});
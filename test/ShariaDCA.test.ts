@@ -0,0 +1,379 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MockERC20, ShariaCompliance, ShariaDCA, SimpleRouter } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("ShariaDCA", function () {
+  let shariaCompliance: ShariaCompliance;
+  let shariaDCA: ShariaDCA;
+  let router: SimpleRouter;
+  let usdc: MockERC20;
+  let btc: MockERC20;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+  let keeper: SignerWithAddress;
+  let stranger: SignerWithAddress;
+
+  const HOUR = 3600;
+  const usdcAmount = (value: string) => ethers.parseUnits(value, 6);
+
+  // BTC/USDC pool at 100,000 USDC per BTC; DCA aligned to 6s blocks, 2 blocks before the hour
+  beforeEach(async function () {
+    [owner, user, keeper, stranger] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+    btc = await MockERC20.deploy("Bitcoin", "BTC", 18);
+    const weth = await (await ethers.getContractFactory("WETH9")).deploy();
+    const factory = await (await ethers.getContractFactory("SimpleFactory")).deploy();
+    router = await (await ethers.getContractFactory("SimpleRouter")).deploy(
+      await factory.getAddress(),
+      await weth.getAddress()
+    );
+
+    shariaCompliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", await usdc.getAddress(), "Stablecoin");
+    await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", await btc.getAddress(), "Commodity");
+    await shariaCompliance.registerShariaCoin("DEV", "Wrapped DEV", "DEV", await weth.getAddress(), "Native");
+
+    await factory.createPair(await btc.getAddress(), await usdc.getAddress());
+    await btc.mint(owner.address, ethers.parseEther("100"));
+    await usdc.mint(owner.address, usdcAmount("10000000"));
+    await btc.approve(await router.getAddress(), ethers.MaxUint256);
+    await usdc.approve(await router.getAddress(), ethers.MaxUint256);
+    await router.addLiquidity(
+      await btc.getAddress(),
+      await usdc.getAddress(),
+      ethers.parseEther("100"),
+      usdcAmount("10000000"),
+      0,
+      0,
+      owner.address,
+      (await time.latest()) + HOUR
+    );
+
+    shariaDCA = await (await ethers.getContractFactory("ShariaDCA")).deploy(
+      await shariaCompliance.getAddress(),
+      await router.getAddress(),
+      await factory.getAddress(),
+      await weth.getAddress(),
+      6,
+      2
+    );
+    await shariaDCA.setKeeper(keeper.address, true);
+
+    await usdc.mint(user.address, usdcAmount("100000"));
+    await usdc.connect(user).approve(await shariaDCA.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("Limit Orders", function () {
+    // 1,000 USDC buys just under 0.01 BTC at the pool price
+    async function createLimitOrder(minBtcOut: bigint, expiresIn = HOUR) {
+      await shariaDCA
+        .connect(user)
+        .createLimitOrderWithToken(
+          await usdc.getAddress(),
+          await btc.getAddress(),
+          usdcAmount("1000"),
+          minBtcOut,
+          (await time.latest()) + expiresIn
+        );
+      return (await shariaDCA.nextLimitOrderId()) - 1n;
+    }
+
+    it("Should fill once the price reaches the limit (callable by anyone)", async function () {
+      const orderId = await createLimitOrder(ethers.parseEther("0.0098"));
+
+      await expect(shariaDCA.connect(keeper).executeLimitOrder(orderId)).to.emit(shariaDCA, "LimitOrderFilled");
+
+      const order = await shariaDCA.getLimitOrder(orderId);
+      expect(order.status).to.equal(1); // Filled
+      expect(await btc.balanceOf(user.address)).to.equal(order.amountOut);
+      expect(order.amountOut).to.be.gte(ethers.parseEther("0.0098"));
+    });
+
+    it("Should not fill above the limit price", async function () {
+      const orderId = await createLimitOrder(ethers.parseEther("0.02"));
+
+      const [, ready] = await shariaDCA.quoteLimitOrder(orderId);
+      expect(ready).to.be.false;
+      await expect(shariaDCA.executeLimitOrder(orderId)).to.be.revertedWithCustomError(shariaDCA, "LimitNotReached");
+    });
+
+    it("Should refund the deposit after expiry", async function () {
+      const orderId = await createLimitOrder(ethers.parseEther("0.02"));
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await time.increase(HOUR + 1);
+      await expect(shariaDCA.executeLimitOrder(orderId))
+        .to.emit(shariaDCA, "LimitOrderExpired")
+        .withArgs(orderId, user.address, usdcAmount("1000"));
+
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + usdcAmount("1000"));
+      expect((await shariaDCA.getLimitOrder(orderId)).status).to.equal(3); // Expired
+    });
+
+    it("Should let only the owner cancel an open order", async function () {
+      const orderId = await createLimitOrder(ethers.parseEther("0.02"));
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await expect(shariaDCA.connect(keeper).cancelLimitOrder(orderId)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(shariaDCA.connect(user).cancelLimitOrder(orderId))
+        .to.emit(shariaDCA, "LimitOrderCancelled")
+        .withArgs(orderId, user.address);
+
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + usdcAmount("1000"));
+      await expect(shariaDCA.executeLimitOrder(orderId)).to.be.revertedWithCustomError(shariaDCA, "OrderInactive");
+    });
+
+    it("Should cancel and refund instead of buying a delisted target", async function () {
+      const orderId = await createLimitOrder(ethers.parseEther("0.02"));
+      const balanceBefore = await usdc.balanceOf(user.address);
+      await shariaCompliance.updateComplianceStatus("BTC", false, "Delisted");
+
+      // Listed for the keeper even though the limit price isn't reached
+      const [upkeepNeeded, performData] = await shariaDCA.checkUpkeep("0x");
+      expect(upkeepNeeded).to.be.true;
+      const [, limitOrderIds] = ethers.AbiCoder.defaultAbiCoder().decode(["uint256[]", "uint256[]"], performData);
+      expect(limitOrderIds).to.deep.equal([orderId]);
+
+      await expect(shariaDCA.executeLimitOrder(orderId))
+        .to.emit(shariaDCA, "LimitOrderCancelled")
+        .withArgs(orderId, user.address);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + usdcAmount("1000"));
+      expect(await btc.balanceOf(user.address)).to.equal(0);
+    });
+  });
+
+  describe("Delisted DCA Targets", function () {
+    it("Should cancel and refund the remaining deposit instead of buying", async function () {
+      await shariaDCA
+        .connect(user)
+        .createDCAOrderWithToken(await usdc.getAddress(), await btc.getAddress(), usdcAmount("100"), HOUR, 5, 100, 0);
+      const balanceBefore = await usdc.balanceOf(user.address);
+      await shariaCompliance.updateComplianceStatus("BTC", false, "Delisted");
+
+      await time.increaseTo((await shariaDCA.getDCAOrder(1)).nextExecutionTime);
+      await expect(shariaDCA.connect(keeper).executeDCAOrder(1, 0))
+        .to.emit(shariaDCA, "DCAOrderCancelled")
+        .withArgs(1, user.address);
+
+      const order = await shariaDCA.getDCAOrder(1);
+      expect(order.isActive).to.be.false;
+      expect(order.intervalsCompleted).to.equal(0);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore + usdcAmount("500"));
+      expect(await btc.balanceOf(user.address)).to.equal(0);
+    });
+  });
+
+  describe("Slippage-Protected Executions", function () {
+    // 100 USDC buys just under 0.001 BTC at the pool price
+    async function createDCAOrder(maxSlippageBps = 100, minAmountOut = 0n) {
+      await shariaDCA
+        .connect(user)
+        .createDCAOrderWithToken(
+          await usdc.getAddress(),
+          await btc.getAddress(),
+          usdcAmount("100"),
+          HOUR,
+          5,
+          maxSlippageBps,
+          minAmountOut
+        );
+      const orderId = (await shariaDCA.nextOrderId()) - 1n;
+      await time.increaseTo((await shariaDCA.getDCAOrder(orderId)).nextExecutionTime);
+      return orderId;
+    }
+
+    it("Should reject a slippage tolerance above the maximum", async function () {
+      const maxSlippageBps = await shariaDCA.MAX_SLIPPAGE_BPS();
+
+      await expect(
+        shariaDCA
+          .connect(user)
+          .createDCAOrderWithToken(
+            await usdc.getAddress(),
+            await btc.getAddress(),
+            usdcAmount("100"),
+            HOUR,
+            5,
+            maxSlippageBps + 1n,
+            0
+          )
+      ).to.be.revertedWithCustomError(shariaDCA, "InvalidSlippage");
+    });
+
+    it("Should fill at the quoted minimum", async function () {
+      const orderId = await createDCAOrder();
+      const [expectedAmountOut, minAmountOut] = await shariaDCA.quoteDCAOrder(orderId);
+      expect(minAmountOut).to.equal((expectedAmountOut * 9900n) / 10000n);
+
+      await expect(shariaDCA.connect(keeper).executeDCAOrder(orderId, minAmountOut)).to.emit(
+        shariaDCA,
+        "DCAOrderExecuted"
+      );
+      expect(await btc.balanceOf(user.address)).to.equal(expectedAmountOut);
+      expect((await shariaDCA.getDCAOrder(orderId)).intervalsCompleted).to.equal(1);
+    });
+
+    it("Should skip without swapping when the quote is below the keeper's minimum", async function () {
+      const orderId = await createDCAOrder();
+      const [expectedAmountOut] = await shariaDCA.quoteDCAOrder(orderId);
+      const { nextExecutionTime } = await shariaDCA.getDCAOrder(orderId);
+
+      await expect(shariaDCA.connect(keeper).executeDCAOrder(orderId, expectedAmountOut + 1n))
+        .to.emit(shariaDCA, "DCAOrderSkipped")
+        .withArgs(orderId, expectedAmountOut, expectedAmountOut + 1n, (await time.latest()) + 1);
+
+      // Still due for the next attempt
+      const order = await shariaDCA.getDCAOrder(orderId);
+      expect(order.intervalsCompleted).to.equal(0);
+      expect(order.nextExecutionTime).to.equal(nextExecutionTime);
+      expect(await btc.balanceOf(user.address)).to.equal(0);
+    });
+
+    it("Should enforce the order's price floor over a lower keeper minimum", async function () {
+      const floor = ethers.parseEther("0.002");
+      const orderId = await createDCAOrder(100, floor);
+
+      const [, minAmountOut] = await shariaDCA.quoteDCAOrder(orderId);
+      expect(minAmountOut).to.equal(floor);
+      await expect(shariaDCA.connect(keeper).executeDCAOrder(orderId, 0)).to.emit(shariaDCA, "DCAOrderSkipped");
+      expect(await btc.balanceOf(user.address)).to.equal(0);
+    });
+
+    it("Should let only the order owner or a keeper execute", async function () {
+      const orderId = await createDCAOrder();
+
+      await expect(shariaDCA.connect(stranger).executeDCAOrder(orderId, 0)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(shariaDCA.connect(user).executeDCAOrder(orderId, 0)).to.emit(shariaDCA, "DCAOrderExecuted");
+    });
+
+    it("Should let only keepers perform upkeep with per-order minimums", async function () {
+      const orderId = await createDCAOrder();
+      const [expectedAmountOut, minAmountOut] = await shariaDCA.quoteDCAOrder(orderId);
+      const coder = ethers.AbiCoder.defaultAbiCoder();
+      const types = ["uint256[]", "uint256[]", "uint256[]"];
+
+      const performData = coder.encode(types, [[orderId], [minAmountOut], []]);
+      await expect(shariaDCA.connect(stranger).performUpkeep(performData)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(
+        shariaDCA.connect(keeper).performUpkeep(coder.encode(types, [[orderId], [], []]))
+      ).to.be.revertedWithCustomError(shariaDCA, "InvalidPerformData");
+
+      await expect(shariaDCA.connect(keeper).performUpkeep(performData)).to.emit(shariaDCA, "DCAOrderExecuted");
+      expect(await btc.balanceOf(user.address)).to.equal(expectedAmountOut);
+    });
+  });
+
+  describe("Pause, Resume and Top-Up", function () {
+    let orderId: bigint;
+
+    beforeEach(async function () {
+      await shariaDCA
+        .connect(user)
+        .createDCAOrderWithToken(await usdc.getAddress(), await btc.getAddress(), usdcAmount("100"), HOUR, 5, 100, 0);
+      orderId = (await shariaDCA.nextOrderId()) - 1n;
+    });
+
+    it("Should let only the order owner pause and resume", async function () {
+      await expect(shariaDCA.connect(keeper).pauseDCAOrder(orderId)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(shariaDCA.connect(user).pauseDCAOrder(orderId))
+        .to.emit(shariaDCA, "DCAOrderPaused")
+        .withArgs(orderId, user.address);
+      await expect(shariaDCA.connect(user).pauseDCAOrder(orderId)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "OrderPaused"
+      );
+
+      await expect(shariaDCA.connect(keeper).resumeDCAOrder(orderId)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(shariaDCA.connect(user).resumeDCAOrder(orderId)).to.emit(shariaDCA, "DCAOrderResumed");
+      await expect(shariaDCA.connect(user).resumeDCAOrder(orderId)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "OrderNotPaused"
+      );
+    });
+
+    it("Should not execute a paused order", async function () {
+      await shariaDCA.connect(user).pauseDCAOrder(orderId);
+      await time.increaseTo((await shariaDCA.getDCAOrder(orderId)).nextExecutionTime);
+
+      const [upkeepNeeded] = await shariaDCA.checkUpkeep("0x");
+      expect(upkeepNeeded).to.be.false;
+      await expect(shariaDCA.connect(keeper).executeDCAOrder(orderId, 0)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "OrderPaused"
+      );
+    });
+
+    it("Should reschedule an overdue order on resume instead of catching up", async function () {
+      await shariaDCA.connect(user).pauseDCAOrder(orderId);
+      await time.increase(3 * HOUR);
+
+      await expect(shariaDCA.connect(user).resumeDCAOrder(orderId)).to.emit(shariaDCA, "DCAOrderResumed");
+      const order = await shariaDCA.getDCAOrder(orderId);
+      expect(order.isPaused).to.be.false;
+      expect(order.nextExecutionTime).to.be.gt(await time.latest());
+    });
+
+    it("Should top up the deposit and extend the order, even while paused", async function () {
+      await shariaDCA.connect(user).pauseDCAOrder(orderId);
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await expect(shariaDCA.connect(user).topUpDCAOrder(orderId, 3))
+        .to.emit(shariaDCA, "DCAOrderToppedUp")
+        .withArgs(orderId, user.address, 3, 8, usdcAmount("300"));
+
+      expect((await shariaDCA.getDCAOrder(orderId)).totalIntervals).to.equal(8);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore - usdcAmount("300"));
+    });
+
+    it("Should reject top-ups from others, of zero intervals or with DEV on a token order", async function () {
+      await expect(shariaDCA.connect(keeper).topUpDCAOrder(orderId, 1)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "Unauthorized"
+      );
+      await expect(shariaDCA.connect(user).topUpDCAOrder(orderId, 0)).to.be.revertedWithCustomError(
+        shariaDCA,
+        "InvalidAmount"
+      );
+      await expect(
+        shariaDCA.connect(user).topUpDCAOrder(orderId, 1, { value: 1 })
+      ).to.be.revertedWithCustomError(shariaDCA, "InvalidAmount");
+    });
+
+    it("Should refund excess DEV when topping up a DEV order", async function () {
+      const amountPerInterval = ethers.parseEther("1");
+      await shariaDCA
+        .connect(user)
+        .createDCAOrderWithDEV(await btc.getAddress(), amountPerInterval, HOUR, 2, 100, 0, {
+          value: amountPerInterval * 2n,
+        });
+      const devOrderId = (await shariaDCA.nextOrderId()) - 1n;
+
+      await expect(
+        shariaDCA.connect(user).topUpDCAOrder(devOrderId, 2, { value: amountPerInterval - 1n })
+      ).to.be.revertedWithCustomError(shariaDCA, "InsufficientDeposit");
+      await expect(
+        shariaDCA.connect(user).topUpDCAOrder(devOrderId, 2, { value: amountPerInterval * 3n })
+      ).to.changeEtherBalances([user, shariaDCA], [-amountPerInterval * 2n, amountPerInterval * 2n]);
+      expect((await shariaDCA.getDCAOrder(devOrderId)).totalIntervals).to.equal(4);
+    });
+  });
+});
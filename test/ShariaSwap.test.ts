@@ -0,0 +1,260 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { MockERC20, ShariaCompliance, ShariaSwap, SimpleFactory, SimpleRouter, WETH9 } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+
+describe("ShariaSwap", function () {
+  let shariaCompliance: ShariaCompliance;
+  let shariaSwap: ShariaSwap;
+  let factory: SimpleFactory;
+  let router: SimpleRouter;
+  let weth: WETH9;
+  let usdc: MockERC20;
+  let btc: MockERC20;
+  let eth: MockERC20;
+  let hype: MockERC20;
+  let owner: SignerWithAddress;
+  let user: SignerWithAddress;
+
+  const HOUR = 3600;
+  const usdcAmount = (value: string) => ethers.parseUnits(value, 6);
+  const deadline = async () => (await time.latest()) + HOUR;
+
+  // Pools against USDC: BTC at 100,000, ETH at 4,000, DEV at 1 and HYPE at 10; HYPE is not compliant
+  beforeEach(async function () {
+    [owner, user] = await ethers.getSigners();
+
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+    btc = await MockERC20.deploy("Bitcoin", "BTC", 18);
+    eth = await MockERC20.deploy("Ether", "ETH", 18);
+    hype = await MockERC20.deploy("Hype", "HYPE", 18);
+    weth = await (await ethers.getContractFactory("WETH9")).deploy();
+    factory = await (await ethers.getContractFactory("SimpleFactory")).deploy();
+    router = await (await ethers.getContractFactory("SimpleRouter")).deploy(
+      await factory.getAddress(),
+      await weth.getAddress()
+    );
+
+    shariaCompliance = await (await ethers.getContractFactory("ShariaCompliance")).deploy();
+    await shariaCompliance.registerShariaCoin("USDC", "USD Coin", "USDC", await usdc.getAddress(), "Stablecoin");
+    await shariaCompliance.registerShariaCoin("BTC", "Bitcoin", "BTC", await btc.getAddress(), "Commodity");
+    await shariaCompliance.registerShariaCoin("ETH", "Ether", "ETH", await eth.getAddress(), "Utility");
+    await shariaCompliance.registerShariaCoin("DEV", "Wrapped DEV", "DEV", await weth.getAddress(), "Native");
+    await shariaCompliance.registerShariaCoin("HYPE", "Hype", "HYPE", await hype.getAddress(), "Speculative");
+    await shariaCompliance.updateComplianceStatus("HYPE", false, "Gambling-like tokenomics");
+
+    const routerAddress = await router.getAddress();
+    await usdc.mint(owner.address, usdcAmount("100000000"));
+    await usdc.approve(routerAddress, ethers.MaxUint256);
+    const pools: [MockERC20, string, string][] = [
+      [btc, "100", "10000000"],
+      [eth, "1000", "4000000"],
+      [hype, "10000", "100000"],
+    ];
+    for (const [token, tokenLiquidity, usdcLiquidity] of pools) {
+      await factory.createPair(await token.getAddress(), await usdc.getAddress());
+      await token.mint(owner.address, ethers.parseEther(tokenLiquidity));
+      await token.approve(routerAddress, ethers.MaxUint256);
+      await router.addLiquidity(
+        await token.getAddress(),
+        await usdc.getAddress(),
+        ethers.parseEther(tokenLiquidity),
+        usdcAmount(usdcLiquidity),
+        0,
+        0,
+        owner.address,
+        await deadline()
+      );
+    }
+    await factory.createPair(await usdc.getAddress(), await weth.getAddress());
+    await router.addLiquidityETH(
+      await usdc.getAddress(),
+      usdcAmount("100"),
+      0,
+      0,
+      owner.address,
+      await deadline(),
+      { value: ethers.parseEther("100") }
+    );
+
+    shariaSwap = await (await ethers.getContractFactory("ShariaSwap")).deploy(
+      await shariaCompliance.getAddress(),
+      routerAddress,
+      await weth.getAddress(),
+      await factory.getAddress()
+    );
+
+    await btc.mint(user.address, ethers.parseEther("1"));
+    await usdc.mint(user.address, usdcAmount("100000"));
+    await btc.connect(user).approve(await shariaSwap.getAddress(), ethers.MaxUint256);
+    await usdc.connect(user).approve(await shariaSwap.getAddress(), ethers.MaxUint256);
+  });
+
+  describe("Caller-Supplied Paths", function () {
+    it("Should quote and swap along a multi-hop path", async function () {
+      const path = [await btc.getAddress(), await usdc.getAddress(), await eth.getAddress()];
+      const amountIn = ethers.parseEther("0.1");
+
+      const quote = await shariaSwap.getSwapQuoteForPath(path, amountIn);
+      const amounts = await router.getAmountsOut(amountIn, path);
+      expect(quote).to.equal(amounts[2]);
+
+      await expect(shariaSwap.connect(user).swapShariaCompliantWithPath(path, amountIn, quote, await deadline()))
+        .to.emit(shariaSwap, "SwapExecuted")
+        .withArgs(user.address, path[0], path[2], amountIn, quote, "ETH");
+      expect(await eth.balanceOf(user.address)).to.equal(quote);
+    });
+
+    it("Should reject a hop without a pair", async function () {
+      const path = [await btc.getAddress(), await eth.getAddress()];
+
+      await expect(shariaSwap.getSwapQuoteForPath(path, ethers.parseEther("0.1")))
+        .to.be.revertedWithCustomError(shariaSwap, "PairNotFound")
+        .withArgs(path[0], path[1]);
+      await expect(
+        shariaSwap.connect(user).swapShariaCompliantWithPath(path, ethers.parseEther("0.1"), 0, await deadline())
+      ).to.be.revertedWithCustomError(shariaSwap, "PairNotFound");
+    });
+
+    it("Should reject a path through a non-compliant token", async function () {
+      // HYPE is only an intermediate hop, but still can't be touched
+      await factory.createPair(await hype.getAddress(), await eth.getAddress());
+      const path = [await btc.getAddress(), await usdc.getAddress(), await hype.getAddress(), await eth.getAddress()];
+
+      await expect(
+        shariaSwap.connect(user).swapShariaCompliantWithPath(path, ethers.parseEther("0.1"), 0, await deadline())
+      )
+        .to.be.revertedWithCustomError(shariaCompliance, "NotShariaCompliant")
+        .withArgs("HYPE");
+    });
+
+    it("Should reject paths that are too short, too long or repeat a token", async function () {
+      const [btcAddress, usdcAddress, ethAddress, wethAddress] = [
+        await btc.getAddress(),
+        await usdc.getAddress(),
+        await eth.getAddress(),
+        await weth.getAddress(),
+      ];
+      const tooLong = [btcAddress, usdcAddress, ethAddress, usdcAddress, wethAddress];
+      expect(tooLong.length).to.be.greaterThan(Number(await shariaSwap.MAX_PATH_LENGTH()));
+
+      const repeats = [
+        [btcAddress, usdcAddress, usdcAddress],
+        [btcAddress, usdcAddress, btcAddress],
+        [btcAddress, usdcAddress, btcAddress, ethAddress],
+      ];
+
+      for (const path of [[btcAddress], tooLong, ...repeats]) {
+        await expect(shariaSwap.getSwapQuoteForPath(path, ethers.parseEther("0.1"))).to.be.revertedWithCustomError(
+          shariaSwap,
+          "InvalidPath"
+        );
+      }
+    });
+  });
+
+  describe("Exact-Output Swaps", function () {
+    it("Should pull only the quoted input for an exact output", async function () {
+      const path = [await usdc.getAddress(), await btc.getAddress()];
+      const amountOut = ethers.parseEther("0.01");
+      const amountIn = await shariaSwap.getSwapQuoteInForPath(path, amountOut);
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await expect(
+        shariaSwap.connect(user).swapShariaCompliantExactOutput(path, amountOut, amountIn * 2n, await deadline())
+      )
+        .to.emit(shariaSwap, "SwapExecuted")
+        .withArgs(user.address, path[0], path[1], amountIn, amountOut, "BTC");
+
+      expect(await btc.balanceOf(user.address)).to.equal(ethers.parseEther("1") + amountOut);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore - amountIn);
+    });
+
+    it("Should revert when the required input exceeds the maximum", async function () {
+      const path = [await usdc.getAddress(), await btc.getAddress()];
+      const amountOut = ethers.parseEther("0.01");
+      const amountIn = await shariaSwap.getSwapQuoteInForPath(path, amountOut);
+
+      await expect(
+        shariaSwap.connect(user).swapShariaCompliantExactOutput(path, amountOut, amountIn - 1n, await deadline())
+      ).to.be.revertedWithCustomError(shariaSwap, "SlippageExceeded");
+    });
+
+    it("Should not quote more output than the pool holds", async function () {
+      const path = [await usdc.getAddress(), await btc.getAddress()];
+
+      await expect(shariaSwap.getSwapQuoteInForPath(path, ethers.parseEther("100"))).to.be.revertedWithCustomError(
+        shariaSwap,
+        "QuoteUnavailable"
+      );
+    });
+
+    it("Should refund DEV sent above the required input", async function () {
+      const path = [await weth.getAddress(), await usdc.getAddress()];
+      const amountOut = usdcAmount("1");
+      const amountIn = await shariaSwap.getSwapQuoteInForPath(path, amountOut);
+
+      await expect(
+        shariaSwap.connect(user).swapGLMRForExactTokens(path, amountOut, await deadline(), {
+          value: amountIn + ethers.parseEther("5"),
+        })
+      ).to.changeEtherBalances([user, shariaSwap], [-amountIn, 0]);
+      expect(await usdc.balanceOf(user.address)).to.equal(usdcAmount("100000") + amountOut);
+    });
+
+    it("Should revert when the DEV sent doesn't cover the required input", async function () {
+      const path = [await weth.getAddress(), await usdc.getAddress()];
+      const amountOut = usdcAmount("1");
+      const amountIn = await shariaSwap.getSwapQuoteInForPath(path, amountOut);
+
+      await expect(
+        shariaSwap.connect(user).swapGLMRForExactTokens(path, amountOut, await deadline(), { value: amountIn - 1n })
+      ).to.be.revertedWithCustomError(shariaSwap, "SlippageExceeded");
+    });
+  });
+
+  describe("Swaps to Native DEV", function () {
+    it("Should unwrap the output and send native DEV", async function () {
+      const path = [await btc.getAddress(), await usdc.getAddress(), await weth.getAddress()];
+      const amountIn = ethers.parseEther("0.0001");
+      const quote = await shariaSwap.getSwapQuoteForPath(path, amountIn);
+
+      await expect(
+        shariaSwap.connect(user).swapTokenForGLMR(path, amountIn, quote, await deadline())
+      ).to.changeEtherBalances([user, shariaSwap], [quote, 0]);
+      expect(await btc.balanceOf(user.address)).to.equal(ethers.parseEther("1") - amountIn);
+      expect(await weth.balanceOf(await shariaSwap.getAddress())).to.equal(0);
+    });
+
+    it("Should reject paths that don't end in WETH", async function () {
+      const path = [await btc.getAddress(), await usdc.getAddress()];
+
+      await expect(
+        shariaSwap.connect(user).swapTokenForGLMR(path, ethers.parseEther("0.0001"), 0, await deadline())
+      ).to.be.revertedWithCustomError(shariaSwap, "InvalidPath");
+    });
+
+    it("Should revert when the quote is below the minimum", async function () {
+      const path = [await usdc.getAddress(), await weth.getAddress()];
+      const quote = await shariaSwap.getSwapQuoteForPath(path, usdcAmount("10"));
+
+      await expect(
+        shariaSwap.connect(user).swapTokenForGLMR(path, usdcAmount("10"), quote + 1n, await deadline())
+      ).to.be.revertedWithCustomError(shariaSwap, "SlippageExceeded");
+    });
+
+    it("Should send an exact amount of DEV for the quoted input", async function () {
+      const path = [await usdc.getAddress(), await weth.getAddress()];
+      const amountOut = ethers.parseEther("1");
+      const amountIn = await shariaSwap.getSwapQuoteInForPath(path, amountOut);
+      const balanceBefore = await usdc.balanceOf(user.address);
+
+      await expect(
+        shariaSwap.connect(user).swapTokenForExactGLMR(path, amountOut, amountIn, await deadline())
+      ).to.changeEtherBalance(user, amountOut);
+      expect(await usdc.balanceOf(user.address)).to.equal(balanceBefore - amountIn);
+    });
+  });
+});